@@ -0,0 +1,16 @@
+CREATE TABLE `user_mcp_servers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`url` text NOT NULL,
+	`transport` text DEFAULT 'streamable-http' NOT NULL,
+	`headers` text DEFAULT '{}',
+	`allowed_tools` text,
+	`is_active` integer DEFAULT true,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `user_mcp_servers_user_name_idx` ON `user_mcp_servers` (`user_id`,`name`);--> statement-breakpoint
+CREATE INDEX `user_mcp_servers_user_idx` ON `user_mcp_servers` (`user_id`);
\ No newline at end of file
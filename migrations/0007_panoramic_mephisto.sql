@@ -0,0 +1,16 @@
+CREATE TABLE `integration_request_logs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`app_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`integration_id` text NOT NULL,
+	`method` text NOT NULL,
+	`path` text NOT NULL,
+	`status` integer NOT NULL,
+	`duration_ms` integer NOT NULL,
+	`error` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `integration_request_logs_app_created_at_idx` ON `integration_request_logs` (`app_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `integration_request_logs_user_idx` ON `integration_request_logs` (`user_id`);
\ No newline at end of file
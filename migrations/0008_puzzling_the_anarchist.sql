@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `role` text DEFAULT 'user' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `credit_transactions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`type` text NOT NULL,
+	`amount` real NOT NULL,
+	`app_id` text,
+	`model` text,
+	`action_key` text,
+	`note` text,
+	`created_by` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `credit_transactions_user_created_at_idx` ON `credit_transactions` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `credit_transactions_app_idx` ON `credit_transactions` (`app_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `apps` ADD `github_default_branch` text;--> statement-breakpoint
+ALTER TABLE `apps` ADD `github_synced_commit_sha` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `user_model_configs` ADD `stream_format` text;
\ No newline at end of file
@@ -0,0 +1,19 @@
+-- Apps could end up with several projects when concurrent edits created them.
+-- Keep the oldest project of each app and move the history of the others to it.
+UPDATE `file_edits` SET `project_id` = (
+	SELECT `keep`.`id` FROM `projects` `keep`
+	WHERE `keep`.`app_id` = (SELECT `app_id` FROM `projects` WHERE `projects`.`id` = `file_edits`.`project_id`)
+	ORDER BY `keep`.`created_at`, `keep`.`id` LIMIT 1
+);--> statement-breakpoint
+UPDATE `project_sessions` SET `project_id` = (
+	SELECT `keep`.`id` FROM `projects` `keep`
+	WHERE `keep`.`app_id` = (SELECT `app_id` FROM `projects` WHERE `projects`.`id` = `project_sessions`.`project_id`)
+	ORDER BY `keep`.`created_at`, `keep`.`id` LIMIT 1
+);--> statement-breakpoint
+DELETE FROM `projects` WHERE `id` <> (
+	SELECT `keep`.`id` FROM `projects` `keep`
+	WHERE `keep`.`app_id` = `projects`.`app_id`
+	ORDER BY `keep`.`created_at`, `keep`.`id` LIMIT 1
+);--> statement-breakpoint
+DROP INDEX `projects_app_id_idx`;--> statement-breakpoint
+CREATE UNIQUE INDEX `projects_app_id_idx` ON `projects` (`app_id`);
@@ -1,5 +1,6 @@
 import type { RateLimitError } from "worker/services/rate-limit/errors";
-import type { RateLimitType } from "worker/services/rate-limit/config";
+import { RateLimitType } from "worker/services/rate-limit/config";
+import type { CreditBalance } from "worker/database/types";
 
 /**
  * Security error types for proper error handling
@@ -57,4 +58,19 @@ export class RateLimitExceededError extends SecurityError {
             error.suggestions
         );
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Thrown before inference when the user's monthly credit budget is used up.
+ * Extends RateLimitExceededError so existing handlers stop generation the same way.
+ */
+export class CreditBudgetExceededError extends RateLimitExceededError {
+    constructor(
+        message: string,
+        public balance: CreditBalance,
+        suggestions?: string[]
+    ) {
+        super(message, RateLimitType.LLM_CALLS, balance.allowance + balance.topUps, undefined, suggestions);
+        this.name = 'CreditBudgetExceededError';
+    }
+}
@@ -4,6 +4,8 @@
  */
 import { SessionResponse } from 'worker/utils/authUtils';
 import { AuthUser } from './api-types';
+import type { ApiKeyScopeGrant } from 'worker/types/auth-types';
+import type { StreamFormat } from 'worker/agents/inferutils/config.types';
 
 export type { SecretTemplate } from 'worker/types/secretsTemplates';
 
@@ -37,23 +39,50 @@ export type {
 export type {
   AppDetailsData,
   AppStarToggleData,
+  ForkAppData,
+  ForkAppRequest,
   GeneratedCodeFile,
   GitCloneTokenData
 } from 'worker/api/controllers/appView/types';
 
+// Comment API Types
+export type {
+  CommentsListData,
+  CommentData,
+  CommentDeleteData,
+  CommentLikeToggleData,
+  CreateCommentRequest,
+} from 'worker/api/controllers/comments/types';
+
+export type { CommentWithStats } from 'worker/database/types';
+
+// Collaborator API Types
+export type {
+  CollaboratorsListData,
+  CollaboratorData,
+  CollaboratorRoleData,
+  CollaboratorRemoveData,
+  AddCollaboratorRequest,
+} from 'worker/api/controllers/collaborators/types';
+
+export type { CollaboratorWithUser, AppAccessRole } from 'worker/database/types';
+
 // User-related API Types
 export type {
   UserAppsData,
   ProfileUpdateData,
 } from 'worker/api/controllers/user/types';
 
+export type { UserCreditsData } from 'worker/api/controllers/credits/types';
+
 // Project-related API Types
 export type {
   ProjectListData,
   ProjectData,
   ProjectSessionData,
   ProjectDeleteData,
-  ProjectWithSession
+  ProjectWithSession,
+  FileEditHistoryData
 } from 'worker/api/controllers/project/types';
 
 // Project database schema types
@@ -123,6 +152,31 @@ export type {
   TestProviderRequest
 } from 'worker/api/controllers/modelProviders/types';
 
+// MCP Server API Types
+export type {
+  McpServersListData,
+  McpServerData,
+  McpServerDeleteData,
+  CreateMcpServerRequest,
+  UpdateMcpServerRequest
+} from 'worker/api/controllers/mcpServers/types';
+
+// Admin API Types
+export type {
+  AdminUsersData,
+  AdminUserSuspensionData,
+  AdminUserCreditsData,
+  AdminCreditTopUpData,
+  AdminAppsData,
+  AdminAppFeaturedData,
+  AdminAuditLogsData,
+  AdminSystemSettingsData,
+  AdminSystemSettingData,
+  AdminSystemSettingDeleteData,
+  AdminAnalyticsData,
+  UpdateSystemSettingRequest
+} from 'worker/api/controllers/admin/types';
+
 // Frontend model config update interface that matches backend schema
 export interface ModelConfigUpdate {
   modelName?: string | null;
@@ -130,6 +184,7 @@ export interface ModelConfigUpdate {
   temperature?: number | null;
   reasoningEffort?: string | null;
   fallbackModel?: string | null;
+  streamFormat?: StreamFormat | null;
   isUserOverride?: boolean;
 }
 
@@ -164,7 +219,9 @@ export type {
   CodeFixEdits,
   ModelConfigsInfoMessage,
   AgentDisplayConfig,
-  ModelConfigsInfo
+  ModelConfigsInfo,
+  SessionRole,
+  PresenceUser
 } from 'worker/api/websocketTypes';
 
 // Database/Schema Types commonly used in frontend
@@ -172,7 +229,9 @@ export type {
   App,
   User,
   UserModelConfig,
-  UserModelProvider
+  UserModelProvider,
+  UserMcpServer,
+  SystemSetting
 } from 'worker/database/schema';
 
 export type {
@@ -180,7 +239,13 @@ export type {
   UserStats,
   UserActivity,
   UserModelConfigWithMetadata,
-  ModelTestResult
+  ModelTestResult,
+  AdminUserSummary,
+  AdminAppSummary,
+  AuditLogWithActor,
+  CreditBalance,
+  CreditSpendEntry,
+  CreditUsageBreakdown
 } from 'worker/database/types';
 
 // Agent/Generator Types
@@ -190,16 +255,27 @@ export type {
   CodeReviewOutputType,
   FileConceptType,
   FileOutputType as GeneratedFile,
+  WorkflowGraphType,
+  WorkflowStepType,
 } from 'worker/agents/schemas';
 
+export type {
+  WorkflowStepLog,
+  WorkflowStepLogStatus,
+} from 'worker/agents/domain/pure/WorkflowGraph';
+
 export type {
   AgentState,
-  PhasicState
+  PhasicState,
+  PhaseVisualCheck
 } from 'worker/agents/core/state';
 
+export type { BranchInfo } from 'worker/agents/git/git';
+
 export type {
   BehaviorType,
-  ProjectType
+  ProjectType,
+  DeploymentTarget
 } from 'worker/agents/core/types';
 
 export type {
@@ -217,7 +293,8 @@ export type {
   AgentConfig,
   ModelConfig,
   ReasoningEffortType as ReasoningEffort,
-  ProviderOverrideType as ProviderOverride
+  ProviderOverrideType as ProviderOverride,
+  StreamFormat
 } from 'worker/agents/inferutils/config.types';
 
 export type { RateLimitError } from "worker/services/rate-limit/errors";
@@ -263,8 +340,11 @@ export type {
   ApiKeyInfo, 
   AuthResult, 
   AuthUser,
-  OAuthProvider 
+  OAuthProvider,
+  ApiKeyScope,
+  ApiKeyScopeGrant
 } from 'worker/types/auth-types';
+export { API_KEY_SCOPES } from 'worker/types/auth-types';
 export type { 
   SessionResponse 
 } from 'worker/utils/authUtils';
@@ -320,10 +400,13 @@ export interface ApiKeysData {
     createdAt: Date | null;
     lastUsed: Date | null;
     isActive: boolean;
+    scopes: ApiKeyScopeGrant[];
   }>;
 }
 
 export type {
     GitHubExportOptions,
     GitHubExportResult,
+    GitHubLinkResult,
+    GitHubPullResult,
 } from 'worker/services/github/types';
@@ -4,7 +4,7 @@
  */
 
 import { useState } from 'react';
-import { LogIn, LogOut, Settings } from 'lucide-react';
+import { Gauge, LogIn, LogOut, Settings, Shield } from 'lucide-react';
 import { useNavigate } from 'react-router';
 import { motion, AnimatePresence } from 'framer-motion';
 import clsx from 'clsx';
@@ -166,6 +166,22 @@ export function AuthButton({ className }: AuthButtonProps) {
 								<Settings className="mr-1 h-4 w-4" />
 								Settings
 							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => navigate('/usage')}
+								className="cursor-pointer"
+							>
+								<Gauge className="mr-1 h-4 w-4" />
+								Usage
+							</DropdownMenuItem>
+							{user.role === 'admin' && (
+								<DropdownMenuItem
+									onClick={() => navigate('/admin')}
+									className="cursor-pointer"
+								>
+									<Shield className="mr-1 h-4 w-4" />
+									Admin
+								</DropdownMenuItem>
+							)}
 						</DropdownMenuGroup>
 
 						<DropdownMenuItem
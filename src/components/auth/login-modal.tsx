@@ -9,6 +9,7 @@ import { X, AlertCircle, Eye, EyeOff } from 'lucide-react';
 import { createPortal } from 'react-dom';
 import clsx from 'clsx';
 import { useAuth } from '@/contexts/auth-context';
+import { apiClient } from '@/lib/api-client';
 // import {
 // 	validateEmail,
 // 	validatePassword,
@@ -41,7 +42,7 @@ interface LoginModalProps {
 	showCloseButton?: boolean;
 }
 
-type AuthMode = 'login' | 'register';
+type AuthMode = 'login' | 'register' | 'forgot';
 
 export function LoginModal({
 	isOpen,
@@ -65,6 +66,7 @@ export function LoginModal({
 	const [password, setPassword] = useState('');
 	const [name, setName] = useState('');
 	const [confirmPassword, setConfirmPassword] = useState('');
+	const [resetMessage, setResetMessage] = useState<string | null>(null);
 
 	// Validation errors
 	const [validationErrors, setValidationErrors] = useState<
@@ -84,6 +86,7 @@ export function LoginModal({
 		setConfirmPassword('');
 		setValidationErrors({});
 		setShowPassword(false);
+		setResetMessage(null);
 		if (onClearError) onClearError();
 	};
 
@@ -111,7 +114,9 @@ export function LoginModal({
 		}
 
 		// Basic password validation
-		if (!password) {
+		if (mode === 'forgot') {
+			// Only the email is needed to request a reset link
+		} else if (!password) {
 			errors.password = 'Password is required';
 		} else if (password.length < 8) {
 			errors.password = 'Password must be at least 8 characters';
@@ -143,7 +148,10 @@ export function LoginModal({
 
 		setIsLoading(true);
 		try {
-			if (mode === 'login' && onEmailLogin) {
+			if (mode === 'forgot') {
+				const response = await apiClient.forgotPassword(email);
+				setResetMessage(response.data?.message ?? 'If an account exists for this email, a reset link has been sent');
+			} else if (mode === 'login' && onEmailLogin) {
 				await onEmailLogin({ email, password });
 			} else if (mode === 'register' && onRegister) {
 				await onRegister({ email, password, name: name.trim() });
@@ -222,6 +230,8 @@ export function LoginModal({
 											? `Sign in ${actionContext}`
 											: hasEmailAuth && mode === 'register'
 											? 'Create an account'
+											: hasEmailAuth && mode === 'forgot'
+											? 'Reset your password'
 											: 'Welcome back'}
 									</h2>
 									<p className="text-text-tertiary">
@@ -229,6 +239,8 @@ export function LoginModal({
 											? 'Authentication required for this action'
 											: hasEmailAuth && mode === 'register'
 											? 'Join to start building amazing applications'
+											: hasEmailAuth && mode === 'forgot'
+											? "Enter your email and we'll send you a reset link"
 											: 'Sign in to save your apps and access your workspace'}
 									</p>
 								</div>
@@ -363,6 +375,7 @@ export function LoginModal({
 											)}
 										</div>
 
+										{mode !== 'forgot' && (
 										<div className="relative">
 											<input
 												type={showPassword ? 'text' : 'password'}
@@ -387,6 +400,23 @@ export function LoginModal({
 												<p className="mt-1 text-sm text-destructive">{validationErrors.password}</p>
 											)}
 										</div>
+										)}
+
+										{mode === 'login' && (
+											<div className="text-right -mt-2">
+												<button
+													type="button"
+													onClick={() => switchMode('forgot')}
+													className="text-sm text-text-tertiary hover:text-text-primary transition-colors"
+												>
+													Forgot password?
+												</button>
+											</div>
+										)}
+
+										{mode === 'forgot' && resetMessage && (
+											<p className="text-sm text-text-secondary">{resetMessage}</p>
+										)}
 
 										{mode === 'register' && (
 											<div>
@@ -413,7 +443,9 @@ export function LoginModal({
 											disabled={isLoading}
 											className="w-full bg-primary hover:bg-primary/90 text-primary-foreground p-3 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
 										>
-											{isLoading 
+											{mode === 'forgot'
+												? (isLoading ? 'Sending...' : 'Send reset link')
+												: isLoading 
 												? (mode === 'register' ? 'Creating account...' : 'Signing in...')
 												: (mode === 'register' ? 'Create account' : 'Sign in')
 											}
@@ -424,8 +456,20 @@ export function LoginModal({
 
 							{/* Footer */}
 							<div className="px-6 pb-6 space-y-4">
+								{hasEmailAuth && mode === 'forgot' && (
+									<div className="text-center">
+										<button
+											type="button"
+											onClick={() => switchMode('login')}
+											className="text-sm text-text-tertiary hover:text-text-primary transition-colors"
+										>
+											Back to sign in
+										</button>
+									</div>
+								)}
+
 								{/* Mode switching (only if registration is available) */}
-								{hasRegistration && hasEmailAuth && (
+								{hasRegistration && hasEmailAuth && mode !== 'forgot' && (
 									<div className="text-center">
 										<button
 											type="button"
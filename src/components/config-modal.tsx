@@ -29,7 +29,8 @@ import type {
   UserModelConfigWithMetadata,
   ModelConfigUpdate,
   ByokProvidersData,
-  AgentDisplayConfig
+  AgentDisplayConfig,
+  StreamFormat
 } from '@/api-types';
 
 interface ConfigModalProps {
@@ -79,6 +80,14 @@ const getModelRecommendation = (agentAction: string) => {
   return recommendations[agentAction] || '';
 };
 
+// Agents that stream generated files and can switch output format
+const STREAM_FORMAT_AGENTS = new Set([
+  'firstPhaseImplementation',
+  'phaseImplementation',
+  'fileRegeneration',
+  'fastCodeFixer',
+]);
+
 export function ConfigModal({
   isOpen,
   onClose,
@@ -95,7 +104,8 @@ export function ConfigModal({
     modelName: userConfig?.name || 'default',
     temperature: userConfig?.temperature?.toString() || '',
     reasoningEffort: userConfig?.reasoning_effort || 'default',
-    fallbackModel: userConfig?.fallbackModel || 'default'
+    fallbackModel: userConfig?.fallbackModel || 'default',
+    streamFormat: userConfig?.stream_format || 'default'
   });
 
   // UI state
@@ -133,7 +143,8 @@ export function ConfigModal({
         modelName: userConfig?.name || 'default',
         temperature: userConfig?.temperature?.toString() || '',
         reasoningEffort: userConfig?.reasoning_effort || 'default',
-        fallbackModel: userConfig?.fallbackModel || 'default'
+        fallbackModel: userConfig?.fallbackModel || 'default',
+        streamFormat: userConfig?.stream_format || 'default'
       });
       setHasChanges(false);
       setByokModalOpen(false);
@@ -158,7 +169,8 @@ export function ConfigModal({
       modelName: userConfig?.name || 'default',
       temperature: userConfig?.temperature?.toString() || '',
       reasoningEffort: userConfig?.reasoning_effort || 'default',
-      fallbackModel: userConfig?.fallbackModel || 'default'
+      fallbackModel: userConfig?.fallbackModel || 'default',
+      streamFormat: userConfig?.stream_format || 'default'
     };
     
     setHasChanges(JSON.stringify(formData) !== JSON.stringify(originalFormData));
@@ -242,6 +254,7 @@ export function ConfigModal({
       ...(formData.temperature && { temperature: parseFloat(formData.temperature) }),
       ...(formData.reasoningEffort !== 'default' && { reasoningEffort: formData.reasoningEffort }),
       ...(formData.fallbackModel !== 'default' && { fallbackModel: formData.fallbackModel }),
+      ...(formData.streamFormat !== 'default' && { streamFormat: formData.streamFormat as StreamFormat }),
       isUserOverride: true
     };
   };
@@ -473,6 +486,26 @@ export function ConfigModal({
                   </p>
                 )}
               </div>
+
+              {/* Output Format */}
+              {STREAM_FORMAT_AGENTS.has(agentConfig.key) && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Output Format</Label>
+                  <Select value={formData.streamFormat} onValueChange={(value) => setFormData({...formData, streamFormat: value})}>
+                    <SelectTrigger className="h-10">
+                      <SelectValue placeholder="Select format..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Use default</SelectItem>
+                      <SelectItem value="scof">SCOF (Shell heredocs)</SelectItem>
+                      <SelectItem value="xml">XML (File and edit tags)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-text-tertiary">
+                    🔧 Default: {defaultConfig?.stream_format ?? 'based on model'}
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -8,7 +8,10 @@ import {
     Upload, 
     CheckCircle, 
     AlertCircle, 
-    Loader
+    Loader,
+    Download,
+    GitPullRequest,
+    Link
 } from 'lucide-react';
 import { apiClient } from '@/lib/api-client';
 
@@ -52,6 +55,7 @@ interface GitHubExportModalProps {
         repositoryName: string;
         isPrivate: boolean;
         description?: string;
+        forcePush?: boolean;
     }) => void;
     isExporting?: boolean;
     exportProgress?: {
@@ -62,6 +66,7 @@ interface GitHubExportModalProps {
     exportResult?: {
         success: boolean;
         repositoryUrl?: string;
+        pullRequestUrl?: string;
         error?: string;
         repositoryAlreadyExists?: boolean;
         existingRepositoryUrl?: string;
@@ -167,13 +172,22 @@ export function GitHubExportModal({
         repositoryUrl: string;
         timestamp: number;
     } | null>(null);
+    const [linkedRepositoryUrl, setLinkedRepositoryUrl] = useState<string | null>(null);
+    const [linkUrl, setLinkUrl] = useState('');
+    const [isLinking, setIsLinking] = useState(false);
+    const [linkError, setLinkError] = useState<string | null>(null);
+    const [isPulling, setIsPulling] = useState(false);
+    const [pullStatus, setPullStatus] = useState<{ type: 'success' | 'warning' | 'error'; message: string } | null>(null);
+    const [remoteCheckKey, setRemoteCheckKey] = useState(0);
+
+    const githubUrl = linkedRepositoryUrl ?? existingGithubUrl;
 
     React.useEffect(() => {
         if (isOpen) {
-            setMode(getInitialMode(existingGithubUrl));
+            setMode(getInitialMode(githubUrl));
             setRepositoryName('');
         }
-    }, [isOpen, existingGithubUrl, agentId]);
+    }, [isOpen, githubUrl, agentId]);
 
     React.useEffect(() => {
         if (exportResult?.success && exportResult.repositoryUrl) {
@@ -189,10 +203,56 @@ export function GitHubExportModal({
         [repositoryName, isPrivate, description]
     );
 
-    const handleExport = useCallback(() => {
-        onExport(exportOptions);
+    const handleExport = useCallback((forcePush?: boolean) => {
+        onExport(forcePush ? { ...exportOptions, forcePush } : exportOptions);
     }, [onExport, exportOptions]);
 
+    const handlePull = useCallback(async () => {
+        if (!agentId) return;
+        setIsPulling(true);
+        setPullStatus(null);
+        try {
+            const response = await apiClient.pullFromGitHub(agentId);
+            if (response.success && response.data) {
+                const { status, pulledCommits, conflicts } = response.data;
+                setPullStatus(
+                    status === 'conflict'
+                        ? { type: 'error', message: `Changed in both places: ${conflicts.join(', ')}` }
+                        : status === 'pulled'
+                            ? { type: 'success', message: `Pulled ${pulledCommits} commit${pulledCommits !== 1 ? 's' : ''} from GitHub` }
+                            : { type: 'success', message: 'Already up to date with GitHub' }
+                );
+                if (status !== 'conflict') {
+                    setShowConflictWarning(false);
+                    setRemoteCheckKey(key => key + 1);
+                }
+            }
+        } catch (error) {
+            setPullStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to pull from GitHub' });
+        } finally {
+            setIsPulling(false);
+        }
+    }, [agentId]);
+
+    const handleLink = useCallback(async () => {
+        if (!agentId || !linkUrl.trim()) return;
+        setIsLinking(true);
+        setLinkError(null);
+        try {
+            const response = await apiClient.linkGitHubRepository({ repositoryUrl: linkUrl.trim(), agentId });
+            if (response.success && response.data) {
+                setLinkedRepositoryUrl(response.data.repositoryUrl);
+                setRepositoryName(extractRepoName(response.data.repositoryUrl));
+                setLinkUrl('');
+                setMode('sync');
+            }
+        } catch (error) {
+            setLinkError(error instanceof Error ? error.message : 'Failed to link repository');
+        } finally {
+            setIsLinking(false);
+        }
+    }, [agentId, linkUrl]);
+
     const handleSubmit = useCallback((e: React.FormEvent) => {
         e.preventDefault();
         if (repositoryName.trim()) {
@@ -202,9 +262,11 @@ export function GitHubExportModal({
 
     const handleClose = useCallback(() => {
         if (!isExporting) {
-            setMode(getInitialMode(existingGithubUrl));
+            setMode(getInitialMode(githubUrl));
             setRepositoryName('');
             setDescription('');
+            setPullStatus(null);
+            setLinkError(null);
             
             if (lastExportSuccess && Date.now() - lastExportSuccess.timestamp > 10000) {
                 setLastExportSuccess(null);
@@ -212,26 +274,26 @@ export function GitHubExportModal({
             
             onClose();
         }
-    }, [isExporting, onClose, existingGithubUrl, lastExportSuccess]);
+    }, [isExporting, onClose, githubUrl, lastExportSuccess]);
 
     React.useEffect(() => {
         if (isOpen && !repositoryName) {
             setRepositoryName(
-                existingGithubUrl
-                    ? extractRepoName(existingGithubUrl)
+                githubUrl
+                    ? extractRepoName(githubUrl)
                     : generateRepoName(appTitle)
             );
         }
-    }, [isOpen, repositoryName, existingGithubUrl, appTitle]);
+    }, [isOpen, repositoryName, githubUrl, appTitle]);
 
     React.useEffect(() => {
-        if (isOpen && mode === 'sync' && existingGithubUrl && agentId) {
+        if (isOpen && mode === 'sync' && githubUrl && agentId) {
             setIsCheckingRemote(true);
             setShowConflictWarning(false);
             setRemoteStatus(null);
             
             apiClient.checkRemoteStatus({
-                repositoryUrl: existingGithubUrl,
+                repositoryUrl: githubUrl,
                 agentId
             })
             .then(response => {
@@ -249,7 +311,7 @@ export function GitHubExportModal({
                 setIsCheckingRemote(false);
             });
         }
-    }, [isOpen, mode, existingGithubUrl, agentId]);
+    }, [isOpen, mode, githubUrl, agentId, remoteCheckKey]);
 
     if (!isOpen) return null;
 
@@ -271,7 +333,7 @@ export function GitHubExportModal({
                 >
                     <ModalHeader 
                         mode={mode} 
-                        existingUrl={existingGithubUrl} 
+                        existingUrl={githubUrl} 
                         onClose={handleClose} 
                         disabled={isExporting} 
                     />
@@ -290,7 +352,7 @@ export function GitHubExportModal({
                                 
                                 {remoteStatus.divergedCommits.length > 0 && (
                                     <div>
-                                        <p className="font-medium mb-2">Commits that will be lost:</p>
+                                        <p className="font-medium mb-2">Commits only on GitHub:</p>
                                         <div className="bg-bg-2 rounded-lg p-3 max-h-32 overflow-y-auto space-y-2">
                                             {remoteStatus.divergedCommits.slice(0, 5).map((commit, i) => (
                                                 <div key={i} className="text-xs">
@@ -304,6 +366,14 @@ export function GitHubExportModal({
                                     </div>
                                 )}
                                 
+                                <p>
+                                    Pull their changes into your app first, or open a pull request with your changes.
+                                </p>
+
+                                {pullStatus && (
+                                    <StatusIndicator type={pullStatus.type} message={pullStatus.message} />
+                                )}
+
                                 <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
                                     <p className="text-yellow-600 dark:text-yellow-400 font-medium">
                                         ⚠️ Force pushing will replace GitHub's history with yours.
@@ -312,29 +382,64 @@ export function GitHubExportModal({
                                 </div>
                             </div>
                             
-                            <div className="flex gap-3 mt-6">
+                            <div className="grid grid-cols-2 gap-3 mt-6">
+                                <button
+                                    onClick={handlePull}
+                                    disabled={isPulling}
+                                    className={`${BUTTON_STYLES.primary} disabled:bg-brand/50 flex items-center justify-center gap-2`}
+                                >
+                                    {isPulling ? <Loader className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                                    Pull from GitHub
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        setShowConflictWarning(false);
+                                        handleExport();
+                                    }}
+                                    className={`${BUTTON_STYLES.secondary} flex items-center justify-center gap-2`}
+                                >
+                                    <GitPullRequest className="w-4 h-4" />
+                                    Open Pull Request
+                                </button>
                                 <button
                                     onClick={() => {
                                         setShowConflictWarning(false);
                                         onClose();
                                     }}
-                                    className={`flex-1 ${BUTTON_STYLES.secondary}`}
+                                    className={BUTTON_STYLES.ghost}
                                 >
                                     Cancel
                                 </button>
                                 <button
                                     onClick={() => {
                                         setShowConflictWarning(false);
-                                        handleExport();
+                                        handleExport(true);
                                     }}
-                                    className={`flex-1 ${BUTTON_STYLES.warning}`}
+                                    className={BUTTON_STYLES.warning}
                                 >
-                                    Force Push Anyway
+                                    Force Push
                                 </button>
                             </div>
                         </div>
                     ) : exportResult ? (
-                        exportResult.success ? (
+                        exportResult.success && exportResult.pullRequestUrl ? (
+                            <StatusMessage
+                                icon={GitPullRequest}
+                                iconColor="text-green-500"
+                                title="Pull Request Opened"
+                                message="GitHub had new commits, so your changes were opened as a pull request instead of overwriting them"
+                            >
+                                <a
+                                    href={exportResult.pullRequestUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className={`inline-flex items-center gap-2 ${BUTTON_STYLES.secondary}`}
+                                >
+                                    <GitPullRequest className="w-4 h-4" />
+                                    View Pull Request
+                                </a>
+                            </StatusMessage>
+                        ) : exportResult.success ? (
                             <StatusMessage
                                 icon={CheckCircle}
                                 iconColor="text-green-500"
@@ -370,7 +475,7 @@ export function GitHubExportModal({
                                         Would you like to sync your changes to this existing repository?
                                     </p>
                                 <div className="space-x-2">
-                                    <button onClick={handleExport} className={BUTTON_STYLES.primary}>
+                                    <button onClick={() => handleExport()} className={BUTTON_STYLES.primary}>
                                         Sync to Existing
                                     </button>
                                     <button onClick={onRetry || onClose} className={BUTTON_STYLES.secondary}>
@@ -486,7 +591,7 @@ export function GitHubExportModal({
                                 />
                             </div>
 
-                            {mode === 'sync' && existingGithubUrl && (
+                            {mode === 'sync' && githubUrl && (
                                 <div className="p-3 bg-bg-2 rounded-lg space-y-2">
                                     <div className="flex items-center justify-between">
                                         <p className="text-xs font-medium text-text-primary/60">
@@ -502,13 +607,13 @@ export function GitHubExportModal({
                                     </div>
                                     
                                     <a 
-                                        href={existingGithubUrl} 
+                                        href={githubUrl} 
                                         target="_blank" 
                                         rel="noopener noreferrer"
                                         className="text-xs text-text-primary/60 hover:text-brand transition-colors break-all flex items-center gap-1"
                                     >
                                         <Github className="w-3 h-3 flex-shrink-0" />
-                                        {existingGithubUrl}
+                                        {githubUrl}
                                     </a>
 
                                     {isCheckingRemote ? (
@@ -545,6 +650,47 @@ export function GitHubExportModal({
                                             )}
                                         </div>
                                     ) : null}
+
+                                    {pullStatus && (
+                                        <StatusIndicator type={pullStatus.type} message={pullStatus.message} />
+                                    )}
+
+                                    <button
+                                        type="button"
+                                        onClick={handlePull}
+                                        disabled={isPulling || isCheckingRemote}
+                                        className="text-xs text-brand hover:text-brand/80 disabled:text-text-primary/40 transition-colors flex items-center gap-1"
+                                    >
+                                        {isPulling ? <Loader className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+                                        Pull from GitHub
+                                    </button>
+                                </div>
+                            )}
+
+                            {mode !== 'sync' && agentId && (
+                                <div className="p-3 bg-bg-2 rounded-lg space-y-2">
+                                    <p className="text-xs font-medium text-text-primary/60">
+                                        Or link an existing repository
+                                    </p>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="url"
+                                            value={linkUrl}
+                                            onChange={(e) => setLinkUrl(e.target.value)}
+                                            placeholder="https://github.com/owner/repo"
+                                            className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-bg-4 border border-border-primary rounded-lg text-text-primary placeholder:text-text-primary/40 focus:outline-none focus:ring-2 focus:ring-brand/50 focus:border-brand"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={handleLink}
+                                            disabled={!linkUrl.trim() || isLinking}
+                                            className={`${BUTTON_STYLES.secondary} text-sm py-1.5 flex items-center gap-1 disabled:opacity-50`}
+                                        >
+                                            {isLinking ? <Loader className="w-3 h-3 animate-spin" /> : <Link className="w-3 h-3" />}
+                                            Link
+                                        </button>
+                                    </div>
+                                    {linkError && <StatusIndicator type="error" message={linkError} />}
                                 </div>
                             )}
 
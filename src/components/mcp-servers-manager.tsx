@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Pencil, Plug, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { CreateMcpServerRequest, UserMcpServer } from '@/api-types';
+import { apiClient } from '@/lib/api-client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+
+type Transport = CreateMcpServerRequest['transport'];
+
+interface ServerFormState {
+	name: string;
+	url: string;
+	transport: Transport;
+	/** One `Header: value` pair per line */
+	headers: string;
+	/** Comma separated tool names, empty for every tool */
+	allowedTools: string;
+}
+
+const EMPTY_FORM: ServerFormState = {
+	name: '',
+	url: '',
+	transport: 'streamable-http',
+	headers: '',
+	allowedTools: '',
+};
+
+function toFormState(server: UserMcpServer): ServerFormState {
+	return {
+		name: server.name,
+		url: server.url,
+		transport: server.transport,
+		headers: Object.entries(server.headers ?? {})
+			.map(([key, value]) => `${key}: ${value}`)
+			.join('\n'),
+		allowedTools: (server.allowedTools ?? []).join(', '),
+	};
+}
+
+function toRequest(form: ServerFormState): CreateMcpServerRequest {
+	const headers: Record<string, string> = {};
+	for (const line of form.headers.split('\n')) {
+		const separator = line.indexOf(':');
+		if (separator <= 0) continue;
+		headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+	}
+
+	const allowedTools = form.allowedTools
+		.split(',')
+		.map((tool) => tool.trim())
+		.filter(Boolean);
+
+	return {
+		name: form.name.trim(),
+		url: form.url.trim(),
+		transport: form.transport,
+		headers,
+		allowedTools: allowedTools.length > 0 ? allowedTools : null,
+	};
+}
+
+export function McpServersManager() {
+	const [servers, setServers] = useState<UserMcpServer[]>([]);
+	const [platformServers, setPlatformServers] = useState<string[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [dialogOpen, setDialogOpen] = useState(false);
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [form, setForm] = useState<ServerFormState>(EMPTY_FORM);
+	const [saving, setSaving] = useState(false);
+
+	const loadServers = useCallback(async () => {
+		try {
+			const response = await apiClient.getMcpServers();
+			if (response.data) {
+				setServers(response.data.servers);
+				setPlatformServers(response.data.platformServers);
+			}
+		} catch (error) {
+			console.error('Error loading MCP servers:', error);
+			toast.error('Failed to load MCP servers');
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		loadServers();
+	}, [loadServers]);
+
+	const openDialog = (server?: UserMcpServer) => {
+		setEditingId(server?.id ?? null);
+		setForm(server ? toFormState(server) : EMPTY_FORM);
+		setDialogOpen(true);
+	};
+
+	const handleSave = async () => {
+		setSaving(true);
+		try {
+			const request = toRequest(form);
+			if (editingId) {
+				await apiClient.updateMcpServer(editingId, request);
+				toast.success('MCP server updated');
+			} else {
+				await apiClient.createMcpServer(request);
+				toast.success('MCP server added');
+			}
+			setDialogOpen(false);
+			await loadServers();
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Failed to save MCP server');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleToggle = async (server: UserMcpServer, isActive: boolean) => {
+		try {
+			await apiClient.updateMcpServer(server.id, { isActive });
+			setServers((prev) =>
+				prev.map((s) => (s.id === server.id ? { ...s, isActive } : s)),
+			);
+		} catch (error) {
+			toast.error('Failed to update MCP server');
+		}
+	};
+
+	const handleDelete = async (server: UserMcpServer) => {
+		try {
+			await apiClient.deleteMcpServer(server.id);
+			setServers((prev) => prev.filter((s) => s.id !== server.id));
+			toast.success(`Removed ${server.name}`);
+		} catch (error) {
+			toast.error('Failed to delete MCP server');
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			<div className="flex items-start justify-between gap-4">
+				<p className="text-sm text-text-tertiary">
+					Tools from these servers are available to the agent in chat and while
+					debugging, prefixed with the server name. Reference vault secrets in
+					headers as <code className="text-xs">{'{{secret:ENV_VAR_NAME}}'}</code>.
+				</p>
+				<Button size="sm" variant="outline" className="gap-2 shrink-0" onClick={() => openDialog()}>
+					<Plus className="h-4 w-4" />
+					Add Server
+				</Button>
+			</div>
+
+			{platformServers.length > 0 && (
+				<div className="flex flex-wrap items-center gap-2 text-sm">
+					<span className="text-text-tertiary">Provided by the platform:</span>
+					{platformServers.map((name) => (
+						<Badge key={name} variant="secondary">
+							{name}
+						</Badge>
+					))}
+				</div>
+			)}
+
+			{loading ? (
+				<div className="flex items-center gap-2 text-sm text-text-tertiary">
+					<Loader2 className="h-4 w-4 animate-spin" />
+					Loading MCP servers...
+				</div>
+			) : servers.length === 0 ? (
+				<div className="text-center py-6 text-text-tertiary">
+					<Plug className="h-8 w-8 mx-auto mb-2 opacity-50" />
+					<p className="text-sm">No MCP servers yet</p>
+				</div>
+			) : (
+				<div className="divide-y divide-border-primary rounded-md border">
+					{servers.map((server) => (
+						<div key={server.id} className="flex items-center justify-between gap-4 p-3">
+							<div className="min-w-0 space-y-1">
+								<div className="flex items-center gap-2">
+									<span className="font-medium font-mono text-sm">{server.name}</span>
+									<Badge variant="outline" className="text-xs">
+										{server.transport === 'sse' ? 'SSE' : 'Streamable HTTP'}
+									</Badge>
+								</div>
+								<p className="text-xs text-text-tertiary truncate">{server.url}</p>
+								<p className="text-xs text-text-tertiary">
+									{server.allowedTools?.length
+										? `Tools: ${server.allowedTools.join(', ')}`
+										: 'All tools'}
+								</p>
+							</div>
+							<div className="flex items-center gap-2 shrink-0">
+								<Switch
+									checked={!!server.isActive}
+									onCheckedChange={(checked) => handleToggle(server, checked)}
+									aria-label={`Enable ${server.name}`}
+								/>
+								<Button variant="ghost" size="sm" onClick={() => openDialog(server)}>
+									<Pencil className="h-4 w-4" />
+								</Button>
+								<Button variant="ghost" size="sm" onClick={() => handleDelete(server)}>
+									<Trash2 className="h-4 w-4 text-destructive" />
+								</Button>
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+
+			<Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+				<DialogContent className="sm:max-w-lg">
+					<DialogHeader>
+						<DialogTitle>{editingId ? 'Edit MCP Server' : 'Add MCP Server'}</DialogTitle>
+						<DialogDescription>
+							The agent connects to the server when a conversation or debug session starts.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="space-y-4 py-2">
+						<div className="space-y-2">
+							<Label htmlFor="mcp-name">Name</Label>
+							<Input
+								id="mcp-name"
+								value={form.name}
+								onChange={(e) => setForm({ ...form, name: e.target.value })}
+								placeholder="e.g., linear"
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="mcp-url">URL</Label>
+							<Input
+								id="mcp-url"
+								value={form.url}
+								onChange={(e) => setForm({ ...form, url: e.target.value })}
+								placeholder="https://mcp.example.com/mcp"
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label>Transport</Label>
+							<Select
+								value={form.transport}
+								onValueChange={(value) => setForm({ ...form, transport: value as Transport })}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="streamable-http">Streamable HTTP</SelectItem>
+									<SelectItem value="sse">SSE</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="mcp-headers">Headers</Label>
+							<Textarea
+								id="mcp-headers"
+								value={form.headers}
+								onChange={(e) => setForm({ ...form, headers: e.target.value })}
+								placeholder={'Authorization: Bearer {{secret:LINEAR_API_KEY}}'}
+								className="font-mono text-xs"
+								rows={3}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="mcp-tools">Allowed tools</Label>
+							<Input
+								id="mcp-tools"
+								value={form.allowedTools}
+								onChange={(e) => setForm({ ...form, allowedTools: e.target.value })}
+								placeholder="Comma separated, leave empty to allow every tool"
+							/>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setDialogOpen(false)}>
+							Cancel
+						</Button>
+						<Button onClick={handleSave} disabled={saving || !form.name.trim() || !form.url.trim()}>
+							{saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+							{editingId ? 'Save' : 'Add Server'}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
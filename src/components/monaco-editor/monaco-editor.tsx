@@ -118,12 +118,20 @@ monaco.editor.defineTheme('vibesdk', {
 
 monaco.editor.setTheme('vibesdk');
 
+export interface MonacoEditorViewState {
+	cursorPosition: { line: number; column: number };
+	scrollTop: number;
+}
+
 export type MonacoEditorProps = React.ComponentProps<'div'> & {
 	createOptions?: monaco.editor.IStandaloneEditorConstructionOptions;
 	find?: string;
 	replace?: string;
 	enableTypeScriptFeatures?: 'auto' | boolean;
 	onChange?: (value: string) => void;
+	/** Cursor and scroll position to restore, applied whenever a new object is passed */
+	viewState?: Partial<MonacoEditorViewState>;
+	onViewStateChange?: (state: MonacoEditorViewState) => void;
 };
 
 export const MonacoEditor = memo<MonacoEditorProps>(function MonacoEditor({
@@ -132,12 +140,16 @@ export const MonacoEditor = memo<MonacoEditorProps>(function MonacoEditor({
 	replace,
 	enableTypeScriptFeatures = 'auto',
 	onChange,
+	viewState,
+	onViewStateChange,
 	...props
 }) {
 	const containerRef = useRef<HTMLDivElement>(null);
 	const editor = useRef<monaco.editor.IStandaloneCodeEditor>(undefined);
 	const prevValue = useRef<string>(createOptions.value || '');
 	const stickyScroll = useRef(true);
+	const onViewStateChangeRef = useRef(onViewStateChange);
+	onViewStateChangeRef.current = onViewStateChange;
 	const { theme } = useTheme();
 
 	const shouldEnableTypeScript = React.useMemo(() => {
@@ -245,8 +257,22 @@ export const MonacoEditor = memo<MonacoEditorProps>(function MonacoEditor({
 			}
 		}
 
+		// Report cursor and scroll movement so callers can persist them
+		const reportViewState = () => {
+			const position = editor.current?.getPosition();
+			if (!editor.current || !position) return;
+			onViewStateChangeRef.current?.({
+				cursorPosition: { line: position.lineNumber, column: position.column },
+				scrollTop: editor.current.getScrollTop(),
+			});
+		};
+		const cursorDisposable = editor.current.onDidChangeCursorPosition(reportViewState);
+		const scrollDisposable = editor.current.onDidScrollChange(reportViewState);
+
 		return () => {
 			changeDisposable?.dispose();
+			cursorDisposable.dispose();
+			scrollDisposable.dispose();
 			if (editorDomNode) {
 				editorDomNode.removeEventListener('wheel', handleWheel);
 				editorDomNode.removeEventListener('keydown', handleKeydown);
@@ -287,6 +313,31 @@ export const MonacoEditor = memo<MonacoEditorProps>(function MonacoEditor({
 		}
 	}, [createOptions.value, createOptions.language]);
 
+	// Runs after the content update above so positions resolve against the new value
+	useEffect(() => {
+		if (!editor.current || !viewState) return;
+
+		stickyScroll.current = false;
+		const { cursorPosition, scrollTop } = viewState;
+		if (cursorPosition) {
+			editor.current.setPosition({
+				lineNumber: cursorPosition.line,
+				column: cursorPosition.column,
+			});
+		}
+
+		// Wait a frame so the editor has its final layout before scrolling
+		const frame = requestAnimationFrame(() => {
+			if (!editor.current) return;
+			if (scrollTop !== undefined) {
+				editor.current.setScrollTop(scrollTop);
+			} else if (cursorPosition) {
+				editor.current.revealLineInCenter(cursorPosition.line);
+			}
+		});
+		return () => cancelAnimationFrame(frame);
+	}, [viewState]);
+
 	useEffect(() => {
 		if (!editor.current || !find) return;
 
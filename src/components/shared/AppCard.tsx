@@ -15,6 +15,7 @@ import {
 	CloudOff,
 	Loader2,
 	Github,
+	GitFork,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
@@ -246,8 +247,7 @@ const StatsDisplay = ({ stats }: { stats: StatsData }) => (
 			value={stats.starCount || 0}
 			highlighted={stats.userStarred}
 		/>
-		{/* Fork functionality temporarily removed - showing view count instead */}
-		{/* <StatItem icon={STATS_ICONS.forkCount} value={stats.forkCount || 0} /> */}
+		<StatItem icon={STATS_ICONS.forkCount} value={stats.forkCount || 0} />
 		<StatItem icon={STATS_ICONS.viewCount} value={stats.viewCount || 0} />
 	</div>
 );
@@ -285,6 +285,12 @@ const AppMetadata = ({
 					<span className="truncate text-ellipsis max-w-60 font-medium">
 						{app.title}
 					</span>
+					{app.parentAppTitle && (
+						<span className="flex items-center gap-1 truncate max-w-60 text-xs text-text-tertiary group-hover:text-bg-2">
+							<GitFork className="h-3 w-3 shrink-0" />
+							Forked from {app.parentAppTitle}
+						</span>
+					)}
 					<StatsDisplay stats={getAppStats(app)} />
 				</div>
 			</div>
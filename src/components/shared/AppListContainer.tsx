@@ -67,6 +67,11 @@ const getEmptyStateDefaults = (sortBy: AppSortOption, totalCount: number) => {
         title: 'No trending apps yet',
         description: 'Apps will appear here based on recent activity and engagement.'
       };
+    case 'featured':
+      return {
+        title: 'No featured apps yet',
+        description: 'Apps picked by the team will appear here.'
+      };
     case 'recent':
     default:
       return {
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Clock, TrendingUp, ChevronDownIcon, Star } from 'lucide-react';
+import { Clock, TrendingUp, ChevronDownIcon, Star, Award } from 'lucide-react';
 import type { AppSortOption } from '@/api-types';
 
 interface SortOption {
@@ -37,6 +37,11 @@ const SORT_CONFIGURATIONS: Record<AppSortOption, SortOption> = {
     label: 'Starred',
     icon: Star
   },
+  featured: {
+    value: 'featured',
+    label: 'Featured',
+    icon: Award
+  },
 };
 
 export const AppSortTabs: React.FC<AppSortTabsProps> = ({
@@ -301,6 +301,12 @@ export function GitCloneModal({
 										</code>
 									</div>
 
+									<p className="text-xs text-text-tertiary">
+										This token is read-only. To <code className="font-mono">git push</code> to main,
+										use an access token exchanged from an API key with build access. Pushes must
+										fast-forward main.
+									</p>
+
 									<Button
 										onClick={handleGenerateToken}
 										variant="outline"
@@ -22,6 +22,7 @@ export function AddSecretModal({ open, onOpenChange, onSecretAdded }: Props) {
 	const { encryptAndStoreSecret, isUnlocked, state } = useVault();
 	const [name, setName] = useState('');
 	const [value, setValue] = useState('');
+	const [envVarName, setEnvVarName] = useState('');
 	const [error, setError] = useState<string | null>(null);
 	const [isSaving, setIsSaving] = useState(false);
 
@@ -46,11 +47,14 @@ export function AddSecretModal({ open, onOpenChange, onSecretAdded }: Props) {
 		setIsSaving(true);
 
 		try {
-			const secretId = await encryptAndStoreSecret(name.trim(), value.trim());
+			// The env var name lets agents look the secret up (e.g. CLOUDFLARE_API_TOKEN for deploys)
+			const metadata = envVarName.trim() ? { envVarName: envVarName.trim() } : undefined;
+			const secretId = await encryptAndStoreSecret(name.trim(), value.trim(), metadata);
 
 			if (secretId) {
 				setName('');
 				setValue('');
+				setEnvVarName('');
 				onOpenChange(false);
 				onSecretAdded?.();
 			} else {
@@ -67,6 +71,7 @@ export function AddSecretModal({ open, onOpenChange, onSecretAdded }: Props) {
 		if (!open) {
 			setName('');
 			setValue('');
+			setEnvVarName('');
 			setError(null);
 		}
 		onOpenChange(open);
@@ -111,6 +116,17 @@ export function AddSecretModal({ open, onOpenChange, onSecretAdded }: Props) {
 						/>
 					</div>
 
+					{/* Environment variable */}
+					<div className="space-y-2">
+						<Label htmlFor="secret-env-var">Environment Variable (optional)</Label>
+						<Input
+							id="secret-env-var"
+							value={envVarName}
+							onChange={(e) => setEnvVarName(e.target.value.toUpperCase())}
+							placeholder="e.g., CLOUDFLARE_API_TOKEN"
+						/>
+					</div>
+
 					{/* Error message */}
 					{error && (
 						<div className="flex items-center gap-2 text-sm text-destructive">
@@ -190,6 +190,14 @@ class FeatureRegistry {
 		return this.features.get(id)?.definition.capabilities ?? null;
 	}
 
+	/**
+	 * Whether the feature renders its own preview without a sandbox preview URL
+	 */
+	hasStandalonePreview(id: ProjectType): boolean {
+		const capabilities = this.getCapabilities(id);
+		return !!capabilities?.hasPreview && !capabilities.requiresSandbox;
+	}
+
 	/**
 	 * Reset registry state
 	 */
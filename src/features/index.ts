@@ -43,6 +43,11 @@ function registerBuiltInFeatures(): void {
 		() => import('./presentation'),
 	);
 
+	// Workflow feature - Cloudflare Workflows step graphs
+	featureRegistry.register(
+		{ ...DEFAULT_FEATURE_DEFINITIONS.workflow, enabled: true },
+		() => import('./workflow'),
+	);
 
 	// General feature - general-purpose code generation
 	featureRegistry.register(
@@ -1,5 +1,6 @@
-import { User, Monitor, Expand, FileDown } from 'lucide-react';
+import { User, Monitor, Expand, FileDown, Presentation } from 'lucide-react';
 import { HeaderButton, HeaderToggleButton, HeaderDivider } from '@/components/shared/header-actions';
+import { sendWebSocketMessage } from '@/routes/chat/utils/websocket-helpers';
 import type { HeaderActionsProps } from '../../core/types';
 
 // Presentation-specific state keys
@@ -8,6 +9,7 @@ const PREVIEW_MODE_KEY = 'previewMode';
 
 export function PresentationHeaderActions({
 	previewRef,
+	websocket,
 	featureState,
 	setFeatureState,
 }: HeaderActionsProps) {
@@ -36,21 +38,27 @@ export function PresentationHeaderActions({
 		previewRef.current?.requestFullscreen();
 	};
 
-	const handleExportPdf = () => {
-		// PDF export via Reveal.js print stylesheet
+	const openPrintView = () => {
+		// Fallback: Reveal.js print stylesheet in a new window
 		const iframe = previewRef.current;
 		if (!iframe?.contentWindow) return;
 
-		// Navigate iframe to print view
 		const currentSrc = iframe.src;
 		const printUrl = currentSrc.includes('?')
 			? `${currentSrc}&print-pdf`
 			: `${currentSrc}?print-pdf`;
 
-		// Open print view in new window for PDF export
 		window.open(printUrl, '_blank');
 	};
 
+	const handleExport = (kind: 'pdf' | 'pptx') => {
+		// Rendered server-side; progress and the download link arrive over the websocket
+		const sent = sendWebSocketMessage(websocket, 'export_project', { kind });
+		if (!sent && kind === 'pdf') {
+			openPrintView();
+		}
+	};
+
 	return (
 		<>
 			<HeaderToggleButton
@@ -80,10 +88,17 @@ export function PresentationHeaderActions({
 
 			<HeaderButton
 				icon={FileDown}
-				label="Export PDF"
-				onClick={handleExportPdf}
+				label="PDF"
+				onClick={() => handleExport('pdf')}
 				title="Export presentation as PDF"
 			/>
+
+			<HeaderButton
+				icon={Presentation}
+				label="PPTX"
+				onClick={() => handleExport('pptx')}
+				title="Export presentation as PowerPoint"
+			/>
 		</>
 	);
 }
@@ -0,0 +1,37 @@
+import { Package } from 'lucide-react';
+import { BaseHeaderActions } from '@/components/shared/BaseHeaderActions';
+import { HeaderButton, HeaderDivider } from '@/components/shared/header-actions';
+import { sendWebSocketMessage } from '@/routes/chat/utils/websocket-helpers';
+import type { HeaderActionsProps } from '../../core/types';
+
+export function WorkflowHeaderActions({
+	websocket,
+	modelConfigs,
+	onRequestConfigs,
+	loadingConfigs,
+	onGitCloneClick,
+	isGitHubExportReady,
+	onGitHubExportClick,
+	editorRef,
+}: HeaderActionsProps) {
+	return (
+		<>
+			<HeaderButton
+				icon={Package}
+				label="Export"
+				onClick={() => sendWebSocketMessage(websocket, 'export_project', { kind: 'workflow' })}
+				title="Download the workflow project as a zip"
+			/>
+			<HeaderDivider />
+			<BaseHeaderActions
+				containerRef={editorRef}
+				modelConfigs={modelConfigs}
+				onRequestConfigs={onRequestConfigs}
+				loadingConfigs={loadingConfigs}
+				onGitCloneClick={onGitCloneClick}
+				isGitHubExportReady={isGitHubExportReady}
+				onGitHubExportClick={onGitHubExportClick}
+			/>
+		</>
+	);
+}
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { Clock, Hourglass, Play, Workflow as WorkflowIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { sendWebSocketMessage } from '@/routes/chat/utils/websocket-helpers';
+import type { WorkflowGraphType, WorkflowStepLog, WorkflowStepLogStatus } from '@/api-types';
+import type { PreviewComponentProps } from '../../core/types';
+
+const WORKFLOW_GRAPH_FILE = 'workflow.json';
+
+type RunState = {
+	runId: string;
+	status: 'running' | 'completed' | 'failed';
+	logs: WorkflowStepLog[];
+	error?: string;
+};
+
+const STATUS_STYLES: Record<WorkflowStepLogStatus, string> = {
+	running: 'text-accent',
+	completed: 'text-green-500',
+	failed: 'text-red-500',
+	skipped: 'text-text-primary/40',
+	sleeping: 'text-yellow-500',
+	waiting: 'text-yellow-500',
+};
+
+function parseGraph(contents?: string): WorkflowGraphType | null {
+	if (!contents) return null;
+	try {
+		return JSON.parse(contents) as WorkflowGraphType;
+	} catch {
+		return null;
+	}
+}
+
+function exampleParams(graph: WorkflowGraphType): string {
+	const params: Record<string, unknown> = {};
+	for (const param of graph.params) {
+		if (param.example === null) continue;
+		try {
+			params[param.name] = JSON.parse(param.example);
+		} catch {
+			params[param.name] = param.example;
+		}
+	}
+	return JSON.stringify(params, null, 2);
+}
+
+export function WorkflowPreview({ files = [], websocket, className = '' }: PreviewComponentProps) {
+	const graphContents = files.find(
+		(file) => file.filePath.replace(/^\/+/, '') === WORKFLOW_GRAPH_FILE,
+	)?.fileContents;
+	const graph = useMemo(() => parseGraph(graphContents), [graphContents]);
+
+	const [paramsText, setParamsText] = useState('');
+	const [paramsError, setParamsError] = useState<string | null>(null);
+	const [run, setRun] = useState<RunState | null>(null);
+
+	// Seed params from the declared examples whenever the graph changes
+	useEffect(() => {
+		if (graph) setParamsText(exampleParams(graph));
+	}, [graph]);
+
+	useEffect(() => {
+		if (!websocket) return;
+
+		const handleMessage = (event: MessageEvent) => {
+			try {
+				const message = JSON.parse(event.data as string);
+				if (message.type === 'workflow_run_started') {
+					setRun({ runId: message.runId, status: 'running', logs: [] });
+				} else if (message.type === 'workflow_step_log') {
+					setRun((prev) =>
+						prev && prev.runId === message.runId
+							? { ...prev, logs: [...prev.logs, message.log] }
+							: prev,
+					);
+				} else if (message.type === 'workflow_run_completed') {
+					setRun((prev) =>
+						prev && prev.runId === message.runId
+							? { ...prev, status: message.status, error: message.error }
+							: prev,
+					);
+				}
+			} catch (error) {
+				console.error('Error parsing WebSocket message:', error);
+			}
+		};
+
+		websocket.addEventListener('message', handleMessage);
+		return () => {
+			websocket.removeEventListener('message', handleMessage);
+		};
+	}, [websocket]);
+
+	const handleDryRun = () => {
+		let params: unknown;
+		try {
+			params = paramsText.trim() ? JSON.parse(paramsText) : {};
+		} catch {
+			setParamsError('Params must be valid JSON');
+			return;
+		}
+		if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+			setParamsError('Params must be a JSON object');
+			return;
+		}
+		setParamsError(null);
+		sendWebSocketMessage(websocket, 'workflow_dry_run', { params });
+	};
+
+	if (!graph) {
+		return (
+			<div className={clsx(className, 'flex items-center justify-center bg-bg-3')}>
+				<p className="text-text-primary/70 text-sm">
+					The workflow graph will appear here once it has been generated.
+				</p>
+			</div>
+		);
+	}
+
+	const latestStatus = (stepId: string) =>
+		run?.logs.filter((log) => log.stepId === stepId).at(-1)?.status;
+
+	return (
+		<div className={clsx(className, 'flex min-h-0 bg-bg-3')}>
+			<div className="flex-1 min-w-0 overflow-y-auto p-6">
+				<div className="flex items-center gap-2 mb-1">
+					<WorkflowIcon className="size-4 text-accent" />
+					<h2 className="text-sm font-medium text-text-primary">{graph.name}</h2>
+				</div>
+				<p className="text-xs text-text-primary/60 mb-4">{graph.description}</p>
+
+				<ol className="space-y-2">
+					{graph.steps.map((step, index) => {
+						const status = latestStatus(step.id);
+						return (
+							<li
+								key={step.id}
+								className="rounded-md border border-text/10 bg-bg-2 px-3 py-2"
+							>
+								<div className="flex items-center gap-2">
+									<span className="text-xs font-mono text-text-primary/40">{index + 1}</span>
+									{step.type === 'sleep' && <Clock className="size-3.5 text-text-primary/50" />}
+									{step.type === 'waitForEvent' && <Hourglass className="size-3.5 text-text-primary/50" />}
+									<span className="text-sm text-text-primary">{step.name}</span>
+									{step.duration && (
+										<span className="text-xs text-text-primary/50">{step.duration}</span>
+									)}
+									{status && (
+										<span className={clsx('ml-auto text-xs font-mono', STATUS_STYLES[status])}>
+											{status}
+										</span>
+									)}
+								</div>
+								<p className="mt-1 text-xs text-text-primary/60">{step.description}</p>
+							</li>
+						);
+					})}
+				</ol>
+			</div>
+
+			<div className="w-96 shrink-0 border-l border-text/10 flex flex-col min-h-0">
+				<div className="p-4 border-b border-text/10 space-y-2">
+					<label className="text-xs font-medium text-text-primary/70" htmlFor="workflow-params">
+						Params
+					</label>
+					<Textarea
+						id="workflow-params"
+						value={paramsText}
+						onChange={(event) => setParamsText(event.target.value)}
+						className="font-mono text-xs min-h-28"
+						spellCheck={false}
+					/>
+					{paramsError && <p className="text-xs text-red-500">{paramsError}</p>}
+					<Button
+						size="sm"
+						className="w-full"
+						onClick={handleDryRun}
+						disabled={!websocket || run?.status === 'running'}
+					>
+						<Play className="size-3.5" />
+						Dry run
+					</Button>
+				</div>
+
+				<div className="flex-1 min-h-0 overflow-y-auto p-4 font-mono text-xs space-y-1">
+					{!run && (
+						<p className="text-text-primary/50">
+							Dry runs execute each step with these params. Sleeps and event waits are skipped, event waits use the step's sample output.
+						</p>
+					)}
+					{run?.logs.map((log, index) => (
+						<div key={`${log.stepId}-${index}`}>
+							<span className={STATUS_STYLES[log.status]}>[{log.status}]</span>{' '}
+							<span className="text-text-primary">{log.stepName}</span>{' '}
+							<span className="text-text-primary/60">{log.message}</span>
+							{log.output !== undefined && (
+								<pre className="mt-0.5 ml-4 whitespace-pre-wrap text-text-primary/50">
+									{JSON.stringify(log.output, null, 2)}
+								</pre>
+							)}
+						</div>
+					))}
+					{run && run.status !== 'running' && (
+						<p className={clsx('pt-2', run.status === 'completed' ? 'text-green-500' : 'text-red-500')}>
+							{run.status === 'completed' ? 'Run completed' : `Run failed: ${run.error ?? 'unknown error'}`}
+						</p>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
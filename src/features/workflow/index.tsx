@@ -0,0 +1,45 @@
+/**
+ * Workflow Feature Module
+ *
+ * Feature module for Cloudflare Workflows projects. Workflows have no sandbox
+ * preview - the preview view shows the step graph and runs dry runs instead.
+ */
+
+import type { ViewDefinition } from '@/api-types';
+import type { FeatureModule } from '../core/types';
+import { WorkflowPreview } from './components/WorkflowPreview';
+import { WorkflowHeaderActions } from './components/WorkflowHeaderActions';
+
+const WORKFLOW_VIEWS: ViewDefinition[] = [
+	{
+		id: 'editor',
+		label: 'Code',
+		iconName: 'Code2',
+		tooltip: 'View and edit workflow code',
+	},
+	{
+		id: 'preview',
+		label: 'Steps',
+		iconName: 'Workflow',
+		tooltip: 'Inspect steps and dry run the workflow',
+	},
+	{
+		id: 'docs',
+		label: 'Docs',
+		iconName: 'FileText',
+		tooltip: 'View documentation',
+	},
+];
+
+const workflowFeatureModule: FeatureModule = {
+	id: 'workflow',
+
+	getViews(): ViewDefinition[] {
+		return WORKFLOW_VIEWS;
+	},
+
+	PreviewComponent: WorkflowPreview,
+	HeaderActionsComponent: WorkflowHeaderActions,
+};
+
+export default workflowFeatureModule;
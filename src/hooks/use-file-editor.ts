@@ -4,6 +4,16 @@ import type { WebSocket } from 'partysocket';
 
 const AUTO_SAVE_DELAY = 3000; // 3 seconds
 
+/**
+ * SHA-256 hex digest, matches the hash the agent uses for conflict detection
+ */
+async function hashContent(content: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+	return Array.from(new Uint8Array(digest))
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
 interface UseFileEditorOptions {
 	/** The active file path */
 	filePath: string;
@@ -53,13 +63,19 @@ export function useFileEditor(options: UseFileEditorOptions): UseFileEditorRetur
 	const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 	const lastSavedContentRef = useRef(initialContent);
 
-	// Update content when initialContent changes externally
+	// Update content when initialContent changes externally, unless that would drop local edits.
+	// Unsaved edits keep their original base so the next save is reported as a conflict.
 	useEffect(() => {
-		if (initialContent !== lastSavedContentRef.current) {
-			setContent(initialContent);
-			lastSavedContentRef.current = initialContent;
-			setHasUnsavedChanges(false);
+		if (initialContent === lastSavedContentRef.current) {
+			return;
 		}
+		if (hasUnsavedChanges) {
+			toast.warning(`${filePath} was changed by someone else`);
+			return;
+		}
+		setContent(initialContent);
+		lastSavedContentRef.current = initialContent;
+		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, [initialContent]);
 
 	// Cleanup timeout on unmount
@@ -79,12 +95,15 @@ export function useFileEditor(options: UseFileEditorOptions): UseFileEditorRetur
 		setIsSaving(true);
 
 		try {
-			// Send UPDATE_FILE message via WebSocket
+			// Send UPDATE_FILE message via WebSocket, the base hash lets the agent
+			// reject the save if someone else changed the file in the meantime
+			const baseHash = await hashContent(lastSavedContentRef.current);
 			websocket.send(JSON.stringify({
 				type: 'update_file',
 				data: {
 					filePath,
 					content,
+					baseHash,
 				}
 			}));
 
@@ -100,6 +119,29 @@ export function useFileEditor(options: UseFileEditorOptions): UseFileEditorRetur
 						toast.success('File saved successfully');
 						onSaved?.(filePath);
 						websocket.removeEventListener('message', handleMessage);
+					} else if (message.type === 'file_update_error' && message.filePath === filePath && message.conflict) {
+						setIsSaving(false);
+						websocket.removeEventListener('message', handleMessage);
+						const theirs: string = message.conflict.currentContent;
+						// Either way the latest version becomes the new base
+						lastSavedContentRef.current = theirs;
+						toast.error(message.error || 'File was changed by someone else', {
+							duration: Infinity,
+							action: {
+								label: 'Keep mine',
+								onClick: () => {
+									setHasUnsavedChanges(content !== theirs);
+								},
+							},
+							cancel: {
+								label: 'Use theirs',
+								onClick: () => {
+									setContent(theirs);
+									setHasUnsavedChanges(false);
+								},
+							},
+						});
+						onError?.(message.error);
 					} else if (message.type === 'file_update_error' && message.filePath === filePath) {
 						setIsSaving(false);
 						const errorMsg = message.error || 'Failed to save file';
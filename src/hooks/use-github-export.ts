@@ -75,13 +75,15 @@ export function useGitHubExport(
         
         if (githubExport === 'success') {
             const repositoryUrl = urlParams.get('repository_url');
+            const pullRequestUrl = urlParams.get('pull_request_url');
             setState(prev => ({
                 ...prev,
                 isExporting: false,
                 isModalOpen: true,
                 result: {
                     success: true,
-                    repositoryUrl: repositoryUrl || undefined
+                    repositoryUrl: repositoryUrl || undefined,
+                    pullRequestUrl: pullRequestUrl || undefined
                 }
             }));
             
@@ -89,6 +91,7 @@ export function useGitHubExport(
             const newUrl = new URL(window.location.href);
             newUrl.searchParams.delete('github_export');
             newUrl.searchParams.delete('repository_url');
+            newUrl.searchParams.delete('pull_request_url');
             window.history.replaceState({}, '', newUrl.toString());
             
         } else if (githubExport === 'error') {
@@ -136,6 +139,7 @@ export function useGitHubExport(
                 repositoryName: options.repositoryName,
                 description: options.description,
                 isPrivate: options.isPrivate,
+                forcePush: options.forcePush,
                 agentId: agentId
             });
 
@@ -158,7 +162,8 @@ export function useGitHubExport(
                     isExporting: false,
                     result: {
                         success: true,
-                        repositoryUrl: response.data?.repositoryUrl || ''
+                        repositoryUrl: response.data?.repositoryUrl || '',
+                        pullRequestUrl: response.data?.pullRequestUrl
                     }
                 }));
                 onSuccess?.();
@@ -14,7 +14,19 @@ import type{
 	AppDeleteData,
 	AppDetailsData,
 	AppStarToggleData,
+	ForkAppData,
+	ForkAppRequest,
 	GitCloneTokenData,
+	CommentsListData,
+	CommentData,
+	CommentDeleteData,
+	CommentLikeToggleData,
+	CreateCommentRequest,
+	CollaboratorsListData,
+	CollaboratorData,
+	CollaboratorRoleData,
+	CollaboratorRemoveData,
+	AddCollaboratorRequest,
 	UserAppsData,
 	ProfileUpdateData,
 	UserStatsData,
@@ -38,12 +50,31 @@ import type{
 	CreateProviderRequest,
 	UpdateProviderRequest,
 	TestProviderRequest,
+	McpServersListData,
+	McpServerData,
+	McpServerDeleteData,
+	CreateMcpServerRequest,
+	UpdateMcpServerRequest,
+	AdminUsersData,
+	AdminUserSuspensionData,
+	AdminUserCreditsData,
+	AdminCreditTopUpData,
+	AdminAppsData,
+	AdminAppFeaturedData,
+	AdminAuditLogsData,
+	AdminSystemSettingsData,
+	AdminSystemSettingData,
+	AdminSystemSettingDeleteData,
+	AdminAnalyticsData,
+	UpdateSystemSettingRequest,
 	SecretTemplatesData,
+	UserCreditsData,
 	AgentConnectionData,
 	AgentStreamingResponse,
 	App,
 	ActiveSessionsData,
 	ApiKeysData,
+	ApiKeyScopeGrant,
 	LoginResponseData,
 	RegisterResponseData,
 	ProfileResponseData,
@@ -62,8 +93,11 @@ import type{
 	ProjectSessionData,
 	ProjectDeleteData,
 	ProjectWithSession,
+	FileEditHistoryData,
 	Project,
 	ProjectSession,
+	GitHubLinkResult,
+	GitHubPullResult,
 } from '@/api-types';
 import {
 	RateLimitExceededError,
@@ -272,7 +306,8 @@ class ApiClient {
 		if (endpoint.includes('/api/agent')) return 'to create applications';
 		if (endpoint.includes('/favorite')) return 'to favorite this app';
 		if (endpoint.includes('/star')) return 'to star this app';
-		// if (endpoint.includes('/fork')) return 'to fork this app';
+		if (endpoint.includes('/fork')) return 'to fork this app';
+		if (endpoint.includes('/comments')) return 'to join the discussion';
 		// if (endpoint.includes('/apps')) return 'to access your apps';
 		if (endpoint.includes('/profile')) return 'to access your profile';
 		if (endpoint.includes('/settings')) return 'to access settings';
@@ -559,15 +594,143 @@ class ApiClient {
 		});
 	}
 
-	// /**
-	//  * Fork an app
-	//  */
-    // DISABLED: Has been disabled for initial alpha release, for security reasons
-	// async forkApp(appId: string): Promise<ApiResponse<ForkAppData>> {
-	// 	return this.request<ForkAppData>(`/api/apps/${appId}/fork`, {
-	// 		method: 'POST',
-	// 	});
-	// }
+	/**
+	 * Fork an app into a new project owned by the current user, optionally
+	 * branching from a completed phase or a commit
+	 */
+	async forkApp(appId: string, branchPoint?: ForkAppRequest): Promise<ApiResponse<ForkAppData>> {
+		return this.request<ForkAppData>(`/api/apps/${appId}/fork`, {
+			method: 'POST',
+			body: branchPoint,
+		});
+	}
+
+	// ===============================
+	// Comment API Methods
+	// ===============================
+
+	/**
+	 * Get threaded comments for an app
+	 */
+	async getAppComments(appId: string): Promise<ApiResponse<CommentsListData>> {
+		return this.request<CommentsListData>(`/api/apps/${appId}/comments`);
+	}
+
+	/**
+	 * Post a comment, or a reply when parentCommentId is set
+	 */
+	async createComment(
+		appId: string,
+		data: CreateCommentRequest,
+	): Promise<ApiResponse<CommentData>> {
+		return this.request<CommentData>(`/api/apps/${appId}/comments`, {
+			method: 'POST',
+			body: data,
+		});
+	}
+
+	/**
+	 * Edit one of the current user's comments
+	 */
+	async updateComment(
+		appId: string,
+		commentId: string,
+		content: string,
+	): Promise<ApiResponse<CommentData>> {
+		return this.request<CommentData>(
+			`/api/apps/${appId}/comments/${commentId}`,
+			{
+				method: 'PUT',
+				body: { content },
+			},
+		);
+	}
+
+	/**
+	 * Delete a comment (author, or app owner for moderation)
+	 */
+	async deleteComment(
+		appId: string,
+		commentId: string,
+	): Promise<ApiResponse<CommentDeleteData>> {
+		return this.request<CommentDeleteData>(
+			`/api/apps/${appId}/comments/${commentId}`,
+			{
+				method: 'DELETE',
+			},
+		);
+	}
+
+	/**
+	 * Like or unlike a comment
+	 */
+	async toggleCommentLike(
+		appId: string,
+		commentId: string,
+	): Promise<ApiResponse<CommentLikeToggleData>> {
+		return this.request<CommentLikeToggleData>(
+			`/api/apps/${appId}/comments/${commentId}/like`,
+			{
+				method: 'POST',
+			},
+		);
+	}
+
+	// ===============================
+	// Collaborator API Methods
+	// ===============================
+
+	/**
+	 * Get the collaborators of an app and the current user's role
+	 */
+	async getCollaborators(appId: string): Promise<ApiResponse<CollaboratorsListData>> {
+		return this.request<CollaboratorsListData>(`/api/apps/${appId}/collaborators`);
+	}
+
+	/**
+	 * Invite a registered user to an app as viewer or editor
+	 */
+	async addCollaborator(
+		appId: string,
+		data: AddCollaboratorRequest,
+	): Promise<ApiResponse<CollaboratorData>> {
+		return this.request<CollaboratorData>(`/api/apps/${appId}/collaborators`, {
+			method: 'POST',
+			body: data,
+		});
+	}
+
+	/**
+	 * Change a collaborator's role
+	 */
+	async updateCollaboratorRole(
+		appId: string,
+		userId: string,
+		role: AddCollaboratorRequest['role'],
+	): Promise<ApiResponse<CollaboratorRoleData>> {
+		return this.request<CollaboratorRoleData>(
+			`/api/apps/${appId}/collaborators/${userId}`,
+			{
+				method: 'PATCH',
+				body: { role },
+			},
+		);
+	}
+
+	/**
+	 * Remove a collaborator (owner, or the collaborator leaving the app)
+	 */
+	async removeCollaborator(
+		appId: string,
+		userId: string,
+	): Promise<ApiResponse<CollaboratorRemoveData>> {
+		return this.request<CollaboratorRemoveData>(
+			`/api/apps/${appId}/collaborators/${userId}`,
+			{
+				method: 'DELETE',
+			},
+		);
+	}
 
 	// ===============================
 	// Project API Methods
@@ -590,8 +753,21 @@ class ApiClient {
 	/**
 	 * Get project by app ID
 	 */
-	async getProjectByAppId(appId: string): Promise<ApiResponse<ProjectData>> {
-		return this.request<ProjectData>(`/api/projects/by-app/${appId}`);
+	async getProjectByAppId(
+		appId: string,
+	): Promise<ApiResponse<{ project: ProjectWithSession | null }>> {
+		return this.request<{ project: ProjectWithSession | null }>(
+			`/api/projects/by-app/${appId}`,
+		);
+	}
+
+	/**
+	 * Get the project of an app, created on the server on first use
+	 */
+	async ensureProjectForApp(appId: string): Promise<ApiResponse<ProjectData>> {
+		return this.request<ProjectData>(`/api/projects/by-app/${appId}`, {
+			method: 'POST',
+		});
 	}
 
 	/**
@@ -663,6 +839,30 @@ class ApiClient {
 		});
 	}
 
+	/**
+	 * Get file edit history for a project, newest first
+	 */
+	async getFileEdits(
+		projectId: string,
+		filters: {
+			filePath?: string;
+			editType?: 'user' | 'ai';
+			limit?: number;
+			offset?: number;
+		} = {},
+	): Promise<ApiResponse<FileEditHistoryData>> {
+		const queryParams = new URLSearchParams();
+		if (filters.filePath) queryParams.set('filePath', filters.filePath);
+		if (filters.editType) queryParams.set('editType', filters.editType);
+		if (filters.limit) queryParams.set('limit', filters.limit.toString());
+		if (filters.offset) queryParams.set('offset', filters.offset.toString());
+
+		const query = queryParams.toString();
+		return this.request<FileEditHistoryData>(
+			`/api/projects/${projectId}/edits${query ? `?${query}` : ''}`,
+		);
+	}
+
 	// ===============================
 	// User API Methods
 	// ===============================
@@ -739,6 +939,13 @@ class ApiClient {
 		});
 	}
 
+	/**
+	 * Get the monthly credit balance and spend breakdown
+	 */
+	async getUserCredits(): Promise<ApiResponse<UserCreditsData>> {
+		return this.request<UserCreditsData>('/api/user/credits');
+	}
+
 	// ===============================
 	// Stats API Methods
 	// ===============================
@@ -987,6 +1194,193 @@ class ApiClient {
 		});
 	}
 
+	// ===============================
+	// MCP Servers API Methods
+	// ===============================
+
+	/**
+	 * Get the user's MCP servers
+	 */
+	async getMcpServers(): Promise<ApiResponse<McpServersListData>> {
+		return this.request<McpServersListData>('/api/user/mcp-servers');
+	}
+
+	/**
+	 * Add an MCP server
+	 */
+	async createMcpServer(
+		data: CreateMcpServerRequest,
+	): Promise<ApiResponse<McpServerData>> {
+		return this.request<McpServerData>('/api/user/mcp-servers', {
+			method: 'POST',
+			body: data,
+		});
+	}
+
+	/**
+	 * Update an MCP server
+	 */
+	async updateMcpServer(
+		serverId: string,
+		data: UpdateMcpServerRequest,
+	): Promise<ApiResponse<McpServerData>> {
+		return this.request<McpServerData>(`/api/user/mcp-servers/${serverId}`, {
+			method: 'PUT',
+			body: data,
+		});
+	}
+
+	/**
+	 * Delete an MCP server
+	 */
+	async deleteMcpServer(
+		serverId: string,
+	): Promise<ApiResponse<McpServerDeleteData>> {
+		return this.request<McpServerDeleteData>(`/api/user/mcp-servers/${serverId}`, {
+			method: 'DELETE',
+		});
+	}
+
+	// ===============================
+	// Admin API Methods
+	// ===============================
+
+	/**
+	 * List users (admin only)
+	 */
+	async getAdminUsers(
+		params?: { page?: number; limit?: number; search?: string },
+	): Promise<ApiResponse<AdminUsersData>> {
+		const queryParams = new URLSearchParams();
+		if (params?.page) queryParams.set('page', params.page.toString());
+		if (params?.limit) queryParams.set('limit', params.limit.toString());
+		if (params?.search) queryParams.set('search', params.search);
+
+		const endpoint = `/api/admin/users${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+		return this.request<AdminUsersData>(endpoint);
+	}
+
+	/**
+	 * Suspend or reinstate a user (admin only)
+	 */
+	async setUserSuspended(
+		userId: string,
+		suspended: boolean,
+		reason?: string,
+	): Promise<ApiResponse<AdminUserSuspensionData>> {
+		return this.request<AdminUserSuspensionData>(`/api/admin/users/${userId}/suspension`, {
+			method: 'PUT',
+			body: { suspended, reason },
+		});
+	}
+
+	/**
+	 * Get a user's credit balance and top-ups (admin only)
+	 */
+	async getAdminUserCredits(
+		userId: string,
+	): Promise<ApiResponse<AdminUserCreditsData>> {
+		return this.request<AdminUserCreditsData>(`/api/admin/users/${userId}/credits`);
+	}
+
+	/**
+	 * Grant a user extra credits for the current month (admin only)
+	 */
+	async addCreditTopUp(
+		userId: string,
+		amount: number,
+		note?: string,
+	): Promise<ApiResponse<AdminCreditTopUpData>> {
+		return this.request<AdminCreditTopUpData>(`/api/admin/users/${userId}/credits/top-ups`, {
+			method: 'POST',
+			body: { amount, note },
+		});
+	}
+
+	/**
+	 * List all apps (admin only)
+	 */
+	async getAdminApps(
+		params?: { page?: number; limit?: number; search?: string; featured?: boolean },
+	): Promise<ApiResponse<AdminAppsData>> {
+		const queryParams = new URLSearchParams();
+		if (params?.page) queryParams.set('page', params.page.toString());
+		if (params?.limit) queryParams.set('limit', params.limit.toString());
+		if (params?.search) queryParams.set('search', params.search);
+		if (params?.featured) queryParams.set('featured', 'true');
+
+		const endpoint = `/api/admin/apps${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+		return this.request<AdminAppsData>(endpoint);
+	}
+
+	/**
+	 * Feature or unfeature an app (admin only)
+	 */
+	async setAppFeatured(
+		appId: string,
+		featured: boolean,
+	): Promise<ApiResponse<AdminAppFeaturedData>> {
+		return this.request<AdminAppFeaturedData>(`/api/admin/apps/${appId}/featured`, {
+			method: 'PUT',
+			body: { featured },
+		});
+	}
+
+	/**
+	 * List audit log entries (admin only)
+	 */
+	async getAuditLogs(
+		params?: { page?: number; limit?: number; entityType?: string; userId?: string },
+	): Promise<ApiResponse<AdminAuditLogsData>> {
+		const queryParams = new URLSearchParams();
+		if (params?.page) queryParams.set('page', params.page.toString());
+		if (params?.limit) queryParams.set('limit', params.limit.toString());
+		if (params?.entityType) queryParams.set('entityType', params.entityType);
+		if (params?.userId) queryParams.set('userId', params.userId);
+
+		const endpoint = `/api/admin/audit-logs${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+		return this.request<AdminAuditLogsData>(endpoint);
+	}
+
+	/**
+	 * Get system settings (admin only)
+	 */
+	async getSystemSettings(): Promise<ApiResponse<AdminSystemSettingsData>> {
+		return this.request<AdminSystemSettingsData>('/api/admin/settings');
+	}
+
+	/**
+	 * Create or update a system setting (admin only)
+	 */
+	async updateSystemSetting(
+		key: string,
+		data: UpdateSystemSettingRequest,
+	): Promise<ApiResponse<AdminSystemSettingData>> {
+		return this.request<AdminSystemSettingData>(`/api/admin/settings/${encodeURIComponent(key)}`, {
+			method: 'PUT',
+			body: data,
+		});
+	}
+
+	/**
+	 * Delete a system setting (admin only)
+	 */
+	async deleteSystemSetting(
+		key: string,
+	): Promise<ApiResponse<AdminSystemSettingDeleteData>> {
+		return this.request<AdminSystemSettingDeleteData>(`/api/admin/settings/${encodeURIComponent(key)}`, {
+			method: 'DELETE',
+		});
+	}
+
+	/**
+	 * Get instance-wide AI Gateway analytics (admin only)
+	 */
+	async getAdminAnalytics(days?: number): Promise<ApiResponse<AdminAnalyticsData>> {
+		const endpoint = days ? `/api/admin/analytics?days=${days}` : '/api/admin/analytics';
+		return this.request<AdminAnalyticsData>(endpoint);
+	}
+
 	// ===============================
 	// Secrets API Methods
 	// ===============================
@@ -1050,11 +1444,13 @@ class ApiClient {
 		repositoryName: string;
 		description?: string;
 		isPrivate?: boolean;
+		forcePush?: boolean;
 		agentId: string;
 	}): Promise<ApiResponse<{ 
 		authUrl?: string;
 		success?: boolean;
 		repositoryUrl?: string;
+		pullRequestUrl?: string;
 		skippedOAuth?: boolean;
 		alreadyExists?: boolean;
 		existingRepositoryUrl?: string;
@@ -1088,6 +1484,29 @@ class ApiClient {
 		});
 	}
 
+	/**
+	 * Link an app to an existing GitHub repository
+	 */
+	async linkGitHubRepository(data: {
+		repositoryUrl: string;
+		agentId: string;
+	}): Promise<ApiResponse<GitHubLinkResult>> {
+		return this.request<GitHubLinkResult>('/api/github-app/link', {
+			method: 'POST',
+			body: data,
+		});
+	}
+
+	/**
+	 * Pull new commits from the linked GitHub repository into the app
+	 */
+	async pullFromGitHub(agentId: string): Promise<ApiResponse<GitHubPullResult>> {
+		return this.request<GitHubPullResult>('/api/github-app/pull', {
+			method: 'POST',
+			body: { agentId },
+		});
+	}
+
 	// ===============================
 	// Agent/CodeGen API Methods
 	// ===============================
@@ -1154,11 +1573,13 @@ class ApiClient {
 	 */
 	async createApiKey(data: {
 		name: string;
+		scopes?: ApiKeyScopeGrant[];
 	}): Promise<
 		ApiResponse<{
 			key: string;
 			keyPreview: string;
 			name: string;
+			scopes: ApiKeyScopeGrant[];
 			message: string;
 		}>
 	> {
@@ -1166,6 +1587,7 @@ class ApiClient {
 			key: string;
 			keyPreview: string;
 			name: string;
+			scopes: ApiKeyScopeGrant[];
 			message: string;
 		}>('/api/auth/api-keys', {
 			method: 'POST',
@@ -1246,6 +1668,35 @@ class ApiClient {
 		);
 	}
 
+	/**
+	 * Request a password reset link
+	 */
+	async forgotPassword(
+		email: string,
+	): Promise<ApiResponse<{ message: string }>> {
+		return this.request<{ message: string }>(
+			'/api/auth/forgot-password',
+			{
+				method: 'POST',
+				body: { email },
+			},
+		);
+	}
+
+	/**
+	 * Set a new password with a reset token
+	 */
+	async resetPassword(data: {
+		token: string;
+		newPassword: string;
+		confirmPassword: string;
+	}): Promise<ApiResponse<{ message: string }>> {
+		return this.request<{ message: string }>('/api/auth/reset-password', {
+			method: 'POST',
+			body: data,
+		});
+	}
+
 	/**
 	 * Get CSRF token
 	 */
@@ -9,6 +9,9 @@ import Settings from './routes/settings/index';
 import AppsPage from './routes/apps';
 import AppView from './routes/app';
 import DiscoverPage from './routes/discover';
+import AdminPage from './routes/admin';
+import UsagePage from './routes/usage';
+import ResetPasswordPage from './routes/reset-password';
 import { ProtectedRoute } from './routes/protected-route';
 
 const routes = [
@@ -36,6 +39,10 @@ const routes = [
 				path: 'apps',
 				element: React.createElement(ProtectedRoute, { children: React.createElement(AppsPage) }),
 			},
+			{
+				path: 'usage',
+				element: React.createElement(ProtectedRoute, { children: React.createElement(UsagePage) }),
+			},
 			{
 				path: 'app/:id',
 				Component: AppView,
@@ -44,6 +51,14 @@ const routes = [
 				path: 'discover',
 				Component: DiscoverPage,
 			},
+			{
+				path: 'reset-password',
+				Component: ResetPasswordPage,
+			},
+			{
+				path: 'admin',
+				element: React.createElement(ProtectedRoute, { adminOnly: true, children: React.createElement(AdminPage) }),
+			},
 		],
 	},
 ] satisfies RouteObject[];
@@ -0,0 +1,628 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Award, Ban, Coins, RefreshCw, Shield, Trash2 } from 'lucide-react';
+import type {
+	AdminAnalyticsData,
+	AdminAppSummary,
+	AdminUserSummary,
+	AuditLogWithActor,
+	SystemSetting,
+} from '@/api-types';
+import { apiClient } from '@/lib/api-client';
+import { useAuth } from '@/contexts/auth-context';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+
+const PAGE_SIZE = 50;
+
+function formatDate(value: Date | string | null | undefined): string {
+	return value ? new Date(value).toLocaleString() : '—';
+}
+
+function PageControls({
+	page,
+	total,
+	onPageChange,
+}: {
+	page: number;
+	total: number;
+	onPageChange: (page: number) => void;
+}) {
+	const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+	return (
+		<div className="flex items-center justify-between pt-4 text-sm text-text-tertiary">
+			<span>{total} total</span>
+			<div className="flex items-center gap-2">
+				<Button variant="outline" size="sm" disabled={page <= 1} onClick={() => onPageChange(page - 1)}>
+					Previous
+				</Button>
+				<span>
+					Page {page} of {pageCount}
+				</span>
+				<Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => onPageChange(page + 1)}>
+					Next
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+function UsersPanel({ currentUserId }: { currentUserId?: string }) {
+	const [users, setUsers] = useState<AdminUserSummary[]>([]);
+	const [total, setTotal] = useState(0);
+	const [page, setPage] = useState(1);
+	const [search, setSearch] = useState('');
+	const [query, setQuery] = useState('');
+	const [loading, setLoading] = useState(false);
+
+	const load = useCallback(async () => {
+		setLoading(true);
+		try {
+			const response = await apiClient.getAdminUsers({ page, limit: PAGE_SIZE, search: query || undefined });
+			if (response.success && response.data) {
+				setUsers(response.data.users);
+				setTotal(response.data.pagination.total);
+			}
+		} catch (error) {
+			console.error('Failed to load users:', error);
+			toast.error('Failed to load users');
+		} finally {
+			setLoading(false);
+		}
+	}, [page, query]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const toggleSuspended = async (user: AdminUserSummary) => {
+		const suspend = !user.isSuspended;
+		const reason = suspend ? window.prompt(`Reason for suspending ${user.email} (optional)`) : undefined;
+		if (reason === null) return;
+		try {
+			await apiClient.setUserSuspended(user.id, suspend, reason || undefined);
+			toast.success(suspend ? 'User suspended' : 'User reinstated');
+			load();
+		} catch (error) {
+			console.error('Failed to update user:', error);
+			toast.error('Failed to update user');
+		}
+	};
+
+	const topUpCredits = async (user: AdminUserSummary) => {
+		try {
+			const response = await apiClient.getAdminUserCredits(user.id);
+			const balance = response.data?.balance;
+			const summary = balance
+				? `${user.email} has ${Math.round(balance.remaining)} of ${balance.allowance + balance.topUps} credits left this month.`
+				: `Add credits for ${user.email}.`;
+			const input = window.prompt(`${summary}\nCredits to add:`);
+			if (!input) return;
+			const amount = Number(input);
+			if (!Number.isFinite(amount) || amount <= 0) {
+				toast.error('Enter a positive number of credits');
+				return;
+			}
+			const note = window.prompt('Note (optional)');
+			await apiClient.addCreditTopUp(user.id, amount, note || undefined);
+			toast.success(`Added ${amount} credits for ${user.email}`);
+		} catch (error) {
+			console.error('Failed to add credits:', error);
+			toast.error('Failed to add credits');
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Users</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<form
+					className="flex gap-2 mb-4"
+					onSubmit={(e) => {
+						e.preventDefault();
+						setPage(1);
+						setQuery(search.trim());
+					}}
+				>
+					<Input placeholder="Search by email, name or username" value={search} onChange={(e) => setSearch(e.target.value)} />
+					<Button type="submit" variant="outline" disabled={loading}>
+						Search
+					</Button>
+				</form>
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>User</TableHead>
+							<TableHead>Provider</TableHead>
+							<TableHead>Apps</TableHead>
+							<TableHead>Joined</TableHead>
+							<TableHead>Last active</TableHead>
+							<TableHead>Status</TableHead>
+							<TableHead className="text-right">Actions</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{users.map((user) => (
+							<TableRow key={user.id}>
+								<TableCell>
+									<div className="font-medium">{user.displayName}</div>
+									<div className="text-xs text-text-tertiary">{user.email}</div>
+								</TableCell>
+								<TableCell>{user.provider}</TableCell>
+								<TableCell>{user.appCount}</TableCell>
+								<TableCell className="text-xs">{formatDate(user.createdAt)}</TableCell>
+								<TableCell className="text-xs">{formatDate(user.lastActiveAt)}</TableCell>
+								<TableCell>
+									<div className="flex gap-1">
+										{user.role === 'admin' && <Badge variant="outline">Admin</Badge>}
+										{user.isSuspended ? (
+											<Badge variant="destructive">Suspended</Badge>
+										) : (
+											<Badge variant="secondary">Active</Badge>
+										)}
+									</div>
+								</TableCell>
+								<TableCell className="text-right">
+									<div className="flex justify-end gap-2">
+										<Button variant="outline" size="sm" onClick={() => topUpCredits(user)}>
+											<Coins className="h-3 w-3 mr-1" />
+											Credits
+										</Button>
+										{user.id !== currentUserId && user.role !== 'admin' && (
+											<Button variant="outline" size="sm" onClick={() => toggleSuspended(user)}>
+												<Ban className="h-3 w-3 mr-1" />
+												{user.isSuspended ? 'Reinstate' : 'Suspend'}
+											</Button>
+										)}
+									</div>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+				<PageControls page={page} total={total} onPageChange={setPage} />
+			</CardContent>
+		</Card>
+	);
+}
+
+function AppsPanel() {
+	const [apps, setApps] = useState<AdminAppSummary[]>([]);
+	const [total, setTotal] = useState(0);
+	const [page, setPage] = useState(1);
+	const [search, setSearch] = useState('');
+	const [query, setQuery] = useState('');
+	const [featuredOnly, setFeaturedOnly] = useState(false);
+	const [loading, setLoading] = useState(false);
+
+	const load = useCallback(async () => {
+		setLoading(true);
+		try {
+			const response = await apiClient.getAdminApps({
+				page,
+				limit: PAGE_SIZE,
+				search: query || undefined,
+				featured: featuredOnly,
+			});
+			if (response.success && response.data) {
+				setApps(response.data.apps);
+				setTotal(response.data.pagination.total);
+			}
+		} catch (error) {
+			console.error('Failed to load apps:', error);
+			toast.error('Failed to load apps');
+		} finally {
+			setLoading(false);
+		}
+	}, [page, query, featuredOnly]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const toggleFeatured = async (app: AdminAppSummary) => {
+		try {
+			await apiClient.setAppFeatured(app.id, !app.isFeatured);
+			toast.success(app.isFeatured ? 'App unfeatured' : 'App featured');
+			load();
+		} catch (error) {
+			console.error('Failed to update app:', error);
+			toast.error('Failed to update app');
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Apps</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<form
+					className="flex gap-2 mb-4"
+					onSubmit={(e) => {
+						e.preventDefault();
+						setPage(1);
+						setQuery(search.trim());
+					}}
+				>
+					<Input placeholder="Search by title or ID" value={search} onChange={(e) => setSearch(e.target.value)} />
+					<Button type="submit" variant="outline" disabled={loading}>
+						Search
+					</Button>
+					<Button
+						type="button"
+						variant={featuredOnly ? 'default' : 'outline'}
+						onClick={() => {
+							setPage(1);
+							setFeaturedOnly(!featuredOnly);
+						}}
+					>
+						<Award className="h-4 w-4 mr-1" />
+						Featured only
+					</Button>
+				</form>
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>App</TableHead>
+							<TableHead>Owner</TableHead>
+							<TableHead>Visibility</TableHead>
+							<TableHead>Created</TableHead>
+							<TableHead className="text-right">Actions</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{apps.map((app) => (
+							<TableRow key={app.id}>
+								<TableCell>
+									<a href={`/app/${app.id}`} className="font-medium hover:underline">
+										{app.title}
+									</a>
+									{app.isFeatured && (
+										<Badge variant="outline" className="ml-2">
+											Featured
+										</Badge>
+									)}
+								</TableCell>
+								<TableCell className="text-xs">{app.ownerEmail ?? 'Anonymous'}</TableCell>
+								<TableCell>{app.visibility}</TableCell>
+								<TableCell className="text-xs">{formatDate(app.createdAt)}</TableCell>
+								<TableCell className="text-right">
+									<Button
+										variant="outline"
+										size="sm"
+										disabled={!app.isFeatured && app.visibility !== 'public'}
+										title={!app.isFeatured && app.visibility !== 'public' ? 'Only public apps can be featured' : undefined}
+										onClick={() => toggleFeatured(app)}
+									>
+										{app.isFeatured ? 'Unfeature' : 'Feature'}
+									</Button>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+				<PageControls page={page} total={total} onPageChange={setPage} />
+			</CardContent>
+		</Card>
+	);
+}
+
+function AuditLogPanel() {
+	const [logs, setLogs] = useState<AuditLogWithActor[]>([]);
+	const [total, setTotal] = useState(0);
+	const [page, setPage] = useState(1);
+	const [entityType, setEntityType] = useState('');
+
+	const load = useCallback(async () => {
+		try {
+			const response = await apiClient.getAuditLogs({ page, limit: PAGE_SIZE, entityType: entityType || undefined });
+			if (response.success && response.data) {
+				setLogs(response.data.logs);
+				setTotal(response.data.pagination.total);
+			}
+		} catch (error) {
+			console.error('Failed to load audit log:', error);
+			toast.error('Failed to load audit log');
+		}
+	}, [page, entityType]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Audit log</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<div className="flex gap-2 mb-4">
+					{['', 'user', 'app', 'session', 'system_setting'].map((type) => (
+						<Button
+							key={type || 'all'}
+							size="sm"
+							variant={entityType === type ? 'default' : 'outline'}
+							onClick={() => {
+								setPage(1);
+								setEntityType(type);
+							}}
+						>
+							{type || 'All'}
+						</Button>
+					))}
+				</div>
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Time</TableHead>
+							<TableHead>Actor</TableHead>
+							<TableHead>Action</TableHead>
+							<TableHead>Entity</TableHead>
+							<TableHead>Details</TableHead>
+							<TableHead>IP</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{logs.map((log) => (
+							<TableRow key={log.id}>
+								<TableCell className="text-xs whitespace-nowrap">{formatDate(log.createdAt)}</TableCell>
+								<TableCell className="text-xs">{log.actorEmail ?? log.userId ?? 'System'}</TableCell>
+								<TableCell className="font-mono text-xs">{log.action}</TableCell>
+								<TableCell className="font-mono text-xs">
+									{log.entityType}:{log.entityId}
+								</TableCell>
+								<TableCell className="font-mono text-xs max-w-xs truncate" title={JSON.stringify(log.newValues)}>
+									{log.newValues ? JSON.stringify(log.newValues) : ''}
+								</TableCell>
+								<TableCell className="text-xs">{log.ipAddress}</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+				<PageControls page={page} total={total} onPageChange={setPage} />
+			</CardContent>
+		</Card>
+	);
+}
+
+function SystemSettingsPanel() {
+	const [settings, setSettings] = useState<SystemSetting[]>([]);
+	const [key, setKey] = useState('');
+	const [value, setValue] = useState('');
+	const [description, setDescription] = useState('');
+	const [saving, setSaving] = useState(false);
+
+	const load = useCallback(async () => {
+		try {
+			const response = await apiClient.getSystemSettings();
+			if (response.success && response.data) {
+				setSettings(response.data.settings);
+			}
+		} catch (error) {
+			console.error('Failed to load settings:', error);
+			toast.error('Failed to load system settings');
+		}
+	}, []);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const editSetting = (setting: SystemSetting) => {
+		setKey(setting.key);
+		setValue(JSON.stringify(setting.value, null, 2));
+		setDescription(setting.description ?? '');
+	};
+
+	const saveSetting = async () => {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(value);
+		} catch {
+			toast.error('Value must be valid JSON');
+			return;
+		}
+		setSaving(true);
+		try {
+			await apiClient.updateSystemSetting(key.trim(), { value: parsed, description: description || null });
+			toast.success('Setting saved');
+			setKey('');
+			setValue('');
+			setDescription('');
+			load();
+		} catch (error) {
+			console.error('Failed to save setting:', error);
+			toast.error('Failed to save setting');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const deleteSetting = async (settingKey: string) => {
+		if (!window.confirm(`Delete setting ${settingKey}?`)) return;
+		try {
+			await apiClient.deleteSystemSetting(settingKey);
+			toast.success('Setting deleted');
+			load();
+		} catch (error) {
+			console.error('Failed to delete setting:', error);
+			toast.error('Failed to delete setting');
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>System settings</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Key</TableHead>
+							<TableHead>Value</TableHead>
+							<TableHead>Description</TableHead>
+							<TableHead>Updated</TableHead>
+							<TableHead className="text-right">Actions</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{settings.map((setting) => (
+							<TableRow key={setting.id}>
+								<TableCell className="font-mono text-xs">{setting.key}</TableCell>
+								<TableCell className="font-mono text-xs max-w-xs truncate">{JSON.stringify(setting.value)}</TableCell>
+								<TableCell className="text-xs">{setting.description}</TableCell>
+								<TableCell className="text-xs">{formatDate(setting.updatedAt)}</TableCell>
+								<TableCell className="text-right space-x-2">
+									<Button variant="outline" size="sm" onClick={() => editSetting(setting)}>
+										Edit
+									</Button>
+									<Button variant="ghost" size="sm" onClick={() => deleteSetting(setting.key)}>
+										<Trash2 className="h-3 w-3" />
+									</Button>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+				<div className="space-y-2">
+					<Input placeholder="Key, e.g. signups.enabled" value={key} onChange={(e) => setKey(e.target.value)} />
+					<Textarea
+						placeholder='JSON value, e.g. true or {"limit": 10}'
+						className="font-mono text-xs"
+						value={value}
+						onChange={(e) => setValue(e.target.value)}
+					/>
+					<Input placeholder="Description (optional)" value={description} onChange={(e) => setDescription(e.target.value)} />
+					<Button onClick={saveSetting} disabled={saving || !key.trim() || !value.trim()}>
+						Save setting
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
+
+function SpendPanel() {
+	const [days, setDays] = useState(30);
+	const [analytics, setAnalytics] = useState<AdminAnalyticsData | null>(null);
+	const [loading, setLoading] = useState(false);
+
+	const load = useCallback(async () => {
+		setLoading(true);
+		try {
+			const response = await apiClient.getAdminAnalytics(days);
+			if (response.success && response.data) {
+				setAnalytics(response.data);
+			}
+		} catch (error) {
+			console.error('Failed to load analytics:', error);
+			toast.error('Failed to load AI spend');
+		} finally {
+			setLoading(false);
+		}
+	}, [days]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const stats = analytics
+		? [
+				{ label: 'Total cost', value: `$${analytics.totalCost.toFixed(2)}` },
+				{ label: 'Requests', value: analytics.totalRequests.toLocaleString() },
+				{ label: 'Tokens in', value: analytics.tokensIn.toLocaleString() },
+				{ label: 'Tokens out', value: analytics.tokensOut.toLocaleString() },
+				{ label: 'Error rate', value: `${analytics.errorRate.toFixed(1)}%` },
+				{ label: 'Cache hit rate', value: `${analytics.cacheHitRate.toFixed(1)}%` },
+			]
+		: [];
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-center justify-between">
+				<CardTitle>AI spend</CardTitle>
+				<div className="flex items-center gap-2">
+					{[7, 30, 90].map((option) => (
+						<Button key={option} size="sm" variant={days === option ? 'default' : 'outline'} onClick={() => setDays(option)}>
+							{option}d
+						</Button>
+					))}
+					<Button size="sm" variant="ghost" onClick={load} disabled={loading}>
+						<RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+					</Button>
+				</div>
+			</CardHeader>
+			<CardContent>
+				<div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+					{stats.map((stat) => (
+						<div key={stat.label} className="rounded-md border p-4">
+							<div className="text-xs text-text-tertiary">{stat.label}</div>
+							<div className="text-2xl font-semibold">{stat.value}</div>
+						</div>
+					))}
+				</div>
+				{analytics?.lastRequestAt && (
+					<p className="text-xs text-text-tertiary mt-4">Last request {formatDate(analytics.lastRequestAt)}</p>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+export default function AdminPage() {
+	const { user } = useAuth();
+
+	return (
+		<div className="min-h-screen">
+			<div className="container mx-auto px-4 py-8 space-y-6">
+				<div className="flex items-center gap-3">
+					<Shield className="h-8 w-8 text-accent" />
+					<div>
+						<h1 className="text-3xl font-bold">Admin</h1>
+						<p className="text-text-tertiary">Manage users, featured apps and instance settings</p>
+					</div>
+				</div>
+				<Tabs defaultValue="users">
+					<TabsList>
+						<TabsTrigger value="users">Users</TabsTrigger>
+						<TabsTrigger value="apps">Apps</TabsTrigger>
+						<TabsTrigger value="audit">Audit log</TabsTrigger>
+						<TabsTrigger value="settings">Settings</TabsTrigger>
+						<TabsTrigger value="spend">AI spend</TabsTrigger>
+					</TabsList>
+					<TabsContent value="users">
+						<UsersPanel currentUserId={user?.id} />
+					</TabsContent>
+					<TabsContent value="apps">
+						<AppsPanel />
+					</TabsContent>
+					<TabsContent value="audit">
+						<AuditLogPanel />
+					</TabsContent>
+					<TabsContent value="settings">
+						<SystemSettingsPanel />
+					</TabsContent>
+					<TabsContent value="spend">
+						<SpendPanel />
+					</TabsContent>
+				</Tabs>
+			</div>
+		</div>
+	);
+}
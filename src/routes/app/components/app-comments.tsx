@@ -0,0 +1,385 @@
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+	Heart,
+	Loader2,
+	MessageCircle,
+	Pencil,
+	Reply,
+	Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import type { CommentWithStats } from '@/api-types';
+import { apiClient, ApiError } from '@/lib/api-client';
+import { useAuth } from '@/contexts/auth-context';
+import { useAuthGuard } from '@/hooks/useAuthGuard';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+
+const MAX_COMMENT_LENGTH = 2000;
+// Deeper replies stay in the thread but stop indenting further
+const MAX_INDENT_DEPTH = 3;
+
+interface AppCommentsProps {
+	appId: string;
+}
+
+function updateComment(
+	comments: CommentWithStats[],
+	commentId: string,
+	update: (comment: CommentWithStats) => CommentWithStats,
+): CommentWithStats[] {
+	return comments.map((comment) =>
+		comment.id === commentId
+			? update(comment)
+			: {
+					...comment,
+					replies: updateComment(comment.replies, commentId, update),
+				},
+	);
+}
+
+function CommentForm({
+	initialValue = '',
+	placeholder,
+	submitLabel,
+	onSubmit,
+	onCancel,
+	autoFocus,
+}: {
+	initialValue?: string;
+	placeholder: string;
+	submitLabel: string;
+	onSubmit: (content: string) => Promise<boolean>;
+	onCancel?: () => void;
+	autoFocus?: boolean;
+}) {
+	const [value, setValue] = useState(initialValue);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const trimmed = value.trim();
+
+	const handleSubmit = async () => {
+		if (!trimmed || isSubmitting) return;
+		setIsSubmitting(true);
+		try {
+			if (await onSubmit(trimmed)) {
+				setValue('');
+			}
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	return (
+		<div className="flex flex-col gap-2">
+			<Textarea
+				value={value}
+				onChange={(e) => setValue(e.target.value)}
+				placeholder={placeholder}
+				maxLength={MAX_COMMENT_LENGTH}
+				autoFocus={autoFocus}
+				onKeyDown={(e) => {
+					if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+						e.preventDefault();
+						void handleSubmit();
+					}
+				}}
+			/>
+			<div className="flex items-center justify-end gap-2">
+				{onCancel && (
+					<Button variant="ghost" size="sm" onClick={onCancel}>
+						Cancel
+					</Button>
+				)}
+				<Button
+					size="sm"
+					onClick={() => void handleSubmit()}
+					disabled={!trimmed || isSubmitting}
+				>
+					{isSubmitting && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+					{submitLabel}
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+export function AppComments({ appId }: AppCommentsProps) {
+	const { user } = useAuth();
+	const { requireAuth } = useAuthGuard();
+	const [comments, setComments] = useState<CommentWithStats[]>([]);
+	const [totalCount, setTotalCount] = useState(0);
+	const [canModerate, setCanModerate] = useState(false);
+	const [loading, setLoading] = useState(true);
+	const [replyingTo, setReplyingTo] = useState<string | null>(null);
+	const [editingId, setEditingId] = useState<string | null>(null);
+
+	const fetchComments = useCallback(async () => {
+		try {
+			const response = await apiClient.getAppComments(appId);
+			if (response.data) {
+				setComments(response.data.comments);
+				setTotalCount(response.data.totalCount);
+				setCanModerate(response.data.canModerate);
+			}
+		} catch (error) {
+			console.error('Error fetching comments:', error);
+		} finally {
+			setLoading(false);
+		}
+	}, [appId]);
+
+	useEffect(() => {
+		void fetchComments();
+	}, [fetchComments]);
+
+	const ensureAuth = () =>
+		requireAuth({
+			requireFullAuth: true,
+			actionContext: 'to join the discussion',
+		});
+
+	const showError = (error: unknown, fallback: string) => {
+		// Typed errors (e.g. rate limits) are already toasted by the API client
+		if (error instanceof ApiError) {
+			toast.error(error.message || fallback);
+		}
+	};
+
+	const handleCreate = async (content: string, parentCommentId?: string) => {
+		if (!ensureAuth()) return false;
+		try {
+			await apiClient.createComment(appId, { content, parentCommentId });
+			setReplyingTo(null);
+			await fetchComments();
+			return true;
+		} catch (error) {
+			showError(error, 'Failed to post comment');
+			return false;
+		}
+	};
+
+	const handleUpdate = async (commentId: string, content: string) => {
+		try {
+			await apiClient.updateComment(appId, commentId, content);
+			setComments((prev) =>
+				updateComment(prev, commentId, (comment) => ({
+					...comment,
+					content,
+					isEdited: true,
+				})),
+			);
+			setEditingId(null);
+			return true;
+		} catch (error) {
+			showError(error, 'Failed to update comment');
+			return false;
+		}
+	};
+
+	const handleDelete = async (commentId: string) => {
+		try {
+			await apiClient.deleteComment(appId, commentId);
+			toast.success('Comment deleted');
+			await fetchComments();
+		} catch (error) {
+			showError(error, 'Failed to delete comment');
+		}
+	};
+
+	const handleToggleLike = async (commentId: string) => {
+		if (!ensureAuth()) return;
+		try {
+			const response = await apiClient.toggleCommentLike(appId, commentId);
+			if (response.data) {
+				const { isLiked, likeCount } = response.data;
+				setComments((prev) =>
+					updateComment(prev, commentId, (comment) => ({
+						...comment,
+						userLiked: isLiked,
+						likeCount,
+					})),
+				);
+			}
+		} catch (error) {
+			showError(error, 'Failed to update like');
+		}
+	};
+
+	const renderComment = (comment: CommentWithStats, depth: number) => {
+		const isAuthor = !!user && comment.userId === user.id;
+		const isEditing = editingId === comment.id;
+
+		return (
+			<div
+				key={comment.id}
+				className={cn(
+					'flex flex-col gap-3',
+					depth > 0 &&
+						depth <= MAX_INDENT_DEPTH &&
+						'pl-4 border-l border-border-primary/60',
+				)}
+			>
+				{comment.isDeleted ? (
+					<p className="text-sm italic text-text-tertiary py-1">
+						This comment was deleted
+					</p>
+				) : (
+					<div className="flex gap-3">
+						<Avatar className="h-8 w-8 flex-shrink-0">
+							<AvatarImage src={comment.userAvatar || undefined} />
+							<AvatarFallback className="text-xs">
+								{comment.userName?.charAt(0).toUpperCase() || '?'}
+							</AvatarFallback>
+						</Avatar>
+						<div className="flex-1 min-w-0">
+							<div className="flex items-center gap-2 text-xs text-text-tertiary">
+								<span className="font-medium text-text-primary">
+									{comment.userName || 'Anonymous User'}
+								</span>
+								{comment.createdAt && (
+									<span>
+										{formatDistanceToNow(new Date(comment.createdAt), {
+											addSuffix: true,
+										})}
+									</span>
+								)}
+								{comment.isEdited && <span>(edited)</span>}
+							</div>
+
+							{isEditing ? (
+								<div className="mt-2">
+									<CommentForm
+										initialValue={comment.content}
+										placeholder="Edit your comment"
+										submitLabel="Save"
+										autoFocus
+										onSubmit={(content) => handleUpdate(comment.id, content)}
+										onCancel={() => setEditingId(null)}
+									/>
+								</div>
+							) : (
+								<p className="mt-1 text-sm text-text-primary whitespace-pre-wrap break-words">
+									{comment.content}
+								</p>
+							)}
+
+							{!isEditing && (
+								<div className="mt-1 flex items-center gap-1 -ml-2">
+									<Button
+										variant="ghost"
+										size="sm"
+										className="h-7 px-2 gap-1 text-xs"
+										onClick={() => void handleToggleLike(comment.id)}
+									>
+										<Heart
+											className={cn(
+												'h-3.5 w-3.5',
+												comment.userLiked && 'fill-red-500 text-red-500',
+											)}
+										/>
+										{comment.likeCount}
+									</Button>
+									<Button
+										variant="ghost"
+										size="sm"
+										className="h-7 px-2 gap-1 text-xs"
+										onClick={() => {
+											if (!ensureAuth()) return;
+											setReplyingTo(
+												replyingTo === comment.id ? null : comment.id,
+											);
+										}}
+									>
+										<Reply className="h-3.5 w-3.5" />
+										Reply
+									</Button>
+									{isAuthor && (
+										<Button
+											variant="ghost"
+											size="sm"
+											className="h-7 px-2 gap-1 text-xs"
+											onClick={() => setEditingId(comment.id)}
+										>
+											<Pencil className="h-3.5 w-3.5" />
+											Edit
+										</Button>
+									)}
+									{(isAuthor || canModerate) && (
+										<Button
+											variant="ghost"
+											size="sm"
+											className="h-7 px-2 gap-1 text-xs hover:text-red-500"
+											onClick={() => void handleDelete(comment.id)}
+										>
+											<Trash2 className="h-3.5 w-3.5" />
+											{isAuthor ? 'Delete' : 'Remove'}
+										</Button>
+									)}
+								</div>
+							)}
+
+							{replyingTo === comment.id && (
+								<div className="mt-2">
+									<CommentForm
+										placeholder={`Reply to ${comment.userName || 'this comment'}`}
+										submitLabel="Reply"
+										autoFocus
+										onSubmit={(content) => handleCreate(content, comment.id)}
+										onCancel={() => setReplyingTo(null)}
+									/>
+								</div>
+							)}
+						</div>
+					</div>
+				)}
+
+				{comment.replies.map((reply) => renderComment(reply, depth + 1))}
+			</div>
+		);
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Comments</CardTitle>
+				<CardDescription>
+					{totalCount === 1 ? '1 comment' : `${totalCount} comments`}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="flex flex-col gap-6">
+				<CommentForm
+					placeholder={
+						user ? 'Share your thoughts about this app' : 'Sign in to comment'
+					}
+					submitLabel="Comment"
+					onSubmit={(content) => handleCreate(content)}
+				/>
+
+				{loading ? (
+					<div className="flex items-center justify-center py-8 text-text-tertiary">
+						<Loader2 className="h-5 w-5 animate-spin" />
+					</div>
+				) : comments.length === 0 ? (
+					<div className="flex items-center justify-center py-8 text-text-tertiary">
+						<MessageCircle className="h-6 w-6 mr-3" />
+						<p>No comments yet - start the conversation</p>
+					</div>
+				) : (
+					<div className="flex flex-col gap-5">
+						{comments.map((comment) => renderComment(comment, 0))}
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
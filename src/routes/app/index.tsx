@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { useParams, useNavigate, useSearchParams } from 'react-router';
+import { Link, useParams, useNavigate, useSearchParams } from 'react-router';
 import type { AppDetailsData, FileType } from '@/api-types';
 import { apiClient, ApiError } from '@/lib/api-client';
 import { appEvents } from '@/lib/app-events';
@@ -14,6 +14,7 @@ import {
 	Check,
 	Loader2,
 	MessageSquare,
+	MessageCircle,
 	Calendar,
 	User,
 	Play,
@@ -24,6 +25,8 @@ import {
 	Trash2,
 	Github,
 	GitBranch,
+	GitFork,
+	Shuffle,
 } from 'lucide-react';
 import { MonacoEditor } from '@/components/monaco-editor/monaco-editor';
 import { getFileType } from '@/utils/string';
@@ -47,6 +50,7 @@ import { GitCloneModal } from '@/components/shared/GitCloneModal';
 import { GitCloneCommand, GitClonePrivatePrompt } from '@/components/shared/GitCloneInline';
 import { useAuthGuard } from '@/hooks/useAuthGuard';
 import { PreviewIframe } from '../chat/components/preview-iframe';
+import { AppComments } from './components/app-comments';
 
 // Use proper types from API types
 type AppDetails = AppDetailsData;
@@ -223,37 +227,37 @@ export default function AppView() {
 				},
 				errorMessage: 'Failed to update star',
 			},
-			// fork: {
-			// 	action: 'fork',
-			// 	context: 'to remix this app',
-			// 	handler: async () => {
-			// 		if (!app) return;
-			// 		const response = await apiClient.forkApp(app.id);
-
-			// 		if (response.success && response.data) {
-			// 			toast.success(
-			// 				response.data.message ||
-			// 					'App remixed successfully!',
-			// 			);
-
-			// 			// Emit app-created event for sidebar updates
-			// 			appEvents.emitAppCreated(response.data.forkedAppId, {
-			// 				title: `${app.title} (Remix)`,
-			// 				description: app.description || undefined,
-			// 				isForked: true,
-			// 			});
-
-			// 			navigate(`/chat/${response.data.forkedAppId}`);
-			// 		} else {
-			// 			throw new Error(
-			// 				response.error?.message || 'Failed to remix app',
-			// 			);
-			// 		}
-			// 	},
-			// 	errorMessage: 'Failed to remix app',
-			// },
+			fork: {
+				action: 'fork',
+				context: 'to fork this app',
+				handler: async () => {
+					if (!app) return;
+					const response = await apiClient.forkApp(app.id);
+
+					if (response.success && response.data) {
+						toast.success(
+							response.data.message ||
+								'App forked successfully!',
+						);
+
+						// Emit app-created event for sidebar updates
+						appEvents.emitAppCreated(response.data.forkedAppId, {
+							title: app.title,
+							description: app.description || undefined,
+							isForked: true,
+						});
+
+						navigate(`/chat/${response.data.forkedAppId}`);
+					} else {
+						throw new Error(
+							response.error?.message || 'Failed to fork app',
+						);
+					}
+				},
+				errorMessage: 'Failed to fork app',
+			},
 		}),
-		[app],
+		[app, navigate],
 	);
 
 	// Reusable authenticated action handler
@@ -303,10 +307,10 @@ export default function AppView() {
 		() => createAuthenticatedHandler('star'),
 		[createAuthenticatedHandler],
 	);
-	// const handleFork = useMemo(
-	// 	() => createAuthenticatedHandler('fork'),
-	// 	[createAuthenticatedHandler],
-	// );
+	const handleFork = useMemo(
+		() => createAuthenticatedHandler('fork'),
+		[createAuthenticatedHandler],
+	);
 
 	// Handle pending actions after OAuth redirect
 	const executePendingAction = useCallback(
@@ -674,19 +678,15 @@ export default function AppView() {
 									</>
 								) 
                                 : (
-									<>
-										{/*
-										<Button
-											size="sm"
-											variant="secondary"
-											onClick={handleFork}
-											className="gap-2 bg-text-primary text-bg-1"
-										>
-											<Shuffle className="h-4 w-4" />
-											Remix
-										</Button>
-										*/}
-									</>
+									<Button
+										size="sm"
+										variant="secondary"
+										onClick={handleFork}
+										className="gap-2 bg-text-primary text-bg-1"
+									>
+										<Shuffle className="h-4 w-4" />
+										Fork
+									</Button>
 								)
                                 }
 							</div>
@@ -723,6 +723,19 @@ export default function AppView() {
 								<Star className="h-4 w-4" />
 								<span>{app.starCount || 0}</span>
 							</div>
+							<div className="flex items-center gap-2" title="Forks">
+								<Shuffle className="h-4 w-4" />
+								<span>{app.forkCount || 0}</span>
+							</div>
+							{app.parentAppId && app.parentAppTitle && (
+								<Link
+									to={`/app/${app.parentAppId}`}
+									className="flex items-center gap-2 hover:text-text-primary transition-colors"
+								>
+									<GitFork className="h-4 w-4" />
+									<span>Forked from {app.parentAppTitle}</span>
+								</Link>
+							)}
 						</div>
 					</div>
 				</div>
@@ -765,6 +778,16 @@ export default function AppView() {
 							)} />
 							Prompt
 						</TabsTrigger>
+						<TabsTrigger 
+							value="comments" 
+							className="px-3 py-1.5 rounded text-xs font-medium data-[state=active]:bg-bg-4 dark:data-[state=active]:bg-bg-3 data-[state=active]:text-text-primary data-[state=active]:shadow-sm"
+						>
+							<MessageCircle className={cn(
+								"h-3.5 w-3.5 mr-1.5",
+								activeTab === 'comments' ? 'text-accent' : 'text-accent/60'
+							)} />
+							Comments
+						</TabsTrigger>
 						</TabsList>
 						
 						{/* Git Clone - Inline with tabs */}
@@ -1087,6 +1110,10 @@ export default function AppView() {
 							</CardContent>
 						</Card>
 					</TabsContent>
+
+					<TabsContent value="comments" className="flex-1">
+						<AppComments appId={app.id} />
+					</TabsContent>
 				</Tabs>
 			</div>
 
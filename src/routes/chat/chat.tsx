@@ -8,13 +8,15 @@ import {
 } from 'react';
 import { useParams, useSearchParams, useNavigate } from 'react-router';
 import { AnimatePresence, motion } from 'framer-motion';
-import { LoaderCircle, MoreHorizontal, RotateCcw } from 'lucide-react';
+import { LoaderCircle, MoreHorizontal, RotateCcw, Users } from 'lucide-react';
 import clsx from 'clsx';
 import { UserMessage, AIMessage } from './components/messages';
 import { PhaseTimeline } from './components/phase-timeline';
 import { type DebugMessage } from './components/debug-panel';
 import { DeploymentControls } from './components/deployment-controls';
 import { useChat } from './hooks/use-chat';
+import { useEditorSession } from './hooks/use-editor-session';
+import { useBranchApp } from './hooks/use-branch-app';
 import { type ModelConfigsInfo, type BlueprintType, type PhasicBlueprint, SUPPORTED_IMAGE_MIME_TYPES, type ProjectType, type FileType } from '@/api-types';
 import { featureRegistry } from '@/features';
 import { useFileContentStream } from './hooks/use-file-content-stream';
@@ -32,10 +34,17 @@ import { detectContentType, isDocumentationPath, isMarkdownFile } from './utils/
 import { mergeFiles } from '@/utils/file-helpers';
 import { ChatModals } from './components/chat-modals';
 import { MainContentPanel } from './components/main-content-panel';
+import type { TerminalLog } from './components/terminal';
 import { ChatInput } from './components/chat-input';
+import { PresenceAvatars } from './components/presence-avatars';
+import { ShareModal } from './components/share-modal';
 import { useVault } from '@/hooks/use-vault';
 import { VaultUnlockModal } from '@/components/vault';
 import { SoftGradientBackground } from '@/components/SoftGradientBackground';
+import type { MonacoEditorViewState } from '@/components/monaco-editor/monaco-editor';
+
+// Oldest open files are dropped beyond this
+const MAX_OPEN_FILES = 12;
 
 const isPhasicBlueprint = (blueprint?: BlueprintType | null): blueprint is PhasicBlueprint =>
 	!!blueprint && 'implementationRoadmap' in blueprint;
@@ -99,6 +108,17 @@ export default function Chat() {
 		setDebugMessages([]);
 	}, []);
 
+	// Terminal state
+	const [terminalLogs, setTerminalLogs] = useState<TerminalLog[]>([]);
+	const [isTerminalRunning, setIsTerminalRunning] = useState(false);
+	const handleTerminalMessage = useCallback((log: TerminalLog) => {
+		setTerminalLogs((prev) => [...prev.slice(-999), log]);
+		// Blocked commands never started, so they don't end the running one
+		if (log.commandStatus && log.commandStatus !== 'blocked') {
+			setIsTerminalRunning(log.commandStatus === 'running');
+		}
+	}, []);
+
 	const { state: vaultState, requestUnlock, clearUnlockRequest } = useVault();
 	const handleVaultUnlockRequired = useCallback(
 		(reason: string) => {
@@ -148,35 +168,51 @@ export default function Chat() {
 		projectType,
 		// Template metadata
 		templateDetails,
+		isInitialStateRestored,
+		// Shared session
+		sessionRole,
+		connectionId,
+		presence,
 	} = useChat({
 		chatId: urlChatId,
 		query: userQuery,
 		images: userImages,
 		projectType: urlProjectType as ProjectType,
 		onDebugMessage: addDebugMessage,
+		onTerminalMessage: handleTerminalMessage,
 		onVaultUnlockRequired: handleVaultUnlockRequired,
 	});
 
 	// GitHub export functionality - use urlChatId directly from URL params
 	const githubExport = useGitHubExport(websocket, urlChatId, refetchApp);
+
+	// Branching into a new app from a completed phase or commit
+	const { isBranching, branchFrom } = useBranchApp(urlChatId !== 'new' ? urlChatId : undefined, appTitle);
 	const { user } = useAuth();
 
 	const navigate = useNavigate();
 
 	const [activeFilePath, setActiveFilePath] = useState<string>();
+	const [openFiles, setOpenFiles] = useState<string[]>([]);
+	const [editorViewState, setEditorViewState] = useState<Partial<MonacoEditorViewState> & { filePath: string }>();
+	const hasRestoredSession = useRef(false);
+
+	// Editor session (open files, cursor, scroll) is kept per project, so only the owner has one
+	const { restoredSession, isLoaded: isSessionLoaded, saveSession } = useEditorSession({
+		agentId: urlChatId !== 'new' ? urlChatId : undefined,
+		enabled: !!user && app?.userId === user.id,
+	});
 	const [view, setView] = useState<'editor' | 'preview' | 'docs' | 'blueprint' | 'terminal' | 'presentation'>(
 		'editor',
 	);
 
-	// Terminal state
-	// const [terminalLogs, setTerminalLogs] = useState<TerminalLog[]>([]);
-
 	// Debug panel state
 	const [debugMessages, setDebugMessages] = useState<DebugMessage[]>([]);
 	const deploymentControlsRef = useRef<HTMLDivElement>(null);
 
 	const [isResetDialogOpen, setIsResetDialogOpen] = useState(false);
 	const [isGitCloneModalOpen, setIsGitCloneModalOpen] = useState(false);
+	const [isShareModalOpen, setIsShareModalOpen] = useState(false);
 
 	// Model config info state
 	const [modelConfigs, setModelConfigs] = useState<ModelConfigsInfo | undefined>();
@@ -314,6 +350,9 @@ export default function Chat() {
 		logger.debug('handleFileClick()', file);
 		clearEdit();
 		setActiveFilePath(file.filePath);
+		setOpenFiles((prev) =>
+			prev.includes(file.filePath) ? prev : [...prev, file.filePath].slice(-MAX_OPEN_FILES),
+		);
 		setView('editor');
 		if (!hasSwitchedFile.current) {
 			hasSwitchedFile.current = true;
@@ -321,7 +360,25 @@ export default function Chat() {
 		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, []);
 
-	const handleViewModeChange = useCallback((mode: 'preview' | 'editor' | 'docs' | 'blueprint' | 'presentation') => {
+	const handleCloseFile = useCallback((file: FileType) => {
+		const index = openFiles.indexOf(file.filePath);
+		const remaining = openFiles.filter((filePath) => filePath !== file.filePath);
+		setOpenFiles(remaining);
+		if (file.filePath === activeFilePath && remaining.length > 0) {
+			setActiveFilePath(remaining[Math.min(index, remaining.length - 1)]);
+		}
+	}, [openFiles, activeFilePath]);
+
+	const handleEditorViewStateChange = useCallback((state: MonacoEditorViewState) => {
+		// Ignore movement caused by streaming generated content
+		if (!hasSwitchedFile.current) return;
+		saveSession({
+			cursorPosition: state.cursorPosition,
+			scrollPosition: Math.round(state.scrollTop),
+		});
+	}, [saveSession]);
+
+	const handleViewModeChange = useCallback((mode: 'preview' | 'editor' | 'docs' | 'blueprint' | 'terminal' | 'presentation') => {
 		setView(mode);
 	}, []);
 
@@ -331,26 +388,21 @@ export default function Chat() {
 		setIsResetDialogOpen(false);
 	}, [websocket]);
 
-	// // Terminal functions
-	// const handleTerminalCommand = useCallback((command: string) => {
-	// 	if (websocket && websocket.readyState === WebSocket.OPEN) {
-	// 		// Add command to terminal logs
-	// 		const commandLog: TerminalLog = {
-	// 			id: `cmd-${Date.now()}`,
-	// 			content: command,
-	// 			type: 'command',
-	// 			timestamp: Date.now()
-	// 		};
-	// 		setTerminalLogs(prev => [...prev, commandLog]);
-
-	// 		// Send command via WebSocket
-	// 		websocket.send(JSON.stringify({
-	// 			type: 'terminal_command',
-	// 			command,
-	// 			timestamp: Date.now()
-	// 		}));
-	// 	}
-	// }, [websocket, setTerminalLogs]);
+	// Terminal functions - the server echoes the command back once it starts
+	const handleTerminalCommand = useCallback((command: string) => {
+		sendWebSocketMessage(websocket, 'terminal_command', { command });
+	}, [websocket]);
+
+	const handleTerminalCancel = useCallback(() => {
+		sendWebSocketMessage(websocket, 'terminal_cancel');
+	}, [websocket]);
+
+	// Share the open file with other people in the session, again after each reconnect
+	const presenceFile = view === 'editor' ? activeFilePath : undefined;
+	useEffect(() => {
+		if (!connectionId) return;
+		sendWebSocketMessage(websocket, 'presence_update', { data: { activeFile: presenceFile ?? null } });
+	}, [websocket, connectionId, presenceFile]);
 
 	const generatingCount = useMemo(
 		() =>
@@ -430,8 +482,8 @@ export default function Chat() {
 	// Preview available based on projectType and content
 	const previewAvailable = useMemo(() => {
 		if (hasDocumentation || !!previewUrl) return true;
-		return false;
-	}, [hasDocumentation, previewUrl]);
+		return featureRegistry.hasStandalonePreview(projectType) && files.length > 0;
+	}, [hasDocumentation, previewUrl, projectType, files.length]);
 
 	const showMainView = useMemo(() => {
 		// For agentic mode: show preview panel when files exist or preview URL exists
@@ -535,6 +587,29 @@ export default function Chat() {
 		}
 	}, [view, activeFile, files, isBootstrapping, streamedBootstrapFiles]);
 
+	// Reopen the files, cursor and scroll position saved in the project session
+	useEffect(() => {
+		if (hasRestoredSession.current || !isSessionLoaded || !isInitialStateRestored) return;
+		hasRestoredSession.current = true;
+		if (!restoredSession || hasSwitchedFile.current || codeGenState === 'active') return;
+
+		const available = new Set(allFiles.map((file) => file.filePath));
+		setOpenFiles(restoredSession.openFiles.filter((filePath) => available.has(filePath)));
+
+		const { activeFile: restoredFile, cursorPosition, scrollPosition } = restoredSession;
+		if (restoredFile && available.has(restoredFile)) {
+			hasSwitchedFile.current = true;
+			setActiveFilePath(restoredFile);
+			setEditorViewState({ filePath: restoredFile, cursorPosition, scrollTop: scrollPosition });
+		}
+	}, [isSessionLoaded, isInitialStateRestored, restoredSession, allFiles, codeGenState]);
+
+	// Save file selections made by the user, not ones that follow generation
+	useEffect(() => {
+		if (!hasSwitchedFile.current) return;
+		saveSession({ openFiles, activeFile: activeFilePath });
+	}, [openFiles, activeFilePath, saveSession]);
+
 	// Preserve active file when generation completes
 	useEffect(() => {
 		if (!generatingFile && activeFile && !hasSwitchedFile.current) {
@@ -568,8 +643,8 @@ export default function Chat() {
 		);
 		const blueprintNotCompleted = !blueprintStage || blueprintStage.status !== 'completed';
 
-		return blueprintNotCompleted || isDebugging;
-	}, [projectStages, isDebugging]);
+		return blueprintNotCompleted || isDebugging || sessionRole === 'viewer';
+	}, [projectStages, isDebugging, sessionRole]);
 
 	const chatFormRef = useRef<HTMLFormElement>(null);
 	const { isDragging: isChatDragging, dragHandlers: chatDragHandlers } = useDragDrop({
@@ -672,6 +747,20 @@ export default function Chat() {
 									{(appTitle || chatId) && (
 								<div className="flex items-center justify-between mb-2">
 									<div className="text-lg font-semibold">{appTitle}</div>
+									<div className="flex items-center gap-2">
+										<PresenceAvatars users={presence} connectionId={connectionId} />
+										{urlChatId && urlChatId !== 'new' && (
+											<Button
+												variant="ghost"
+												size="sm"
+												className="h-7 gap-1 text-xs"
+												onClick={() => setIsShareModalOpen(true)}
+											>
+												<Users className="h-3.5 w-3.5" />
+												{sessionRole === 'owner' ? 'Share' : sessionRole === 'editor' ? 'Editor' : 'Viewer'}
+											</Button>
+										)}
+									</div>
 								</div>
 							)}
 									<UserMessage
@@ -764,6 +853,8 @@ export default function Chat() {
 									isDebugging={isDebugging}
 									isGenerating={isGenerating}
 									isThinking={isThinking}
+									onBranchFromPhase={(phaseName) => void branchFrom({ phaseName })}
+									isBranching={isBranching}
 								/>
 							)}
 
@@ -877,6 +968,10 @@ export default function Chat() {
 								allFiles={allFiles}
 								edit={edit}
 								onFileClick={handleFileClick}
+								openFiles={openFiles}
+								onCloseFile={handleCloseFile}
+								editorViewState={editorViewState}
+								onEditorViewStateChange={handleEditorViewStateChange}
 								isGenerating={isGenerating}
 								isGeneratingBlueprint={isGeneratingBlueprint}
 								modelConfigs={modelConfigs}
@@ -885,11 +980,18 @@ export default function Chat() {
 								onGitCloneClick={() => setIsGitCloneModalOpen(true)}
 								isGitHubExportReady={isGitHubExportReady}
 								githubExport={githubExport}
+								agentId={urlChatId !== 'new' ? urlChatId : undefined}
 								behaviorType={behaviorType}
 								websocket={websocket}
 								previewRef={previewRef}
 								editorRef={editorRef}
 								templateDetails={templateDetails}
+								terminalLogs={terminalLogs}
+								isTerminalRunning={isTerminalRunning}
+								onTerminalCommand={handleTerminalCommand}
+								onTerminalCancel={handleTerminalCancel}
+								onBranchFromCommit={(commitOid) => void branchFrom({ commitOid })}
+								isBranching={isBranching}
 							/>
 						</motion.div>
 					)}
@@ -911,6 +1013,15 @@ export default function Chat() {
 				user={user}
 			/>
 
+			{urlChatId && urlChatId !== 'new' && (
+				<ShareModal
+					open={isShareModalOpen}
+					onOpenChange={setIsShareModalOpen}
+					appId={urlChatId}
+					currentUserId={user?.id}
+				/>
+			)}
+
 			<VaultUnlockModal
 				open={vaultState.unlockRequested && vaultState.status === 'locked'}
 				onOpenChange={(open) => {
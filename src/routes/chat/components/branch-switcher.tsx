@@ -0,0 +1,62 @@
+import { Check, GitBranch, Loader } from 'lucide-react';
+import type { WebSocket } from 'partysocket';
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useGitBranches } from '../hooks/use-git-branches';
+
+interface BranchSwitcherProps {
+	websocket?: WebSocket;
+	/** Switching rewrites the working tree, so it is blocked while generating */
+	disabled?: boolean;
+}
+
+export function BranchSwitcher({ websocket, disabled }: BranchSwitcherProps) {
+	const { branches, currentBranch, isSwitching, refresh, switchBranch } = useGitBranches(websocket);
+
+	// Nothing to switch between until the agent creates a second branch
+	if (!currentBranch || branches.length < 2) return null;
+
+	return (
+		<DropdownMenu onOpenChange={(open) => open && refresh()}>
+			<DropdownMenuTrigger asChild>
+				<button
+					className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-mono text-text-primary/70 hover:bg-bg-2 transition-colors disabled:opacity-50"
+					disabled={disabled || isSwitching}
+					title="Switch branch"
+				>
+					{isSwitching ? (
+						<Loader className="size-3.5 animate-spin" />
+					) : (
+						<GitBranch className="size-3.5" />
+					)}
+					<span className="max-w-32 truncate">{currentBranch}</span>
+				</button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="start" className="w-56">
+				<DropdownMenuLabel className="text-xs">Branches</DropdownMenuLabel>
+				<DropdownMenuSeparator />
+				{branches.map((branch) => (
+					<DropdownMenuItem
+						key={branch.name}
+						onClick={() => switchBranch(branch.name)}
+						className="font-mono text-xs"
+					>
+						{branch.name === currentBranch ? (
+							<Check className="mr-2 size-3.5" />
+						) : (
+							<span className="mr-2 size-3.5" />
+						)}
+						<span className="truncate">{branch.name}</span>
+						<span className="ml-auto text-text-primary/40">{branch.oid.slice(0, 7)}</span>
+					</DropdownMenuItem>
+				))}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
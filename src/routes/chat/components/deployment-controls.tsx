@@ -5,6 +5,7 @@ import clsx from 'clsx';
 import { apiClient } from '../../../lib/api-client';
 import { toast } from 'sonner';
 import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
+import type { DeploymentTarget } from '@/api-types';
 
 interface DeploymentControlsProps {
 	// Deployment state
@@ -24,7 +25,7 @@ interface DeploymentControlsProps {
 	isPaused: boolean;
 	
 	// Actions
-	onDeploy: (instanceId: string) => void;
+	onDeploy: (instanceId: string, target?: DeploymentTarget) => void;
 	onStopGeneration: () => void;
 	onResumeGeneration: () => void;
 	onVisibilityUpdate?: (newVisibility: 'public' | 'private') => void;
@@ -99,7 +100,7 @@ export function DeploymentControls({
 
 	const currentState = getCurrentDeploymentState();
 
-	const handleDeploy = () => {
+	const handleDeploy = (target: DeploymentTarget = 'platform') => {
 		setIsDeployButtonClicked(true);
 		
 		// Smooth scroll animation to deployment section
@@ -110,7 +111,7 @@ export function DeploymentControls({
 			});
 		}
 		
-		onDeploy(instanceId);
+		onDeploy(instanceId, target);
 	};
 
 	const handleToggleVisibility = async () => {
@@ -266,7 +267,7 @@ export function DeploymentControls({
 						
 						{/* Enhanced Deploy Button - Always visible, state-aware */}
 						<Button
-							onClick={handleDeploy}
+							onClick={() => handleDeploy()}
 							disabled={stateConfig.buttonDisabled || isCurrentlyDeploying || isDeployButtonClicked}
 							className={clsx(
 								"h-8 px-4 text-sm font-medium transition-all duration-300 transform",
@@ -286,6 +287,18 @@ export function DeploymentControls({
 							)}
 						</Button>
 					</div>
+
+					{/* Deploy with the Cloudflare API token stored in the user's vault */}
+					{(currentState === DeploymentState.READY_TO_DEPLOY || currentState === DeploymentState.ERROR) && isPhase1Complete && (
+						<button
+							type="button"
+							onClick={() => handleDeploy('user')}
+							disabled={isDeployButtonClicked}
+							className="mt-2 ml-7 text-xs text-text-tertiary hover:text-text-primary hover:underline underline-offset-2 transition-colors disabled:opacity-50"
+						>
+							Deploy to my own Cloudflare account instead
+						</button>
+					)}
 				</div>
 			)}
 
@@ -401,7 +414,7 @@ export function DeploymentControls({
 						{/* Redeploy Button - Only shown when changes are made */}
 						{isRedeployReady && (
 							<Button
-								onClick={handleDeploy}
+								onClick={() => handleDeploy()}
 								disabled={isDeploying || isDeployButtonClicked}
 								variant="secondary"
 								className={clsx(
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { LucideNetwork, ChevronRight, File } from 'lucide-react';
+import { LucideNetwork, ChevronRight, File, X } from 'lucide-react';
 import type { FileType } from '@/api-types';
 import clsx from 'clsx';
 
@@ -118,19 +118,86 @@ function buildFileTree(files: FileType[]): FileTreeItem[] {
 	return Object.values(root);
 }
 
+function OpenFileItem({
+	file,
+	isCurrentFile,
+	onFileClick,
+	onCloseFile,
+}: {
+	file: FileType;
+	isCurrentFile: boolean;
+	onFileClick: (file: FileType) => void;
+	onCloseFile?: (file: FileType) => void;
+}) {
+	const fileName = file.filePath.split('/').pop();
+
+	return (
+		<div
+			className={clsx(
+				'group flex items-center w-full gap-2 py-1 px-3 transition-colors text-sm',
+				isCurrentFile
+					? 'text-brand bg-zinc-100'
+					: 'text-text-primary/80 hover:bg-accent hover:text-text-primary',
+			)}
+			title={file.filePath}
+		>
+			<button
+				onClick={() => onFileClick(file)}
+				className="flex flex-1 min-w-0 items-center gap-2"
+			>
+				<File className="size-3 flex-shrink-0" />
+				<span className="flex-1 text-left truncate">{fileName}</span>
+			</button>
+			{onCloseFile && (
+				<button
+					onClick={() => onCloseFile(file)}
+					className="opacity-0 group-hover:opacity-100 transition-opacity"
+					title="Close"
+				>
+					<X className="size-3" />
+				</button>
+			)}
+		</div>
+	);
+}
+
 export function FileExplorer({
 	files,
 	currentFile,
 	onFileClick,
+	openFiles = [],
+	onCloseFile,
 }: {
 	files: FileType[];
 	currentFile: FileType | undefined;
 	onFileClick: (file: FileType) => void;
+	/** Paths of files opened in the editor, in the order they were opened */
+	openFiles?: string[];
+	onCloseFile?: (file: FileType) => void;
 }) {
 	const fileTree = buildFileTree(files);
+	const openFileItems = openFiles
+		.map((filePath) => files.find((file) => file.filePath === filePath))
+		.filter((file): file is FileType => !!file);
 
 	return (
 		<div className="w-full max-w-[200px] bg-bg-3 border-r border-text/10 h-full overflow-y-auto">
+			{openFileItems.length > 0 && (
+				<div className="border-b border-text/10 pb-1">
+					<div className="p-2 px-3 text-sm text-text-primary/50 font-medium">
+						Open
+					</div>
+					{openFileItems.map((file) => (
+						<OpenFileItem
+							key={file.filePath}
+							file={file}
+							isCurrentFile={currentFile?.filePath === file.filePath}
+							onFileClick={onFileClick}
+							onCloseFile={onCloseFile}
+						/>
+					))}
+				</div>
+			)}
 			<div className="p-2 px-3 text-sm flex items-center gap-1 text-text-primary/50 font-medium">
 				<LucideNetwork className="size-4" />
 				Files
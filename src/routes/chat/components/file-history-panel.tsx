@@ -0,0 +1,198 @@
+import { useMemo, useState, useEffect } from 'react';
+import { diffLines } from 'diff';
+import { formatDistanceToNow } from 'date-fns';
+import { GitBranch, History, Loader, RotateCcw, Sparkles, User, X } from 'lucide-react';
+import clsx from 'clsx';
+import type { WebSocket } from 'partysocket';
+import { useFileHistory, type FileEditEntry } from '../hooks/use-file-history';
+
+interface FileHistoryPanelProps {
+	agentId?: string;
+	filePath: string;
+	websocket?: WebSocket;
+	onClose: () => void;
+	onBranchFromCommit?: (commitOid: string) => void;
+	isBranching?: boolean;
+}
+
+function countChanges(edit: FileEditEntry) {
+	let added = 0;
+	let removed = 0;
+	for (const part of diffLines(edit.contentBefore ?? '', edit.contentAfter ?? '')) {
+		if (part.added) added += part.count ?? 0;
+		if (part.removed) removed += part.count ?? 0;
+	}
+	return { added, removed };
+}
+
+function EditDiff({ edit }: { edit: FileEditEntry }) {
+	const parts = useMemo(
+		() => diffLines(edit.contentBefore ?? '', edit.contentAfter ?? ''),
+		[edit],
+	);
+
+	return (
+		<pre className="text-[11px] leading-4 font-mono overflow-x-auto">
+			{parts.map((part, index) => {
+				const prefix = part.added ? '+' : part.removed ? '-' : ' ';
+				const lines = part.value.replace(/\n$/, '').split('\n');
+				return (
+					<div
+						key={index}
+						className={clsx(
+							part.added && 'bg-green-500/10 text-green-600 dark:text-green-400',
+							part.removed && 'bg-red-500/10 text-red-600 dark:text-red-400',
+							!part.added && !part.removed && 'text-text-primary/50',
+						)}
+					>
+						{lines.map((line, lineIndex) => (
+							<div key={lineIndex} className="px-2 whitespace-pre">
+								{prefix} {line}
+							</div>
+						))}
+					</div>
+				);
+			})}
+		</pre>
+	);
+}
+
+export function FileHistoryPanel({
+	agentId,
+	filePath,
+	websocket,
+	onClose,
+	onBranchFromCommit,
+	isBranching = false,
+}: FileHistoryPanelProps) {
+	const { edits, isLoading, isRestoring, restoreEdit } = useFileHistory({
+		agentId,
+		filePath,
+		websocket,
+	});
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+
+	// Drop the selection when switching files
+	useEffect(() => {
+		setSelectedId(null);
+	}, [filePath]);
+
+	const selectedEdit = edits.find((edit) => edit.id === selectedId);
+
+	return (
+		<div className="w-80 flex-shrink-0 flex flex-col border-l border-text/10 bg-bg-3">
+			<div className="flex items-center justify-between px-3 py-2 border-b border-text/10">
+				<div className="flex items-center gap-2 text-sm text-text-primary">
+					<History className="size-4" />
+					<span>History</span>
+				</div>
+				<button
+					className="p-1 hover:bg-bg-2 rounded transition-colors"
+					onClick={onClose}
+					title="Close history"
+				>
+					<X className="size-4 text-text-primary/50" />
+				</button>
+			</div>
+
+			<div className="flex-1 overflow-y-auto">
+				{isLoading && edits.length === 0 ? (
+					<div className="flex items-center justify-center py-8">
+						<Loader className="size-4 text-accent animate-spin" />
+					</div>
+				) : edits.length === 0 ? (
+					<p className="px-3 py-6 text-xs text-center text-text-primary/50">
+						No recorded edits for this file yet
+					</p>
+				) : (
+					<ul className="divide-y divide-text/5">
+						{edits.map((edit, index) => {
+							const { added, removed } = countChanges(edit);
+							const isSelected = edit.id === selectedId;
+							return (
+								<li key={edit.id}>
+									<button
+										className={clsx(
+											'w-full text-left px-3 py-2 hover:bg-bg-2 transition-colors',
+											isSelected && 'bg-bg-2',
+										)}
+										onClick={() => setSelectedId(isSelected ? null : edit.id)}
+									>
+										<div className="flex items-center gap-2 text-xs">
+											{edit.editType === 'ai' ? (
+												<Sparkles className="size-3.5 text-accent" />
+											) : (
+												<User className="size-3.5 text-text-primary/70" />
+											)}
+											<span className="font-medium text-text-primary">
+												{edit.editType === 'ai' ? 'AI' : 'You'}
+											</span>
+											{edit.createdAt && (
+												<span className="text-text-primary/50">
+													{formatDistanceToNow(new Date(edit.createdAt), { addSuffix: true })}
+												</span>
+											)}
+											{index === 0 && (
+												<span className="ml-auto text-[10px] uppercase text-text-primary/40">
+													Current
+												</span>
+											)}
+										</div>
+										<div className="mt-1 flex items-center gap-2 text-[11px] font-mono">
+											<span className="text-green-600 dark:text-green-400">+{added}</span>
+											<span className="text-red-600 dark:text-red-400">-{removed}</span>
+											{edit.commitHash && (
+												<span className="text-text-primary/40">{edit.commitHash.slice(0, 7)}</span>
+											)}
+										</div>
+									</button>
+								</li>
+							);
+						})}
+					</ul>
+				)}
+			</div>
+
+			{selectedEdit && (
+				<div className="max-h-[50%] flex flex-col border-t border-text/10">
+					<div className="flex items-center justify-between px-3 py-2">
+						<span className="text-xs text-text-primary/70">Changes in this edit</span>
+						<div className="flex items-center gap-1">
+							{selectedEdit.commitHash && onBranchFromCommit && (
+								<button
+									className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-bg-2 hover:bg-bg-1 text-text-primary transition-colors disabled:opacity-50"
+									onClick={() => onBranchFromCommit(selectedEdit.commitHash!)}
+									disabled={isBranching}
+									title="Create a new app from the project at this commit"
+								>
+									{isBranching ? (
+										<Loader className="size-3 animate-spin" />
+									) : (
+										<GitBranch className="size-3" />
+									)}
+									Branch
+								</button>
+							)}
+							<button
+								className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-bg-2 hover:bg-bg-1 text-text-primary transition-colors disabled:opacity-50"
+								onClick={() => void restoreEdit(selectedEdit)}
+								disabled={isRestoring || !websocket || selectedEdit.contentAfter === null}
+								title="Restore the file to this version"
+							>
+								{isRestoring ? (
+									<Loader className="size-3 animate-spin" />
+								) : (
+									<RotateCcw className="size-3" />
+								)}
+								Restore
+							</button>
+						</div>
+					</div>
+					<div className="flex-1 overflow-auto">
+						<EditDiff edit={selectedEdit} />
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -1,17 +1,20 @@
 import { type RefObject, type ReactNode, Suspense, useState, useCallback } from 'react';
 import { WebSocket } from 'partysocket';
-import { MonacoEditor } from '../../../components/monaco-editor/monaco-editor';
+import { MonacoEditor, type MonacoEditorViewState } from '../../../components/monaco-editor/monaco-editor';
 import { motion } from 'framer-motion';
-import { RefreshCw } from 'lucide-react';
+import { History, RefreshCw } from 'lucide-react';
 import { Blueprint } from './blueprint';
 import { FileExplorer } from './file-explorer';
 import { PreviewIframe } from './preview-iframe';
 import { MarkdownDocsPreview } from './markdown-docs-preview';
 import { ViewContainer } from './view-container';
 import { ViewHeader } from './view-header';
+import { BranchSwitcher } from './branch-switcher';
 import { PreviewHeaderActions } from './preview-header-actions';
 import { EditorHeaderActions } from './editor-header-actions';
 import { Copy } from './copy';
+import { FileHistoryPanel } from './file-history-panel';
+import { Terminal, type TerminalLog } from './terminal';
 import { featureRegistry } from '@/features';
 import type { FileType, BlueprintType, BehaviorType, ModelConfigsInfo, TemplateDetails, ProjectType } from '@/api-types';
 import type { ContentDetectionResult } from '../utils/content-detector';
@@ -21,7 +24,7 @@ import type { Edit } from '../hooks/use-chat';
 interface MainContentPanelProps {
 	// View state
 	view: 'editor' | 'preview' | 'docs' | 'blueprint' | 'terminal' | 'presentation';
-	onViewChange: (mode: 'preview' | 'editor' | 'docs' | 'blueprint' | 'presentation') => void;
+	onViewChange: (mode: 'preview' | 'editor' | 'docs' | 'blueprint' | 'terminal' | 'presentation') => void;
 
 	// Content detection
 	hasDocumentation: boolean;
@@ -44,6 +47,11 @@ interface MainContentPanelProps {
 	allFiles: FileType[];
 	edit?: Edit | null;
 	onFileClick: (file: FileType) => void;
+	openFiles?: string[];
+	onCloseFile?: (file: FileType) => void;
+	// Restored cursor/scroll, only applied while its file is active
+	editorViewState?: Partial<MonacoEditorViewState> & { filePath: string };
+	onEditorViewStateChange?: (state: MonacoEditorViewState) => void;
 
 	// Generation state
 	isGenerating: boolean;
@@ -62,9 +70,18 @@ interface MainContentPanelProps {
 	// Template metadata
 	templateDetails?: TemplateDetails | null;
 
+	// Sandbox terminal
+	terminalLogs: TerminalLog[];
+	isTerminalRunning: boolean;
+	onTerminalCommand: (command: string) => void;
+	onTerminalCancel: () => void;
+
 	// Other
+	agentId?: string;
 	behaviorType?: BehaviorType;
 	websocket?: WebSocket;
+	onBranchFromCommit?: (commitOid: string) => void;
+	isBranching?: boolean;
 
 	// Refs
 	previewRef: RefObject<HTMLIFrameElement | null>;
@@ -89,6 +106,10 @@ export function MainContentPanel(props: MainContentPanelProps) {
 		allFiles,
 		edit,
 		onFileClick,
+		openFiles,
+		onCloseFile,
+		editorViewState,
+		onEditorViewStateChange,
 		isGenerating,
 		isGeneratingBlueprint,
 		modelConfigs,
@@ -97,27 +118,37 @@ export function MainContentPanel(props: MainContentPanelProps) {
 		onGitCloneClick,
 		isGitHubExportReady,
 		githubExport,
+		agentId,
 		behaviorType,
 		websocket,
 		previewRef,
 		editorRef,
 		templateDetails,
+		terminalLogs,
+		isTerminalRunning,
+		onTerminalCommand,
+		onTerminalCancel,
+		onBranchFromCommit,
+		isBranching,
 	} = props;
 
 	// Feature-specific state management
 	const [featureState, setFeatureStateInternal] = useState<Record<string, unknown>>({});
+	const [showFileHistory, setShowFileHistory] = useState(false);
 	const setFeatureState = useCallback((key: string, value: unknown) => {
 		setFeatureStateInternal(prev => ({ ...prev, [key]: value }));
 	}, []);
 
 	const commonHeaderProps = {
-		view: view as 'preview' | 'editor' | 'docs' | 'blueprint' | 'presentation',
+		view,
 		onViewChange,
 		previewAvailable,
 		showTooltip,
 		hasDocumentation,
 		previewUrl,
 		projectType,
+		// Commands run in the preview sandbox, so the terminal needs a deployed preview
+		terminalAvailable: !!previewUrl,
 	};
 
 	const renderViewWithHeader = (
@@ -156,7 +187,7 @@ export function MainContentPanel(props: MainContentPanelProps) {
 	};
 
 	const renderPreviewView = () => {
-		if (!previewUrl) {
+		if (!previewUrl && !featureRegistry.hasStandalonePreview(projectType)) {
 			return null;
 		}
 
@@ -202,7 +233,7 @@ export function MainContentPanel(props: MainContentPanelProps) {
 					className="flex-1 w-full h-full border-0"
 				/>
 			</Suspense>
-		) : (
+		) : previewUrl ? (
 			<PreviewIframe
 				src={previewUrl}
 				ref={previewRef}
@@ -212,7 +243,7 @@ export function MainContentPanel(props: MainContentPanelProps) {
 				manualRefreshTrigger={manualRefreshTrigger}
 				webSocket={websocket}
 			/>
-		);
+		) : null;
 
 		// Get lazy-loaded header actions component from feature registry
 		const FeatureHeaderActionsComponent = featureRegistry.getLazyHeaderActionsComponent(projectType);
@@ -263,7 +294,8 @@ export function MainContentPanel(props: MainContentPanelProps) {
 				<span className="text-sm font-mono text-text-50/70">
 					{previewTitle}
 				</span>
-				<Copy text={previewUrl} />
+				{previewUrl && <Copy text={previewUrl} />}
+				<BranchSwitcher websocket={websocket} disabled={isGenerating} />
 				{showManualRefresh && (
 					<button
 						className="p-1 hover:bg-bg-2 rounded transition-colors"
@@ -308,6 +340,8 @@ export function MainContentPanel(props: MainContentPanelProps) {
 							files={allFiles}
 							currentFile={undefined}
 							onFileClick={onFileClick}
+							openFiles={openFiles}
+							onCloseFile={onCloseFile}
 						/>
 						<div className="flex-1 flex items-center justify-center bg-bg-3">
 							<span className="text-text-50/50 text-sm">No file selected</span>
@@ -330,6 +364,15 @@ export function MainContentPanel(props: MainContentPanelProps) {
 			<div className="flex items-center gap-2">
 				<span className="text-sm font-mono text-text-50/70">{activeFile.filePath}</span>
 				{previewUrl && <Copy text={previewUrl} />}
+				{agentId && (
+					<button
+						className={`p-1 hover:bg-bg-2 rounded transition-colors ${showFileHistory ? 'bg-bg-2' : ''}`}
+						onClick={() => setShowFileHistory((prev) => !prev)}
+						title="File history"
+					>
+						<History className="size-4 text-text-primary/50" />
+					</button>
+				)}
 			</div>,
 			<div className="flex-1 relative">
 				<div className="absolute inset-0 flex" ref={editorRef}>
@@ -337,6 +380,8 @@ export function MainContentPanel(props: MainContentPanelProps) {
 						files={allFiles}
 						currentFile={activeFile}
 						onFileClick={onFileClick}
+						openFiles={openFiles}
+						onCloseFile={onCloseFile}
 					/>
 					<div className="flex-1">
 						<MonacoEditor
@@ -354,8 +399,20 @@ export function MainContentPanel(props: MainContentPanelProps) {
 							}}
 							find={edit?.filePath === activeFile.filePath ? edit.search : undefined}
 							replace={edit?.filePath === activeFile.filePath ? edit.replacement : undefined}
+							viewState={editorViewState?.filePath === activeFile.filePath ? editorViewState : undefined}
+							onViewStateChange={onEditorViewStateChange}
 						/>
 					</div>
+					{agentId && showFileHistory && (
+						<FileHistoryPanel
+							agentId={agentId}
+							filePath={activeFile.filePath}
+							websocket={websocket}
+							onClose={() => setShowFileHistory(false)}
+							onBranchFromCommit={onBranchFromCommit}
+							isBranching={isBranching}
+						/>
+					)}
 				</div>
 			</div>,
 			<EditorHeaderActions
@@ -370,6 +427,20 @@ export function MainContentPanel(props: MainContentPanelProps) {
 		);
 	};
 
+	const renderTerminalView = () =>
+		renderViewWithHeader(
+			<span className="text-sm font-mono text-text-50/70">Terminal</span>,
+			<div className="flex-1 min-h-0">
+				<Terminal
+					logs={terminalLogs}
+					onCommand={onTerminalCommand}
+					onCancel={onTerminalCancel}
+					isRunning={isTerminalRunning}
+					isConnected={!!websocket && !!previewUrl}
+				/>
+			</div>
+		);
+
 	const renderView = () => {
 		switch (view) {
 			case 'docs':
@@ -381,6 +452,8 @@ export function MainContentPanel(props: MainContentPanelProps) {
 				return renderBlueprintView();
 			case 'editor':
 				return renderEditorView();
+			case 'terminal':
+				return renderTerminalView();
 			default:
 				return null;
 		}
@@ -1,5 +1,5 @@
 import clsx from 'clsx';
-import { Loader, Check, AlertCircle, ChevronDown, ChevronRight, ArrowUp, Zap, XCircle } from 'lucide-react';
+import { Loader, Check, AlertCircle, AlertTriangle, ChevronDown, ChevronRight, ArrowUp, Zap, XCircle, GitBranch, Image as ImageIcon } from 'lucide-react';
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import type { RefObject } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
@@ -194,6 +194,9 @@ interface PhaseTimelineProps {
 	// Activity state
 	isGenerating?: boolean;
 	isThinking?: boolean;
+	// Branching a new app from a completed phase
+	onBranchFromPhase?: (phaseName: string) => void;
+	isBranching?: boolean;
 }
 
 // Helper function to truncate long file paths
@@ -280,7 +283,9 @@ export function PhaseTimeline({
 	staticIssueCount = 0,
 	isDebugging = false,
 	isGenerating = false,
-	isThinking = false
+	isThinking = false,
+	onBranchFromPhase,
+	isBranching = false
 }: PhaseTimelineProps) {
 	const [expandedPhases, setExpandedPhases] = useState<Set<string>>(new Set());
 	const [showCollapsedBar, setShowCollapsedBar] = useState(false);
@@ -786,6 +791,17 @@ export function PhaseTimeline({
 													 `Implementing ${phase.name}`}
 												</span>
 
+												{/* Visual regression badge from the phase's preview screenshot */}
+												{phase.visualCheck && phase.visualCheck.regressions.length > 0 && (
+													<span
+														className="flex items-center gap-1 text-xs text-orange-400 bg-orange-400/10 px-1.5 py-0.5 rounded flex-shrink-0"
+														title={phase.visualCheck.regressions.join('\n')}
+													>
+														<AlertTriangle className="size-3" />
+														{phase.visualCheck.regressions.length}
+													</span>
+												)}
+
 												{/* File count badge for collapsed completed/cancelled phases */}
 												{(phase.status === 'completed' || phase.status === 'cancelled') && !expandedPhases.has(phase.id) && (
 													<span className="text-xs text-text-primary/50 bg-zinc-100 dark:bg-zinc-800 px-1.5 py-0.5 rounded flex-shrink-0">
@@ -852,6 +868,54 @@ export function PhaseTimeline({
 															</button>
 														);
 													})}
+
+													{/* Preview screenshot taken at the phase's commit */}
+													{phase.visualCheck && (
+														<div className="pt-1 space-y-0.5">
+															<a
+																href={phase.visualCheck.screenshotUrl}
+																target="_blank"
+																rel="noopener noreferrer"
+																className="flex items-center gap-2 py-1 px-2 rounded text-xs text-text-primary/70 hover:text-text-primary hover:bg-zinc-50/5 transition-colors"
+															>
+																<ImageIcon className="size-3 flex-shrink-0" />
+																<span className="flex-1 truncate">
+																	Preview at <span className="font-mono">{phase.visualCheck.commitOid.slice(0, 7)}</span>
+																</span>
+																{phase.visualCheck.diffRatio !== null && (
+																	<span
+																		className="flex-shrink-0 text-text-tertiary font-mono"
+																		title="Pixels changed since the previous phase"
+																	>
+																		{(phase.visualCheck.diffRatio * 100).toFixed(1)}%
+																	</span>
+																)}
+															</a>
+															{phase.visualCheck.regressions.map((regression, index) => (
+																<div key={index} className="flex items-start gap-2 py-0.5 px-2 text-xs text-orange-400">
+																	<AlertTriangle className="size-3 flex-shrink-0 mt-0.5" />
+																	<span className="break-words leading-tight">{regression}</span>
+																</div>
+															))}
+														</div>
+													)}
+
+													{/* Start a new app from the project as it was after this phase */}
+													{phase.status === 'completed' && onBranchFromPhase && (
+														<button
+															onClick={() => onBranchFromPhase(phase.name)}
+															disabled={isBranching}
+															className="flex items-center gap-2 py-1 px-2 mt-1 w-full rounded text-xs text-text-primary/70 hover:text-text-primary hover:bg-zinc-50/5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+															title="Create a new app from the project as it was after this phase"
+														>
+															{isBranching ? (
+																<Loader className="size-3 flex-shrink-0 animate-spin" />
+															) : (
+																<GitBranch className="size-3 flex-shrink-0" />
+															)}
+															<span className="flex-1 text-left">Branch from here</span>
+														</button>
+													)}
 												</div>
 											)}
 										</div>
@@ -0,0 +1,74 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { PresenceUser } from '@/api-types';
+import { cn } from '@/lib/utils';
+
+const MAX_VISIBLE = 4;
+
+interface PresenceAvatarsProps {
+	users: PresenceUser[];
+	/** This tab's connection, shown as "you" */
+	connectionId?: string;
+}
+
+/**
+ * Stacked avatars of everyone connected to the agent session
+ */
+export function PresenceAvatars({ users, connectionId }: PresenceAvatarsProps) {
+	// One avatar per user, preferring the connection with a file open
+	const byUser = new Map<string, PresenceUser & { isYou: boolean }>();
+	for (const user of users) {
+		const existing = byUser.get(user.userId);
+		const isYou = user.connectionId === connectionId || !!existing?.isYou;
+		if (!existing || (!existing.activeFile && user.activeFile)) {
+			byUser.set(user.userId, { ...user, isYou });
+		} else if (isYou) {
+			existing.isYou = true;
+		}
+	}
+
+	const unique = [...byUser.values()];
+	if (unique.length <= 1) return null;
+
+	const visible = unique.slice(0, MAX_VISIBLE);
+	const hidden = unique.length - visible.length;
+
+	return (
+		<div className="flex items-center -space-x-2">
+			{visible.map((user) => (
+				<Tooltip key={user.userId}>
+					<TooltipTrigger asChild>
+						<Avatar
+							className={cn(
+								'h-7 w-7 border-2 border-bg-3',
+								user.role === 'owner' && 'border-accent',
+							)}
+						>
+							<AvatarImage src={user.avatarUrl} />
+							<AvatarFallback className="text-[10px] bg-gradient-to-br from-red-200 to-red-300 font-semibold">
+								{user.displayName.charAt(0).toUpperCase()}
+							</AvatarFallback>
+						</Avatar>
+					</TooltipTrigger>
+					<TooltipContent>
+						<div className="text-xs">
+							<div className="font-medium">
+								{user.displayName}
+								{user.isYou && ' (you)'}
+								<span className="ml-1 text-text-tertiary capitalize">{user.role}</span>
+							</div>
+							{user.activeFile && (
+								<div className="text-text-tertiary font-mono">{user.activeFile}</div>
+							)}
+						</div>
+					</TooltipContent>
+				</Tooltip>
+			))}
+			{hidden > 0 && (
+				<div className="h-7 w-7 rounded-full border-2 border-bg-3 bg-bg-2 flex items-center justify-center text-[10px] text-text-secondary">
+					+{hidden}
+				</div>
+			)}
+		</div>
+	);
+}
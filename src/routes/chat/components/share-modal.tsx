@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Check, Copy, Loader2, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { apiClient } from '@/lib/api-client';
+import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
+import type { AppAccessRole, CollaboratorWithUser } from '@/api-types';
+
+type CollaboratorRole = CollaboratorWithUser['role'];
+
+interface ShareModalProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	appId: string;
+	currentUserId?: string;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+	error instanceof Error ? error.message : fallback;
+
+/**
+ * Invite collaborators to an app's agent session and manage their roles
+ */
+export function ShareModal({ open, onOpenChange, appId, currentUserId }: ShareModalProps) {
+	const [collaborators, setCollaborators] = useState<CollaboratorWithUser[]>([]);
+	const [role, setRole] = useState<AppAccessRole | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+	const [email, setEmail] = useState('');
+	const [inviteRole, setInviteRole] = useState<CollaboratorRole>('viewer');
+	const [isInviting, setIsInviting] = useState(false);
+	const { copied, copy } = useCopyToClipboard({ successMessage: 'Link copied' });
+
+	const isOwner = role === 'owner';
+	const shareLink = `${window.location.origin}/chat/${appId}`;
+
+	const loadCollaborators = useCallback(async () => {
+		setIsLoading(true);
+		try {
+			const response = await apiClient.getCollaborators(appId);
+			if (response.data) {
+				setCollaborators(response.data.collaborators);
+				setRole(response.data.role);
+			}
+		} catch (error) {
+			toast.error(errorMessage(error, 'Failed to load collaborators'));
+		} finally {
+			setIsLoading(false);
+		}
+	}, [appId]);
+
+	useEffect(() => {
+		if (open) {
+			loadCollaborators();
+		} else {
+			setEmail('');
+			setInviteRole('viewer');
+		}
+	}, [open, loadCollaborators]);
+
+	const handleInvite = async (e: FormEvent) => {
+		e.preventDefault();
+		if (!email.trim()) return;
+
+		setIsInviting(true);
+		try {
+			const response = await apiClient.addCollaborator(appId, { email: email.trim(), role: inviteRole });
+			if (response.data) {
+				const added = response.data.collaborator;
+				setCollaborators((prev) => [...prev.filter((c) => c.userId !== added.userId), added]);
+				setEmail('');
+				toast.success(`Invited ${added.displayName || added.email}`);
+			}
+		} catch (error) {
+			toast.error(errorMessage(error, 'Failed to invite collaborator'));
+		} finally {
+			setIsInviting(false);
+		}
+	};
+
+	const handleRoleChange = async (userId: string, newRole: CollaboratorRole) => {
+		try {
+			await apiClient.updateCollaboratorRole(appId, userId, newRole);
+			setCollaborators((prev) => prev.map((c) => (c.userId === userId ? { ...c, role: newRole } : c)));
+		} catch (error) {
+			toast.error(errorMessage(error, 'Failed to change role'));
+		}
+	};
+
+	const handleRemove = async (userId: string) => {
+		try {
+			await apiClient.removeCollaborator(appId, userId);
+			setCollaborators((prev) => prev.filter((c) => c.userId !== userId));
+			if (userId === currentUserId) {
+				onOpenChange(false);
+			}
+		} catch (error) {
+			toast.error(errorMessage(error, 'Failed to remove collaborator'));
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[550px] max-w-[calc(100%-2rem)]">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<Users className="h-5 w-5 text-brand-primary" />
+						Collaborators
+					</DialogTitle>
+					<DialogDescription>
+						Viewers can follow the session live. Editors can also chat with the agent and edit files.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					{isOwner && (
+						<form onSubmit={handleInvite} className="flex gap-2">
+							<Input
+								type="email"
+								placeholder="Email of a registered user"
+								value={email}
+								onChange={(e) => setEmail(e.target.value)}
+								disabled={isInviting}
+							/>
+							<Select value={inviteRole} onValueChange={(value) => setInviteRole(value as CollaboratorRole)}>
+								<SelectTrigger className="w-28">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="viewer">Viewer</SelectItem>
+									<SelectItem value="editor">Editor</SelectItem>
+								</SelectContent>
+							</Select>
+							<Button type="submit" disabled={isInviting || !email.trim()}>
+								{isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Invite'}
+							</Button>
+						</form>
+					)}
+
+					<div className="flex items-center gap-2">
+						<code className="flex-1 p-2 rounded-lg bg-bg-4 border border-border-primary font-mono text-xs text-text-primary truncate">
+							{shareLink}
+						</code>
+						<Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copy(shareLink)}>
+							{copied ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+						</Button>
+					</div>
+
+					{isLoading ? (
+						<div className="flex items-center gap-2 text-sm text-text-tertiary">
+							<Loader2 className="h-4 w-4 animate-spin" />
+							Loading collaborators...
+						</div>
+					) : collaborators.length === 0 ? (
+						<p className="text-sm text-text-tertiary">No collaborators yet.</p>
+					) : (
+						<ul className="space-y-2 max-h-72 overflow-y-auto">
+							{collaborators.map((collaborator) => (
+								<li key={collaborator.userId} className="flex items-center gap-3">
+									<Avatar className="h-8 w-8">
+										<AvatarImage src={collaborator.avatarUrl || undefined} />
+										<AvatarFallback className="text-[10px] bg-gradient-to-br from-red-200 to-red-300 font-semibold">
+											{(collaborator.displayName || collaborator.email).charAt(0).toUpperCase()}
+										</AvatarFallback>
+									</Avatar>
+									<div className="flex-1 min-w-0">
+										<div className="text-sm font-medium truncate">
+											{collaborator.displayName || collaborator.email}
+										</div>
+										<div className="text-xs text-text-tertiary truncate">{collaborator.email}</div>
+									</div>
+									{isOwner ? (
+										<Select
+											value={collaborator.role}
+											onValueChange={(value) => handleRoleChange(collaborator.userId, value as CollaboratorRole)}
+										>
+											<SelectTrigger className="w-28 h-8">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value="viewer">Viewer</SelectItem>
+												<SelectItem value="editor">Editor</SelectItem>
+											</SelectContent>
+										</Select>
+									) : (
+										<span className="text-xs text-text-tertiary capitalize">{collaborator.role}</span>
+									)}
+									{(isOwner || collaborator.userId === currentUserId) && (
+										<Button
+											variant="ghost"
+											size="icon"
+											className="h-8 w-8"
+											title={collaborator.userId === currentUserId ? 'Leave' : 'Remove'}
+											onClick={() => handleRemove(collaborator.userId)}
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									)}
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
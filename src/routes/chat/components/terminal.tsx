@@ -1,5 +1,5 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { Zap } from 'lucide-react';
+import { Square, Zap } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import clsx from 'clsx';
@@ -10,11 +10,15 @@ export interface TerminalLog {
 	type: 'command' | 'stdout' | 'stderr' | 'info' | 'error' | 'warn' | 'debug';
 	timestamp: number;
 	source?: string;
+	/** Present on the lines that start and finish a command */
+	commandStatus?: 'running' | 'completed' | 'failed' | 'cancelled' | 'blocked';
 }
 
 interface TerminalProps {
 	logs: TerminalLog[];
 	onCommand: (command: string) => void;
+	onCancel?: () => void;
+	isRunning?: boolean;
 	isConnected: boolean;
 	className?: string;
 	showControls?: boolean;
@@ -25,6 +29,8 @@ interface TerminalProps {
 export function Terminal({ 
 	logs, 
 	onCommand, 
+	onCancel,
+	isRunning = false,
 	isConnected, 
 	className 
 }: TerminalProps) {
@@ -51,7 +57,7 @@ export function Terminal({
 	}, []);
 
 	const handleCommand = useCallback((cmd: string) => {
-		if (!cmd.trim() || !isConnected) return;
+		if (!cmd.trim() || !isConnected || isRunning) return;
 
 		// Add to command history
 		setCommandHistory(prev => [...prev.slice(-49), cmd]); // Keep last 50 commands
@@ -60,7 +66,7 @@ export function Terminal({
 		// Send command
 		onCommand(cmd.trim());
 		setCommand('');
-	}, [onCommand, isConnected]);
+	}, [onCommand, isConnected, isRunning]);
 
 	const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
 		if (e.key === 'Enter') {
@@ -87,11 +93,14 @@ export function Terminal({
 					setCommand(commandHistory[newIndex]);
 				}
 			}
+		} else if (e.ctrlKey && e.key === 'c' && isRunning && !e.currentTarget.selectionStart && !e.currentTarget.selectionEnd) {
+			e.preventDefault();
+			onCancel?.();
 		} else if (e.ctrlKey && e.key === 'l') {
 			e.preventDefault();
 			// Clear terminal - we don't implement this here as it would need to be handled by parent
 		}
-	}, [command, commandHistory, historyIndex, handleCommand]);
+	}, [command, commandHistory, historyIndex, handleCommand, isRunning, onCancel]);
 
 	const getLogTypeColor = (type: TerminalLog['type']) => {
 		switch (type) {
@@ -216,7 +225,7 @@ export function Terminal({
 						value={command}
 						onChange={(e) => setCommand(e.target.value)}
 						onKeyDown={handleKeyDown}
-						placeholder={isConnected ? "Type your command here..." : "Terminal not connected"}
+						placeholder={!isConnected ? "Terminal not connected" : isRunning ? "Command running..." : "Type your command here..."}
 						disabled={!isConnected}
 						className={clsx(
 							"flex-1 bg-transparent border-none p-0 h-auto text-sm font-mono",
@@ -226,6 +235,20 @@ export function Terminal({
 							"disabled:opacity-50 disabled:cursor-not-allowed"
 						)}
 					/>
+					{isRunning && onCancel && (
+						<button
+							onClick={onCancel}
+							className={clsx(
+								"flex items-center gap-1 px-2 py-1 rounded text-xs",
+								"text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20",
+								"transition-colors"
+							)}
+							title="Stop command (Ctrl+C)"
+						>
+							<Square className="size-3 fill-current" />
+							Stop
+						</button>
+					)}
 				</div>
 				<div className="mt-2 flex items-center justify-between">
 					<div className="text-xs text-gray-500 dark:text-gray-400">
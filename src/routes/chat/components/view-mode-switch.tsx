@@ -1,6 +1,6 @@
 import clsx from 'clsx';
 import { AnimatePresence, motion } from 'framer-motion';
-import { Eye, Code, FileText, Presentation } from 'lucide-react';
+import { Eye, Code, FileText, Presentation, Terminal, Workflow } from 'lucide-react';
 import { featureRegistry } from '@/features';
 import type { ProjectType } from '@/api-types';
 
@@ -8,6 +8,7 @@ import type { ProjectType } from '@/api-types';
 const ICON_MAP: Record<string, React.ComponentType<{ className?: string }>> = {
 	Eye,
 	Presentation,
+	Workflow,
 };
 
 export function ViewModeSwitch({
@@ -18,14 +19,16 @@ export function ViewModeSwitch({
 	hasDocumentation = false,
 	previewUrl,
 	projectType,
+	terminalAvailable = false,
 }: {
-	view: 'preview' | 'editor' | 'docs' | 'blueprint' | 'presentation'
-	onChange: (mode: 'preview' | 'editor' | 'docs' | 'blueprint' | 'presentation') => void;
+	view: 'preview' | 'editor' | 'docs' | 'blueprint' | 'terminal' | 'presentation'
+	onChange: (mode: 'preview' | 'editor' | 'docs' | 'blueprint' | 'terminal' | 'presentation') => void;
 	previewAvailable: boolean;
 	showTooltip: boolean;
 	hasDocumentation: boolean;
 	previewUrl?: string;
 	projectType?: ProjectType;
+	terminalAvailable?: boolean;
 }) {
 	// Get feature definition to determine icon and label
 	const featureDefinition = projectType ? featureRegistry.getDefinition(projectType) : null;
@@ -36,6 +39,7 @@ export function ViewModeSwitch({
 	const previewView = views.find(v => v.id === 'preview');
 	const iconName = previewView?.iconName;
 	const PreviewIcon = (iconName && ICON_MAP[iconName]) || Eye;
+	const showPreviewButton = !!previewUrl || (!!projectType && featureRegistry.hasStandalonePreview(projectType));
 
 	if (!previewAvailable) {
 		return null;
@@ -56,8 +60,8 @@ export function ViewModeSwitch({
 				)}
 			</AnimatePresence>
 
-			{/* Preview button - show when app has preview URL */}
-			{previewUrl && (
+			{/* Preview button - show when app has preview URL or the feature renders its own preview */}
+			{showPreviewButton && (
 				<button
 					onClick={() => onChange('preview')}
 					className={clsx(
@@ -100,7 +104,7 @@ export function ViewModeSwitch({
 					<FileText className="size-4" />
 				</button>
 			)}
-			{/* {terminalAvailable && (
+			{terminalAvailable && (
 				<button
 					onClick={() => onChange('terminal')}
 					className={clsx(
@@ -113,7 +117,7 @@ export function ViewModeSwitch({
 				>
 					<Terminal className="size-4" />
 				</button>
-			)} */}
+			)}
 		</div>
 	);
 }
@@ -0,0 +1,46 @@
+import { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router';
+import { toast } from 'sonner';
+import type { ForkAppRequest } from '@/api-types';
+import { apiClient } from '@/lib/api-client';
+import { appEvents } from '@/lib/app-events';
+
+interface UseBranchAppReturn {
+	isBranching: boolean;
+	/** Create a new app from a completed phase or commit and open it */
+	branchFrom: (branchPoint: ForkAppRequest) => Promise<void>;
+}
+
+/**
+ * Hook for branching the current app into a new one from an earlier point,
+ * leaving the current app untouched
+ */
+export function useBranchApp(appId?: string, title?: string): UseBranchAppReturn {
+	const navigate = useNavigate();
+	const [isBranching, setIsBranching] = useState(false);
+
+	const branchFrom = useCallback(
+		async (branchPoint: ForkAppRequest) => {
+			if (!appId || isBranching) return;
+
+			setIsBranching(true);
+			try {
+				const response = await apiClient.forkApp(appId, branchPoint);
+				if (!response.data) {
+					throw new Error(response.error?.message || 'Failed to create branch');
+				}
+
+				toast.success(response.data.message);
+				appEvents.emitAppCreated(response.data.forkedAppId, { title, isForked: true });
+				navigate(`/chat/${response.data.forkedAppId}`);
+			} catch (error) {
+				toast.error(error instanceof Error ? error.message : 'Failed to create branch');
+			} finally {
+				setIsBranching(false);
+			}
+		},
+		[appId, title, isBranching, navigate],
+	);
+
+	return { isBranching, branchFrom };
+}
@@ -12,6 +12,10 @@ import {
 	type BehaviorType,
 	type FileType,
 	type TemplateDetails,
+	type DeploymentTarget,
+	type PhaseVisualCheck,
+	type SessionRole,
+	type PresenceUser,
 	getBehaviorTypeForProject,
 } from '@/api-types';
 import {
@@ -26,6 +30,7 @@ import { appEvents } from '@/lib/app-events';
 import { createWebSocketMessageHandler, type HandleMessageDeps } from '../utils/handle-websocket-message';
 import { isConversationalMessage, addOrUpdateMessage, createUserMessage, handleRateLimitError, createAIMessage, type ChatMessage } from '../utils/message-helpers';
 import { sendWebSocketMessage } from '../utils/websocket-helpers';
+import type { TerminalLog } from '../components/terminal';
 import { initialStages as defaultStages, updateStage as updateStageHelper } from '../utils/project-stage-helpers';
 import type { ProjectStage } from '../utils/project-stage-helpers';
 
@@ -44,6 +49,7 @@ export interface PhaseTimelineItem {
 	}[];
 	status: 'generating' | 'completed' | 'error' | 'validating' | 'cancelled';
 	timestamp: number;
+	visualCheck?: PhaseVisualCheck;
 }
 
 export function useChat({
@@ -60,7 +66,7 @@ export function useChat({
 	images?: ImageAttachment[];
 	projectType?: ProjectType;
 	onDebugMessage?: (type: 'error' | 'warning' | 'info' | 'websocket', message: string, details?: string, source?: string, messageType?: string, rawMessage?: unknown) => void;
-	onTerminalMessage?: (log: { id: string; content: string; type: 'command' | 'stdout' | 'stderr' | 'info' | 'error' | 'warn' | 'debug'; timestamp: number; source?: string }) => void;
+	onTerminalMessage?: (log: TerminalLog) => void;
 	onVaultUnlockRequired?: (reason: string) => void;
 }) {
 	// Derive initial behavior type from project type using feature system
@@ -146,6 +152,11 @@ export function useChat({
 	// Track whether we've completed initial state restoration to avoid disrupting active sessions
 	const [isInitialStateRestored, setIsInitialStateRestored] = useState(false);
 
+	// Shared session: this connection's role and everyone connected to the agent
+	const [sessionRole, setSessionRole] = useState<SessionRole>('owner');
+	const [connectionId, setConnectionId] = useState<string>();
+	const [presence, setPresence] = useState<PresenceUser[]>([]);
+
 	const updateStage = useCallback(
 		(stageId: ProjectStage['id'], data: Partial<Omit<ProjectStage, 'id'>>) => {
 			logger.debug('updateStage', { stageId, ...data });
@@ -221,6 +232,9 @@ export function useChat({
 			setBehaviorType,
 			setInternalProjectType,
 			setTemplateDetails,
+			setSessionRole,
+			setConnectionId,
+			setPresence,
 			// Current state
 			isInitialStateRestored,
 			blueprint,
@@ -676,11 +690,12 @@ export function useChat({
 		sendWebSocketMessage(websocket, 'resume_generation');
 	}, [websocket]);
 
-	const handleDeployToCloudflare = useCallback(async (instanceId: string) => {
+	const handleDeployToCloudflare = useCallback(async (instanceId: string, target: DeploymentTarget = 'platform') => {
 		try {
-			// Send deployment command via WebSocket instead of HTTP request
-			if (sendWebSocketMessage(websocket, 'deploy', { instanceId })) {
-				logger.debug('Deployment WebSocket message sent:', instanceId);
+			// Send deployment command via WebSocket instead of HTTP request.
+			// The 'user' target deploys with the Cloudflare token stored in the user's vault.
+			if (sendWebSocketMessage(websocket, 'deploy', { instanceId, target })) {
+				logger.debug('Deployment WebSocket message sent:', instanceId, target);
 
 				// Clear any existing deployment timeout
 				if (deploymentTimeoutRef.current) {
@@ -775,5 +790,10 @@ export function useChat({
 		projectType: internalProjectType,
 		templateDetails,
 		allFiles,
+		isInitialStateRestored,
+		// Shared session
+		sessionRole,
+		connectionId,
+		presence,
 	};
 }
@@ -0,0 +1,129 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { apiClient } from '@/lib/api-client';
+
+const SESSION_SAVE_DELAY = 1000; // 1 second
+
+export interface EditorSessionState {
+	openFiles: string[];
+	activeFile?: string;
+	cursorPosition?: { line: number; column: number };
+	scrollPosition?: number;
+}
+
+interface UseEditorSessionOptions {
+	/** Agent / app ID the project belongs to */
+	agentId?: string;
+	/** Only the app owner has a project to load and save */
+	enabled?: boolean;
+}
+
+interface UseEditorSessionReturn {
+	/** Session stored on the server, null when there is none */
+	restoredSession: EditorSessionState | null;
+	/** Whether loading the stored session has finished */
+	isLoaded: boolean;
+	/** Merge state into the session and save it after a short delay */
+	saveSession: (state: Partial<EditorSessionState>) => void;
+}
+
+/**
+ * Hook for persisting the editor session (open files, active file, cursor
+ * and scroll position) to the app's project so it survives reloads and devices
+ */
+export function useEditorSession(options: UseEditorSessionOptions): UseEditorSessionReturn {
+	const { agentId, enabled = true } = options;
+
+	const [restoredSession, setRestoredSession] = useState<EditorSessionState | null>(null);
+	const [isLoaded, setIsLoaded] = useState(false);
+	const projectIdRef = useRef<string | null>(null);
+	const pendingRef = useRef<Partial<EditorSessionState> | null>(null);
+	const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+	useEffect(() => {
+		setRestoredSession(null);
+		setIsLoaded(false);
+		projectIdRef.current = null;
+		if (!enabled || !agentId) return;
+
+		let cancelled = false;
+		apiClient
+			.getProjectByAppId(agentId)
+			.then((response) => {
+				if (cancelled) return;
+				const project = response.data?.project;
+				projectIdRef.current = project?.project.id ?? null;
+
+				const session = project?.session;
+				if (session) {
+					setRestoredSession({
+						openFiles: session.openFiles ?? [],
+						activeFile: session.activeFile ?? undefined,
+						cursorPosition: session.cursorPosition ?? undefined,
+						scrollPosition: session.scrollPosition ?? undefined,
+					});
+				}
+			})
+			.catch((error) => {
+				console.error('Error loading editor session:', error);
+			})
+			.finally(() => {
+				if (!cancelled) setIsLoaded(true);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [enabled, agentId]);
+
+	const flush = useCallback(async () => {
+		const state = pendingRef.current;
+		pendingRef.current = null;
+		if (!state || !agentId) return;
+
+		try {
+			if (!projectIdRef.current) {
+				// The server creates the project if the agent hasn't yet
+				const response = await apiClient.ensureProjectForApp(agentId);
+				projectIdRef.current = response.data?.project.id ?? null;
+			}
+			if (projectIdRef.current) {
+				await apiClient.saveProjectSession(projectIdRef.current, state);
+			}
+		} catch (error) {
+			console.error('Error saving editor session:', error);
+		}
+	}, [agentId]);
+
+	const saveSession = useCallback(
+		(state: Partial<EditorSessionState>) => {
+			if (!enabled || !isLoaded) return;
+
+			pendingRef.current = { ...pendingRef.current, ...state };
+			if (saveTimeoutRef.current) {
+				clearTimeout(saveTimeoutRef.current);
+			}
+			saveTimeoutRef.current = setTimeout(() => {
+				saveTimeoutRef.current = null;
+				void flush();
+			}, SESSION_SAVE_DELAY);
+		},
+		[enabled, isLoaded, flush],
+	);
+
+	// Save whatever is pending when leaving the editor
+	useEffect(() => {
+		return () => {
+			if (saveTimeoutRef.current) {
+				clearTimeout(saveTimeoutRef.current);
+				saveTimeoutRef.current = null;
+				void flush();
+			}
+		};
+	}, [flush]);
+
+	return {
+		restoredSession,
+		isLoaded,
+		saveSession,
+	};
+}
@@ -0,0 +1,148 @@
+import { useState, useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import type { WebSocket } from 'partysocket';
+import type { FileEditHistoryData } from '@/api-types';
+import { apiClient } from '@/lib/api-client';
+
+const RESTORE_TIMEOUT = 10000; // 10 seconds
+
+export type FileEditEntry = FileEditHistoryData['edits'][number];
+
+interface UseFileHistoryOptions {
+	/** Agent / app ID the project belongs to */
+	agentId?: string;
+	/** File to load history for */
+	filePath?: string;
+	/** WebSocket connection used to write restored content */
+	websocket?: WebSocket;
+	/** Skip fetching while the panel is hidden */
+	enabled?: boolean;
+}
+
+interface UseFileHistoryReturn {
+	edits: FileEditEntry[];
+	isLoading: boolean;
+	isRestoring: boolean;
+	/** Write the content of an edit back to the file */
+	restoreEdit: (edit: FileEditEntry) => Promise<void>;
+	refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for loading the edit history of a file and restoring earlier versions
+ */
+export function useFileHistory(options: UseFileHistoryOptions): UseFileHistoryReturn {
+	const { agentId, filePath, websocket, enabled = true } = options;
+
+	const [projectId, setProjectId] = useState<string | null>(null);
+	const [edits, setEdits] = useState<FileEditEntry[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [isRestoring, setIsRestoring] = useState(false);
+
+	// Resolve the project once; it only exists after the first recorded edit
+	useEffect(() => {
+		if (!enabled || !agentId || projectId) return;
+
+		let cancelled = false;
+		apiClient
+			.getProjectByAppId(agentId)
+			.then((response) => {
+				if (!cancelled) {
+					setProjectId(response.data?.project?.project.id ?? null);
+				}
+			})
+			.catch((error) => {
+				console.error('Error resolving project for file history:', error);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [enabled, agentId, projectId, filePath]);
+
+	const refresh = useCallback(async () => {
+		if (!projectId || !filePath) {
+			setEdits([]);
+			return;
+		}
+
+		setIsLoading(true);
+		try {
+			const response = await apiClient.getFileEdits(projectId, { filePath });
+			setEdits(response.data?.edits ?? []);
+		} catch (error) {
+			console.error('Error fetching file history:', error);
+		} finally {
+			setIsLoading(false);
+		}
+	}, [projectId, filePath]);
+
+	useEffect(() => {
+		if (enabled) {
+			void refresh();
+		}
+	}, [enabled, refresh]);
+
+	const restoreEdit = useCallback(
+		(edit: FileEditEntry) =>
+			new Promise<void>((resolve) => {
+				if (!websocket) {
+					toast.error('Not connected');
+					resolve();
+					return;
+				}
+
+				setIsRestoring(true);
+
+				const finish = () => {
+					clearTimeout(timeoutId);
+					websocket.removeEventListener('message', handleMessage);
+					setIsRestoring(false);
+					resolve();
+				};
+
+				const handleMessage = (event: MessageEvent) => {
+					try {
+						const message = JSON.parse(event.data as string);
+						if (message.filePath !== edit.filePath) return;
+
+						if (message.type === 'file_updated') {
+							toast.success('Version restored');
+							finish();
+							void refresh();
+						} else if (message.type === 'file_update_error') {
+							toast.error(message.error || 'Failed to restore version');
+							finish();
+						}
+					} catch (error) {
+						console.error('Error parsing WebSocket message:', error);
+					}
+				};
+
+				const timeoutId = setTimeout(() => {
+					toast.error('Restore timed out');
+					finish();
+				}, RESTORE_TIMEOUT);
+
+				websocket.addEventListener('message', handleMessage);
+				websocket.send(
+					JSON.stringify({
+						type: 'update_file',
+						data: {
+							filePath: edit.filePath,
+							content: edit.contentAfter,
+						},
+					}),
+				);
+			}),
+		[websocket, refresh],
+	);
+
+	return {
+		edits,
+		isLoading,
+		isRestoring,
+		restoreEdit,
+		refresh,
+	};
+}
@@ -0,0 +1,86 @@
+import { useState, useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import type { WebSocket } from 'partysocket';
+import type { BranchInfo } from '@/api-types';
+import { isWebSocketReady, sendWebSocketMessage } from '../utils/websocket-helpers';
+
+interface UseGitBranchesReturn {
+	branches: BranchInfo[];
+	currentBranch: string | null;
+	isSwitching: boolean;
+	/** Ask the agent for the latest branch list */
+	refresh: () => void;
+	switchBranch: (branch: string) => void;
+}
+
+/**
+ * Hook for listing the agent repository's branches and switching the
+ * branch the preview is built from
+ */
+export function useGitBranches(websocket?: WebSocket): UseGitBranchesReturn {
+	const [branches, setBranches] = useState<BranchInfo[]>([]);
+	const [currentBranch, setCurrentBranch] = useState<string | null>(null);
+	const [isSwitching, setIsSwitching] = useState(false);
+
+	useEffect(() => {
+		if (!websocket) return;
+
+		const handleMessage = (event: MessageEvent) => {
+			try {
+				const message = JSON.parse(event.data as string);
+				switch (message.type) {
+					case 'git_branches':
+						setBranches(message.branches);
+						setCurrentBranch(message.currentBranch);
+						break;
+					case 'git_branch_switched':
+						setCurrentBranch(message.branch);
+						setIsSwitching(false);
+						break;
+					case 'git_branch_error':
+						setIsSwitching(false);
+						toast.error(`${message.message}: ${message.error}`);
+						break;
+				}
+			} catch (error) {
+				console.error('Error parsing WebSocket message:', error);
+			}
+		};
+
+		// Ask again whenever the connection (re)opens
+		const requestBranches = () => sendWebSocketMessage(websocket, 'git_list_branches');
+
+		websocket.addEventListener('message', handleMessage);
+		websocket.addEventListener('open', requestBranches);
+		if (isWebSocketReady(websocket)) {
+			requestBranches();
+		}
+
+		return () => {
+			websocket.removeEventListener('message', handleMessage);
+			websocket.removeEventListener('open', requestBranches);
+		};
+	}, [websocket]);
+
+	const refresh = useCallback(() => {
+		sendWebSocketMessage(websocket, 'git_list_branches');
+	}, [websocket]);
+
+	const switchBranch = useCallback(
+		(branch: string) => {
+			if (branch === currentBranch) return;
+			if (sendWebSocketMessage(websocket, 'git_switch_branch', { data: { branch } })) {
+				setIsSwitching(true);
+			}
+		},
+		[websocket, currentBranch],
+	);
+
+	return {
+		branches,
+		currentBranch,
+		isSwitching,
+		refresh,
+		switchBranch,
+	};
+}
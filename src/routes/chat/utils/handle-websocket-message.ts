@@ -1,5 +1,5 @@
 import type { WebSocket } from 'partysocket';
-import type { WebSocketMessage, BlueprintType, ConversationMessage, AgentState, PhasicState, BehaviorType, ProjectType, TemplateDetails } from '@/api-types';
+import type { WebSocketMessage, BlueprintType, ConversationMessage, AgentState, PhasicState, BehaviorType, ProjectType, TemplateDetails, SessionRole, PresenceUser } from '@/api-types';
 import { deduplicateMessages, isAssistantMessageDuplicate } from './deduplicate-messages';
 import { logger } from '@/utils/logger';
 import { getFileType } from '@/utils/string';
@@ -14,6 +14,7 @@ import {
 import {
     createAIMessage,
     handleRateLimitError,
+    handleBudgetExhausted,
     handleStreamingMessage,
     appendToolEvent,
     type ChatMessage,
@@ -21,6 +22,7 @@ import {
 import { completeStages, type ProjectStage } from './project-stage-helpers';
 import { sendWebSocketMessage } from './websocket-helpers';
 import type { PhaseTimelineItem } from '../hooks/use-chat';
+import type { TerminalLog } from '../components/terminal';
 import type { FileType } from '@/api-types';
 import { toast } from 'sonner';
 import { createRepairingJSONParser } from '@/utils/ndjson-parser/ndjson-parser';
@@ -62,6 +64,9 @@ export interface HandleMessageDeps {
     setBehaviorType: React.Dispatch<React.SetStateAction<BehaviorType>>;
     setInternalProjectType: React.Dispatch<React.SetStateAction<ProjectType>>;
     setTemplateDetails: React.Dispatch<React.SetStateAction<TemplateDetails | null>>;
+    setSessionRole: React.Dispatch<React.SetStateAction<SessionRole>>;
+    setConnectionId: React.Dispatch<React.SetStateAction<string | undefined>>;
+    setPresence: React.Dispatch<React.SetStateAction<PresenceUser[]>>;
     onPresentationFileEvent?: (event: { type: 'file_generating' | 'file_chunk' | 'file_generated'; path: string; chunk?: string; contents?: string }) => void;
     clearDeploymentTimeout?: () => void;
 
@@ -90,13 +95,7 @@ export interface HandleMessageDeps {
         messageType?: string,
         rawMessage?: unknown
     ) => void;
-    onTerminalMessage?: (log: {
-        id: string;
-        content: string;
-        type: 'command' | 'stdout' | 'stderr' | 'info' | 'error' | 'warn' | 'debug';
-        timestamp: number;
-        source?: string
-    }) => void;
+    onTerminalMessage?: (log: TerminalLog) => void;
     onVaultUnlockRequired?: (reason: string) => void;
 }
 
@@ -141,6 +140,9 @@ export function createWebSocketMessageHandler(deps: HandleMessageDeps) {
             setBehaviorType,
             setInternalProjectType,
             setTemplateDetails,
+            setSessionRole,
+            setConnectionId,
+            setPresence,
             isInitialStateRestored,
             blueprint,
             query,
@@ -182,7 +184,11 @@ export function createWebSocketMessageHandler(deps: HandleMessageDeps) {
                 break;
             }
             case 'agent_connected': {
-                const { state, templateDetails, previewUrl } = message;
+                const { state, templateDetails, previewUrl, access } = message;
+                if (access) {
+                    setSessionRole(access.role);
+                    setConnectionId(access.connectionId);
+                }
                 if (!isInitialStateRestored) {
                     logger.debug('📥 Performing initial state restoration');
 
@@ -284,6 +290,7 @@ export function createWebSocketMessageHandler(deps: HandleMessageDeps) {
                                     };
                                 }),
                                 timestamp: Date.now(),
+                                visualCheck: phase.visualCheck,
                             };
                         });
                         setPhaseTimeline(timeline);
@@ -323,11 +330,18 @@ export function createWebSocketMessageHandler(deps: HandleMessageDeps) {
                         logger.debug('🔄 Reconnected with shouldBeGenerating=true, auto-resuming generation');
                         setIsGenerating(true); 
                         updateStage('code', { status: 'active' });
-                        sendWebSocketMessage(websocket, 'generate_all');
+                        // Viewers follow along, only owners and editors drive generation
+                        if (access?.role !== 'viewer') {
+                            sendWebSocketMessage(websocket, 'generate_all');
+                        }
                     }
                 }
                 break;
             }
+            case 'presence': {
+                setPresence(message.users);
+                break;
+            }
             case 'template_updated': {
                 const { templateDetails } = message;
                 // Update stored template details
@@ -546,6 +560,27 @@ export function createWebSocketMessageHandler(deps: HandleMessageDeps) {
 				break;
 			}
 
+            case 'git_branch_switched':
+            case 'git_push_received': {
+                setFiles(
+                    message.files.map((file) => ({
+                        filePath: file.filePath,
+                        fileContents: file.fileContents,
+                        isGenerating: false,
+                        needsFixing: false,
+                        hasErrors: false,
+                        language: getFileType(file.filePath),
+                    })),
+                );
+                toast.info(message.message);
+                break;
+            }
+
+            case 'git_branches':
+            case 'git_branch_error':
+                // Handled by useGitBranches
+                break;
+
             case 'file_regenerated': {
                 setIsRedeployReady(true);
                 setFiles((prev) => setFileCompleted(prev, message.file.filePath, message.file.fileContents));
@@ -767,6 +802,16 @@ export function createWebSocketMessageHandler(deps: HandleMessageDeps) {
                 break;
             }
 
+            case 'screenshot_analysis_result': {
+                setPhaseTimeline(prev => prev.map(phase =>
+                    phase.name === message.phaseName ? { ...phase, visualCheck: message.visualCheck } : phase
+                ));
+                if (message.visualCheck.regressions.length > 0) {
+                    onDebugMessage?.('warning', 'Visual regressions detected', message.visualCheck.regressions.join('\n'), 'Visual Check', message.type, message);
+                }
+                break;
+            }
+
             case 'preview_force_refresh': {
                 setShouldRefreshPreview(true);
                 setTimeout(() => {
@@ -882,6 +927,35 @@ export function createWebSocketMessageHandler(deps: HandleMessageDeps) {
                 break;
             }
 
+            case 'export_started':
+            case 'export_progress': {
+                toast.loading(message.message, { id: `export-${message.kind}` });
+                break;
+            }
+
+            case 'export_completed': {
+                const downloadUrl = message.url;
+                toast.success(message.message, {
+                    id: `export-${message.kind}`,
+                    action: {
+                        label: message.kind === 'googleslides' ? 'Open' : 'Download',
+                        onClick: () => window.open(downloadUrl, '_blank'),
+                    },
+                });
+                break;
+            }
+
+            case 'export_error': {
+                toast.error(`Export failed: ${message.error}`, { id: `export-${message.kind}` });
+                break;
+            }
+
+            case 'workflow_run_started':
+            case 'workflow_step_log':
+            case 'workflow_run_completed':
+                // Rendered by the workflow feature preview
+                break;
+
             case 'conversation_response': {
                 // Use concrete conversationId when available; otherwise use placeholder id
                 let conversationId = message.conversationId ?? 'conversation_response';
@@ -957,11 +1031,13 @@ export function createWebSocketMessageHandler(deps: HandleMessageDeps) {
             case 'terminal_output': {
                 // Handle terminal output from server
                 if (onTerminalMessage) {
-                    const terminalLog = {
+                    // The server echoes each command as it starts, so every viewer sees it
+                    const terminalLog: TerminalLog = {
                         id: `terminal-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
                         content: message.output,
-                        type: message.outputType as 'stdout' | 'stderr' | 'info',
-                        timestamp: message.timestamp
+                        type: message.commandStatus === 'running' ? 'command' : message.outputType,
+                        timestamp: message.timestamp,
+                        commandStatus: message.commandStatus
                     };
                     onTerminalMessage(terminalLog);
                 }
@@ -1030,6 +1106,13 @@ export function createWebSocketMessageHandler(deps: HandleMessageDeps) {
                 break;
             }
 
+            case 'budget_exhausted': {
+                const budgetMessage = handleBudgetExhausted(message.error.details);
+                setMessages(prev => [...prev, budgetMessage]);
+                onDebugMessage?.('error', 'Credit budget exhausted', message.error.details.message, 'Credits', message.type, message);
+                break;
+            }
+
             default:
                 logger.warn('Unhandled message:', message);
         }
@@ -104,6 +104,22 @@ export function handleRateLimitError(
     );
 }
 
+/**
+ * Handle an exhausted monthly credit budget
+ */
+export function handleBudgetExhausted(budgetError: RateLimitError): ChatMessage {
+    toast.error(budgetError.message);
+
+    const suggestions = budgetError.suggestions?.length
+        ? `\n\n💡 Suggestions:\n${budgetError.suggestions.map(s => `• ${s}`).join('\n')}`
+        : '';
+
+    return createAIMessage(
+        `budget_exhausted_${Date.now()}`,
+        `💳 ${budgetError.message}${suggestions}\n\nSee where your credits went on the [usage page](/usage).`
+    );
+}
+
 /**
  * Add or update a message in the messages array
  */
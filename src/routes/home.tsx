@@ -37,7 +37,9 @@ export default function Home() {
 					? 'Slides'
 					: def.id === 'general'
 						? 'General'
-						: 'App',
+						: def.id === 'workflow'
+							? 'Workflow'
+							: 'App',
 			description: def.description,
 		}));
 	}, [capabilities, getEnabledFeatures, isLoadingCapabilities]);
@@ -323,7 +325,7 @@ export default function Home() {
 											<ProjectCard
 												key={project.id}
 												project={project}
-												onClick={() => navigate(`/project/${project.id}`)}
+												onClick={() => navigate(`/chat/${project.appId}`)}
 											/>
 										))}
 									</AnimatePresence>
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuthModal } from '@/components/auth/AuthModalProvider';
+import { apiClient } from '@/lib/api-client';
+
+export default function ResetPasswordPage() {
+	const [searchParams] = useSearchParams();
+	const navigate = useNavigate();
+	const { showAuthModal } = useAuthModal();
+	const token = searchParams.get('token') ?? '';
+
+	const [newPassword, setNewPassword] = useState('');
+	const [confirmPassword, setConfirmPassword] = useState('');
+	const [error, setError] = useState<string | null>(null);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [isDone, setIsDone] = useState(false);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError(null);
+
+		if (newPassword.length < 8) {
+			setError('Password must be at least 8 characters');
+			return;
+		}
+		if (newPassword !== confirmPassword) {
+			setError('Passwords do not match');
+			return;
+		}
+
+		setIsSubmitting(true);
+		try {
+			await apiClient.resetPassword({ token, newPassword, confirmPassword });
+			setIsDone(true);
+			toast.success('Password updated, please sign in again');
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to reset password');
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const handleSignIn = () => {
+		navigate('/');
+		showAuthModal();
+	};
+
+	return (
+		<div className="flex min-h-[60vh] items-center justify-center p-4">
+			<Card className="w-full max-w-md">
+				<CardHeader>
+					<CardTitle>Reset your password</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{!token ? (
+						<p className="text-sm text-text-tertiary">
+							This reset link is missing its token. Request a new one from the sign in dialog.
+						</p>
+					) : isDone ? (
+						<div className="space-y-4">
+							<p className="text-sm text-text-secondary">
+								Your password has been updated and all other sessions were signed out.
+							</p>
+							<Button className="w-full" onClick={handleSignIn}>
+								Sign in
+							</Button>
+						</div>
+					) : (
+						<form onSubmit={handleSubmit} className="space-y-4">
+							<div className="space-y-2">
+								<Label htmlFor="new-password">New password</Label>
+								<Input
+									id="new-password"
+									type="password"
+									autoComplete="new-password"
+									value={newPassword}
+									onChange={(e) => setNewPassword(e.target.value)}
+									disabled={isSubmitting}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="confirm-password">Confirm password</Label>
+								<Input
+									id="confirm-password"
+									type="password"
+									autoComplete="new-password"
+									value={confirmPassword}
+									onChange={(e) => setConfirmPassword(e.target.value)}
+									disabled={isSubmitting}
+								/>
+							</div>
+							{error && <p className="text-sm text-destructive">{error}</p>}
+							<Button type="submit" className="w-full" disabled={isSubmitting}>
+								{isSubmitting ? 'Updating...' : 'Set new password'}
+							</Button>
+						</form>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -9,18 +9,25 @@ import {
 	Check,
 	Eye,
 	EyeOff,
+	Plug,
 } from 'lucide-react';
 import { ModelConfigTabs } from '@/components/model-config-tabs';
+import { McpServersManager } from '@/components/mcp-servers-manager';
 import type {
 	ModelConfigsData,
 	ModelConfigUpdate,
 	ActiveSessionsData,
 	ApiKeysData,
+	ApiKeyScope,
+	ApiKeyScopeGrant,
 } from '@/api-types';
+import { API_KEY_SCOPES } from '@/api-types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { useAuth } from '@/contexts/auth-context';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -57,6 +64,47 @@ import { apiClient } from '@/lib/api-client';
 import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
 // import { SecretsManager } from '@/components/vault';
 
+const API_KEY_SCOPE_OPTIONS: Record<
+	ApiKeyScope,
+	{ label: string; description: string; appLimited: boolean }
+> = {
+	'apps:read': {
+		label: 'Read apps',
+		description: 'List your apps and clone their code',
+		appLimited: true,
+	},
+	'builds:create': {
+		label: 'Create builds',
+		description: 'Start new apps and continue generating existing ones',
+		appLimited: true,
+	},
+	deploy: {
+		label: 'Deploy',
+		description: 'Deploy apps to Cloudflare',
+		appLimited: true,
+	},
+	'secrets:manage': {
+		label: 'Manage secrets',
+		description: 'Read and change secrets in your vault',
+		appLimited: false,
+	},
+};
+
+function buildScopeGrants(
+	scopes: ApiKeyScope[],
+	appIdsInput: string,
+): ApiKeyScopeGrant[] {
+	const appIds = appIdsInput
+		.split(',')
+		.map((id) => id.trim())
+		.filter(Boolean);
+	return scopes.map((scope) =>
+		appIds.length > 0 && API_KEY_SCOPE_OPTIONS[scope].appLimited
+			? { scope, appIds }
+			: { scope },
+	);
+}
+
 export default function SettingsPage() {
 	const { user } = useAuth();
 	// Active sessions state
@@ -72,6 +120,8 @@ export default function SettingsPage() {
 	});
 	const [createKeyOpen, setCreateKeyOpen] = useState(false);
 	const [newKeyName, setNewKeyName] = useState('');
+	const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>([]);
+	const [newKeyAppIds, setNewKeyAppIds] = useState('');
 	const [creatingKey, setCreatingKey] = useState(false);
 	const [createdKey, setCreatedKey] = useState<{
 		key: string;
@@ -356,7 +406,10 @@ export default function SettingsPage() {
 		if (!newKeyName.trim() || creatingKey) return;
 		try {
 			setCreatingKey(true);
-			const response = await apiClient.createApiKey({ name: newKeyName.trim() });
+			const response = await apiClient.createApiKey({
+				name: newKeyName.trim(),
+				scopes: buildScopeGrants(newKeyScopes, newKeyAppIds),
+			});
 			if (response.success && response.data) {
 				setCreatedKey({
 					key: response.data.key,
@@ -368,10 +421,14 @@ export default function SettingsPage() {
 				toast.success('API key created');
 				await loadApiKeys();
 				setNewKeyName('');
+				setNewKeyScopes([]);
+				setNewKeyAppIds('');
 			}
 		} catch (error) {
 			console.error('Error creating API key:', error);
-			toast.error('Failed to create API key');
+			toast.error(
+				error instanceof Error ? error.message : 'Failed to create API key',
+			);
 		} finally {
 			setCreatingKey(false);
 		}
@@ -588,6 +645,21 @@ export default function SettingsPage() {
 						</CardContent>
 					</Card>
 
+					{/* MCP Servers Section */}
+					<Card id="mcp-servers">
+						<CardHeader variant="minimal">
+							<div className="flex items-center gap-3 border-b w-full py-3 text-text-primary">
+								<Plug className="h-5 w-5" />
+								<div>
+									<CardTitle>MCP Servers</CardTitle>
+								</div>
+							</div>
+						</CardHeader>
+						<CardContent className="px-6 mt-6">
+							<McpServersManager />
+						</CardContent>
+					</Card>
+
 					{/* User Secrets Vault Section */}
 					{/* <SecretsManager id="secrets" /> */}
 
@@ -615,6 +687,8 @@ export default function SettingsPage() {
 										setCreateKeyOpen(open);
 										if (!open) {
 											setNewKeyName('');
+											setNewKeyScopes([]);
+											setNewKeyAppIds('');
 											setCreatedKey(null);
 											setShowCreatedKey(true);
 											resetCreatedKeyCopy();
@@ -651,9 +725,55 @@ export default function SettingsPage() {
 													/>
 												</div>
 
+												<div className="space-y-2">
+													<p className="text-sm font-medium">Permissions</p>
+													<div className="space-y-2">
+														{API_KEY_SCOPES.map((scope) => (
+															<div key={scope} className="flex items-start gap-2">
+																<Checkbox
+																	id={`api-key-scope-${scope}`}
+																	checked={newKeyScopes.includes(scope)}
+																	onCheckedChange={(checked) =>
+																		setNewKeyScopes((prev) =>
+																			checked
+																				? [...prev, scope]
+																				: prev.filter((s) => s !== scope),
+																		)
+																	}
+																/>
+																<div className="grid gap-0.5">
+																	<Label htmlFor={`api-key-scope-${scope}`} className="text-sm">
+																		{API_KEY_SCOPE_OPTIONS[scope].label}
+																	</Label>
+																	<p className="text-xs text-text-tertiary">
+																		{API_KEY_SCOPE_OPTIONS[scope].description}
+																	</p>
+																</div>
+															</div>
+														))}
+													</div>
+													<p className="text-xs text-text-tertiary">
+														Leave every permission unchecked for full account access.
+													</p>
+												</div>
+
+												{newKeyScopes.some((scope) => API_KEY_SCOPE_OPTIONS[scope].appLimited) && (
+													<div className="space-y-2">
+														<p className="text-sm font-medium">Limit to apps</p>
+														<Input
+															value={newKeyAppIds}
+															onChange={(e) => setNewKeyAppIds(e.target.value)}
+															placeholder="Comma separated app IDs, leave empty for all apps"
+														/>
+														<p className="text-xs text-text-tertiary">
+															App-limited keys can't list or create apps. Secrets access always covers the whole account.
+														</p>
+													</div>
+												)}
+
 												<div className="rounded-lg bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 p-3">
 													<p className="text-sm text-amber-800 dark:text-amber-200">
-														<strong>Important:</strong> Treat this like a password. Anyone with this key can act as your VibeSDK account.
+														<strong>Important:</strong> Treat this like a password. Anyone with this key can act as your VibeSDK account within its permissions.
 													</p>
 												</div>
 											</div>
@@ -758,6 +878,7 @@ export default function SettingsPage() {
 											<TableRow>
 												<TableHead>Name</TableHead>
 												<TableHead>Preview</TableHead>
+												<TableHead>Permissions</TableHead>
 												<TableHead>Created</TableHead>
 												<TableHead>Last used</TableHead>
 												<TableHead>Status</TableHead>
@@ -769,6 +890,25 @@ export default function SettingsPage() {
 												<TableRow key={k.id}>
 													<TableCell className="font-medium">{k.name}</TableCell>
 													<TableCell className="font-mono text-xs text-text-secondary">{k.keyPreview}</TableCell>
+													<TableCell>
+														{k.scopes.length === 0 ? (
+															<span className="text-sm text-text-secondary">Full access</span>
+														) : (
+															<div className="flex flex-wrap gap-1">
+																{k.scopes.map((grant) => (
+																	<Badge
+																		key={grant.scope}
+																		variant="outline"
+																		className="text-xs"
+																		title={grant.appIds?.join(', ')}
+																	>
+																		{API_KEY_SCOPE_OPTIONS[grant.scope].label}
+																		{grant.appIds && ` (${grant.appIds.length} ${grant.appIds.length === 1 ? 'app' : 'apps'})`}
+																	</Badge>
+																))}
+															</div>
+														)}
+													</TableCell>
 													<TableCell className="text-text-secondary">
 														{k.createdAt ? new Date(k.createdAt).toLocaleDateString() : '—'}
 													</TableCell>
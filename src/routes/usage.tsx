@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router';
+import { RefreshCw } from 'lucide-react';
+import type { CreditSpendEntry, UserCreditsData } from '@/api-types';
+import { apiClient } from '@/lib/api-client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+
+function formatCredits(value: number): string {
+	return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+function SpendTable({
+	title,
+	entries,
+	linkToApp,
+}: {
+	title: string;
+	entries: CreditSpendEntry[];
+	linkToApp?: boolean;
+}) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="text-base">{title}</CardTitle>
+			</CardHeader>
+			<CardContent>
+				{entries.length === 0 ? (
+					<p className="text-sm text-text-tertiary">No spend this month</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Name</TableHead>
+								<TableHead className="text-right">Calls</TableHead>
+								<TableHead className="text-right">Credits</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{entries.map((entry) => (
+								<TableRow key={entry.key}>
+									<TableCell>
+										{linkToApp && entry.key !== 'unknown' ? (
+											<Link to={`/app/${entry.key}`} className="hover:underline">
+												{entry.label}
+											</Link>
+										) : (
+											entry.label
+										)}
+									</TableCell>
+									<TableCell className="text-right">{entry.calls}</TableCell>
+									<TableCell className="text-right">{formatCredits(entry.credits)}</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+export default function UsagePage() {
+	const [data, setData] = useState<UserCreditsData | null>(null);
+	const [loading, setLoading] = useState(false);
+
+	const load = useCallback(async () => {
+		setLoading(true);
+		try {
+			const response = await apiClient.getUserCredits();
+			if (response.success && response.data) {
+				setData(response.data);
+			}
+		} catch (error) {
+			console.error('Failed to load credit usage:', error);
+			toast.error('Failed to load credit usage');
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const balance = data?.balance;
+	const budget = balance ? balance.allowance + balance.topUps : 0;
+	const usedPercent = balance && budget > 0 ? Math.min(100, (balance.spent / budget) * 100) : 0;
+
+	return (
+		<div className="container mx-auto max-w-5xl px-4 py-8 space-y-6">
+			<div className="flex items-center justify-between">
+				<div>
+					<h1 className="text-3xl font-bold">Usage</h1>
+					<p className="text-text-tertiary">Credits spent on AI inference this month</p>
+				</div>
+				<Button variant="outline" size="sm" onClick={load} disabled={loading}>
+					<RefreshCw className="h-4 w-4 mr-1" />
+					Refresh
+				</Button>
+			</div>
+
+			{balance && (
+				<Card>
+					<CardHeader>
+						<CardTitle className="text-base">This month</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-3">
+						<div className="flex items-baseline justify-between">
+							<span className="text-2xl font-semibold">
+								{formatCredits(balance.spent)} / {formatCredits(budget)} credits
+							</span>
+							<span className="text-sm text-text-tertiary">
+								{formatCredits(Math.max(0, balance.remaining))} left
+							</span>
+						</div>
+						<Progress value={usedPercent} />
+						<div className="text-xs text-text-tertiary space-y-1">
+							<p>
+								Monthly allowance {formatCredits(balance.allowance)}
+								{balance.topUps > 0 && `, plus ${formatCredits(balance.topUps)} from top-ups`}. Resets on{' '}
+								{new Date(balance.periodEnd).toLocaleDateString()}.
+							</p>
+							{!balance.enforced && <p>Budgets are not enforced on this platform, spend is shown for reference.</p>}
+						</div>
+					</CardContent>
+				</Card>
+			)}
+
+			{data && (
+				<div className="grid gap-6 md:grid-cols-2">
+					<SpendTable title="By model" entries={data.usage.byModel} />
+					<SpendTable title="By agent action" entries={data.usage.byAction} />
+					<div className="md:col-span-2">
+						<SpendTable title="By app" entries={data.usage.byApp} linkToApp />
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
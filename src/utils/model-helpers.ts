@@ -55,6 +55,7 @@ export function categorizeAgent(agentKey: string): string {
 		// Planning - Project planning and setup
 		'phaseGeneration': 'planning',
 		'projectSetup': 'planning',
+		'workflowGeneration': 'planning',
 
 		// Coding - Development and implementation
 		'phaseImplementation': 'coding',
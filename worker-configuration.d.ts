@@ -3,7 +3,7 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./worker/index");
-		durableNamespaces: "CodeGeneratorAgent" | "UserAppSandboxService" | "DORateLimitStore";
+		durableNamespaces: "CodeGeneratorAgent" | "UserAppSandboxService" | "DORateLimitStore" | "UserAppWorkerRuntime";
 	}
 	interface Env {
 		VibecoderStore: KVNamespace;
@@ -12,7 +12,7 @@ declare namespace Cloudflare {
 		DISPATCH_NAMESPACE: "vibesdk-default-namespace";
 		ENABLE_READ_REPLICAS: "true";
 		CLOUDFLARE_AI_GATEWAY: "vibesdk-gateway";
-		PLATFORM_CAPABILITIES: {"features":{"app":{"enabled":true},"presentation":{"enabled":false},"general":{"enabled":false}},"version":"1.0.0"};
+		PLATFORM_CAPABILITIES: {"features":{"app":{"enabled":true},"presentation":{"enabled":false},"workflow":{"enabled":false},"general":{"enabled":false}},"version":"1.0.0"};
 		ANTHROPIC_API_KEY: string;
 		OPENAI_API_KEY: string;
 		GOOGLE_AI_STUDIO_API_KEY: string;
@@ -58,6 +58,8 @@ declare namespace Cloudflare {
 		sandbox: DurableObjectNamespace<import("./worker/index").UserAppSandboxService>;
 		DORateLimitStore: DurableObjectNamespace<import("./worker/index").DORateLimitStore>;
 		UserSecretsStore: DurableObjectNamespace<import("./worker/index").UserSecretsStore>;
+		WorkerRuntime: DurableObjectNamespace<import("./worker/index").UserAppWorkerRuntime>;
+		LOADER: WorkerLoader;
 		TEMPLATES_BUCKET: R2Bucket;
 		DB: D1Database;
 		DISPATCHER: DispatchNamespace;
@@ -6,8 +6,7 @@ import { createObjectLogger } from "../../logger";
 import { executeInference } from "../inferutils/infer";
 import { PROMPT_UTILS } from "../prompts";
 import Assistant from "./assistant";
-import { applySearchReplaceDiff } from "../output-formats/diff-formats";
-import { infer } from "../inferutils/core";
+import { ApplyResult, applySearchReplaceDiff } from "../output-formats/diff-formats";
 import { MatchingStrategy, FailedBlock } from "../output-formats/diff-formats/search-replace";
 import { AgentActionKey, AIModels, InferenceContext } from "../inferutils/config.types";
 import { AGENT_CONFIG } from "../inferutils/config";
@@ -148,6 +147,11 @@ ${PROMPT_UTILS.REACT_RENDER_LOOP_PREVENTION}
 
 const DIFF_FIXER_PROMPT = `You made mistakes in generating the diffs and they failed to match. You need to regenerate them properly.
 
+Here are the current contents of the file:
+<current_file>
+{{currentContent}}
+</current_file>
+
 {{failedBlocksCount}} SEARCH/REPLACE block(s) failed to match!
 
 {{failedBlocks}}
@@ -449,6 +453,29 @@ ${currentDiff}
         }
     }
 
+    /**
+     * Report search/replace blocks that failed to apply back to the model and apply its corrections
+     * The file is expected to already hold the blocks that did apply
+     */
+    async retryFailedBlocks(
+        file: FileOutputType,
+        editResult: ApplyResult,
+        maxRetries: number = MAX_RETRIES
+    ): Promise<FileOutputType> {
+        const { failedBlocks, errors, blocksApplied } = editResult.results;
+        this.logger.info(`Retrying ${failedBlocks.length} failed search/replace blocks for file: ${file.filePath}`);
+
+        const correctedDiff = await this.getLLMCorrectedDiff(file.fileContents, failedBlocks, errors, blocksApplied);
+        if (!correctedDiff) {
+            return file;
+        }
+
+        return {
+            ...file,
+            fileContents: await this.applyDiffSafely(file.fileContents, correctedDiff, maxRetries - 1)
+        };
+    }
+
     /**
      * Get corrected diff from LLM using the new simplified DIFF_FIXER prompt
      */
@@ -488,14 +515,14 @@ ${block.error}
 
             const messages = this.save([createUserMessage(diffFixerPrompt)]); 
             
-            const llmResponse = await infer({
+            // Corrections run on the same action as the edits so a disabled realtime fixer doesn't block them
+            const llmResponse = await executeInference({
                 env: this.env,
-                metadata: this.inferenceContext.metadata,
-                modelName: AGENT_CONFIG['realtimeCodeFixer'].name,
+                agentActionName: this.agentActionNameOverride ?? 'realtimeCodeFixer',
+                context: this.inferenceContext,
                 reasoning_effort: 'low',
                 temperature: 0.0,
                 maxTokens: 10000,
-                actionKey:'realtimeCodeFixer',
                 messages,
             });
 
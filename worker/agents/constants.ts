@@ -42,6 +42,7 @@ export const WebSocketMessageResponses: Record<string, WebSocketMessageType> = {
     
     ERROR: 'error',
     RATE_LIMIT_ERROR: 'rate_limit_error',
+    BUDGET_EXHAUSTED: 'budget_exhausted',
 
     CODE_REVIEWING: 'code_reviewing',
     CODE_REVIEWED: 'code_reviewed',
@@ -62,6 +63,17 @@ export const WebSocketMessageResponses: Record<string, WebSocketMessageType> = {
     GITHUB_EXPORT_PROGRESS: 'github_export_progress',
     GITHUB_EXPORT_COMPLETED: 'github_export_completed',
     GITHUB_EXPORT_ERROR: 'github_export_error',
+
+    // Project export messages (PDF, PPTX, ...)
+    EXPORT_STARTED: 'export_started',
+    EXPORT_PROGRESS: 'export_progress',
+    EXPORT_COMPLETED: 'export_completed',
+    EXPORT_ERROR: 'export_error',
+
+    // Workflow dry run messages
+    WORKFLOW_RUN_STARTED: 'workflow_run_started',
+    WORKFLOW_STEP_LOG: 'workflow_step_log',
+    WORKFLOW_RUN_COMPLETED: 'workflow_run_completed',
     
     // Conversational AI messages
     USER_SUGGESTIONS_PROCESSING: 'user_suggestions_processing',
@@ -86,6 +98,15 @@ export const WebSocketMessageResponses: Record<string, WebSocketMessageType> = {
     // File editing responses
     FILE_UPDATED: 'file_updated',
     FILE_UPDATE_ERROR: 'file_update_error',
+
+    // Collaboration responses
+    PRESENCE: 'presence',
+
+    // Git branch responses
+    GIT_BRANCHES: 'git_branches',
+    GIT_BRANCH_SWITCHED: 'git_branch_switched',
+    GIT_BRANCH_ERROR: 'git_branch_error',
+    GIT_PUSH_RECEIVED: 'git_push_received',
 } as const satisfies Record<string, WebSocketMessageType>;
 
 // WebSocket message types
@@ -105,6 +126,12 @@ export const WebSocketMessageRequests = {
     
     // GitHub export request
     GITHUB_EXPORT: 'github_export',
+
+    // Project export request (PDF, PPTX, ...)
+    EXPORT_PROJECT: 'export_project',
+
+    // Workflow dry run request
+    WORKFLOW_DRY_RUN: 'workflow_dry_run',
     
     // Conversational AI requests
     USER_SUGGESTION: 'user_suggestion',
@@ -114,8 +141,10 @@ export const WebSocketMessageRequests = {
     // Model configuration info request
     GET_MODEL_CONFIGS: 'get_model_configs',
     
-    // Terminal command request
+    // Terminal requests
     TERMINAL_COMMAND: 'terminal_command',
+    TERMINAL_CANCEL: 'terminal_cancel',
+    TERMINAL_POLICY_UPDATE: 'terminal_policy_update',
 
     // Vault session sync (SK sent to vault WebSocket, only sessionId here)
     VAULT_UNLOCKED: 'vault_unlocked',
@@ -123,6 +152,13 @@ export const WebSocketMessageRequests = {
 
     // File editing requests
     UPDATE_FILE: 'update_file',
+
+    // Collaboration requests
+    PRESENCE_UPDATE: 'presence_update',
+
+    // Git branch requests
+    GIT_LIST_BRANCHES: 'git_list_branches',
+    GIT_SWITCH_BRANCH: 'git_switch_branch',
 };
 
 export const PREVIEW_EXPIRED_ERROR = 'Preview expired, attempting redeploy. Please try again after a minute or refresh the page';
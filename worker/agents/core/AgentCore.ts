@@ -6,7 +6,7 @@ import { BaseProjectState } from "./state";
 import { WebSocketMessageType } from "../../api/websocketTypes";
 import { WebSocketMessageData } from "../../api/websocketTypes";
 import { ConversationMessage, ConversationState } from "../inferutils/common";
-import { TemplateDetails } from "worker/services/sandbox/sandboxTypes";
+import { TemplateDetails, PreviewType } from "worker/services/sandbox/sandboxTypes";
 
 /**
  * Infrastructure interface for agent implementations.
@@ -36,6 +36,15 @@ export interface AgentInfrastructure<TState extends BaseProjectState> {
     readonly deploymentManager: DeploymentManager;
     readonly git: GitVersionControl;
 
+    // Preview infrastructure
+    deployToSandbox(): Promise<PreviewType | null>;
+
+    // Vault access - prompts the user to unlock when needed, null if unavailable
+    getDecryptedSecret(query: { provider?: string; envVarName?: string; secretId?: string }): Promise<string | null>;
+
+    // Vault access without prompting - null when the vault is locked or the secret is missing
+    peekDecryptedSecret(query: { provider?: string; envVarName?: string; secretId?: string }): Promise<string | null>;
+
     // Git export infrastructure
     exportGitObjects(): Promise<{
         gitObjects: Array<{ path: string; data: Uint8Array }>;
@@ -8,7 +8,7 @@ import {
 } from '../../schemas';
 import { ExecuteCommandsResponse, PreviewType, RuntimeError, StaticAnalysisResponse, TemplateDetails, TemplateFile } from '../../../services/sandbox/sandboxTypes';
 import { BaseProjectState, AgenticState, FileState } from '../state';
-import { AllIssues, AgentSummary, AgentInitArgs, BehaviorType, DeploymentTarget, ProjectType } from '../types';
+import { AllIssues, AgentSummary, AgentInitArgs, BehaviorType, DeploymentTarget, ProjectType, RuntimeType } from '../types';
 import { WebSocketMessageResponses } from '../../constants';
 import { ProjectSetupAssistant } from '../../assistants/projectsetup';
 import { UserConversationProcessor, RenderToolCall } from '../../operations/UserConversationProcessor';
@@ -25,7 +25,7 @@ import { FastCodeFixerOperation } from '../../operations/PostPhaseCodeFixer';
 import { looksLikeCommand, validateAndCleanBootstrapCommands } from '../../utils/common';
 import { customizeTemplateFiles, generateBootstrapScript } from '../../utils/templateCustomizer';
 import { AppService } from '../../../database';
-import { RateLimitExceededError } from 'shared/types/errors';
+import { CreditBudgetExceededError, RateLimitExceededError } from 'shared/types/errors';
 import { ImageAttachment, type ProcessedImageAttachment } from '../../../types/image-attachment';
 import { OperationOptions } from '../../operations/common';
 import { ImageType, uploadImage, detectBlankScreenshot } from 'worker/utils/images';
@@ -33,6 +33,7 @@ import { DeepDebugResult } from '../types';
 import { updatePackageJson } from '../../utils/packageSyncer';
 import { ICodingAgent } from '../../services/interfaces/ICodingAgent';
 import { SimpleCodeGenerationOperation } from '../../operations/SimpleCodeGeneration';
+import type { FileGenerationFormat } from '../../output-formats/streaming-formats/base';
 import { AgentComponent } from '../AgentComponent';
 import type { AgentInfrastructure } from '../AgentCore';
 import { GitVersionControl } from '../../git';
@@ -41,6 +42,12 @@ import type { DeepDebuggerInputs } from '../../operations/DeepDebugger';
 import { generatePortToken } from 'worker/utils/cryptoUtils';
 import { getPreviewDomain, getProtocolForHost } from 'worker/utils/urls';
 import { isDev } from 'worker/utils/envs';
+import { MCPManager, loadMCPServers } from '../../tools/mcpManager';
+import type { MCPToolScope, ToolDefinition } from '../../tools/types';
+import { getUserConfigurableSettings } from '../../../config';
+import { createImageGenerationProvider, toImageAsset, toImageSlugs, type ImageGenerationRequest } from '../../../services/image-generation';
+import { fetchPage, resolveSearchProvider, searchWeb, type ReadablePage, type SearchResponse } from '../../../services/search';
+import { evaluateCommand, type CommandPolicy } from '../../../services/sandbox/commandPolicy';
 
 // Screenshot capture configuration
 const SCREENSHOT_CONFIG = {
@@ -74,6 +81,7 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
     protected pendingUserImages: ProcessedImageAttachment[] = []
     protected generationPromise: Promise<void> | null = null;
     protected currentAbortController?: AbortController;
+    protected terminalAbortController: AbortController | null = null;
     protected deepDebugPromise: Promise<{ transcript: string } | { error: string }> | null = null;
     protected deepDebugConversationId: string | null = null;
 
@@ -81,6 +89,10 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
 
     protected userModelConfigs?: Record<AgentActionKey, ModelConfig>;
     protected runtimeOverrides?: InferenceRuntimeOverrides;
+
+    // MCP connections are reused until the user's server configuration changes
+    protected mcpManager: MCPManager | null = null;
+    protected mcpServersKey: string | null = null;
     
     protected operations: BaseCodingOperations = {
         regenerateFile: new FileRegenerationOperation(),
@@ -185,6 +197,13 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
         return this.templateDetailsCache;
     }
 
+    /**
+     * Where previews run - backend-only templates opt into the worker runtime
+     */
+    public getRuntimeType(): RuntimeType {
+        return this.templateDetailsCache?.runtime ?? 'sandbox';
+    }
+
     public getTemplateDetails(): TemplateDetails {
         if (!this.templateDetailsCache) {
             // Synthesize a minimal scratch template when starting from scratch
@@ -440,7 +459,10 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
         try {
             await this.build();
         } catch (error) {
-            if (error instanceof RateLimitExceededError) {
+            if (error instanceof CreditBudgetExceededError) {
+                this.logger.warn("Generation stopped, credit budget exhausted");
+                this.broadcast(WebSocketMessageResponses.BUDGET_EXHAUSTED, { error });
+            } else if (error instanceof RateLimitExceededError) {
                 this.logger.error("Error in state machine:", error);
                 this.broadcast(WebSocketMessageResponses.RATE_LIMIT_ERROR, { error });
             } else {
@@ -471,6 +493,28 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
      */
     abstract build(): Promise<void>
 
+    /**
+     * Tools from the platform's and the user's MCP servers, filtered by each
+     * server's allow-list and scopes. Failures never block the caller.
+     */
+    async getMCPTools(scope: MCPToolScope): Promise<ToolDefinition<any, any>[]> {
+        try {
+            const servers = await loadMCPServers(this.env, this.state.metadata.userId);
+            const serversKey = JSON.stringify(servers);
+            if (!this.mcpManager || this.mcpServersKey !== serversKey) {
+                await this.mcpManager?.shutdown();
+                this.mcpManager = new MCPManager(servers, this.env, (envVarName) =>
+                    this.infrastructure.getDecryptedSecret({ envVarName }),
+                );
+                this.mcpServersKey = serversKey;
+            }
+            return await this.mcpManager.getToolDefinitions(scope);
+        } catch (error) {
+            this.logger.error('Failed to load MCP tools', error);
+            return [];
+        }
+    }
+
     async executeDeepDebug(
         issue: string,
         toolRenderer: RenderToolCall,
@@ -496,6 +540,7 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
                     runtimeErrors,
                     streamCb,
                     toolRenderer,
+                    mcpTools: await this.getMCPTools('debug'),
                 };
 
                 const operation = new DeepDebuggerOperation();
@@ -1005,7 +1050,7 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
                         filePurpose
                     });
                 },
-                fileChunkGeneratedCallback: (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => {
+                fileChunkGeneratedCallback: (filePath: string, chunk: string, format: FileGenerationFormat) => {
                     this.broadcast(WebSocketMessageResponses.FILE_CHUNK_GENERATED, {
                         message: `Generating file: ${filePath}`,
                         filePath,
@@ -1052,6 +1097,102 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
         };
     }
 
+    /**
+     * Generate images with the configured provider. SVG output is committed under
+     * public/images, raster output is uploaded to R2 and referenced by URL so its
+     * bytes stay out of agent state and git. Images that fail are reported
+     * individually, the rest are still saved.
+     */
+    async generateImages(
+        images: Array<ImageGenerationRequest & { name: string }>
+    ): Promise<{ images: Array<{ name: string; url: string; path?: string }>; errors: Array<{ name: string; error: string }> }> {
+        const { imageGeneration } = await getUserConfigurableSettings(this.env, this.state.metadata.userId);
+        const provider = createImageGenerationProvider(this.env, imageGeneration);
+        if (!provider) {
+            throw new Error('Image generation is not configured on this platform');
+        }
+        if (images.length > imageGeneration.maxImagesPerCall) {
+            throw new Error(`At most ${imageGeneration.maxImagesPerCall} images can be generated at once`);
+        }
+
+        this.logger.info('Generating images', { provider: provider.name, count: images.length });
+
+        // One upload folder per call, so regenerated images never hit a cached URL
+        const uploadId = `${this.getAgentId()}-${Date.now().toString(36)}`;
+        const slugs = toImageSlugs(images.map((image) => image.name));
+        const results = await Promise.allSettled(images.map(async ({ name: _name, ...request }, index) => {
+            const asset = toImageAsset(slugs[index], await provider.generate(request));
+            if (asset.kind === 'file') {
+                return asset;
+            }
+            const uploaded = await uploadImage(this.env, {
+                id: uploadId,
+                filename: asset.fileName,
+                mimeType: asset.mimeType,
+                base64Data: asset.base64Data,
+            }, ImageType.GENERATED);
+            return { ...asset, publicUrl: uploaded.publicUrl };
+        }));
+
+        const files: FileOutputType[] = [];
+        const generated: Array<{ name: string; url: string; path?: string }> = [];
+        const errors: Array<{ name: string; error: string }> = [];
+        results.forEach((result, index) => {
+            const { name, prompt } = images[index];
+            if (result.status === 'rejected') {
+                this.logger.warn(`Image generation failed for ${name}`, result.reason);
+                errors.push({
+                    name,
+                    error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+                });
+            } else if (result.value.kind === 'file') {
+                files.push({
+                    filePath: result.value.filePath,
+                    fileContents: result.value.fileContents,
+                    filePurpose: `Generated image: ${prompt}`
+                });
+                generated.push({ name, path: result.value.filePath, url: result.value.publicPath });
+            } else {
+                generated.push({ name, url: result.value.publicUrl });
+            }
+        });
+
+        if (files.length > 0) {
+            await this.fileManager.saveGeneratedFiles(files, `feat: add ${files.length} generated image(s)`);
+            await this.deployToSandbox(files, false);
+        }
+
+        return { images: generated, errors };
+    }
+
+    /**
+     * Search the web with the user's own provider key when their vault is unlocked,
+     * otherwise with the platform's configured provider
+     */
+    async searchWeb(query: string, numResults: number): Promise<SearchResponse & { provider: string }> {
+        const { webSearch } = await getUserConfigurableSettings(this.env, this.state.metadata.userId);
+        const provider = await resolveSearchProvider(
+            this.env,
+            webSearch,
+            (envVarName) => this.infrastructure.peekDecryptedSecret({ envVarName })
+        );
+        if (!provider) {
+            throw new Error('Web search is not configured on this platform');
+        }
+
+        this.logger.info('Searching the web', { provider: provider.name, query });
+        const response = await searchWeb(provider, query, numResults, webSearch.cacheTtlSeconds);
+        return { ...response, provider: provider.name };
+    }
+
+    /**
+     * Fetch a web page as readable text
+     */
+    async fetchWebPage(url: string, maxChars: number): Promise<ReadablePage> {
+        const { webSearch } = await getUserConfigurableSettings(this.env, this.state.metadata.userId);
+        return fetchPage(url, maxChars, webSearch.cacheTtlSeconds);
+    }
+
     /**
      * Get or create file serving token (lazy generation)
      */
@@ -1314,6 +1455,91 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
         return validCommands;
     }
 
+    /**
+     * Run a command typed into the terminal, streaming its output to every connection.
+     * The platform policy and the instance's own policy must both allow it; commands
+     * that succeed are recorded in the bootstrap history like agent-run commands.
+     */
+    async runTerminalCommand(command: string): Promise<void> {
+        const send = (
+            output: string,
+            outputType: 'stdout' | 'stderr' | 'info',
+            status?: Pick<WebSocketMessageData<'terminal_output'>, 'commandStatus' | 'exitCode'>
+        ) => this.broadcast(WebSocketMessageResponses.TERMINAL_OUTPUT, { output, outputType, timestamp: Date.now(), ...status });
+
+        const { terminal } = await getUserConfigurableSettings(this.env, this.state.metadata.userId);
+        const { sandboxInstanceId } = this.state;
+        if (!terminal.enabled) {
+            send('The terminal is disabled on this platform', 'stderr', { commandStatus: 'blocked' });
+            return;
+        }
+        if (!sandboxInstanceId) {
+            send('No sandbox instance yet - wait for the preview to deploy', 'stderr', { commandStatus: 'blocked' });
+            return;
+        }
+        if (this.terminalAbortController) {
+            send('Another command is still running, cancel it first', 'stderr', { commandStatus: 'blocked' });
+            return;
+        }
+
+        const policies = this.state.terminalPolicy ? [terminal.policy, this.state.terminalPolicy] : [terminal.policy];
+        const decision = evaluateCommand(command, policies);
+        if (!decision.allowed) {
+            this.logger.warn('Terminal command blocked', { command, reason: decision.reason });
+            send(decision.reason, 'stderr', { commandStatus: 'blocked' });
+            return;
+        }
+
+        const controller = new AbortController();
+        this.terminalAbortController = controller;
+        send(command, 'info', { commandStatus: 'running' });
+        try {
+            const result = await this.getSandboxServiceClient().executeCommandStream(sandboxInstanceId, command, {
+                onOutput: (stream, data) => send(data, stream),
+                signal: controller.signal,
+                timeoutMs: terminal.timeoutSeconds * 1000,
+            });
+
+            if (result.cancelled) {
+                send('Command cancelled', 'info', { commandStatus: 'cancelled', exitCode: result.exitCode });
+            } else if (result.timedOut) {
+                send(`Command killed after ${terminal.timeoutSeconds}s`, 'stderr', { commandStatus: 'failed', exitCode: result.exitCode });
+            } else if (result.exitCode === 0) {
+                send('Exited with code 0', 'info', { commandStatus: 'completed', exitCode: 0 });
+                await this.saveExecutedCommands([command]);
+            } else {
+                send(`Exited with code ${result.exitCode ?? 'unknown'}`, 'stderr', { commandStatus: 'failed', exitCode: result.exitCode });
+            }
+        } catch (error) {
+            this.logger.error('Terminal command failed', { command, error });
+            send(`Error: ${error instanceof Error ? error.message : String(error)}`, 'stderr', { commandStatus: 'failed' });
+        } finally {
+            this.terminalAbortController = null;
+        }
+    }
+
+    /**
+     * Kill the running terminal command, false when nothing is running
+     */
+    cancelTerminalCommand(): boolean {
+        if (!this.terminalAbortController) {
+            return false;
+        }
+        this.terminalAbortController.abort();
+        return true;
+    }
+
+    /**
+     * Replace this instance's terminal policy. It can only narrow what the platform policy allows.
+     */
+    updateTerminalPolicy(policy: CommandPolicy): void {
+        this.setState({
+            ...this.state,
+            terminalPolicy: policy
+        });
+        this.logger.info('Terminal policy updated', { allow: policy.allow.length, deny: policy.deny.length });
+    }
+
     protected async saveExecutedCommands(commands: string[]) {
         this.logger.info('Saving executed commands', { commands });
         
@@ -1687,6 +1913,31 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
             viewport
         });
 
+        let base64Screenshot: string;
+        try {
+            base64Screenshot = await this.captureScreenshotData(url, viewport);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.broadcast(WebSocketMessageResponses.SCREENSHOT_CAPTURE_ERROR, {
+                error: `Screenshot capture failed after ${SCREENSHOT_CONFIG.MAX_RETRIES + 1} attempts: ${errorMessage}`,
+                url,
+                viewport
+            });
+            throw new Error(`Screenshot capture failed: ${errorMessage}`);
+        }
+
+        // Process and store the screenshot
+        return await this.processAndStoreScreenshot(base64Screenshot, url, viewport);
+    }
+
+    /**
+     * Capture a screenshot as base64 PNG, retrying failed and blank captures.
+     * The last capture is returned even if it is still blank.
+     */
+    protected async captureScreenshotData(
+        url: string,
+        viewport: { width: number; height: number } = { width: 1280, height: 720 }
+    ): Promise<string> {
         const maxRetries = SCREENSHOT_CONFIG.MAX_RETRIES;
         let lastError: Error | null = null;
         let lastBlankReason: string | null = null;
@@ -1730,8 +1981,7 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
                     this.logger.warn('All retry attempts resulted in blank screenshot, using last capture');
                 }
 
-                // Process and store the screenshot
-                return await this.processAndStoreScreenshot(base64Screenshot, url, viewport);
+                return base64Screenshot;
 
             } catch (error) {
                 lastError = error instanceof Error ? error : new Error(String(error));
@@ -1746,13 +1996,7 @@ export abstract class BaseCodingBehavior<TState extends BaseProjectState>
         }
 
         // All attempts failed
-        const errorMessage = lastError?.message || lastBlankReason || 'Unknown error after retries';
-        this.broadcast(WebSocketMessageResponses.SCREENSHOT_CAPTURE_ERROR, {
-            error: `Screenshot capture failed after ${maxRetries + 1} attempts: ${errorMessage}`,
-            url,
-            viewport
-        });
-        throw new Error(`Screenshot capture failed: ${errorMessage}`);
+        throw new Error(lastError?.message || lastBlankReason || 'Unknown error after retries');
     }
 
     /**
@@ -5,7 +5,7 @@ import {
     PhaseImplementationSchemaType,
 } from '../../schemas';
 import { StaticAnalysisResponse } from '../../../services/sandbox/sandboxTypes';
-import { CurrentDevState, MAX_PHASES, PhasicState } from '../state';
+import { CurrentDevState, MAX_PHASES, PhaseVisualCheck, PhasicState } from '../state';
 import { AllIssues, AgentInitArgs, PhaseExecutionResult, UserContext } from '../types';
 import { WebSocketMessageResponses } from '../../constants';
 import { UserConversationProcessor } from '../../operations/UserConversationProcessor';
@@ -15,6 +15,7 @@ import { PhaseImplementationOperation } from '../../operations/PhaseImplementati
 import { FileRegenerationOperation } from '../../operations/FileRegeneration';
 import { PhaseGenerationOperation } from '../../operations/PhaseGeneration';
 import { FastCodeFixerOperation } from '../../operations/PostPhaseCodeFixer';
+import { isScreenshotAnalysisEnabled, ScreenshotAnalysisOperation } from '../../operations/ScreenshotAnalysis';
 import { customizePackageJson, customizeTemplateFiles, generateProjectName } from '../../utils/templateCustomizer';
 import { generateBlueprint } from '../../planning/blueprint';
 import { RateLimitExceededError } from 'shared/types/errors';
@@ -26,12 +27,20 @@ import { IdGenerator } from '../../utils/idGenerator';
 import { BaseCodingBehavior, BaseCodingOperations } from './base';
 import { ICodingAgent } from '../../services/interfaces/ICodingAgent';
 import { SimpleCodeGenerationOperation } from '../../operations/SimpleCodeGeneration';
+import type { FileGenerationFormat } from '../../output-formats/streaming-formats/base';
 import { StateMigration } from '../stateMigration';
 import { runPreDeploySafetyGate } from '../../utils/preDeploySafetyGate';
+import { base64ToUint8Array, detectBlankScreenshot, downloadR2Image, ImageType, uploadImage } from 'worker/utils/images';
+import { diffScreenshots } from 'worker/utils/visualDiff';
+
+// Share of preview pixels that may change between phase screenshots before it
+// counts as a regression. Phases add UI, so only large redraws are flagged.
+const VISUAL_DIFF_REGRESSION_RATIO = 0.5;
 
 interface PhasicOperations extends BaseCodingOperations {
     generateNextPhase: PhaseGenerationOperation;
     implementPhase: PhaseImplementationOperation;
+    analyzeScreenshot: ScreenshotAnalysisOperation;
 }
 
 /**
@@ -53,6 +62,7 @@ export class PhasicCodingBehavior extends BaseCodingBehavior<PhasicState> implem
         simpleGenerateFiles: new SimpleCodeGenerationOperation(),
         generateNextPhase: new PhaseGenerationOperation(),
         implementPhase: new PhaseImplementationOperation(),
+        analyzeScreenshot: new ScreenshotAnalysisOperation(),
     };
 
     /**
@@ -227,7 +237,7 @@ export class PhasicCodingBehavior extends BaseCodingBehavior<PhasicState> implem
         this.logger.info("Created new incomplete phase:", JSON.stringify(this.state.generatedPhases, null, 2));
     }
 
-    private markPhaseComplete(phaseName: string) {
+    private markPhaseComplete(phaseName: string, commitOid?: string) {
         // First find the phase
         const phases = this.state.generatedPhases;
         if (!phases.some(p => p.name === phaseName)) {
@@ -238,12 +248,24 @@ export class PhasicCodingBehavior extends BaseCodingBehavior<PhasicState> implem
         // Update the phase
         this.setState({
             ...this.state,
-            generatedPhases: phases.map(p => p.name === phaseName ? { ...p, completed: true } : p)
+            generatedPhases: phases.map(p => p.name === phaseName ? { ...p, completed: true, commitOid } : p)
         });
 
         this.logger.info("Completed phases:", JSON.stringify(phases, null, 2));
     }
 
+    /**
+     * Include regressions from the last completed phase's visual check
+     */
+    async fetchAllIssues(resetIssues: boolean = false): Promise<AllIssues> {
+        const issues = await super.fetchAllIssues(resetIssues);
+        const lastCompletedPhase = this.state.generatedPhases.filter(p => p.completed).pop();
+        return {
+            ...issues,
+            visualRegressions: lastCompletedPhase?.visualCheck?.regressions ?? []
+        };
+    }
+
     async queueUserRequest(request: string, images?: ProcessedImageAttachment[]): Promise<void> {
         this.rechargePhasesCounter(3);
         await super.queueUserRequest(request, images);
@@ -590,14 +612,14 @@ export class PhasicCodingBehavior extends BaseCodingBehavior<PhasicState> implem
                 },
                 userContext,
                 shouldAutoFix: this.getInferenceContext().enableRealtimeCodeFix,
-                fileChunkGeneratedCallback: streamChunks ? (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => {
+                fileChunkGeneratedCallback: streamChunks ? (filePath: string, chunk: string, format: FileGenerationFormat) => {
                     this.broadcast(WebSocketMessageResponses.FILE_CHUNK_GENERATED, {
                         message: `Generating file: ${filePath}`,
                         filePath: filePath,
                         chunk,
                         format,
                     });
-                } : (_filePath: string, _chunk: string, _format: 'full_content' | 'unified_diff') => {},
+                } : (_filePath: string, _chunk: string, _format: FileGenerationFormat) => {},
                 fileClosedCallback: (file: FileOutputType, message: string) => {
                     this.broadcast(WebSocketMessageResponses.FILE_GENERATED, {
                         message,
@@ -645,8 +667,9 @@ export class PhasicCodingBehavior extends BaseCodingBehavior<PhasicState> implem
             await this.executeCommands(result.commands, false);
         }
 
+        let previewURL: string | undefined;
         if (safeFiles.length > 0) {
-            await this.deployToSandbox(safeFiles, false, phase.name, true);
+            previewURL = (await this.deployToSandbox(safeFiles, false, phase.name, true))?.previewURL;
             if (postPhaseFixing) {
                 await this.applyDeterministicCodeFixes();
                 if (this.getInferenceContext().enableFastSmartCodeFix) {
@@ -679,7 +702,11 @@ export class PhasicCodingBehavior extends BaseCodingBehavior<PhasicState> implem
             message: "Files generated successfully for phase"
         });
     
-        this.markPhaseComplete(phase.name);
+        this.markPhaseComplete(phase.name, await this.git.getHead() ?? undefined);
+
+        if (previewURL) {
+            await this.runVisualCheck(phase, previewURL);
+        }
         
         return {
             files: safeFiles,
@@ -688,6 +715,98 @@ export class PhasicCodingBehavior extends BaseCodingBehavior<PhasicState> implem
         };
     }
 
+    /**
+     * Screenshot the preview at the phase's commit, compare it with the previous phase's screenshot
+     * and review it against the blueprint. Failures are logged and never block generation.
+     */
+    private async runVisualCheck(phase: PhaseConceptType, previewURL: string): Promise<void> {
+        try {
+            const commitOid = await this.git.getHead();
+            if (!commitOid) {
+                this.logger.warn('Skipping visual check, no commit found for phase', { phase: phase.name });
+                return;
+            }
+
+            const base64Screenshot = await this.captureScreenshotData(previewURL);
+            const uploadedImage = await uploadImage(this.env, {
+                id: this.getAgentId(),
+                filename: `phase-${commitOid}.png`,
+                mimeType: 'image/png',
+                base64Data: base64Screenshot
+            }, ImageType.SCREENSHOTS);
+
+            const previousCheck = this.state.generatedPhases
+                .filter(p => p.name !== phase.name && p.visualCheck)
+                .pop()?.visualCheck;
+
+            let previousScreenshot: string | undefined;
+            let diffRatio: number | null = null;
+            if (previousCheck) {
+                try {
+                    const previousImage = await downloadR2Image(this.env, previousCheck.screenshotR2Key);
+                    const diff = await diffScreenshots(
+                        base64ToUint8Array(previousImage.base64Data!),
+                        base64ToUint8Array(base64Screenshot)
+                    );
+                    diffRatio = diff.diffRatio;
+                    previousScreenshot = `data:image/png;base64,${previousImage.base64Data}`;
+                } catch (error) {
+                    this.logger.warn('Failed to compare with previous phase screenshot', error);
+                }
+            }
+
+            const analysis = isScreenshotAnalysisEnabled(this.getInferenceContext())
+                ? await this.operations.analyzeScreenshot.execute({
+                    phase,
+                    screenshot: `data:image/png;base64,${base64Screenshot}`,
+                    previousScreenshot,
+                    diffRatio,
+                }, this.getOperationOptions())
+                : null;
+
+            const regressions: string[] = [];
+            const blankDetection = detectBlankScreenshot(base64Screenshot);
+            if (blankDetection.isBlank) {
+                regressions.push(`The preview rendered a blank page (${blankDetection.reason})`);
+            }
+            if (diffRatio !== null && diffRatio >= VISUAL_DIFF_REGRESSION_RATIO) {
+                regressions.push(`${Math.round(diffRatio * 100)}% of the preview changed since the previous phase`);
+            }
+            if (analysis?.hasIssues) {
+                regressions.push(...analysis.issues, ...analysis.uiCompliance.deviations);
+            }
+
+            const visualCheck: PhaseVisualCheck = {
+                commitOid,
+                screenshotUrl: uploadedImage.publicUrl,
+                screenshotR2Key: uploadedImage.r2Key,
+                capturedAt: Date.now(),
+                diffRatio,
+                analysis,
+                regressions,
+            };
+            this.setState({
+                ...this.state,
+                generatedPhases: this.state.generatedPhases.map(p => p.name === phase.name ? { ...p, visualCheck } : p)
+            });
+
+            this.logger.info('Visual check complete', { phase: phase.name, commitOid, diffRatio, regressions: regressions.length });
+            this.broadcast(WebSocketMessageResponses.SCREENSHOT_ANALYSIS_RESULT, {
+                message: regressions.length > 0
+                    ? `Found ${regressions.length} visual issue(s) in phase: ${phase.name}`
+                    : `No visual issues found in phase: ${phase.name}`,
+                phaseName: phase.name,
+                visualCheck,
+                analysis,
+            });
+        } catch (error) {
+            if (error instanceof RateLimitExceededError) {
+                throw error;
+            }
+            this.logger.warn(`Visual check failed for phase ${phase.name}`, error);
+        }
+    }
+
     getTotalFiles(): number {
         return this.fileManager.getGeneratedFilePaths().length + ((this.state.currentPhase || this.state.blueprint.initialPhase)?.files?.length || 0);
     }
@@ -0,0 +1,139 @@
+import { WebSocketMessageResponses } from '../../constants';
+import { AgenticCodingBehavior } from './agentic';
+import { WorkflowGenerationOperation } from '../../operations/WorkflowGeneration';
+import { WorkflowGraph, WORKFLOW_GRAPH_FILE, WorkflowDryRunResult } from '../../domain/pure/WorkflowGraph';
+import { runWorkflowDryRun } from '../../../services/sandbox/workflowDryRun';
+import { WorkflowGraphSchema, WorkflowGraphType } from '../../schemas';
+import { IdGenerator } from '../../utils/idGenerator';
+import { generateNanoId } from '../../../utils/idGenerator';
+import { createAssistantMessage, createUserMessage } from '../../inferutils/common';
+
+/**
+ * WorkflowCodingBehavior
+ * Generates a Cloudflare Workflows step graph and renders it into a Worker project.
+ * Workflows never run in the sandbox - they are checked with dry runs that execute
+ * the steps in a Dynamic Worker, skipping sleeps and event waits.
+ */
+export class WorkflowCodingBehavior extends AgenticCodingBehavior {
+    private workflowGeneration = new WorkflowGenerationOperation();
+
+    protected isPreviewable(): boolean {
+        return false;
+    }
+
+    async build(): Promise<void> {
+        while (!this.isMVPGenerated() || this.state.pendingUserInputs.length > 0) {
+            await this.generateWorkflow();
+        }
+    }
+
+    /**
+     * Current step graph, parsed from the generated workflow.json
+     */
+    getWorkflowGraph(): WorkflowGraphType | null {
+        const file = this.fileManager.getFile(WORKFLOW_GRAPH_FILE);
+        if (!file) {
+            return null;
+        }
+        try {
+            const parsed = WorkflowGraphSchema.safeParse(JSON.parse(file.fileContents));
+            if (!parsed.success) {
+                this.logger.warn('Workflow graph does not match schema', { issues: parsed.error.issues });
+                return null;
+            }
+            return parsed.data;
+        } catch (error) {
+            this.logger.warn('Failed to parse workflow graph', { error });
+            return null;
+        }
+    }
+
+    /**
+     * Execute the workflow once, streaming step logs to connected clients
+     */
+    async runDryRun(params?: Record<string, unknown>): Promise<WorkflowDryRunResult> {
+        const runId = generateNanoId();
+        const graph = this.getWorkflowGraph();
+        const runParams = params ?? (graph ? WorkflowGraph.exampleParams(graph) : {});
+
+        this.broadcast(WebSocketMessageResponses.WORKFLOW_RUN_STARTED, { runId, params: runParams });
+
+        const result: WorkflowDryRunResult = graph
+            ? await runWorkflowDryRun(this.env.LOADER, {
+                id: this.getAgentId(),
+                files: this.fileManager.getAllFiles(),
+                graph,
+                params: runParams,
+                onLog: (log) => {
+                    this.broadcast(WebSocketMessageResponses.WORKFLOW_STEP_LOG, { runId, log });
+                },
+            })
+            : { status: 'failed', logs: [], outputs: {}, error: `No ${WORKFLOW_GRAPH_FILE} found - generate the workflow first` };
+
+        this.logger.info('Workflow dry run finished', { runId, status: result.status, error: result.error });
+        this.broadcast(WebSocketMessageResponses.WORKFLOW_RUN_COMPLETED, {
+            runId,
+            status: result.status,
+            outputs: result.outputs,
+            error: result.error,
+        });
+
+        return result;
+    }
+
+    private async generateWorkflow(): Promise<void> {
+        const userRequests = this.fetchPendingUserRequests();
+        const existingGraph = this.getWorkflowGraph();
+        const conversationId = IdGenerator.generateConversationId();
+
+        if (userRequests.length > 0) {
+            this.infrastructure.addConversationMessage({
+                ...createUserMessage(userRequests.join('\n')),
+                conversationId: IdGenerator.generateConversationId(),
+            });
+        }
+
+        this.broadcast(WebSocketMessageResponses.CONVERSATION_RESPONSE, {
+            message: existingGraph ? 'Updating workflow steps...' : 'Designing workflow steps...',
+            conversationId,
+            isStreaming: false,
+        });
+
+        const graph = await this.workflowGeneration.execute(
+            {
+                query: this.state.query,
+                existingGraph,
+                userRequests,
+            },
+            this.getOperationOptions()
+        );
+
+        const files = WorkflowGraph.renderProject(graph, this.state.projectName);
+        await this.fileManager.saveGeneratedFiles(
+            files,
+            existingGraph ? `Update workflow: ${graph.name}` : `Generate workflow: ${graph.name}`,
+            true
+        );
+        for (const file of files) {
+            this.broadcast(WebSocketMessageResponses.FILE_GENERATED, {
+                message: `Generated ${file.filePath}`,
+                file,
+            });
+        }
+
+        this.setMVPGenerated();
+
+        const summary = `**${graph.name}** - ${graph.description}\n\n${graph.steps
+            .map((step, index) => `${index + 1}. ${step.name}${step.type === 'do' ? '' : ` (${step.type})`}`)
+            .join('\n')}\n\nOpen the preview to dry run the workflow.`;
+        this.infrastructure.addConversationMessage({
+            ...createAssistantMessage(summary),
+            conversationId,
+        });
+        this.broadcast(WebSocketMessageResponses.CONVERSATION_RESPONSE, {
+            message: summary,
+            conversationId,
+            isStreaming: false,
+        });
+    }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { ConversationMessage } from '../inferutils/common';
+import type { CommitInfo } from '../git/git';
+import type { Blueprint } from '../schemas';
+import { commitCutoff, cutAgentState, cutConversation, cutPhases, findPhaseCommit } from './branching';
+import { MAX_PHASES, type AgentState, type PhaseState, type PhasicState } from './state';
+
+const message = (conversationId: string): ConversationMessage => ({ role: 'user', content: conversationId, conversationId });
+
+const commit = (oid: string, message: string, timestamp = '2025-01-01T00:00:00.000Z'): CommitInfo => ({
+	oid,
+	message,
+	author: 'agent',
+	timestamp,
+});
+
+const phase = (name: string, extra: Partial<PhaseState> = {}): PhaseState =>
+	({ name, description: '', files: [], completed: true, ...extra }) as PhaseState;
+
+describe('cutConversation', () => {
+	it('keeps messages up to the first one after the cutoff', () => {
+		const messages = [message('conv-1000-a'), message('system'), message('conv-2000-b'), message('conv-3000-c')];
+		expect(cutConversation(messages, 2500).map((m) => m.conversationId)).toEqual([
+			'conv-1000-a',
+			'system',
+			'conv-2000-b',
+		]);
+	});
+
+	it('drops everything after a later message, including untimed ones', () => {
+		const messages = [message('conv-1000-a'), message('conv-3000-b'), message('system')];
+		expect(cutConversation(messages, 2000).map((m) => m.conversationId)).toEqual(['conv-1000-a']);
+	});
+
+	it('covers the whole second of a commit', () => {
+		const cutoff = commitCutoff(commit('a', 'feat: one', '2025-01-01T00:00:01.000Z'));
+		const late = message(`conv-${Date.parse('2025-01-01T00:00:01.500Z')}-x`);
+		expect(cutConversation([late], cutoff)).toEqual([late]);
+	});
+});
+
+describe('findPhaseCommit', () => {
+	it('prefers the recorded commit and falls back to the phase commit message', () => {
+		const commits = [commit('b', 'feat: Styling\n\nColors'), commit('a', 'feat: Setup')];
+		expect(findPhaseCommit(phase('Setup', { commitOid: 'x' }), commits)).toBe('x');
+		expect(findPhaseCommit(phase('Styling'), commits)).toBe('b');
+		expect(findPhaseCommit(phase('Routing'), commits)).toBeNull();
+	});
+});
+
+describe('cutPhases', () => {
+	it('keeps completed phases up to the first one outside the history', () => {
+		const phases = [
+			phase('Setup', { commitOid: 'a' }),
+			phase('Styling', { commitOid: 'b' }),
+			phase('Routing', { commitOid: 'c' }),
+		];
+		const history = [commit('b', 'feat: Styling'), commit('a', 'feat: Setup')];
+		expect(cutPhases(phases, history).map((p) => p.name)).toEqual(['Setup', 'Styling']);
+	});
+
+	it('stops at an incomplete phase', () => {
+		const phases = [phase('Setup', { commitOid: 'a' }), phase('Styling', { commitOid: 'b', completed: false })];
+		const history = [commit('b', 'feat: Styling'), commit('a', 'feat: Setup')];
+		expect(cutPhases(phases, history).map((p) => p.name)).toEqual(['Setup']);
+	});
+});
+
+describe('cutAgentState', () => {
+	const history = [commit('a', 'feat: Setup')];
+
+	it('cuts phases and gives back the phase budget', () => {
+		const state = {
+			behaviorType: 'phasic',
+			blueprint: { title: 'current' },
+			generatedPhases: [phase('Setup', { commitOid: 'a' }), phase('Styling', { commitOid: 'b' })],
+			currentPhase: phase('Styling'),
+			phasesCounter: 5,
+		} as unknown as PhasicState;
+		const blueprint = { title: 'earlier' } as unknown as Blueprint;
+
+		const cut = cutAgentState(state, history, blueprint) as PhasicState;
+		expect(cut.blueprint).toBe(blueprint);
+		expect(cut.generatedPhases.map((p) => p.name)).toEqual(['Setup']);
+		expect(cut.currentPhase).toBeUndefined();
+		expect(cut.phasesCounter).toBe(6);
+
+		const full = { ...state, phasesCounter: MAX_PHASES };
+		expect((cutAgentState(full, history, null) as PhasicState).phasesCounter).toBe(MAX_PHASES);
+	});
+
+	it('keeps the current blueprint when none was recorded', () => {
+		const state = { behaviorType: 'agentic', blueprint: { title: 'current' } } as unknown as AgentState;
+		expect(cutAgentState(state, history, null).blueprint).toEqual({ title: 'current' });
+	});
+});
@@ -0,0 +1,101 @@
+/**
+ * Branching a project from an earlier point
+ *
+ * A branch is a new app whose files, phases, blueprint and conversation are
+ * cut back to a commit of the source app, so users can explore another
+ * direction without losing the current one.
+ */
+
+import type { ConversationMessage, ConversationState } from '../inferutils/common';
+import type { CommitInfo } from '../git/git';
+import type { Blueprint } from '../schemas';
+import { AgentState, MAX_PHASES, PhaseState } from './state';
+
+/** Where to branch from - a phase of the timeline or any commit in the history */
+export type BranchPoint = { phaseName: string } | { commitOid: string };
+
+/** The source project as it was at the branch point, used to set up the branch */
+export interface BranchSnapshot {
+    commitOid: string;
+    state: AgentState;
+    /** Absent when the branch starts with an empty chat */
+    conversation?: ConversationState;
+}
+
+const CONVERSATION_ID_PATTERN = /^conv-(\d+)-/;
+
+/**
+ * Latest moment, in ms, that belongs to a commit - git timestamps only have second precision
+ */
+export function commitCutoff(commit: CommitInfo): number {
+    return Date.parse(commit.timestamp) + 999;
+}
+
+/**
+ * Creation time encoded in a message's conversation ID, null for IDs without one
+ */
+export function messageTimestamp(message: ConversationMessage): number | null {
+    const match = CONVERSATION_ID_PATTERN.exec(message.conversationId);
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * Messages up to the cutoff. History is append-only, so everything after the
+ * first later message is dropped, including messages without a timestamp.
+ */
+export function cutConversation(messages: ConversationMessage[], cutoff: number): ConversationMessage[] {
+    const index = messages.findIndex((message) => {
+        const timestamp = messageTimestamp(message);
+        return timestamp !== null && timestamp > cutoff;
+    });
+    return index === -1 ? messages : messages.slice(0, index);
+}
+
+/**
+ * Commit a phase ended at. Phases completed before commits were recorded on
+ * them are matched by the `feat: <phase name>` message of the phase commit.
+ */
+export function findPhaseCommit(phase: PhaseState, commits: CommitInfo[]): string | null {
+    if (phase.commitOid) {
+        return phase.commitOid;
+    }
+    const subject = `feat: ${phase.name}`;
+    const commit = commits.find((c) => c.message.split('\n')[0].trim() === subject);
+    return commit?.oid ?? null;
+}
+
+/**
+ * Completed phases whose commit is part of the branch point's history
+ */
+export function cutPhases(phases: PhaseState[], history: CommitInfo[]): PhaseState[] {
+    const oids = new Set(history.map((commit) => commit.oid));
+    const kept: PhaseState[] = [];
+    for (const phase of phases) {
+        const oid = findPhaseCommit(phase, history);
+        if (!phase.completed || !oid || !oids.has(oid)) {
+            break;
+        }
+        kept.push(phase);
+    }
+    return kept;
+}
+
+/**
+ * Agent state cut back to a commit, given the commit's log and the blueprint
+ * recorded by then (null keeps the current one). Files follow the git checkout.
+ */
+export function cutAgentState(state: AgentState, history: CommitInfo[], blueprint: Blueprint | null): AgentState {
+    if (state.behaviorType !== 'phasic') {
+        return { ...state, blueprint: (blueprint ?? state.blueprint) as typeof state.blueprint };
+    }
+
+    const generatedPhases = cutPhases(state.generatedPhases, history);
+    const removed = state.generatedPhases.length - generatedPhases.length;
+    return {
+        ...state,
+        blueprint: (blueprint ?? state.blueprint) as typeof state.blueprint,
+        generatedPhases,
+        currentPhase: undefined,
+        phasesCounter: Math.min(MAX_PHASES, state.phasesCounter + removed),
+    };
+}
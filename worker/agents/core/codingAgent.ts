@@ -8,31 +8,42 @@ import { InferenceMetadata } from "../inferutils/config.types";
 import { getMimeType } from 'hono/utils/mime';
 import { normalizePath, isPathSafe } from '../../utils/pathUtils';
 import { FileManager } from '../services/implementations/FileManager';
+import type { FileEditRecord } from '../services/interfaces/IFileManager';
 import { DeploymentManager } from '../services/implementations/DeploymentManager';
-import { GitVersionControl } from '../git';
+import { GitVersionControl, type BranchInfo, type PushedCommit } from '../git';
 import { StateManager } from '../services/implementations/StateManager';
 import { PhasicCodingBehavior } from './behaviors/phasic';
 import { AgenticCodingBehavior } from './behaviors/agentic';
+import { WorkflowCodingBehavior } from './behaviors/workflow';
 import { SqlExecutor } from '../git';
 import { AgentInfrastructure } from "./AgentCore";
 import { ProjectType } from './types';
 import { Connection } from 'agents';
-import { handleWebSocketMessage, handleWebSocketClose, broadcastToConnections, sendToConnection } from './websocket';
+import { handleWebSocketMessage, handleWebSocketClose, broadcastToConnections, sendToConnection, initConnectionAuth, broadcastPresence, getConnectionIdentity } from './websocket';
+import { FileConflictError, hashFileContents } from './collaboration';
+import { BranchPoint, BranchSnapshot, commitCutoff, cutAgentState, cutConversation, findPhaseCommit } from './branching';
 import { WebSocketMessageData, WebSocketMessageType } from "worker/api/websocketTypes";
 import { PreviewType, TemplateDetails } from "worker/services/sandbox/sandboxTypes";
 import { WebSocketMessageResponses } from "../constants";
-import { AppService, ModelConfigService } from "worker/database";
+import { AppService, ModelConfigService, ProjectService } from "worker/database";
 import { ConversationMessage, ConversationState } from "../inferutils/common";
 import { ImageAttachment } from "worker/types/image-attachment";
-import { RateLimitExceededError } from "shared/types/errors";
+import { CreditBudgetExceededError, RateLimitExceededError } from "shared/types/errors";
 import { ProjectObjective } from "./objectives/base";
 import { FileOutputType } from "../schemas";
 import { SecretsClient, type UserSecretsStoreStub } from '../../services/secrets/SecretsClient';
 import { StateMigration } from './stateMigration';
+import type { WorkflowDryRunResult } from '../domain/pure/WorkflowGraph';
 import { PendingWsTicket, TicketConsumptionResult } from '../../types/auth-types';
 import { WsTicketManager } from '../../utils/wsTicketManager';
+import { forwardIntegrationRequest, IntegrationProxyError, type IntegrationValueStore } from '../../services/integrations/proxy';
+import type { IntegrationDefinition, IntegrationProxyRequest, IntegrationProxyResponse } from '../../services/integrations/types';
 
 const DEFAULT_CONVERSATION_SESSION_ID = 'default';
+// Commits read when resolving a branch point and cutting phases back to it
+const BRANCH_HISTORY_DEPTH = 500;
+// File versions larger than this are left out of the edit history
+const MAX_FILE_EDIT_CONTENT_LENGTH = 512 * 1024;
 
 interface AgentBootstrapProps {
     behaviorType?: BehaviorType;
@@ -48,6 +59,15 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
     
     /** Ticket manager for WebSocket authentication */
     private ticketManager = new WsTicketManager();
+
+    /** Project row for this app (edit history, current branch), resolved lazily and shared by concurrent callers */
+    private projectIdPromise: Promise<string> | null = null;
+
+    /** User edits run one at a time so conflict checks see the previous write */
+    private fileUpdateQueue: Promise<unknown> = Promise.resolve();
+
+    /** Last blueprint written to blueprint_history, so only changes are recorded */
+    private lastRecordedBlueprint: string | null = null;
     
     // Services
     readonly fileManager: FileManager;
@@ -95,6 +115,8 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
         void this.sql`CREATE TABLE IF NOT EXISTS compact_conversations (id TEXT PRIMARY KEY, messages TEXT)`;
         // Key-value store for agency integration tokens (Plaid, Stripe, etc.)
         void this.sql`CREATE TABLE IF NOT EXISTS kv_store (key TEXT PRIMARY KEY, value TEXT)`;
+        // Every blueprint version, so a branch gets the blueprint in effect at its commit
+        void this.sql`CREATE TABLE IF NOT EXISTS blueprint_history (created_at INTEGER, blueprint TEXT)`;
 
         // Create StateManager
         const stateManager = new StateManager(
@@ -108,6 +130,9 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
             () => this.behavior?.getTemplateDetails?.() || null,
             this.git
         );
+        this.fileManager.setOnFileEditsCommittedCallback((edits, commitHash) => {
+            void this.recordFileEdits(edits, commitHash);
+        });
         this.deploymentManager = new DeploymentManager(
             {
                 stateManager,
@@ -116,6 +141,7 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
                 env: this.env
             },
             10, // MAX_COMMANDS_HISTORY
+            () => this.behavior?.getRuntimeType?.() ?? 'sandbox',
         );
     }
     private createObjective(projectType: ProjectType): ProjectObjective<BaseProjectState> {
@@ -172,6 +198,8 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
 
         if (behaviorType === 'phasic') {
             this.behavior = new PhasicCodingBehavior(this as AgentInfrastructure<PhasicState>, projectType);
+        } else if (projectType === 'workflow') {
+            this.behavior = new WorkflowCodingBehavior(this as AgentInfrastructure<AgenticState>, projectType);
         } else {
             this.behavior = new AgenticCodingBehavior(this as AgentInfrastructure<AgenticState>, projectType);
         }
@@ -213,6 +241,7 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
     
     onConnect(connection: Connection, ctx: ConnectionContext) {
         this.logger().info(`Agent connected for agent ${this.getAgentId()}`, { connection, ctx });
+        const { identity } = initConnectionAuth(connection, ctx.request, this.state.metadata.userId);
         let previewUrl = '';
         try {
             if (this.behavior.getTemplateDetails().renderMode === 'browser') {
@@ -224,8 +253,14 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
         sendToConnection(connection, WebSocketMessageResponses.AGENT_CONNECTED, {
             state: this.state,
             templateDetails: this.behavior.getTemplateDetails(),
-            previewUrl: previewUrl
+            previewUrl: previewUrl,
+            access: {
+                connectionId: connection.id,
+                userId: identity.userId,
+                role: identity.role
+            }
         });
+        broadcastPresence(this);
     }
 
     private initLogger(agentId: string, userId: string, sessionId?: string) {
@@ -262,6 +297,22 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
         return this.ctx.getWebSockets();
     }
 
+    /**
+     * Close a user's open connections after their collaborator role changed or was revoked.
+     * Clients reconnect and pick up the new role, or are rejected if access was removed.
+     */
+    disconnectUser(userId: string): number {
+        let closed = 0;
+        for (const connection of this.getConnections()) {
+            const identity = getConnectionIdentity(connection);
+            if (identity?.userId === userId && identity.role !== 'owner') {
+                connection.close(4003, 'Access changed');
+                closed++;
+            }
+        }
+        return closed;
+    }
+
     handleVaultUnlocked(): void {
         this.secretsClient?.notifyUnlocked();
         this.logger().info('Vault unlocked notification received', {});
@@ -300,6 +351,19 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
         }
     }
 
+    async peekDecryptedSecret(query: { provider?: string; envVarName?: string; secretId?: string }): Promise<string | null> {
+        try {
+            const client = this.getSecretsClient();
+            if (!(await client.isUnlocked())) {
+                return null;
+            }
+            return await client.get(query);
+        } catch (error) {
+            this.logger().info('Secret request failed', { query, error: String(error) });
+            return null;
+        }
+    }
+
     /**
      * Get the project objective (defines what is being built)
      */
@@ -347,6 +411,13 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
         return this.objective.export(options);
     }
 
+    async runWorkflowDryRun(params?: Record<string, unknown>): Promise<WorkflowDryRunResult> {
+        if (!(this.behavior instanceof WorkflowCodingBehavior)) {
+            throw new Error('Dry runs are only available for workflow projects');
+        }
+        return this.behavior.runDryRun(params);
+    }
+
     importTemplate(templateName: string): Promise<{ templateName: string; filesImported: number }> {
         return this.behavior.importTemplate(templateName);
     }
@@ -530,6 +601,13 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
             }
 
         } catch (error) {
+            if (error instanceof CreditBudgetExceededError) {
+                this.logger().warn('Credit budget exhausted');
+                this.broadcast(WebSocketMessageResponses.BUDGET_EXHAUSTED, {
+                    error
+                });
+                return;
+            }
             if (error instanceof RateLimitExceededError) {
                 this.logger().error('Rate limit exceeded:', error);
                 this.broadcast(WebSocketMessageResponses.RATE_LIMIT_ERROR, {
@@ -543,9 +621,27 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
 
     /**
      * Update a file with new content from user editing in Monaco
-     * Writes the file, commits to git with user author, and triggers sandbox reload
+     * Writes the file, commits to git and triggers sandbox reload.
+     * When baseHash is given the edit is rejected with a FileConflictError
+     * if the file no longer matches the contents the editor started from.
      */
-    async updateFile(filePath: string, content: string, userId: string): Promise<{ commitHash: string }> {
+    updateFile(
+        filePath: string,
+        content: string,
+        userId: string = this.state.metadata.userId,
+        baseHash?: string
+    ): Promise<{ commitHash: string; contentHash: string }> {
+        const update = this.fileUpdateQueue.then(() => this.applyFileUpdate(filePath, content, userId, baseHash));
+        this.fileUpdateQueue = update.catch(() => undefined);
+        return update;
+    }
+
+    private async applyFileUpdate(
+        filePath: string,
+        content: string,
+        userId: string,
+        baseHash?: string
+    ): Promise<{ commitHash: string; contentHash: string }> {
         try {
             this.logger().info('Updating file from user edit', {
                 filePath,
@@ -559,45 +655,50 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
                 throw new Error(`Unsafe file path: ${filePath}`);
             }
 
-            // Get current file content for comparison
-            const oldContent = await this.fileManager.readFile(normalizedPath).catch(() => null);
-
-            // Write new content
-            await this.fileManager.writeFile(normalizedPath, content);
-
-            // Update generatedFilesMap to track the file
-            this.state.generatedFilesMap[normalizedPath] = {
-                filePath: normalizedPath,
-                fileContents: content,
-                filePurpose: 'User edited file'
-            };
+            const existingFile = this.fileManager.getFile(normalizedPath);
+            if (existingFile && baseHash) {
+                const currentHash = await hashFileContents(existingFile.fileContents);
+                if (currentHash !== baseHash) {
+                    throw new FileConflictError(normalizedPath, existingFile.fileContents, currentHash);
+                }
+            }
 
-            // Commit to git with user author
-            const commitMessage = oldContent === null
+            const commitMessage = existingFile === null
                 ? `User created: ${normalizedPath}`
                 : `User edited: ${normalizedPath}`;
 
-            await this.git.commit({
-                message: `${commitMessage}\n\nCo-Authored-By: ${userId} <${userId}@vov1.app>`,
-                author: {
-                    name: userId,
-                    email: `${userId}@vov1.app`,
-                    timestamp: Math.floor(Date.now() / 1000)
-                }
-            });
-
-            const commitHash = await this.git.getHead();
+            // Users may edit any file, including ones protected from AI changes
+            const [fileState] = await this.fileManager.saveGeneratedFiles(
+                [{
+                    filePath: normalizedPath,
+                    fileContents: content,
+                    filePurpose: existingFile?.filePurpose || 'User edited file'
+                }],
+                commitMessage,
+                true,
+                { editType: 'user', userId }
+            );
+
+            const commitHash = await this.git.getHead() ?? '';
+
+            // Keep every open editor in sync, same as AI-generated files
+            if (fileState) {
+                this.broadcast(WebSocketMessageResponses.FILE_GENERATED, {
+                    message: commitMessage,
+                    file: fileState
+                });
+            }
 
             this.logger().info('File updated successfully', {
                 filePath: normalizedPath,
                 commitHash,
-                wasNewFile: oldContent === null
+                wasNewFile: existingFile === null
             });
 
-            // Trigger sandbox reload if a sandbox is running
-            if (this.state.sandboxInstanceId) {
+            // Push the file to the sandbox if one is running
+            if (this.state.sandboxInstanceId && fileState) {
                 try {
-                    await this.deploymentManager.redeployToSandbox();
+                    await this.deploymentManager.deployToSandbox([fileState]);
                     this.logger().info('Sandbox reloaded after file update');
                 } catch (error) {
                     this.logger().warn('Failed to reload sandbox after file update:', error);
@@ -605,13 +706,187 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
                 }
             }
 
-            return { commitHash };
+            return { commitHash, contentHash: await hashFileContents(content) };
         } catch (error) {
+            if (error instanceof FileConflictError) {
+                this.logger().warn('Rejected conflicting file update', { filePath: error.filePath, userId });
+                throw error;
+            }
             this.logger().error('Error updating file:', error);
             throw error;
         }
     }
 
+    /**
+     * Persist committed file changes to the project's edit history.
+     * Best-effort: history failures never block generation or editing.
+     */
+    private async recordFileEdits(edits: FileEditRecord[], commitHash: string): Promise<void> {
+        const { userId } = this.state.metadata;
+        const recordable = edits.filter(edit =>
+            edit.contentAfter.length <= MAX_FILE_EDIT_CONTENT_LENGTH &&
+            (edit.contentBefore?.length ?? 0) <= MAX_FILE_EDIT_CONTENT_LENGTH
+        );
+        if (recordable.length === 0) {
+            return;
+        }
+
+        try {
+            const projectService = new ProjectService(this.env);
+            const projectId = await this.resolveProjectId(projectService);
+
+            await projectService.recordFileEdits(recordable.map(edit => ({
+                projectId,
+                filePath: edit.filePath,
+                userId: edit.userId ?? userId,
+                editType: edit.editType,
+                contentBefore: edit.contentBefore ?? undefined,
+                contentAfter: edit.contentAfter,
+                commitHash
+            })));
+        } catch (error) {
+            this.logger().warn('Failed to record file edit history', {
+                files: recordable.length,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    private resolveProjectId(projectService: ProjectService): Promise<string> {
+        if (!this.projectIdPromise) {
+            const { agentId, userId } = this.state.metadata;
+            this.projectIdPromise = projectService
+                .ensureProjectForApp(agentId, userId, this.state.projectName || agentId)
+                .then(project => project.id)
+                .catch(error => {
+                    // Let the next edit try again
+                    this.projectIdPromise = null;
+                    throw error;
+                });
+        }
+        return this.projectIdPromise;
+    }
+
+    // ==========================================
+    // Git Branches
+    // ==========================================
+
+    async getGitBranches(): Promise<{ branches: BranchInfo[]; currentBranch: string | null }> {
+        const branches = await this.git.listBranches();
+        return {
+            branches,
+            currentBranch: branches.find(branch => branch.current)?.name ?? null
+        };
+    }
+
+    /**
+     * Check out another branch for the user and rebuild the preview from it
+     */
+    async switchGitBranch(branch: string): Promise<void> {
+        if (this.behavior.isCodeGenerating()) {
+            throw new Error('Cannot switch branches while code is being generated');
+        }
+
+        const result = await this.git.switchBranch(branch);
+        this.logger().info('Switched git branch', { ...result });
+
+        this.broadcast(WebSocketMessageResponses.GIT_BRANCH_SWITCHED, {
+            message: `Switched to branch ${branch}`,
+            branch,
+            files: this.fileManager.getGeneratedFiles()
+        });
+        this.broadcast(WebSocketMessageResponses.GIT_BRANCHES, await this.getGitBranches());
+
+        // Keep projects.currentBranch in sync, best-effort
+        try {
+            const projectService = new ProjectService(this.env);
+            const projectId = await this.resolveProjectId(projectService);
+            await projectService.updateProject(projectId, this.state.metadata.userId, { currentBranch: branch });
+        } catch (error) {
+            this.logger().warn('Failed to record current branch on project', error);
+        }
+
+        // Files may have been removed, so start from a fresh sandbox
+        if (this.state.sandboxInstanceId) {
+            try {
+                await this.behavior.deployPreview(true, true);
+            } catch (error) {
+                this.logger().warn('Failed to redeploy preview after branch switch:', error);
+            }
+        }
+    }
+
+    /**
+     * Apply commits pushed over git, or pulled from GitHub, on top of the current branch, then refresh
+     * file state, connected clients and the preview.
+     * Errors are reported to the pusher as the rejection reason.
+     */
+    async applyPushedCommits(expectedHead: string, commits: PushedCommit[], userId: string, source: 'push' | 'github' = 'push'): Promise<{ head: string }> {
+        if (this.behavior.isCodeGenerating()) {
+            throw new Error('code is being generated, push again once it finishes');
+        }
+        if (await this.git.getHead() !== expectedHead) {
+            throw new Error('fetch first');
+        }
+        for (const commit of commits) {
+            for (const path of [...commit.files.map(file => file.filePath), ...commit.deletedPaths]) {
+                if (!isPathSafe(normalizePath(path))) {
+                    throw new Error(`unsafe file path ${path}`);
+                }
+            }
+        }
+
+        // Track contents across commits for the edit history
+        const contents = new Map<string, string | null>();
+        const contentBefore = (path: string) => contents.has(path)
+            ? contents.get(path) ?? null
+            : this.fileManager.getFile(path)?.fileContents ?? null;
+
+        let head = expectedHead;
+        for (const commit of commits) {
+            const edits: FileEditRecord[] = commit.files.map(file => ({
+                editType: 'user',
+                userId,
+                filePath: file.filePath,
+                contentBefore: contentBefore(file.filePath),
+                contentAfter: file.fileContents
+            }));
+
+            head = await this.git.applyPushedCommit(commit);
+            await this.recordFileEdits(edits, head);
+
+            for (const file of commit.files) {
+                contents.set(file.filePath, file.fileContents);
+            }
+            for (const path of commit.deletedPaths) {
+                contents.set(path, null);
+            }
+        }
+
+        await this.git.restoreWorkingTree();
+        this.logger().info('Applied pushed commits', { source, commits: commits.length, head });
+
+        this.broadcast(WebSocketMessageResponses.GIT_PUSH_RECEIVED, {
+            message: source === 'github'
+                ? `Pulled ${commits.length} commit${commits.length === 1 ? '' : 's'} from GitHub`
+                : `Received ${commits.length} pushed commit${commits.length === 1 ? '' : 's'}`,
+            commits: commits.length,
+            head,
+            files: this.fileManager.getGeneratedFiles()
+        });
+        this.broadcast(WebSocketMessageResponses.GIT_BRANCHES, await this.getGitBranches());
+
+        // Pushed commits may delete files, so start from a fresh sandbox.
+        // Not awaited, the pushing git client should not wait for the preview.
+        if (this.state.sandboxInstanceId) {
+            this.behavior.deployPreview(true, true).catch(error => {
+                this.logger().warn('Failed to redeploy preview after push:', error);
+            });
+        }
+
+        return { head };
+    }
+
     // ==========================================
     // WebSocket Management
     // ==========================================
@@ -709,6 +984,91 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
         }
     }
 
+    /**
+     * Replace this agent's repository with git objects exported from another agent.
+     * Used when forking, so the fork starts with the full commit history.
+     */
+    async importGitObjects(gitObjects: Array<{ path: string; data: Uint8Array }>): Promise<void> {
+        await this.git.fs.importGitObjects(gitObjects);
+
+        if (await this.git.getHead()) {
+            const filesRestored = await this.git.restoreWorkingTree();
+            this.logger().info('Imported git history', { objects: gitObjects.length, filesRestored });
+        }
+    }
+
+    /**
+     * This project as it was at a phase or commit, for branching it into a new app.
+     * Null when the branch point is not part of the repository.
+     */
+    async getBranchSnapshot(point: BranchPoint): Promise<BranchSnapshot | null> {
+        let commitOid: string | null;
+        if ('phaseName' in point) {
+            const phase = this.state.behaviorType === 'phasic'
+                ? this.state.generatedPhases.find(p => p.name === point.phaseName && p.completed)
+                : undefined;
+            commitOid = phase ? findPhaseCommit(phase, await this.git.log(BRANCH_HISTORY_DEPTH)) : null;
+        } else {
+            commitOid = point.commitOid;
+        }
+        if (!commitOid) {
+            return null;
+        }
+
+        const history = await this.git.log(BRANCH_HISTORY_DEPTH, commitOid);
+        if (history[0]?.oid !== commitOid) {
+            return null;
+        }
+        const cutoff = commitCutoff(history[0]);
+
+        const blueprintRows = this.sql<{ blueprint: string }>`SELECT blueprint FROM blueprint_history WHERE created_at <= ${cutoff} ORDER BY created_at DESC LIMIT 1`;
+        const blueprint = blueprintRows.length > 0 ? JSON.parse(blueprintRows[0].blueprint) as Blueprint : null;
+
+        const conversation = this.getConversationState();
+        this.logger().info('Prepared branch snapshot', { commitOid, commits: history.length, hasBlueprintVersion: !!blueprint });
+
+        return {
+            commitOid,
+            state: cutAgentState(this.state, history, blueprint),
+            conversation: {
+                id: conversation.id,
+                runningHistory: cutConversation(conversation.runningHistory, cutoff),
+                fullHistory: cutConversation(conversation.fullHistory, cutoff),
+            },
+        };
+    }
+
+    /**
+     * Move the current branch to the branch point and rebuild the files from it.
+     * Runs on a new branch after the source's git objects were imported.
+     */
+    async resetToBranchPoint(commitOid: string): Promise<void> {
+        const { filesReset } = await this.git.reset(commitOid, { hard: true });
+        this.logger().info('Reset to branch point', { commitOid, filesReset });
+    }
+
+    onStateUpdate(state: AgentState | undefined, _source: Connection | 'server'): void {
+        if (state?.blueprint) {
+            this.recordBlueprintVersion(state.blueprint);
+        }
+    }
+
+    private recordBlueprintVersion(blueprint: Blueprint): void {
+        if (Object.keys(blueprint).length === 0) {
+            return;
+        }
+        if (this.lastRecordedBlueprint === null) {
+            const rows = this.sql<{ blueprint: string }>`SELECT blueprint FROM blueprint_history ORDER BY created_at DESC LIMIT 1`;
+            this.lastRecordedBlueprint = rows[0]?.blueprint ?? '';
+        }
+
+        const serialized = JSON.stringify(blueprint);
+        if (serialized !== this.lastRecordedBlueprint) {
+            void this.sql`INSERT INTO blueprint_history (created_at, blueprint) VALUES (${Date.now()}, ${serialized})`;
+            this.lastRecordedBlueprint = serialized;
+        }
+    }
+
     /**
      * Handle browser file serving requests
      */
@@ -860,54 +1220,55 @@ export class CodeGeneratorAgent extends Agent<Env, AgentState> implements AgentI
     }
 
     // ==========================================
-    // Plaid Integration (Agency Mode)
+    // Integration Proxy (Agency Mode)
     // ==========================================
 
-    /** Storage key for Plaid access token */
-    private static readonly PLAID_ACCESS_TOKEN_KEY = 'agency:plaid:access_token';
-    private static readonly PLAID_ITEM_ID_KEY = 'agency:plaid:item_id';
-
-    /**
-     * Store Plaid access token in DO storage
-     * Called after successful public_token exchange
-     */
-    async storePlaidAccessToken(accessToken: string, itemId: string): Promise<void> {
-        await this.sql`INSERT OR REPLACE INTO kv_store (key, value) VALUES (${CodeGeneratorAgent.PLAID_ACCESS_TOKEN_KEY}, ${accessToken})`;
-        await this.sql`INSERT OR REPLACE INTO kv_store (key, value) VALUES (${CodeGeneratorAgent.PLAID_ITEM_ID_KEY}, ${itemId})`;
-        this.logger().info('Plaid access token stored', { itemId });
-    }
-
-    /**
-     * Retrieve Plaid access token from DO storage
-     */
-    async getPlaidAccessToken(): Promise<string | null> {
-        const rows = this.sql<{ value: string }>`SELECT value FROM kv_store WHERE key = ${CodeGeneratorAgent.PLAID_ACCESS_TOKEN_KEY}`;
-        return rows.length > 0 ? rows[0].value : null;
-    }
-
-    /**
-     * Retrieve Plaid item ID from DO storage
-     */
-    async getPlaidItemId(): Promise<string | null> {
-        const rows = this.sql<{ value: string }>`SELECT value FROM kv_store WHERE key = ${CodeGeneratorAgent.PLAID_ITEM_ID_KEY}`;
-        return rows.length > 0 ? rows[0].value : null;
-    }
-
-    /**
-     * Clear stored Plaid credentials
-     */
-    async clearPlaidCredentials(): Promise<void> {
-        await this.sql`DELETE FROM kv_store WHERE key = ${CodeGeneratorAgent.PLAID_ACCESS_TOKEN_KEY}`;
-        await this.sql`DELETE FROM kv_store WHERE key = ${CodeGeneratorAgent.PLAID_ITEM_ID_KEY}`;
-        this.logger().info('Plaid credentials cleared');
-    }
+    /** Values kept for preview app integrations (e.g. Plaid access tokens), keyed agency:{integrationId}:{field} */
+    private readonly integrationValues: IntegrationValueStore = {
+        get: async (integrationId, fields) => {
+            const values: Record<string, string> = {};
+            for (const field of fields) {
+                const rows = this.sql<{ value: string }>`SELECT value FROM kv_store WHERE key = ${`agency:${integrationId}:${field}`}`;
+                if (rows.length > 0) {
+                    values[field] = rows[0].value;
+                }
+            }
+            return values;
+        },
+        set: async (integrationId, field, value) => {
+            void this.sql`INSERT OR REPLACE INTO kv_store (key, value) VALUES (${`agency:${integrationId}:${field}`}, ${value})`;
+            this.logger().info('Integration value stored', { integrationId, field });
+        },
+    };
 
     /**
-     * Check if Plaid is connected for this agent
+     * Forward a preview app request to a configured integration.
+     * Credentials are resolved from the user's vault here, so they never leave the agent.
      */
-    async isPlaidConnected(): Promise<boolean> {
-        const token = await this.getPlaidAccessToken();
-        return token !== null;
+    async proxyIntegrationRequest(
+        integrationId: string,
+        definition: IntegrationDefinition,
+        request: IntegrationProxyRequest
+    ): Promise<IntegrationProxyResponse> {
+        try {
+            return await forwardIntegrationRequest(integrationId, definition, request, {
+                env: this.env,
+                resolveSecret: (envVarName) => this.getDecryptedSecret({ envVarName }),
+                values: this.integrationValues,
+            });
+        } catch (error) {
+            const isProxyError = error instanceof IntegrationProxyError;
+            const message = isProxyError ? error.message : 'Integration request failed';
+            if (!isProxyError) {
+                this.logger().error('Integration request failed', { integrationId, path: request.path, error });
+            }
+            return {
+                status: isProxyError ? error.status : 502,
+                contentType: 'application/json',
+                body: JSON.stringify({ success: false, error: message }),
+                error: message,
+            };
+        }
     }
 
     // ==========================================
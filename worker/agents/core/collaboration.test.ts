@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { WebSocketMessageRequests } from '../constants';
+import { buildPresence, canSendRequest, hashFileContents, parseSessionIdentity } from './collaboration';
+
+describe('parseSessionIdentity', () => {
+	it('reads a forwarded identity', () => {
+		const header = JSON.stringify({ userId: 'u1', displayName: 'Ada', avatarUrl: 'https://a/b.png', role: 'editor' });
+		expect(parseSessionIdentity(header)).toEqual({
+			userId: 'u1',
+			displayName: 'Ada',
+			avatarUrl: 'https://a/b.png',
+			role: 'editor',
+		});
+	});
+
+	it('rejects missing, malformed and unknown roles', () => {
+		expect(parseSessionIdentity(null)).toBeNull();
+		expect(parseSessionIdentity('not json')).toBeNull();
+		expect(parseSessionIdentity(JSON.stringify({ userId: 'u1', role: 'admin' }))).toBeNull();
+		expect(parseSessionIdentity(JSON.stringify({ role: 'owner' }))).toBeNull();
+	});
+});
+
+describe('canSendRequest', () => {
+	it('limits viewers to read-only requests and presence', () => {
+		expect(canSendRequest('viewer', WebSocketMessageRequests.GET_CONVERSATION_STATE)).toBe(true);
+		expect(canSendRequest('viewer', WebSocketMessageRequests.PRESENCE_UPDATE)).toBe(true);
+		expect(canSendRequest('viewer', WebSocketMessageRequests.UPDATE_FILE)).toBe(false);
+		expect(canSendRequest('viewer', WebSocketMessageRequests.USER_SUGGESTION)).toBe(false);
+	});
+
+	it('keeps owner-only requests from editors', () => {
+		expect(canSendRequest('editor', WebSocketMessageRequests.UPDATE_FILE)).toBe(true);
+		expect(canSendRequest('editor', WebSocketMessageRequests.USER_SUGGESTION)).toBe(true);
+		expect(canSendRequest('editor', WebSocketMessageRequests.VAULT_UNLOCKED)).toBe(false);
+		expect(canSendRequest('editor', WebSocketMessageRequests.TERMINAL_POLICY_UPDATE)).toBe(false);
+		expect(canSendRequest('owner', WebSocketMessageRequests.TERMINAL_POLICY_UPDATE)).toBe(true);
+	});
+});
+
+describe('buildPresence', () => {
+	const identity = (userId: string, role: 'owner' | 'editor' | 'viewer') => ({ userId, displayName: userId, role });
+
+	it('lists identified connections with the owner first', () => {
+		const users = buildPresence([
+			{ id: 'c1', state: { identity: identity('bob', 'viewer') } },
+			{ id: 'c2', state: { identity: identity('ada', 'owner'), activeFile: 'src/App.tsx' } },
+			{ id: 'c3', state: null },
+		]);
+		expect(users.map((user) => [user.connectionId, user.role, user.activeFile])).toEqual([
+			['c2', 'owner', 'src/App.tsx'],
+			['c1', 'viewer', undefined],
+		]);
+	});
+
+	it('leaves out the closing connection', () => {
+		const users = buildPresence([
+			{ id: 'c1', state: { identity: identity('ada', 'owner') } },
+			{ id: 'c2', state: { identity: identity('bob', 'editor') } },
+		], 'c2');
+		expect(users.map((user) => user.userId)).toEqual(['ada']);
+	});
+});
+
+describe('hashFileContents', () => {
+	it('produces the sha-256 hex digest clients compute', async () => {
+		expect(await hashFileContents('hello')).toBe('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+	});
+});
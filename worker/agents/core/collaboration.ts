@@ -0,0 +1,124 @@
+/**
+ * Shared agent sessions - connection identity, role checks and presence
+ *
+ * The worker resolves who is connecting (owner or invited collaborator) and
+ * forwards it with the upgrade request. The agent trusts that header because
+ * it can only be reached through the worker.
+ */
+
+import { WebSocketMessageRequests } from '../constants';
+import type { PresenceUser, SessionRole } from '../../api/websocketTypes';
+import { sha256Hash } from '../../utils/cryptoUtils';
+
+export const SESSION_IDENTITY_HEADER = 'X-Session-Identity';
+
+export interface SessionIdentity {
+    userId: string;
+    displayName: string;
+    avatarUrl?: string;
+    role: SessionRole;
+}
+
+/**
+ * Requests viewers may send, everything else needs the editor role
+ */
+const VIEWER_REQUESTS: ReadonlySet<string> = new Set([
+    WebSocketMessageRequests.SESSION_INIT,
+    WebSocketMessageRequests.GET_CONVERSATION_STATE,
+    WebSocketMessageRequests.GET_MODEL_CONFIGS,
+    WebSocketMessageRequests.GIT_LIST_BRANCHES,
+    WebSocketMessageRequests.PREVIEW,
+    WebSocketMessageRequests.PRESENCE_UPDATE,
+]);
+
+/**
+ * Requests that act on the owner's account or the session's safety settings
+ */
+const OWNER_REQUESTS: ReadonlySet<string> = new Set([
+    WebSocketMessageRequests.VAULT_UNLOCKED,
+    WebSocketMessageRequests.VAULT_LOCKED,
+    WebSocketMessageRequests.GITHUB_EXPORT,
+    WebSocketMessageRequests.TERMINAL_POLICY_UPDATE,
+]);
+
+const SESSION_ROLES: readonly SessionRole[] = ['owner', 'editor', 'viewer'];
+
+/**
+ * Read the identity forwarded by the worker, null when missing or malformed
+ */
+export function parseSessionIdentity(header: string | null): SessionIdentity | null {
+    if (!header) return null;
+    try {
+        const parsed = JSON.parse(header) as Partial<SessionIdentity>;
+        if (typeof parsed.userId !== 'string' || !parsed.userId || !SESSION_ROLES.includes(parsed.role as SessionRole)) {
+            return null;
+        }
+        return {
+            userId: parsed.userId,
+            displayName: typeof parsed.displayName === 'string' && parsed.displayName ? parsed.displayName : 'Anonymous',
+            avatarUrl: typeof parsed.avatarUrl === 'string' ? parsed.avatarUrl : undefined,
+            role: parsed.role as SessionRole,
+        };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether a connection with the given role may send a request type
+ */
+export function canSendRequest(role: SessionRole, type: string): boolean {
+    switch (role) {
+        case 'owner':
+            return true;
+        case 'editor':
+            return !OWNER_REQUESTS.has(type);
+        case 'viewer':
+            return VIEWER_REQUESTS.has(type);
+    }
+}
+
+/**
+ * Presence entries for every identified connection, owners first
+ */
+export function buildPresence(
+    connections: Iterable<{ id: string; state: unknown }>,
+    excludeConnectionId?: string
+): PresenceUser[] {
+    const users: PresenceUser[] = [];
+    for (const connection of connections) {
+        if (connection.id === excludeConnectionId) continue;
+        const state = connection.state as { identity?: SessionIdentity; activeFile?: string } | null;
+        if (!state?.identity) continue;
+        users.push({
+            connectionId: connection.id,
+            userId: state.identity.userId,
+            displayName: state.identity.displayName,
+            avatarUrl: state.identity.avatarUrl,
+            role: state.identity.role,
+            activeFile: state.activeFile,
+        });
+    }
+    return users.sort((a, b) => SESSION_ROLES.indexOf(a.role) - SESSION_ROLES.indexOf(b.role));
+}
+
+/**
+ * Hash of file contents used to detect concurrent edits
+ */
+export function hashFileContents(contents: string): Promise<string> {
+    return sha256Hash(contents);
+}
+
+/**
+ * A user edit was based on contents that changed in the meantime
+ */
+export class FileConflictError extends Error {
+    constructor(
+        public readonly filePath: string,
+        public readonly currentContent: string,
+        public readonly currentHash: string
+    ) {
+        super(`${filePath} was changed by someone else since you opened it`);
+        this.name = 'FileConflictError';
+    }
+}
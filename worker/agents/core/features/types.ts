@@ -11,6 +11,7 @@ export interface PlatformCapabilitiesConfig {
 	features: {
 		app: { enabled: boolean };
 		presentation: { enabled: boolean };
+		workflow: { enabled: boolean };
 		general: { enabled: boolean };
 	};
 	version: string;
@@ -148,11 +149,11 @@ export const DEFAULT_FEATURE_DEFINITIONS: Record<ProjectType, Omit<FeatureDefini
 		name: 'Workflow',
 		description: 'Automated workflows and pipelines',
 		capabilities: {
-			hasPreview: false,
+			hasPreview: true,
 			hasLiveReload: false,
 			requiresSandbox: false,
 			requiresWebSocket: true,
-			supportedViews: ['editor', 'docs'],
+			supportedViews: ['editor', 'preview', 'docs'],
 			defaultView: 'editor',
 			supportedExports: ['github', 'workflow'],
 			hasCustomHeaderActions: true,
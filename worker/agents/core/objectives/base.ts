@@ -11,12 +11,17 @@ import type { AgentInfrastructure } from '../AgentCore';
 import { WebSocketMessageResponses } from '../../constants';
 import { AppService } from '../../../database/services/AppService';
 import { GitHubService } from '../../../services/github';
+import type { DeploymentCredentials } from '../../../services/sandbox/sandboxTypes';
 import {
 	getAdditionalExportStrategy,
 	type AdditionalExportStrategy,
 	type ExportContext,
 } from './strategies';
 
+/** Vault environment variable names used for deploying to the user's own account */
+const USER_API_TOKEN_ENV = 'CLOUDFLARE_API_TOKEN';
+const USER_ACCOUNT_ID_ENV = 'CLOUDFLARE_ACCOUNT_ID';
+
 export class ProjectObjective<
 	TState extends BaseProjectState = BaseProjectState,
 > extends AgentComponent<TState> {
@@ -44,7 +49,7 @@ export class ProjectObjective<
 
 	async deploy(options?: DeployOptions): Promise<DeployResult> {
 		const target = options?.target ?? 'platform';
-		if (target !== 'platform') {
+		if (target !== 'platform' && target !== 'user') {
 			return {
 				success: false,
 				target,
@@ -53,9 +58,23 @@ export class ProjectObjective<
 		}
 
 		try {
-			this.logger.info('Deploying to Workers for Platforms', {
-				projectType: this.projectType,
-			});
+			this.logger.info(
+				target === 'user' ? 'Deploying to user Cloudflare account' : 'Deploying to Workers for Platforms',
+				{ projectType: this.projectType },
+			);
+
+			let credentials: DeploymentCredentials | undefined;
+			if (target === 'user') {
+				credentials = await this.resolveUserCredentials(options);
+				if (!credentials.apiToken) {
+					const error = `No Cloudflare API token found - add ${USER_API_TOKEN_ENV} to your vault`;
+					this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_ERROR, {
+						message: `Deployment failed: ${error}`,
+						error,
+					});
+					return { success: false, target, error };
+				}
+			}
 
 			if (!this.state.sandboxInstanceId) {
 				this.logger.info('No sandbox instance, deploying to sandbox first');
@@ -76,6 +95,7 @@ export class ProjectObjective<
 
 			const result = await this.deploymentManager.deployToCloudflare({
 				target,
+				credentials,
 				callbacks: {
 					onStarted: (data) =>
 						this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_STARTED, data),
@@ -86,7 +106,8 @@ export class ProjectObjective<
 				},
 			});
 
-			if (result.deploymentUrl && result.deploymentId) {
+			// User-account deployments are not served from the platform, so the app keeps its deployment ID
+			if (target === 'platform' && result.deploymentUrl && result.deploymentId) {
 				const appService = new AppService(this.env);
 				await appService.updateDeploymentId(this.getAgentId(), result.deploymentId);
 				this.logger.info('Updated deployment ID in database', {
@@ -114,6 +135,25 @@ export class ProjectObjective<
 		}
 	}
 
+	/**
+	 * Credentials for deploying into the user's own account: explicit options first, then the vault
+	 */
+	private async resolveUserCredentials(options?: DeployOptions): Promise<DeploymentCredentials> {
+		const apiToken =
+			options?.token ??
+			(await this.infrastructure.getDecryptedSecret({ envVarName: USER_API_TOKEN_ENV })) ??
+			undefined;
+		if (!apiToken) {
+			return {};
+		}
+
+		const accountId =
+			options?.accountId ??
+			(await this.infrastructure.getDecryptedSecret({ envVarName: USER_ACCOUNT_ID_ENV })) ??
+			undefined;
+		return { apiToken, accountId };
+	}
+
 	async export(options: ExportOptions): Promise<ExportResult> {
 		if (options.kind === 'github') {
 			return this.exportToGitHub(options);
@@ -188,6 +228,9 @@ export class ProjectObjective<
 				repositoryUrl: githubOptions.repositoryHtmlUrl,
 				username: githubOptions.username,
 				email: githubOptions.email,
+				defaultBranch: githubOptions.defaultBranch,
+				syncedCommitSha: githubOptions.syncedCommitSha,
+				forcePush: githubOptions.forcePush,
 			});
 
 			if (!result.success) {
@@ -210,18 +253,28 @@ export class ProjectObjective<
 				agentId || '',
 				githubOptions.repositoryHtmlUrl || '',
 				githubOptions.isPrivate ? 'private' : 'public',
+				{
+					defaultBranch: githubOptions.defaultBranch,
+					// A pull request leaves the default branch as it was
+					syncedCommitSha: result.pullRequestUrl ? undefined : result.commitSha,
+				},
 			);
 
 			this.broadcast(WebSocketMessageResponses.GITHUB_EXPORT_COMPLETED, {
-				message: `Successfully exported to GitHub repository: ${githubOptions.repositoryHtmlUrl}`,
+				message: result.pullRequestUrl
+					? `GitHub has new commits, opened a pull request instead: ${result.pullRequestUrl}`
+					: `Successfully exported to GitHub repository: ${githubOptions.repositoryHtmlUrl}`,
 				repositoryUrl: githubOptions.repositoryHtmlUrl,
 				cloneUrl: githubOptions.cloneUrl,
 				commitSha: result.commitSha,
+				pullRequestUrl: result.pullRequestUrl,
 			});
 
 			this.logger.info('GitHub export completed', {
 				repositoryUrl: githubOptions.repositoryHtmlUrl,
 				commitSha: result.commitSha,
+				branch: result.branch,
+				pullRequestUrl: result.pullRequestUrl,
 			});
 
 			return {
@@ -231,6 +284,8 @@ export class ProjectObjective<
 					repositoryUrl: githubOptions.repositoryHtmlUrl,
 					cloneUrl: githubOptions.cloneUrl,
 					commitSha: result.commitSha,
+					branch: result.branch,
+					pullRequestUrl: result.pullRequestUrl,
 				},
 			};
 		} catch (error) {
@@ -255,6 +310,11 @@ export class ProjectObjective<
 			agentId: this.getAgentId(),
 			state: this.state,
 			broadcast: this.broadcast.bind(this),
+			fileManager: this.fileManager,
+			getPreviewUrl: async () => {
+				const preview = await this.infrastructure.deployToSandbox();
+				return preview?.previewURL ?? null;
+			},
 		};
 	}
 
@@ -1,6 +1,7 @@
 import type { ProjectType } from '../../types';
 import type { AdditionalExportStrategy } from './types';
 import { PresentationExportStrategy } from './presentation';
+import { WorkflowExportStrategy } from './workflow';
 
 export function getAdditionalExportStrategy(
 	projectType: ProjectType,
@@ -8,6 +9,8 @@ export function getAdditionalExportStrategy(
 	switch (projectType) {
 		case 'presentation':
 			return new PresentationExportStrategy();
+		case 'workflow':
+			return new WorkflowExportStrategy();
 		default:
 			return null;
 	}
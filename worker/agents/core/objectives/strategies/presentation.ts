@@ -1,7 +1,20 @@
 import type { ExportOptions, ExportResult } from '../../types';
 import type { AdditionalExportStrategy, ExportContext } from './types';
+import { WebSocketMessageResponses } from '../../../constants';
+import {
+	buildPptx,
+	PPTX_MIME_TYPE,
+	renderPdf,
+	renderScreenshot,
+	storeExportArtifact,
+	uploadPptxToGoogleSlides,
+} from '../../../../services/export';
 
 const SUPPORTED_KINDS = ['pdf', 'pptx', 'googleslides'] as const;
+type PresentationExportKind = (typeof SUPPORTED_KINDS)[number];
+
+const DEFAULT_SLIDE_DIRECTORY = '/public/slides';
+const MAX_EXPORTED_SLIDES = 100;
 
 export class PresentationExportStrategy implements AdditionalExportStrategy {
 	getSupportedKinds(): ExportOptions['kind'][] {
@@ -9,10 +22,165 @@ export class PresentationExportStrategy implements AdditionalExportStrategy {
 	}
 
 	async export(options: ExportOptions, ctx: ExportContext): Promise<ExportResult> {
-		ctx.logger.info('Presentation export requested', { kind: options.kind });
-		return {
-			success: false,
-			error: `${options.kind} export not yet implemented`,
-		};
+		const kind = options.kind as PresentationExportKind;
+		ctx.logger.info('Presentation export requested', { kind });
+
+		if (kind === 'googleslides' && !options.token) {
+			return { success: false, error: 'Google Slides export requires a Google access token' };
+		}
+
+		try {
+			ctx.broadcast(WebSocketMessageResponses.EXPORT_STARTED, {
+				message: `Starting ${kind.toUpperCase()} export`,
+				kind,
+			});
+
+			this.progress(ctx, kind, 'preparing', 'Preparing presentation preview...', 10);
+			const previewUrl = await ctx.getPreviewUrl();
+			if (!previewUrl) {
+				throw new Error('Presentation preview is not available');
+			}
+
+			const baseName = this.getBaseName(ctx);
+			const result = kind === 'pdf'
+				? await this.exportPdf(ctx, previewUrl, baseName)
+				: await this.exportPptx(ctx, previewUrl, baseName, kind, options.token);
+
+			ctx.broadcast(WebSocketMessageResponses.EXPORT_COMPLETED, {
+				message: `${kind.toUpperCase()} export ready`,
+				kind,
+				url: result.url,
+				fileName: result.fileName,
+			});
+
+			ctx.logger.info('Presentation export completed', { kind, url: result.url });
+
+			return {
+				success: true,
+				url: result.url,
+				metadata: { fileName: result.fileName, ...result.metadata },
+			};
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			ctx.logger.error('Presentation export failed', error);
+			ctx.broadcast(WebSocketMessageResponses.EXPORT_ERROR, {
+				message: `${kind.toUpperCase()} export failed: ${message}`,
+				kind,
+				error: message,
+			});
+			return { success: false, error: message };
+		}
+	}
+
+	private async exportPdf(
+		ctx: ExportContext,
+		previewUrl: string,
+		baseName: string,
+	): Promise<{ url: string; fileName: string; metadata: Record<string, unknown> }> {
+		this.progress(ctx, 'pdf', 'rendering', 'Rendering slides to PDF...', 30);
+		// Reveal.js lays every slide out as a printable page when ?print-pdf is present
+		const pdf = await renderPdf(ctx.env, this.withQuery(previewUrl, 'print-pdf'));
+
+		this.progress(ctx, 'pdf', 'uploading', 'Saving PDF...', 85);
+		const fileName = `${baseName}.pdf`;
+		const stored = await storeExportArtifact(ctx.env, ctx.agentId, fileName, pdf, 'application/pdf');
+
+		return { url: stored.url, fileName, metadata: { size: stored.size } };
+	}
+
+	private async exportPptx(
+		ctx: ExportContext,
+		previewUrl: string,
+		baseName: string,
+		kind: 'pptx' | 'googleslides',
+		token?: string,
+	): Promise<{ url: string; fileName: string; metadata: Record<string, unknown> }> {
+		const slideCount = this.getSlideCount(ctx);
+		if (slideCount === 0) {
+			throw new Error('Presentation has no slides to export');
+		}
+
+		const images: Uint8Array[] = [];
+		for (let i = 0; i < slideCount; i++) {
+			this.progress(
+				ctx,
+				kind,
+				'rendering',
+				`Rendering slide ${i + 1} of ${slideCount}...`,
+				20 + Math.round((i / slideCount) * 55),
+			);
+			images.push(await renderScreenshot(ctx.env, `${previewUrl.replace(/#.*$/, '')}#/${i}`));
+		}
+
+		this.progress(ctx, kind, 'packaging', 'Building PowerPoint file...', 80);
+		const pptx = buildPptx(images, { title: baseName });
+
+		const fileName = `${baseName}.pptx`;
+		this.progress(ctx, kind, 'uploading', 'Saving presentation...', 90);
+		const stored = await storeExportArtifact(ctx.env, ctx.agentId, fileName, pptx, PPTX_MIME_TYPE);
+
+		if (kind === 'googleslides') {
+			this.progress(ctx, kind, 'uploading', 'Uploading to Google Slides...', 95);
+			const slides = await uploadPptxToGoogleSlides(token!, baseName, pptx);
+			return {
+				url: slides.url,
+				fileName,
+				metadata: { slideCount, googleFileId: slides.id, downloadUrl: stored.url },
+			};
+		}
+
+		return { url: stored.url, fileName, metadata: { slideCount, size: stored.size } };
+	}
+
+	/**
+	 * Slide count comes from the manifest maintained by the coding behavior
+	 */
+	private getSlideCount(ctx: ExportContext): number {
+		const slideDirectory = ctx.fileManager.getTemplateDetails()?.slideDirectory ?? DEFAULT_SLIDE_DIRECTORY;
+		const manifest = ctx.fileManager.getFile(`${slideDirectory}/manifest.json`);
+
+		let count = 0;
+		if (manifest) {
+			try {
+				const parsed = JSON.parse(manifest.fileContents) as { slides?: unknown };
+				count = Array.isArray(parsed.slides) ? parsed.slides.length : 0;
+			} catch (error) {
+				ctx.logger.warn('Failed to parse slide manifest, falling back to slide files', { error });
+			}
+		}
+
+		if (count === 0) {
+			count = ctx.fileManager
+				.getAllFiles()
+				.filter((file) =>
+					file.filePath.startsWith(`${slideDirectory}/`)
+					&& file.filePath.endsWith('.json')
+					&& !file.filePath.endsWith('/manifest.json'),
+				).length;
+		}
+
+		return Math.min(count, MAX_EXPORTED_SLIDES);
+	}
+
+	private getBaseName(ctx: ExportContext): string {
+		const name = ctx.state.projectName || 'presentation';
+		const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+		return `${slug || 'presentation'}-${Date.now()}`;
+	}
+
+	private withQuery(url: string, param: string): string {
+		const [base, hash] = url.split('#');
+		const separator = base.includes('?') ? '&' : '?';
+		return `${base}${separator}${param}${hash !== undefined ? `#${hash}` : ''}`;
+	}
+
+	private progress(
+		ctx: ExportContext,
+		kind: PresentationExportKind,
+		step: 'preparing' | 'rendering' | 'packaging' | 'uploading',
+		message: string,
+		progress: number,
+	): void {
+		ctx.broadcast(WebSocketMessageResponses.EXPORT_PROGRESS, { message, kind, step, progress });
 	}
 }
@@ -2,6 +2,7 @@ import type { ExportOptions, ExportResult } from '../../types';
 import type { BaseProjectState } from '../../state';
 import type { StructuredLogger } from 'worker/logger';
 import type { WebSocketMessageType, WebSocketMessageData } from 'worker/api/websocketTypes';
+import type { FileManager } from '../../../services/implementations/FileManager';
 
 export interface ExportContext {
 	env: Env;
@@ -9,6 +10,9 @@ export interface ExportContext {
 	agentId: string;
 	state: BaseProjectState;
 	broadcast: <T extends WebSocketMessageType>(type: T, data?: WebSocketMessageData<T>) => void;
+	fileManager: FileManager;
+	/** Ensures a preview is running and returns its URL, or null if the project cannot be previewed */
+	getPreviewUrl: () => Promise<string | null>;
 }
 
 export interface AdditionalExportStrategy {
@@ -0,0 +1,100 @@
+import { strToU8, zipSync } from 'fflate';
+import type { ExportOptions, ExportResult } from '../../types';
+import type { AdditionalExportStrategy, ExportContext } from './types';
+import { WebSocketMessageResponses } from '../../../constants';
+import { WorkflowGraphSchema, type WorkflowGraphType } from '../../../schemas';
+import { WorkflowGraph, WORKFLOW_GRAPH_FILE } from '../../../domain/pure/WorkflowGraph';
+import { storeExportArtifact } from '../../../../services/export';
+
+const MANIFEST_FILE = 'workflow.manifest.json';
+
+/**
+ * Packages the rendered Worker project and its workflow metadata as a deployable zip
+ */
+export class WorkflowExportStrategy implements AdditionalExportStrategy {
+	getSupportedKinds(): ExportOptions['kind'][] {
+		return ['workflow'];
+	}
+
+	async export(_options: ExportOptions, ctx: ExportContext): Promise<ExportResult> {
+		ctx.logger.info('Workflow export requested');
+
+		try {
+			ctx.broadcast(WebSocketMessageResponses.EXPORT_STARTED, {
+				message: 'Starting workflow export',
+				kind: 'workflow',
+			});
+
+			ctx.broadcast(WebSocketMessageResponses.EXPORT_PROGRESS, {
+				message: 'Reading workflow graph...',
+				kind: 'workflow',
+				step: 'preparing',
+				progress: 20,
+			});
+			const graph = this.getGraph(ctx);
+			const errors = WorkflowGraph.validate(graph);
+			if (errors.length > 0) {
+				throw new Error(`Workflow graph is invalid: ${errors.join('; ')}`);
+			}
+
+			ctx.broadcast(WebSocketMessageResponses.EXPORT_PROGRESS, {
+				message: 'Packaging workflow project...',
+				kind: 'workflow',
+				step: 'packaging',
+				progress: 60,
+			});
+			const entries: Record<string, Uint8Array> = {};
+			for (const file of ctx.fileManager.getAllFiles()) {
+				entries[file.filePath.replace(/^\/+/, '')] = strToU8(file.fileContents);
+			}
+			entries[MANIFEST_FILE] = strToU8(JSON.stringify(WorkflowGraph.toMetadata(graph), null, 2));
+			const archive = zipSync(entries);
+
+			ctx.broadcast(WebSocketMessageResponses.EXPORT_PROGRESS, {
+				message: 'Saving archive...',
+				kind: 'workflow',
+				step: 'uploading',
+				progress: 85,
+			});
+			const fileName = `${this.getBaseName(ctx)}.zip`;
+			const stored = await storeExportArtifact(ctx.env, ctx.agentId, fileName, archive, 'application/zip');
+
+			ctx.broadcast(WebSocketMessageResponses.EXPORT_COMPLETED, {
+				message: 'Workflow export ready',
+				kind: 'workflow',
+				url: stored.url,
+				fileName,
+			});
+			ctx.logger.info('Workflow export completed', { url: stored.url, size: stored.size });
+
+			return {
+				success: true,
+				url: stored.url,
+				metadata: { fileName, size: stored.size, steps: graph.steps.length },
+			};
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			ctx.logger.error('Workflow export failed', error);
+			ctx.broadcast(WebSocketMessageResponses.EXPORT_ERROR, {
+				message: `Workflow export failed: ${message}`,
+				kind: 'workflow',
+				error: message,
+			});
+			return { success: false, error: message };
+		}
+	}
+
+	private getGraph(ctx: ExportContext): WorkflowGraphType {
+		const file = ctx.fileManager.getFile(WORKFLOW_GRAPH_FILE);
+		if (!file) {
+			throw new Error(`Missing ${WORKFLOW_GRAPH_FILE} - generate the workflow first`);
+		}
+		return WorkflowGraphSchema.parse(JSON.parse(file.fileContents));
+	}
+
+	private getBaseName(ctx: ExportContext): string {
+		const name = ctx.state.projectName || 'workflow';
+		const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+		return `${slug || 'workflow'}-${Date.now()}`;
+	}
+}
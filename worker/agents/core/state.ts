@@ -1,9 +1,11 @@
 import type { PhasicBlueprint, AgenticBlueprint, PhaseConceptType ,
     FileOutputType,
     Blueprint,
+    ScreenshotAnalysisType,
 } from '../schemas';
 import type { InferenceMetadata } from '../inferutils/config.types';
 import { BehaviorType, Plan, ProjectType } from './types';
+import type { CommandPolicy } from '../../services/sandbox/commandPolicy';
 
 export interface FileState extends FileOutputType {
     lastDiff: string;
@@ -14,9 +16,23 @@ export interface FileServingToken {
     createdAt: number;
 }
 
+/** Preview screenshot taken at a phase's commit, compared with the previous phase and the blueprint */
+export interface PhaseVisualCheck {
+    commitOid: string;
+    screenshotUrl: string;
+    screenshotR2Key: string;
+    capturedAt: number;
+    diffRatio: number | null;   // Share of pixels changed since the previous phase, null for the first check
+    analysis: ScreenshotAnalysisType | null;
+    regressions: string[];      // Fed to the next phase as issues
+}
+
 export interface PhaseState extends PhaseConceptType {
     // deploymentNeeded: boolean;
     completed: boolean;
+    /** HEAD once the phase was completed, where a branch from this phase starts */
+    commitOid?: string;
+    visualCheck?: PhaseVisualCheck;
 }
 
 export enum CurrentDevState {
@@ -57,6 +73,8 @@ export interface BaseProjectState {
     sandboxInstanceId?: string;
     fileServingToken?: FileServingToken;
     commandsHistory?: string[];
+    /** Instance command policy for the terminal, applied on top of the platform policy */
+    terminalPolicy?: CommandPolicy;
     lastPackageJson?: string;
     pendingUserInputs: string[];
     projectUpdatesAccumulator: string[];
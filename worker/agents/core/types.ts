@@ -59,6 +59,7 @@ export type Plan = string;
 export interface AllIssues {
     runtimeErrors: RuntimeError[];
     staticAnalysis: StaticAnalysisResponse;
+    visualRegressions?: string[];
 }
 
 /**
@@ -111,7 +112,9 @@ export interface DeployResult {
 
 export interface DeployOptions {
     target?: DeploymentTarget;
+    /** Cloudflare API token for the 'user' target; falls back to the user's vault */
     token?: string;
+    accountId?: string;
     metadata?: Record<string, unknown>;
 }
 
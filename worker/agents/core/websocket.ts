@@ -5,9 +5,80 @@ import { WebSocketMessage, WebSocketMessageData, WebSocketMessageType } from '..
 import { MAX_IMAGES_PER_MESSAGE, MAX_IMAGE_SIZE_BYTES } from '../../types/image-attachment';
 import { credentialsToRuntimeOverrides, type CredentialsPayload } from '../inferutils/config.types';
 import type { CodeGeneratorAgent } from './codingAgent';
+import type { ExportOptions } from './types';
+import type { ApiKeyScope, ApiKeyScopeGrant } from '../../types/auth-types';
+import { API_KEY_SCOPES_HEADER, hasApiKeyScope, parseApiKeyScopes } from '../../utils/apiKeyScopes';
+import { parseCommandPolicy } from '../../services/sandbox/commandPolicy';
+import {
+    SESSION_IDENTITY_HEADER,
+    FileConflictError,
+    buildPresence,
+    canSendRequest,
+    parseSessionIdentity,
+    type SessionIdentity
+} from './collaboration';
 
 const logger = createLogger('CodeGeneratorWebSocket');
 
+const MAX_ACTIVE_FILE_PATH_LENGTH = 1024;
+
+interface ConnectionAuthState {
+    apiKeyScopes?: ApiKeyScopeGrant[];
+    identity: SessionIdentity;
+    /** File this connection has open in the editor, shown in presence */
+    activeFile?: string;
+}
+
+/**
+ * Requests a scoped API key may send without the builds:create scope
+ */
+const READ_ONLY_REQUESTS: ReadonlySet<string> = new Set([
+    WebSocketMessageRequests.SESSION_INIT,
+    WebSocketMessageRequests.GET_CONVERSATION_STATE,
+    WebSocketMessageRequests.GET_MODEL_CONFIGS,
+    WebSocketMessageRequests.GIT_LIST_BRANCHES,
+]);
+
+function getRequiredApiKeyScope(type: string): ApiKeyScope | null {
+    if (type === WebSocketMessageRequests.DEPLOY) {
+        return 'deploy';
+    }
+    return READ_ONLY_REQUESTS.has(type) ? null : 'builds:create';
+}
+
+/**
+ * Remember the API key grants and session identity the worker forwarded with the upgrade request.
+ * Connections without an identity are treated as the owner's.
+ */
+export function initConnectionAuth(connection: Connection, request: Request, ownerUserId: string): ConnectionAuthState {
+    const header = request.headers.get(API_KEY_SCOPES_HEADER);
+    const identity = parseSessionIdentity(request.headers.get(SESSION_IDENTITY_HEADER))
+        ?? { userId: ownerUserId, displayName: 'Owner', role: 'owner' };
+    const state: ConnectionAuthState = {
+        apiKeyScopes: header === null ? undefined : parseApiKeyScopes(header),
+        identity,
+    };
+    connection.setState(state);
+    return state;
+}
+
+function getConnectionState(connection: Connection): ConnectionAuthState | null {
+    return connection.state as ConnectionAuthState | null;
+}
+
+export function getConnectionIdentity(connection: Connection): SessionIdentity | null {
+    return getConnectionState(connection)?.identity ?? null;
+}
+
+/**
+ * Send the list of connected users to every connection
+ */
+export function broadcastPresence(agent: CodeGeneratorAgent, excludeConnectionId?: string): void {
+    agent.broadcast(WebSocketMessageResponses.PRESENCE, {
+        users: buildPresence(agent.getConnections(), excludeConnectionId)
+    });
+}
+
 export function handleWebSocketMessage(
     agent: CodeGeneratorAgent, 
     connection: Connection, 
@@ -17,8 +88,26 @@ export function handleWebSocketMessage(
         logger.info(`Received WebSocket message from ${connection.id}: ${message}`);
         const parsedMessage = JSON.parse(message);
 
+        const connectionState = getConnectionState(connection);
+        const apiKeyScopes = connectionState?.apiKeyScopes;
+        const requiredScope = getRequiredApiKeyScope(parsedMessage.type);
+        if (apiKeyScopes && requiredScope && !hasApiKeyScope(apiKeyScopes, requiredScope, agent.getAgentId())) {
+            sendError(connection, `This API key is missing the ${requiredScope} scope`);
+            return;
+        }
+
+        const identity = connectionState?.identity;
+        if (identity && !canSendRequest(identity.role, parsedMessage.type)) {
+            sendError(connection, `Your ${identity.role} role does not allow ${parsedMessage.type}`);
+            return;
+        }
+
         switch (parsedMessage.type) {
             case WebSocketMessageRequests.SESSION_INIT: {
+                // Runtime credentials apply to the whole session, only the owner may set them
+                if (identity && identity.role !== 'owner') {
+                    break;
+                }
                 const credentials = parsedMessage.credentials as CredentialsPayload | undefined;
                 agent.getBehavior().setRuntimeOverrides(credentialsToRuntimeOverrides(credentials));
                 break;
@@ -56,7 +145,11 @@ export function handleWebSocketMessage(
                 });
                 break;
             case WebSocketMessageRequests.DEPLOY:
-                agent.deployProject().then((deploymentResult) => {
+                agent.deployProject({
+                    target: parsedMessage.target === 'user' ? 'user' : 'platform',
+                    token: typeof parsedMessage.token === 'string' ? parsedMessage.token : undefined,
+                    accountId: typeof parsedMessage.accountId === 'string' ? parsedMessage.accountId : undefined,
+                }).then((deploymentResult) => {
                     if (!deploymentResult.success) {
                         logger.error('Deployment failed', deploymentResult);
                         return;
@@ -135,6 +228,43 @@ export function handleWebSocketMessage(
                     error: 'Please use the GitHub export button which will redirect you to authorize with GitHub OAuth'
                 });
                 break;
+            case WebSocketMessageRequests.EXPORT_PROJECT: {
+                const kind = parsedMessage.kind as ExportOptions['kind'] | undefined;
+                if (!kind || kind === 'github') {
+                    // GitHub export goes through the OAuth flow, not the websocket
+                    sendToConnection(connection, WebSocketMessageResponses.EXPORT_ERROR, {
+                        message: 'Invalid export request',
+                        kind: kind ?? 'pdf',
+                        error: kind === 'github' ? 'Use the GitHub export button for GitHub exports' : 'Missing export kind',
+                    });
+                    break;
+                }
+                agent.exportProject({
+                    kind,
+                    token: typeof parsedMessage.token === 'string' ? parsedMessage.token : undefined,
+                }).then((exportResult) => {
+                    if (!exportResult.success) {
+                        logger.error('Export failed', exportResult);
+                        return;
+                    }
+                    logger.info('Export completed', exportResult);
+                }).catch((error: unknown) => {
+                    logger.error('Error during export:', error);
+                });
+                break;
+            }
+            case WebSocketMessageRequests.WORKFLOW_DRY_RUN: {
+                const params = parsedMessage.params;
+                if (params !== undefined && (typeof params !== 'object' || params === null || Array.isArray(params))) {
+                    sendError(connection, 'Workflow params must be a JSON object');
+                    break;
+                }
+                agent.runWorkflowDryRun(params as Record<string, unknown> | undefined).catch((error: unknown) => {
+                    logger.error('Error during workflow dry run:', error);
+                    sendError(connection, error instanceof Error ? error.message : 'Workflow dry run failed');
+                });
+                break;
+            }
             case WebSocketMessageRequests.USER_SUGGESTION:
                 // Handle user suggestion for conversational AI
                 logger.info('Received user suggestion', {
@@ -205,30 +335,45 @@ export function handleWebSocketMessage(
                     sendError(connection, `Error fetching conversation state: ${error instanceof Error ? error.message : String(error)}`);
                 }
                 break;
-            // Disabled it for now
-            // case WebSocketMessageRequests.TERMINAL_COMMAND:
-            //     // Handle terminal command execution
-            //     logger.info('Received terminal command', {
-            //         command: parsedMessage.command,
-            //         timestamp: parsedMessage.timestamp
-            //     });
-                
-            //     if (!parsedMessage.command) {
-            //         sendError(connection, 'No command provided');
-            //         return;
-            //     }
-                
-            //     // Execute terminal command  
-            //     agent.executeTerminalCommand(parsedMessage.command, connection as any)
-            //         .catch((error: unknown) => {
-            //             logger.error('Error executing terminal command:', error);
-            //             sendToConnection(connection, WebSocketMessageResponses.TERMINAL_OUTPUT, {
-            //                 output: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            //                 outputType: 'stderr' as const,
-            //                 timestamp: Date.now()
-            //             });
-            //         });
-            //     break;
+            case WebSocketMessageRequests.TERMINAL_COMMAND:
+                if (typeof parsedMessage.command !== 'string' || !parsedMessage.command.trim()) {
+                    sendError(connection, 'No command provided');
+                    return;
+                }
+                logger.info('Received terminal command', { command: parsedMessage.command });
+                agent.getBehavior().runTerminalCommand(parsedMessage.command.trim()).catch((error: unknown) => {
+                    logger.error('Error executing terminal command:', error);
+                    sendToConnection(connection, WebSocketMessageResponses.TERMINAL_OUTPUT, {
+                        output: `Error: ${error instanceof Error ? error.message : String(error)}`,
+                        outputType: 'stderr',
+                        timestamp: Date.now(),
+                        commandStatus: 'failed'
+                    });
+                });
+                break;
+            case WebSocketMessageRequests.TERMINAL_CANCEL:
+                if (!agent.getBehavior().cancelTerminalCommand()) {
+                    sendToConnection(connection, WebSocketMessageResponses.TERMINAL_OUTPUT, {
+                        output: 'No command is running',
+                        outputType: 'info',
+                        timestamp: Date.now()
+                    });
+                }
+                break;
+            case WebSocketMessageRequests.TERMINAL_POLICY_UPDATE: {
+                const parsed = parseCommandPolicy(parsedMessage.policy);
+                if ('error' in parsed) {
+                    sendError(connection, parsed.error);
+                    break;
+                }
+                agent.getBehavior().updateTerminalPolicy(parsed.policy);
+                sendToConnection(connection, WebSocketMessageResponses.TERMINAL_OUTPUT, {
+                    output: `Terminal policy updated (${parsed.policy.allow.length} allow, ${parsed.policy.deny.length} deny patterns)`,
+                    outputType: 'info',
+                    timestamp: Date.now()
+                });
+                break;
+            }
             case WebSocketMessageRequests.UPDATE_FILE:
                 logger.info('Received file update request', {
                     filePath: parsedMessage.data?.filePath,
@@ -243,14 +388,28 @@ export function handleWebSocketMessage(
                 agent.updateFile(
                     parsedMessage.data.filePath,
                     parsedMessage.data.content,
-                    connection.userId || 'anonymous'
+                    identity?.userId,
+                    typeof parsedMessage.data.baseHash === 'string' ? parsedMessage.data.baseHash : undefined
                 ).then((result) => {
                     sendToConnection(connection, WebSocketMessageResponses.FILE_UPDATED, {
                         message: 'File updated successfully',
                         filePath: parsedMessage.data.filePath,
-                        commitHash: result.commitHash
+                        commitHash: result.commitHash,
+                        contentHash: result.contentHash
                     });
                 }).catch((error: unknown) => {
+                    if (error instanceof FileConflictError) {
+                        sendToConnection(connection, WebSocketMessageResponses.FILE_UPDATE_ERROR, {
+                            message: 'File changed while you were editing',
+                            filePath: parsedMessage.data.filePath,
+                            error: error.message,
+                            conflict: {
+                                currentContent: error.currentContent,
+                                currentHash: error.currentHash
+                            }
+                        });
+                        return;
+                    }
                     logger.error('Error updating file:', error);
                     sendToConnection(connection, WebSocketMessageResponses.FILE_UPDATE_ERROR, {
                         message: 'Failed to update file',
@@ -259,6 +418,46 @@ export function handleWebSocketMessage(
                     });
                 });
                 break;
+            case WebSocketMessageRequests.PRESENCE_UPDATE: {
+                const activeFile = parsedMessage.data?.activeFile;
+                if (activeFile !== undefined && activeFile !== null
+                    && (typeof activeFile !== 'string' || activeFile.length > MAX_ACTIVE_FILE_PATH_LENGTH)) {
+                    sendError(connection, 'Invalid presence update: activeFile must be a file path');
+                    return;
+                }
+                if (connectionState) {
+                    connection.setState({ ...connectionState, activeFile: activeFile || undefined });
+                }
+                broadcastPresence(agent);
+                break;
+            }
+            case WebSocketMessageRequests.GIT_LIST_BRANCHES:
+                agent.getGitBranches().then((result) => {
+                    sendToConnection(connection, WebSocketMessageResponses.GIT_BRANCHES, result);
+                }).catch((error: unknown) => {
+                    logger.error('Error listing git branches:', error);
+                    sendToConnection(connection, WebSocketMessageResponses.GIT_BRANCH_ERROR, {
+                        message: 'Failed to list branches',
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                });
+                break;
+            case WebSocketMessageRequests.GIT_SWITCH_BRANCH: {
+                const branch = parsedMessage.data?.branch;
+                if (typeof branch !== 'string' || !branch) {
+                    sendError(connection, 'Invalid branch switch request: missing branch');
+                    return;
+                }
+
+                agent.switchGitBranch(branch).catch((error: unknown) => {
+                    logger.error('Error switching git branch:', error);
+                    sendToConnection(connection, WebSocketMessageResponses.GIT_BRANCH_ERROR, {
+                        message: `Failed to switch to ${branch}`,
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                });
+                break;
+            }
             default:
                 sendError(connection, `Unknown message type: ${parsedMessage.type}`);
         }
@@ -270,8 +469,12 @@ export function handleWebSocketMessage(
 
 export function handleWebSocketClose(agent: CodeGeneratorAgent, connection: Connection): void {
     logger.info(`WebSocket connection closed: ${connection.id}`);
-    // Clear vault session on disconnect for security
-    agent.handleVaultLocked();
+    // Clear vault session when the owner disconnects, collaborators never hold it
+    const identity = getConnectionState(connection)?.identity;
+    if (!identity || identity.role === 'owner') {
+        agent.handleVaultLocked();
+    }
+    broadcastPresence(agent, connection.id);
 }
 
 export function broadcastToConnections<T extends WebSocketMessageType>(
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { FileProcessing } from './FileProcessing';
+
+const original = `export function total(items: number[]) {
+	return items.reduce((sum, item) => sum + item, 0);
+}
+
+export const label = 'Total';
+`;
+
+const edit = (blocks: string) => ({
+	filePath: 'src/total.ts',
+	filePurpose: '',
+	format: 'search_replace' as const,
+	fileContents: blocks,
+});
+
+describe('FileProcessing.applySearchReplaceEdits', () => {
+	it('applies blocks with the fuzzy matching fallbacks', () => {
+		const result = FileProcessing.applySearchReplaceEdits(edit(`<<<<<<< SEARCH
+    return items.reduce((sum, item) => sum + item, 0);
+=======
+	return items.reduce((sum, item) => sum + item * 2, 0);
+>>>>>>> REPLACE`), original);
+
+		expect(result.results.blocksFailed).toBe(0);
+		expect(result.content).toContain('sum + item * 2');
+	});
+
+	it('keeps applied blocks and reports the ones that match nowhere', () => {
+		const result = FileProcessing.applySearchReplaceEdits(edit(`<<<<<<< SEARCH
+export const label = 'Total';
+=======
+export const label = 'Sum';
+>>>>>>> REPLACE
+<<<<<<< SEARCH
+import { useChartTheme } from '@/hooks/use-chart-theme';
+=======
+import { useTheme } from '@/hooks/use-theme';
+>>>>>>> REPLACE`), original);
+
+		expect(result.content).toContain(`export const label = 'Sum';`);
+		expect(result.results.blocksApplied).toBe(1);
+		expect(result.results.failedBlocks.map((block) => block.search)).toEqual([`import { useChartTheme } from '@/hooks/use-chart-theme';`]);
+	});
+
+	it('is what processGeneratedFileContents uses for search/replace output', () => {
+		const contents = FileProcessing.processGeneratedFileContents(edit(`<<<<<<< SEARCH
+export const label = 'Total';
+=======
+export const label = 'Sum';
+>>>>>>> REPLACE`), original);
+
+		expect(contents).toBe(original.replace(`'Total'`, `'Sum'`));
+	});
+});
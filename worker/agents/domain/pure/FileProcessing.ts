@@ -1,10 +1,13 @@
 import { FileGenerationOutputType, FileOutputType, PhaseConceptType } from '../../schemas';
 import type { StructuredLogger } from '../../../logger';
 import { TemplateDetails } from '../../../services/sandbox/sandboxTypes';
-import { applyUnifiedDiff } from '../../output-formats/diff-formats';
+import { ApplyResult, applySearchReplaceDiff, applyUnifiedDiff, MatchingStrategy } from '../../output-formats/diff-formats';
 import { FileState } from 'worker/agents/core/state';
 import { getTemplateFiles, getTemplateImportantFiles } from 'worker/services/sandbox/utils';
 
+// Similarity needed for a fuzzy SEARCH match once exact and whitespace-tolerant matching fail
+const SEARCH_REPLACE_FUZZY_THRESHOLD = 0.87;
+
 /**
  * File processing utilities
  * Handles content cleaning, diff application, and file metadata
@@ -40,7 +43,7 @@ export class FileProcessing {
     ): string {
         const cleanedContents = FileProcessing.cleanFileContents(generatedFile.fileContents);
         
-        // File contents can either be raw or in unified diff format
+        // File contents can either be raw, a unified diff or search/replace blocks
         if (generatedFile.format === 'unified_diff') {
             logger?.info(`Applying unified diff to file: ${generatedFile.filePath}`);
             
@@ -60,10 +63,36 @@ export class FileProcessing {
             }
         }
         
+        if (generatedFile.format === 'search_replace') {
+            return FileProcessing.applySearchReplaceEdits(generatedFile, originalContents, logger).content;
+        }
+        
         logger?.info(`Setting file contents to cleaned contents ${generatedFile.filePath}`);
         return cleanedContents;
     }
 
+    /**
+     * Apply generated search/replace blocks to the original file
+     * Blocks that match nowhere are left out and reported in the result so they can be retried
+     */
+    static applySearchReplaceEdits(
+        generatedFile: FileGenerationOutputType,
+        originalContents: string,
+        logger?: Pick<StructuredLogger, 'info' | 'warn' | 'error'>
+    ): ApplyResult {
+        logger?.info(`Applying search/replace blocks to file: ${generatedFile.filePath}`);
+
+        const result = applySearchReplaceDiff(originalContents, FileProcessing.cleanFileContents(generatedFile.fileContents), {
+            strict: false,
+            matchingStrategies: [MatchingStrategy.EXACT, MatchingStrategy.WHITESPACE_INSENSITIVE, MatchingStrategy.INDENTATION_PRESERVING, MatchingStrategy.FUZZY],
+            fuzzyThreshold: SEARCH_REPLACE_FUZZY_THRESHOLD
+        });
+        if (result.results.blocksFailed > 0) {
+            logger?.warn(`${result.results.blocksFailed}/${result.results.blocksTotal} search/replace blocks failed for ${generatedFile.filePath}`, result.results.errors);
+        }
+        return result;
+    }
+
     /**
      * Find file purpose from phase or generated files
      */
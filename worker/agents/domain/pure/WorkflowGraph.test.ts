@@ -0,0 +1,147 @@
+import type { WorkflowGraphType, WorkflowStepType } from '../../schemas';
+import { WorkflowGraph, WORKFLOW_GRAPH_FILE } from './WorkflowGraph';
+
+function makeStep(partial: Partial<WorkflowStepType> & Pick<WorkflowStepType, 'id'>): WorkflowStepType {
+	return {
+		name: partial.id,
+		type: 'do',
+		description: `Run ${partial.id}`,
+		dependsOn: [],
+		code: 'return { ok: true };',
+		duration: null,
+		eventType: null,
+		retries: null,
+		timeout: null,
+		sampleOutput: null,
+		...partial,
+	};
+}
+
+function makeGraph(steps: WorkflowStepType[]): WorkflowGraphType {
+	return {
+		name: 'Invoice reminders',
+		className: 'InvoiceReminderWorkflow',
+		description: 'Reminds customers about unpaid invoices',
+		params: [
+			{ name: 'customerId', type: 'string', description: 'Customer to remind', required: true, example: '"cus_123"' },
+			{ name: 'dryRun', type: 'boolean', description: 'Skip sending', required: false, example: null },
+		],
+		steps,
+	};
+}
+
+describe('WorkflowGraph.validate', () => {
+	it('accepts a well-formed graph', () => {
+		const graph = makeGraph([
+			makeStep({ id: 'fetch-invoices' }),
+			makeStep({ id: 'wait', type: 'sleep', code: null, duration: '1 day', dependsOn: ['fetch-invoices'] }),
+		]);
+
+		expect(WorkflowGraph.validate(graph)).toEqual([]);
+	});
+
+	it('reports duplicate ids, unknown dependencies and missing step fields', () => {
+		const graph = makeGraph([
+			makeStep({ id: 'a' }),
+			makeStep({ id: 'a', name: 'a-again', dependsOn: ['missing'] }),
+			makeStep({ id: 'nap', type: 'sleep', code: null }),
+			makeStep({ id: 'approval', type: 'waitForEvent', code: null, duration: '1 hour' }),
+		]);
+
+		const errors = WorkflowGraph.validate(graph);
+		expect(errors).toContain('Duplicate step id "a"');
+		expect(errors).toContain('Step "a" depends on unknown step "missing"');
+		expect(errors).toContain('Step "nap" requires a duration');
+		expect(errors).toContain('Step "approval" requires an event type');
+	});
+
+	it('rejects step ids and param names that would not compile', () => {
+		const graph = makeGraph([
+			makeStep({ id: 'fetch-data' }),
+			makeStep({ id: 'fetch_data' }),
+			makeStep({ id: 'delete' }),
+			makeStep({ id: 'step', type: 'waitForEvent', code: null, duration: '1 hour', eventType: 'approved' }),
+			makeStep({ id: 'class', type: 'sleep', code: null, duration: '1 hour' }),
+		]);
+		graph.params.push({ name: 'customer-id', type: 'string', description: 'Bad name', required: false, example: null });
+
+		expect(WorkflowGraph.validate(graph)).toEqual([
+			'Param name "customer-id" must be an identifier',
+			'Step ids "fetch-data" and "fetch_data" both map to the variable "fetchData"',
+			'Step id "delete" maps to the reserved name "delete"',
+			'Step id "step" maps to the reserved name "step"',
+		]);
+	});
+
+	it('detects cycles', () => {
+		const graph = makeGraph([
+			makeStep({ id: 'a', dependsOn: ['b'] }),
+			makeStep({ id: 'b', dependsOn: ['a'] }),
+		]);
+
+		expect(WorkflowGraph.validate(graph)).toEqual(['Step dependencies contain a cycle']);
+	});
+});
+
+describe('WorkflowGraph.topologicalOrder', () => {
+	it('moves steps after their dependencies', () => {
+		const graph = makeGraph([
+			makeStep({ id: 'send', dependsOn: ['load'] }),
+			makeStep({ id: 'load' }),
+		]);
+
+		expect(WorkflowGraph.topologicalOrder(graph)?.map((step) => step.id)).toEqual(['load', 'send']);
+	});
+});
+
+describe('WorkflowGraph.renderProject', () => {
+	it('renders the entrypoint, wrangler binding and graph file', () => {
+		const graph = makeGraph([
+			makeStep({
+				id: 'fetch-invoices',
+				name: 'Fetch invoices',
+				retries: { limit: 3, delay: '10 seconds', backoff: 'exponential' },
+			}),
+			makeStep({ id: 'wait', type: 'sleep', code: null, duration: '1 day', dependsOn: ['fetch-invoices'] }),
+			makeStep({
+				id: 'approval',
+				type: 'waitForEvent',
+				code: null,
+				duration: '24 hours',
+				eventType: 'approved',
+			}),
+		]);
+
+		const files = WorkflowGraph.renderProject(graph, 'Invoice Reminders!');
+		const byPath = Object.fromEntries(files.map((file) => [file.filePath, file.fileContents]));
+
+		const entrypoint = byPath['src/index.ts'];
+		expect(entrypoint).toContain('export class InvoiceReminderWorkflow extends WorkflowEntrypoint<Env, Params>');
+		expect(entrypoint).toContain('const fetchInvoices = await step.do("Fetch invoices", { retries: { limit: 3, delay: "10 seconds", backoff: "exponential" } }, async () => {');
+		expect(entrypoint).toContain('await step.sleep("wait", "1 day");');
+		expect(entrypoint).toContain('const approval = await step.waitForEvent("approval", {');
+		expect(entrypoint).toContain('customerId: string;');
+		expect(entrypoint).toContain('dryRun?: boolean;');
+
+		const wrangler = JSON.parse(byPath['wrangler.jsonc']);
+		expect(wrangler.name).toBe('invoice-reminders');
+		expect(wrangler.workflows).toEqual([
+			{ name: 'invoice-reminders', binding: 'WORKFLOW', class_name: 'InvoiceReminderWorkflow' },
+		]);
+
+		expect(JSON.parse(byPath[WORKFLOW_GRAPH_FILE])).toEqual(graph);
+	});
+
+	it('keeps descriptions inside their comments', () => {
+		const graph = makeGraph([makeStep({ id: 'load', description: 'Load */ throw 1;\nfetch()' })]);
+		graph.description = 'Ends early */ export const injected = true; /*';
+		graph.params[0].description = 'Customer */ evil: string; /**';
+
+		const entrypoint = WorkflowGraph.renderProject(graph, 'Invoices')[0].fileContents;
+
+		expect(entrypoint).toContain(' * Ends early *\\/ export const injected = true; /*\n');
+		expect(entrypoint).toContain('/** Customer *\\/ evil: string; /** */');
+		expect(entrypoint).toContain('// Load *\\/ throw 1; fetch()\n');
+		expect(entrypoint).not.toContain('*/ export const injected');
+	});
+});
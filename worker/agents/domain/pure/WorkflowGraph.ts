@@ -0,0 +1,404 @@
+import type { FileOutputType, WorkflowGraphType, WorkflowStepType } from '../../schemas';
+import type { WorkflowMetadata } from '../../core/state';
+
+export const WORKFLOW_GRAPH_FILE = 'workflow.json';
+export const WORKFLOW_BINDING = 'WORKFLOW';
+
+// Names step variables can't take in the generated run(): reserved words and its own parameters
+const RESERVED_VARIABLES = new Set([
+    'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+    'delete', 'do', 'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally', 'for', 'function',
+    'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package',
+    'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true',
+    'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield',
+    'event', 'step',
+]);
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export type WorkflowStepLogStatus = 'running' | 'completed' | 'failed' | 'skipped' | 'sleeping' | 'waiting';
+
+export interface WorkflowStepLog {
+    stepId: string;
+    stepName: string;
+    stepType: WorkflowStepType['type'];
+    status: WorkflowStepLogStatus;
+    message: string;
+    output?: unknown;
+    timestamp: number;
+}
+
+export interface WorkflowDryRunResult {
+    status: 'completed' | 'failed';
+    logs: WorkflowStepLog[];
+    outputs: Record<string, unknown>;
+    error?: string;
+}
+
+/**
+ * Pure helpers for workflow step graphs
+ * Validation, ordering and project rendering - no side effects
+ */
+export class WorkflowGraph {
+    /**
+     * Validate a step graph, returning human readable problems (empty when valid)
+     */
+    static validate(graph: WorkflowGraphType): string[] {
+        const errors: string[] = [];
+
+        if (!/^[A-Z][A-Za-z0-9_]*$/.test(graph.className)) {
+            errors.push(`Class name "${graph.className}" must be a PascalCase identifier`);
+        }
+        if (graph.steps.length === 0) {
+            errors.push('Workflow must have at least one step');
+        }
+
+        const paramNames = new Set<string>();
+        for (const param of graph.params) {
+            if (!IDENTIFIER.test(param.name)) {
+                errors.push(`Param name "${param.name}" must be an identifier`);
+            }
+            if (paramNames.has(param.name)) {
+                errors.push(`Duplicate param name "${param.name}"`);
+            }
+            paramNames.add(param.name);
+        }
+
+        const ids = new Set<string>();
+        const names = new Set<string>();
+        const variables = new Map<string, string>();
+        for (const step of graph.steps) {
+            if (ids.has(step.id)) {
+                errors.push(`Duplicate step id "${step.id}"`);
+            }
+            ids.add(step.id);
+            // Step names are the cache keys for step results and must be unique
+            if (names.has(step.name)) {
+                errors.push(`Duplicate step name "${step.name}"`);
+            }
+            names.add(step.name);
+
+            // do and waitForEvent results become const declarations in run()
+            if (step.type !== 'sleep') {
+                const variable = WorkflowGraph.stepVariable(step.id);
+                const owner = variables.get(variable);
+                if (RESERVED_VARIABLES.has(variable)) {
+                    errors.push(`Step id "${step.id}" maps to the reserved name "${variable}"`);
+                } else if (owner !== undefined && owner !== step.id) {
+                    errors.push(`Step ids "${owner}" and "${step.id}" both map to the variable "${variable}"`);
+                }
+                variables.set(variable, step.id);
+            }
+
+            if (step.type === 'do' && !step.code?.trim()) {
+                errors.push(`Step "${step.id}" is a do step without code`);
+            }
+            if ((step.type === 'sleep' || step.type === 'waitForEvent') && !step.duration?.trim()) {
+                errors.push(`Step "${step.id}" requires a duration`);
+            }
+            if (step.type === 'waitForEvent' && !step.eventType?.trim()) {
+                errors.push(`Step "${step.id}" requires an event type`);
+            }
+        }
+
+        for (const step of graph.steps) {
+            for (const dep of step.dependsOn) {
+                if (dep === step.id) {
+                    errors.push(`Step "${step.id}" depends on itself`);
+                } else if (!ids.has(dep)) {
+                    errors.push(`Step "${step.id}" depends on unknown step "${dep}"`);
+                }
+            }
+        }
+
+        if (errors.length === 0 && WorkflowGraph.topologicalOrder(graph) === null) {
+            errors.push('Step dependencies contain a cycle');
+        }
+
+        return errors;
+    }
+
+    /**
+     * Order steps so every step runs after its dependencies
+     * Keeps declaration order where possible; returns null on cycles
+     */
+    static topologicalOrder(graph: WorkflowGraphType): WorkflowStepType[] | null {
+        const known = new Set(graph.steps.map((step) => step.id));
+        const remaining = new Map(graph.steps.map((step) => [step.id, step]));
+        const done = new Set<string>();
+        const ordered: WorkflowStepType[] = [];
+
+        while (remaining.size > 0) {
+            const next = [...remaining.values()].find((step) =>
+                step.dependsOn.every((dep) => done.has(dep) || !known.has(dep))
+            );
+            if (!next) {
+                return null;
+            }
+            ordered.push(next);
+            done.add(next.id);
+            remaining.delete(next.id);
+        }
+
+        return ordered;
+    }
+
+    /**
+     * Variable name holding a step's result in the generated run() method
+     */
+    static stepVariable(stepId: string): string {
+        const camel = stepId
+            .replace(/[^A-Za-z0-9]+(.)?/g, (_, chr: string | undefined) => (chr ? chr.toUpperCase() : ''))
+            .replace(/^[A-Z]/, (chr) => chr.toLowerCase());
+        return /^[a-z_$]/i.test(camel) ? camel : `step${camel}`;
+    }
+
+    /**
+     * Build the metadata consumed by exports and deploy flows
+     */
+    static toMetadata(graph: WorkflowGraphType): WorkflowMetadata {
+        return {
+            name: graph.name,
+            description: graph.description,
+            params: Object.fromEntries(graph.params.map((param) => [param.name, {
+                type: param.type,
+                description: param.description,
+                example: param.example !== null ? WorkflowGraph.parseJson(param.example) : undefined,
+                required: param.required,
+            }])),
+        };
+    }
+
+    /**
+     * Render the complete Workers project for a graph
+     */
+    static renderProject(graph: WorkflowGraphType, projectName: string): FileOutputType[] {
+        const workerName = WorkflowGraph.slugify(projectName) || 'workflow';
+
+        return [
+            {
+                filePath: 'src/index.ts',
+                filePurpose: `WorkflowEntrypoint for ${graph.name} and the HTTP trigger`,
+                fileContents: WorkflowGraph.renderEntrypoint(graph),
+            },
+            {
+                filePath: 'wrangler.jsonc',
+                filePurpose: 'Wrangler configuration with the workflow binding',
+                fileContents: JSON.stringify({
+                    name: workerName,
+                    main: 'src/index.ts',
+                    compatibility_date: '2025-01-01',
+                    observability: { enabled: true },
+                    workflows: [{ name: workerName, binding: WORKFLOW_BINDING, class_name: graph.className }],
+                }, null, 2) + '\n',
+            },
+            {
+                filePath: 'package.json',
+                filePurpose: 'Package manifest',
+                fileContents: JSON.stringify({
+                    name: workerName,
+                    private: true,
+                    type: 'module',
+                    scripts: {
+                        dev: 'wrangler dev',
+                        deploy: 'wrangler deploy',
+                        typecheck: 'tsc --noEmit',
+                    },
+                    devDependencies: {
+                        '@cloudflare/workers-types': '^4.20250101.0',
+                        typescript: '^5.6.0',
+                        wrangler: '^4.0.0',
+                    },
+                }, null, 2) + '\n',
+            },
+            {
+                filePath: 'tsconfig.json',
+                filePurpose: 'TypeScript configuration',
+                fileContents: JSON.stringify({
+                    compilerOptions: {
+                        target: 'es2022',
+                        module: 'es2022',
+                        moduleResolution: 'bundler',
+                        strict: true,
+                        types: ['@cloudflare/workers-types'],
+                    },
+                    include: ['src'],
+                }, null, 2) + '\n',
+            },
+            {
+                filePath: WORKFLOW_GRAPH_FILE,
+                filePurpose: 'Workflow step graph (source of truth for regeneration and dry runs)',
+                fileContents: JSON.stringify(graph, null, 2) + '\n',
+            },
+            {
+                filePath: 'README.md',
+                filePurpose: 'Workflow documentation',
+                fileContents: WorkflowGraph.renderReadme(graph),
+            },
+        ];
+    }
+
+    /**
+     * Check trigger params against the declared params
+     */
+    static validateParams(graph: WorkflowGraphType, params: Record<string, unknown>): string[] {
+        const errors: string[] = [];
+        for (const param of graph.params) {
+            const value = params[param.name];
+            if (value === undefined || value === null) {
+                if (param.required) {
+                    errors.push(`Missing required param "${param.name}"`);
+                }
+                continue;
+            }
+            const actual = Array.isArray(value) ? 'object' : typeof value;
+            if (actual !== param.type) {
+                errors.push(`Param "${param.name}" must be ${param.type}, got ${actual}`);
+            }
+        }
+        return errors;
+    }
+
+    /**
+     * Example params assembled from the declared examples
+     */
+    static exampleParams(graph: WorkflowGraphType): Record<string, unknown> {
+        const params: Record<string, unknown> = {};
+        for (const param of graph.params) {
+            if (param.example !== null) {
+                const parsed = WorkflowGraph.parseJson(param.example);
+                params[param.name] = parsed === undefined ? param.example : parsed;
+            }
+        }
+        return params;
+    }
+
+    private static renderEntrypoint(graph: WorkflowGraphType): string {
+        const ordered = WorkflowGraph.topologicalOrder(graph) ?? graph.steps;
+        const paramFields = graph.params.map((param) =>
+            `\t/** ${WorkflowGraph.commentText(param.description)} */\n\t${param.name}${param.required ? '' : '?'}: ${param.type === 'object' ? 'Record<string, unknown>' : param.type};`
+        );
+
+        const body = ordered.map((step) => WorkflowGraph.renderStep(step)).join('\n\n');
+
+        return `import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from 'cloudflare:workers';
+
+export interface Env {
+\t${WORKFLOW_BINDING}: Workflow;
+}
+
+export type Params = {
+${paramFields.join('\n')}
+};
+
+/**
+ * ${WorkflowGraph.commentText(graph.name)}
+ * ${WorkflowGraph.commentText(graph.description)}
+ */
+export class ${graph.className} extends WorkflowEntrypoint<Env, Params> {
+\tasync run(event: WorkflowEvent<Params>, step: WorkflowStep) {
+${WorkflowGraph.indent(body, 2)}
+\t}
+}
+
+export default {
+\tasync fetch(request: Request, env: Env): Promise<Response> {
+\t\tconst url = new URL(request.url);
+
+\t\tconst instanceId = url.searchParams.get('instanceId');
+\t\tif (instanceId) {
+\t\t\tconst instance = await env.${WORKFLOW_BINDING}.get(instanceId);
+\t\t\treturn Response.json({ id: instanceId, details: await instance.status() });
+\t\t}
+
+\t\tif (request.method !== 'POST') {
+\t\t\treturn Response.json({ error: 'POST JSON params to start a workflow instance' }, { status: 405 });
+\t\t}
+
+\t\tconst params = await request.json<Params>();
+\t\tconst instance = await env.${WORKFLOW_BINDING}.create({ params });
+\t\treturn Response.json({ id: instance.id, details: await instance.status() });
+\t},
+};
+`;
+    }
+
+    private static renderStep(step: WorkflowStepType): string {
+        const name = JSON.stringify(step.name);
+        const variable = WorkflowGraph.stepVariable(step.id);
+        const comment = `// ${WorkflowGraph.commentText(step.description)}`;
+
+        switch (step.type) {
+            case 'sleep':
+                return `${comment}\nawait step.sleep(${name}, ${JSON.stringify(step.duration)});`;
+            case 'waitForEvent':
+                return `${comment}\nconst ${variable} = await step.waitForEvent(${name}, {\n\ttype: ${JSON.stringify(step.eventType)},\n\ttimeout: ${JSON.stringify(step.duration)},\n});`;
+            case 'do': {
+                const config: string[] = [];
+                if (step.retries) {
+                    config.push(`retries: { limit: ${step.retries.limit}, delay: ${JSON.stringify(step.retries.delay)}, backoff: ${JSON.stringify(step.retries.backoff)} }`);
+                }
+                if (step.timeout) {
+                    config.push(`timeout: ${JSON.stringify(step.timeout)}`);
+                }
+                const configArg = config.length > 0 ? `{ ${config.join(', ')} }, ` : '';
+                return `${comment}\nconst ${variable} = await step.do(${name}, ${configArg}async () => {\n${WorkflowGraph.indent((step.code ?? '').trim(), 1)}\n});`;
+            }
+        }
+    }
+
+    private static renderReadme(graph: WorkflowGraphType): string {
+        const params = graph.params.length > 0
+            ? graph.params.map((param) => `- \`${param.name}\` (${param.type}${param.required ? ', required' : ''}): ${param.description}`).join('\n')
+            : '_None_';
+        const steps = (WorkflowGraph.topologicalOrder(graph) ?? graph.steps).map((step, index) => {
+            const detail = step.type === 'do' ? '' : ` (${step.type}${step.duration ? ` ${step.duration}` : ''})`;
+            return `${index + 1}. **${step.name}**${detail} - ${step.description}`;
+        }).join('\n');
+
+        return `# ${graph.name}
+
+${graph.description}
+
+## Params
+
+${params}
+
+## Steps
+
+${steps}
+
+## Usage
+
+\`\`\`bash
+npm install
+npx wrangler deploy
+curl -X POST https://<worker-url>/ -d '${JSON.stringify(WorkflowGraph.exampleParams(graph))}'
+curl "https://<worker-url>/?instanceId=<id>"
+\`\`\`
+`;
+    }
+
+    /**
+     * Single-line text that can't end the comment it is placed in
+     */
+    private static commentText(text: string): string {
+        return text.replace(/[\r\n\u2028\u2029]+/g, ' ').replace(/\*\//g, '*\\/');
+    }
+
+    private static indent(text: string, depth: number): string {
+        const prefix = '\t'.repeat(depth);
+        return text.split('\n').map((line) => (line.length > 0 ? prefix + line : line)).join('\n');
+    }
+
+    private static slugify(value: string): string {
+        return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 63);
+    }
+
+    private static parseJson(value: string): unknown {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -3,17 +3,19 @@ import { AllIssues } from '../../core/types';
 
 /**
  * Immutable report of issues found during code generation
- * Includes runtime errors, static analysis results, and client errors
+ * Includes runtime errors, static analysis results, and visual regressions from preview screenshots
  */
 export class IssueReport {
     constructor(
         public readonly runtimeErrors: RuntimeError[],
         public readonly staticAnalysis: StaticAnalysisResponse,
+        public readonly visualRegressions: string[] = [],
     ) {
         // Freeze to ensure immutability
         Object.freeze(this);
         Object.freeze(this.runtimeErrors);
         Object.freeze(this.staticAnalysis);
+        Object.freeze(this.visualRegressions);
     }
 
     /**
@@ -23,6 +25,7 @@ export class IssueReport {
         return new IssueReport(
             issues.runtimeErrors || [],
             issues.staticAnalysis || { success: false, lint: { issues: [] }, typecheck: { issues: [] } },
+            issues.visualRegressions || [],
         );
     }
 
@@ -30,7 +33,7 @@ export class IssueReport {
      * Check if there are any issues
      */
     hasIssues(): boolean {
-        return this.hasRuntimeErrors() || this.hasStaticAnalysisIssues();
+        return this.hasRuntimeErrors() || this.hasStaticAnalysisIssues() || this.hasVisualRegressions();
     }
 
     /**
@@ -49,6 +52,13 @@ export class IssueReport {
         return lintIssues > 0 || typecheckIssues > 0;
     }
 
+    /**
+     * Check if the last preview screenshot showed regressions
+     */
+    hasVisualRegressions(): boolean {
+        return this.visualRegressions.length > 0;
+    }
+
     /**
      * Get total issue count
      */
@@ -57,7 +67,7 @@ export class IssueReport {
         const lintCount = this.staticAnalysis.lint?.issues?.length || 0;
         const typecheckCount = this.staticAnalysis.typecheck?.issues?.length || 0;
         
-        return runtimeCount + lintCount + typecheckCount;
+        return runtimeCount + lintCount + typecheckCount + this.visualRegressions.length;
     }
 
     /**
@@ -79,6 +89,10 @@ export class IssueReport {
         if (typecheckCount > 0) {
             parts.push(`${typecheckCount} type errors`);
         }
+
+        if (this.visualRegressions.length > 0) {
+            parts.push(`${this.visualRegressions.length} visual regressions`);
+        }
         
         return parts.length > 0 ? parts.join(', ') : 'No issues found';
     }
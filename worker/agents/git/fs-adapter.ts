@@ -396,4 +396,16 @@ export class SqliteFS {
         
         return exported;
     }
+
+    /**
+     * Import git objects exported from another repository, replacing this one's history.
+     * The working tree is left untouched - check out a ref afterwards to populate it.
+     */
+    async importGitObjects(objects: Array<{ path: string; data: Uint8Array }>): Promise<void> {
+        void this.sql`DELETE FROM git_objects WHERE path LIKE '.git/%'`;
+        
+        for (const obj of objects) {
+            await this.writeFile(obj.path, obj.data);
+        }
+    }
 }
\ No newline at end of file
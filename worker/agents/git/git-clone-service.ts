@@ -17,6 +17,13 @@ export interface RepositoryBuildOptions {
     appCreatedAt?: Date;  // App creation timestamp for deterministic template commit
 }
 
+export type GitService = 'git-upload-pack' | 'git-receive-pack';
+
+const SERVICE_CAPABILITIES: Record<GitService, string> = {
+    'git-upload-pack': 'side-band-64k thin-pack ofs-delta agent=git/isomorphic-git',
+    'git-receive-pack': 'report-status ofs-delta agent=git/isomorphic-git',
+};
+
 export class GitCloneService {
     /**
      * Build in-memory git repository by rebasing agent's git history on template files
@@ -91,19 +98,7 @@ export class GitCloneService {
             }
             
             // Find agent's HEAD from exported objects
-            const headFile = gitObjects.find(obj => obj.path === '.git/HEAD');
-            const headContent = headFile ? new TextDecoder().decode(headFile.data).trim() : null;
-            
-            let agentHeadOid: string | null = null;
-            if (headContent && headContent.startsWith('ref: ')) {
-                // HEAD is a ref, resolve it
-                const refPath = headContent.slice(5).trim();
-                const refFile = gitObjects.find(obj => obj.path === `.git/${refPath}`);
-                agentHeadOid = refFile ? new TextDecoder().decode(refFile.data).trim() : null;
-            } else if (headContent && headContent.length === 40) {
-                // HEAD is direct SHA
-                agentHeadOid = headContent;
-            }
+            const agentHeadOid = this.getAgentHeadOid(gitObjects);
             
             if (!agentHeadOid) {
                 throw new Error('Could not determine agent HEAD from exported objects');
@@ -133,6 +128,7 @@ export class GitCloneService {
             });
             
             // Replay agent commits on top of template base
+            let previousAgentPaths = new Set<string>();
             for (const commitInfo of commitsOldestFirst) {
                 // Collect files from agent's commit tree
                 const agentFiles: Array<{ path: string; oid: string }> = [];
@@ -159,6 +155,21 @@ export class GitCloneService {
                     await fs.writeFile(file.path, blob);
                 }
                 
+                // Files the agent removed fall back to the template, or disappear
+                const agentPaths = new Set(agentFiles.map(file => file.path));
+                for (const path of previousAgentPaths) {
+                    if (agentPaths.has(path)) continue;
+                    
+                    const templateContent = templateDetails?.allFiles?.[path];
+                    if (templateContent !== undefined) {
+                        await fs.writeFile(path, templateContent);
+                    } else {
+                        await fs.unlink(path);
+                        await git.remove({ fs, dir: '/', filepath: path });
+                    }
+                }
+                previousAgentPaths = agentPaths;
+                
                 // Stage all files (template + agent)
                 const allFiles: string[] = [];
                 const getAllFiles = async (dir: string): Promise<void> => {
@@ -201,11 +212,32 @@ export class GitCloneService {
     }
 
 
+    /**
+     * Resolve the agent's HEAD commit from exported git objects
+     */
+    static getAgentHeadOid(gitObjects: Array<{ path: string; data: Uint8Array }>): string | null {
+        const headFile = gitObjects.find(obj => obj.path === '.git/HEAD');
+        const headContent = headFile ? new TextDecoder().decode(headFile.data).trim() : null;
+        
+        if (headContent && headContent.startsWith('ref: ')) {
+            // HEAD is a ref, resolve it
+            const refPath = headContent.slice(5).trim();
+            const refFile = gitObjects.find(obj => obj.path === `.git/${refPath}`);
+            return refFile ? new TextDecoder().decode(refFile.data).trim() : null;
+        }
+        if (headContent && headContent.length === 40) {
+            // HEAD is direct SHA
+            return headContent;
+        }
+        return null;
+    }
+
     /**
      * Handle git info/refs request
-     * Returns advertisement of available refs for git clone
+     * Returns advertisement of available refs for git clone, or for git push
+     * when service is git-receive-pack
      */
-    static async handleInfoRefs(fs: MemFS): Promise<string> {
+    static async handleInfoRefs(fs: MemFS, service: GitService = 'git-upload-pack'): Promise<string> {
         try {
             logger.info('Generating info/refs response');
             
@@ -224,17 +256,24 @@ export class GitCloneService {
             }
             
             // Git HTTP protocol: info/refs response format
-            let response = '001e# service=git-upload-pack\n0000';
-            
-            // HEAD ref with capabilities
-            const headLine = `${head} HEAD\0side-band-64k thin-pack ofs-delta agent=git/isomorphic-git\n`;
-            response += this.formatPacketLine(headLine);
+            let response = this.formatPacketLine(`# service=${service}\n`) + '0000';
+            const capabilities = SERVICE_CAPABILITIES[service];
+            
+            // HEAD ref with capabilities. receive-pack only advertises branches,
+            // so capabilities go on the first branch instead.
+            const advertiseHead = service === 'git-upload-pack';
+            if (advertiseHead) {
+                response += this.formatPacketLine(`${head} HEAD\0${capabilities}\n`);
+            }
             
             // Branch refs
+            let first = !advertiseHead;
             for (const branch of branches) {
                 try {
                     const oid = await git.resolveRef({ fs, dir: '/', ref: `refs/heads/${branch}` });
-                    response += this.formatPacketLine(`${oid} refs/heads/${branch}\n`);
+                    const suffix = first ? `\0${capabilities}` : '';
+                    response += this.formatPacketLine(`${oid} refs/heads/${branch}${suffix}\n`);
+                    first = false;
                     logger.info('Added branch ref', { branch, oid });
                 } catch (err) {
                     logger.warn('Failed to resolve branch', { branch, error: err });
@@ -342,7 +381,7 @@ export class GitCloneService {
     /**
      * Format git packet line (4-byte hex length + data)
      */
-    private static formatPacketLine(data: string): string {
+    static formatPacketLine(data: string): string {
         const length = data.length + 4;
         const hexLength = length.toString(16).padStart(4, '0');
         return hexLength + data;
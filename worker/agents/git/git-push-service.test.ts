@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import git from '@ashishkumar472/cf-git';
+import { MemFS } from './memfs';
+import { GitPushService } from './git-push-service';
+import type { TemplateDetails } from '../../services/sandbox/sandboxTypes';
+
+const author = { name: 'Dev', email: 'dev@example.com', timestamp: 1700000000, timezoneOffset: 0 };
+const templateDetails = { name: 'test', allFiles: { 'index.html': '<html></html>' } } as unknown as TemplateDetails;
+
+function pktLine(data: string): string {
+	return (data.length + 4).toString(16).padStart(4, '0') + data;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+	const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		result.set(part, offset);
+		offset += part.length;
+	}
+	return result;
+}
+
+async function commitFiles(fs: MemFS, files: Record<string, string>, message: string, removed: string[] = []): Promise<string> {
+	for (const [path, content] of Object.entries(files)) {
+		await fs.writeFile(path, content);
+		await git.add({ fs, dir: '/', filepath: path });
+	}
+	for (const path of removed) {
+		await fs.unlink(path);
+		await git.remove({ fs, dir: '/', filepath: path });
+	}
+	return git.commit({ fs, dir: '/', message, author });
+}
+
+/**
+ * A server repository and a client clone sharing the same base commit
+ */
+async function setupRepositories(): Promise<{ server: MemFS; client: MemFS; head: string }> {
+	const server = new MemFS();
+	const client = new MemFS();
+	let head = '';
+	for (const fs of [server, client]) {
+		await git.init({ fs, dir: '/', defaultBranch: 'main' });
+		head = await commitFiles(fs, { 'index.html': '<html></html>', 'src/app.ts': 'export {};\n' }, 'Template: test');
+	}
+	return { server, client, head };
+}
+
+async function pushBody(client: MemFS, oldOid: string, newOid: string, ref = 'refs/heads/main'): Promise<Uint8Array> {
+	const oids = new Set<string>();
+	for (const { oid, commit } of await git.log({ fs: client, dir: '/', ref: newOid })) {
+		if (oid === oldOid) break;
+		oids.add(oid);
+		const walk = async (treeOid: string) => {
+			oids.add(treeOid);
+			for (const entry of (await git.readTree({ fs: client, dir: '/', oid: treeOid })).tree) {
+				if (entry.type === 'tree') await walk(entry.oid);
+				else oids.add(entry.oid);
+			}
+		};
+		await walk(commit.tree);
+	}
+	const { packfile } = await git.packObjects({ fs: client, dir: '/', oids: [...oids] });
+	const commands = new TextEncoder().encode(pktLine(`${oldOid} ${newOid} ${ref}\0report-status agent=git/2.43.0\n`) + '0000');
+	return concat(commands, packfile ?? new Uint8Array());
+}
+
+describe('GitPushService.parseReceivePackRequest', () => {
+	it('reads commands, capabilities and the trailing pack', () => {
+		const body = concat(
+			new TextEncoder().encode(
+				pktLine(`${'a'.repeat(40)} ${'b'.repeat(40)} refs/heads/main\0report-status ofs-delta\n`) +
+				pktLine(`${'c'.repeat(40)} ${'d'.repeat(40)} refs/heads/feature\n`) +
+				'0000'
+			),
+			new TextEncoder().encode('PACK')
+		);
+
+		const request = GitPushService.parseReceivePackRequest(body);
+
+		expect(request.commands).toEqual([
+			{ oldOid: 'a'.repeat(40), newOid: 'b'.repeat(40), ref: 'refs/heads/main' },
+			{ oldOid: 'c'.repeat(40), newOid: 'd'.repeat(40), ref: 'refs/heads/feature' },
+		]);
+		expect(request.capabilities).toEqual(['report-status', 'ofs-delta']);
+		expect(new TextDecoder().decode(request.packfile)).toBe('PACK');
+	});
+
+	it('rejects truncated pkt-lines', () => {
+		expect(() => GitPushService.parseReceivePackRequest(new TextEncoder().encode('00ffshort'))).toThrow('Truncated pkt-line');
+	});
+});
+
+describe('GitPushService.formatReportStatus', () => {
+	it('reports accepted and rejected refs', () => {
+		expect(GitPushService.formatReportStatus(null, [
+			{ ref: 'refs/heads/main' },
+			{ ref: 'refs/heads/feature', error: 'only refs/heads/main\ncan be pushed' },
+		])).toBe(
+			'000eunpack ok\n' +
+			'0017ok refs/heads/main\n' +
+			'003dng refs/heads/feature only refs/heads/main can be pushed\n' +
+			'0000'
+		);
+	});
+});
+
+describe('GitPushService.receivePack', () => {
+	it('accepts a fast-forward of main and reports per-commit changes', async () => {
+		const { server, client, head } = await setupRepositories();
+		await commitFiles(client, { 'src/app.ts': 'export const a = 1;\n' }, 'Edit app');
+		const newHead = await commitFiles(client, { 'src/util.ts': 'export {};\n' }, 'Add util\n\nWith a body', ['src/app.ts']);
+
+		const request = GitPushService.parseReceivePackRequest(await pushBody(client, head, newHead));
+		const result = await GitPushService.receivePack(server, request, templateDetails);
+
+		expect(result.unpackError).toBeNull();
+		expect(result.results).toEqual([{ ref: 'refs/heads/main' }]);
+		expect(result.update?.commits.map(commit => commit.message)).toEqual(['Edit app\n', 'Add util\n\nWith a body\n']);
+		expect(result.update?.commits[0].files).toEqual([{ filePath: 'src/app.ts', fileContents: 'export const a = 1;\n' }]);
+		expect(result.update?.commits[1].files).toEqual([{ filePath: 'src/util.ts', fileContents: 'export {};\n' }]);
+		expect(result.update?.commits[1].deletedPaths).toEqual(['src/app.ts']);
+		expect(result.update?.commits[1].author).toMatchObject({ name: 'Dev', timestamp: 1700000000 });
+	});
+
+	it('rejects stale pushes, other branches and deleted template files', async () => {
+		const { server, client, head } = await setupRepositories();
+		const newHead = await commitFiles(client, {}, 'Remove page', ['index.html']);
+		const body = await pushBody(client, head, newHead);
+
+		const deleted = await GitPushService.receivePack(server, GitPushService.parseReceivePackRequest(body), templateDetails);
+		expect(deleted.update).toBeNull();
+		expect(deleted.results[0].error).toBe('template file index.html cannot be deleted');
+
+		const stale = await pushBody(client, 'e'.repeat(40), newHead);
+		const staleResult = await GitPushService.receivePack(server, GitPushService.parseReceivePackRequest(stale), templateDetails);
+		expect(staleResult.results[0].error).toBe('fetch first');
+
+		const feature = await pushBody(client, head, newHead, 'refs/heads/feature');
+		const featureResult = await GitPushService.receivePack(server, GitPushService.parseReceivePackRequest(feature), templateDetails);
+		expect(featureResult.results[0].error).toBe('only refs/heads/main can be pushed');
+	});
+
+	it('rejects histories that replace the template base commit', async () => {
+		const { server, head } = await setupRepositories();
+		const rewritten = new MemFS();
+		await git.init({ fs: rewritten, dir: '/', defaultBranch: 'main' });
+		const newHead = await commitFiles(rewritten, { 'index.html': '<html>changed</html>', 'src/app.ts': 'export {};\n' }, 'Template: test');
+
+		const request = GitPushService.parseReceivePackRequest(await pushBody(rewritten, head, newHead));
+		const result = await GitPushService.receivePack(server, request, templateDetails);
+
+		expect(result.update).toBeNull();
+		expect(result.results[0].error).toBe('changes to the template base commit are not allowed');
+	});
+});
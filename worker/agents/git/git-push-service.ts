@@ -0,0 +1,324 @@
+/**
+ * Git push service for receiving commits into an app's repository
+ * Parses receive-pack requests and validates pushed history against the rebuilt clone
+ */
+
+import git from '@ashishkumar472/cf-git';
+import { MemFS } from './memfs';
+import { GitCloneService } from './git-clone-service';
+import type { PushedCommit } from './git';
+import { createLogger } from '../../logger';
+import type { TemplateDetails as SandboxTemplateDetails } from '../../services/sandbox/sandboxTypes';
+
+const logger = createLogger('GitPushService');
+
+const ZERO_OID = '0000000000000000000000000000000000000000';
+const PUSHABLE_REF = 'refs/heads/main';
+const MAX_PUSHED_COMMITS = 100;
+
+export interface RefUpdateCommand {
+    oldOid: string;
+    newOid: string;
+    ref: string;
+}
+
+export interface ReceivePackRequest {
+    commands: RefUpdateCommand[];
+    capabilities: string[];
+    packfile: Uint8Array;
+}
+
+export interface RefUpdateResult {
+    ref: string;
+    error?: string;     // ng reason, unset when the ref was accepted
+}
+
+export interface ReceivePackResult {
+    unpackError: string | null;
+    results: RefUpdateResult[];
+    // The accepted update of main, null when nothing is left to apply
+    update: (RefUpdateCommand & { commits: PushedCommit[] }) | null;
+}
+
+/**
+ * A push that is well-formed but not allowed, reported to the client as "ng <ref> <reason>"
+ */
+export class PushRejectedError extends Error {
+    constructor(reason: string) {
+        super(reason);
+        this.name = 'PushRejectedError';
+    }
+}
+
+export interface TreeEntry {
+    oid: string;
+    mode: string;
+}
+
+export class GitPushService {
+    /**
+     * Parse the ref update commands and packfile of a receive-pack request
+     */
+    static parseReceivePackRequest(body: Uint8Array): ReceivePackRequest {
+        const decoder = new TextDecoder();
+        const commands: RefUpdateCommand[] = [];
+        let capabilities: string[] = [];
+        let offset = 0;
+
+        while (offset + 4 <= body.length) {
+            const length = parseInt(decoder.decode(body.subarray(offset, offset + 4)), 16);
+            if (Number.isNaN(length)) {
+                throw new Error('Invalid pkt-line length');
+            }
+            if (length === 0) {
+                offset += 4;
+                break;
+            }
+            if (length < 4 || offset + length > body.length) {
+                throw new Error('Truncated pkt-line');
+            }
+
+            let line = decoder.decode(body.subarray(offset + 4, offset + length));
+            offset += length;
+
+            if (line.endsWith('\n')) {
+                line = line.slice(0, -1);
+            }
+            const nulIndex = line.indexOf('\0');
+            if (nulIndex !== -1) {
+                capabilities = line.slice(nulIndex + 1).split(' ').filter(Boolean);
+                line = line.slice(0, nulIndex);
+            }
+            if (line.startsWith('shallow ')) {
+                continue;
+            }
+
+            const [oldOid, newOid, ref] = line.split(' ');
+            if (!oldOid || !newOid || !ref) {
+                throw new Error(`Invalid ref update command: ${line}`);
+            }
+            commands.push({ oldOid, newOid, ref });
+        }
+
+        return { commands, capabilities, packfile: body.subarray(offset) };
+    }
+
+    /**
+     * Unpack pushed objects into the rebuilt repository and validate each ref update.
+     * Only fast-forwards of main without merge commits are accepted.
+     */
+    static async receivePack(
+        fs: MemFS,
+        request: ReceivePackRequest,
+        templateDetails: SandboxTemplateDetails | null | undefined
+    ): Promise<ReceivePackResult> {
+        if (request.packfile.length > 0) {
+            try {
+                await this.unpack(fs, request.packfile);
+            } catch (error) {
+                logger.error('Failed to unpack pushed objects', { error });
+                return {
+                    unpackError: error instanceof Error ? error.message : String(error),
+                    results: request.commands.map(command => ({ ref: command.ref, error: 'unpacker error' })),
+                    update: null
+                };
+            }
+        }
+
+        const head = await git.resolveRef({ fs, dir: '/', ref: 'HEAD' });
+        const templateFiles = new Set(Object.keys(templateDetails?.allFiles ?? {}));
+        const results: RefUpdateResult[] = [];
+        let update: ReceivePackResult['update'] = null;
+
+        for (const command of request.commands) {
+            try {
+                const commits = await this.readPushedCommits(fs, command, head, templateFiles);
+                update = { ...command, commits };
+                results.push({ ref: command.ref });
+            } catch (error) {
+                if (!(error instanceof PushRejectedError)) {
+                    logger.error('Failed to validate pushed ref', { ref: command.ref, error });
+                }
+                results.push({
+                    ref: command.ref,
+                    error: error instanceof PushRejectedError ? error.message : 'failed to read pushed commits'
+                });
+            }
+        }
+
+        logger.info('Received push', {
+            commands: request.commands.length,
+            accepted: update?.commits.length ?? 0,
+            rejected: results.filter(result => result.error).length
+        });
+
+        return { unpackError: null, results, update };
+    }
+
+    /**
+     * Build the report-status response for the client
+     */
+    static formatReportStatus(unpackError: string | null, results: RefUpdateResult[]): string {
+        const sanitize = (text: string) => text.replace(/[\r\n]+/g, ' ').trim();
+
+        let response = GitCloneService.formatPacketLine(`unpack ${unpackError ? sanitize(unpackError) : 'ok'}\n`);
+        for (const result of results) {
+            response += GitCloneService.formatPacketLine(result.error
+                ? `ng ${result.ref} ${sanitize(result.error)}\n`
+                : `ok ${result.ref}\n`);
+        }
+        return response + '0000';
+    }
+
+    private static async unpack(fs: MemFS, packfile: Uint8Array): Promise<void> {
+        const filepath = `.git/objects/pack/pack-push-${Date.now()}.pack`;
+        await fs.writeFile(filepath, packfile);
+        const { oids } = await git.indexPack({ fs, dir: '/', filepath });
+        logger.info('Unpacked pushed objects', { objectCount: oids.length });
+    }
+
+    /**
+     * Check a ref update is a fast-forward of main and collect its commits, oldest first
+     */
+    private static async readPushedCommits(
+        fs: MemFS,
+        command: RefUpdateCommand,
+        head: string,
+        templateFiles: Set<string>
+    ): Promise<PushedCommit[]> {
+        if (command.ref !== PUSHABLE_REF) {
+            throw new PushRejectedError(`only ${PUSHABLE_REF} can be pushed`);
+        }
+        if (command.newOid === ZERO_OID) {
+            throw new PushRejectedError('deleting main is not allowed');
+        }
+        if (command.oldOid !== head) {
+            throw new PushRejectedError('fetch first');
+        }
+        if (command.newOid === head) {
+            return [];
+        }
+
+        const isFastForward = await git.isDescendent({ fs, dir: '/', oid: command.newOid, ancestor: head, depth: -1 });
+        if (!isFastForward) {
+            const history = await git.log({ fs, dir: '/', ref: head });
+            const baseCommit = history[history.length - 1]?.oid;
+            const keepsBase = baseCommit === command.newOid || (baseCommit !== undefined
+                && await git.isDescendent({ fs, dir: '/', oid: command.newOid, ancestor: baseCommit, depth: -1 }));
+            throw new PushRejectedError(keepsBase
+                ? 'non-fast-forward'
+                : 'changes to the template base commit are not allowed');
+        }
+
+        // Walk first parents back to the current head
+        const newCommits: Array<{ oid: string; commit: Awaited<ReturnType<typeof git.readCommit>>['commit'] }> = [];
+        let oid = command.newOid;
+        while (oid !== head) {
+            if (newCommits.length >= MAX_PUSHED_COMMITS) {
+                throw new PushRejectedError(`push at most ${MAX_PUSHED_COMMITS} commits at a time`);
+            }
+            const { commit } = await git.readCommit({ fs, dir: '/', oid });
+            if (commit.parent.length !== 1) {
+                throw new PushRejectedError('merge commits are not supported, rebase onto main instead');
+            }
+            newCommits.push({ oid, commit });
+            oid = commit.parent[0];
+        }
+
+        const commits: PushedCommit[] = [];
+        for (const { oid: commitOid } of newCommits.reverse()) {
+            commits.push(await this.readCommitChanges(fs, commitOid, templateFiles));
+        }
+
+        return commits;
+    }
+
+    /**
+     * Read a commit as the file changes against its first parent.
+     * Throws PushRejectedError for changes the agent cannot represent.
+     */
+    static async readCommitChanges(fs: MemFS, oid: string, templateFiles: Set<string>): Promise<PushedCommit> {
+        const { commit } = await git.readCommit({ fs, dir: '/', oid });
+        const changes = await this.diffCommits(fs, commit.parent[0] ?? null, oid);
+
+        const files: PushedCommit['files'] = [];
+        const deletedPaths: string[] = [];
+        for (const [path, entry] of changes) {
+            if (entry) {
+                files.push({ filePath: path, fileContents: await this.readTextBlob(fs, path, entry) });
+            } else {
+                deletedPaths.push(path);
+            }
+        }
+
+        const deletedTemplateFile = deletedPaths.find(path => templateFiles.has(path));
+        if (deletedTemplateFile) {
+            throw new PushRejectedError(`template file ${deletedTemplateFile} cannot be deleted`);
+        }
+
+        return {
+            oid,
+            message: commit.message,
+            author: commit.author,
+            committer: commit.committer,
+            files,
+            deletedPaths
+        };
+    }
+
+    /**
+     * Paths that differ between two commits, mapped to their new entry or null when deleted
+     */
+    static async diffCommits(fs: MemFS, fromOid: string | null, toOid: string): Promise<Map<string, TreeEntry | null>> {
+        const readEntries = async (oid: string) => {
+            const { commit } = await git.readCommit({ fs, dir: '/', oid });
+            return this.collectTreeEntries(fs, commit.tree);
+        };
+        const before = fromOid ? await readEntries(fromOid) : new Map<string, TreeEntry>();
+        const after = await readEntries(toOid);
+
+        const changes = new Map<string, TreeEntry | null>();
+        for (const [path, entry] of after) {
+            if (before.get(path)?.oid !== entry.oid) {
+                changes.set(path, entry);
+            }
+        }
+        for (const path of before.keys()) {
+            if (!after.has(path)) {
+                changes.set(path, null);
+            }
+        }
+        return changes;
+    }
+
+    private static async collectTreeEntries(fs: MemFS, treeOid: string, prefix = '', entries = new Map<string, TreeEntry>()): Promise<Map<string, TreeEntry>> {
+        const { tree } = await git.readTree({ fs, dir: '/', oid: treeOid });
+        for (const entry of tree) {
+            const path = prefix ? `${prefix}/${entry.path}` : entry.path;
+            if (entry.type === 'tree') {
+                await this.collectTreeEntries(fs, entry.oid, path, entries);
+            } else {
+                entries.set(path, { oid: entry.oid, mode: entry.mode });
+            }
+        }
+        return entries;
+    }
+
+    private static async readTextBlob(fs: MemFS, path: string, entry: TreeEntry): Promise<string> {
+        if (entry.mode === '120000' || entry.mode === '160000') {
+            throw new PushRejectedError(`${path}: symlinks and submodules are not supported`);
+        }
+
+        const { blob } = await git.readBlob({ fs, dir: '/', oid: entry.oid });
+        let content: string;
+        try {
+            content = new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(blob);
+        } catch {
+            throw new PushRejectedError(`${path}: binary files are not supported`);
+        }
+        if (content.includes('\0')) {
+            throw new PushRejectedError(`${path}: binary files are not supported`);
+        }
+        return content;
+    }
+}
@@ -2,7 +2,7 @@
  * Git version control for Durable Objects using isomorphic-git
  */
 
-import git from '@ashishkumar472/cf-git';
+import git, { Errors } from '@ashishkumar472/cf-git';
 import { SqliteFS, type SqlExecutor } from './fs-adapter';
 import { FileOutputType } from '../schemas';
 import * as Diff from 'diff';
@@ -29,10 +29,61 @@ export interface GitShowResult {
     diffs?: FileDiff[];
 }
 
+export interface BranchInfo {
+    name: string;
+    oid: string;
+    current: boolean;
+}
+
+export interface BranchSwitchResult {
+    branch: string;
+    oid: string;
+    files: number;
+}
+
+export interface BranchMergeResult {
+    status: 'up-to-date' | 'fast-forward' | 'merged' | 'conflict';
+    branch: string;
+    into: string;
+    oid?: string;
+    conflicts?: string[];   // Files changed on both sides, only set on conflict
+}
+
 type FileSnapshot = Omit<FileOutputType, 'filePurpose'>;
 
+export interface CommitIdentity {
+    name: string;
+    email: string;
+    timestamp: number;
+    timezoneOffset: number;
+}
+
+/**
+ * A commit received over git push, reduced to the file changes against its parent
+ */
+export interface PushedCommit {
+    oid: string;
+    message: string;
+    author: CommitIdentity;
+    committer: CommitIdentity;
+    files: FileSnapshot[];
+    deletedPaths: string[];
+}
+
+const BRANCH_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._/-]*$/;
+
+function isValidBranchName(name: string): boolean {
+    return BRANCH_NAME_PATTERN.test(name)
+        && name.length <= 100
+        && !name.includes('..')
+        && !name.includes('//')
+        && !name.endsWith('/')
+        && !name.endsWith('.')
+        && !name.endsWith('.lock');
+}
+
 export class GitVersionControl {
-    private onFilesChangedCallback?: () => void;
+    private onFilesChangedCallback?: () => void | Promise<void>;
     public fs: SqliteFS;
     private author: { name: string; email: string };
     
@@ -48,7 +99,7 @@ export class GitVersionControl {
         this.fs.init();
     }
 
-    setOnFilesChangedCallback(callback: () => void): void {
+    setOnFilesChangedCallback(callback: () => void | Promise<void>): void {
         this.onFilesChangedCallback = callback;
     }
 
@@ -116,16 +167,45 @@ export class GitVersionControl {
         const oid = await git.commit({
             ...this.gitConfig,
             message: message || `Auto-checkpoint (${new Date().toISOString()})`,
-            author: {
-                name: this.author.name,
-                email: this.author.email,
-                timestamp: Math.floor(Date.now() / 1000)
-            }
+            author: this.commitAuthor()
         });
         console.log(`[Git] Commit created: ${oid}`);
         return oid;
     }
 
+    /**
+     * Commit changes pushed over git. The original author, committer and message
+     * are kept so the rebuilt clone history matches the pusher's local commits.
+     */
+    async applyPushedCommit(commit: PushedCommit): Promise<string> {
+        await this.stage(commit.files);
+
+        for (const filePath of commit.deletedPaths) {
+            const path = this.normalizePath(filePath);
+            await git.remove({ ...this.gitConfig, filepath: path });
+            if (await this.fs.exists(path)) {
+                await this.fs.unlink(path);
+            }
+        }
+
+        const oid = await git.commit({
+            ...this.gitConfig,
+            message: commit.message,
+            author: commit.author,
+            committer: commit.committer
+        });
+        console.log(`[Git] Applied pushed commit ${commit.oid} as ${oid}`);
+        return oid;
+    }
+
+    private commitAuthor() {
+        return {
+            name: this.author.name,
+            email: this.author.email,
+            timestamp: Math.floor(Date.now() / 1000)
+        };
+    }
+
     private async hasChanges(): Promise<boolean> {
         try {
             const status = await git.statusMatrix(this.gitConfig);
@@ -135,9 +215,9 @@ export class GitVersionControl {
         }
     }
 
-    async log(limit = 50): Promise<CommitInfo[]> {
+    async log(limit = 50, ref = 'HEAD'): Promise<CommitInfo[]> {
         try {
-            const commits = await git.log({ ...this.gitConfig, depth: limit, ref: 'main' });
+            const commits = await git.log({ ...this.gitConfig, depth: limit, ref });
             return commits.map(c => ({
                 oid: c.oid,
                 message: c.commit.message,
@@ -272,19 +352,166 @@ export class GitVersionControl {
 
     async reset(ref: string, options?: { hard?: boolean }): Promise<{ ref: string; filesReset: number }> {
         const oid = await git.resolveRef({ ...this.gitConfig, ref });
-        await git.writeRef({ ...this.gitConfig, ref: 'HEAD', value: oid, force: true });
+        const branch = await this.getCurrentBranch();
+
+        // Move the current branch rather than detaching HEAD
+        await git.writeRef({
+            ...this.gitConfig,
+            ref: branch ? `refs/heads/${branch}` : 'HEAD',
+            value: oid,
+            force: true
+        });
         
         if (options?.hard !== false) {
-            await git.checkout({ ...this.gitConfig, ref, force: true });
+            await git.checkout({ ...this.gitConfig, ref: branch ?? oid, force: true });
         }
         
-        const files = await git.listFiles({ ...this.gitConfig, ref });
+        const files = await git.listFiles({ ...this.gitConfig, ref: oid });
         
-        this.onFilesChangedCallback?.();
+        await this.onFilesChangedCallback?.();
         
         return { ref, filesReset: files.length };
     }
 
+    /**
+     * Name of the checked out branch, null when HEAD is detached
+     */
+    async getCurrentBranch(): Promise<string | null> {
+        try {
+            return await git.currentBranch({ ...this.gitConfig, fullname: false }) || null;
+        } catch {
+            return null;
+        }
+    }
+
+    async listBranches(): Promise<BranchInfo[]> {
+        const [names, current] = await Promise.all([
+            git.listBranches(this.gitConfig),
+            this.getCurrentBranch()
+        ]);
+
+        return Promise.all(names.sort().map(async name => ({
+            name,
+            oid: await git.resolveRef({ ...this.gitConfig, ref: name }),
+            current: name === current
+        })));
+    }
+
+    /**
+     * Create a branch at startPoint (default HEAD) without switching to it
+     */
+    async createBranch(name: string, startPoint = 'HEAD'): Promise<BranchInfo> {
+        if (!isValidBranchName(name)) {
+            throw new Error(`Invalid branch name: ${name}`);
+        }
+        if ((await git.listBranches(this.gitConfig)).includes(name)) {
+            throw new Error(`Branch '${name}' already exists`);
+        }
+
+        const oid = await git.resolveRef({ ...this.gitConfig, ref: startPoint });
+        await git.branch({ ...this.gitConfig, ref: name, object: oid });
+        console.log(`[Git] Created branch ${name} at ${oid}`);
+
+        return { name, oid, current: false };
+    }
+
+    /**
+     * Check out another branch and rebuild the working tree from it.
+     * Refuses to run with uncommitted changes since checkout overwrites them.
+     */
+    async switchBranch(name: string): Promise<BranchSwitchResult> {
+        if (!(await git.listBranches(this.gitConfig)).includes(name)) {
+            throw new Error(`Branch '${name}' does not exist`);
+        }
+        if (await this.hasChanges()) {
+            throw new Error('There are uncommitted changes. Commit them before switching branches');
+        }
+
+        await git.checkout({ ...this.gitConfig, ref: name, force: true });
+
+        const [oid, files] = await Promise.all([
+            git.resolveRef({ ...this.gitConfig, ref: name }),
+            git.listFiles({ ...this.gitConfig, ref: name })
+        ]);
+        console.log(`[Git] Switched to branch ${name} (${oid})`);
+
+        await this.onFilesChangedCallback?.();
+
+        return { branch: name, oid, files: files.length };
+    }
+
+    /**
+     * Merge a branch into the current one. Fast-forwards when possible, otherwise
+     * creates a merge commit. Conflicts abort the merge and are reported back.
+     */
+    async merge(branch: string, message?: string): Promise<BranchMergeResult> {
+        const current = await this.getCurrentBranch();
+        if (!current) {
+            throw new Error('Cannot merge while HEAD is detached');
+        }
+        if (branch === current) {
+            throw new Error(`Cannot merge branch '${branch}' into itself`);
+        }
+        if (!(await git.listBranches(this.gitConfig)).includes(branch)) {
+            throw new Error(`Branch '${branch}' does not exist`);
+        }
+        if (await this.hasChanges()) {
+            throw new Error('There are uncommitted changes. Commit them before merging');
+        }
+
+        try {
+            const result = await git.merge({
+                ...this.gitConfig,
+                ours: current,
+                theirs: branch,
+                abortOnConflict: true,
+                message: message || `Merge branch '${branch}' into ${current}`,
+                author: this.commitAuthor()
+            });
+
+            if (result.alreadyMerged) {
+                return { status: 'up-to-date', branch, into: current, oid: result.oid };
+            }
+
+            // merge only moves the branch ref, bring the working tree along
+            await git.checkout({ ...this.gitConfig, ref: current, force: true });
+            await this.onFilesChangedCallback?.();
+
+            console.log(`[Git] Merged ${branch} into ${current} (${result.fastForward ? 'fast-forward' : 'merge commit'})`);
+            return {
+                status: result.fastForward ? 'fast-forward' : 'merged',
+                branch,
+                into: current,
+                oid: result.oid
+            };
+        } catch (error) {
+            if (error instanceof Errors.MergeConflictError) {
+                console.log(`[Git] Merge of ${branch} into ${current} has conflicts:`, error.data.filepaths);
+                return {
+                    status: 'conflict',
+                    branch,
+                    into: current,
+                    conflicts: error.data.filepaths
+                };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Rebuild the working tree from the current branch, e.g. after importing another repository's objects
+     */
+    async restoreWorkingTree(): Promise<number> {
+        const branch = await git.currentBranch({ ...this.gitConfig }) || 'main';
+        await git.checkout({ ...this.gitConfig, ref: branch, force: true });
+
+        const files = await git.listFiles({ ...this.gitConfig, ref: branch });
+
+        await this.onFilesChangedCallback?.();
+
+        return files.length;
+    }
+
     private async walkTree(treeOid: string, prefix: string, files: FileSnapshot[]): Promise<void> {
         const { tree } = await git.readTree({ ...this.gitConfig, oid: treeOid });
 
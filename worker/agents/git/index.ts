@@ -4,8 +4,10 @@
 
 export { GitVersionControl } from './git';
 export { GitCloneService } from './git-clone-service';
+export { GitPushService } from './git-push-service';
 export { MemFS } from './memfs';
 export { SqliteFS } from './fs-adapter';
-export type { CommitInfo } from './git';
+export type { CommitInfo, BranchInfo, BranchSwitchResult, BranchMergeResult, CommitIdentity, PushedCommit } from './git';
 export type { SqlExecutor } from './fs-adapter';
-export type { RepositoryBuildOptions } from './git-clone-service';
\ No newline at end of file
+export type { RepositoryBuildOptions, GitService } from './git-clone-service';
+export type { RefUpdateCommand, ReceivePackRequest, ReceivePackResult, RefUpdateResult } from './git-push-service';
\ No newline at end of file
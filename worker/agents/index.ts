@@ -12,6 +12,7 @@ import { BaseSandboxService } from 'worker/services/sandbox/BaseSandboxService';
 import { AgentState, CurrentDevState } from './core/state';
 import { CodeGeneratorAgent } from './core/codingAgent';
 import { BehaviorType, ProjectType } from './core/types';
+import type { BranchSnapshot } from './core/branching';
 
 type AgentStubProps = {
     behaviorType?: BehaviorType;
@@ -38,26 +39,38 @@ export async function getAgentState(env: Env, agentId: string) : Promise<AgentSt
     return await agentInstance.getFullState() as AgentState;
 }
 
-export async function cloneAgent(env: Env, agentId: string) : Promise<{newAgentId: string, newAgent: DurableObjectStub<CodeGeneratorAgent>}> {
+/**
+ * Clone an agent's state and git history into a new agent owned by userId.
+ * With a branch snapshot the new agent starts from that point instead: its files,
+ * phases, blueprint and conversation are cut back to the snapshot's commit.
+ */
+export async function cloneAgent(env: Env, agentId: string, userId: string, branch?: BranchSnapshot) : Promise<{newAgentId: string, newAgent: DurableObjectStub<CodeGeneratorAgent>}> {
     const agentInstance = await getAgentStub(env, agentId);
     if (!agentInstance || !await agentInstance.isInitialized()) {
         throw new Error(`Agent ${agentId} not found`);
     }
     const newAgentId = generateId();
 
-    const originalState = await agentInstance.getFullState();
+    const originalState = branch?.state ?? await agentInstance.getFullState();
 
     const newState: AgentState = {
         ...originalState,
+        metadata: {
+            ...originalState.metadata,
+            agentId: newAgentId,
+            userId,
+        },
         sessionId: newAgentId,
         sandboxInstanceId: undefined,
+        fileServingToken: undefined,
         pendingUserInputs: [],
         shouldBeGenerating: false,
         projectUpdatesAccumulator: [],
         reviewingInitiated: false,
         mvpGenerated: false,
         ...(originalState.behaviorType === 'phasic' ? {
-            generatedPhases: [],
+            // A branch keeps the phases completed up to its commit
+            generatedPhases: branch ? originalState.generatedPhases : [],
             currentDevState: CurrentDevState.IDLE,
         } : {}),
     } as AgentState;
@@ -68,6 +81,17 @@ export async function cloneAgent(env: Env, agentId: string) : Promise<{newAgentI
     });
 
     await newAgent.setState(newState);
+
+    const { gitObjects } = await agentInstance.exportGitObjects();
+    await newAgent.importGitObjects(gitObjects);
+
+    if (branch) {
+        await newAgent.resetToBranchPoint(branch.commitOid);
+        if (branch.conversation) {
+            await newAgent.setConversationState(branch.conversation);
+        }
+    }
+
     return {newAgentId, newAgent};
 }
 
@@ -92,6 +116,19 @@ export async function getTemplateForQuery(
         } as TemplateSelection; // satisfies schema shape
         return { templateDetails: scratch, selection, projectType: 'general' };
     }
+    // Workflows are plain Workers scaffolded from the generated step graph - no template or container
+    if (projectType === 'workflow') {
+        const scratch: TemplateDetails = { ...createScratchTemplateDetails(), projectType: 'workflow' };
+        const selection: TemplateSelection = {
+            selectedTemplateName: null,
+            reasoning: 'Workflow mode: project is rendered from the workflow step graph',
+            useCase: 'Other',
+            complexity: 'moderate',
+            styleSelection: 'Custom',
+            projectType: 'workflow',
+        } as TemplateSelection; // satisfies schema shape
+        return { templateDetails: scratch, selection, projectType: 'workflow' };
+    }
     // Fetch available templates
     const templatesResponse = await SandboxSdkClient.listTemplates();
     if (!templatesResponse || !templatesResponse.success) {
@@ -115,6 +115,13 @@ const PLATFORM_AGENT_CONFIG: AgentConfig = {
         temperature: 1,
         fallbackModel: AIModels.GEMINI_2_5_PRO,
     },
+    workflowGeneration: {
+        name: AIModels.GEMINI_2_5_PRO,
+        reasoning_effort: 'medium',
+        max_tokens: 16000,
+        temperature: 0.6,
+        fallbackModel: AIModels.GEMINI_2_5_FLASH,
+    },
 };
 
 //======================================================================================
@@ -180,6 +187,13 @@ const DEFAULT_AGENT_CONFIG: AgentConfig = {
         temperature: 1,
         fallbackModel: AIModels.GEMINI_2_5_FLASH,
     },
+    workflowGeneration: {
+        name: AIModels.GEMINI_3_FLASH_PREVIEW,
+        reasoning_effort: 'medium',
+        max_tokens: 16000,
+        temperature: 0.6,
+        fallbackModel: AIModels.GEMINI_2_5_PRO,
+    },
 };
 
 export const AGENT_CONFIG: AgentConfig = env.PLATFORM_MODEL_PROVIDERS 
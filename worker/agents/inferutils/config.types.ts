@@ -5,6 +5,10 @@
 export type ReasoningEffortType = 'minimal' | 'low' | 'medium' | 'high';
 export type ReasoningEffort = ReasoningEffortType;
 
+// Streaming output formats for file generation
+export const STREAM_FORMATS = ['scof', 'xml'] as const;
+export type StreamFormat = typeof STREAM_FORMATS[number];
+
 export enum ModelSize {
     LITE = 'lite',
     REGULAR = 'regular',
@@ -19,6 +23,8 @@ export interface AIModelConfig {
     contextSize: number;
     nonReasoning?: boolean;
     directOverride?: boolean;
+    // Streaming format the model follows most reliably, used when the action doesn't set one
+    streamFormat?: StreamFormat;
 }
 
 // Pricing Baseline: GPT-5 Mini ($0.25/1M Input) = 1.0 Credit
@@ -124,6 +130,7 @@ const MODELS_MASTER = {
             provider: 'anthropic',
             creditCost: 12, // $3.00
             contextSize: 200000, // 200K Context
+            streamFormat: 'xml',
         }
     },
     CLAUDE_4_SONNET: {
@@ -134,6 +141,7 @@ const MODELS_MASTER = {
             provider: 'anthropic',
             creditCost: 12, // $3.00
             contextSize: 200000, // 200K Context
+            streamFormat: 'xml',
         }
     },
     CLAUDE_4_5_SONNET: {
@@ -144,6 +152,7 @@ const MODELS_MASTER = {
             provider: 'anthropic',
             creditCost: 12, // $3.00
             contextSize: 200000, // 200K Context
+            streamFormat: 'xml',
         }
     },
     CLAUDE_4_5_OPUS: {
@@ -154,6 +163,7 @@ const MODELS_MASTER = {
             provider: 'anthropic',
             creditCost: 20, // $5.00
             contextSize: 200000, // 200K Context
+            streamFormat: 'xml',
         }
     },
     CLAUDE_4_5_HAIKU: {
@@ -164,6 +174,7 @@ const MODELS_MASTER = {
             provider: 'anthropic',
             creditCost: 4, // ~$1
             contextSize: 200000, // 200K Context
+            streamFormat: 'xml',
         }
     },
 
@@ -423,6 +434,7 @@ export interface ModelConfig {
     temperature?: number;
     frequency_penalty?: number;
     fallbackModel?: AIModels | string;
+    stream_format?: StreamFormat;
 }
 
 export interface AgentConfig {
@@ -439,6 +451,7 @@ export interface AgentConfig {
     conversationalResponse: ModelConfig;
     deepDebugger: ModelConfig;
     agenticProjectBuilder: ModelConfig;
+    workflowGeneration: ModelConfig;
 }
 
 // Provider and reasoning effort types for validation
@@ -17,6 +17,7 @@ import { CompletionSignal, Message, MessageContent, MessageRole } from './common
 import { ToolCallResult, ToolDefinition, toOpenAITool } from '../tools/types';
 import { AgentActionKey, AI_MODEL_CONFIG, AIModelConfig, AIModels, InferenceMetadata, type InferenceRuntimeOverrides } from './config.types';
 import { RateLimitService } from '../../services/rate-limit/rateLimits';
+import { enforceCreditBudget, recordCreditUsage } from '../../services/credits/budget';
 import { getUserConfigurableSettings } from '../../config';
 import { SecurityError, RateLimitExceededError } from 'shared/types/errors';
 import { RateLimitType } from 'worker/services/rate-limit/config';
@@ -563,6 +564,8 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
         const userConfig = await getUserConfigurableSettings(env, metadata.userId)
         // Maybe in the future can expand using config object for other stuff like global model configs?
         await RateLimitService.enforceLLMCallsRateLimit(env, userConfig.security.rateLimit, metadata.userId, modelName)
+        await enforceCreditBudget(env, userConfig.credits, metadata.userId, modelName);
+        const creditModel = modelName;
         const modelConfig = AI_MODEL_CONFIG[modelName as AIModels];
 
         const { apiKey, baseURL, defaultHeaders } = await getConfigurationForModel(
@@ -712,6 +715,12 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
                 }
             });
             console.log(`Inference response received`);
+            await recordCreditUsage(env, {
+                userId: metadata.userId,
+                appId: metadata.agentId || null,
+                model: creditModel,
+                actionKey,
+            });
         } catch (error) {
             // Check if error is due to abort
             if (error instanceof Error && (error.name === 'AbortError' || error.message?.includes('aborted') || error.message?.includes('abort'))) {
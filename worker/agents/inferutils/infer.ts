@@ -4,7 +4,7 @@ import z from 'zod';
 // import { CodeEnhancementOutput, CodeEnhancementOutputType } from '../codegen/phasewiseGenerator';
 import { SchemaFormat } from './schemaFormatters';
 import type { ReasoningEffort } from './config.types';
-import { AgentActionKey, AIModels, InferenceContext, ModelConfig } from './config.types';
+import { AgentActionKey, AI_MODEL_CONFIG, AIModels, InferenceContext, ModelConfig, StreamFormat } from './config.types';
 import { AGENT_CONFIG } from './config';
 import { createLogger } from '../../logger';
 import { RateLimitExceededError, SecurityError } from 'shared/types/errors';
@@ -37,6 +37,7 @@ function resolveModelConfig(
         max_tokens: userConfig?.max_tokens ?? defaultConfig.max_tokens,
         temperature: userConfig?.temperature ?? defaultConfig.temperature,
         fallbackModel: userConfig?.fallbackModel ?? defaultConfig.fallbackModel,
+        stream_format: userConfig?.stream_format ?? defaultConfig.stream_format,
     };
 
     // Validate model name - try userConfig first, then default
@@ -77,6 +78,28 @@ function resolveModelConfig(
     return merged;
 }
 
+/**
+ * Resolves the streaming format an agent action generates files in
+ *
+ * Precedence: userConfig > AGENT_CONFIG defaults > the model's preferred format > SCOF
+ */
+export function resolveStreamFormat(
+    agentActionName: AgentActionKey,
+    context?: InferenceContext,
+): StreamFormat {
+    const resolvedConfig = resolveModelConfig(
+        agentActionName,
+        context?.userModelConfigs?.[agentActionName],
+    );
+    if (resolvedConfig.stream_format) {
+        return resolvedConfig.stream_format;
+    }
+    const modelPreference = isValidAIModel(resolvedConfig.name)
+        ? AI_MODEL_CONFIG[resolvedConfig.name]?.streamFormat
+        : undefined;
+    return modelPreference ?? 'scof';
+}
+
 /**
  * Helper function to execute AI inference with consistent error handling
  * @param params Parameters for the inference operation
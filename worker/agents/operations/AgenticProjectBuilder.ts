@@ -260,7 +260,7 @@ export class AgenticProjectBuilderOperation extends AgentOperationWithTools<
             createExecCommandsTool(session.agent, logger),
             createWaitTool(logger),
             createGitTool(session.agent, logger),
-            // WIP: images
+            // Assets
             createGenerateImagesTool(session.agent, logger),
         ];
 
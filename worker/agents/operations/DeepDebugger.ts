@@ -81,6 +81,7 @@ export interface DeepDebuggerInputs {
     runtimeErrors?: RuntimeError[];
     streamCb?: (chunk: string) => void;
     toolRenderer?: RenderToolCall;
+    mcpTools?: ToolDefinition<unknown, unknown>[];
 }
 
 export interface DeepDebuggerOutputs {
@@ -160,7 +161,7 @@ export class DeepDebuggerOperation extends AgentOperationWithTools<
     }
 
     protected buildTools(
-        _inputs: DeepDebuggerInputs,
+        inputs: DeepDebuggerInputs,
         options: OperationOptions<GenerationContext>,
         session: DeepDebuggerSession,
         callbacks: ToolCallbacks
@@ -171,6 +172,7 @@ export class DeepDebuggerOperation extends AgentOperationWithTools<
             session,
             logger,
             callbacks.toolRenderer,
+            inputs.mcpTools,
         );
 
         tools.push(createMarkDebuggingCompleteTool(logger));
@@ -1,16 +1,17 @@
 import { PhaseConceptType, FileOutputType } from '../schemas';
 import { IssueReport } from '../domain/values/IssueReport';
 import { createUserMessage, createMultiModalUserMessage } from '../inferutils/common';
-import { executeInference } from '../inferutils/infer';
-import { CodeGenerationStreamingState } from '../output-formats/streaming-formats/base';
+import { executeInference, resolveStreamFormat } from '../inferutils/infer';
+import { CodeGenerationStreamingState, FileGenerationFormat, ParsingState } from '../output-formats/streaming-formats/base';
 import { FileProcessing } from '../domain/pure/FileProcessing';
 import { AgentOperation, getSystemPromptWithProjectContext, OperationOptions } from '../operations/common';
-import { SCOFFormat, SCOFParsingState } from '../output-formats/streaming-formats/scof';
+import { createCodeGenerationFormat } from '../output-formats/streaming-formats';
 import { IsRealtimeCodeFixerEnabled, RealtimeCodeFixer } from '../assistants/realtimeCodeFixer';
-import { CodeSerializerType } from '../utils/codeSerializers';
+import { serializerForStreamFormat } from '../utils/codeSerializers';
 import type { UserContext } from '../core/types';
 import { imagesToBase64 } from '../../utils/images';
 import { PhasicGenerationContext } from '../domain/values/GenerationContext';
+import type { ApplyResult } from '../output-formats/diff-formats';
 import {
 	PHASE_IMPLEMENTATION_SYSTEM_PROMPT,
 	buildPhaseImplementationUserPrompt,
@@ -23,7 +24,7 @@ export interface PhaseImplementationInputs {
     shouldAutoFix: boolean
     userContext?: UserContext;
     fileGeneratingCallback: (filePath: string, filePurpose: string) => void
-    fileChunkGeneratedCallback: (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => void
+    fileChunkGeneratedCallback: (filePath: string, chunk: string, format: FileGenerationFormat) => void
     fileClosedCallback: (file: FileOutputType, message: string) => void
 }
 
@@ -44,10 +45,15 @@ export class PhaseImplementationOperation extends AgentOperation<PhasicGeneratio
 
         logger.info(`Generating files for phase: ${phase.name}`, phase.description, "files:", phase.files.map(f => f.path));
 
-        const codeGenerationFormat = new SCOFFormat();
+        // v1.1: Always use standard config (finance-only platform, configs updated to high reasoning)
+        const agentActionName = inputs.isFirstPhase ? 'firstPhaseImplementation' : 'phaseImplementation';
+
+        const streamFormat = resolveStreamFormat(agentActionName, options.inferenceContext);
+        const codeGenerationFormat = createCodeGenerationFormat(streamFormat);
+        logger.info(`Using ${streamFormat} output format for ${agentActionName}`);
 
         // Build messages for generation
-        const messages = getSystemPromptWithProjectContext(PHASE_IMPLEMENTATION_SYSTEM_PROMPT, context, CodeSerializerType.SCOF, false);
+        const messages = getSystemPromptWithProjectContext(PHASE_IMPLEMENTATION_SYSTEM_PROMPT, context, serializerForStreamFormat(streamFormat), false);
 
         // Create user message with optional images
         const userPrompt = buildPhaseImplementationUserPrompt({ phase, issues, userContext }) + codeGenerationFormat.formatInstructions();
@@ -65,14 +71,11 @@ export class PhaseImplementationOperation extends AgentOperation<PhasicGeneratio
         const streamingState: CodeGenerationStreamingState = {
             accumulator: '',
             completedFiles: new Map(),
-            parsingState: {} as SCOFParsingState
+            parsingState: {} as ParsingState
         };
 
         const fixedFilePromises: Promise<FileOutputType>[] = [];
 
-        // v1.1: Always use standard config (finance-only platform, configs updated to high reasoning)
-        const agentActionName = inputs.isFirstPhase ? 'firstPhaseImplementation' : 'phaseImplementation';
-
         const shouldEnableRealtimeCodeFixer = inputs.shouldAutoFix && IsRealtimeCodeFixerEnabled(options.inferenceContext);
 
         // Execute inference with streaming
@@ -93,7 +96,7 @@ export class PhaseImplementationOperation extends AgentOperation<PhasicGeneratio
                             inputs.fileGeneratingCallback(filePath, FileProcessing.findFilePurpose(filePath, phase, context.allFiles.reduce((acc, f) => ({ ...acc, [f.filePath]: f }), {})));
                         },
                         // Stream file content chunks
-                        (filePath: string, fileChunk: string, format: 'full_content' | 'unified_diff') => {
+                        (filePath: string, fileChunk: string, format: FileGenerationFormat) => {
                             inputs.fileChunkGeneratedCallback(filePath, fileChunk, format);
                         },
                         // onFileClose callback
@@ -105,13 +108,20 @@ export class PhaseImplementationOperation extends AgentOperation<PhasicGeneratio
                                 return;
                             }
 
-                            // Process the file contents
+                            // Process the file contents, keeping search/replace blocks that failed to apply for a retry
                             const originalContents = context.allFiles.find(f => f.filePath === filePath)?.fileContents || '';
-                            completedFile.fileContents = FileProcessing.processGeneratedFileContents(
-                                completedFile,
-                                originalContents,
-                                logger
-                            );
+                            let failedEdits: ApplyResult | undefined;
+                            if (completedFile.format === 'search_replace') {
+                                const editResult = FileProcessing.applySearchReplaceEdits(completedFile, originalContents, logger);
+                                completedFile.fileContents = editResult.content;
+                                failedEdits = editResult.results.blocksFailed > 0 ? editResult : undefined;
+                            } else {
+                                completedFile.fileContents = FileProcessing.processGeneratedFileContents(
+                                    completedFile,
+                                    originalContents,
+                                    logger
+                                );
+                            }
 
                             const generatedFile: FileOutputType = {
                                 ...completedFile,
@@ -122,20 +132,25 @@ export class PhaseImplementationOperation extends AgentOperation<PhasicGeneratio
                                 )
                             };
 
+                            // Report failed search/replace blocks back to the model for corrected ones
+                            const editedFilePromise = failedEdits
+                                ? new RealtimeCodeFixer(env, options.inferenceContext, false, undefined, agentActionName).retryFailedBlocks(generatedFile, failedEdits)
+                                : Promise.resolve(generatedFile);
+
                             if (shouldEnableRealtimeCodeFixer && generatedFile.fileContents.split('\n').length > 50) {
                                 // Call realtime code fixer immediately - this is the "realtime" aspect
                                 const realtimeCodeFixer = new RealtimeCodeFixer(env, options.inferenceContext);
-                                const fixPromise = realtimeCodeFixer.run(
-                                    generatedFile,
+                                const fixPromise = editedFilePromise.then((editedFile) => realtimeCodeFixer.run(
+                                    editedFile,
                                     {
                                         query: context.query,
                                         template: context.templateDetails
                                     },
                                     phase
-                                );
+                                ));
                                 fixedFilePromises.push(fixPromise);
                             } else {
-                                fixedFilePromises.push(Promise.resolve(generatedFile));
+                                fixedFilePromises.push(editedFilePromise);
                             }
 
                             inputs.fileClosedCallback(generatedFile, `Completed generation of ${filePath}`);
@@ -1,12 +1,13 @@
 import { createSystemMessage, createUserMessage } from '../inferutils/common';
-import { executeInference } from '../inferutils/infer';
+import { executeInference, resolveStreamFormat } from '../inferutils/infer';
 import { PROMPT_UTILS } from '../prompts';
 import { AgentOperation, OperationOptions } from './common';
 import { FileOutputType, PhaseConceptType } from '../schemas';
-import { SCOFFormat } from '../output-formats/streaming-formats/scof';
+import { createCodeGenerationFormat } from '../output-formats/streaming-formats';
 import { CodeIssue } from '../../services/sandbox/sandboxTypes';
 import { CodeSerializerType } from '../utils/codeSerializers';
 import { PhasicGenerationContext } from '../domain/values/GenerationContext';
+import { FileProcessing } from '../domain/pure/FileProcessing';
 
 export interface FastCodeFixerInputs {
     query: string;
@@ -15,7 +16,7 @@ export interface FastCodeFixerInputs {
     allPhases?: PhaseConceptType[];
 }
 
-const SYSTEM_PROMPT = `You are a Senior Software Engineer at Cloudflare's Incident Response Team specializing in rapid bug fixes. Your task is to analyze identified code issues and generate complete fixed files using the SCOF format.`
+const SYSTEM_PROMPT = `You are a Senior Software Engineer at Cloudflare's Incident Response Team specializing in rapid bug fixes. Your task is to analyze identified code issues and generate complete fixed files using the output format given below.`
 const USER_PROMPT = `
 ================================
 Here is the codebase of the project:
@@ -52,7 +53,7 @@ Problem: Incorrect import path
 Solution: Fix import path to match actual file structure
 
 ## TASK:
-Analyze each reported issue and generate complete file contents with fixes applied. Use SCOF format for output.
+Analyze each reported issue and generate complete file contents with fixes applied. Use the output format below.
 
 ## FIX GUIDELINES:
 - Address ONLY the specific issues reported
@@ -84,7 +85,7 @@ export class FastCodeFixerOperation extends AgentOperation<PhasicGenerationConte
 
         const userPrompt = userPromptFormatter(query, issues, allFiles, allPhases);
         const systemPrompt = SYSTEM_PROMPT;
-        const codeGenerationFormat = new SCOFFormat();
+        const codeGenerationFormat = createCodeGenerationFormat(resolveStreamFormat('fastCodeFixer', options.inferenceContext));
 
         const messages = [
             createSystemMessage(systemPrompt),
@@ -103,7 +104,15 @@ export class FastCodeFixerOperation extends AgentOperation<PhasicGenerationConte
             return [];
         }
 
-        const files = codeGenerationFormat.deserialize(result.string);
+        // Edits are applied against the files the fixer was shown
+        const files = codeGenerationFormat.deserialize(result.string).map((file) => ({
+            ...file,
+            fileContents: FileProcessing.processGeneratedFileContents(
+                file,
+                allFiles.find(f => f.filePath === file.filePath)?.fileContents || '',
+                logger
+            ),
+        }));
         return files;
     }
 }
@@ -0,0 +1,109 @@
+import { createMultiModalUserMessage, createSystemMessage } from '../inferutils/common';
+import { executeInference } from '../inferutils/infer';
+import { PROMPT_UTILS } from '../prompts';
+import { AgentOperation, OperationOptions } from './common';
+import { PhaseConceptType, ScreenshotAnalysisSchema, ScreenshotAnalysisType } from '../schemas';
+import { PhasicGenerationContext } from '../domain/values/GenerationContext';
+import { AGENT_CONFIG } from '../inferutils/config';
+import { AIModels, InferenceContext } from '../inferutils/config.types';
+
+export interface ScreenshotAnalysisInputs {
+    phase: PhaseConceptType;
+    screenshot: string;             // Data URL of the current preview
+    previousScreenshot?: string;    // Data URL of the previous phase's preview
+    diffRatio: number | null;
+}
+
+const SYSTEM_PROMPT = `You are a meticulous UI/UX QA engineer. You compare screenshots of a web application under development against its design specification and report visual defects and regressions. Be specific and concise, and only report problems that are visible in the screenshots.`;
+
+const USER_PROMPT = `
+The phase "{{phaseName}}" was just implemented:
+<phase_description>
+{{phaseDescription}}
+</phase_description>
+
+The application should have these views:
+<views>
+{{views}}
+</views>
+
+UI layout specification:
+<ui_layout>
+{{uiLayout}}
+</ui_layout>
+
+UI design specification:
+<ui_design>
+{{uiDesign}}
+</ui_design>
+
+{{comparison}}
+
+## TASK
+Review the current screenshot (the first image) and report:
+- Rendering problems: blank or broken page, error overlays, missing content, overlapping or cut-off elements, unreadable text, broken layout
+- Regressions: anything that worked in the previous phase's screenshot and is now broken or missing, unless the phase description explains the change
+- Deviations from the views, layout and design specification above
+
+Only set hasIssues when something is actually wrong. Features planned for later phases are not issues.`;
+
+const userPromptFormatter = (inputs: ScreenshotAnalysisInputs, context: PhasicGenerationContext) => {
+    const { blueprint } = context;
+    const comparison = inputs.previousScreenshot
+        ? `The second image is the preview after the previous phase. ${((inputs.diffRatio ?? 0) * 100).toFixed(1)}% of the pixels changed between the two.`
+        : 'This is the first screenshot of the application, there is no previous phase to compare with.';
+
+    const prompt = PROMPT_UTILS.replaceTemplateVariables(USER_PROMPT, {
+        phaseName: inputs.phase.name,
+        phaseDescription: inputs.phase.description,
+        views: blueprint.views.map(view => `- ${view.name}: ${view.description}`).join('\n'),
+        uiLayout: blueprint.userFlow.uiLayout,
+        uiDesign: blueprint.userFlow.uiDesign,
+        comparison,
+    });
+    return PROMPT_UTILS.verifyPrompt(prompt);
+};
+
+export function isScreenshotAnalysisEnabled(inferenceContext: InferenceContext): boolean {
+    const userConfig = inferenceContext.userModelConfigs?.['screenshotAnalysis'];
+    if (userConfig) {
+        return userConfig.name !== AIModels.DISABLED;
+    }
+    return AGENT_CONFIG.screenshotAnalysis.name !== AIModels.DISABLED;
+}
+
+export class ScreenshotAnalysisOperation extends AgentOperation<PhasicGenerationContext, ScreenshotAnalysisInputs, ScreenshotAnalysisType | null> {
+    async execute(
+        inputs: ScreenshotAnalysisInputs,
+        options: OperationOptions<PhasicGenerationContext>
+    ): Promise<ScreenshotAnalysisType | null> {
+        const { env, logger, context } = options;
+
+        logger.info(`Analyzing preview screenshot for phase ${inputs.phase.name}`, {
+            hasPrevious: !!inputs.previousScreenshot,
+            diffRatio: inputs.diffRatio,
+        });
+
+        const images = inputs.previousScreenshot
+            ? [inputs.screenshot, inputs.previousScreenshot]
+            : [inputs.screenshot];
+
+        const result = await executeInference({
+            env,
+            messages: [
+                createSystemMessage(SYSTEM_PROMPT),
+                createMultiModalUserMessage(userPromptFormatter(inputs, context), images, 'high'),
+            ],
+            agentActionName: 'screenshotAnalysis',
+            schema: ScreenshotAnalysisSchema,
+            context: options.inferenceContext,
+        });
+
+        if (!result || !result.object) {
+            logger.error('Screenshot analysis returned no result after all retries');
+            return null;
+        }
+
+        return result.object;
+    }
+}
@@ -1,10 +1,10 @@
 import { FileConceptType, FileOutputType } from '../schemas';
 import { createUserMessage, createSystemMessage } from '../inferutils/common';
-import { executeInference } from '../inferutils/infer';
+import { executeInference, resolveStreamFormat } from '../inferutils/infer';
 import { PROMPT_UTILS } from '../prompts';
 import { AgentOperation, getSystemPromptWithProjectContext, OperationOptions } from './common';
-import { SCOFFormat, SCOFParsingState } from '../output-formats/streaming-formats/scof';
-import { CodeGenerationStreamingState } from '../output-formats/streaming-formats/base';
+import { createCodeGenerationFormat } from '../output-formats/streaming-formats';
+import { CodeGenerationStreamingState, FileGenerationFormat, ParsingState } from '../output-formats/streaming-formats/base';
 import { FileProcessing } from '../domain/pure/FileProcessing';
 import { CodeSerializerType } from '../utils/codeSerializers';
 import { GenerationContext } from '../domain/values/GenerationContext';
@@ -16,7 +16,7 @@ export interface SimpleCodeGenerationInputs {
     requirements: string[];
     files: FileConceptType[];
     fileGeneratingCallback?: (filePath: string, filePurpose: string) => void;
-    fileChunkGeneratedCallback?: (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => void;
+    fileChunkGeneratedCallback?: (filePath: string, chunk: string, format: FileGenerationFormat) => void;
     fileClosedCallback?: (file: FileOutputType, message: string) => void;
 }
 
@@ -157,7 +157,7 @@ export class SimpleCodeGenerationOperation extends AgentOperation<
             relevantFiles: existingFilesContext
         });
 
-        const codeGenerationFormat = new SCOFFormat();
+        const codeGenerationFormat = createCodeGenerationFormat(resolveStreamFormat('fileRegeneration', inferenceContext));
         const messages = [
             createSystemMessage(systemPrompt),
             createUserMessage(userPrompt + codeGenerationFormat.formatInstructions())
@@ -167,7 +167,7 @@ export class SimpleCodeGenerationOperation extends AgentOperation<
         const streamingState: CodeGenerationStreamingState = {
             accumulator: '',
             completedFiles: new Map(),
-            parsingState: {} as SCOFParsingState
+            parsingState: {} as ParsingState
         };
 
         const generatedFiles: FileOutputType[] = [];
@@ -193,7 +193,7 @@ export class SimpleCodeGenerationOperation extends AgentOperation<
                             }
                         },
                         // Stream file content chunks
-                        (filePath: string, fileChunk: string, format: 'full_content' | 'unified_diff') => {
+                        (filePath: string, fileChunk: string, format: FileGenerationFormat) => {
                             if (inputs.fileChunkGeneratedCallback) {
                                 inputs.fileChunkGeneratedCallback(filePath, fileChunk, format);
                             }
@@ -355,11 +355,13 @@ export class UserConversationProcessor extends AgentOperation<GenerationContext,
             const toolCallRenderer = buildToolCallRenderer(inputs.conversationResponseCallback, aiConversationId);
 
             // Assemble all tools with lifecycle callbacks for UI updates
+            const mcpTools = await agent.getMCPTools('conversation');
             const tools = buildTools(
                 agent,
                 logger,
                 toolCallRenderer,
-                (chunk: string) => inputs.conversationResponseCallback(chunk, aiConversationId, true)
+                (chunk: string) => inputs.conversationResponseCallback(chunk, aiConversationId, true),
+                mcpTools
             ).map(td => ({
                 ...td,
                 onStart: (_tc: ChatCompletionMessageFunctionToolCall, args: Record<string, unknown>) => Promise.resolve(toolCallRenderer({ name: td.name, status: 'start', args })),
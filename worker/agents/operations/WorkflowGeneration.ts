@@ -0,0 +1,103 @@
+import { WorkflowGraphSchema, WorkflowGraphType } from '../schemas';
+import { createSystemMessage, createUserMessage, createAssistantMessage, Message } from '../inferutils/common';
+import { executeInference } from '../inferutils/infer';
+import { AgentOperation, OperationOptions } from '../operations/common';
+import { WorkflowGraph } from '../domain/pure/WorkflowGraph';
+import { GenerationContext } from '../domain/values/GenerationContext';
+
+export interface WorkflowGenerationInputs {
+    query: string;
+    existingGraph: WorkflowGraphType | null;
+    userRequests: string[];
+}
+
+const MAX_VALIDATION_RETRIES = 2;
+
+const SYSTEM_PROMPT = `<ROLE>
+    You are a senior Cloudflare engineer designing durable, multi-step Cloudflare Workflows (WorkflowEntrypoint + step.do / step.sleep / step.waitForEvent).
+</ROLE>
+
+<TASK>
+    Design the step graph for the workflow the user describes. The graph is rendered into a Worker project by our tooling, so you only describe steps - never the surrounding class, bindings or fetch handler.
+</TASK>
+
+<RULES>
+    • Every side effect (network calls, writes, emails) lives inside its own \`do\` step so it is retried and cached independently. Keep steps small and idempotent.
+    • Step names must be unique and deterministic - they are the cache keys for step results. Never derive them from Date.now() or random values.
+    • \`do\` step code is the BODY of an async arrow function. It can read \`event.payload\` (the workflow params), \`this.env\`, and the results of its dependencies as camelCase variables named after their step id (e.g. step "fetch-invoices" -> \`fetchInvoices\`). It must \`return\` a JSON-serializable value.
+    • Only use Web APIs available in Workers (fetch, crypto, URL...). No Node.js APIs and no npm packages.
+    • Use \`sleep\` for fixed delays and \`waitForEvent\` for human approvals or external callbacks, with a realistic duration.
+    • Add retries with exponential backoff to steps that call external services.
+    • Provide a realistic \`sampleOutput\` (JSON) for every \`do\` and \`waitForEvent\` step. Dry runs execute \`do\` steps for real and use the \`waitForEvent\` sample as the event payload.
+    • Step ids must map to distinct camelCase variables that aren't reserved words (not \`delete\`, \`class\`, \`step\` or \`event\`). Param names must be identifiers.
+    • List steps in execution order; \`dependsOn\` may only reference earlier steps.
+    • Declare every value the workflow needs on \`event.payload\` as a param, with a JSON example.
+</RULES>`;
+
+const USER_PROMPT = `<USER_QUERY>
+{{query}}
+</USER_QUERY>
+
+{{existingGraph}}
+
+{{requests}}
+
+Produce the complete workflow step graph.`;
+
+const formatUserPrompt = (inputs: WorkflowGenerationInputs): string => {
+    const existingGraph = inputs.existingGraph
+        ? `<CURRENT_WORKFLOW_GRAPH>\n${JSON.stringify(inputs.existingGraph, null, 2)}\n</CURRENT_WORKFLOW_GRAPH>\n\nUpdate this graph. Keep step ids and names stable for steps that do not change.`
+        : '';
+    const requests = inputs.userRequests.length > 0
+        ? `<USER_REQUESTS>\n${inputs.userRequests.map((request) => `- ${request}`).join('\n')}\n</USER_REQUESTS>`
+        : '';
+
+    return USER_PROMPT
+        .replace('{{query}}', inputs.query)
+        .replace('{{existingGraph}}', existingGraph)
+        .replace('{{requests}}', requests);
+};
+
+export class WorkflowGenerationOperation extends AgentOperation<GenerationContext, WorkflowGenerationInputs, WorkflowGraphType> {
+    async execute(
+        inputs: WorkflowGenerationInputs,
+        options: OperationOptions
+    ): Promise<WorkflowGraphType> {
+        const { env, logger } = options;
+
+        const messages: Message[] = [
+            createSystemMessage(SYSTEM_PROMPT),
+            createUserMessage(formatUserPrompt(inputs)),
+        ];
+
+        for (let attempt = 0; attempt <= MAX_VALIDATION_RETRIES; attempt++) {
+            const result = await executeInference({
+                env,
+                messages,
+                agentActionName: 'workflowGeneration',
+                schema: WorkflowGraphSchema,
+                context: options.inferenceContext,
+                format: 'markdown',
+            });
+
+            if (!result || !result.object) {
+                throw new Error('Workflow generation returned no result');
+            }
+
+            const graph = result.object;
+            const errors = WorkflowGraph.validate(graph);
+            if (errors.length === 0) {
+                logger.info('Generated workflow graph', { name: graph.name, steps: graph.steps.length });
+                return graph;
+            }
+
+            logger.warn('Generated workflow graph is invalid', { attempt, errors });
+            messages.push(
+                createAssistantMessage(JSON.stringify(graph)),
+                createUserMessage(`The workflow graph has problems:\n${errors.map((error) => `- ${error}`).join('\n')}\n\nFix them and return the complete graph again.`),
+            );
+        }
+
+        throw new Error('Failed to generate a valid workflow graph');
+    }
+}
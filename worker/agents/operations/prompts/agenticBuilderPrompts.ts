@@ -203,6 +203,12 @@ ${isPresentationProject ? '[Note: For presentations, deploy_preview updates the
 - Parallel: Can regenerate multiple different files simultaneously
 - Describe issues specifically: exact error messages, line numbers, one problem per issue
 
+**generate_images** - Generate images as static assets
+- What: Hero images, illustrations, backgrounds, slide visuals from text prompts
+- How: Images → public/images/<name>.svg in Virtual FS, auto-committed to git and synced to sandbox
+- When: Any page or slide that needs imagery - use the returned URLs instead of placeholder image services
+- Parallel: Request up to 4 images per call with a shared style for a consistent look
+
 ** ALWAYS Review the generated file contents for correctness before moving forward.
 
 ## Deployment & Testing (Interactive Projects Only)
@@ -5,6 +5,9 @@
 
 import { FileGenerationOutputType } from "../../schemas";
 
+// How the contents of a generated file are expressed
+export type FileGenerationFormat = FileGenerationOutputType['format'];
+
 // export interface FileObject extends CompleteFileObject {
 //     format: 'full_content' | 'unified_diff';
 // }
@@ -30,7 +33,7 @@ export interface ParsingState {
     currentFile: string | null;
     
     // Format of the current file being processed
-    currentFileFormat: 'full_content' | 'unified_diff' | null;
+    currentFileFormat: FileGenerationFormat | null;
     
     // Buffer for accumulating content within EOF blocks
     contentBuffer: string;
@@ -93,7 +96,7 @@ export abstract class CodeGenerationFormat {
         chunk: string, 
         state: CodeGenerationStreamingState,
         onFileOpen: (filePath: string) => void,    // To be called when a new file is opened
-        onFileChunk: (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => void,    // To be called to pass the chunk of a file
+        onFileChunk: (filePath: string, chunk: string, format: FileGenerationFormat) => void,    // To be called to pass the chunk of a file
         onFileClose: (filePath: string) => void    // To be called when a file is closed
     ): CodeGenerationStreamingState;
 
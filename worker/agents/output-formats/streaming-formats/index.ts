@@ -0,0 +1,21 @@
+/**
+ * Streaming formats for LLM file generation
+ *
+ * Every format parses the same streamed callbacks, so operations pick one
+ * per agent action (see resolveStreamFormat) without changing how they
+ * process files.
+ */
+
+import type { StreamFormat } from '../../inferutils/config.types';
+import { CodeGenerationFormat } from './base';
+import { SCOFFormat } from './scof';
+import { XmlStreamFormat } from './xml-stream';
+
+export function createCodeGenerationFormat(format: StreamFormat): CodeGenerationFormat {
+    switch (format) {
+        case 'xml':
+            return new XmlStreamFormat();
+        case 'scof':
+            return new SCOFFormat();
+    }
+}
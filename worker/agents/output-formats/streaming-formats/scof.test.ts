@@ -171,6 +171,35 @@ PATCH
             expect(file?.format).toBe('unified_diff');
         });
 
+        it('should keep search/replace patches verbatim for later application', () => {
+            const body = `<<<<<<< SEARCH
+function test() {
+
+    return false;
+=======
+function test() {
+
+    return true;
+>>>>>>> REPLACE`;
+            const state = createInitialState();
+            const input = `cat << 'EOF' | patch test.js\n${body}\nEOF\n`;
+            for (let i = 0; i < input.length; i += 7) {
+                scofParser.parseStreamingChunks(
+                    input.slice(i, i + 7),
+                    state,
+                    mockCallbacks.onFileOpen,
+                    mockCallbacks.onFileChunk,
+                    mockCallbacks.onFileClose
+                );
+            }
+
+            const file = state.completedFiles.get('test.js');
+            expect(file?.format).toBe('search_replace');
+            expect(file?.fileContents).toBe(body);
+            expect(mockCallbacks.onFileChunk).toHaveBeenCalledWith('test.js', '<<<<<<< SEARCH\n', 'search_replace');
+            expect(mockCallbacks.onFileClose).toHaveBeenCalledTimes(1);
+        });
+
         it('should handle comments and empty lines', () => {
             const chunk = `# This is a comment
 # Creating a new file
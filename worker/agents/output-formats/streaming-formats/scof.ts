@@ -1,4 +1,4 @@
-import { CodeGenerationFormat, CodeGenerationStreamingState, ParsingState } from './base';
+import { CodeGenerationFormat, CodeGenerationStreamingState, FileGenerationFormat, ParsingState } from './base';
 import { FileGenerationOutputType } from "../../schemas";
 import { applyDiff } from '../diff-formats/udiff';
 import { extractCommands } from '../../utils/common';
@@ -6,6 +6,8 @@ import { extractCommands } from '../../utils/common';
 // SCOF-specific parsing state with comprehensive tracking
 export type SCOFParsingState = ParsingState;
 
+const SEARCH_MARKER = /^\s*<{7} SEARCH\s*$/;
+
 /**
  * SCOF (Shell Command Output Format) implementation with robust chunk handling
  * Handles arbitrary chunk boundaries, mixed formats, and ensures single callback calls per file
@@ -16,7 +18,7 @@ export class SCOFFormat extends CodeGenerationFormat {
         chunk: string,
         state: CodeGenerationStreamingState,
         onFileOpen: (filePath: string) => void,
-        onFileChunk: (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => void,
+        onFileChunk: (filePath: string, chunk: string, format: FileGenerationFormat) => void,
         onFileClose: (filePath: string) => void
     ): CodeGenerationStreamingState {
         // Initialize SCOF-specific parsing state if not present or corrupted
@@ -69,7 +71,7 @@ export class SCOFFormat extends CodeGenerationFormat {
         state: CodeGenerationStreamingState,
         scofState: SCOFParsingState,
         onFileOpen: (filePath: string) => void,
-        onFileChunk: (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => void,
+        onFileChunk: (filePath: string, chunk: string, format: FileGenerationFormat) => void,
         onFileClose: (filePath: string) => void
     ): void {
         // Combine any partial line from previous chunk with new content
@@ -79,8 +81,8 @@ export class SCOFFormat extends CodeGenerationFormat {
         const lines = fullContent.split('\n');
         const lastLineComplete = state.accumulator.endsWith('\n');
         
-        // Process complete lines
-        const linesToProcess = lastLineComplete ? lines : lines.slice(0, -1);
+        // Process complete lines; after a trailing newline the last element is empty, not a line
+        const linesToProcess = lines.slice(0, -1);
         
         for (let i = 0; i < linesToProcess.length; i++) {
             const line = linesToProcess[i];
@@ -113,7 +115,7 @@ export class SCOFFormat extends CodeGenerationFormat {
         line: string,
         scofState: SCOFParsingState,
         onFileOpen: (filePath: string) => void,
-        onFileChunk: (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => void,
+        onFileChunk: (filePath: string, chunk: string, format: FileGenerationFormat) => void,
         onFileClose: (filePath: string) => void,
         state: CodeGenerationStreamingState
     ): void {
@@ -462,8 +464,9 @@ export class SCOFFormat extends CodeGenerationFormat {
         const filePath = scofState.currentFile;
         let finalContent = scofState.contentBuffer;
         
-        // Apply diff if this is a diff patch operation
-        if (scofState.currentMode === 'diff_patch') {
+        // Apply unified diffs to files written earlier in the stream; search/replace
+        // blocks are applied later against the original file
+        if (scofState.currentMode === 'diff_patch' && scofState.currentFileFormat === 'unified_diff') {
             const existingFile = state.completedFiles.get(filePath);
             const existingContent = existingFile?.fileContents || '';
             if (existingContent) {
@@ -524,9 +527,21 @@ export class SCOFFormat extends CodeGenerationFormat {
         return scofState.eofMarker ? line.includes(scofState.eofMarker) : false;
     }
     
-    private addContentLine(line: string, scofState: SCOFParsingState, onFileChunk: (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => void): void {
+    private addContentLine(line: string, scofState: SCOFParsingState, onFileChunk: (filePath: string, chunk: string, format: FileGenerationFormat) => void): void {
         // ENHANCED: Handle nested EOF-like patterns in content
         if (scofState.currentFile && scofState.currentFileFormat) {
+            // A patch body opening with a SEARCH marker holds search/replace blocks
+            if (scofState.currentMode === 'diff_patch' && scofState.contentBuffer === '' && SEARCH_MARKER.test(line)) {
+                scofState.currentFileFormat = 'search_replace';
+            }
+
+            // Search/replace blocks are kept verbatim, blank lines included, so they match exactly
+            if (scofState.currentFileFormat === 'search_replace') {
+                scofState.contentBuffer += (scofState.contentBuffer.length > 0 ? '\n' : '') + line;
+                onFileChunk(scofState.currentFile, line + '\n', scofState.currentFileFormat);
+                return;
+            }
+
             // Add line to content buffer (preserve original line formatting)
             // Only add newline separator if we have existing content and this line isn't empty
             if (scofState.contentBuffer.length > 0 && !scofState.contentBuffer.endsWith('\n') && line.trim() !== '') {
@@ -554,7 +569,7 @@ export class SCOFFormat extends CodeGenerationFormat {
         }
         
         for (const file of files) {
-            if (file.format === 'unified_diff') {
+            if (file.format === 'unified_diff' || file.format === 'search_replace') {
                 output += `# Patch for file: ${file.filePath}\n`;
                 output += formatAsComment(file.filePurpose);
                 output += `cat << 'EOF' | patch ${file.filePath}\n`;
@@ -635,12 +650,16 @@ cat > filename.ext << 'EOF'
 EOF
 \`\`\`
 
-DIFF PATCHES as \`unified_diff\`:
+SEARCH/REPLACE EDITS to an existing file as \`search_replace\`:
 
 \`\`\`
-# Optional: Add bash comments to explain the diff contents just before the patch
+# Optional: Add bash comments to explain the edits just before the patch
 cat << 'EOF' | patch filename.ext
-[diff content here]
+<<<<<<< SEARCH
+[exact lines currently in the file]
+=======
+[lines to put in their place]
+>>>>>>> REPLACE
 EOF
 \`\`\`
 
@@ -658,11 +677,12 @@ SUPER IMPORTANT RULES:
 2. Use single quotes around EOF markers for consistency
 3. Ensure proper line endings and EOF markers JUST AS PROVIDED in the format instructions
 4. Adhere to the above instructions for file creation and patching
-5. Each file can use consistently either full content OR unified diff depending on other instructions.
-6. Write multiple files in sequence, separated by newlines
-7. At the end of the contents of every file, there should always be a EOF marker to mark the end of the file contents
-8. Do not add any additional bash commands or instructions. This would be parsed by a custom parser, not by the shell. No commands are supported other than bun add/install
-9. No need to add backticks in your output, they are used here for formatting
+5. Use full content for new files or when most of a file changes, and search/replace edits for small changes to existing files. A patch may hold several SEARCH/REPLACE blocks, applied in order
+6. Each SEARCH section must match the current file exactly, including indentation and blank lines, and should include just enough lines to be unique
+7. Write multiple files in sequence, separated by newlines
+8. At the end of the contents of every file, there should always be a EOF marker to mark the end of the file contents
+9. Do not add any additional bash commands or instructions. This would be parsed by a custom parser, not by the shell. No commands are supported other than bun add/install
+10. No need to add backticks in your output, they are used here for formatting
 
 Example:
 
@@ -674,9 +694,12 @@ export function formatDate(date: Date): string {
 EOF
 
 cat << 'EOF' | patch src/index.ts
-@@ -1,3 +1,4 @@
-+import { formatDate } from './utils/helper';
- console.log('Hello');
+<<<<<<< SEARCH
+console.log('Hello');
+=======
+import { formatDate } from './utils/helper';
+console.log('Hello', formatDate(new Date()));
+>>>>>>> REPLACE
 EOF
 \`\`\`
 
@@ -5,6 +5,8 @@
 
 import { describe, test, beforeEach, expect, vi } from 'vitest';
 import { XmlStreamFormat, XmlStreamingCallbacks } from './xml-stream';
+import { CodeGenerationStreamingState } from './base';
+import { applySearchReplaceDiff } from '../diff-formats';
 
 describe('XmlStreamFormat', () => {
     let parser: XmlStreamFormat;
@@ -473,4 +475,115 @@ describe('XmlStreamFormat', () => {
             expect(nonExistentArray).toHaveLength(0);
         });
     });
+
+    describe('File Generation', () => {
+        const createStreamingState = (): CodeGenerationStreamingState => ({
+            accumulator: '',
+            completedFiles: new Map(),
+            parsingState: {} as CodeGenerationStreamingState['parsingState'],
+        });
+
+        const streamInChunks = (output: string, chunkSize: number) => {
+            const state = createStreamingState();
+            const onFileOpen = vi.fn();
+            const onFileChunk = vi.fn();
+            const onFileClose = vi.fn();
+            for (let i = 0; i < output.length; i += chunkSize) {
+                parser.parseStreamingChunks(output.slice(i, i + chunkSize), state, onFileOpen, onFileChunk, onFileClose);
+            }
+            return { state, onFileOpen, onFileChunk, onFileClose };
+        };
+
+        const component = `export function Card() {
+    return (
+        <div className="card">
+            <span>{'</fil'}</span>
+        </div>
+    );
+}`;
+
+        test('should read file contents raw regardless of chunk boundaries', () => {
+            const output = `Here is the file:\n<file path="src/Card.tsx">\n${component}\n</file>\nDone.`;
+
+            for (const chunkSize of [1, 3, 7, 64, output.length]) {
+                const { state, onFileOpen, onFileChunk, onFileClose } = streamInChunks(output, chunkSize);
+
+                expect(onFileOpen).toHaveBeenCalledTimes(1);
+                expect(onFileOpen).toHaveBeenCalledWith('src/Card.tsx');
+                expect(onFileClose).toHaveBeenCalledTimes(1);
+                expect(onFileChunk.mock.calls.map(([, chunk]) => chunk).join('')).toBe(`${component}\n`);
+                expect(onFileChunk.mock.calls.every(([, , format]) => format === 'full_content')).toBe(true);
+                expect(state.completedFiles.get('src/Card.tsx')).toEqual({
+                    filePath: 'src/Card.tsx',
+                    fileContents: component,
+                    format: 'full_content',
+                    filePurpose: '',
+                });
+            }
+        });
+
+        test('should turn edit elements into applicable search/replace blocks', () => {
+            const original = `import { useState } from 'react';\n\nexport function Counter() {\n    const [count, setCount] = useState(0);\n    return <button>{count}</button>;\n}`;
+            const output = `<edit path="src/Counter.tsx">
+<search>
+    const [count, setCount] = useState(0);
+</search>
+<replace>
+    const [count, setCount] = useState(10);
+</replace>
+<search>
+    return <button>{count}</button>;
+</search>
+<replace>
+    return <button onClick={() => setCount(count + 1)}>{count}</button>;
+</replace>
+</edit>`;
+
+            const { state, onFileChunk, onFileClose } = streamInChunks(output, 5);
+            const edited = state.completedFiles.get('src/Counter.tsx')!;
+
+            expect(onFileClose).toHaveBeenCalledWith('src/Counter.tsx');
+            expect(edited.format).toBe('search_replace');
+            expect(onFileChunk).toHaveBeenCalledTimes(2);
+
+            const { content, results } = applySearchReplaceDiff(original, edited.fileContents, { strict: false });
+            expect(results.blocksApplied).toBe(2);
+            expect(content).toContain('useState(10)');
+            expect(content).toContain('onClick={() => setCount(count + 1)}');
+        });
+
+        test('should extract install commands and skip elements without a path', () => {
+            const output = `<command>bun add zod</command>
+<file>
+ignored
+</file>
+<command>
+bun add zod
+bun add date-fns
+</command>
+<file path="src/a.ts">
+export const a = 1;
+</file>`;
+
+            const { state, onFileOpen } = streamInChunks(output, 4);
+
+            expect(state.parsingState.extractedInstallCommands).toEqual(['bun add zod', 'bun add date-fns']);
+            expect(onFileOpen).toHaveBeenCalledTimes(1);
+            expect([...state.completedFiles.keys()]).toEqual(['src/a.ts']);
+        });
+
+        test('should round trip serialized files', () => {
+            const files = [
+                { filePath: 'src/Card.tsx', fileContents: component, format: 'full_content' as const, filePurpose: '' },
+                {
+                    filePath: 'src/b.ts',
+                    fileContents: '<<<<<<< SEARCH\nconst b = 1;\n=======\nconst b = 2;\n>>>>>>> REPLACE\n',
+                    format: 'search_replace' as const,
+                    filePurpose: '',
+                },
+            ];
+
+            expect(parser.deserialize(parser.serialize(files))).toEqual(files);
+        });
+    });
 });
\ No newline at end of file
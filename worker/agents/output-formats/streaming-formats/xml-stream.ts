@@ -2,10 +2,16 @@
  * General Purpose XML Streaming Format
  * Robust streaming parser for any XML structure with LLM error resilience
  * Extends the proven streaming infrastructure from SCOF format
+ *
+ * Also implements file generation as an alternative to SCOF:
+ * <file> elements carry full file contents and <edit> elements carry
+ * search/replace blocks. File contents are read raw, so markup inside code
+ * (JSX, HTML) is never mistaken for elements.
  */
 
-import { CodeGenerationFormat, CodeGenerationStreamingState, ParsingState } from './base';
+import { CodeGenerationFormat, CodeGenerationStreamingState, FileGenerationFormat, ParsingState } from './base';
 import { FileGenerationOutputType } from "../../schemas";
+import { extractCommands } from '../../utils/common';
 
 // XML parsing state
 export interface XmlParsingState extends ParsingState {
@@ -38,6 +44,21 @@ export interface XmlParsingState extends ParsingState {
     rawXmlBuffer: string;
 }
 
+// File generation parsing state
+export interface XmlFileParsingState extends ParsingState {
+    // Element currently being read
+    xmlFileMode: 'outside' | 'file' | 'edit' | 'search' | 'replace' | 'command';
+
+    // Search text waiting for its replace block
+    pendingSearch: string | null;
+
+    // Contents of the current search, replace or command element
+    sectionBuffer: string;
+
+    // Drop the newline that directly follows an opening <file> tag
+    trimLeadingNewline: boolean;
+}
+
 export interface XmlElement {
     tagName: string;
     attributes: Record<string, string>;
@@ -67,6 +88,13 @@ export interface XmlParsingConfig {
     maxBufferSize?: number;
 }
 
+// Top level elements of file generation output
+const FILE_ELEMENT_OPEN = /<(file|edit|command)(\s[^>]*)?>/;
+const EDIT_TAGS = ['<search>', '<replace>', '</edit>'];
+
+// Blocks as understood by the search/replace diff format
+const SEARCH_REPLACE_BLOCK = /<<<<<<< SEARCH\n([\s\S]*?)\n=======\n([\s\S]*?)\n>>>>>>> REPLACE/g;
+
 /**
  * XmlStreamFormat - General purpose XML streaming parser
  * Uses the same reliability patterns as SCOF format for robust chunk handling
@@ -74,50 +102,373 @@ export interface XmlParsingConfig {
 export class XmlStreamFormat extends CodeGenerationFormat {
     
     parseStreamingChunks(
-        _chunk: string,
+        chunk: string,
         state: CodeGenerationStreamingState,
-        _onFileOpen: (filePath: string) => void,
-        _onFileChunk: (filePath: string, chunk: string, format: 'full_content' | 'unified_diff') => void,
-        _onFileClose: (filePath: string) => void
+        onFileOpen: (filePath: string) => void,
+        onFileChunk: (filePath: string, chunk: string, format: FileGenerationFormat) => void,
+        onFileClose: (filePath: string) => void
     ): CodeGenerationStreamingState {
-        // This method is required by the abstract class but not used for XML parsing
-        // The actual XML parsing is done via parseXmlStream method
+        // Initialize file parsing state if not present or corrupted
+        if (!state.parsingState || !this.isValidXmlFileState(state.parsingState)) {
+            state.parsingState = this.initializeXmlFileState();
+        }
+
+        const fileState = state.parsingState as XmlFileParsingState;
+        state.accumulator += chunk;
+
+        // Consume elements until the rest of the accumulator is incomplete
+        while (this.processFileElement(state, fileState, onFileOpen, onFileChunk, onFileClose)) {
+            // Keep going
+        }
+
         return state;
     }
-    
-    serialize(_files: FileGenerationOutputType[]): string {
-        // Not directly applicable for XML format
-        return '';
+
+    serialize(files: FileGenerationOutputType[]): string {
+        return files.map((file) => {
+            if (file.format === 'search_replace') {
+                const blocks = [...file.fileContents.matchAll(SEARCH_REPLACE_BLOCK)]
+                    .map(([, search, replace]) => `<search>\n${search}\n</search>\n<replace>\n${replace}\n</replace>`);
+                return `<edit path="${file.filePath}">\n${blocks.join('\n')}\n</edit>\n`;
+            }
+            // Default to full file contents
+            const contents = file.fileContents.endsWith('\n') ? file.fileContents : `${file.fileContents}\n`;
+            return `<file path="${file.filePath}">\n${contents}</file>\n`;
+        }).join('\n');
     }
-    
-    deserialize(_serialized: string): FileGenerationOutputType[] {
-        // Not directly applicable for XML format
-        return [];
+
+    deserialize(serialized: string): FileGenerationOutputType[] {
+        const state: CodeGenerationStreamingState = {
+            accumulator: '',
+            completedFiles: new Map(),
+            parsingState: this.initializeXmlFileState()
+        };
+
+        this.parseStreamingChunks(
+            serialized,
+            state,
+            () => {}, // onFileOpen
+            () => {}, // onFileChunk
+            () => {}  // onFileClose
+        );
+
+        return Array.from(state.completedFiles.values());
     }
-    
+
     formatInstructions(): string {
         return `
-<XML OUTPUT FORMAT>
-Structure your response using well-formed XML:
-
-<element_name>
-[Content here]
-</element_name>
-
-<another_element attribute="value">
-[More content]
-</another_element>
-
-IMPORTANT:
-- Use proper XML formatting with matching opening/closing tags
-- Attributes should be quoted with double quotes
-- Content can span multiple lines
-- Nested elements are supported
-- Self-closing tags: <element />
-</XML OUTPUT FORMAT>
+<OUTPUT FORMAT>
+Use the **EXACT** following XML tags for multi-file code generation:
+
+FULL FILE CONTENTS (new files, or when most of a file changes):
+
+<file path="src/utils/helper.ts">
+[complete raw file contents]
+</file>
+
+SEARCH/REPLACE EDITS (small changes to an existing file):
+
+<edit path="src/App.tsx">
+<search>
+[exact lines currently in the file]
+</search>
+<replace>
+[lines to put in their place]
+</replace>
+</edit>
+
+You may optionally suggest install commands if needed for any dependencies (only bun is available)
+
+<command>bun add <dependencies></command>
+
+SUPER IMPORTANT RULES:
+1. Write file contents raw - no escaping, no CDATA, no markdown fences
+2. Every <file> must end with </file> and every <edit> with </edit>
+3. An <edit> may hold several <search>/<replace> pairs, applied in order
+4. Each <search> must match the current file exactly, including indentation, and should include just enough lines to be unique
+5. Only edit files that already exist; use <file> for new files
+6. Do not write </file>, </search> or </replace> inside file contents
+7. Text outside these tags is ignored. Only bun add/install commands are supported in <command>
+8. Install well known compatible major versions or simply the latest. Do not suggest install commands for already installed dependencies
+
+Example:
+
+<file path="src/utils/helper.ts">
+export function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+</file>
+
+<edit path="src/index.ts">
+<search>
+console.log('Hello');
+</search>
+<replace>
+import { formatDate } from './utils/helper';
+console.log('Hello', formatDate(new Date()));
+</replace>
+</edit>
+
+</OUTPUT FORMAT>
 `;
     }
 
+    private isValidXmlFileState(parsingState: any): parsingState is XmlFileParsingState {
+        return parsingState &&
+               typeof parsingState.xmlFileMode === 'string' &&
+               parsingState.openedFiles instanceof Set &&
+               parsingState.closedFiles instanceof Set &&
+               typeof parsingState.contentBuffer === 'string' &&
+               typeof parsingState.sectionBuffer === 'string';
+    }
+
+    private initializeXmlFileState(): XmlFileParsingState {
+        return {
+            currentMode: 'idle',
+            currentFile: null,
+            currentFileFormat: null,
+            contentBuffer: '',
+            eofMarker: null,
+            insideEofBlock: false,
+            openedFiles: new Set(),
+            closedFiles: new Set(),
+            partialLineBuffer: '',
+            commandBuffer: '',
+            parsingMultiLineCommand: false,
+            potentialEofBuffer: '',
+            tailBuffer: '',
+            lastChunkEndedWithNewline: false,
+            betweenFilesBuffer: '',
+            extractedInstallCommands: [],
+
+            xmlFileMode: 'outside',
+            pendingSearch: null,
+            sectionBuffer: '',
+            trimLeadingNewline: false
+        };
+    }
+
+    /**
+     * Consume the next piece of the accumulator
+     * Returns false once the remaining text needs more chunks
+     */
+    private processFileElement(
+        state: CodeGenerationStreamingState,
+        fileState: XmlFileParsingState,
+        onFileOpen: (filePath: string) => void,
+        onFileChunk: (filePath: string, chunk: string, format: FileGenerationFormat) => void,
+        onFileClose: (filePath: string) => void
+    ): boolean {
+        switch (fileState.xmlFileMode) {
+            case 'outside': {
+                const match = state.accumulator.match(FILE_ELEMENT_OPEN);
+                if (!match) {
+                    // Text between elements is ignored, except a tag still being streamed
+                    state.accumulator = state.accumulator.slice(this.partialTagStart(state.accumulator));
+                    return false;
+                }
+                state.accumulator = state.accumulator.slice(match.index! + match[0].length);
+                this.openFileElement(match[1] as 'file' | 'edit' | 'command', this.extractAttributes(match[0]), fileState, onFileOpen);
+                return true;
+            }
+            case 'file': {
+                const { content, closed } = this.takeUntil(state, '</file>');
+                this.appendFileContent(content, fileState, onFileChunk);
+                if (closed) {
+                    this.finalizeFile(state, fileState, onFileClose);
+                }
+                return closed;
+            }
+            case 'edit': {
+                const next = EDIT_TAGS
+                    .map((tag) => ({ tag, index: state.accumulator.indexOf(tag) }))
+                    .filter(({ index }) => index >= 0)
+                    .sort((a, b) => a.index - b.index)[0];
+                if (!next) {
+                    state.accumulator = state.accumulator.slice(this.partialTagStart(state.accumulator));
+                    return false;
+                }
+                state.accumulator = state.accumulator.slice(next.index + next.tag.length);
+                if (next.tag === '</edit>') {
+                    this.finalizeFile(state, fileState, onFileClose);
+                } else {
+                    fileState.xmlFileMode = next.tag === '<search>' ? 'search' : 'replace';
+                    fileState.sectionBuffer = '';
+                }
+                return true;
+            }
+            case 'search':
+            case 'replace':
+            case 'command': {
+                const { content, closed } = this.takeUntil(state, `</${fileState.xmlFileMode}>`);
+                fileState.sectionBuffer += content;
+                if (closed) {
+                    this.closeSection(fileState, onFileChunk);
+                }
+                return closed;
+            }
+        }
+    }
+
+    private openFileElement(
+        tagName: 'file' | 'edit' | 'command',
+        attributes: Record<string, string>,
+        fileState: XmlFileParsingState,
+        onFileOpen: (filePath: string) => void
+    ): void {
+        fileState.xmlFileMode = tagName;
+        fileState.sectionBuffer = '';
+        if (tagName === 'command') {
+            return;
+        }
+
+        const filePath = attributes.path?.trim() || null;
+        if (!filePath) {
+            console.warn(`XML: <${tagName}> without a path attribute, skipping its contents`);
+        }
+
+        fileState.currentFile = filePath;
+        fileState.currentFileFormat = tagName === 'file' ? 'full_content' : 'search_replace';
+        fileState.contentBuffer = '';
+        fileState.pendingSearch = null;
+        fileState.trimLeadingNewline = true;
+
+        if (!filePath) {
+            return;
+        }
+        if (!fileState.openedFiles.has(filePath)) {
+            fileState.openedFiles.add(filePath);
+            onFileOpen(filePath);
+        } else {
+            console.error(`CRITICAL RELIABILITY ERROR: Attempted to open file ${filePath} twice`);
+        }
+        fileState.closedFiles.delete(filePath);
+    }
+
+    private appendFileContent(
+        content: string,
+        fileState: XmlFileParsingState,
+        onFileChunk: (filePath: string, chunk: string, format: FileGenerationFormat) => void
+    ): void {
+        if (!content || !fileState.currentFile || !fileState.currentFileFormat) {
+            return;
+        }
+        if (fileState.trimLeadingNewline) {
+            content = content.replace(/^\r?\n/, '');
+            fileState.trimLeadingNewline = false;
+            if (!content) return;
+        }
+        fileState.contentBuffer += content;
+        onFileChunk(fileState.currentFile, content, fileState.currentFileFormat);
+    }
+
+    private closeSection(
+        fileState: XmlFileParsingState,
+        onFileChunk: (filePath: string, chunk: string, format: FileGenerationFormat) => void
+    ): void {
+        const mode = fileState.xmlFileMode;
+        const text = fileState.sectionBuffer.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+        fileState.sectionBuffer = '';
+
+        if (mode === 'command') {
+            for (const command of extractCommands(text, true)) {
+                if (!fileState.extractedInstallCommands.includes(command)) {
+                    fileState.extractedInstallCommands.push(command);
+                }
+            }
+            fileState.xmlFileMode = 'outside';
+            return;
+        }
+
+        fileState.xmlFileMode = 'edit';
+        if (mode === 'search') {
+            if (fileState.pendingSearch !== null) {
+                console.warn(`XML: <search> without <replace> in ${fileState.currentFile}, dropping it`);
+            }
+            fileState.pendingSearch = text;
+            return;
+        }
+
+        if (fileState.pendingSearch === null) {
+            console.warn(`XML: <replace> without <search> in ${fileState.currentFile}, skipping it`);
+            return;
+        }
+        const block = `<<<<<<< SEARCH\n${fileState.pendingSearch}\n=======\n${text}\n>>>>>>> REPLACE\n`;
+        fileState.pendingSearch = null;
+        if (fileState.currentFile) {
+            fileState.contentBuffer += block;
+            onFileChunk(fileState.currentFile, block, 'search_replace');
+        }
+    }
+
+    private finalizeFile(
+        state: CodeGenerationStreamingState,
+        fileState: XmlFileParsingState,
+        onFileClose: (filePath: string) => void
+    ): void {
+        const filePath = fileState.currentFile;
+        const format = fileState.currentFileFormat;
+
+        if (filePath && format) {
+            if (fileState.pendingSearch !== null) {
+                console.warn(`XML: <search> without <replace> in ${filePath}, dropping it`);
+            }
+            const fileObject: FileGenerationOutputType = {
+                filePath,
+                fileContents: format === 'full_content'
+                    ? fileState.contentBuffer.replace(/\r?\n$/, '')
+                    : fileState.contentBuffer,
+                format,
+                filePurpose: '',
+            };
+            state.completedFiles.set(filePath, fileObject);
+
+            if (!fileState.closedFiles.has(filePath)) {
+                fileState.closedFiles.add(filePath);
+                onFileClose(filePath);
+            } else {
+                console.error(`CRITICAL RELIABILITY ERROR: Attempted multiple file close for ${filePath}`);
+            }
+            fileState.openedFiles.delete(filePath);
+        }
+
+        fileState.xmlFileMode = 'outside';
+        fileState.currentFile = null;
+        fileState.currentFileFormat = null;
+        fileState.contentBuffer = '';
+        fileState.pendingSearch = null;
+        fileState.sectionBuffer = '';
+        fileState.trimLeadingNewline = false;
+    }
+
+    /**
+     * Take accumulated text up to a closing tag, holding back a tag split across chunks
+     */
+    private takeUntil(state: CodeGenerationStreamingState, closingTag: string): { content: string; closed: boolean } {
+        const index = state.accumulator.indexOf(closingTag);
+        if (index >= 0) {
+            const content = state.accumulator.slice(0, index);
+            state.accumulator = state.accumulator.slice(index + closingTag.length);
+            return { content, closed: true };
+        }
+
+        let holdBack = Math.min(closingTag.length - 1, state.accumulator.length);
+        while (holdBack > 0 && !closingTag.startsWith(state.accumulator.slice(-holdBack))) {
+            holdBack--;
+        }
+        const content = state.accumulator.slice(0, state.accumulator.length - holdBack);
+        state.accumulator = state.accumulator.slice(state.accumulator.length - holdBack);
+        return { content, closed: false };
+    }
+
+    /**
+     * Start of a tag that hasn't been closed with '>' yet, or the text length
+     */
+    private partialTagStart(text: string): number {
+        const index = text.lastIndexOf('<');
+        return index >= 0 && !text.includes('>', index) ? index : text.length;
+    }
+
     /**
      * Parse XML stream with robust error handling and fallback
      */
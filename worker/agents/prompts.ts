@@ -917,6 +917,9 @@ ${runtimeErrorsText || 'No runtime errors detected'}
 
 ${staticAnalysisText}
 
+### 3. VISUAL REGRESSIONS (From the Last Preview Screenshot)
+${issues.visualRegressions.length > 0 ? issues.visualRegressions.map(regression => `- ${regression}`).join('\n') : 'No visual regressions detected'}
+
 ## ANALYSIS INSTRUCTIONS
 - **PRIORITIZE** "Maximum update depth exceeded" and useEffect-related errors. If 'Warning: The result of getSnapshot should be cached to avoid an infinite loop' is present, it is a high priority issue to be resolved ASAP. 
 - **CROSS-REFERENCE** error messages with current code structure (line numbers may be outdated)
@@ -43,7 +43,7 @@ export const PhaseConceptLiteSchema = PhaseConceptSchema.omit({ files: true, las
  */
 
 export const FileGenerationOutput = FileOutputSchema.extend({
-    format: z.enum(['full_content', 'unified_diff']).describe('`full_content` for full, raw file contents, `unified_diff` for unified diff'),
+    format: z.enum(['full_content', 'unified_diff', 'search_replace']).describe('`full_content` for full, raw file contents, `unified_diff` for unified diff, `search_replace` for search/replace blocks'),
 })
 
 export const PhaseConceptGenerationSchema = PhaseConceptSchema.extend({
@@ -137,6 +137,41 @@ export const ScreenshotAnalysisSchema = z.object({
     })
 });
 
+// Workflow Step Graph Schemas (Cloudflare Workflows)
+export const WorkflowStepSchema = z.object({
+    id: z.string().describe('Unique kebab-case step id, stable across revisions (e.g. "fetch-invoices")'),
+    name: z.string().describe('Human readable step name, passed as the first argument of step.do()/step.sleep()/step.waitForEvent(). Must be unique and deterministic.'),
+    type: z.enum(['do', 'sleep', 'waitForEvent']).describe('`do` runs code, `sleep` pauses the instance, `waitForEvent` pauses until an external event arrives'),
+    description: z.string().describe('Concise description of what the step does'),
+    dependsOn: z.array(z.string()).describe('Ids of earlier steps whose outputs this step uses. Empty for entry steps.'),
+    code: z.string().nullable().describe('For `do` steps only: TypeScript body of the async callback. Can use `event.payload`, `this.env` and outputs of dependencies as camelCase variables named after their step id. Must return a JSON-serializable value. null for other step types.'),
+    duration: z.string().nullable().describe('For `sleep`: how long to sleep (e.g. "10 minutes"). For `waitForEvent`: the timeout (e.g. "24 hours"). null for `do` steps.'),
+    eventType: z.string().nullable().describe('For `waitForEvent` only: the event type to wait for. null otherwise.'),
+    retries: z.object({
+        limit: z.number().describe('Maximum number of retries'),
+        delay: z.string().describe('Delay between retries (e.g. "10 seconds")'),
+        backoff: z.enum(['constant', 'linear', 'exponential']).describe('Backoff strategy'),
+    }).nullable().describe('Retry policy for `do` steps that call external services. null to use the platform default.'),
+    timeout: z.string().nullable().describe('Per-attempt timeout for `do` steps (e.g. "5 minutes"). null for the platform default.'),
+    sampleOutput: z.string().nullable().describe('JSON-encoded example of what the step returns. For `waitForEvent` steps it is the event payload used in dry runs.'),
+});
+
+export const WorkflowParamSchema = z.object({
+    name: z.string().describe('camelCase parameter name on event.payload'),
+    type: z.enum(['string', 'number', 'boolean', 'object']).describe('Parameter type'),
+    description: z.string().describe('What the parameter is for'),
+    required: z.boolean().describe('Whether the parameter must be provided when triggering the workflow'),
+    example: z.string().nullable().describe('JSON-encoded example value'),
+});
+
+export const WorkflowGraphSchema = z.object({
+    name: z.string().describe('Short human readable workflow name'),
+    className: z.string().describe('PascalCase class name for the WorkflowEntrypoint (e.g. "InvoiceReminderWorkflow")'),
+    description: z.string().describe('What the workflow does end-to-end'),
+    params: z.array(WorkflowParamSchema).describe('Parameters accepted on event.payload when an instance is created'),
+    steps: z.array(WorkflowStepSchema).describe('Steps in execution order. Dependencies must only reference earlier steps.'),
+});
+
 export type TemplateSelection = z.infer<typeof TemplateSelectionSchema>;
 export type PhasicBlueprint = z.infer<typeof PhasicBlueprintSchema>;
 export type AgenticBlueprint = z.infer<typeof AgenticBlueprintSchema>;
@@ -151,6 +186,9 @@ export type DocumentationOutputType = z.infer<typeof DocumentationOutput>;
 export type CodeReviewOutputType = z.infer<typeof CodeReviewOutput>;
 export type SetupCommandsType = z.infer<typeof SetupCommandsSchema>;
 export type ScreenshotAnalysisType = z.infer<typeof ScreenshotAnalysisSchema>;
+export type WorkflowStepType = z.infer<typeof WorkflowStepSchema>;
+export type WorkflowParamType = z.infer<typeof WorkflowParamSchema>;
+export type WorkflowGraphType = z.infer<typeof WorkflowGraphSchema>;
 
 // Conversational AI Schemas
 export const ConversationalResponseSchema = z.object({
@@ -5,7 +5,7 @@ import {
     SandboxDeploymentCallbacks,
     CloudflareDeploymentCallbacks
 } from '../interfaces/IDeploymentManager';
-import { BootstrapResponse, StaticAnalysisResponse, RuntimeError, PreviewType } from '../../../services/sandbox/sandboxTypes';
+import { BootstrapResponse, StaticAnalysisResponse, RuntimeError, PreviewType, DeploymentCredentials } from '../../../services/sandbox/sandboxTypes';
 import { FileOutputType } from '../../schemas';
 import { generateId } from '../../../utils/idGenerator';
 import { generateAppProxyToken, generateAppProxyUrl } from '../../../services/aigateway-proxy/controller';
@@ -14,9 +14,10 @@ import { ServiceOptions } from '../interfaces/IServiceOptions';
 import { BaseSandboxService } from 'worker/services/sandbox/BaseSandboxService';
 import { getSandboxService } from '../../../services/sandbox/factory';
 import { validateAndCleanBootstrapCommands } from 'worker/agents/utils/common';
-import { DeploymentTarget } from '../../core/types';
+import { DeploymentTarget, RuntimeType } from '../../core/types';
 import { BaseProjectState } from '../../core/state';
-import { generatePreviewToken } from '../../../api/routes/plaidProxyRoutes';
+import { createIntegrationToken } from '../../../services/integrations/tokens';
+import { getUserConfigurableSettings } from '../../../config';
 import { getProtocolForHost } from '../../../utils/urls';
 
 const PER_ATTEMPT_TIMEOUT_MS = 60000;  // 60 seconds per individual attempt
@@ -32,10 +33,12 @@ export class DeploymentManager extends BaseAgentService<BaseProjectState> implem
     private healthCheckInterval: ReturnType<typeof setInterval> | null = null;
     private currentDeploymentPromise: Promise<PreviewType | null> | null = null;
     private cachedSandboxClient: BaseSandboxService | null = null;
+    private cachedRuntime: RuntimeType | null = null;
 
     constructor(
         options: ServiceOptions<BaseProjectState>,
         private maxCommandsHistory: number,
+        private getRuntime: () => RuntimeType = () => 'sandbox',
     ) {
         super(options);
         
@@ -57,19 +60,23 @@ export class DeploymentManager extends BaseAgentService<BaseProjectState> implem
     }
 
     /**
-     * Cache is tied to current sessionId and invalidated on reset
+     * Cache is tied to current sessionId and runtime, and invalidated on reset
      */
     public getClient(): BaseSandboxService {
-        if (!this.cachedSandboxClient) {
+        const runtime = this.getRuntime();
+        if (!this.cachedSandboxClient || this.cachedRuntime !== runtime) {
             const logger = this.getLog();
             logger.info('Creating sandbox service client', { 
                 sessionId: this.getSessionId(), 
-                agentId: this.getAgentId() 
+                agentId: this.getAgentId(),
+                runtime
             });
             this.cachedSandboxClient = getSandboxService(
                 this.getSessionId(), 
-                this.getAgentId()
+                this.getAgentId(),
+                runtime
             );
+            this.cachedRuntime = runtime;
         }
         return this.cachedSandboxClient;
     }
@@ -560,21 +567,30 @@ export class DeploymentManager extends BaseAgentService<BaseProjectState> implem
         const agentId = this.getAgentId();
         const logger = this.getLog();
 
-        // Base env vars for Agency mode (Plaid proxy tunnel)
+        // Base env vars for Agency mode (integration proxy tunnel)
         const customDomain = this.env.CUSTOM_DOMAIN;
         const protocol = getProtocolForHost(customDomain);
         const agentUrl = `${protocol}://${customDomain}`;
 
+        const userId = state.metadata.userId;
+        const { integrations } = await getUserConfigurableSettings(this.env, userId);
+        const integrationIds = Object.keys(integrations).filter((id) => integrations[id]?.enabled);
+
         let localEnvVars: Record<string, string> = {
-            // Agency mode: Allow preview apps to call back to the Agent DO
+            // Agency mode: Allow preview apps to call integrations through the platform
             "VITE_AGENT_URL": agentUrl,
-            "VITE_PREVIEW_TOKEN": await generatePreviewToken(this.env, agentId),
+            "VITE_INTEGRATIONS_URL": `${agentUrl}/api/proxy/integrations`,
+            "VITE_PREVIEW_TOKEN": await createIntegrationToken(this.env, {
+                appId: agentId,
+                userId,
+                integrations: integrationIds,
+            }),
         };
 
         logger.info('Injecting Agency env vars', {
             agentUrl,
             agentId,
-            hasPreviewToken: true
+            integrations: integrationIds
         });
 
         // Add AI proxy vars if AI template
@@ -652,6 +668,7 @@ export class DeploymentManager extends BaseAgentService<BaseProjectState> implem
      */
     async deployToCloudflare(request?: {
         target?: DeploymentTarget;
+        credentials?: DeploymentCredentials;
         callbacks?: CloudflareDeploymentCallbacks;
     }): Promise<{ deploymentUrl: string | null; deploymentId?: string }> {
         const state = this.getState();
@@ -694,7 +711,8 @@ export class DeploymentManager extends BaseAgentService<BaseProjectState> implem
         // Deploy to Cloudflare
         const deploymentResult = await client.deployToCloudflareWorkers(
             state.sandboxInstanceId,
-            target
+            target,
+            request?.credentials
         );
 
         logger.info('Deployment result:', deploymentResult);
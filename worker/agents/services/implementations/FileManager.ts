@@ -1,5 +1,5 @@
 import * as Diff from 'diff';
-import { IFileManager } from '../interfaces/IFileManager';
+import { IFileManager, FileEditRecord, FileEditSource } from '../interfaces/IFileManager';
 import { IStateManager } from '../interfaces/IStateManager';
 import { FileOutputType } from '../../schemas';
 import { FileProcessing } from '../../domain/pure/FileProcessing';
@@ -13,15 +13,24 @@ import { isFileModifiable } from '../../../services/sandbox/utils';
  * Handles both template and generated files
  */
 export class FileManager implements IFileManager {
+    // Changes recorded since the last commit, keyed by path
+    private pendingEdits = new Map<string, FileEditRecord>();
+    private onFileEditsCommittedCallback?: (edits: FileEditRecord[], commitHash: string) => void;
+
     constructor(
         private stateManager: IStateManager<BaseProjectState>,
         private getTemplateDetailsFunc: () => TemplateDetails,
         private git: GitVersionControl
     ) {
         // Register callback with git to auto-sync after operations
-        this.git.setOnFilesChangedCallback(() => {
-            this.syncGeneratedFilesMapFromGit();
-        });
+        this.git.setOnFilesChangedCallback(() => this.syncGeneratedFilesMapFromGit());
+    }
+
+    /**
+     * Register a callback invoked with every file change once it is committed
+     */
+    setOnFileEditsCommittedCallback(callback: (edits: FileEditRecord[], commitHash: string) => void): void {
+        this.onFileEditsCommittedCallback = callback;
     }
 
     /**
@@ -98,7 +107,7 @@ export class FileManager implements IFileManager {
      * Updates generatedFilesMap and computes diffs, but does NOT touch git.
      * Use commitFiles() to persist recorded files to git.
      */
-    recordFileChanges(files: FileOutputType[], overwrite: boolean = false): FileState[] {
+    recordFileChanges(files: FileOutputType[], overwrite: boolean = false, source: FileEditSource = { editType: 'ai' }): FileState[] {
         const templateDetails = this.getTemplateDetailsFunc();
         const dontTouchFiles = templateDetails?.dontTouchFiles || new Set<string>();
 
@@ -114,7 +123,8 @@ export class FileManager implements IFileManager {
             const oldFile = filesMap[file.filePath];
             
             // Get comparison base: from generatedFilesMap, template/filesystem, or empty string for new files
-            const oldFileContents = oldFile?.fileContents ?? (this.getFile(file.filePath)?.fileContents || '');
+            const previousContents = oldFile?.fileContents ?? this.getFile(file.filePath)?.fileContents ?? null;
+            const oldFileContents = previousContents || '';
             
             // Generate diff if contents changed
             if (oldFileContents !== file.fileContents) {
@@ -123,6 +133,15 @@ export class FileManager implements IFileManager {
                 } catch (error) {
                     console.error(`Failed to generate diff for file ${file.filePath}:`, error);
                 }
+
+                // Keep the content from before the first uncommitted change
+                const pending = this.pendingEdits.get(file.filePath);
+                this.pendingEdits.set(file.filePath, {
+                    ...source,
+                    filePath: file.filePath,
+                    contentBefore: pending ? pending.contentBefore : previousContents,
+                    contentAfter: file.fileContents,
+                });
             }
             
             const fileState = {
@@ -149,18 +168,24 @@ export class FileManager implements IFileManager {
      * - With files: records them to state, then commits if commitMessage provided
      * - With empty array + commitMessage: commits ALL pending changes from state
      */
-    async saveGeneratedFiles(files: FileOutputType[], commitMessage?: string, overwrite: boolean = false): Promise<FileState[]> {
+    async saveGeneratedFiles(
+        files: FileOutputType[],
+        commitMessage?: string,
+        overwrite: boolean = false,
+        source: FileEditSource = { editType: 'ai' }
+    ): Promise<FileState[]> {
         // Empty array + commit message = commit all pending changes
         const fileStates = files.length === 0
             ? Object.values(this.stateManager.getState().generatedFilesMap)
-            : this.recordFileChanges(files, overwrite);
+            : this.recordFileChanges(files, overwrite, source);
 
         try {
             if (commitMessage) {
                 const unescapedMessage = commitMessage.replace(/\\n/g, '\n').replace(/\\t/g, '\t');
                 console.log(`[FileManager] Committing ${fileStates.length} files:`, unescapedMessage);
-                await this.git.commit(fileStates, unescapedMessage);
+                const commitHash = await this.git.commit(fileStates, unescapedMessage);
                 console.log(`[FileManager] Commit successful`);
+                this.flushPendingEdits(commitHash);
             } else if (fileStates.length > 0 && fileStates.some(f => f.lastDiff !== '')) {
                 console.log(`[FileManager] Staging ${fileStates.length} files`);
                 await this.git.stage(fileStates);
@@ -172,6 +197,18 @@ export class FileManager implements IFileManager {
         return fileStates;
     }
 
+    /**
+     * Report changes included in a commit. Without a commit (nothing changed in git)
+     * the recorded changes were no-ops and are dropped.
+     */
+    private flushPendingEdits(commitHash: string | null): void {
+        const edits = Array.from(this.pendingEdits.values());
+        this.pendingEdits.clear();
+        if (commitHash && edits.length > 0) {
+            this.onFileEditsCommittedCallback?.(edits, commitHash);
+        }
+    }
+
     deleteFiles(filePaths: string[]): void {
         const newFilesMap = { ...this.stateManager.getState().generatedFilesMap };
         
@@ -204,6 +241,14 @@ export class FileManager implements IFileManager {
         return Object.values(state.generatedFilesMap);
     }
 
+    getTemplateDetails(): TemplateDetails | null {
+        try {
+            return this.getTemplateDetailsFunc();
+        } catch {
+            return null;
+        }
+    }
+
     getTemplateFile(filePath: string) : FileOutputType | null {
         try {
             const templateDetails = this.getTemplateDetailsFunc();
@@ -8,6 +8,9 @@ import { WebSocketMessageType, WebSocketMessageData } from "worker/api/websocket
 import { GitVersionControl } from "worker/agents/git/git";
 import { OperationOptions } from "worker/agents/operations/common";
 import { TemplateFile } from "worker/services/sandbox/sandboxTypes";
+import type { MCPToolScope, ToolDefinition } from "worker/agents/tools/types";
+import type { ImageGenerationRequest } from "worker/services/image-generation";
+import type { ReadablePage, SearchResponse } from "worker/services/search";
 
 export interface ICodingAgent {
     getBehavior(): BehaviorType;
@@ -62,6 +65,14 @@ export interface ICodingAgent {
     ): Promise<{ files: Array<{ path: string; purpose: string; diff: string }> }>;
 
     regenerateFileByPath(path: string, issues: string[]): Promise<{ path: string; diff: string }>;
+
+    generateImages(
+        images: Array<ImageGenerationRequest & { name: string }>
+    ): Promise<{ images: Array<{ name: string; url: string; path?: string }>; errors: Array<{ name: string; error: string }> }>;
+
+    searchWeb(query: string, numResults: number): Promise<SearchResponse & { provider: string }>;
+
+    fetchWebPage(url: string, maxChars: number): Promise<ReadablePage>;
     
     isCodeGenerating(): boolean;
     
@@ -78,6 +89,8 @@ export interface ICodingAgent {
         focusPaths?: string[],
     ): Promise<DeepDebugResult>;
     
+    getMCPTools(scope: MCPToolScope): Promise<ToolDefinition<any, any>[]>;
+
     get git(): GitVersionControl;
     
     getSandboxServiceClient(): BaseSandboxService;
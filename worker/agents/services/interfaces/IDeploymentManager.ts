@@ -1,5 +1,5 @@
 import { FileOutputType } from '../../schemas';
-import { StaticAnalysisResponse, RuntimeError, PreviewType } from '../../../services/sandbox/sandboxTypes';
+import { StaticAnalysisResponse, RuntimeError, PreviewType, DeploymentCredentials } from '../../../services/sandbox/sandboxTypes';
 import { DeploymentStartedMessage, DeploymentCompletedMessage, DeploymentFailedMessage } from '../../../api/websocketTypes';
 import { CloudflareDeploymentStartedMessage, CloudflareDeploymentCompletedMessage, CloudflareDeploymentErrorMessage } from '../../../api/websocketTypes';
 import { DeploymentTarget } from '../../core/types';
@@ -99,6 +99,7 @@ export interface IDeploymentManager {
      */
     deployToCloudflare(request?: {
         target?: DeploymentTarget;
+        credentials?: DeploymentCredentials;
         callbacks?: CloudflareDeploymentCallbacks;
     }): Promise<{ deploymentUrl: string | null; deploymentId?: string }>;
 
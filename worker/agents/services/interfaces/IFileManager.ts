@@ -1,6 +1,23 @@
 import { FileOutputType } from '../../schemas';
 import { FileState } from '../../core/state';
 
+/**
+ * Who made a file change - AI generation or a user editing in the IDE
+ */
+export interface FileEditSource {
+    editType: 'ai' | 'user';
+    userId?: string;
+}
+
+/**
+ * A committed change to a single file, with its content before and after
+ */
+export interface FileEditRecord extends FileEditSource {
+    filePath: string;
+    contentBefore: string | null; // null for newly created files
+    contentAfter: string;
+}
+
 /**
  * Interface for file management operations
  * Abstracts file storage and retrieval
@@ -1,7 +1,7 @@
 import type { ToolDefinition } from './types';
 import { StructuredLogger } from '../../logger';
 import { RenderToolCall } from '../operations/UserConversationProcessor';
-import { toolWebSearchDefinition } from './toolkit/web-search';
+import { createWebSearchTool } from './toolkit/web-search';
 import { toolFeedbackDefinition } from './toolkit/feedback';
 import { createQueueRequestTool } from './toolkit/queue-request';
 import { createGetLogsTool } from './toolkit/get-logs';
@@ -44,9 +44,10 @@ export function buildTools(
     logger: StructuredLogger,
     toolRenderer: RenderToolCall,
     streamCb: (chunk: string) => void,
+    mcpTools: ToolDefinition<any, any>[] = [],
 ): ToolDefinition<any, any>[] {
     return [
-        toolWebSearchDefinition,
+        createWebSearchTool(agent, logger),
         toolFeedbackDefinition,
         createQueueRequestTool(agent, logger),
         createGetLogsTool(agent, logger),
@@ -62,10 +63,17 @@ export function buildTools(
         createGitTool(agent, logger, { excludeCommands: ['reset'] }),
         // Deep autonomous debugging assistant tool
         createDeepDebuggerTool(agent, logger, toolRenderer, streamCb),
+        // Allow-listed tools from configured MCP servers (see ICodingAgent.getMCPTools)
+        ...mcpTools,
     ];
 }
 
-export function buildDebugTools(session: DeepDebuggerSession, logger: StructuredLogger, toolRenderer?: RenderToolCall): ToolDefinition<any, any>[] {
+export function buildDebugTools(
+    session: DeepDebuggerSession,
+    logger: StructuredLogger,
+    toolRenderer?: RenderToolCall,
+    mcpTools: ToolDefinition<any, any>[] = [],
+): ToolDefinition<any, any>[] {
     const tools = [
         createGetLogsTool(session.agent, logger),
         createGetRuntimeErrorsTool(session.agent, logger),
@@ -77,6 +85,7 @@ export function buildDebugTools(session: DeepDebuggerSession, logger: Structured
         createDeployPreviewTool(session.agent, logger),
         createWaitTool(logger),
         createGitTool(session.agent, logger),
+        ...mcpTools,
     ];
     return withRenderer(tools, toolRenderer);
 }
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The SDK's schema validator doesn't load in the workers test pool, and these tests never connect
+vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({ Client: class {} }));
+vi.mock('@modelcontextprotocol/sdk/client/sse.js', () => ({ SSEClientTransport: class {} }));
+vi.mock('@modelcontextprotocol/sdk/client/streamableHttp.js', () => ({ StreamableHTTPClientTransport: class {} }));
+
+import { isMCPToolAllowed, resolveMCPHeaders, toMCPToolName, type ResolvedMCPServer } from './mcpManager';
+
+function makeServer(partial: Partial<ResolvedMCPServer> = {}): ResolvedMCPServer {
+	return {
+		name: 'linear',
+		url: 'https://mcp.example.com/mcp',
+		transport: 'streamable-http',
+		source: 'user',
+		...partial,
+	};
+}
+
+const env = { MCP_PLATFORM_TOKEN: 'platform-token' } as unknown as Env;
+
+describe('toMCPToolName', () => {
+	it('namespaces tools by server', () => {
+		expect(toMCPToolName('linear', 'create_issue')).toBe('linear__create_issue');
+	});
+
+	it('keeps names valid for function calling', () => {
+		const name = toMCPToolName('docs', `search.pages/${'x'.repeat(80)}`);
+		expect(name).toMatch(/^[a-zA-Z0-9_-]{1,64}$/);
+		expect(name.startsWith('docs__search_pages_')).toBe(true);
+	});
+});
+
+describe('isMCPToolAllowed', () => {
+	it('allows every tool without an allow-list', () => {
+		expect(isMCPToolAllowed(makeServer(), 'anything')).toBe(true);
+	});
+
+	it('only allows listed tools', () => {
+		const server = makeServer({ allowedTools: ['search'] });
+		expect(isMCPToolAllowed(server, 'search')).toBe(true);
+		expect(isMCPToolAllowed(server, 'delete_everything')).toBe(false);
+	});
+});
+
+describe('resolveMCPHeaders', () => {
+	it('substitutes vault secrets into header values', async () => {
+		const resolveSecret = vi.fn(async (name: string) => (name === 'LINEAR_API_KEY' ? 'lin_123' : null));
+		const headers = await resolveMCPHeaders(
+			makeServer({ headers: { Authorization: 'Bearer {{secret:LINEAR_API_KEY}}', 'X-Team': 'core' } }),
+			env,
+			resolveSecret,
+		);
+
+		expect(headers).toEqual({ Authorization: 'Bearer lin_123', 'X-Team': 'core' });
+		expect(resolveSecret).toHaveBeenCalledWith('LINEAR_API_KEY');
+	});
+
+	it('fails when a secret is missing', async () => {
+		await expect(
+			resolveMCPHeaders(makeServer({ headers: { Authorization: '{{secret:MISSING}}' } }), env, async () => null),
+		).rejects.toThrow('Secret MISSING for MCP server linear is not available');
+	});
+
+	it('resolves worker secrets for platform servers', async () => {
+		const headers = await resolveMCPHeaders(
+			makeServer({ source: 'platform', headers: { Authorization: 'Bearer {{env:MCP_PLATFORM_TOKEN}}' } }),
+			env,
+			async () => null,
+		);
+
+		expect(headers.Authorization).toBe('Bearer platform-token');
+	});
+
+	it('never exposes worker secrets to user servers', async () => {
+		await expect(
+			resolveMCPHeaders(makeServer({ headers: { Authorization: '{{env:MCP_PLATFORM_TOKEN}}' } }), env, async () => null),
+		).rejects.toThrow('only available to platform MCP servers');
+	});
+});
@@ -1,105 +1,231 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { createLogger } from '../../logger';
-import { MCPServerConfig } from './types';
+import { getUserConfigurableSettings } from '../../config';
+import { McpServerService } from '../../database/services/McpServerService';
+import { getEnvSecret, resolveSecretPlaceholders } from '../../utils/secretTemplates';
+import type { ErrorResult, MCPServerConfig, MCPToolScope, ToolDefinition } from './types';
 
 const logger = createLogger('MCPManager');
 
-const MCP_SERVERS: MCPServerConfig[] = [
-	// {
-	// 	name: 'cloudflare-docs',
-	// 	sseUrl: 'https://docs.mcp.cloudflare.com/sse',
-	// },
-];
+const CONNECT_TIMEOUT_MS = 10_000;
+const TOOL_CALL_TIMEOUT_MS = 60_000;
+
+const TOOL_NAMESPACE_SEPARATOR = '__';
+
+/** Lowercase letters, digits and dashes so namespaced tool names stay valid function names */
+export const MCP_SERVER_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+export type MCPServerSource = 'platform' | 'user';
+
+export interface ResolvedMCPServer extends MCPServerConfig {
+	source: MCPServerSource;
+}
+
+/** Looks up a vault secret by its env var name, null when it is missing or the vault stays locked */
+export type MCPSecretResolver = (envVarName: string) => Promise<string | null>;
+
+export type MCPToolResult = string | ErrorResult;
+
+interface MCPToolEntry {
+	server: ResolvedMCPServer;
+	tool: Tool;
+}
 
 /**
- * MCP Manager - Based on the reference implementation from vite-cfagents-runner
- * Manages connections to multiple MCP servers and provides unified tool access
+ * Namespaced name the model sees, e.g. `linear__create_issue`
  */
-export class MCPManager {
-	private clients: Map<string, Client> = new Map();
-	private toolMap: Map<string, string> = new Map();
-	private initialized = false;
-
-	async initialize() {
-		if (this.initialized) return;
-
-		logger.info('Initializing MCP manager...');
-		for (const serverConfig of MCP_SERVERS) {
-			try {
-				const transport = new SSEClientTransport(
-					new URL(serverConfig.sseUrl),
-				);
-
-				const client = new Client(
-					{
-						name: 'cloudflare-agent',
-						version: '1.0.0',
-					},
-					{
-						capabilities: {},
-					},
-				);
-                logger.info(`Connecting to MCP server ${serverConfig.name}, ${serverConfig.sseUrl}`);
-				await client.connect(transport, {timeout: 500, maxTotalTimeout: 500});
-                logger.info(`Connected to MCP server ${serverConfig.name}`);
-				this.clients.set(serverConfig.name, client);
+export function toMCPToolName(serverName: string, toolName: string): string {
+	return `${serverName}${TOOL_NAMESPACE_SEPARATOR}${toolName}`
+		.replace(/[^a-zA-Z0-9_-]/g, '_')
+		.slice(0, 64);
+}
 
-				const toolsResult = await client.listTools();
+export function isMCPToolAllowed(server: MCPServerConfig, toolName: string): boolean {
+	return !server.allowedTools || server.allowedTools.includes(toolName);
+}
 
-				if (toolsResult?.tools) {
-					for (const tool of toolsResult.tools) {
-						this.toolMap.set(tool.name, serverConfig.name);
-					}
+/**
+ * Replace {{secret:NAME}} placeholders with vault secrets and, for platform
+ * servers only, {{env:NAME}} placeholders with worker secrets. User servers
+ * point at arbitrary URLs, so worker secrets must never reach them.
+ */
+export async function resolveMCPHeaders(
+	server: ResolvedMCPServer,
+	env: Env,
+	resolveSecret: MCPSecretResolver,
+): Promise<Record<string, string>> {
+	const headers: Record<string, string> = {};
+
+	for (const [header, template] of Object.entries(server.headers ?? {})) {
+		headers[header] = await resolveSecretPlaceholders(template, async (kind, name) => {
+			let resolved: string | null;
+			if (kind === 'env') {
+				if (server.source !== 'platform') {
+					throw new Error(`{{env:${name}}} is only available to platform MCP servers`);
 				}
+				resolved = getEnvSecret(env, name);
+			} else {
+				resolved = await resolveSecret(name);
+			}
+
+			if (resolved === null) {
+				throw new Error(`Secret ${name} for MCP server ${server.name} is not available`);
+			}
+			return resolved;
+		});
+	}
+
+	return headers;
+}
+
+/**
+ * Load the MCP servers available to a user: platform servers from the global
+ * config followed by the user's own. A user server can't take over a
+ * platform server's namespace.
+ */
+export async function loadMCPServers(env: Env, userId: string): Promise<ResolvedMCPServer[]> {
+	const servers: ResolvedMCPServer[] = [];
+	const names = new Set<string>();
+
+	const config = await getUserConfigurableSettings(env, userId);
+	for (const server of config.mcp.servers) {
+		if (!MCP_SERVER_NAME_PATTERN.test(server.name) || names.has(server.name)) {
+			logger.warn(`Skipping platform MCP server with invalid or duplicate name: ${server.name}`);
+			continue;
+		}
+		names.add(server.name);
+		servers.push({ ...server, source: 'platform' });
+	}
 
-				logger.info(
-					`Connected to MCP server ${serverConfig.name}, found ${toolsResult?.tools?.length || 0} tools`,
-				);
-			} catch (error) {
-				logger.error(
-					`Failed to connect to MCP server ${serverConfig.name}:`,
-					error,
-				);
+	if (userId) {
+		const userServers = await new McpServerService(env).getUserServers(userId, true);
+		for (const server of userServers) {
+			if (names.has(server.name)) {
+				logger.warn(`Skipping user MCP server that shadows a platform server: ${server.name}`);
+				continue;
 			}
+			names.add(server.name);
+			servers.push({
+				name: server.name,
+				url: server.url,
+				transport: server.transport,
+				headers: server.headers ?? {},
+				allowedTools: server.allowedTools ?? undefined,
+				source: 'user',
+			});
 		}
+	}
+
+	return servers;
+}
 
-		this.initialized = true;
+/**
+ * MCP Manager - Based on the reference implementation from vite-cfagents-runner
+ * Manages connections to multiple MCP servers and exposes their allowed tools
+ * as namespaced agent tools
+ */
+export class MCPManager {
+	private clients: Map<string, Client> = new Map();
+	private tools: Map<string, MCPToolEntry> = new Map();
+	private initPromise: Promise<void> | null = null;
+
+	constructor(
+		private readonly servers: ResolvedMCPServer[],
+		private readonly env: Env,
+		private readonly resolveSecret: MCPSecretResolver,
+	) {}
+
+	initialize(): Promise<void> {
+		if (!this.initPromise) {
+			this.initPromise = this.connectAll();
+		}
+		return this.initPromise;
+	}
+
+	private async connectAll() {
+		logger.info(`Initializing MCP manager with ${this.servers.length} servers...`);
+		await Promise.all(this.servers.map((server) => this.connect(server)));
 		logger.info(
-			`MCP manager initialized with ${this.clients.size} active connections`,
+			`MCP manager initialized with ${this.clients.size} active connections and ${this.tools.size} tools`,
 		);
 	}
 
-	async getToolDefinitions() {
-		await this.initialize();
-		const allTools = [];
-
-		for (const [serverName, client] of this.clients.entries()) {
-			try {
-				const toolsResult = await client.listTools();
-
-				if (toolsResult?.tools) {
-					for (const tool of toolsResult.tools) {
-						allTools.push({
-							type: 'function' as const,
-							function: {
-								name: tool.name,
-								description: tool.description || '',
-								parameters: tool.inputSchema || {
-									type: 'object',
-									properties: {},
-									required: [],
-								},
-							},
-						});
-					}
+	private async connect(server: ResolvedMCPServer) {
+		try {
+			const headers = await resolveMCPHeaders(server, this.env, this.resolveSecret);
+			const url = new URL(server.url);
+			const transport =
+				server.transport === 'sse'
+					? new SSEClientTransport(url, { requestInit: { headers } })
+					: new StreamableHTTPClientTransport(url, { requestInit: { headers } });
+
+			const client = new Client(
+				{
+					name: 'cloudflare-agent',
+					version: '1.0.0',
+				},
+				{
+					capabilities: {},
+				},
+			);
+			logger.info(`Connecting to MCP server ${server.name}, ${server.url} (${server.transport})`);
+			await client.connect(transport, { timeout: CONNECT_TIMEOUT_MS });
+			this.clients.set(server.name, client);
+
+			const toolsResult = await client.listTools(undefined, { timeout: CONNECT_TIMEOUT_MS });
+			const tools = toolsResult?.tools ?? [];
+			for (const tool of tools) {
+				if (isMCPToolAllowed(server, tool.name)) {
+					this.tools.set(toMCPToolName(server.name, tool.name), { server, tool });
 				}
-			} catch (error) {
-				logger.error(`Error getting tools from ${serverName}:`, error);
 			}
+
+			logger.info(`Connected to MCP server ${server.name}, found ${tools.length} tools`);
+		} catch (error) {
+			logger.error(`Failed to connect to MCP server ${server.name}:`, error);
 		}
+	}
 
-		return allTools;
+	/**
+	 * Agent tool definitions for every allowed tool of servers enabled for the scope
+	 */
+	async getToolDefinitions(scope: MCPToolScope): Promise<ToolDefinition<Record<string, unknown>, MCPToolResult>[]> {
+		await this.initialize();
+
+		const definitions: ToolDefinition<Record<string, unknown>, MCPToolResult>[] = [];
+		for (const [name, { server, tool }] of this.tools.entries()) {
+			if (server.scopes && !server.scopes.includes(scope)) continue;
+
+			const description = `[${server.name}] ${tool.description || tool.name}`;
+			definitions.push({
+				name,
+				description,
+				schema: z.record(z.unknown()),
+				implementation: async (args) => {
+					try {
+						return await this.executeTool(name, args);
+					} catch (error) {
+						return { error: error instanceof Error ? error.message : String(error) };
+					}
+				},
+				// Remote tools touch nothing local, so they never conflict with other calls
+				resources: () => ({}),
+				openAISchema: {
+					type: 'function' as const,
+					function: {
+						name,
+						description,
+						parameters: tool.inputSchema,
+					},
+				},
+			});
+		}
+
+		return definitions;
 	}
 
 	async executeTool(
@@ -108,60 +234,55 @@ export class MCPManager {
 	): Promise<string> {
 		await this.initialize();
 
-		const serverName = this.toolMap.get(toolName);
-		if (!serverName) {
+		const entry = this.tools.get(toolName);
+		if (!entry) {
 			throw new Error(`Tool ${toolName} not found in any MCP server`);
 		}
 
-		const client = this.clients.get(serverName);
+		const client = this.clients.get(entry.server.name);
 		if (!client) {
-			throw new Error(`Client for server ${serverName} not available`);
+			throw new Error(`Client for server ${entry.server.name} not available`);
 		}
 
-		try {
-			const result = await client.callTool({
-				name: toolName,
+		const result = await client.callTool(
+			{
+				name: entry.tool.name,
 				arguments: args,
-			});
-
-			if (result.isError) {
-				throw new Error(
-					`Tool execution failed: ${Array.isArray(result.content) ? result.content.map((c: { text: string }) => c.text).join('\n') : 'Unknown error'}`,
-				);
-			}
+			},
+			undefined,
+			{ timeout: TOOL_CALL_TIMEOUT_MS },
+		);
 
-			if (Array.isArray(result.content)) {
-				return result.content
+		const textContent = Array.isArray(result.content)
+			? result.content
 					.filter((c: { type: string }) => c.type === 'text')
 					.map((c: { text: string }) => c.text)
-					.join('\n');
-			}
+					.join('\n')
+			: '';
 
-			return 'No content returned';
-		} catch (error) {
-			throw new Error(`Tool execution failed: ${String(error)}`);
+		if (result.isError) {
+			throw new Error(`Tool execution failed: ${textContent || 'Unknown error'}`);
 		}
+
+		return textContent || 'No content returned';
 	}
 
 	hasToolAvailable(toolName: string): boolean {
-		return this.toolMap.has(toolName);
+		return this.tools.has(toolName);
 	}
 
 	getAvailableToolNames(): string[] {
-		return Array.from(this.toolMap.keys());
+		return Array.from(this.tools.keys());
 	}
 
 	async shutdown(): Promise<void> {
 		logger.info('Shutting down MCP manager...');
 
-		// MCP SDK handles cleanup automatically
+		await Promise.allSettled(Array.from(this.clients.values()).map((client) => client.close()));
 		this.clients.clear();
-		this.toolMap.clear();
-		this.initialized = false;
+		this.tools.clear();
+		this.initPromise = null;
 
 		logger.info('MCP manager shutdown complete');
 	}
 }
-
-// Singleton instance
-export const mcpManager = new MCPManager();
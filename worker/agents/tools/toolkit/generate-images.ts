@@ -1,21 +1,68 @@
-import { tool, t } from '../types';
+import { tool, t, type } from '../types';
 import { StructuredLogger } from '../../../logger';
 import { ICodingAgent } from 'worker/agents/services/interfaces/ICodingAgent';
+import { IMAGE_ASSET_DIR, MAX_IMAGE_DIMENSION, MIN_IMAGE_DIMENSION, toImageSlugs } from 'worker/services/image-generation';
+import { z } from 'zod';
+
+const DEFAULT_WIDTH = 1024;
+const DEFAULT_HEIGHT = 768;
 
 export function createGenerateImagesTool(
-	_agent: ICodingAgent,
-	_logger: StructuredLogger
+	agent: ICodingAgent,
+	logger: StructuredLogger
 ) {
+	const imagesType = type(
+		z.array(
+			z.object({
+				name: z.string().describe('Short descriptive file name without extension, e.g. "hero-mountains"'),
+				prompt: z.string().describe('Detailed description of the image: subject, composition, colors, mood'),
+				width: z.number().int().min(MIN_IMAGE_DIMENSION).max(MAX_IMAGE_DIMENSION).optional()
+					.describe(`Width in pixels (${MIN_IMAGE_DIMENSION}-${MAX_IMAGE_DIMENSION}), defaults to ${DEFAULT_WIDTH}. The provider may round it to a supported size`),
+				height: z.number().int().min(MIN_IMAGE_DIMENSION).max(MAX_IMAGE_DIMENSION).optional()
+					.describe(`Height in pixels (${MIN_IMAGE_DIMENSION}-${MAX_IMAGE_DIMENSION}), defaults to ${DEFAULT_HEIGHT}. The provider may round it to a supported size`),
+			})
+		),
+		(images) => ({
+			files: { mode: 'write', paths: toImageSlugs(images.map((image) => image.name)).map((slug) => `${IMAGE_ASSET_DIR}/${slug}.svg`) },
+			sandbox: { operation: 'deploy' },
+		})
+	);
+
 	return tool({
 		name: 'generate_images',
-		description: 'Generate images for the project (stub). Use later when the image generation pipeline is available.',
+		description: `Generate images (hero images, illustrations, backgrounds, slide visuals) for the app.
+
+Reference each image by the returned URL, e.g. <img src={url} />. Photos and other raster images are hosted by the platform and returned as absolute URLs; vector images are committed as .svg files in ${IMAGE_ASSET_DIR}/ and returned as paths like /images/hero-mountains.svg. Use this instead of placeholder image services.`,
 		args: {
-			prompts: t.array(t.string()).describe('Array of image generation prompts'),
-			style: t.string().optional().describe('Optional style parameter for image generation'),
+			images: imagesType.describe('Images to generate'),
+			style: t.string().optional().describe('Shared art direction appended to every prompt, e.g. "flat vector illustration, pastel palette"'),
 		},
-		run: async ({ prompts, style }) => {
-			return { message: `Image generation not implemented yet. Requested ${prompts.length} prompt(s)${style ? ` with style ${style}` : ''}.` };
+		run: async ({ images, style }) => {
+			try {
+				logger.info('Generating images', { count: images.length, style });
+
+				const result = await agent.generateImages(
+					images.map((image) => ({
+						name: image.name,
+						prompt: style ? `${image.prompt}. Style: ${style}` : image.prompt,
+						width: image.width ?? DEFAULT_WIDTH,
+						height: image.height ?? DEFAULT_HEIGHT,
+					}))
+				);
+
+				return {
+					images: result.images,
+					errors: result.errors.length > 0 ? result.errors : undefined,
+					summary: `Generated ${result.images.length}/${images.length} image(s)`,
+				};
+			} catch (error) {
+				return {
+					error:
+						error instanceof Error
+							? `Failed to generate images: ${error.message}`
+							: 'Unknown error occurred while generating images',
+				};
+			}
 		},
 	});
 }
-
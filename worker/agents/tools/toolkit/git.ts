@@ -2,29 +2,31 @@ import { tool, t, type } from '../types';
 import { StructuredLogger } from '../../../logger';
 import { ICodingAgent } from 'worker/agents/services/interfaces/ICodingAgent';
 import { z } from 'zod';
+import { WebSocketMessageResponses } from '../../constants';
 
-type GitCommand = 'commit' | 'log' | 'show' | 'reset';
+type GitCommand = 'commit' | 'log' | 'show' | 'reset' | 'branch' | 'checkout' | 'merge';
 
 export function createGitTool(
 	agent: ICodingAgent,
 	logger: StructuredLogger,
 	options?: { excludeCommands?: GitCommand[] }
 ) {
-	const allCommands: GitCommand[] = ['commit', 'log', 'show', 'reset'];
+	const allCommands: GitCommand[] = ['commit', 'log', 'show', 'reset', 'branch', 'checkout', 'merge'];
 	const allowedCommands = options?.excludeCommands
 		? allCommands.filter(cmd => !options.excludeCommands!.includes(cmd))
 		: allCommands;
 
 	const hasReset = allowedCommands.includes('reset');
 	const commandsList = allowedCommands.join(', ');
+	const branchUsage = 'Use branches to try risky changes: branch (list, or create with name), checkout (switch to name, needs a clean tree), merge (merge name into the current branch; conflicts are reported and nothing is changed).';
 	const description = hasReset
-		? `Execute git commands. Commands: ${commandsList}. WARNING: reset is destructive!`
-		: `Execute git commands. Commands: ${commandsList}.`;
+		? `Execute git commands. Commands: ${commandsList}. ${branchUsage} WARNING: reset is destructive!`
+		: `Execute git commands. Commands: ${commandsList}. ${branchUsage}`;
 
 	const commandType = type(
 		z.enum(allowedCommands as [GitCommand, ...GitCommand[]]),
 		(cmd: GitCommand) => {
-			if (cmd === 'commit' || cmd === 'reset') {
+			if (cmd === 'commit' || cmd === 'reset' || cmd === 'branch' || cmd === 'checkout' || cmd === 'merge') {
 				return { gitCommit: true };
 			}
 			return {};
@@ -36,14 +38,24 @@ export function createGitTool(
 		description,
 		args: {
 			command: commandType.describe('Git command to execute'),
-			message: t.string().optional().describe('Commit message (required for commit command, e.g., "fix: resolve authentication bug")'),
+			message: t.string().optional().describe('Commit message (required for commit command, e.g., "fix: resolve authentication bug"; optional for merge)'),
+			name: t.string().optional().describe('Branch name (for branch to create one, required for checkout and merge)'),
 			limit: t.number().optional().describe('Number of commits to show (for log command, default: 10)'),
 			oid: t.string().optional().describe(hasReset
-				? 'Commit hash/OID (required for show and reset commands)'
-				: 'Commit hash/OID (required for show command)'),
+				? 'Commit hash/OID (required for show and reset commands, optional start point for branch)'
+				: 'Commit hash/OID (required for show command, optional start point for branch)'),
 			includeDiff: t.boolean().optional().describe('Include file diffs in show command output (default: false). Use ONLY when you need to see actual code changes. WARNING: Slower for commits with many/large files.'),
 		},
-		run: async ({ command, message, limit, oid, includeDiff }) => {
+		run: async ({ command, message, name, limit, oid, includeDiff }) => {
+			// Keep connected editors on the files of the checked out branch
+			const notifyBranchChanged = (branch: string) => {
+				agent.broadcast(WebSocketMessageResponses.GIT_BRANCH_SWITCHED, {
+					message: `Now on branch ${branch}`,
+					branch,
+					files: agent.listFiles()
+				});
+			};
+
 			try {
 				const gitInstance = agent.git;
 
@@ -115,6 +127,82 @@ export function createGitTool(
 						};
 					}
 
+					case 'branch': {
+						if (!name) {
+							logger.info('Git branch list');
+							const branches = await gitInstance.listBranches();
+							const current = branches.find(b => b.current)?.name ?? 'detached HEAD';
+
+							return {
+								success: true,
+								data: { branches },
+								message: `${branches.length} branches, on ${current}`
+							};
+						}
+
+						logger.info('Git branch create', { name, oid });
+						const branch = await gitInstance.createBranch(name, oid);
+
+						return {
+							success: true,
+							data: branch,
+							message: `Created branch ${name} at ${branch.oid.substring(0, 7)}. Use checkout to switch to it.`
+						};
+					}
+
+					case 'checkout': {
+						if (!name) {
+							return {
+								success: false,
+								message: 'Branch name is required for checkout command'
+							};
+						}
+
+						logger.info('Git checkout', { name });
+						const result = await gitInstance.switchBranch(name);
+						notifyBranchChanged(name);
+
+						return {
+							success: true,
+							data: result,
+							message: `Switched to branch ${name} (${result.files} files). Deploy the preview to run this branch.`
+						};
+					}
+
+					case 'merge': {
+						if (!name) {
+							return {
+								success: false,
+								message: 'Branch name is required for merge command'
+							};
+						}
+
+						const unescapedMessage = message?.replace(/\\n/g, '\n').replace(/\\t/g, '\t');
+
+						logger.info('Git merge', { name });
+						const result = await gitInstance.merge(name, unescapedMessage);
+
+						if (result.status === 'conflict') {
+							return {
+								success: false,
+								data: result,
+								message: `Merge of ${name} into ${result.into} aborted, conflicting files: ${result.conflicts?.join(', ')}. Resolve them on ${name} (e.g. reapply the changes from ${result.into}), commit, then merge again.`
+							};
+						}
+
+						if (result.status !== 'up-to-date') {
+							notifyBranchChanged(result.into);
+						}
+
+						return {
+							success: true,
+							data: result,
+							message: result.status === 'up-to-date'
+								? `${result.into} already contains ${name}`
+								: `Merged ${name} into ${result.into} (${result.status}). Deploy the preview to run the merged code.`
+						};
+					}
+
 					default:
 						return {
 							success: false,
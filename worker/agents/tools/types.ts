@@ -7,9 +7,22 @@ export { t, type } from './resource-types';
 export type { Type } from './resource-types';
 export type { Resources as ResourceAccess } from './resources';
 
+export type MCPTransport = 'streamable-http' | 'sse';
+
+/** Tool sets MCP tools can be added to: user conversations and the deep debugger */
+export type MCPToolScope = 'conversation' | 'debug';
+
 export interface MCPServerConfig {
+	/** Namespace for the server's tools, unique across platform and user servers */
 	name: string;
-	sseUrl: string;
+	url: string;
+	transport: MCPTransport;
+	/** Header values may reference vault secrets as {{secret:ENV_VAR_NAME}} */
+	headers?: Record<string, string>;
+	/** Allow-list of the server's tool names, every tool when omitted */
+	allowedTools?: string[];
+	/** Tool sets the server's tools are added to, all when omitted */
+	scopes?: MCPToolScope[];
 }
 
 export interface MCPResult {
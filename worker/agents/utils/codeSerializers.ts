@@ -1,9 +1,12 @@
 import { SCOFFormat } from '../output-formats/streaming-formats/scof';
+import { XmlStreamFormat } from '../output-formats/streaming-formats/xml-stream';
+import type { StreamFormat } from '../inferutils/config.types';
 import { FileOutputType } from '../schemas';
 
 export enum CodeSerializerType {
 	SIMPLE = 'simple',
 	SCOF = 'scof',
+	XML = 'xml',
 }
 
 export type CodeSerializer = (files: FileOutputType[]) => string;
@@ -60,7 +63,26 @@ function scofSerializer(files: FileOutputType[]): string {
 	);
 }
 
+function xmlSerializer(files: FileOutputType[]): string {
+	return new XmlStreamFormat().serialize(
+		files.map((file) => {
+			return {
+				...file,
+				format: 'full_content',
+			};
+		}),
+	);
+}
+
 export const CODE_SERIALIZERS: Record<CodeSerializerType, CodeSerializer> = {
 	[CodeSerializerType.SIMPLE]: simpleSerializer,
 	[CodeSerializerType.SCOF]: scofSerializer,
+	[CodeSerializerType.XML]: xmlSerializer,
 };
+
+/**
+ * Serializer that shows existing files in the same format the model writes them
+ */
+export function serializerForStreamFormat(format: StreamFormat): CodeSerializerType {
+	return format === 'xml' ? CodeSerializerType.XML : CodeSerializerType.SCOF;
+}
@@ -1,11 +1,18 @@
 import { FileOutputType } from "../schemas";
+import { IMAGE_ASSET_DIR } from "../../services/image-generation";
+
+// Binary and media assets: their contents are no use to the model and generated
+// images embed their pixels as base64, so they only show up in the file tree
+const ASSET_EXTENSIONS = /\.(png|jpe?g|gif|webp|avif|ico|bmp|woff2?|ttf|otf|eot|mp3|mp4|webm|wav|ogg|pdf|zip)$/;
 
 export function getCodebaseContext(allFiles: FileOutputType[]): FileOutputType[]  {
-    // For now, just return all files except readme.md and .bootstrap.js
+    // For now, just return all files except readme.md, .bootstrap.js and assets
     allFiles = allFiles.filter(file => {
         const lowerPath = file.filePath.toLowerCase();
         return !lowerPath.endsWith('readme.md') && 
-               !lowerPath.endsWith('.bootstrap.js');
+               !lowerPath.endsWith('.bootstrap.js') &&
+               !lowerPath.startsWith(`${IMAGE_ASSET_DIR}/`) &&
+               !ASSET_EXTENSIONS.test(lowerPath);
     });
     // allFiles = allFiles.map(file => {
     //     // Redact wrangler.jsonc, tsconfig.json, and package.json
@@ -18,4 +25,4 @@ export function getCodebaseContext(allFiles: FileOutputType[]): FileOutputType[]
     //     return file;
     // });
     return allFiles;
-}
\ No newline at end of file
+}
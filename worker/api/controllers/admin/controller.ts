@@ -0,0 +1,419 @@
+/**
+ * Admin Controller
+ * Instance operator endpoints: users, credits, featured apps, audit log, system settings, AI spend
+ */
+
+import { BaseController } from '../baseController';
+import { RouteContext } from '../../types/route-context';
+import { ApiResponse, ControllerResponse } from '../types';
+import { AdminService } from '../../../database/services/AdminService';
+import { AuditLogService } from '../../../database/services/AuditLogService';
+import { SystemSettingsService } from '../../../database/services/SystemSettingsService';
+import { SessionService } from '../../../database/services/SessionService';
+import { CreditService } from '../../../database/services/CreditService';
+import { getUserConfigurableSettings } from '../../../config';
+import { AiGatewayAnalyticsService } from '../../../services/analytics/AiGatewayAnalyticsService';
+import { AnalyticsError } from '../../../services/analytics/types';
+import { z } from 'zod';
+import {
+    AdminUsersData,
+    AdminUserSuspensionData,
+    AdminUserCreditsData,
+    AdminCreditTopUpData,
+    AdminAppsData,
+    AdminAppFeaturedData,
+    AdminAuditLogsData,
+    AdminSystemSettingsData,
+    AdminSystemSettingData,
+    AdminSystemSettingDeleteData,
+    AdminAnalyticsData,
+    UpdateUserSuspensionRequest,
+    CreateCreditTopUpRequest,
+    UpdateAppFeaturedRequest,
+    UpdateSystemSettingRequest
+} from './types';
+import { createLogger } from '../../../logger';
+
+const MAX_PAGE_SIZE = 100;
+const SETTING_KEY_PATTERN = /^[a-zA-Z0-9_.-]{1,100}$/;
+
+// Validation schemas
+const suspensionSchema = z.object({
+    suspended: z.boolean(),
+    reason: z.string().max(500).optional()
+});
+
+const topUpSchema = z.object({
+    amount: z.number().positive('Amount must be positive').max(1_000_000),
+    note: z.string().max(500).optional()
+});
+
+const featuredSchema = z.object({
+    featured: z.boolean()
+});
+
+const settingSchema = z.object({
+    value: z.unknown().refine((value) => value !== undefined, 'Value is required'),
+    description: z.string().max(500).nullable().optional()
+});
+
+export class AdminController extends BaseController {
+    static logger = createLogger('AdminController');
+
+    private static parsePagination(request: Request): { page: number; limit: number; offset: number } {
+        const url = new URL(request.url);
+        const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50') || 50, 1), MAX_PAGE_SIZE);
+        const page = Math.max(parseInt(url.searchParams.get('page') || '1') || 1, 1);
+        return { page, limit, offset: (page - 1) * limit };
+    }
+
+    private static validationError<T>(error: z.ZodError): ControllerResponse<ApiResponse<T>> {
+        return AdminController.createErrorResponse<T>(
+            `Validation error: ${error.errors.map(e => e.message).join(', ')}`,
+            400
+        );
+    }
+
+    /**
+     * List users
+     */
+    static async getUsers(request: Request, env: Env, _ctx: ExecutionContext, _context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminUsersData>>> {
+        try {
+            const { page, limit, offset } = AdminController.parsePagination(request);
+            const search = new URL(request.url).searchParams.get('search') || undefined;
+
+            const { users, total } = await new AdminService(env).listUsers({ search, limit, offset });
+            return AdminController.createSuccessResponse({ users, pagination: { page, limit, total } });
+        } catch (error) {
+            this.logger.error('Error listing users:', error);
+            return AdminController.createErrorResponse<AdminUsersData>('Failed to list users', 500);
+        }
+    }
+
+    /**
+     * Suspend or reinstate a user. Suspending signs the user out everywhere.
+     */
+    static async updateUserSuspension(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminUserSuspensionData>>> {
+        try {
+            const admin = context.user!;
+            const userId = context.pathParams.id;
+            if (!userId) {
+                return AdminController.createErrorResponse<AdminUserSuspensionData>('User ID is required', 400);
+            }
+
+            const bodyResult = await AdminController.parseJsonBody<UpdateUserSuspensionRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response as ControllerResponse<ApiResponse<AdminUserSuspensionData>>;
+            }
+
+            const validation = suspensionSchema.safeParse(bodyResult.data);
+            if (!validation.success) {
+                return AdminController.validationError<AdminUserSuspensionData>(validation.error);
+            }
+            const { suspended, reason } = validation.data;
+
+            if (userId === admin.id) {
+                return AdminController.createErrorResponse<AdminUserSuspensionData>('You cannot suspend your own account', 400);
+            }
+
+            const adminService = new AdminService(env);
+            const target = await adminService.getUser(userId);
+            if (!target) {
+                return AdminController.createErrorResponse<AdminUserSuspensionData>('User not found', 404);
+            }
+            if (target.role === 'admin' && suspended) {
+                return AdminController.createErrorResponse<AdminUserSuspensionData>('Admins cannot be suspended', 400);
+            }
+
+            await adminService.setUserSuspended(userId, suspended);
+            if (suspended) {
+                await new SessionService(env).revokeAllUserSessions(userId);
+            }
+
+            await new AuditLogService(env).log({
+                userId: admin.id,
+                entityType: 'user',
+                entityId: userId,
+                action: suspended ? 'admin_suspend_user' : 'admin_unsuspend_user',
+                oldValues: { isSuspended: !!target.isSuspended },
+                newValues: { isSuspended: suspended, ...(reason ? { reason } : {}) },
+                request
+            });
+
+            this.logger.info('User suspension updated', { userId, suspended, adminId: admin.id });
+            return AdminController.createSuccessResponse({ userId, isSuspended: suspended });
+        } catch (error) {
+            this.logger.error('Error updating user suspension:', error);
+            return AdminController.createErrorResponse<AdminUserSuspensionData>('Failed to update user', 500);
+        }
+    }
+
+    /**
+     * A user's credit balance for the current month and their top-ups
+     */
+    static async getUserCredits(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminUserCreditsData>>> {
+        try {
+            const userId = context.pathParams.id;
+            if (!userId) {
+                return AdminController.createErrorResponse<AdminUserCreditsData>('User ID is required', 400);
+            }
+            if (!await new AdminService(env).getUser(userId)) {
+                return AdminController.createErrorResponse<AdminUserCreditsData>('User not found', 404);
+            }
+
+            const { credits } = await getUserConfigurableSettings(env, userId);
+            const creditService = new CreditService(env);
+            const [balance, topUps] = await Promise.all([
+                creditService.getBalance(userId, credits.monthlyAllowance, credits.enabled),
+                creditService.getTopUps(userId),
+            ]);
+
+            return AdminController.createSuccessResponse({ userId, balance, topUps });
+        } catch (error) {
+            this.logger.error('Error getting user credits:', error);
+            return AdminController.createErrorResponse<AdminUserCreditsData>('Failed to get user credits', 500);
+        }
+    }
+
+    /**
+     * Grant a user extra credits for the current month
+     */
+    static async createCreditTopUp(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminCreditTopUpData>>> {
+        try {
+            const admin = context.user!;
+            const userId = context.pathParams.id;
+            if (!userId) {
+                return AdminController.createErrorResponse<AdminCreditTopUpData>('User ID is required', 400);
+            }
+
+            const bodyResult = await AdminController.parseJsonBody<CreateCreditTopUpRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response as ControllerResponse<ApiResponse<AdminCreditTopUpData>>;
+            }
+
+            const validation = topUpSchema.safeParse(bodyResult.data);
+            if (!validation.success) {
+                return AdminController.validationError<AdminCreditTopUpData>(validation.error);
+            }
+            const { amount, note } = validation.data;
+
+            if (!await new AdminService(env).getUser(userId)) {
+                return AdminController.createErrorResponse<AdminCreditTopUpData>('User not found', 404);
+            }
+
+            const creditService = new CreditService(env);
+            const topUp = await creditService.addTopUp(userId, amount, admin.id, note);
+            const { credits } = await getUserConfigurableSettings(env, userId);
+            const balance = await creditService.getBalance(userId, credits.monthlyAllowance, credits.enabled);
+
+            await new AuditLogService(env).log({
+                userId: admin.id,
+                entityType: 'user',
+                entityId: userId,
+                action: 'admin_credit_topup',
+                newValues: { amount, ...(note ? { note } : {}) },
+                request
+            });
+
+            this.logger.info('Credit top-up granted', { userId, amount, adminId: admin.id });
+            return AdminController.createSuccessResponse({ topUp, balance });
+        } catch (error) {
+            this.logger.error('Error granting credit top-up:', error);
+            return AdminController.createErrorResponse<AdminCreditTopUpData>('Failed to grant credits', 500);
+        }
+    }
+
+    /**
+     * List apps of all users
+     */
+    static async getApps(request: Request, env: Env, _ctx: ExecutionContext, _context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminAppsData>>> {
+        try {
+            const { page, limit, offset } = AdminController.parsePagination(request);
+            const url = new URL(request.url);
+            const search = url.searchParams.get('search') || undefined;
+            const featuredOnly = url.searchParams.get('featured') === 'true';
+
+            const { apps, total } = await new AdminService(env).listApps({ search, featuredOnly, limit, offset });
+            return AdminController.createSuccessResponse({ apps, pagination: { page, limit, total } });
+        } catch (error) {
+            this.logger.error('Error listing apps:', error);
+            return AdminController.createErrorResponse<AdminAppsData>('Failed to list apps', 500);
+        }
+    }
+
+    /**
+     * Feature or unfeature an app on the discover page
+     */
+    static async updateAppFeatured(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminAppFeaturedData>>> {
+        try {
+            const admin = context.user!;
+            const appId = context.pathParams.id;
+            if (!appId) {
+                return AdminController.createErrorResponse<AdminAppFeaturedData>('App ID is required', 400);
+            }
+
+            const bodyResult = await AdminController.parseJsonBody<UpdateAppFeaturedRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response as ControllerResponse<ApiResponse<AdminAppFeaturedData>>;
+            }
+
+            const validation = featuredSchema.safeParse(bodyResult.data);
+            if (!validation.success) {
+                return AdminController.validationError<AdminAppFeaturedData>(validation.error);
+            }
+            const { featured } = validation.data;
+
+            const updated = await new AdminService(env).setAppFeatured(appId, featured);
+            if (!updated) {
+                return AdminController.createErrorResponse<AdminAppFeaturedData>('App not found', 404);
+            }
+
+            await new AuditLogService(env).log({
+                userId: admin.id,
+                entityType: 'app',
+                entityId: appId,
+                action: featured ? 'admin_feature_app' : 'admin_unfeature_app',
+                newValues: { isFeatured: featured },
+                request
+            });
+
+            return AdminController.createSuccessResponse({ appId, isFeatured: featured });
+        } catch (error) {
+            this.logger.error('Error updating featured app:', error);
+            return AdminController.createErrorResponse<AdminAppFeaturedData>('Failed to update app', 500);
+        }
+    }
+
+    /**
+     * List audit log entries
+     */
+    static async getAuditLogs(request: Request, env: Env, _ctx: ExecutionContext, _context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminAuditLogsData>>> {
+        try {
+            const { page, limit, offset } = AdminController.parsePagination(request);
+            const url = new URL(request.url);
+            const entityType = url.searchParams.get('entityType') || undefined;
+            const userId = url.searchParams.get('userId') || undefined;
+
+            const { logs, total } = await new AuditLogService(env).getLogs({ entityType, userId, limit, offset });
+            return AdminController.createSuccessResponse({ logs, pagination: { page, limit, total } });
+        } catch (error) {
+            this.logger.error('Error listing audit logs:', error);
+            return AdminController.createErrorResponse<AdminAuditLogsData>('Failed to list audit logs', 500);
+        }
+    }
+
+    /**
+     * List system settings
+     */
+    static async getSystemSettings(_request: Request, env: Env, _ctx: ExecutionContext, _context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminSystemSettingsData>>> {
+        try {
+            const settings = await new SystemSettingsService(env).getAll();
+            return AdminController.createSuccessResponse({ settings });
+        } catch (error) {
+            this.logger.error('Error getting system settings:', error);
+            return AdminController.createErrorResponse<AdminSystemSettingsData>('Failed to get system settings', 500);
+        }
+    }
+
+    /**
+     * Create or update a system setting
+     */
+    static async updateSystemSetting(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminSystemSettingData>>> {
+        try {
+            const admin = context.user!;
+            const key = context.pathParams.key;
+            if (!key || !SETTING_KEY_PATTERN.test(key)) {
+                return AdminController.createErrorResponse<AdminSystemSettingData>('Setting key must be up to 100 letters, digits, dots, dashes or underscores', 400);
+            }
+
+            const bodyResult = await AdminController.parseJsonBody<UpdateSystemSettingRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response as ControllerResponse<ApiResponse<AdminSystemSettingData>>;
+            }
+
+            const validation = settingSchema.safeParse(bodyResult.data);
+            if (!validation.success) {
+                return AdminController.validationError<AdminSystemSettingData>(validation.error);
+            }
+
+            const settingsService = new SystemSettingsService(env);
+            const previous = await settingsService.get(key);
+            const setting = await settingsService.set(key, validation.data.value, admin.id, validation.data.description);
+
+            await new AuditLogService(env).log({
+                userId: admin.id,
+                entityType: 'system_setting',
+                entityId: key,
+                action: 'admin_update_setting',
+                oldValues: previous ? { value: previous.value } : undefined,
+                newValues: { value: setting.value },
+                request
+            });
+
+            return AdminController.createSuccessResponse({ setting });
+        } catch (error) {
+            this.logger.error('Error updating system setting:', error);
+            return AdminController.createErrorResponse<AdminSystemSettingData>('Failed to update system setting', 500);
+        }
+    }
+
+    /**
+     * Delete a system setting
+     */
+    static async deleteSystemSetting(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminSystemSettingDeleteData>>> {
+        try {
+            const admin = context.user!;
+            const key = context.pathParams.key;
+            if (!key) {
+                return AdminController.createErrorResponse<AdminSystemSettingDeleteData>('Setting key is required', 400);
+            }
+
+            const settingsService = new SystemSettingsService(env);
+            const previous = await settingsService.get(key);
+            if (!previous) {
+                return AdminController.createErrorResponse<AdminSystemSettingDeleteData>('Setting not found', 404);
+            }
+            await settingsService.delete(key);
+
+            await new AuditLogService(env).log({
+                userId: admin.id,
+                entityType: 'system_setting',
+                entityId: key,
+                action: 'admin_delete_setting',
+                oldValues: { value: previous.value },
+                request
+            });
+
+            return AdminController.createSuccessResponse({ success: true, key });
+        } catch (error) {
+            this.logger.error('Error deleting system setting:', error);
+            return AdminController.createErrorResponse<AdminSystemSettingDeleteData>('Failed to delete system setting', 500);
+        }
+    }
+
+    /**
+     * Instance-wide AI Gateway usage and spend
+     */
+    static async getAnalytics(request: Request, env: Env, _ctx: ExecutionContext, _context: RouteContext): Promise<ControllerResponse<ApiResponse<AdminAnalyticsData>>> {
+        try {
+            const daysParam = new URL(request.url).searchParams.get('days');
+            let days: number | undefined;
+            if (daysParam) {
+                days = parseInt(daysParam);
+                if (isNaN(days) || days < 1 || days > 365) {
+                    return AdminController.createErrorResponse<AdminAnalyticsData>('Days must be between 1 and 365', 400);
+                }
+            }
+
+            const analytics = await new AiGatewayAnalyticsService(env).getTotalAnalytics(days);
+            return AdminController.createSuccessResponse(analytics);
+        } catch (error) {
+            this.logger.error('Error fetching instance analytics:', error);
+
+            if (error instanceof AnalyticsError) {
+                return AdminController.createErrorResponse<AdminAnalyticsData>(error.message, error.statusCode);
+            }
+            return AdminController.createErrorResponse<AdminAnalyticsData>('Failed to fetch analytics', 500);
+        }
+    }
+}
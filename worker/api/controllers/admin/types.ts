@@ -0,0 +1,95 @@
+/**
+ * Admin API Types
+ * Types for instance operator endpoints
+ */
+
+import type { CreditTransaction, SystemSetting } from '../../../database/schema';
+import type { AdminAppSummary, AdminUserSummary, AuditLogWithActor, CreditBalance } from '../../../database/types';
+import type { AnalyticsData } from '../../../services/analytics/types';
+import type { ApiResponse } from '../types';
+
+export interface AdminPagination {
+    page: number;
+    limit: number;
+    total: number;
+}
+
+// Response data types
+export interface AdminUsersData {
+    users: AdminUserSummary[];
+    pagination: AdminPagination;
+}
+
+export interface AdminUserSuspensionData {
+    userId: string;
+    isSuspended: boolean;
+}
+
+export interface AdminUserCreditsData {
+    userId: string;
+    balance: CreditBalance;
+    topUps: CreditTransaction[];
+}
+
+export interface AdminCreditTopUpData {
+    topUp: CreditTransaction;
+    balance: CreditBalance;
+}
+
+export interface AdminAppsData {
+    apps: AdminAppSummary[];
+    pagination: AdminPagination;
+}
+
+export interface AdminAppFeaturedData {
+    appId: string;
+    isFeatured: boolean;
+}
+
+export interface AdminAuditLogsData {
+    logs: AuditLogWithActor[];
+    pagination: AdminPagination;
+}
+
+export interface AdminSystemSettingsData {
+    settings: SystemSetting[];
+}
+
+export interface AdminSystemSettingData {
+    setting: SystemSetting;
+}
+
+export interface AdminSystemSettingDeleteData {
+    success: boolean;
+    key: string;
+}
+
+export type AdminAnalyticsData = AnalyticsData;
+
+// Request input types
+export interface UpdateUserSuspensionRequest {
+    suspended: boolean;
+    reason?: string;
+}
+
+export interface CreateCreditTopUpRequest {
+    amount: number;
+    note?: string;
+}
+
+export interface UpdateAppFeaturedRequest {
+    featured: boolean;
+}
+
+export interface UpdateSystemSettingRequest {
+    value: unknown;
+    description?: string | null;
+}
+
+// API response types
+export type AdminUsersResponse = ApiResponse<AdminUsersData>;
+export type AdminUserCreditsResponse = ApiResponse<AdminUserCreditsData>;
+export type AdminAppsResponse = ApiResponse<AdminAppsData>;
+export type AdminAuditLogsResponse = ApiResponse<AdminAuditLogsData>;
+export type AdminSystemSettingsResponse = ApiResponse<AdminSystemSettingsData>;
+export type AdminAnalyticsResponse = ApiResponse<AdminAnalyticsData>;
@@ -13,7 +13,7 @@ import {
 import { SecurityError, SecurityErrorType } from 'shared/types/errors';
 import { ApiResponse, ControllerResponse } from '../types';
 import { RouteContext } from '../../types/route-context';
-import { AppService, ModelConfigService } from '../../../database';
+import { AppService, CollaboratorService, ModelConfigService } from '../../../database';
 import { ModelConfig, credentialsToRuntimeOverrides } from '../../../agents/inferutils/config.types';
 import { RateLimitService } from '../../../services/rate-limit/rateLimits';
 import { validateWebSocketOrigin } from '../../../middleware/security/websocket';
@@ -23,6 +23,8 @@ import { ImageType, uploadImage } from 'worker/utils/images';
 import { ProcessedImageAttachment } from 'worker/types/image-attachment';
 import { getTemplateImportantFiles } from 'worker/services/sandbox/utils';
 import { hasTicketParam } from '../../../middleware/auth/ticketAuth';
+import { API_KEY_SCOPES_HEADER } from '../../../utils/apiKeyScopes';
+import { SESSION_IDENTITY_HEADER, type SessionIdentity } from '../../../agents/core/collaboration';
 
 const defaultCodeGenArgs: Partial<CodeGenArgs> = {
     language: 'typescript',
@@ -244,9 +246,16 @@ export class CodingAgentController extends BaseController {
                 return new Response('Forbidden: Invalid origin', { status: 403 });
             }
 
+            // Route auth already checked the user owns or collaborates on the app
+            const role = await new CollaboratorService(env).getAppRole(agentId, user.id);
+            if (!role) {
+                return CodingAgentController.createErrorResponse('Access denied', 403);
+            }
+
             this.logger.info('WebSocket connection authorized', {
                 agentId,
                 userId: user.id,
+                role,
                 authMethod: isTicketAuth ? 'ticket' : 'jwt',
             });
 
@@ -254,8 +263,25 @@ export class CodingAgentController extends BaseController {
                 // Get the agent instance to handle the WebSocket connection
                 const agentInstance = await getAgentStub(env, agentId);
 
+                // Pass the API key grants along so the agent can check them per message
+                const headers = new Headers(request.headers);
+                if (context.apiKeyScopes) {
+                    headers.set(API_KEY_SCOPES_HEADER, JSON.stringify(context.apiKeyScopes));
+                } else {
+                    headers.delete(API_KEY_SCOPES_HEADER);
+                }
+
+                // Who is connecting, never taken from the client
+                const identity: SessionIdentity = {
+                    userId: user.id,
+                    displayName: user.displayName || user.username || user.email,
+                    avatarUrl: user.avatarUrl,
+                    role,
+                };
+                headers.set(SESSION_IDENTITY_HEADER, JSON.stringify(identity));
+
                 // Let the agent handle the WebSocket connection directly
-                return agentInstance.fetch(request);
+                return agentInstance.fetch(new Request(request, { headers }));
             } catch (error) {
                 this.logger.error(`Failed to get agent instance with ID ${agentId}:`, error);
                 // Return an appropriate WebSocket error response
@@ -347,9 +373,10 @@ export class CodingAgentController extends BaseController {
 
             // Check if app is public
             if(appResult.visibility !== 'public') {
-                // If user is logged in and is the owner, allow preview deployment
+                // If user is logged in and is the owner or a collaborator, allow preview deployment
                 const user = context.user;
-                if (!user || user.id !== appResult.userId) {
+                const role = user ? await new CollaboratorService(env).getAppRole(agentId, user.id) : null;
+                if (!role) {
                     return CodingAgentController.createErrorResponse<AgentPreviewResponse>('App is not public. Preview deployment is only available for public apps.', 403);
                 }
             }
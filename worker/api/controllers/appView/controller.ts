@@ -2,20 +2,55 @@
 import { BaseController } from '../baseController';
 import { ApiResponse, ControllerResponse } from '../types';
 import type { RouteContext } from '../../types/route-context';
-import { getAgentStubLightweight } from '../../../agents';
+import { getAgentStubLightweight, cloneAgent } from '../../../agents';
 import { AppService } from '../../../database/services/AppService';
+import { CollaboratorService } from '../../../database/services/CollaboratorService';
 import { 
     AppDetailsData, 
     AppStarToggleData,
+    ForkAppData,
+    ForkAppRequest,
     GitCloneTokenData,
 } from './types';
 import { AgentSummary } from '../../../agents/core/types';
+import type { BranchPoint, BranchSnapshot } from '../../../agents/core/branching';
 import { createLogger } from '../../../logger';
 import { buildUserWorkerUrl, buildGitCloneUrl } from 'worker/utils/urls';
 import { JWTUtils } from '../../../utils/jwtUtils';
 
+const COMMIT_OID_PATTERN = /^[0-9a-f]{40}$/;
+
 export class AppViewController extends BaseController {
     static logger = createLogger('AppViewController');
+
+    /**
+     * Read the optional branch point of a fork request, a string when it is invalid
+     */
+    private static async parseBranchPoint(request: Request): Promise<BranchPoint | null | string> {
+        const rawBody = await request.text();
+        if (!rawBody.trim()) {
+            return null;
+        }
+
+        let body: ForkAppRequest;
+        try {
+            body = JSON.parse(rawBody) as ForkAppRequest;
+        } catch {
+            return 'Invalid JSON in request body';
+        }
+
+        if (body.commitOid !== undefined) {
+            return typeof body.commitOid === 'string' && COMMIT_OID_PATTERN.test(body.commitOid)
+                ? { commitOid: body.commitOid }
+                : 'commitOid must be a full commit hash';
+        }
+        if (body.phaseName !== undefined) {
+            return typeof body.phaseName === 'string' && body.phaseName.trim()
+                ? { phaseName: body.phaseName }
+                : 'phaseName must be a non-empty string';
+        }
+        return null;
+    }
     
     // Get single app details (public endpoint, auth optional for ownership check)
     static async getAppDetails(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<AppDetailsData>>> {
@@ -26,7 +61,7 @@ export class AppViewController extends BaseController {
             }
             
             // Try to get user if authenticated (optional for public endpoint)
-            const user = await AppViewController.getOptionalUser(request, env);
+            const user = await AppViewController.getOptionalUser(request, env, appId);
             const userId = user?.id;
 
             // Get app details with stats using app service
@@ -37,9 +72,12 @@ export class AppViewController extends BaseController {
                 return AppViewController.createErrorResponse<AppDetailsData>('App not found', 404);
             }
 
-            // Check if user has permission to view
+            // Check if user has permission to view, private apps are visible to collaborators
             if (appResult.visibility === 'private' && appResult.userId !== userId) {
-                return AppViewController.createErrorResponse<AppDetailsData>('App not found', 404);
+                const role = userId ? await new CollaboratorService(env).getAppRole(appId, userId) : null;
+                if (!role) {
+                    return AppViewController.createErrorResponse<AppDetailsData>('App not found', 404);
+                }
             }
 
             // Track view for all users (including owners and anonymous users)
@@ -116,52 +154,69 @@ export class AppViewController extends BaseController {
         }
     }
 
-    // // Fork an app
-    // DISABLED: Has been disabled for initial alpha release, for security reasons
-    // static async forkApp(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<ForkAppData>>> {
-    //     try {
-    //         const user = context.user!;
-
-    //         const appId = context.pathParams.id;
-    //         if (!appId) {
-    //             return AppViewController.createErrorResponse<ForkAppData>('App ID is required', 400);
-    //         }
-
-    //         // Get original app with permission checks using app service
-    //         const appService = new AppService(env);
-    //         const { app: originalApp, canFork } = await appService.getAppForFork(appId, user.id);
-
-    //         if (!originalApp) {
-    //             return AppViewController.createErrorResponse<ForkAppData>('App not found', 404);
-    //         }
-
-    //         if (!canFork) {
-    //             return AppViewController.createErrorResponse<ForkAppData>('App not found', 404);
-    //         }
-
-    //         // Duplicate agent state first
-    //         try {
-    //             const { newAgentId } = await cloneAgent(env, appId, this.logger);
-    //             this.logger.info(`Successfully duplicated agent state from ${appId} to ${newAgentId}`);
-
-    //             // Create forked app using app service
-    //             const forkedApp = await appService.createForkedApp(originalApp, newAgentId, user.id);
-                
-    //             const responseData: ForkAppData = {
-    //                 forkedAppId: forkedApp.id,
-    //                 message: 'App forked successfully'
-    //             };
-
-    //             return AppViewController.createSuccessResponse(responseData);
-    //         } catch (error) {
-    //             this.logger.error('Failed to duplicate agent state:', error);
-    //             return AppViewController.createErrorResponse<ForkAppData>('Failed to duplicate agent state', 500);
-    //         }
-    //     } catch (error) {
-    //         this.logger.error('Error forking app:', error);
-    //         return AppViewController.createErrorResponse<ForkAppData>('Internal server error', 500);
-    //     }
-    // }
+    /**
+     * Fork an app into a new agent owned by the current user, optionally
+     * branching from a completed phase or commit ({ phaseName } or { commitOid })
+     * POST /api/apps/:id/fork
+     */
+    static async forkApp(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<ForkAppData>>> {
+        try {
+            const user = context.user!;
+
+            const appId = context.pathParams.id;
+            if (!appId) {
+                return AppViewController.createErrorResponse<ForkAppData>('App ID is required', 400);
+            }
+
+            // Get original app with permission checks using app service
+            const appService = new AppService(env);
+            const { app: originalApp, canFork } = await appService.getAppForFork(appId, user.id);
+
+            // Private apps of other users are reported as missing, same as getAppDetails
+            if (!originalApp || !canFork) {
+                return AppViewController.createErrorResponse<ForkAppData>('App not found', 404);
+            }
+
+            const branchPoint = await AppViewController.parseBranchPoint(request);
+            if (typeof branchPoint === 'string') {
+                return AppViewController.createErrorResponse<ForkAppData>(branchPoint, 400);
+            }
+
+            let branch: BranchSnapshot | undefined;
+            if (branchPoint) {
+                const agent = await getAgentStubLightweight(env, appId);
+                const snapshot = await agent.getBranchSnapshot(branchPoint);
+                if (!snapshot) {
+                    return AppViewController.createErrorResponse<ForkAppData>('Branch point not found', 404);
+                }
+                // The chat history stays private to the people working on the source app
+                const role = await new CollaboratorService(env).getAppRole(appId, user.id);
+                branch = role ? snapshot as BranchSnapshot : { ...snapshot, conversation: undefined } as BranchSnapshot;
+            }
+
+            // Duplicate agent state and git history first
+            try {
+                const { newAgentId } = await cloneAgent(env, appId, user.id, branch);
+                this.logger.info(`Successfully duplicated agent state from ${appId} to ${newAgentId}`, { branchPoint });
+
+                // Create forked app using app service
+                const forkedApp = await appService.createForkedApp(originalApp, newAgentId, user.id);
+
+                const responseData: ForkAppData = {
+                    forkedAppId: forkedApp.id,
+                    message: branch ? 'Branch created successfully' : 'App forked successfully'
+                };
+
+                return AppViewController.createSuccessResponse(responseData);
+            } catch (error) {
+                this.logger.error('Failed to duplicate agent state:', error);
+                return AppViewController.createErrorResponse<ForkAppData>('Failed to duplicate agent state', 500);
+            }
+        } catch (error) {
+            this.logger.error('Error forking app:', error);
+            return AppViewController.createErrorResponse<ForkAppData>('Internal server error', 500);
+        }
+    }
 
     /**
      * Generate short-lived token for git clone (private repos only)
@@ -189,6 +244,8 @@ export class AppViewController extends BaseController {
                 email: user.email,
                 type: 'access' as const,
                 sessionId: 'git-clone-' + appId, // Special session for git operations
+                access: 'read',
+                appId,
             }, expiresIn);
 
             const responseData: GitCloneTokenData = {
@@ -48,10 +48,18 @@ export interface GitCloneTokenData {
     cloneUrl: string;
 }
 
-// /**
-//  * Response data for forkApp
-//  */
-// export interface ForkAppData {
-//     forkedAppId: string;
-//     message: string;
-// }
\ No newline at end of file
+/**
+ * Optional body for forkApp - branch from a completed phase or a commit instead of the latest version
+ */
+export interface ForkAppRequest {
+    phaseName?: string;
+    commitOid?: string;
+}
+
+/**
+ * Response data for forkApp
+ */
+export interface ForkAppData {
+    forkedAppId: string;
+    message: string;
+}
\ No newline at end of file
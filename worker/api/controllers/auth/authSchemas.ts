@@ -5,6 +5,8 @@
 
 import { z } from 'zod';
 import { commonSchemas } from '../../../utils/inputValidator';
+import { API_KEY_SCOPES } from '../../../types/auth-types';
+import { ACCOUNT_LEVEL_API_KEY_SCOPES } from '../../../utils/apiKeyScopes';
 
 /**
  * Login request schema
@@ -90,4 +92,24 @@ export type VerifyEmailRequest = z.infer<typeof verifyEmailSchema>;
  */
 export const oauthProviderSchema = z.enum(['google', 'github']);
 
-export type OAuthProviderParam = z.infer<typeof oauthProviderSchema>;
\ No newline at end of file
+export type OAuthProviderParam = z.infer<typeof oauthProviderSchema>;
+
+/**
+ * API key creation schema
+ * Omitting scopes (or passing an empty list) creates a full access key
+ */
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'API key name is required'),
+  scopes: z.array(z.object({
+    scope: z.enum(API_KEY_SCOPES),
+    appIds: z.array(z.string().min(1).max(64)).min(1, 'App list cannot be empty').max(20, 'At most 20 apps per scope').optional()
+  })).max(API_KEY_SCOPES.length).optional()
+}).refine(
+  data => new Set(data.scopes?.map(grant => grant.scope)).size === (data.scopes?.length ?? 0),
+  { message: 'Each scope can only be granted once', path: ['scopes'] }
+).refine(
+  data => !data.scopes?.some(grant => grant.appIds && ACCOUNT_LEVEL_API_KEY_SCOPES.includes(grant.scope)),
+  { message: 'Secrets access applies to the whole account and cannot be limited to apps', path: ['scopes'] }
+);
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
@@ -10,9 +10,14 @@ import { generateApiKey, sha256Hash } from '../../../utils/cryptoUtils';
 import { 
     loginSchema, 
     registerSchema, 
-    oauthProviderSchema
+    oauthProviderSchema,
+    createApiKeySchema,
+    CreateApiKeyRequest,
+    forgotPasswordSchema,
+    resetPasswordSchema
 } from './authSchemas';
-import { SecurityError } from 'shared/types/errors';
+import { RateLimitExceededError, SecurityError } from 'shared/types/errors';
+import { RateLimitService } from '../../../services/rate-limit/rateLimits';
 import {
     formatAuthResponse,
     mapUserResponse,
@@ -26,6 +31,8 @@ import { authMiddleware } from '../../../middleware/auth/auth';
 import { CsrfService } from '../../../services/csrf/CsrfService';
 import { BaseController } from '../baseController';
 import { createLogger } from '../../../logger';
+import { AppService } from '../../../database/services/AppService';
+import { parseApiKeyScopes } from '../../../utils/apiKeyScopes';
 /**
  * Authentication Controller
  */
@@ -458,7 +465,8 @@ export class AuthController extends BaseController {
                     keyPreview: key.keyPreview,
                     createdAt: key.createdAt,
                     lastUsed: key.lastUsed,
-                    isActive: !!key.isActive
+                    isActive: !!key.isActive,
+                    scopes: key.scopes
                 }))
             });
         } catch (error) {
@@ -480,18 +488,32 @@ export class AuthController extends BaseController {
                 return AuthController.createErrorResponse('Unauthorized', 401);
             }
 
-            const bodyResult = await AuthController.parseJsonBody<{ name?: string }>(request);
+            const bodyResult = await AuthController.parseJsonBody<CreateApiKeyRequest>(request);
             if (!bodyResult.success) {
                 return bodyResult.response!;
             }
 
-            const { name } = bodyResult.data!;
-
-            if (!name || typeof name !== 'string' || name.trim().length === 0) {
-                return AuthController.createErrorResponse('API key name is required', 400);
+            const validation = createApiKeySchema.safeParse(bodyResult.data);
+            if (!validation.success) {
+                return AuthController.createErrorResponse(
+                    `Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`,
+                    400
+                );
             }
 
-            const sanitizedName = name.trim().substring(0, 100);
+            const { name, scopes = [] } = validation.data;
+            const sanitizedName = name.substring(0, 100);
+
+            // Keys can only be limited to apps the user owns
+            const appIds = [...new Set(scopes.flatMap(grant => grant.appIds ?? []))];
+            if (appIds.length > 0) {
+                const appService = new AppService(env);
+                const ownership = await Promise.all(appIds.map(appId => appService.checkAppOwnership(appId, user.id)));
+                const unknownApp = appIds.find((_, index) => !ownership[index].isOwner);
+                if (unknownApp) {
+                    return AuthController.createErrorResponse(`App ${unknownApp} not found`, 404);
+                }
+            }
 
             // Check if user has reached the maximum number of API keys
             const apiKeyService = new ApiKeyService(env);
@@ -508,15 +530,17 @@ export class AuthController extends BaseController {
                 userId: user.id,
                 name: sanitizedName,
                 keyHash,
-                keyPreview
+                keyPreview,
+                scopes
             });
 
-            this.logger.info('API key created', { userId: user.id, name: sanitizedName });
+            this.logger.info('API key created', { userId: user.id, name: sanitizedName, scopes: scopes.map(grant => grant.scope) });
 
             return AuthController.createSuccessResponse({
                 key, // Return the actual key only once
                 keyPreview,
                 name: sanitizedName,
+                scopes,
                 message: 'API key created successfully'
             });
         } catch (error) {
@@ -558,6 +582,8 @@ export class AuthController extends BaseController {
      * - Does not create a D1 session row.
      * - Accepts API key only via Authorization Bearer or X-API-Key.
      * - Performs basic format/size checks to reduce abuse.
+     * - Embeds the key's scopes so route auth can enforce them; keys without
+     *   scopes mint unrestricted tokens.
      */
     static async exchangeApiKey(request: Request, env: Env, _ctx: ExecutionContext, _routeContext: RouteContext): Promise<Response> {
         try {
@@ -611,12 +637,18 @@ export class AuthController extends BaseController {
             const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
 
             const sessionId = `api_key:${apiKey.id}`;
+            const scopes = parseApiKeyScopes(apiKey.scopes);
+            if (scopes.length === 0 && apiKey.scopes.trim() !== '[]') {
+                // Scopes we no longer recognize must not widen into full access
+                return AuthController.createErrorResponse('Invalid API key', 401);
+            }
             const accessToken = await jwtUtils.createToken(
                 {
                     sub: user.id,
                     email: user.email,
                     type: 'access',
                     sessionId,
+                    ...(scopes.length > 0 ? { scopes } : {}),
                 },
                 expiresIn,
             );
@@ -628,6 +660,7 @@ export class AuthController extends BaseController {
                 expiresIn,
                 expiresAt,
                 apiKeyId: apiKey.id,
+                scopes: scopes.length > 0 ? scopes : null,
                 user: mapUserResponse(user),
             });
         } catch (error) {
@@ -706,6 +739,93 @@ export class AuthController extends BaseController {
         }
     }
 
+    /**
+     * Request a password reset email
+     * POST /api/auth/forgot-password
+     */
+    static async forgotPassword(request: Request, env: Env, _ctx: ExecutionContext, routeContext: RouteContext): Promise<Response> {
+        try {
+            const bodyResult = await AuthController.parseJsonBody(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const validation = forgotPasswordSchema.safeParse(bodyResult.data);
+            if (!validation.success) {
+                return AuthController.createErrorResponse(
+                    `Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`,
+                    400
+                );
+            }
+            const email = validation.data.email.toLowerCase();
+
+            // Limit per client and per target address so one inbox can't be flooded
+            const rateLimitConfig = routeContext.config.security.rateLimit;
+            await RateLimitService.enforceAuthRateLimit(env, rateLimitConfig, null, request);
+            await RateLimitService.enforceAuthRateLimit(env, rateLimitConfig, null, request, `reset:${(await sha256Hash(email)).slice(0, 16)}`);
+
+            const authService = new AuthService(env);
+            await authService.requestPasswordReset(email, request);
+
+            return AuthController.createSuccessResponse({
+                message: 'If an account exists for this email, a reset link has been sent'
+            });
+        } catch (error) {
+            if (error instanceof RateLimitExceededError) {
+                return AuthController.createErrorResponse('Too many reset requests, please try again later', 429);
+            }
+            if (error instanceof SecurityError) {
+                return AuthController.createErrorResponse(error.message, error.statusCode);
+            }
+
+            return AuthController.handleError(error, 'request password reset');
+        }
+    }
+
+    /**
+     * Set a new password with a reset token
+     * POST /api/auth/reset-password
+     */
+    static async resetPassword(request: Request, env: Env, _ctx: ExecutionContext, routeContext: RouteContext): Promise<Response> {
+        try {
+            const bodyResult = await AuthController.parseJsonBody(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const validation = resetPasswordSchema.safeParse(bodyResult.data);
+            if (!validation.success) {
+                return AuthController.createErrorResponse(
+                    `Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`,
+                    400
+                );
+            }
+
+            await RateLimitService.enforceAuthRateLimit(env, routeContext.config.security.rateLimit, null, request);
+
+            const authService = new AuthService(env);
+            await authService.resetPassword(validation.data.token, validation.data.newPassword, request);
+
+            const response = AuthController.createSuccessResponse({
+                message: 'Password updated, please sign in with your new password'
+            });
+
+            // Any session on this browser was revoked with the rest
+            clearAuthCookies(response);
+
+            return response;
+        } catch (error) {
+            if (error instanceof RateLimitExceededError) {
+                return AuthController.createErrorResponse('Too many attempts, please try again later', 429);
+            }
+            if (error instanceof SecurityError) {
+                return AuthController.createErrorResponse(error.message, error.statusCode);
+            }
+
+            return AuthController.handleError(error, 'reset password');
+        }
+    }
+
     /**
      * Get CSRF token with proper expiration and rotation
      * GET /api/auth/csrf-token
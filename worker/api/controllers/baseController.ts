@@ -6,6 +6,7 @@ import { successResponse, errorResponse } from '../responses';
 import { ControllerErrorHandler, ErrorHandler } from '../../utils/ErrorHandling';
 import { createLogger } from '../../logger';
 import { AuthUser } from '../../types/auth-types';
+import { hasApiKeyScope } from '../../utils/apiKeyScopes';
 import type { ControllerResponse, ApiResponse } from './types';
 
 /**
@@ -16,14 +17,18 @@ export abstract class BaseController {
     
     /**
      * Get optional user for public endpoints that can benefit from user context
-     * Uses authMiddleware directly for optional authentication
+     * Uses authMiddleware directly for optional authentication. Sessions from a
+     * scoped API key are treated as anonymous unless they may read the app.
      */
-    static async getOptionalUser(request: Request, env: Env): Promise<AuthUser | null> {
+    static async getOptionalUser(request: Request, env: Env, appId?: string): Promise<AuthUser | null> {
         try {
             const userSession = await authMiddleware(request, env);
             if (!userSession) {
                 return null;
             }
+            if (userSession.apiKeyScopes && !hasApiKeyScope(userSession.apiKeyScopes, 'apps:read', appId)) {
+                return null;
+            }
             return userSession.user;
         } catch (error) {
             this.logger.debug('Optional auth failed, continuing without user', { error });
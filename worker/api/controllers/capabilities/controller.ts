@@ -38,6 +38,7 @@ export class CapabilitiesController extends BaseController {
 		const features: FeatureDefinition[] = [
 			{ ...DEFAULT_FEATURE_DEFINITIONS.app, enabled: config.features.app.enabled },
 			{ ...DEFAULT_FEATURE_DEFINITIONS.presentation, enabled: config.features.presentation.enabled },
+			{ ...DEFAULT_FEATURE_DEFINITIONS.workflow, enabled: config.features.workflow.enabled },
 			{ ...DEFAULT_FEATURE_DEFINITIONS.general, enabled: config.features.general.enabled },
 		];
 
@@ -0,0 +1,166 @@
+import { BaseController } from '../baseController';
+import { ApiResponse, ControllerResponse } from '../types';
+import type { RouteContext } from '../../types/route-context';
+import { CollaboratorService } from '../../../database/services/CollaboratorService';
+import { COLLABORATOR_ROLES, AppCollaborator } from '../../../database/schema';
+import { getAgentStubLightweight } from '../../../agents';
+import {
+    CollaboratorsListData,
+    CollaboratorData,
+    CollaboratorRoleData,
+    CollaboratorRemoveData,
+    AddCollaboratorRequest,
+    UpdateCollaboratorRequest,
+} from './types';
+import { createLogger } from '../../../logger';
+
+const MAX_COLLABORATORS = 50;
+
+export class CollaboratorController extends BaseController {
+    static logger = createLogger('CollaboratorController');
+
+    private static isRole(role: unknown): role is AppCollaborator['role'] {
+        return typeof role === 'string' && (COLLABORATOR_ROLES as readonly string[]).includes(role);
+    }
+
+    /**
+     * Close the user's live agent connections so they reconnect with their new access
+     */
+    private static async refreshAgentAccess(env: Env, appId: string, userId: string): Promise<void> {
+        try {
+            const agent = await getAgentStubLightweight(env, appId);
+            await agent.disconnectUser(userId);
+        } catch (error) {
+            this.logger.warn('Failed to refresh agent access', { appId, userId, error });
+        }
+    }
+
+    // List collaborators - owner and collaborators
+    static async listCollaborators(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<CollaboratorsListData>>> {
+        try {
+            const user = context.user!;
+            const appId = context.pathParams.id;
+            if (!appId) {
+                return CollaboratorController.createErrorResponse<CollaboratorsListData>('App ID is required', 400);
+            }
+
+            const collaboratorService = new CollaboratorService(env);
+            const role = await collaboratorService.getAppRole(appId, user.id);
+            if (!role) {
+                return CollaboratorController.createErrorResponse<CollaboratorsListData>('App not found', 404);
+            }
+
+            const collaborators = await collaboratorService.listCollaborators(appId);
+            return CollaboratorController.createSuccessResponse<CollaboratorsListData>({ collaborators, role });
+        } catch (error) {
+            this.logger.error('Error listing collaborators:', error);
+            return CollaboratorController.createErrorResponse<CollaboratorsListData>('Failed to list collaborators', 500);
+        }
+    }
+
+    // Invite a registered user by email - owner only
+    static async addCollaborator(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<CollaboratorData>>> {
+        try {
+            const user = context.user!;
+            const appId = context.pathParams.id;
+            if (!appId) {
+                return CollaboratorController.createErrorResponse<CollaboratorData>('App ID is required', 400);
+            }
+
+            const bodyResult = await CollaboratorController.parseJsonBody<AddCollaboratorRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response! as ControllerResponse<ApiResponse<CollaboratorData>>;
+            }
+
+            const email = bodyResult.data?.email;
+            const role = bodyResult.data?.role ?? 'viewer';
+            if (typeof email !== 'string' || !email.includes('@')) {
+                return CollaboratorController.createErrorResponse<CollaboratorData>('A valid email is required', 400);
+            }
+            if (!CollaboratorController.isRole(role)) {
+                return CollaboratorController.createErrorResponse<CollaboratorData>(`Role must be one of: ${COLLABORATOR_ROLES.join(', ')}`, 400);
+            }
+            if (email.trim().toLowerCase() === user.email.toLowerCase()) {
+                return CollaboratorController.createErrorResponse<CollaboratorData>('You already own this app', 400);
+            }
+
+            const collaboratorService = new CollaboratorService(env);
+            const existing = await collaboratorService.listCollaborators(appId);
+            if (existing.length >= MAX_COLLABORATORS) {
+                return CollaboratorController.createErrorResponse<CollaboratorData>(`An app can have at most ${MAX_COLLABORATORS} collaborators`, 400);
+            }
+
+            const collaborator = await collaboratorService.addCollaborator(appId, email, role, user.id);
+            if (!collaborator) {
+                return CollaboratorController.createErrorResponse<CollaboratorData>('No user with that email has an account', 404);
+            }
+
+            await CollaboratorController.refreshAgentAccess(env, appId, collaborator.userId);
+            return CollaboratorController.createSuccessResponse<CollaboratorData>({ collaborator });
+        } catch (error) {
+            this.logger.error('Error adding collaborator:', error);
+            return CollaboratorController.createErrorResponse<CollaboratorData>('Failed to add collaborator', 500);
+        }
+    }
+
+    // Change a collaborator's role - owner only
+    static async updateCollaborator(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<CollaboratorRoleData>>> {
+        try {
+            const { id: appId, userId } = context.pathParams;
+            if (!appId || !userId) {
+                return CollaboratorController.createErrorResponse<CollaboratorRoleData>('App ID and user ID are required', 400);
+            }
+
+            const bodyResult = await CollaboratorController.parseJsonBody<UpdateCollaboratorRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response! as ControllerResponse<ApiResponse<CollaboratorRoleData>>;
+            }
+
+            const role = bodyResult.data?.role;
+            if (!CollaboratorController.isRole(role)) {
+                return CollaboratorController.createErrorResponse<CollaboratorRoleData>(`Role must be one of: ${COLLABORATOR_ROLES.join(', ')}`, 400);
+            }
+
+            const collaborator = await new CollaboratorService(env).updateRole(appId, userId, role);
+            if (!collaborator) {
+                return CollaboratorController.createErrorResponse<CollaboratorRoleData>('Collaborator not found', 404);
+            }
+
+            await CollaboratorController.refreshAgentAccess(env, appId, userId);
+            return CollaboratorController.createSuccessResponse<CollaboratorRoleData>({ collaborator });
+        } catch (error) {
+            this.logger.error('Error updating collaborator:', error);
+            return CollaboratorController.createErrorResponse<CollaboratorRoleData>('Failed to update collaborator', 500);
+        }
+    }
+
+    // Remove a collaborator - the owner, or collaborators leaving themselves
+    static async removeCollaborator(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<CollaboratorRemoveData>>> {
+        try {
+            const user = context.user!;
+            const { id: appId, userId } = context.pathParams;
+            if (!appId || !userId) {
+                return CollaboratorController.createErrorResponse<CollaboratorRemoveData>('App ID and user ID are required', 400);
+            }
+
+            const collaboratorService = new CollaboratorService(env);
+            if (userId !== user.id) {
+                const role = await collaboratorService.getAppRole(appId, user.id);
+                if (role !== 'owner') {
+                    return CollaboratorController.createErrorResponse<CollaboratorRemoveData>('Only the app owner can remove collaborators', 403);
+                }
+            }
+
+            const removed = await collaboratorService.removeCollaborator(appId, userId);
+            if (!removed) {
+                return CollaboratorController.createErrorResponse<CollaboratorRemoveData>('Collaborator not found', 404);
+            }
+
+            await CollaboratorController.refreshAgentAccess(env, appId, userId);
+            return CollaboratorController.createSuccessResponse<CollaboratorRemoveData>({ success: true, userId });
+        } catch (error) {
+            this.logger.error('Error removing collaborator:', error);
+            return CollaboratorController.createErrorResponse<CollaboratorRemoveData>('Failed to remove collaborator', 500);
+        }
+    }
+}
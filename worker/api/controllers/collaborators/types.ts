@@ -0,0 +1,51 @@
+/**
+ * Type definitions for Collaborator Controller responses
+ */
+
+import { AppCollaborator } from '../../../database/schema';
+import { AppAccessRole, CollaboratorWithUser } from '../../../database/types';
+
+/**
+ * Response data for listCollaborators
+ */
+export interface CollaboratorsListData {
+    collaborators: CollaboratorWithUser[];
+    role: AppAccessRole; // Role of the requesting user
+}
+
+/**
+ * Response data for addCollaborator
+ */
+export interface CollaboratorData {
+    collaborator: CollaboratorWithUser;
+}
+
+/**
+ * Response data for updateCollaborator
+ */
+export interface CollaboratorRoleData {
+    collaborator: AppCollaborator;
+}
+
+/**
+ * Response data for removeCollaborator
+ */
+export interface CollaboratorRemoveData {
+    success: true;
+    userId: string;
+}
+
+/**
+ * Request body for inviting a collaborator
+ */
+export interface AddCollaboratorRequest {
+    email: string;
+    role: AppCollaborator['role'];
+}
+
+/**
+ * Request body for changing a collaborator's role
+ */
+export interface UpdateCollaboratorRequest {
+    role: AppCollaborator['role'];
+}
@@ -0,0 +1,249 @@
+
+import { BaseController } from '../baseController';
+import { ApiResponse, ControllerResponse } from '../types';
+import type { RouteContext } from '../../types/route-context';
+import { CommentService } from '../../../database/services/CommentService';
+import { RateLimitService } from '../../../services/rate-limit/rateLimits';
+import { RateLimitExceededError } from 'shared/types/errors';
+import { AuthUser } from '../../../types/auth-types';
+import {
+    CommentsListData,
+    CommentData,
+    CommentDeleteData,
+    CommentLikeToggleData,
+    CreateCommentRequest,
+    UpdateCommentRequest,
+} from './types';
+import { createLogger } from '../../../logger';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+type CommentableApp = NonNullable<Awaited<ReturnType<CommentService['getCommentableApp']>>>;
+
+export class CommentController extends BaseController {
+    static logger = createLogger('CommentController');
+
+    /**
+     * Private apps only accept comments from their owner, everyone else sees them as missing
+     */
+    private static canAccessApp(app: CommentableApp | null, userId?: string): app is CommentableApp {
+        return !!app && (app.visibility === 'public' || app.userId === userId);
+    }
+
+    private static validateContent(content: unknown): string | null {
+        if (typeof content !== 'string') {
+            return null;
+        }
+        const trimmed = content.trim();
+        if (!trimmed || trimmed.length > MAX_COMMENT_LENGTH) {
+            return null;
+        }
+        return trimmed;
+    }
+
+    private static countComments(comments: CommentsListData['comments']): number {
+        return comments.reduce(
+            (total, comment) => total + (comment.isDeleted ? 0 : 1) + CommentController.countComments(comment.replies),
+            0
+        );
+    }
+
+    // Get threaded comments for an app (public endpoint, auth optional for like status)
+    static async getComments(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<CommentsListData>>> {
+        try {
+            const appId = context.pathParams.id;
+            if (!appId) {
+                return CommentController.createErrorResponse<CommentsListData>('App ID is required', 400);
+            }
+
+            const user = await CommentController.getOptionalUser(request, env, appId);
+            const commentService = new CommentService(env);
+            const app = await commentService.getCommentableApp(appId);
+            if (!CommentController.canAccessApp(app, user?.id)) {
+                return CommentController.createErrorResponse<CommentsListData>('App not found', 404);
+            }
+
+            const comments = await commentService.getAppComments(appId, user?.id);
+
+            const responseData: CommentsListData = {
+                comments,
+                totalCount: CommentController.countComments(comments),
+                canModerate: !!user && app.userId === user.id
+            };
+            return CommentController.createSuccessResponse(responseData);
+        } catch (error) {
+            this.logger.error('Error fetching comments:', error);
+            return CommentController.createErrorResponse<CommentsListData>('Failed to fetch comments', 500);
+        }
+    }
+
+    // Post a comment or a reply
+    static async createComment(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<CommentData>>> {
+        try {
+            const user = context.user!;
+
+            const appId = context.pathParams.id;
+            if (!appId) {
+                return CommentController.createErrorResponse<CommentData>('App ID is required', 400);
+            }
+
+            const bodyResult = await CommentController.parseJsonBody<CreateCommentRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response! as ControllerResponse<ApiResponse<CommentData>>;
+            }
+
+            const content = CommentController.validateContent(bodyResult.data?.content);
+            if (!content) {
+                return CommentController.createErrorResponse<CommentData>(`Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`, 400);
+            }
+
+            const commentService = new CommentService(env);
+            const app = await commentService.getCommentableApp(appId);
+            if (!CommentController.canAccessApp(app, user.id)) {
+                return CommentController.createErrorResponse<CommentData>('App not found', 404);
+            }
+
+            const parentCommentId = bodyResult.data?.parentCommentId ?? null;
+            if (parentCommentId) {
+                const parent = await commentService.getComment(parentCommentId);
+                if (!parent || parent.appId !== appId || parent.isDeleted) {
+                    return CommentController.createErrorResponse<CommentData>('Parent comment not found', 404);
+                }
+            }
+
+            const rateLimitResponse = await CommentController.enforceRateLimit<CommentData>(env, context, user, request);
+            if (rateLimitResponse) {
+                return rateLimitResponse;
+            }
+
+            const comment = await commentService.createComment(appId, user.id, content, parentCommentId);
+            return CommentController.createSuccessResponse<CommentData>({ comment });
+        } catch (error) {
+            this.logger.error('Error creating comment:', error);
+            return CommentController.createErrorResponse<CommentData>('Failed to create comment', 500);
+        }
+    }
+
+    // Edit a comment - author only
+    static async updateComment(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<CommentData>>> {
+        try {
+            const user = context.user!;
+
+            const { id: appId, commentId } = context.pathParams;
+            if (!appId || !commentId) {
+                return CommentController.createErrorResponse<CommentData>('App ID and comment ID are required', 400);
+            }
+
+            const bodyResult = await CommentController.parseJsonBody<UpdateCommentRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response! as ControllerResponse<ApiResponse<CommentData>>;
+            }
+
+            const content = CommentController.validateContent(bodyResult.data?.content);
+            if (!content) {
+                return CommentController.createErrorResponse<CommentData>(`Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`, 400);
+            }
+
+            const commentService = new CommentService(env);
+            const existing = await commentService.getComment(commentId);
+            if (!existing || existing.appId !== appId || existing.isDeleted) {
+                return CommentController.createErrorResponse<CommentData>('Comment not found', 404);
+            }
+
+            if (existing.userId !== user.id) {
+                return CommentController.createErrorResponse<CommentData>('You can only edit your own comments', 403);
+            }
+
+            const comment = await commentService.updateComment(commentId, content);
+            if (!comment) {
+                return CommentController.createErrorResponse<CommentData>('Comment not found', 404);
+            }
+
+            return CommentController.createSuccessResponse<CommentData>({ comment });
+        } catch (error) {
+            this.logger.error('Error updating comment:', error);
+            return CommentController.createErrorResponse<CommentData>('Failed to update comment', 500);
+        }
+    }
+
+    // Soft delete a comment - author, or the app owner for moderation
+    static async deleteComment(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<CommentDeleteData>>> {
+        try {
+            const user = context.user!;
+
+            const { id: appId, commentId } = context.pathParams;
+            if (!appId || !commentId) {
+                return CommentController.createErrorResponse<CommentDeleteData>('App ID and comment ID are required', 400);
+            }
+
+            const commentService = new CommentService(env);
+            const [existing, app] = await Promise.all([
+                commentService.getComment(commentId),
+                commentService.getCommentableApp(appId)
+            ]);
+            if (!existing || existing.appId !== appId || existing.isDeleted || !CommentController.canAccessApp(app, user.id)) {
+                return CommentController.createErrorResponse<CommentDeleteData>('Comment not found', 404);
+            }
+
+            const isAuthor = existing.userId === user.id;
+            const isAppOwner = app.userId === user.id;
+            if (!isAuthor && !isAppOwner) {
+                return CommentController.createErrorResponse<CommentDeleteData>('You can only delete your own comments', 403);
+            }
+
+            await commentService.deleteComment(commentId);
+            if (!isAuthor) {
+                this.logger.info('Comment removed by app owner', { appId, commentId, moderatorId: user.id });
+            }
+
+            return CommentController.createSuccessResponse<CommentDeleteData>({ success: true, commentId });
+        } catch (error) {
+            this.logger.error('Error deleting comment:', error);
+            return CommentController.createErrorResponse<CommentDeleteData>('Failed to delete comment', 500);
+        }
+    }
+
+    // Like/unlike a comment
+    static async toggleCommentLike(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<CommentLikeToggleData>>> {
+        try {
+            const user = context.user!;
+
+            const { id: appId, commentId } = context.pathParams;
+            if (!appId || !commentId) {
+                return CommentController.createErrorResponse<CommentLikeToggleData>('App ID and comment ID are required', 400);
+            }
+
+            const commentService = new CommentService(env);
+            const [existing, app] = await Promise.all([
+                commentService.getComment(commentId),
+                commentService.getCommentableApp(appId)
+            ]);
+            if (!existing || existing.appId !== appId || existing.isDeleted || !CommentController.canAccessApp(app, user.id)) {
+                return CommentController.createErrorResponse<CommentLikeToggleData>('Comment not found', 404);
+            }
+
+            const result = await commentService.toggleCommentLike(commentId, user.id);
+            return CommentController.createSuccessResponse<CommentLikeToggleData>(result);
+        } catch (error) {
+            this.logger.error('Error toggling comment like:', error);
+            return CommentController.createErrorResponse<CommentLikeToggleData>('Failed to update like', 500);
+        }
+    }
+
+    private static async enforceRateLimit<T>(
+        env: Env,
+        context: RouteContext,
+        user: AuthUser,
+        request: Request
+    ): Promise<ControllerResponse<ApiResponse<T>> | null> {
+        try {
+            await RateLimitService.enforceCommentRateLimit(env, context.config.security.rateLimit, user, request);
+            return null;
+        } catch (error) {
+            if (error instanceof RateLimitExceededError) {
+                return CommentController.createErrorResponse<T>(error, 429);
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * Type definitions for Comment Controller responses
+ */
+
+import { AppComment } from '../../../database/schema';
+import { CommentWithStats, CommentLikeToggleResult } from '../../../database/types';
+
+/**
+ * Response data for getComments
+ */
+export interface CommentsListData {
+    comments: CommentWithStats[];
+    totalCount: number;
+    canModerate: boolean; // True for the app owner, who can delete any comment
+}
+
+/**
+ * Response data for createComment and updateComment
+ */
+export interface CommentData {
+    comment: AppComment;
+}
+
+/**
+ * Response data for deleteComment
+ */
+export interface CommentDeleteData {
+    success: true;
+    commentId: string;
+}
+
+/**
+ * Response data for toggleCommentLike
+ */
+export type CommentLikeToggleData = CommentLikeToggleResult;
+
+/**
+ * Request body for creating a comment
+ */
+export interface CreateCommentRequest {
+    content: string;
+    parentCommentId?: string | null;
+}
+
+/**
+ * Request body for editing a comment
+ */
+export interface UpdateCommentRequest {
+    content: string;
+}
@@ -0,0 +1,43 @@
+/**
+ * Credits Controller
+ * The signed-in user's monthly budget and where it went
+ */
+
+import { BaseController } from '../baseController';
+import { RouteContext } from '../../types/route-context';
+import { ApiResponse, ControllerResponse } from '../types';
+import { CreditService } from '../../../database/services/CreditService';
+import { getUserConfigurableSettings } from '../../../config';
+import { AI_MODEL_CONFIG, AIModels } from '../../../agents/inferutils/config.types';
+import { UserCreditsData } from './types';
+import { createLogger } from '../../../logger';
+
+export class CreditsController extends BaseController {
+    static logger = createLogger('CreditsController');
+
+    /**
+     * Current period balance with spend by model, agent action and app
+     */
+    static async getUserCredits(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<UserCreditsData>>> {
+        try {
+            const user = context.user!;
+            const { credits } = await getUserConfigurableSettings(env, user.id);
+            const creditService = new CreditService(env);
+
+            const [balance, usage] = await Promise.all([
+                creditService.getBalance(user.id, credits.monthlyAllowance, credits.enabled),
+                creditService.getUsageBreakdown(user.id),
+            ]);
+
+            usage.byModel = usage.byModel.map((entry) => ({
+                ...entry,
+                label: AI_MODEL_CONFIG[entry.key as AIModels]?.name ?? entry.key,
+            }));
+
+            return CreditsController.createSuccessResponse({ balance, usage });
+        } catch (error) {
+            this.logger.error('Error getting user credits:', error);
+            return CreditsController.createErrorResponse<UserCreditsData>('Failed to get credit usage', 500);
+        }
+    }
+}
@@ -0,0 +1,13 @@
+/**
+ * Credits API Types
+ */
+
+import type { CreditBalance, CreditUsageBreakdown } from '../../../database/types';
+import type { ApiResponse } from '../types';
+
+export interface UserCreditsData {
+    balance: CreditBalance;
+    usage: CreditUsageBreakdown;
+}
+
+export type UserCreditsResponse = ApiResponse<UserCreditsData>;
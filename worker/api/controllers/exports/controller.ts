@@ -0,0 +1,86 @@
+import { BaseController } from '../baseController';
+import type { ControllerResponse, ApiResponse } from '../types';
+import type { RouteContext } from '../../types/route-context';
+import { createLogger } from '../../../logger';
+import { getExportKey } from '../../../services/export';
+
+// -------------------------
+// Helpers
+// -------------------------
+function isValidAgentId(id: string): boolean {
+    return /^[A-Za-z0-9_-]{1,128}$/.test(id);
+}
+
+const EXPORT_MIME_TYPES: Record<string, string> = {
+    pdf: 'application/pdf',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    zip: 'application/zip',
+    json: 'application/json',
+};
+
+function validateExportFileName(file: string): string | null {
+    if (file.includes('..') || file.includes('/') || file.includes('\\') || file.includes('\0')) {
+        return null;
+    }
+    if (!/^[A-Za-z0-9._-]{1,160}$/.test(file) || file.startsWith('.')) {
+        return null;
+    }
+    const ext = file.substring(file.lastIndexOf('.') + 1).toLowerCase();
+    if (!EXPORT_MIME_TYPES[ext]) {
+        return null;
+    }
+    return file;
+}
+
+export class ExportsController extends BaseController {
+    static logger = createLogger('ExportsController');
+
+    /**
+     * Download a stored export artifact (PDF, PPTX, ...)
+     */
+    static async downloadExport(
+        _request: Request,
+        env: Env,
+        _ctx: ExecutionContext,
+        context: RouteContext,
+    ): Promise<ControllerResponse<ApiResponse<never>>> {
+        try {
+            const agentId = context.pathParams.id;
+            const file = context.pathParams.file;
+
+            if (!agentId || !file) {
+                return ExportsController.createErrorResponse('Missing path parameters', 400);
+            }
+
+            if (!isValidAgentId(agentId)) {
+                return ExportsController.createErrorResponse('Invalid app id', 400);
+            }
+
+            const validatedFile = validateExportFileName(file);
+            if (!validatedFile) {
+                return ExportsController.createErrorResponse('Invalid file name', 400);
+            }
+
+            const obj = await env.TEMPLATES_BUCKET.get(getExportKey(agentId, validatedFile));
+            if (!obj || !obj.body) {
+                return ExportsController.createErrorResponse('Export not found', 404);
+            }
+
+            const ext = validatedFile.substring(validatedFile.lastIndexOf('.') + 1).toLowerCase();
+            const headers = new Headers({
+                'Content-Type': obj.httpMetadata?.contentType || EXPORT_MIME_TYPES[ext],
+                'Content-Disposition': `attachment; filename="${validatedFile}"`,
+                'Cache-Control': 'private, max-age=3600',
+                'X-Content-Type-Options': 'nosniff',
+            });
+
+            // Binary response, returned as-is by the router
+            return new Response(obj.body, {
+                headers,
+            }) as unknown as ControllerResponse<ApiResponse<never>>;
+        } catch (error) {
+            this.logger.error('Error serving export', { error });
+            return ExportsController.createErrorResponse('Internal server error', 500);
+        }
+    }
+}
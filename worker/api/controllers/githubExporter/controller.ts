@@ -6,6 +6,9 @@ import { getAgentStub } from '../../../agents';
 import { createLogger } from '../../../logger';
 import { AppService } from '../../../database/services/AppService';
 import { ExportResult } from 'worker/agents/core/types';
+import { GitCloneService } from '../../../agents/git/git-clone-service';
+import type { GitHubLinkResult, GitHubPullResult } from '../../../services/github/types';
+import { GitHubServiceError } from '../../../services/github/types';
 
 export interface GitHubExportData {
     success: boolean;
@@ -23,6 +26,7 @@ interface GitHubOAuthCallbackState {
         repositoryName: string;
         description?: string;
         isPrivate?: boolean;
+        forcePush?: boolean;
     };
 }
 
@@ -31,7 +35,8 @@ export class GitHubExporterController extends BaseController {
 
     /**
      * Creates GitHub repository and pushes files from agent
-     * If existingRepositoryUrl is provided, skips creation and syncs to existing repo
+     * If existingRepositoryUrl is provided, skips creation and syncs to existing repo.
+     * Syncing opens a pull request instead when GitHub has moved, unless forcePush is set.
      */
     private static async createRepositoryAndPush(options: {
         env: Env;
@@ -42,8 +47,9 @@ export class GitHubExporterController extends BaseController {
         token: string;
         username: string;
         existingRepositoryUrl?: string;
+        forcePush?: boolean;
     }): Promise<
-        | { success: true; repositoryUrl: string } 
+        | { success: true; repositoryUrl: string; pullRequestUrl?: string } 
         | { success: false; error: string; alreadyExists?: boolean; existingRepositoryUrl?: string }
     > {
         const { env, agentId, repositoryName, description, isPrivate, token, username, existingRepositoryUrl } = options;
@@ -51,6 +57,9 @@ export class GitHubExporterController extends BaseController {
         try {
             let repositoryUrl: string | undefined;
             let cloneUrl: string | undefined;
+            let defaultBranch: string | undefined;
+            let syncedCommitSha: string | null = null;
+            let forcePush = options.forcePush ?? false;
             
             // Check database for existing repository if not provided
             let finalExistingRepoUrl = existingRepositoryUrl;
@@ -59,6 +68,7 @@ export class GitHubExporterController extends BaseController {
                     const appService = new AppService(env);
                     const app = await appService.getAppDetails(agentId);
                     finalExistingRepoUrl = app?.githubRepositoryUrl || undefined;
+                    syncedCommitSha = app?.githubSyncedCommitSha ?? null;
                     
                     if (finalExistingRepoUrl) {
                         this.logger.info('Found existing GitHub repository in database', { 
@@ -74,12 +84,12 @@ export class GitHubExporterController extends BaseController {
             // Determine repository details (sync to existing or create new)
             if (finalExistingRepoUrl) {
                 // Check if repository still exists on GitHub
-                const exists = await GitHubService.repositoryExists({
-                    repositoryUrl: finalExistingRepoUrl,
-                    token
-                });
+                const repoInfo = GitHubService.extractRepoInfo(finalExistingRepoUrl);
+                const repoResult = repoInfo
+                    ? await GitHubService.getRepository({ ...repoInfo, token })
+                    : { success: false as const };
                 
-                if (!exists) {
+                if (!repoResult.success || !repoResult.repository) {
                     // Repository doesn't exist - clear from database and create new
                     this.logger.info('Repository no longer exists, creating new one', {
                         agentId,
@@ -89,7 +99,7 @@ export class GitHubExporterController extends BaseController {
                     
                     try {
                         const appService = new AppService(env);
-                        await appService.updateGitHubRepository(agentId, '', 'public');
+                        await appService.updateGitHubRepository(agentId, '', 'public', { defaultBranch: null, syncedCommitSha: null });
                     } catch (clearError) {
                         this.logger.warn('Failed to clear repository URL', { error: clearError, agentId });
                     }
@@ -99,6 +109,7 @@ export class GitHubExporterController extends BaseController {
                 } else {
                     // Repository exists, use it
                     repositoryUrl = finalExistingRepoUrl;
+                    defaultBranch = repoResult.repository.default_branch;
                     cloneUrl = finalExistingRepoUrl.endsWith('.git') 
                         ? finalExistingRepoUrl 
                         : `${finalExistingRepoUrl}.git`;
@@ -149,6 +160,10 @@ export class GitHubExporterController extends BaseController {
                 const { repository } = createResult;
                 repositoryUrl = repository.html_url;
                 cloneUrl = repository.clone_url;
+                defaultBranch = repository.default_branch;
+                syncedCommitSha = null;
+                // Only GitHub's initial commit is there, nothing to keep
+                forcePush = true;
                 
                 this.logger.info('Repository created', { agentId, repositoryUrl });
             }
@@ -173,7 +188,10 @@ export class GitHubExporterController extends BaseController {
                     isPrivate,
                     token,
                     email: 'vibesdk-bot@cloudflare.com',
-                    username
+                    username,
+                    defaultBranch,
+                    syncedCommitSha,
+                    forcePush
                 }
             });
 
@@ -185,9 +203,12 @@ export class GitHubExporterController extends BaseController {
             }
 
             const operationType = finalExistingRepoUrl ? 'Sync' : 'Export';
-            this.logger.info(`${operationType} completed`, { agentId, repositoryUrl });
+            const pullRequestUrl = typeof pushResult.metadata?.pullRequestUrl === 'string'
+                ? pushResult.metadata.pullRequestUrl
+                : undefined;
+            this.logger.info(`${operationType} completed`, { agentId, repositoryUrl, pullRequestUrl });
             
-            return { success: true, repositoryUrl };
+            return { success: true, repositoryUrl, pullRequestUrl };
         } catch (error) {
             this.logger.error('Repository operation failed', { error, agentId, repositoryName });
             return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -278,7 +299,8 @@ export class GitHubExporterController extends BaseController {
                     description: exportData.description,
                     isPrivate: exportData.isPrivate || false,
                     token: tokenResult.accessToken,
-                    username: 'vibesdk-bot'
+                    username: 'vibesdk-bot',
+                    forcePush: exportData.forcePush
                 });
 
                 if (!result.success) {
@@ -290,8 +312,11 @@ export class GitHubExporterController extends BaseController {
 
                 this.logger.info('OAuth export completed', { userId, agentId, repositoryUrl: result.repositoryUrl });
 
+                const pullRequestParam = result.pullRequestUrl
+                    ? `&pull_request_url=${encodeURIComponent(result.pullRequestUrl)}`
+                    : '';
                 return Response.redirect(
-                    `${returnUrl}?github_export=success&repository_url=${encodeURIComponent(result.repositoryUrl)}`,
+                    `${returnUrl}?github_export=success&repository_url=${encodeURIComponent(result.repositoryUrl)}${pullRequestParam}`,
                     302,
                 );
             }
@@ -327,6 +352,7 @@ export class GitHubExporterController extends BaseController {
                 repositoryName: string;
                 description?: string;
                 isPrivate?: boolean;
+                forcePush?: boolean;
                 agentId: string;
             };
 
@@ -368,7 +394,8 @@ export class GitHubExporterController extends BaseController {
                     description: body.description,
                     isPrivate: body.isPrivate ?? false,
                     token: cachedToken.token,
-                    username: cachedToken.username
+                    username: cachedToken.username,
+                    forcePush: body.forcePush
                 });
                 
                 if (result.success) {
@@ -376,6 +403,7 @@ export class GitHubExporterController extends BaseController {
                     return GitHubExporterController.createSuccessResponse({
                         success: true,
                         repositoryUrl: result.repositoryUrl,
+                        pullRequestUrl: result.pullRequestUrl,
                         skippedOAuth: true
                     });
                 }
@@ -403,7 +431,8 @@ export class GitHubExporterController extends BaseController {
                 exportData: {
                     repositoryName: body.repositoryName,
                     description: body.description,
-                    isPrivate: body.isPrivate
+                    isPrivate: body.isPrivate,
+                    forcePush: body.forcePush
                 },
                 returnUrl: request.headers.get('referer') || `${new URL(request.url).origin}/chat`,
             };
@@ -479,14 +508,16 @@ export class GitHubExporterController extends BaseController {
             // Export git objects and template details
             const { gitObjects, query, templateDetails } = await agentStub.exportGitObjects();
             
-            // Get app createdAt
+            // Get app createdAt and the branch the repository syncs with
             let appCreatedAt: Date | undefined;
+            let branch: string | undefined;
             try {
                 const appService = new AppService(env);
                 const app = await appService.getAppDetails(body.agentId);
                 if (app && app.createdAt) {
                     appCreatedAt = new Date(app.createdAt);
                 }
+                branch = app?.githubDefaultBranch ?? undefined;
             } catch (error) {
                 this.logger.warn('Failed to get app createdAt for sync check', { error });
             }
@@ -498,7 +529,8 @@ export class GitHubExporterController extends BaseController {
                 appQuery: query,
                 appCreatedAt,
                 repositoryUrl: body.repositoryUrl,
-                token: cachedToken.token
+                token: cachedToken.token,
+                branch
             });
 
             return GitHubExporterController.createSuccessResponse(status);
@@ -510,4 +542,207 @@ export class GitHubExporterController extends BaseController {
             );
         }
     }
+
+    /**
+     * Link the app to an existing GitHub repository so later exports and pulls sync with it
+     */
+    static async linkGitHubRepository(
+        request: Request,
+        env: Env,
+        _ctx: ExecutionContext,
+        context: RouteContext,
+    ): Promise<Response> {
+        try {
+            if (!context.user) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'Authentication required',
+                    401
+                );
+            }
+
+            const body = await request.json() as {
+                repositoryUrl: string;
+                agentId: string;
+            };
+
+            if (!body.repositoryUrl || !body.agentId) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'Repository URL and agent ID are required',
+                    400
+                );
+            }
+
+            const appService = new AppService(env);
+            const ownershipResult = await appService.checkAppOwnership(body.agentId, context.user.id);
+            if (!ownershipResult.isOwner) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'You do not have permission to access this app',
+                    403
+                );
+            }
+
+            const repoInfo = GitHubService.extractRepoInfo(body.repositoryUrl);
+            if (!repoInfo) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'Invalid GitHub repository URL',
+                    400
+                );
+            }
+
+            const agentStub = await getAgentStub(env, body.agentId);
+            const cachedToken = await agentStub.getGitHubToken();
+            if (!cachedToken) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'No cached GitHub token. Please re-authenticate.',
+                    401
+                );
+            }
+
+            const repoResult = await GitHubService.getRepository({ ...repoInfo, token: cachedToken.token });
+            if (!repoResult.success || !repoResult.repository) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'Repository not found or not accessible with your GitHub authorization',
+                    404
+                );
+            }
+
+            const { repository } = repoResult;
+            await appService.updateGitHubRepository(
+                body.agentId,
+                repository.html_url,
+                repository.private ? 'private' : 'public',
+                { defaultBranch: repository.default_branch, syncedCommitSha: null }
+            );
+
+            this.logger.info('Linked GitHub repository', {
+                agentId: body.agentId,
+                repositoryUrl: repository.html_url,
+                defaultBranch: repository.default_branch
+            });
+
+            return GitHubExporterController.createSuccessResponse<GitHubLinkResult>({
+                repositoryUrl: repository.html_url,
+                defaultBranch: repository.default_branch
+            });
+        } catch (error) {
+            this.logger.error('Failed to link GitHub repository', error);
+            return GitHubExporterController.createErrorResponse<never>(
+                'Failed to link GitHub repository',
+                500
+            );
+        }
+    }
+
+    /**
+     * Pull new commits from the linked repository's default branch into the agent
+     */
+    static async pullFromGitHub(
+        request: Request,
+        env: Env,
+        _ctx: ExecutionContext,
+        context: RouteContext,
+    ): Promise<Response> {
+        try {
+            if (!context.user) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'Authentication required',
+                    401
+                );
+            }
+
+            const body = await request.json() as { agentId: string };
+            if (!body.agentId) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'Agent ID is required',
+                    400
+                );
+            }
+
+            const appService = new AppService(env);
+            const ownershipResult = await appService.checkAppOwnership(body.agentId, context.user.id);
+            if (!ownershipResult.isOwner) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'You do not have permission to access this app',
+                    403
+                );
+            }
+
+            const app = await appService.getAppDetails(body.agentId);
+            if (!app?.githubRepositoryUrl) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'App is not linked to a GitHub repository',
+                    400
+                );
+            }
+
+            const agentStub = await getAgentStub(env, body.agentId);
+            const cachedToken = await agentStub.getGitHubToken();
+            if (!cachedToken) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'No cached GitHub token. Please re-authenticate.',
+                    401
+                );
+            }
+
+            const { gitObjects, query, templateDetails } = await agentStub.exportGitObjects();
+            const agentHead = GitCloneService.getAgentHeadOid(gitObjects);
+            if (!agentHead) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    'App has no commits to pull onto yet',
+                    409
+                );
+            }
+
+            const plan = await GitHubService.pullFromGitHub({
+                gitObjects,
+                templateDetails,
+                appQuery: query,
+                appCreatedAt: app.createdAt ? new Date(app.createdAt) : undefined,
+                repositoryUrl: app.githubRepositoryUrl,
+                token: cachedToken.token,
+                branch: app.githubDefaultBranch || 'main',
+                syncedCommitSha: app.githubSyncedCommitSha
+            });
+
+            if (plan.status === 'conflict') {
+                return GitHubExporterController.createSuccessResponse<GitHubPullResult>({
+                    status: 'conflict',
+                    pulledCommits: 0,
+                    conflicts: plan.conflicts
+                });
+            }
+
+            if (plan.status === 'ready') {
+                await agentStub.applyPushedCommits(agentHead, plan.commits, context.user.id, 'github');
+            }
+            if (plan.remoteHead && plan.remoteHead !== app.githubSyncedCommitSha) {
+                await appService.updateGitHubSyncedCommit(body.agentId, plan.remoteHead);
+            }
+
+            this.logger.info('Pulled from GitHub', {
+                agentId: body.agentId,
+                status: plan.status,
+                commits: plan.commits.length,
+                remoteHead: plan.remoteHead
+            });
+
+            return GitHubExporterController.createSuccessResponse<GitHubPullResult>({
+                status: plan.status === 'ready' ? 'pulled' : 'up-to-date',
+                pulledCommits: plan.commits.length,
+                conflicts: []
+            });
+        } catch (error) {
+            this.logger.error('Failed to pull from GitHub', error);
+            if (error instanceof GitHubServiceError) {
+                return GitHubExporterController.createErrorResponse<never>(
+                    error.message,
+                    error.statusCode ?? 500
+                );
+            }
+            return GitHubExporterController.createErrorResponse<never>(
+                error instanceof Error ? `Failed to pull from GitHub: ${error.message}` : 'Failed to pull from GitHub',
+                500
+            );
+        }
+    }
 }
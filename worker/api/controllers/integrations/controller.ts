@@ -0,0 +1,36 @@
+/**
+ * Integrations Controller
+ */
+
+import { BaseController } from '../baseController';
+import { RouteContext } from '../../types/route-context';
+import { ApiResponse, ControllerResponse } from '../types';
+import { IntegrationLogService } from '../../../database/services/IntegrationLogService';
+import { AppIntegrationsData } from './types';
+import { createLogger } from '../../../logger';
+
+export class IntegrationsController extends BaseController {
+    static logger = createLogger('IntegrationsController');
+
+    /**
+     * Get the integrations available to an app and its recent proxied calls
+     */
+    static async getAppIntegrations(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<AppIntegrationsData>>> {
+        try {
+            const appId = context.pathParams.id;
+            if (!appId) {
+                return IntegrationsController.createErrorResponse<AppIntegrationsData>('App ID is required', 400);
+            }
+
+            const integrations = Object.entries(context.config.integrations)
+                .filter(([, definition]) => definition?.enabled)
+                .map(([id, definition]) => ({ id, name: definition.name, baseUrl: definition.baseUrl }));
+            const logs = await new IntegrationLogService(env).getAppLogs(appId);
+
+            return IntegrationsController.createSuccessResponse({ integrations, logs });
+        } catch (error) {
+            this.logger.error('Error getting app integrations:', error);
+            return IntegrationsController.createErrorResponse<AppIntegrationsData>('Failed to get app integrations', 500);
+        }
+    }
+}
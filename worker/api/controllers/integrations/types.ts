@@ -0,0 +1,23 @@
+/**
+ * Integrations API Types
+ */
+
+import type { IntegrationRequestLog } from '../../../database/schema';
+import type { ApiResponse } from '../types';
+
+export interface IntegrationSummary {
+    id: string;
+    name: string;
+    baseUrl: string;
+}
+
+// Response data types
+export interface AppIntegrationsData {
+    /** Integrations the app's preview can call */
+    integrations: IntegrationSummary[];
+    /** Most recent proxied calls, newest first */
+    logs: IntegrationRequestLog[];
+}
+
+// API response types
+export type AppIntegrationsResponse = ApiResponse<AppIntegrationsData>;
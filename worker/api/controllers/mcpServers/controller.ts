@@ -0,0 +1,209 @@
+/**
+ * MCP Servers Controller
+ */
+
+import { BaseController } from '../baseController';
+import { RouteContext } from '../../types/route-context';
+import { ApiResponse, ControllerResponse } from '../types';
+import { McpServerService } from '../../../database/services/McpServerService';
+import { MCP_SERVER_NAME_PATTERN } from '../../../agents/tools/mcpManager';
+import { getUserConfigurableSettings } from '../../../config';
+import { z } from 'zod';
+import {
+    McpServersListData,
+    McpServerData,
+    McpServerDeleteData,
+    CreateMcpServerRequest,
+    UpdateMcpServerRequest
+} from './types';
+import { createLogger } from '../../../logger';
+
+const MAX_SERVERS_PER_USER = 20;
+
+// Validation schemas
+const headersSchema = z.record(z.string().min(1).max(100), z.string().max(4000))
+    .refine((headers) => Object.keys(headers).length <= 20, 'At most 20 headers are allowed')
+    .refine(
+        (headers) => !Object.values(headers).some((value) => /\{\{\s*env:/.test(value)),
+        'Worker secrets ({{env:...}}) are only available to platform servers, use {{secret:ENV_VAR_NAME}} for vault secrets'
+    );
+
+const serverFields = {
+    name: z.string().regex(MCP_SERVER_NAME_PATTERN, 'Name must be up to 32 lowercase letters, digits or dashes'),
+    url: z.string().url().refine(
+        (url) => ['https:', 'http:'].includes(new URL(url).protocol),
+        'URL must use http or https'
+    ),
+    transport: z.enum(['streamable-http', 'sse']),
+    headers: headersSchema.optional(),
+    allowedTools: z.array(z.string().min(1).max(128)).max(200).nullable().optional()
+};
+
+const createServerSchema = z.object(serverFields);
+
+const updateServerSchema = z.object({
+    name: serverFields.name.optional(),
+    url: serverFields.url.optional(),
+    transport: serverFields.transport.optional(),
+    headers: serverFields.headers,
+    allowedTools: serverFields.allowedTools,
+    isActive: z.boolean().optional()
+});
+
+export class McpServersController extends BaseController {
+    static logger = createLogger('McpServersController');
+
+    private static async getPlatformServerNames(env: Env, userId: string): Promise<string[]> {
+        const config = await getUserConfigurableSettings(env, userId);
+        return config.mcp.servers.map((server) => server.name);
+    }
+
+    /**
+     * Get all MCP servers for the authenticated user
+     */
+    static async getServers(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<McpServersListData>>> {
+        try {
+            const user = context.user!;
+            const mcpServerService = new McpServerService(env);
+            const [servers, platformServers] = await Promise.all([
+                mcpServerService.getUserServers(user.id),
+                McpServersController.getPlatformServerNames(env, user.id)
+            ]);
+
+            return McpServersController.createSuccessResponse({ servers, platformServers });
+        } catch (error) {
+            this.logger.error('Error getting MCP servers:', error);
+            return McpServersController.createErrorResponse<McpServersListData>('Failed to get MCP servers', 500);
+        }
+    }
+
+    /**
+     * Add an MCP server
+     */
+    static async createServer(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<McpServerData>>> {
+        try {
+            const user = context.user!;
+
+            const bodyResult = await McpServersController.parseJsonBody<CreateMcpServerRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response as ControllerResponse<ApiResponse<McpServerData>>;
+            }
+
+            const validation = createServerSchema.safeParse(bodyResult.data);
+            if (!validation.success) {
+                return McpServersController.createErrorResponse<McpServerData>(
+                    `Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`,
+                    400
+                );
+            }
+
+            const mcpServerService = new McpServerService(env);
+            const existing = await mcpServerService.getUserServers(user.id);
+            if (existing.length >= MAX_SERVERS_PER_USER) {
+                return McpServersController.createErrorResponse<McpServerData>(`You can add up to ${MAX_SERVERS_PER_USER} MCP servers`, 400);
+            }
+
+            const nameError = await McpServersController.checkNameAvailable(env, mcpServerService, user.id, validation.data.name);
+            if (nameError) {
+                return McpServersController.createErrorResponse<McpServerData>(nameError, 409);
+            }
+
+            const server = await mcpServerService.createServer(user.id, validation.data);
+            return McpServersController.createSuccessResponse({ server });
+        } catch (error) {
+            this.logger.error('Error creating MCP server:', error);
+            return McpServersController.createErrorResponse<McpServerData>('Failed to create MCP server', 500);
+        }
+    }
+
+    /**
+     * Update an MCP server
+     */
+    static async updateServer(request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<McpServerData>>> {
+        try {
+            const user = context.user!;
+
+            const serverId = context.pathParams.id;
+            if (!serverId) {
+                return McpServersController.createErrorResponse<McpServerData>('Server ID is required', 400);
+            }
+
+            const bodyResult = await McpServersController.parseJsonBody<UpdateMcpServerRequest>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response as ControllerResponse<ApiResponse<McpServerData>>;
+            }
+
+            const validation = updateServerSchema.safeParse(bodyResult.data);
+            if (!validation.success) {
+                return McpServersController.createErrorResponse<McpServerData>(
+                    `Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`,
+                    400
+                );
+            }
+
+            const mcpServerService = new McpServerService(env);
+            const { name } = validation.data;
+            if (name) {
+                const nameError = await McpServersController.checkNameAvailable(env, mcpServerService, user.id, name, serverId);
+                if (nameError) {
+                    return McpServersController.createErrorResponse<McpServerData>(nameError, 409);
+                }
+            }
+
+            const server = await mcpServerService.updateServer(user.id, serverId, validation.data);
+            if (!server) {
+                return McpServersController.createErrorResponse<McpServerData>('MCP server not found', 404);
+            }
+
+            return McpServersController.createSuccessResponse({ server });
+        } catch (error) {
+            this.logger.error('Error updating MCP server:', error);
+            return McpServersController.createErrorResponse<McpServerData>('Failed to update MCP server', 500);
+        }
+    }
+
+    /**
+     * Delete an MCP server
+     */
+    static async deleteServer(_request: Request, env: Env, _ctx: ExecutionContext, context: RouteContext): Promise<ControllerResponse<ApiResponse<McpServerDeleteData>>> {
+        try {
+            const user = context.user!;
+
+            const serverId = context.pathParams.id;
+            if (!serverId) {
+                return McpServersController.createErrorResponse<McpServerDeleteData>('Server ID is required', 400);
+            }
+
+            const deleted = await new McpServerService(env).deleteServer(user.id, serverId);
+            if (!deleted) {
+                return McpServersController.createErrorResponse<McpServerDeleteData>('MCP server not found', 404);
+            }
+
+            return McpServersController.createSuccessResponse({ success: true, serverId });
+        } catch (error) {
+            this.logger.error('Error deleting MCP server:', error);
+            return McpServersController.createErrorResponse<McpServerDeleteData>('Failed to delete MCP server', 500);
+        }
+    }
+
+    /**
+     * Server names double as tool namespaces, so they can't collide with the
+     * user's other servers or with platform servers
+     */
+    private static async checkNameAvailable(
+        env: Env,
+        mcpServerService: McpServerService,
+        userId: string,
+        name: string,
+        excludeId?: string
+    ): Promise<string | null> {
+        const platformServers = await McpServersController.getPlatformServerNames(env, userId);
+        if (platformServers.includes(name)) {
+            return `"${name}" is reserved by a platform MCP server`;
+        }
+        if (await mcpServerService.serverExists(userId, name, excludeId)) {
+            return `An MCP server named "${name}" already exists`;
+        }
+        return null;
+    }
+}
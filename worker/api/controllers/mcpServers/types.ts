@@ -0,0 +1,47 @@
+/**
+ * MCP Servers API Types
+ * Types for user MCP server CRUD operations
+ */
+
+import type { UserMcpServer } from '../../../database/schema';
+import type { MCPTransport } from '../../../agents/tools/types';
+import type { ApiResponse } from '../types';
+
+// Response data types
+export interface McpServersListData {
+    servers: UserMcpServer[];
+    /** Namespaces taken by platform-wide servers */
+    platformServers: string[];
+}
+
+export interface McpServerData {
+    server: UserMcpServer;
+}
+
+export interface McpServerDeleteData {
+    success: boolean;
+    serverId: string;
+}
+
+// Request input types
+export interface CreateMcpServerRequest {
+    name: string;
+    url: string;
+    transport: MCPTransport;
+    headers?: Record<string, string>;
+    allowedTools?: string[] | null;
+}
+
+export interface UpdateMcpServerRequest {
+    name?: string;
+    url?: string;
+    transport?: MCPTransport;
+    headers?: Record<string, string>;
+    allowedTools?: string[] | null;
+    isActive?: boolean;
+}
+
+// API response types
+export type McpServersListResponse = ApiResponse<McpServersListData>;
+export type McpServerResponse = ApiResponse<McpServerData>;
+export type McpServerDeleteResponse = ApiResponse<McpServerDeleteData>;
@@ -11,7 +11,8 @@ import { ModelTestService } from '../../../database/services/ModelTestService';
 import {
     AgentActionKey,
     ModelConfig,
-    AIModels
+    AIModels,
+    STREAM_FORMATS
 } from '../../../agents/inferutils/config.types';
 import { AGENT_CONFIG } from '../../../agents/inferutils/config';
 import {
@@ -42,6 +43,7 @@ const modelConfigUpdateSchema = z.object({
     reasoningEffort: z.enum(['low', 'medium', 'high']).nullable().optional(),
     providerOverride: z.enum(['cloudflare', 'direct']).nullable().optional(),
     fallbackModel: z.string().min(1).max(100).nullable().optional(),
+    streamFormat: z.enum(STREAM_FORMATS).nullable().optional(),
     isUserOverride: z.boolean().optional()
 });
 
@@ -150,6 +152,9 @@ export class ModelConfigController extends BaseController {
             if (validatedData.fallbackModel !== null && validatedData.fallbackModel !== undefined) {
                 modelConfig.fallbackModel = validatedData.fallbackModel;
             }
+            if (validatedData.streamFormat !== null && validatedData.streamFormat !== undefined) {
+                modelConfig.stream_format = validatedData.streamFormat;
+            }
 
             // Validate model access based on environment configuration and user BYOK status
             if (modelConfig.name || modelConfig.fallbackModel) {
@@ -292,6 +297,7 @@ export class ModelConfigController extends BaseController {
                 ...(validatedData.tempConfig.temperature != null && { temperature: validatedData.tempConfig.temperature }),
                 ...(validatedData.tempConfig.reasoningEffort != null && { reasoning_effort: validatedData.tempConfig.reasoningEffort }),
                 ...(validatedData.tempConfig.fallbackModel != null && { fallbackModel: validatedData.tempConfig.fallbackModel }),
+                ...(validatedData.tempConfig.streamFormat != null && { stream_format: validatedData.tempConfig.streamFormat }),
                 ...(validatedData.tempConfig.providerOverride != null && { providerOverride: validatedData.tempConfig.providerOverride })
             } : baseConfig;
 
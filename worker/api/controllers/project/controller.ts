@@ -2,7 +2,8 @@
  * Project Controller - Handle persistent development project operations
  */
 
-import { ProjectService } from '../../../database/services/ProjectService';
+import { ProjectService, FileEditType } from '../../../database/services/ProjectService';
+import { AppService } from '../../../database/services/AppService';
 import { BaseController } from '../baseController';
 import { ApiResponse, ControllerResponse } from '../types';
 import type { RouteContext } from '../../types/route-context';
@@ -11,10 +12,14 @@ import {
     ProjectData,
     ProjectSessionData,
     ProjectDeleteData,
-    ProjectWithSession
+    ProjectWithSession,
+    FileEditHistoryData
 } from './types';
 import { createLogger } from '../../../logger';
 
+const FILE_EDIT_TYPES: FileEditType[] = ['user', 'ai'];
+const MAX_FILE_EDITS_PAGE_SIZE = 200;
+
 export class ProjectController extends BaseController {
     static logger = createLogger('ProjectController');
 
@@ -60,7 +65,7 @@ export class ProjectController extends BaseController {
     ): Promise<ControllerResponse<ApiResponse<{ project: ProjectWithSession }>>> {
         try {
             const user = context.user!;
-            const projectId = context.params.id;
+            const projectId = context.pathParams.id;
 
             if (!projectId) {
                 return ProjectController.createErrorResponse('Project ID is required', 400);
@@ -105,7 +110,7 @@ export class ProjectController extends BaseController {
     ): Promise<ControllerResponse<ApiResponse<{ project: ProjectWithSession | null }>>> {
         try {
             const user = context.user!;
-            const appId = context.params.appId;
+            const appId = context.pathParams.appId;
 
             if (!appId) {
                 return ProjectController.createErrorResponse('App ID is required', 400);
@@ -120,6 +125,9 @@ export class ProjectController extends BaseController {
                 });
             }
 
+            // Opening an app's editor counts as opening its project
+            await projectService.touchProject(project.id, user.id);
+
             // Get session state
             const session = await projectService.getProjectSession(project.id);
 
@@ -137,6 +145,39 @@ export class ProjectController extends BaseController {
         }
     }
 
+    /**
+     * Get the project for one of the user's apps, creating it on first use.
+     * Shares ProjectService.ensureProjectForApp with the agent so both resolve the same project.
+     * POST /api/projects/by-app/:appId
+     */
+    static async ensureProjectForApp(
+        _request: Request,
+        env: Env,
+        _ctx: ExecutionContext,
+        context: RouteContext
+    ): Promise<ControllerResponse<ApiResponse<ProjectData>>> {
+        try {
+            const user = context.user!;
+            const appId = context.pathParams.appId;
+
+            if (!appId) {
+                return ProjectController.createErrorResponse<ProjectData>('App ID is required', 400);
+            }
+
+            const app = await new AppService(env).getAppDetails(appId, user.id);
+            if (!app || app.userId !== user.id) {
+                return ProjectController.createErrorResponse<ProjectData>('App not found', 404);
+            }
+
+            const project = await new ProjectService(env).ensureProjectForApp(appId, user.id, app.title || appId);
+
+            return ProjectController.createSuccessResponse<ProjectData>({ project });
+        } catch (error) {
+            this.logger.error('Error resolving project for app:', error);
+            return ProjectController.createErrorResponse<ProjectData>('Failed to get project', 500);
+        }
+    }
+
     /**
      * Create a new project
      * POST /api/projects
@@ -208,7 +249,7 @@ export class ProjectController extends BaseController {
     ): Promise<ControllerResponse<ApiResponse<ProjectData>>> {
         try {
             const user = context.user!;
-            const projectId = context.params.id;
+            const projectId = context.pathParams.id;
 
             if (!projectId) {
                 return ProjectController.createErrorResponse('Project ID is required', 400);
@@ -255,7 +296,7 @@ export class ProjectController extends BaseController {
     ): Promise<ControllerResponse<ApiResponse<ProjectDeleteData>>> {
         try {
             const user = context.user!;
-            const projectId = context.params.id;
+            const projectId = context.pathParams.id;
 
             if (!projectId) {
                 return ProjectController.createErrorResponse('Project ID is required', 400);
@@ -294,7 +335,7 @@ export class ProjectController extends BaseController {
     ): Promise<ControllerResponse<ApiResponse<ProjectSessionData | { session: null }>>> {
         try {
             const user = context.user!;
-            const projectId = context.params.id;
+            const projectId = context.pathParams.id;
 
             if (!projectId) {
                 return ProjectController.createErrorResponse('Project ID is required', 400);
@@ -337,7 +378,7 @@ export class ProjectController extends BaseController {
     ): Promise<ControllerResponse<ApiResponse<ProjectSessionData>>> {
         try {
             const user = context.user!;
-            const projectId = context.params.id;
+            const projectId = context.pathParams.id;
 
             if (!projectId) {
                 return ProjectController.createErrorResponse('Project ID is required', 400);
@@ -374,4 +415,61 @@ export class ProjectController extends BaseController {
             );
         }
     }
+
+    /**
+     * Get file edit history for a project, newest first
+     * GET /api/projects/:id/edits?filePath=&editType=user|ai&limit=&offset=
+     */
+    static async getFileEdits(
+        _request: Request,
+        env: Env,
+        _ctx: ExecutionContext,
+        context: RouteContext
+    ): Promise<ControllerResponse<ApiResponse<FileEditHistoryData>>> {
+        try {
+            const user = context.user!;
+            const projectId = context.pathParams.id;
+
+            if (!projectId) {
+                return ProjectController.createErrorResponse('Project ID is required', 400);
+            }
+
+            const editType = context.queryParams.get('editType') || undefined;
+            if (editType && !FILE_EDIT_TYPES.includes(editType as FileEditType)) {
+                return ProjectController.createErrorResponse('editType must be either "user" or "ai"', 400);
+            }
+
+            const limit = Math.min(Math.max(parseInt(context.queryParams.get('limit') || '50', 10) || 50, 1), MAX_FILE_EDITS_PAGE_SIZE);
+            const offset = Math.max(parseInt(context.queryParams.get('offset') || '0', 10) || 0, 0);
+
+            // Verify user owns the project
+            const projectService = new ProjectService(env);
+            const project = await projectService.getProjectById(projectId, user.id);
+
+            if (!project) {
+                return ProjectController.createErrorResponse('Project not found', 404);
+            }
+
+            // Fetch one extra row to know whether another page exists
+            const edits = await projectService.getFileEditHistory(projectId, {
+                filePath: context.queryParams.get('filePath') || undefined,
+                editType: editType as FileEditType | undefined,
+                limit: limit + 1,
+                offset
+            });
+
+            const responseData: FileEditHistoryData = {
+                edits: edits.slice(0, limit),
+                hasMore: edits.length > limit
+            };
+
+            return ProjectController.createSuccessResponse(responseData);
+        } catch (error) {
+            this.logger.error('Error getting file edit history:', error);
+            return ProjectController.createErrorResponse<FileEditHistoryData>(
+                'Failed to get file edit history',
+                500
+            );
+        }
+    }
 }
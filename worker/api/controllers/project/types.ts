@@ -2,7 +2,7 @@
  * Type definitions for Project API controller responses
  */
 
-import type { Project, ProjectSession } from '../../../database/schema';
+import type { Project, ProjectSession, FileEdit } from '../../../database/schema';
 
 export interface ProjectListData {
     projects: Project[];
@@ -24,3 +24,8 @@ export interface ProjectWithSession {
     project: Project;
     session: ProjectSession | null;
 }
+
+export interface FileEditHistoryData {
+    edits: FileEdit[];
+    hasMore: boolean;
+}
@@ -55,6 +55,25 @@ export class ScreenshotsController extends BaseController {
         env: Env,
         _ctx: ExecutionContext,
         context: RouteContext,
+    ): Promise<ControllerResponse<ApiResponse<never>>> {
+        return ScreenshotsController.serveStoredImage(env, context, 'screenshots', 'Screenshot');
+    }
+
+    // Images from the generate_images tool, embedded by generated apps including deployed ones
+    static async serveGeneratedImage(
+        _request: Request,
+        env: Env,
+        _ctx: ExecutionContext,
+        context: RouteContext,
+    ): Promise<ControllerResponse<ApiResponse<never>>> {
+        return ScreenshotsController.serveStoredImage(env, context, 'generated', 'Image');
+    }
+
+    private static async serveStoredImage(
+        env: Env,
+        context: RouteContext,
+        prefix: string,
+        label: string,
     ): Promise<ControllerResponse<ApiResponse<never>>> {
         try {
             const sessionId = context.pathParams.id;
@@ -74,10 +93,10 @@ export class ScreenshotsController extends BaseController {
                 return ScreenshotsController.createErrorResponse('Invalid file name', 400);
             }
 
-            const key = `screenshots/${sessionId}/${validatedFile}`;
+            const key = `${prefix}/${sessionId}/${validatedFile}`;
             const obj = await env.TEMPLATES_BUCKET.get(key);
             if (!obj || !obj.body) {
-                return ScreenshotsController.createErrorResponse('Screenshot not found', 404);
+                return ScreenshotsController.createErrorResponse(`${label} not found`, 404);
             }
 
             const contentType = obj.httpMetadata?.contentType || getMimeByExtension(validatedFile) || 'image/png';
@@ -93,7 +112,7 @@ export class ScreenshotsController extends BaseController {
 				headers,
 			}) as unknown as ControllerResponse<ApiResponse<never>>;
 		        } catch (error) {
-            this.logger.error('Error serving screenshot', { error });
+            this.logger.error(`Error serving ${label.toLowerCase()}`, { error });
             return ScreenshotsController.createErrorResponse('Internal server error', 500);
         }
     }
@@ -8,13 +8,20 @@
 import { BaseController } from '../baseController';
 import { RouteContext } from '../../types/route-context';
 import { createLogger } from '../../../logger';
-import { checkAppOwnership } from '../../../middleware/auth/routeAuth';
+import { checkAppAccess } from '../../../middleware/auth/routeAuth';
 import { generateTicketToken, getResourceStub } from '../../../middleware/auth/ticketAuth';
 import type { TicketResourceType } from '../../../middleware/auth/routeAuth';
-import type { PendingWsTicket, AuthUser } from '../../../types/auth-types';
+import type { PendingWsTicket, AuthUser, ApiKeyScope } from '../../../types/auth-types';
+import { hasApiKeyScope } from '../../../utils/apiKeyScopes';
 
 const TICKET_TTL_MS = 15_000;
 
+/** API key scopes that allow opening each kind of WebSocket */
+const TICKET_API_KEY_SCOPES: Record<TicketResourceType, readonly ApiKeyScope[]> = {
+	agent: ['builds:create', 'deploy'],
+	vault: ['secrets:manage'],
+};
+
 interface CreateTicketRequest {
 	resourceType: TicketResourceType;
 	resourceId?: string;
@@ -32,7 +39,7 @@ async function verifyOwnership(
 ): Promise<boolean> {
 	switch (resourceType) {
 		case 'agent':
-			return checkAppOwnership(user, { agentId: resourceId }, env);
+			return checkAppAccess(user, { agentId: resourceId }, env);
 		case 'vault':
 			return resourceId === user.id;
 	}
@@ -92,6 +99,13 @@ export class TicketController extends BaseController {
 		}
 		const { resourceId } = resolved;
 
+		// Scoped API keys need a scope for this resource
+		const appId = body.resourceType === 'agent' ? resourceId : undefined;
+		if (context.apiKeyScopes && !hasApiKeyScope(context.apiKeyScopes, TICKET_API_KEY_SCOPES[body.resourceType], appId)) {
+			this.logger.warn('Ticket creation denied by API key scopes', { userId: user.id, resourceType: body.resourceType, resourceId });
+			return this.createErrorResponse('This API key is not allowed to access this resource', 403);
+		}
+
 		// Verify ownership
 		if (!await verifyOwnership(user, body.resourceType, resourceId, env)) {
 			this.logger.warn('Ticket creation denied', { userId: user.id, resourceType: body.resourceType, resourceId });
@@ -104,6 +118,7 @@ export class TicketController extends BaseController {
 			token: generateTicketToken(body.resourceType, resourceId),
 			user,
 			sessionId: context.sessionId ?? `ticket:${body.resourceType}:${resourceId}`,
+			apiKeyScopes: context.apiKeyScopes,
 			createdAt: now,
 			expiresAt: now + TICKET_TTL_MS,
 		};
@@ -1,15 +1,17 @@
 /**
  * Git Protocol Handler
- * Handles git clone/fetch operations via HTTP protocol
- * Route: /apps/:id.git/info/refs and /apps/:id.git/git-upload-pack
+ * Handles git clone/fetch/push operations via HTTP protocol
+ * Route: /apps/:id.git/info/refs, /apps/:id.git/git-upload-pack and /apps/:id.git/git-receive-pack
  * 
  * Architecture: Export git objects from DO, build repo in worker to save DO memory
  */
 import { getAgentStub } from '../../agents';
 import { createLogger } from '../../logger';
-import { GitCloneService } from '../../agents/git/git-clone-service';
+import { GitCloneService, type GitService } from '../../agents/git/git-clone-service';
+import { GitPushService } from '../../agents/git/git-push-service';
 import { AppService } from '../../database/services/AppService';
 import { JWTUtils } from '../../utils/jwtUtils';
+import { hasApiKeyScope } from '../../utils/apiKeyScopes';
 import { GitCache } from './git-cache';
 
 const logger = createLogger('GitProtocol');
@@ -19,12 +21,18 @@ const logger = createLogger('GitProtocol');
  */
 const GIT_INFO_REFS_PATTERN = /^\/apps\/([a-f0-9-]+)\.git\/info\/refs$/;
 const GIT_UPLOAD_PACK_PATTERN = /^\/apps\/([a-f0-9-]+)\.git\/git-upload-pack$/;
+const GIT_RECEIVE_PACK_PATTERN = /^\/apps\/([a-f0-9-]+)\.git\/git-receive-pack$/;
+
+// Largest push request body accepted, packs are built in worker memory
+const MAX_PUSH_BODY_BYTES = 25 * 1024 * 1024;
 
 /**
  * Check if request is a Git protocol request
  */
 export function isGitProtocolRequest(pathname: string): boolean {
-    return GIT_INFO_REFS_PATTERN.test(pathname) || GIT_UPLOAD_PACK_PATTERN.test(pathname);
+    return GIT_INFO_REFS_PATTERN.test(pathname)
+        || GIT_UPLOAD_PACK_PATTERN.test(pathname)
+        || GIT_RECEIVE_PACK_PATTERN.test(pathname);
 }
 
 /**
@@ -37,36 +45,24 @@ function extractAppId(pathname: string): string | null {
     const uploadPackMatch = pathname.match(GIT_UPLOAD_PACK_PATTERN);
     if (uploadPackMatch) return uploadPackMatch[1];
     
-    return null;
-}
-
-/**
- * Extract agent HEAD OID from git objects
- */
-function extractAgentHeadOid(gitObjects: Array<{ path: string; data: Uint8Array }>): string | null {
-    const headFile = gitObjects.find(obj => obj.path === '.git/HEAD');
-    if (!headFile) return null;
-    
-    const headContent = new TextDecoder().decode(headFile.data).trim();
-    
-    if (headContent.startsWith('ref: ')) {
-        const refPath = headContent.slice(5).trim();
-        const refFile = gitObjects.find(obj => obj.path === `.git/${refPath}`);
-        return refFile ? new TextDecoder().decode(refFile.data).trim() : null;
-    }
+    const receivePackMatch = pathname.match(GIT_RECEIVE_PACK_PATTERN);
+    if (receivePackMatch) return receivePackMatch[1];
     
     return null;
 }
 
 /**
- * Verify git access (public apps or owner with valid token)
+ * Verify git access (public apps or owner with valid token).
+ * Writes (push) always require the owner's token, even for public apps, and
+ * are refused for clone tokens and API keys without `builds:create` on the app.
  */
 async function verifyGitAccess(
     request: Request,
     env: Env,
-    appId: string
-): Promise<{ hasAccess: boolean; appCreatedAt?: Date }> {
-    logger.info('Verifying git access', { appId });
+    appId: string,
+    mode: 'read' | 'write' = 'read'
+): Promise<{ hasAccess: boolean; appCreatedAt?: Date; userId?: string }> {
+    logger.info('Verifying git access', { appId, mode });
     
     // Log all headers for debugging
     const headers: Record<string, string> = {};
@@ -86,11 +82,11 @@ async function verifyGitAccess(
     }
 
     // Public apps: anyone can clone
-    if (app.visibility === 'public') {
+    if (app.visibility === 'public' && mode === 'read') {
         return { hasAccess: true, appCreatedAt: app.createdAt || undefined };
     }
 
-    // Private apps: require authentication
+    // Private apps and pushes: require authentication
     const authHeader = request.headers.get('Authorization');
     logger.info('Private app - checking auth header', { hasAuthHeader: !!authHeader, authType: authHeader?.split(' ')[0] });
     
@@ -123,6 +119,26 @@ async function verifyGitAccess(
 
     logger.info('Token verified', { userId: payload.sub, appOwnerId: app.userId });
 
+    // Clone tokens are bound to the app they were minted for
+    if (payload.appId !== undefined && payload.appId !== appId) {
+        logger.warn('Access denied - token was minted for another app', { appId, tokenAppId: payload.appId });
+        return { hasAccess: false };
+    }
+
+    if (mode === 'write') {
+        if (payload.access === 'read') {
+            logger.warn('Access denied - read-only token used for push', { appId });
+            return { hasAccess: false };
+        }
+        if (payload.scopes && !hasApiKeyScope(payload.scopes, 'builds:create', appId)) {
+            logger.warn('Access denied - API key lacks builds:create for this app', { appId });
+            return { hasAccess: false };
+        }
+    } else if (payload.scopes && !hasApiKeyScope(payload.scopes, 'apps:read', appId)) {
+        logger.warn('Access denied - API key lacks apps:read for this app', { appId });
+        return { hasAccess: false };
+    }
+
     // Check if user owns the app
     const hasAccess = payload.sub === app.userId;
     
@@ -132,7 +148,46 @@ async function verifyGitAccess(
         logger.info('Access granted - user owns this app');
     }
     
-    return { hasAccess, appCreatedAt: hasAccess ? (app.createdAt || undefined) : undefined };
+    return hasAccess
+        ? { hasAccess, appCreatedAt: app.createdAt || undefined, userId: payload.sub }
+        : { hasAccess };
+}
+
+/**
+ * Read a request body, inflating gzip and enforcing the push size limit
+ * Returns null when the body is too large
+ */
+async function readRequestBody(request: Request): Promise<Uint8Array | null> {
+    const declaredLength = Number(request.headers.get('Content-Length') ?? 0);
+    if (declaredLength > MAX_PUSH_BODY_BYTES || !request.body) {
+        return declaredLength > MAX_PUSH_BODY_BYTES ? null : new Uint8Array();
+    }
+
+    const stream = request.headers.get('Content-Encoding') === 'gzip'
+        ? request.body.pipeThrough(new DecompressionStream('gzip'))
+        : request.body;
+
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    const reader = stream.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.length;
+        if (total > MAX_PUSH_BODY_BYTES) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+
+    const body = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return body;
 }
 
 /**
@@ -145,8 +200,15 @@ async function handleInfoRefs(
     appId: string
 ): Promise<Response> {
     try {
+        const service: GitService = new URL(request.url).searchParams.get('service') === 'git-receive-pack'
+            ? 'git-receive-pack'
+            : 'git-upload-pack';
+        const contentType = `application/x-${service}-advertisement`;
+        
         // Verify access first
-        const { hasAccess, appCreatedAt } = await verifyGitAccess(request, env, appId);
+        const { hasAccess, appCreatedAt } = await verifyGitAccess(
+            request, env, appId, service === 'git-receive-pack' ? 'write' : 'read'
+        );
         if (!hasAccess) {
             // Return 401 with WWW-Authenticate to prompt git for credentials
             return new Response('Authentication required', { 
@@ -167,17 +229,17 @@ async function handleInfoRefs(
         
         if (!hasCommits) {
             // Return empty advertisement for repos with no commits
-            return new Response('001e# service=git-upload-pack\n0000', {
+            return new Response(GitCloneService.formatPacketLine(`# service=${service}\n`) + '0000', {
                 status: 200,
                 headers: {
-                    'Content-Type': 'application/x-git-upload-pack-advertisement',
+                    'Content-Type': contentType,
                     'Cache-Control': 'no-cache'
                 }
             });
         }
         
         // Extract HEAD OID for cache validation
-        const agentHeadOid = extractAgentHeadOid(gitObjects);
+        const agentHeadOid = GitCloneService.getAgentHeadOid(gitObjects);
         if (!agentHeadOid) {
             throw new Error('Could not determine agent HEAD OID');
         }
@@ -188,11 +250,11 @@ async function handleInfoRefs(
         
         if (repo) {
             logger.info('Cache HIT (memory): info/refs', { appId, agentHeadOid });
-            const response = await GitCloneService.handleInfoRefs(repo);
+            const response = await GitCloneService.handleInfoRefs(repo, service);
             return new Response(response, {
                 status: 200,
                 headers: {
-                    'Content-Type': 'application/x-git-upload-pack-advertisement',
+                    'Content-Type': contentType,
                     'Cache-Control': 'no-cache',
                     'X-Cache': 'HIT-MEMORY'
                 }
@@ -218,11 +280,11 @@ async function handleInfoRefs(
         );
         
         // Generate info/refs response
-        const response = await GitCloneService.handleInfoRefs(repoFS);
+        const response = await GitCloneService.handleInfoRefs(repoFS, service);
         return new Response(response, {
             status: 200,
             headers: {
-                'Content-Type': 'application/x-git-upload-pack-advertisement',
+                'Content-Type': contentType,
                 'Cache-Control': 'no-cache',
                 'X-Cache': 'MISS'
             }
@@ -268,7 +330,7 @@ async function handleUploadPack(
         }
         
         // Extract HEAD OID for cache validation
-        const agentHeadOid = extractAgentHeadOid(gitObjects);
+        const agentHeadOid = GitCloneService.getAgentHeadOid(gitObjects);
         if (!agentHeadOid) {
             throw new Error('Could not determine agent HEAD OID');
         }
@@ -319,6 +381,101 @@ async function handleUploadPack(
     }
 }
 
+/**
+ * Handle Git receive-pack request (push)
+ * Validates the pushed commits against the rebuilt repository, then hands
+ * them to the agent which commits them and refreshes its files and preview
+ */
+async function handleReceivePack(
+    request: Request,
+    env: Env,
+    appId: string
+): Promise<Response> {
+    try {
+        const { hasAccess, appCreatedAt, userId } = await verifyGitAccess(request, env, appId, 'write');
+        if (!hasAccess || !userId) {
+            return new Response('Authentication required', { 
+                status: 401,
+                headers: {
+                    'WWW-Authenticate': 'Basic realm="Git"'
+                }
+            });
+        }
+        
+        const agentStub = await getAgentStub(env, appId);
+        if (!agentStub || !(await agentStub.isInitialized())) {
+            return new Response('Repository not found', { status: 404 });
+        }
+        
+        const body = await readRequestBody(request);
+        if (!body) {
+            return new Response('Push too large', { status: 413 });
+        }
+        
+        let pushRequest;
+        try {
+            pushRequest = GitPushService.parseReceivePackRequest(body);
+        } catch (error) {
+            logger.warn('Malformed receive-pack request', { appId, error });
+            return new Response('Malformed receive-pack request', { status: 400 });
+        }
+        
+        const respond = (report: string) => new Response(report, {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/x-git-receive-pack-result',
+                'Cache-Control': 'no-cache'
+            }
+        });
+        
+        const { gitObjects, query, hasCommits, templateDetails } = await agentStub.exportGitObjects();
+        
+        if (!hasCommits) {
+            return respond(GitPushService.formatReportStatus(null, pushRequest.commands.map(command => ({
+                ref: command.ref,
+                error: 'repository has no commits yet'
+            }))));
+        }
+        
+        const agentHeadOid = GitCloneService.getAgentHeadOid(gitObjects);
+        if (!agentHeadOid) {
+            throw new Error('Could not determine agent HEAD OID');
+        }
+        
+        // The pack is unpacked into the rebuilt repository, usually cached by info/refs
+        const cache = new GitCache();
+        const { repo } = await cache.getRepository(appId, agentHeadOid, templateDetails);
+        const repoFS = repo ?? await GitCloneService.buildRepository({
+            gitObjects,
+            templateDetails,
+            appQuery: query,
+            appCreatedAt
+        });
+        
+        const { unpackError, results, update } = await GitPushService.receivePack(repoFS, pushRequest, templateDetails);
+        
+        if (update && update.commits.length > 0) {
+            try {
+                const { head } = await agentStub.applyPushedCommits(agentHeadOid, update.commits, userId);
+                logger.info('Push applied', { appId, commits: update.commits.length, head });
+            } catch (error) {
+                logger.warn('Agent rejected pushed commits', { appId, error });
+                const reason = error instanceof Error ? error.message : String(error);
+                for (const result of results) {
+                    if (result.ref === update.ref) {
+                        result.error = reason;
+                    }
+                }
+            }
+        }
+        
+        return respond(GitPushService.formatReportStatus(unpackError, results));
+    } catch (error) {
+        logger.error('Git receive-pack error:', error);
+        return new Response('Internal server error', { status: 500 });
+    }
+}
+
 /**
  * Main handler for Git protocol requests
  */
@@ -341,6 +498,8 @@ export async function handleGitProtocolRequest(
         return handleInfoRefs(request, env, ctx, appId);
     } else if (GIT_UPLOAD_PACK_PATTERN.test(pathname)) {
         return handleUploadPack(request, env, ctx, appId);
+    } else if (GIT_RECEIVE_PACK_PATTERN.test(pathname)) {
+        return handleReceivePack(request, env, appId);
     }
     
     return new Response('Not found', { status: 404 });
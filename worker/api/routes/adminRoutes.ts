@@ -0,0 +1,31 @@
+/**
+ * Admin Routes
+ * Instance operator routes, restricted to users with the admin role
+ */
+import { Hono } from 'hono';
+import { AppEnv } from '../../types/appenv';
+import { AdminController } from '../controllers/admin/controller';
+import { AuthConfig, setAuthLevel } from '../../middleware/auth/routeAuth';
+import { adaptController } from '../honoAdapter';
+
+export function setupAdminRoutes(app: Hono<AppEnv>): void {
+    const adminRouter = new Hono<AppEnv>();
+
+    adminRouter.get('/users', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.getUsers));
+    adminRouter.put('/users/:id/suspension', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.updateUserSuspension));
+    adminRouter.get('/users/:id/credits', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.getUserCredits));
+    adminRouter.post('/users/:id/credits/top-ups', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.createCreditTopUp));
+
+    adminRouter.get('/apps', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.getApps));
+    adminRouter.put('/apps/:id/featured', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.updateAppFeatured));
+
+    adminRouter.get('/audit-logs', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.getAuditLogs));
+
+    adminRouter.get('/settings', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.getSystemSettings));
+    adminRouter.put('/settings/:key', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.updateSystemSetting));
+    adminRouter.delete('/settings/:key', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.deleteSystemSetting));
+
+    adminRouter.get('/analytics', setAuthLevel(AuthConfig.adminOnly), adaptController(AdminController, AdminController.getAnalytics));
+
+    app.route('/api/admin', adminRouter);
+}
@@ -1,5 +1,8 @@
 import { AppController } from '../controllers/apps/controller';
 import { AppViewController } from '../controllers/appView/controller';
+import { CommentController } from '../controllers/comments/controller';
+import { CollaboratorController } from '../controllers/collaborators/controller';
+import { IntegrationsController } from '../controllers/integrations/controller';
 import { Hono } from 'hono';
 import { AppEnv } from '../../types/appenv';
 import { adaptController } from '../honoAdapter';
@@ -25,13 +28,13 @@ export function setupAppRoutes(app: Hono<AppEnv>): void {
     // ========================================
     
     // Get user's personal apps - requires authentication (for dashboard/profile)
-    appRouter.get('/', setAuthLevel(AuthConfig.authenticated), adaptController(AppController, AppController.getUserApps));
+    appRouter.get('/', setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'apps:read' }), adaptController(AppController, AppController.getUserApps));
 
     // Get recent apps - requires authentication (for dashboard)
-    appRouter.get('/recent', setAuthLevel(AuthConfig.authenticated), adaptController(AppController, AppController.getRecentApps));
+    appRouter.get('/recent', setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'apps:read' }), adaptController(AppController, AppController.getRecentApps));
 
     // Get favorite apps - requires authentication (for dashboard)
-    appRouter.get('/favorites', setAuthLevel(AuthConfig.authenticated), adaptController(AppController, AppController.getFavoriteApps));
+    appRouter.get('/favorites', setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'apps:read' }), adaptController(AppController, AppController.getFavoriteApps));
 
     // ========================================
     // AUTHENTICATED INTERACTION ROUTES
@@ -40,9 +43,8 @@ export function setupAppRoutes(app: Hono<AppEnv>): void {
     // Star/bookmark ANY app - requires authentication (can star others' public apps)
     appRouter.post('/:id/star', setAuthLevel(AuthConfig.authenticated), adaptController(AppViewController, AppViewController.toggleAppStar));
     
-    // // Fork ANY public app - requires authentication (can fork others' public apps)
-    // DISABLED: Has been disabled for initial alpha release, for security reasons
-    // appRouter.post('/:id/fork', setAuthLevel(AuthConfig.authenticated), adaptController(AppViewController, AppViewController.forkApp));
+    // Fork ANY public app - requires authentication (can fork others' public apps)
+    appRouter.post('/:id/fork', setAuthLevel(AuthConfig.authenticated), adaptController(AppViewController, AppViewController.forkApp));
 
     // Toggle favorite status - requires authentication  
     appRouter.post('/:id/favorite', setAuthLevel(AuthConfig.authenticated), adaptController(AppController, AppController.toggleFavorite));
@@ -55,6 +57,41 @@ export function setupAppRoutes(app: Hono<AppEnv>): void {
     // Allows unauthenticated users to view and preview apps
     appRouter.get('/:id', setAuthLevel(AuthConfig.public), adaptController(AppViewController, AppViewController.getAppDetails));
 
+    // ========================================
+    // COMMENT ROUTES
+    // ========================================
+
+    // List threaded comments - PUBLIC, same visibility rules as app details
+    appRouter.get('/:id/comments', setAuthLevel(AuthConfig.public), adaptController(CommentController, CommentController.getComments));
+
+    // Post a comment or reply - requires authentication, rate limited per user
+    appRouter.post('/:id/comments', setAuthLevel(AuthConfig.authenticated), adaptController(CommentController, CommentController.createComment));
+
+    // Edit a comment - author only (checked in controller)
+    appRouter.put('/:id/comments/:commentId', setAuthLevel(AuthConfig.authenticated), adaptController(CommentController, CommentController.updateComment));
+
+    // Delete a comment - author or app owner (checked in controller)
+    appRouter.delete('/:id/comments/:commentId', setAuthLevel(AuthConfig.authenticated), adaptController(CommentController, CommentController.deleteComment));
+
+    // Like/unlike a comment - requires authentication
+    appRouter.post('/:id/comments/:commentId/like', setAuthLevel(AuthConfig.authenticated), adaptController(CommentController, CommentController.toggleCommentLike));
+
+    // ========================================
+    // COLLABORATOR ROUTES
+    // ========================================
+
+    // List collaborators - OWNER OR COLLABORATOR
+    appRouter.get('/:id/collaborators', setAuthLevel(AuthConfig.collaborator), adaptController(CollaboratorController, CollaboratorController.listCollaborators));
+
+    // Invite a collaborator by email - OWNER ONLY
+    appRouter.post('/:id/collaborators', setAuthLevel(AuthConfig.ownerOnly), adaptController(CollaboratorController, CollaboratorController.addCollaborator));
+
+    // Change a collaborator's role - OWNER ONLY
+    appRouter.patch('/:id/collaborators/:userId', setAuthLevel(AuthConfig.ownerOnly), adaptController(CollaboratorController, CollaboratorController.updateCollaborator));
+
+    // Remove a collaborator - owner, or the collaborator leaving (checked in controller)
+    appRouter.delete('/:id/collaborators/:userId', setAuthLevel(AuthConfig.collaborator), adaptController(CollaboratorController, CollaboratorController.removeCollaborator));
+
     // ========================================
     // OWNER-ONLY ROUTES (App modification)
     // ========================================
@@ -64,13 +101,16 @@ export function setupAppRoutes(app: Hono<AppEnv>): void {
 
     // Delete app - OWNER ONLY
     appRouter.delete('/:id', setAuthLevel(AuthConfig.ownerOnly), adaptController(AppController, AppController.deleteApp));
+
+    // Integrations available to the preview and its proxied call log - OWNER ONLY
+    appRouter.get('/:id/integrations', setAuthLevel(AuthConfig.ownerOnly, { apiKeyScope: 'apps:read' }), adaptController(IntegrationsController, IntegrationsController.getAppIntegrations));
     
     // ========================================
     // GIT CLONE ROUTES
     // ========================================
     
     // Generate git clone token for private repos - OWNER ONLY
-    appRouter.post('/:id/git/token', setAuthLevel(AuthConfig.ownerOnly), adaptController(AppViewController, AppViewController.generateGitCloneToken));
+    appRouter.post('/:id/git/token', setAuthLevel(AuthConfig.ownerOnly, { apiKeyScope: 'apps:read' }), adaptController(AppViewController, AppViewController.generateGitCloneToken));
     
     
     // Mount the app router under /api/apps
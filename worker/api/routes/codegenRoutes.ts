@@ -13,21 +13,23 @@ export function setupCodegenRoutes(app: Hono<AppEnv>): void {
     // ========================================
     
     // CRITICAL: Create new app - requires full authentication
-    app.post('/api/agent', setAuthLevel(AuthConfig.authenticated), adaptController(CodingAgentController, CodingAgentController.startCodeGeneration));
+    app.post('/api/agent', setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'builds:create' }), adaptController(CodingAgentController, CodingAgentController.startCodeGeneration));
     
     // ========================================
     // APP EDITING ROUTES (/chat/:id frontend)
     // ========================================
     
-    // WebSocket for app editing - OWNER ONLY with ticket support
+    // WebSocket for app editing - OWNER OR COLLABORATOR with ticket support
     // Supports ticket-based auth (SDK) or JWT-based auth (browser)
-    app.get('/api/agent/:agentId/ws', setAuthLevel(AuthConfig.ownerOnly, { 
-        ticketAuth: { resourceType: 'agent', paramName: 'agentId' } 
+    // Deploy-only API keys may connect, the agent checks scopes and roles per message
+    app.get('/api/agent/:agentId/ws', setAuthLevel(AuthConfig.collaborator, { 
+        ticketAuth: { resourceType: 'agent', paramName: 'agentId' },
+        apiKeyScope: ['builds:create', 'deploy']
     }), adaptController(CodingAgentController, CodingAgentController.handleWebSocketConnection));
     
-    // Connect to existing agent for editing - OWNER ONLY
-    // Only the app owner should be able to connect for editing purposes
-    app.get('/api/agent/:agentId/connect', setAuthLevel(AuthConfig.ownerOnly), adaptController(CodingAgentController, CodingAgentController.connectToExistingAgent));
+    // Connect to existing agent for editing - OWNER OR COLLABORATOR
+    // Invited viewers and editors share the owner's session
+    app.get('/api/agent/:agentId/connect', setAuthLevel(AuthConfig.collaborator, { apiKeyScope: ['builds:create', 'deploy'] }), adaptController(CodingAgentController, CodingAgentController.connectToExistingAgent));
 
-    app.get('/api/agent/:agentId/preview', setAuthLevel(AuthConfig.authenticated), adaptController(CodingAgentController, CodingAgentController.deployPreview));
+    app.get('/api/agent/:agentId/preview', setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'builds:create' }), adaptController(CodingAgentController, CodingAgentController.deployPreview));
 }
\ No newline at end of file
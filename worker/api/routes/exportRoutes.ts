@@ -0,0 +1,14 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../../types/appenv';
+import { ExportsController } from '../controllers/exports/controller';
+import { adaptController } from '../honoAdapter';
+import { setAuthLevel, AuthConfig } from '../../middleware/auth/routeAuth';
+
+export function setupExportRoutes(app: Hono<AppEnv>): void {
+    const exportsRouter = new Hono<AppEnv>();
+
+    // Export artifacts are private to the app owner
+    exportsRouter.get('/:id/:file', setAuthLevel(AuthConfig.ownerOnly), adaptController(ExportsController, ExportsController.downloadExport));
+
+    app.route('/api/exports', exportsRouter);
+}
@@ -20,4 +20,8 @@ export function setupGitHubExporterRoutes(app: Hono<AppEnv>): void {
     
     // Check remote repository status
     app.post('/api/github-app/check-remote', setAuthLevel(AuthConfig.authenticated), adaptController(GitHubExporterController, GitHubExporterController.checkRemoteStatus));
+
+    // Two-way sync with a linked repository
+    app.post('/api/github-app/link', setAuthLevel(AuthConfig.authenticated), adaptController(GitHubExporterController, GitHubExporterController.linkGitHubRepository));
+    app.post('/api/github-app/pull', setAuthLevel(AuthConfig.authenticated), adaptController(GitHubExporterController, GitHubExporterController.pullFromGitHub));
 }
@@ -12,6 +12,13 @@ export function setupScreenshotRoutes(app: Hono<AppEnv>): void {
 
   app.route('/api/screenshots', screenshotsRouter);
 
+  const generatedRouter = new Hono<AppEnv>();
+
+  // Publicly serve generated images, apps embed them on their own origins
+  generatedRouter.get('/:id/:file', setAuthLevel(AuthConfig.public), adaptController(ScreenshotsController, ScreenshotsController.serveGeneratedImage));
+
+  app.route('/api/generated', generatedRouter);
+
 //   const imagesRouter = new Hono<AppEnv>();
 //   // Publicly serve image uploads
 //   imagesRouter.get('/:id/:file', setAuthLevel(AuthConfig.authenticated), adaptController(ScreenshotsController, ScreenshotsController.serveScreenshot));
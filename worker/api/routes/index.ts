@@ -6,14 +6,17 @@ import { setupAnalyticsRoutes } from './analyticsRoutes';
 // import { setupUserSecretsRoutes } from './userSecretsRoutes';
 import { setupModelConfigRoutes } from './modelConfigRoutes';
 import { setupModelProviderRoutes } from './modelProviderRoutes';
+import { setupMcpServerRoutes } from './mcpServerRoutes';
 import { setupGitHubExporterRoutes } from './githubExporterRoutes';
 import { setupCodegenRoutes } from './codegenRoutes';
 import { setupScreenshotRoutes } from './imagesRoutes';
+import { setupExportRoutes } from './exportRoutes';
 import { setupSentryRoutes } from './sentryRoutes';
 import { setupCapabilitiesRoutes } from './capabilitiesRoutes';
 import { setupTicketRoutes } from './ticketRoutes';
-import { setupPlaidProxyRoutes } from './plaidProxyRoutes';
+import { setupIntegrationProxyRoutes } from './integrationProxyRoutes';
 import { setupProjectRoutes } from './projectRoutes';
+import { setupAdminRoutes } from './adminRoutes';
 import { Hono } from "hono";
 import { AppEnv } from "../../types/appenv";
 import { setupStatusRoutes } from './statusRoutes';
@@ -69,12 +72,21 @@ export function setupRoutes(app: Hono<AppEnv>): void {
     // Model provider routes
     setupModelProviderRoutes(app);
 
+    // MCP server routes
+    setupMcpServerRoutes(app);
+
+    // Instance admin routes
+    setupAdminRoutes(app);
+
     // GitHub Exporter routes
     setupGitHubExporterRoutes(app);
 
     // Screenshot serving routes (public)
     setupScreenshotRoutes(app);
 
-    // Plaid proxy routes for Agency mode (public - uses preview token auth)
-    setupPlaidProxyRoutes(app);
+    // Export artifact downloads (owner only)
+    setupExportRoutes(app);
+
+    // Integration proxy routes for Agency mode (public - uses preview token auth)
+    setupIntegrationProxyRoutes(app);
 }
@@ -0,0 +1,142 @@
+/**
+ * Integration Proxy Routes
+ *
+ * A tunnel between generated preview apps and third-party APIs declared in
+ * the integrations config (Plaid, Stripe, OpenAI, generic REST). The app
+ * never sees the credentials, the Agent DO adds them from the user's vault.
+ *
+ * Flow:
+ * 1. Preview App calls /api/proxy/integrations/:integrationId/* with X-Preview-Token header
+ * 2. We verify the token, which is bound to one app and its integrations
+ * 3. We forward the request to the app's Agent DO, which calls the upstream API
+ * 4. Every call is recorded in integration_request_logs
+ */
+
+import { Context, Hono } from 'hono';
+import type { ContentfulStatusCode, StatusCode } from 'hono/utils/http-status';
+import { AppEnv } from '../../types/appenv';
+import { getAgentStub } from '../../agents';
+import { createLogger } from '../../logger';
+import { getPreviewDomain } from '../../utils/urls';
+import { getUserConfigurableSettings } from '../../config';
+import { verifyIntegrationToken } from '../../services/integrations/tokens';
+import { IntegrationLogService } from '../../database/services/IntegrationLogService';
+import type { IntegrationProxyResponse } from '../../services/integrations/types';
+
+const logger = createLogger('IntegrationProxy');
+
+const PROXY_PREFIX = '/api/proxy/integrations';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function jsonError(c: Context<AppEnv>, error: string, status: 400 | 401 | 403 | 404 | 413) {
+    return c.json({ success: false, error }, status);
+}
+
+/**
+ * Setup integration proxy routes
+ */
+export function setupIntegrationProxyRoutes(app: Hono<AppEnv>): void {
+    // CORS middleware for proxy routes - allow sandbox subdomains
+    app.use(`${PROXY_PREFIX}/*`, async (c, next) => {
+        const origin = c.req.header('Origin');
+        const previewDomain = getPreviewDomain(c.env);
+
+        // Allow requests from sandbox subdomains
+        if (origin && previewDomain && origin.endsWith(`.${previewDomain}`)) {
+            c.header('Access-Control-Allow-Origin', origin);
+            c.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+            c.header('Access-Control-Allow-Headers', 'Content-Type, X-Preview-Token');
+            c.header('Access-Control-Max-Age', '86400');
+        }
+
+        // Handle preflight
+        if (c.req.method === 'OPTIONS') {
+            return c.body(null, 204);
+        }
+
+        await next();
+    });
+
+    /**
+     * ALL /api/proxy/integrations/:integrationId/*
+     * Forward a request to the integration's API
+     */
+    app.all(`${PROXY_PREFIX}/:integrationId/*`, async (c) => {
+        const previewToken = c.req.header('X-Preview-Token');
+        if (!previewToken) {
+            return jsonError(c, 'Missing preview token', 401);
+        }
+
+        const claims = await verifyIntegrationToken(c.env, previewToken);
+        if (!claims) {
+            return jsonError(c, 'Invalid preview token', 403);
+        }
+
+        const integrationId = c.req.param('integrationId');
+        if (!claims.integrations.includes(integrationId)) {
+            return jsonError(c, `Integration ${integrationId} is not available to this app`, 403);
+        }
+
+        const config = await getUserConfigurableSettings(c.env, claims.userId);
+        const definition = config.integrations[integrationId];
+        if (!definition?.enabled) {
+            return jsonError(c, `Integration ${integrationId} is not enabled`, 404);
+        }
+
+        const url = new URL(c.req.url);
+        const path = url.pathname.slice(`${PROXY_PREFIX}/${integrationId}`.length) || '/';
+        const body = ['GET', 'HEAD'].includes(c.req.method) ? null : await c.req.text();
+        if (body && body.length > MAX_BODY_BYTES) {
+            return jsonError(c, 'Request body too large', 413);
+        }
+
+        const startedAt = Date.now();
+        let result: IntegrationProxyResponse;
+        try {
+            const agentStub = await getAgentStub(c.env, claims.appId);
+            result = await agentStub.proxyIntegrationRequest(integrationId, definition, {
+                method: c.req.method,
+                path,
+                search: url.search,
+                contentType: c.req.header('Content-Type') ?? null,
+                body,
+            });
+        } catch (error) {
+            logger.error('Failed to reach agent for integration request', { appId: claims.appId, integrationId, error });
+            result = {
+                status: 502,
+                contentType: 'application/json',
+                body: JSON.stringify({ success: false, error: 'Integration request failed' }),
+                error: 'Agent unavailable',
+            };
+        }
+
+        const durationMs = Date.now() - startedAt;
+        logger.info('Integration request', {
+            appId: claims.appId,
+            integrationId,
+            method: c.req.method,
+            path,
+            status: result.status,
+            durationMs,
+        });
+        c.executionCtx.waitUntil(
+            new IntegrationLogService(c.env).logRequest({
+                appId: claims.appId,
+                userId: claims.userId,
+                integrationId,
+                method: c.req.method,
+                path,
+                status: result.status,
+                durationMs,
+                error: result.error ?? null,
+            }).catch((error) => logger.error('Failed to record integration request', error))
+        );
+
+        const headers: Record<string, string> = result.contentType ? { 'Content-Type': result.contentType } : {};
+        if ([204, 205, 304].includes(result.status)) {
+            return c.body(null, result.status as StatusCode, headers);
+        }
+        return c.body(result.body, result.status as ContentfulStatusCode, headers);
+    });
+}
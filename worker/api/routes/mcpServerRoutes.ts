@@ -0,0 +1,16 @@
+/**
+ * MCP Server Routes
+ * Routes for managing the user's MCP servers
+ */
+import { Hono } from 'hono';
+import { AppEnv } from '../../types/appenv';
+import { McpServersController } from '../controllers/mcpServers/controller';
+import { AuthConfig, setAuthLevel } from '../../middleware/auth/routeAuth';
+import { adaptController } from '../honoAdapter';
+
+export function setupMcpServerRoutes(app: Hono<AppEnv>): void {
+    app.get('/api/user/mcp-servers', setAuthLevel(AuthConfig.authenticated), adaptController(McpServersController, McpServersController.getServers));
+    app.post('/api/user/mcp-servers', setAuthLevel(AuthConfig.authenticated), adaptController(McpServersController, McpServersController.createServer));
+    app.put('/api/user/mcp-servers/:id', setAuthLevel(AuthConfig.authenticated), adaptController(McpServersController, McpServersController.updateServer));
+    app.delete('/api/user/mcp-servers/:id', setAuthLevel(AuthConfig.authenticated), adaptController(McpServersController, McpServersController.deleteServer));
+}
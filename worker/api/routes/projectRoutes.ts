@@ -16,58 +16,72 @@ export function setupProjectRoutes(app: Hono<AppEnv>): void {
     // GET /api/projects - List all projects for user
     projectRouter.get(
         '/',
-        setAuthLevel(AuthConfig.required),
+        setAuthLevel(AuthConfig.authenticated),
         adaptController(ProjectController, ProjectController.listProjects),
     );
 
     // GET /api/projects/by-app/:appId - Get project by app ID
     projectRouter.get(
         '/by-app/:appId',
-        setAuthLevel(AuthConfig.required),
+        setAuthLevel(AuthConfig.authenticated),
         adaptController(ProjectController, ProjectController.getProjectByAppId),
     );
 
+    // POST /api/projects/by-app/:appId - Get or create the project of an app
+    projectRouter.post(
+        '/by-app/:appId',
+        setAuthLevel(AuthConfig.authenticated),
+        adaptController(ProjectController, ProjectController.ensureProjectForApp),
+    );
+
     // GET /api/projects/:id - Get project by ID
     projectRouter.get(
         '/:id',
-        setAuthLevel(AuthConfig.required),
+        setAuthLevel(AuthConfig.authenticated),
         adaptController(ProjectController, ProjectController.getProject),
     );
 
     // POST /api/projects - Create a new project
     projectRouter.post(
         '/',
-        setAuthLevel(AuthConfig.required),
+        setAuthLevel(AuthConfig.authenticated),
         adaptController(ProjectController, ProjectController.createProject),
     );
 
     // PATCH /api/projects/:id - Update project
     projectRouter.patch(
         '/:id',
-        setAuthLevel(AuthConfig.required),
+        setAuthLevel(AuthConfig.authenticated),
         adaptController(ProjectController, ProjectController.updateProject),
     );
 
     // DELETE /api/projects/:id - Delete project
     projectRouter.delete(
         '/:id',
-        setAuthLevel(AuthConfig.required),
+        setAuthLevel(AuthConfig.authenticated),
         adaptController(ProjectController, ProjectController.deleteProject),
     );
 
     // GET /api/projects/:id/session - Get project session state
     projectRouter.get(
         '/:id/session',
-        setAuthLevel(AuthConfig.required),
+        setAuthLevel(AuthConfig.authenticated),
         adaptController(ProjectController, ProjectController.getProjectSession),
     );
 
     // PUT /api/projects/:id/session - Save project session state
     projectRouter.put(
         '/:id/session',
-        setAuthLevel(AuthConfig.required),
+        setAuthLevel(AuthConfig.authenticated),
         adaptController(ProjectController, ProjectController.saveProjectSession),
     );
 
+    // GET /api/projects/:id/edits - File edit history (filter by filePath, editType)
+    projectRouter.get(
+        '/:id/edits',
+        setAuthLevel(AuthConfig.authenticated),
+        adaptController(ProjectController, ProjectController.getFileEdits),
+    );
+
     app.route('/api/projects', projectRouter);
 }
@@ -10,10 +10,10 @@ import { TicketController } from '../controllers/ticket/controller';
 
 export function setupTicketRoutes(app: Hono<AppEnv>): void {
 	// Create WebSocket ticket - requires authentication
-	// Ownership check is done in the controller based on resourceType
+	// Ownership and API key scope checks are done in the controller based on resourceType
 	app.post(
 		'/api/ws-ticket',
-		setAuthLevel(AuthConfig.authenticated),
+		setAuthLevel(AuthConfig.authenticated, { apiKeyScope: ['builds:create', 'deploy', 'secrets:manage'] }),
 		adaptController(TicketController, TicketController.createTicket)
 	);
 }
@@ -1,4 +1,5 @@
 import { UserController } from '../controllers/user/controller';
+import { CreditsController } from '../controllers/credits/controller';
 import { Hono } from 'hono';
 import { AppEnv } from '../../types/appenv';
 import { adaptController } from '../honoAdapter';
@@ -9,8 +10,11 @@ import { AuthConfig, setAuthLevel } from '../../middleware/auth/routeAuth';
  */
 export function setupUserRoutes(app: Hono<AppEnv>): void {
     // User apps with pagination (this is what the frontend needs)
-    app.get('/api/user/apps', setAuthLevel(AuthConfig.authenticated), adaptController(UserController, UserController.getApps));
+    app.get('/api/user/apps', setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'apps:read' }), adaptController(UserController, UserController.getApps));
 
     // User profile
     app.put('/api/user/profile', setAuthLevel(AuthConfig.authenticated), adaptController(UserController, UserController.updateProfile));
+
+    // Monthly credit budget and spend breakdown
+    app.get('/api/user/credits', setAuthLevel(AuthConfig.authenticated), adaptController(CreditsController, CreditsController.getUserCredits));
 }
\ No newline at end of file
@@ -17,32 +17,33 @@ export function setupUserSecretsRoutes(app: Hono<AppEnv>): void {
 	vaultRouter.get(
 		'/ws',
 		setAuthLevel(AuthConfig.authenticated, {
-			ticketAuth: { resourceType: 'vault' }
+			ticketAuth: { resourceType: 'vault' },
+			apiKeyScope: 'secrets:manage'
 		}),
 		adaptController(UserSecretsController, UserSecretsController.handleWebSocketConnection)
 	);
 
 	vaultRouter.get(
 		'/status',
-		setAuthLevel(AuthConfig.authenticated),
+		setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'secrets:manage' }),
 		adaptController(UserSecretsController, UserSecretsController.getVaultStatus)
 	);
 
 	vaultRouter.get(
 		'/config',
-		setAuthLevel(AuthConfig.authenticated),
+		setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'secrets:manage' }),
 		adaptController(UserSecretsController, UserSecretsController.getVaultConfig)
 	);
 
 	vaultRouter.post(
 		'/setup',
-		setAuthLevel(AuthConfig.authenticated),
+		setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'secrets:manage' }),
 		adaptController(UserSecretsController, UserSecretsController.setupVault)
 	);
 
 	vaultRouter.post(
 		'/reset',
-		setAuthLevel(AuthConfig.authenticated),
+		setAuthLevel(AuthConfig.authenticated, { apiKeyScope: 'secrets:manage' }),
 		adaptController(UserSecretsController, UserSecretsController.resetVault)
 	);
 
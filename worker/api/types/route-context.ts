@@ -3,7 +3,7 @@
  */
 
 import { GlobalConfigurableSettings } from '../../config';
-import { AuthUser } from '../../types/auth-types';
+import { ApiKeyScopeGrant, AuthUser } from '../../types/auth-types';
 
 /**
  * Route context containing authenticated user and path parameters
@@ -19,6 +19,11 @@ export interface RouteContext {
      */
     sessionId: string | null;
 
+    /**
+     * Grants of the API key behind the session, undefined for unrestricted sessions
+     */
+    apiKeyScopes?: ApiKeyScopeGrant[];
+
     /**
      * Global configurations for the application
      */
@@ -1,10 +1,13 @@
 import type { CodeReviewOutputType, FileConceptType, FileOutputType } from "../agents/schemas";
-import type { AgentState } from "../agents/core/state";
+import type { AgentState, PhaseVisualCheck } from "../agents/core/state";
 import type { ConversationState } from "../agents/inferutils/common";
 import type { CodeIssue, RuntimeError, StaticAnalysisResponse, TemplateDetails } from "../services/sandbox/sandboxTypes";
 import type { CodeFixResult } from "../services/code-fixer";
 import { IssueReport } from "../agents/domain/values/IssueReport";
-import type { RateLimitExceededError } from 'shared/types/errors';
+import type { CreditBudgetExceededError, RateLimitExceededError } from 'shared/types/errors';
+import type { ExportOptions } from "../agents/core/types";
+import type { WorkflowDryRunResult, WorkflowStepLog } from "../agents/domain/pure/WorkflowGraph";
+import type { BranchInfo } from "../agents/git/git";
 
 type ErrorMessage = {
     type: 'error';
@@ -21,6 +24,12 @@ type AgentConnectedMessage = {
     state: AgentState;
     templateDetails: TemplateDetails;
     previewUrl?: string;
+    /** Identity and role of the receiving connection */
+    access?: {
+        connectionId: string;
+        userId: string;
+        role: SessionRole;
+    };
 };
 
 type TemplateUpdatedMessage = {
@@ -39,6 +48,11 @@ type RateLimitErrorMessage = {
     error: RateLimitExceededError;
 };
 
+type BudgetExhaustedMessage = {
+	type: 'budget_exhausted';
+    error: CreditBudgetExceededError;
+};
+
 type GenerationStartedMessage = {
 	type: 'generation_started';
 	message: string;
@@ -282,6 +296,8 @@ type ScreenshotCaptureErrorMessage = {
 type ScreenshotAnalysisResultMessage = {
 	type: 'screenshot_analysis_result';
 	message: string;
+	phaseName: string;
+	visualCheck: PhaseVisualCheck;
 	analysis: {
 		hasIssues: boolean;
 		issues: string[];
@@ -290,7 +306,7 @@ type ScreenshotAnalysisResultMessage = {
 			matchesBlueprint: boolean;
 			deviations: string[];
 		};
-	};
+	} | null;
 };
 
 type GitHubExportStartedMessage = {
@@ -311,6 +327,7 @@ type GitHubExportCompletedMessage = {
 	type: 'github_export_completed';
 	message: string;
 	repositoryUrl: string;
+	pullRequestUrl?: string;
 };
 
 type GitHubExportErrorMessage = {
@@ -319,6 +336,55 @@ type GitHubExportErrorMessage = {
 	error: string;
 };
 
+type ExportStartedMessage = {
+	type: 'export_started';
+	message: string;
+	kind: ExportOptions['kind'];
+};
+
+type ExportProgressMessage = {
+	type: 'export_progress';
+	message: string;
+	kind: ExportOptions['kind'];
+	step: 'preparing' | 'rendering' | 'packaging' | 'uploading';
+	progress: number; // 0-100
+};
+
+type ExportCompletedMessage = {
+	type: 'export_completed';
+	message: string;
+	kind: ExportOptions['kind'];
+	url: string;
+	fileName?: string;
+};
+
+type ExportErrorMessage = {
+	type: 'export_error';
+	message: string;
+	kind: ExportOptions['kind'];
+	error: string;
+};
+
+type WorkflowRunStartedMessage = {
+	type: 'workflow_run_started';
+	runId: string;
+	params: Record<string, unknown>;
+};
+
+type WorkflowStepLogMessage = {
+	type: 'workflow_step_log';
+	runId: string;
+	log: WorkflowStepLog;
+};
+
+type WorkflowRunCompletedMessage = {
+	type: 'workflow_run_completed';
+	runId: string;
+	status: WorkflowDryRunResult['status'];
+	outputs: Record<string, unknown>;
+	error?: string;
+};
+
 type UserSuggestionsProcessingMessage = {
 	type: 'user_suggestions_processing';
 	message: string;
@@ -421,6 +487,9 @@ type TerminalOutputMessage = {
 	output: string;
 	outputType: 'stdout' | 'stderr' | 'info';
 	timestamp: number;
+	/** Set on the messages that start and finish a command */
+	commandStatus?: 'running' | 'completed' | 'failed' | 'cancelled' | 'blocked';
+	exitCode?: number | null;
 };
 
 type ServerLogMessage = {
@@ -436,6 +505,8 @@ type FileUpdatedMessage = {
 	message: string;
 	filePath: string;
 	commitHash?: string;
+	/** SHA-256 of the saved contents, the base for the next edit */
+	contentHash?: string;
 };
 
 type FileUpdateErrorMessage = {
@@ -443,6 +514,59 @@ type FileUpdateErrorMessage = {
 	message: string;
 	filePath: string;
 	error: string;
+	/** Set when someone else changed the file since the editor loaded it */
+	conflict?: {
+		currentContent: string;
+		currentHash: string;
+	};
+};
+
+// ========== COLLABORATION MESSAGES ==========
+
+export type SessionRole = 'owner' | 'editor' | 'viewer';
+
+export interface PresenceUser {
+	connectionId: string;
+	userId: string;
+	displayName: string;
+	avatarUrl?: string;
+	role: SessionRole;
+	/** File the user has open in the editor */
+	activeFile?: string;
+}
+
+type PresenceMessage = {
+	type: 'presence';
+	users: PresenceUser[];
+};
+
+// ========== GIT BRANCH MESSAGES ==========
+
+type GitBranchesMessage = {
+	type: 'git_branches';
+	branches: BranchInfo[];
+	currentBranch: string | null;
+};
+
+type GitBranchSwitchedMessage = {
+	type: 'git_branch_switched';
+	message: string;
+	branch: string;
+	files: FileOutputType[];
+};
+
+type GitBranchErrorMessage = {
+	type: 'git_branch_error';
+	message: string;
+	error: string;
+};
+
+type GitPushReceivedMessage = {
+	type: 'git_push_received';
+	message: string;
+	commits: number;
+	head: string;
+	files: FileOutputType[];
 };
 
 // ========== VAULT MESSAGES ==========
@@ -617,8 +741,16 @@ export type WebSocketMessage =
 	| GitHubExportProgressMessage
 	| GitHubExportCompletedMessage
 	| GitHubExportErrorMessage
+	| ExportStartedMessage
+	| ExportProgressMessage
+	| ExportCompletedMessage
+	| ExportErrorMessage
+	| WorkflowRunStartedMessage
+	| WorkflowStepLogMessage
+	| WorkflowRunCompletedMessage
 	| ErrorMessage
     | RateLimitErrorMessage
+    | BudgetExhaustedMessage
 	| UserSuggestionsProcessingMessage
 	| ConversationResponseMessage
 	| ConversationClearedMessage
@@ -635,7 +767,12 @@ export type WebSocketMessage =
 	| VaultLockedMessage
 	| VaultRequiredMessage
 	| FileUpdatedMessage
-	| FileUpdateErrorMessage;
+	| FileUpdateErrorMessage
+	| PresenceMessage
+	| GitBranchesMessage
+	| GitBranchSwitchedMessage
+	| GitPushReceivedMessage
+	| GitBranchErrorMessage;
 
 // A type representing all possible message type strings (e.g., 'generation_started', 'file_generating', etc.)
 export type WebSocketMessageType = WebSocketMessage['type'];
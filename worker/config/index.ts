@@ -1,5 +1,14 @@
 import { ConfigurableSecuritySettings, getConfigurableSecurityDefaults } from "./security";
 import { createLogger } from "../logger";
+import type { MCPServerConfig } from "../agents/tools/types";
+import type { IntegrationDefinitions } from "../services/integrations/types";
+import { DEFAULT_INTEGRATIONS } from "../services/integrations/defaults";
+import { CreditSettings, DEFAULT_CREDIT_SETTINGS } from "../services/credits/config";
+import type { ImageGenerationSettings } from "../services/image-generation/types";
+import { DEFAULT_IMAGE_GENERATION_SETTINGS } from "../services/image-generation/config";
+import type { WebSearchSettings } from "../services/search/types";
+import { DEFAULT_WEB_SEARCH_SETTINGS } from "../services/search/config";
+import { DEFAULT_TERMINAL_SETTINGS, type TerminalSettings } from "../services/sandbox/commandPolicy";
 
 const logger = createLogger('GlobalConfigurableSettings');
 
@@ -83,9 +92,25 @@ export interface GlobalMessagingSettings {
     changeLogs: string;
 }
 
+export interface GlobalMCPSettings {
+    /** Servers offered to every user; header values may also use {{env:NAME}} worker secrets */
+    servers: MCPServerConfig[];
+}
+
 export interface GlobalConfigurableSettings {
     security: ConfigurableSecuritySettings;
     globalMessaging: GlobalMessagingSettings;
+    mcp: GlobalMCPSettings;
+    /** Third-party APIs preview apps can call through the integration proxy */
+    integrations: IntegrationDefinitions;
+    /** Monthly inference budgets, spent by model creditCost */
+    credits: CreditSettings;
+    /** Backend for the agent's generate_images tool */
+    imageGeneration: ImageGenerationSettings;
+    /** Provider behind the agent's web_search tool */
+    webSearch: WebSearchSettings;
+    /** Interactive sandbox terminal and its platform command policy */
+    terminal: TerminalSettings;
 }
 
 type StoredConfig = DeepPartial<GlobalConfigurableSettings>;
@@ -102,7 +127,15 @@ export async function getGlobalConfigurableSettings(env: Env): Promise<GlobalCon
         globalMessaging: {
             globalUserMessage: "",
             changeLogs: ""
-        }
+        },
+        mcp: {
+            servers: []
+        },
+        integrations: DEFAULT_INTEGRATIONS,
+        credits: DEFAULT_CREDIT_SETTINGS,
+        imageGeneration: DEFAULT_IMAGE_GENERATION_SETTINGS,
+        webSearch: DEFAULT_WEB_SEARCH_SETTINGS,
+        terminal: DEFAULT_TERMINAL_SETTINGS
     };
     
     try {
@@ -82,7 +82,7 @@ export function isOriginAllowed(env: Env, origin: string): boolean {
         return true;
     }
 
-    // Check for preview subdomain origins (for Agency mode / Plaid proxy)
+    // Check for preview subdomain origins (for Agency mode / integration proxy)
     return isPreviewSubdomain(env, origin);
 }
 
@@ -107,7 +107,7 @@ export function getCORSConfig(env: Env): CORSConfig {
             'X-Request-ID',
             'X-Session-Token',
             'X-CSRF-Token',
-            'X-Preview-Token'  // For Agency mode Plaid proxy
+            'X-Preview-Token'  // For Agency mode integration proxy
         ],
         exposeHeaders: [
             'X-Request-ID',
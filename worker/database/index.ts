@@ -11,6 +11,8 @@ export { AnalyticsService } from './services/AnalyticsService';
 export { BaseService } from './services/BaseService';
 export { UserService } from './services/UserService';
 export { AppService } from './services/AppService';
+export { CommentService } from './services/CommentService';
+export { CollaboratorService } from './services/CollaboratorService';
 export { ProjectService } from './services/ProjectService';
 export { ModelConfigService } from './services/ModelConfigService';
 export { ModelTestService } from './services/ModelTestService';
\ No newline at end of file
@@ -4,6 +4,10 @@ import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-or
 // Schema enum arrays derived from config types  
 const REASONING_EFFORT_VALUES = ['low', 'medium', 'high'] as const;
 const PROVIDER_OVERRIDE_VALUES = ['cloudflare', 'direct'] as const;
+const STREAM_FORMAT_VALUES = ['scof', 'xml'] as const;
+const MCP_TRANSPORT_VALUES = ['streamable-http', 'sse'] as const;
+const CREDIT_TRANSACTION_TYPES = ['usage', 'topup'] as const;
+export const COLLABORATOR_ROLES = ['viewer', 'editor'] as const;
 
 // ========================================
 // CORE USER AND IDENTITY MANAGEMENT
@@ -40,6 +44,7 @@ export const users = sqliteTable('users', {
     // Account Status
     isActive: integer('is_active', { mode: 'boolean' }).default(true),
     isSuspended: integer('is_suspended', { mode: 'boolean' }).default(false),
+    role: text('role', { enum: ['user', 'admin'] }).notNull().default('user'), // 'admin' can use /api/admin
     
     // Metadata
     createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
@@ -161,6 +166,8 @@ export const apps = sqliteTable('apps', {
     // GitHub Repository Integration
     githubRepositoryUrl: text('github_repository_url'), // GitHub repository URL
     githubRepositoryVisibility: text('github_repository_visibility', { enum: ['public', 'private'] }), // Repository visibility
+    githubDefaultBranch: text('github_default_branch'), // Branch exports and pulls sync with
+    githubSyncedCommitSha: text('github_synced_commit_sha'), // Remote head after the last export or pull
     
     // App Metadata
     isArchived: integer('is_archived', { mode: 'boolean' }).default(false),
@@ -221,6 +228,22 @@ export const stars = sqliteTable('stars', {
     appStarredAtIdx: index('stars_app_starred_at_idx').on(table.appId, table.starredAt),
 }));
 
+/**
+ * App Collaborators table - Users the owner invited to an app's agent session
+ */
+export const appCollaborators = sqliteTable('app_collaborators', {
+    id: text('id').primaryKey(),
+    appId: text('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    role: text('role', { enum: COLLABORATOR_ROLES }).notNull().default('viewer'),
+    invitedBy: text('invited_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+    appUserIdx: uniqueIndex('app_collaborators_app_user_idx').on(table.appId, table.userId),
+    userIdx: index('app_collaborators_user_idx').on(table.userId),
+}));
+
 // ========================================
 // COMMUNITY INTERACTIONS
 // ========================================
@@ -461,6 +484,7 @@ export const userModelConfigs = sqliteTable('user_model_configs', {
     reasoningEffort: text('reasoning_effort', { enum: REASONING_EFFORT_VALUES }), // Override reasoning effort  
     providerOverride: text('provider_override', { enum: PROVIDER_OVERRIDE_VALUES }), // Override provider
     fallbackModel: text('fallback_model'), // Override fallback model
+    streamFormat: text('stream_format', { enum: STREAM_FORMAT_VALUES }), // Override file generation streaming format
     
     // Status and Metadata
     isActive: integer('is_active', { mode: 'boolean' }).default(true),
@@ -494,6 +518,79 @@ export const userModelProviders = sqliteTable('user_model_providers', {
     isActiveIdx: index('user_model_providers_is_active_idx').on(table.isActive),
 }));
 
+/**
+ * User MCP Servers table - Model Context Protocol servers whose tools the agent can call
+ */
+export const userMcpServers = sqliteTable('user_mcp_servers', {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    
+    // Server Details
+    name: text('name').notNull(), // Tool namespace (e.g., "linear" -> "linear__create_issue")
+    url: text('url').notNull(),
+    transport: text('transport', { enum: MCP_TRANSPORT_VALUES }).notNull().default('streamable-http'),
+    headers: text('headers', { mode: 'json' }).$type<Record<string, string>>().default({}), // Values may reference vault secrets as {{secret:ENV_VAR_NAME}}
+    allowedTools: text('allowed_tools', { mode: 'json' }).$type<string[]>(), // null means every tool the server lists
+    
+    // Status and Metadata
+    isActive: integer('is_active', { mode: 'boolean' }).default(true),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+    userNameIdx: uniqueIndex('user_mcp_servers_user_name_idx').on(table.userId, table.name),
+    userIdx: index('user_mcp_servers_user_idx').on(table.userId),
+}));
+
+/**
+ * Integration Request Logs table - Every call a preview app makes through the integration proxy
+ */
+export const integrationRequestLogs = sqliteTable('integration_request_logs', {
+    id: text('id').primaryKey(),
+    appId: text('app_id').notNull(),
+    userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    integrationId: text('integration_id').notNull(), // Config key, e.g. "plaid"
+
+    // Request Details (never bodies or credentials)
+    method: text('method').notNull(),
+    path: text('path').notNull(),
+    status: integer('status').notNull(),
+    durationMs: integer('duration_ms').notNull(),
+    error: text('error'), // Set when the platform refused or failed the call
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+    appCreatedAtIdx: index('integration_request_logs_app_created_at_idx').on(table.appId, table.createdAt),
+    userIdx: index('integration_request_logs_user_idx').on(table.userId),
+}));
+
+// ========================================
+// CREDIT LEDGER
+// ========================================
+
+/**
+ * Credit Transactions table - Inference spend and admin top-ups, one row per event
+ */
+export const creditTransactions = sqliteTable('credit_transactions', {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    type: text('type', { enum: CREDIT_TRANSACTION_TYPES }).notNull(),
+    amount: real('amount').notNull(), // Always positive, the type gives the direction
+
+    // Usage Details (null for top-ups)
+    appId: text('app_id'), // Agent/app the inference ran for
+    model: text('model'),
+    actionKey: text('action_key'), // AgentActionKey, e.g. "blueprint"
+
+    // Top-up Details
+    note: text('note'),
+    createdBy: text('created_by').references(() => users.id), // Admin who granted a top-up
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+    userCreatedAtIdx: index('credit_transactions_user_created_at_idx').on(table.userId, table.createdAt),
+    appIdx: index('credit_transactions_app_idx').on(table.appId),
+}));
+
 // ========================================
 // SYSTEM CONFIGURATION
 // ========================================
@@ -567,10 +664,21 @@ export type UserModelConfig = typeof userModelConfigs.$inferSelect;
 export type NewUserModelConfig = typeof userModelConfigs.$inferInsert;
 export type UserModelProvider = typeof userModelProviders.$inferSelect;
 export type NewUserModelProvider = typeof userModelProviders.$inferInsert;
+export type UserMcpServer = typeof userMcpServers.$inferSelect;
+export type NewUserMcpServer = typeof userMcpServers.$inferInsert;
+
+export type IntegrationRequestLog = typeof integrationRequestLogs.$inferSelect;
+export type NewIntegrationRequestLog = typeof integrationRequestLogs.$inferInsert;
+
+export type CreditTransaction = typeof creditTransactions.$inferSelect;
+export type NewCreditTransaction = typeof creditTransactions.$inferInsert;
 
 export type Star = typeof stars.$inferSelect;
 export type NewStar = typeof stars.$inferInsert;
 
+export type AppCollaborator = typeof appCollaborators.$inferSelect;
+export type NewAppCollaborator = typeof appCollaborators.$inferInsert;
+
 // ========================================
 // PROJECT WORKSPACE MANAGEMENT
 // ========================================
@@ -599,7 +707,7 @@ export const projects = sqliteTable('projects', {
     updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
 }, (table) => ({
     userIdIdx: index('projects_user_id_idx').on(table.userId),
-    appIdIdx: index('projects_app_id_idx').on(table.appId),
+    appIdIdx: uniqueIndex('projects_app_id_idx').on(table.appId),
     lastOpenedAtIdx: index('projects_last_opened_at_idx').on(table.lastOpenedAt),
 }));
 
@@ -612,9 +720,9 @@ export const projectSessions = sqliteTable('project_sessions', {
     projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
 
     // Editor State
-    openFiles: text('open_files', { mode: 'json' }).default('[]'), // Array of file paths
+    openFiles: text('open_files', { mode: 'json' }).$type<string[]>().default([]), // Array of file paths
     activeFile: text('active_file'), // Current file path
-    cursorPosition: text('cursor_position', { mode: 'json' }), // { line, column }
+    cursorPosition: text('cursor_position', { mode: 'json' }).$type<{ line: number; column: number }>(), // { line, column }
     scrollPosition: integer('scroll_position'),
 
     // Change Tracking
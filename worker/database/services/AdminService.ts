@@ -0,0 +1,151 @@
+/**
+ * Admin Service
+ * Instance-wide user and app management for admins
+ */
+
+import { BaseService } from './BaseService';
+import * as schema from '../schema';
+import { eq, desc, sql, or } from 'drizzle-orm';
+import type { AdminAppSummary, AdminUserSummary } from '../types';
+
+export interface AdminListQuery {
+    search?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export interface AdminAppListQuery extends AdminListQuery {
+    featuredOnly?: boolean;
+}
+
+export class AdminService extends BaseService {
+    /**
+     * List users, newest first
+     */
+    async listUsers(query: AdminListQuery = {}): Promise<{ users: AdminUserSummary[]; total: number }> {
+        const { search, limit = 50, offset = 0 } = query;
+        const searchTerm = search ? `%${search.toLowerCase()}%` : null;
+        const whereClause = this.buildWhereConditions([
+            searchTerm
+                ? or(
+                    sql`LOWER(${schema.users.email}) LIKE ${searchTerm}`,
+                    sql`LOWER(${schema.users.displayName}) LIKE ${searchTerm}`,
+                    sql`LOWER(${schema.users.username}) LIKE ${searchTerm}`
+                )
+                : undefined,
+            sql`${schema.users.deletedAt} IS NULL`,
+        ]);
+        const readDb = this.getReadDb('fresh');
+
+        const [users, countResult] = await Promise.all([
+            readDb
+                .select({
+                    id: schema.users.id,
+                    email: schema.users.email,
+                    displayName: schema.users.displayName,
+                    username: schema.users.username,
+                    provider: schema.users.provider,
+                    role: schema.users.role,
+                    isSuspended: schema.users.isSuspended,
+                    createdAt: schema.users.createdAt,
+                    lastActiveAt: schema.users.lastActiveAt,
+                    appCount: sql<number>`(SELECT COUNT(*) FROM ${schema.apps} WHERE ${schema.apps.userId} = ${schema.users.id})`,
+                })
+                .from(schema.users)
+                .where(whereClause)
+                .orderBy(desc(schema.users.createdAt))
+                .limit(limit)
+                .offset(offset),
+            readDb
+                .select({ count: sql<number>`COUNT(*)` })
+                .from(schema.users)
+                .where(whereClause),
+        ]);
+
+        return { users, total: countResult[0]?.count ?? 0 };
+    }
+
+    /**
+     * Get the fields admins act on for a single user
+     */
+    async getUser(userId: string): Promise<Pick<schema.User, 'id' | 'email' | 'role' | 'isSuspended'> | null> {
+        const user = await this.getReadDb('fresh')
+            .select({
+                id: schema.users.id,
+                email: schema.users.email,
+                role: schema.users.role,
+                isSuspended: schema.users.isSuspended,
+            })
+            .from(schema.users)
+            .where(eq(schema.users.id, userId))
+            .get();
+        return user ?? null;
+    }
+
+    /**
+     * Suspend or reinstate a user
+     */
+    async setUserSuspended(userId: string, suspended: boolean): Promise<void> {
+        await this.database
+            .update(schema.users)
+            .set({ isSuspended: suspended, updatedAt: new Date() })
+            .where(eq(schema.users.id, userId));
+    }
+
+    /**
+     * List apps of all users, newest first
+     */
+    async listApps(query: AdminAppListQuery = {}): Promise<{ apps: AdminAppSummary[]; total: number }> {
+        const { search, featuredOnly, limit = 50, offset = 0 } = query;
+        const searchTerm = search ? `%${search.toLowerCase()}%` : null;
+        const whereClause = this.buildWhereConditions([
+            searchTerm
+                ? or(
+                    sql`LOWER(${schema.apps.title}) LIKE ${searchTerm}`,
+                    sql`LOWER(${schema.apps.id}) LIKE ${searchTerm}`
+                )
+                : undefined,
+            featuredOnly ? eq(schema.apps.isFeatured, true) : undefined,
+        ]);
+        const readDb = this.getReadDb('fresh');
+
+        const [apps, countResult] = await Promise.all([
+            readDb
+                .select({
+                    id: schema.apps.id,
+                    title: schema.apps.title,
+                    userId: schema.apps.userId,
+                    visibility: schema.apps.visibility,
+                    status: schema.apps.status,
+                    isFeatured: schema.apps.isFeatured,
+                    createdAt: schema.apps.createdAt,
+                    updatedAt: schema.apps.updatedAt,
+                    ownerEmail: schema.users.email,
+                })
+                .from(schema.apps)
+                .leftJoin(schema.users, eq(schema.apps.userId, schema.users.id))
+                .where(whereClause)
+                .orderBy(desc(schema.apps.createdAt))
+                .limit(limit)
+                .offset(offset),
+            readDb
+                .select({ count: sql<number>`COUNT(*)` })
+                .from(schema.apps)
+                .where(whereClause),
+        ]);
+
+        return { apps, total: countResult[0]?.count ?? 0 };
+    }
+
+    /**
+     * Feature or unfeature an app, returns false when the app does not exist
+     */
+    async setAppFeatured(appId: string, featured: boolean): Promise<boolean> {
+        const updated = await this.database
+            .update(schema.apps)
+            .set({ isFeatured: featured })
+            .where(eq(schema.apps.id, appId))
+            .returning({ id: schema.apps.id });
+        return updated.length > 0;
+    }
+}
@@ -8,6 +8,8 @@ import * as schema from '../schema';
 import { eq, and, desc, sql, or, isNull, gt } from 'drizzle-orm';
 import { generateId } from '../../utils/idGenerator';
 import { createLogger } from '../../logger';
+import { parseApiKeyScopes } from '../../utils/apiKeyScopes';
+import type { ApiKeyScopeGrant } from '../../types/auth-types';
 
 const logger = createLogger('ApiKeyService');
 
@@ -18,6 +20,7 @@ export interface ApiKeyInfo {
     createdAt: Date | null;
     lastUsed?: Date | null;
     isActive: boolean | null;
+    scopes: ApiKeyScopeGrant[];
 }
 
 export interface CreateApiKeyData {
@@ -25,6 +28,8 @@ export interface CreateApiKeyData {
     name: string;
     keyHash: string;
     keyPreview: string;
+    /** Empty for full account access */
+    scopes?: ApiKeyScopeGrant[];
 }
 
 /**
@@ -44,14 +49,15 @@ export class ApiKeyService extends BaseService {
                     keyPreview: schema.apiKeys.keyPreview,
                     createdAt: schema.apiKeys.createdAt,
                     lastUsed: schema.apiKeys.lastUsed,
-                    isActive: schema.apiKeys.isActive
+                    isActive: schema.apiKeys.isActive,
+                    scopes: schema.apiKeys.scopes
                 })
                 .from(schema.apiKeys)
                 .where(eq(schema.apiKeys.userId, userId))
                 .orderBy(desc(schema.apiKeys.createdAt))
                 .all();
             
-            return keys;
+            return keys.map(key => ({ ...key, scopes: parseApiKeyScopes(key.scopes) }));
         } catch (error) {
             logger.error('Error fetching user API keys', error);
             return [];
@@ -71,7 +77,7 @@ export class ApiKeyService extends BaseService {
                 name: data.name,
                 keyHash: data.keyHash,
                 keyPreview: data.keyPreview,
-                scopes: JSON.stringify([]),
+                scopes: JSON.stringify(data.scopes ?? []),
                 createdAt: new Date(),
                 updatedAt: new Date(),
                 isActive: true
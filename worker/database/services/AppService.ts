@@ -17,7 +17,8 @@ import type {
     OwnershipResult,
     AppVisibilityUpdateResult,
     TimePeriod,
-    PaginationParams
+    PaginationParams,
+    AppForForkResult
 } from '../types';
 
 // Type definitions
@@ -29,6 +30,7 @@ type RankedAppQueryResult = {
     viewCount: number;
     starCount: number;
     forkCount: number;
+    parentAppTitle: string | null;
     recentViews?: number;
     recentStars?: number;
 };
@@ -74,7 +76,7 @@ export class AppService extends BaseService {
         } = options;
 
         try {
-            const whereConditions = this.buildPublicAppConditions(framework, search);
+            const whereConditions = this.buildPublicAppConditions(framework, search, sort === 'featured');
             const whereClause = this.buildWhereConditions(whereConditions);
             const readDb = this.getReadDb('fast');
             
@@ -143,6 +145,7 @@ export class AppService extends BaseService {
                     viewCount: row.viewCount || 0,
                     starCount: row.starCount || 0,
                     forkCount: row.forkCount || 0,
+                    parentAppTitle: row.parentAppTitle,
                     likeCount: 0,
                     userStarred: isStarred,
                     userFavorited: isFavorited
@@ -199,7 +202,8 @@ export class AppService extends BaseService {
      */
     private buildPublicAppConditions(
         framework?: string, 
-        search?: string
+        search?: string,
+        featuredOnly?: boolean
     ): WhereCondition[] {
         const whereConditions: WhereCondition[] = [
             // Only show public apps or apps from anonymous users
@@ -211,6 +215,8 @@ export class AppService extends BaseService {
                 eq(schema.apps.status, 'completed'),
                 eq(schema.apps.status, 'generating')
             ),
+            // Featured apps are picked by admins and listed newest first
+            featuredOnly ? eq(schema.apps.isFeatured, true) : undefined,
             // Use shared helper for common filters
             ...this.buildCommonAppFilters(framework, search),
         ];
@@ -262,14 +268,24 @@ export class AppService extends BaseService {
     async updateGitHubRepository(
         appId: string,
         repositoryUrl: string,
-        repositoryVisibility: 'public' | 'private'
+        repositoryVisibility: 'public' | 'private',
+        sync?: { defaultBranch?: string | null; syncedCommitSha?: string | null }
     ): Promise<boolean> {
         return this.updateApp(appId, {
             githubRepositoryUrl: repositoryUrl,
-            githubRepositoryVisibility: repositoryVisibility
+            githubRepositoryVisibility: repositoryVisibility,
+            ...(sync?.defaultBranch !== undefined && { githubDefaultBranch: sync.defaultBranch }),
+            ...(sync?.syncedCommitSha !== undefined && { githubSyncedCommitSha: sync.syncedCommitSha })
         });
     }
 
+    /**
+     * Record the GitHub head the app was last synced with
+     */
+    async updateGitHubSyncedCommit(appId: string, syncedCommitSha: string): Promise<boolean> {
+        return this.updateApp(appId, { githubSyncedCommitSha: syncedCommitSha });
+    }
+
     /**
      * Update app with screenshot data
      */
@@ -529,6 +545,8 @@ export class AppService extends BaseService {
                 app: schema.apps,
                 userName: schema.users.displayName,
                 userAvatar: schema.users.avatarUrl,
+                forkCount: this.getCountSubqueries().forkCount,
+                parentAppTitle: this.getParentAppTitleSubquery(),
             })
             .from(schema.apps)
             .leftJoin(schema.users, eq(schema.apps.userId, schema.users.id))
@@ -592,10 +610,56 @@ export class AppService extends BaseService {
             starCount,
             userStarred: userHasStarred,
             userFavorited: isFavorite,
-            viewCount
+            viewCount,
+            forkCount: appResult.forkCount || 0,
+            parentAppTitle: appResult.parentAppTitle
+        };
+    }
+
+    /**
+     * Get an app for forking - public apps can be forked by anyone, private ones only by their owner
+     */
+    async getAppForFork(appId: string, userId: string): Promise<AppForForkResult> {
+        const app = await this.getReadDb('fresh')
+            .select()
+            .from(schema.apps)
+            .where(eq(schema.apps.id, appId))
+            .get();
+
+        if (!app) {
+            return { app: null, canFork: false };
+        }
+
+        return {
+            app,
+            canFork: app.visibility === 'public' || app.userId === userId
         };
     }
 
+    /**
+     * Create the app record for a fork, linked to the original through parentAppId
+     */
+    async createForkedApp(originalApp: schema.App, newAgentId: string, userId: string): Promise<schema.App> {
+        return this.createApp({
+            id: newAgentId,
+            userId,
+            sessionToken: null,
+            title: originalApp.title,
+            description: originalApp.description,
+            originalPrompt: originalApp.originalPrompt,
+            finalPrompt: originalApp.finalPrompt,
+            framework: originalApp.framework,
+            iconUrl: originalApp.iconUrl,
+            visibility: 'private',
+            status: 'completed',
+            parentAppId: originalApp.id,
+            screenshotUrl: originalApp.screenshotUrl,
+            screenshotCapturedAt: originalApp.screenshotCapturedAt,
+            createdAt: new Date(),
+            updatedAt: new Date()
+        });
+    }
+
     /**
      * Toggle star status for an app (star/unstar)
      * Uses same pattern as toggleAppFavorite
@@ -694,7 +758,8 @@ export class AppService extends BaseService {
                     app: schema.apps,
                     userName: schema.users.displayName,
                     userAvatar: schema.users.avatarUrl,
-                    ...this.getCountSubqueries()
+                    ...this.getCountSubqueries(),
+                    parentAppTitle: this.getParentAppTitleSubquery(),
                 })
                 .from(schema.apps)
                 .leftJoin(schema.users, eq(schema.apps.userId, schema.users.id))
@@ -711,6 +776,7 @@ export class AppService extends BaseService {
                 viewCount: r.viewCount || 0,
                 starCount: r.starCount || 0,
                 forkCount: r.forkCount || 0,
+                parentAppTitle: r.parentAppTitle,
                 likeCount: 0,
                 userStarred: false,
                 userFavorited: true // These are favorited apps
@@ -741,6 +807,7 @@ export class AppService extends BaseService {
             viewCount: row.viewCount || 0,
             starCount: row.starCount || 0,
             forkCount: row.forkCount || 0,
+            parentAppTitle: row.parentAppTitle,
             likeCount: 0,
             userStarred: userStars.has(row.app.id),
             userFavorited: userFavorites.has(row.app.id)
@@ -817,6 +884,7 @@ export class AppService extends BaseService {
                         viewCount: viewCountSubquery,
                         starCount: starCountSubquery,
                         forkCount: forkCountSubquery,
+                        parentAppTitle: this.getParentAppTitleSubquery(),
                     })
                     .from(schema.apps)
                     .leftJoin(schema.users, eq(schema.apps.userId, schema.users.id))
@@ -845,6 +913,7 @@ export class AppService extends BaseService {
                         viewCount: viewCountSubquery,
                         starCount: starCountSubquery,
                         forkCount: forkCountSubquery,
+                        parentAppTitle: this.getParentAppTitleSubquery(),
                         recentViews: recentViewsSubquery,
                         recentStars: recentStarsSubquery,
                     })
@@ -856,7 +925,7 @@ export class AppService extends BaseService {
                     .offset(offset);
             }
         } else {
-            // Simple query for recent/starred sorts
+            // Simple query for recent/starred/featured sorts
             const direction = order === 'asc' ? asc : desc;
             const orderByExpression = sort === 'starred' 
                 ? sql`(SELECT COUNT(*) FROM ${schema.stars} WHERE ${schema.stars.appId} = ${schema.apps.id}) DESC`
@@ -868,6 +937,7 @@ export class AppService extends BaseService {
                     userName: schema.users.displayName,
                     userAvatar: schema.users.avatarUrl,
                     ...this.getCountSubqueries(),
+                    parentAppTitle: this.getParentAppTitleSubquery(),
                 })
                 .from(schema.apps)
                 .leftJoin(schema.users, eq(schema.apps.userId, schema.users.id))
@@ -886,6 +956,13 @@ export class AppService extends BaseService {
         };
     }
 
+    /**
+     * Parent app title for forks - null when the parent is private or was deleted
+     */
+    private getParentAppTitleSubquery() {
+        return sql<string | null>`(SELECT parent.title FROM ${schema.apps} AS parent WHERE parent.id = ${schema.apps.parentAppId} AND parent.visibility = 'public')`;
+    }
+
     private async addUserSpecificAppData(
         appIds: string[], 
         userId?: string
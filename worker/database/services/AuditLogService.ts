@@ -0,0 +1,86 @@
+/**
+ * Audit Log Service
+ * Records and lists security and administrative events
+ */
+
+import { BaseService } from './BaseService';
+import * as schema from '../schema';
+import { eq, desc, sql } from 'drizzle-orm';
+import { generateId } from '../../utils/idGenerator';
+import { extractRequestMetadata } from '../../utils/authUtils';
+import type { AuditLogWithActor } from '../types';
+
+export interface AuditLogEntry {
+    /** User who performed the action */
+    userId: string | null;
+    entityType: string;
+    entityId: string;
+    action: string;
+    oldValues?: Record<string, unknown>;
+    newValues?: Record<string, unknown>;
+    request?: Request;
+}
+
+export interface AuditLogQuery {
+    entityType?: string;
+    userId?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export class AuditLogService extends BaseService {
+    /**
+     * Record an audit event
+     */
+    async log(entry: AuditLogEntry): Promise<void> {
+        const metadata = entry.request ? extractRequestMetadata(entry.request) : null;
+
+        await this.database.insert(schema.auditLogs).values({
+            id: generateId(),
+            userId: entry.userId,
+            entityType: entry.entityType,
+            entityId: entry.entityId,
+            action: entry.action,
+            oldValues: entry.oldValues ?? null,
+            newValues: entry.newValues ?? null,
+            ipAddress: metadata?.ipAddress ?? null,
+            userAgent: metadata?.userAgent ?? null,
+            createdAt: new Date()
+        });
+    }
+
+    /**
+     * List audit events, newest first
+     */
+    async getLogs(query: AuditLogQuery = {}): Promise<{ logs: AuditLogWithActor[]; total: number }> {
+        const { entityType, userId, limit = 50, offset = 0 } = query;
+        const whereClause = this.buildWhereConditions([
+            entityType ? eq(schema.auditLogs.entityType, entityType) : undefined,
+            userId ? eq(schema.auditLogs.userId, userId) : undefined,
+        ]);
+        const readDb = this.getReadDb('fresh');
+
+        const [rows, countResult] = await Promise.all([
+            readDb
+                .select({
+                    log: schema.auditLogs,
+                    actorEmail: schema.users.email,
+                })
+                .from(schema.auditLogs)
+                .leftJoin(schema.users, eq(schema.auditLogs.userId, schema.users.id))
+                .where(whereClause)
+                .orderBy(desc(schema.auditLogs.createdAt))
+                .limit(limit)
+                .offset(offset),
+            readDb
+                .select({ count: sql<number>`COUNT(*)` })
+                .from(schema.auditLogs)
+                .where(whereClause),
+        ]);
+
+        return {
+            logs: rows.map((row) => ({ ...row.log, actorEmail: row.actorEmail })),
+            total: countResult[0]?.count ?? 0,
+        };
+    }
+}
@@ -6,7 +6,7 @@
 import * as schema from '../schema';
 import { eq, and, sql, or, lt, isNull } from 'drizzle-orm';
 import { JWTUtils } from '../../utils/jwtUtils';
-import { generateSecureToken } from '../../utils/cryptoUtils';
+import { generateSecureToken, sha256Hash } from '../../utils/cryptoUtils';
 import { SessionService } from './SessionService';
 import { PasswordService } from '../../utils/passwordService';
 import { GoogleOAuthProvider } from '../../services/oauth/google';
@@ -27,9 +27,14 @@ import { createLogger } from '../../logger';
 import { validateEmail, validatePassword } from '../../utils/validationUtils';
 import { extractRequestMetadata } from '../../utils/authUtils';
 import { BaseService } from './BaseService';
+import { AuditLogService } from './AuditLogService';
+import { createEmailTransport } from '../../services/email';
+import { buildPlatformUrl } from '../../utils/urls';
 
 const logger = createLogger('AuthService');
 
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
 /**
  * Login credentials
  */
@@ -213,6 +218,8 @@ export class AuthService extends BaseService {
                     401
                 );
             }
+
+            this.assertNotSuspended(user);
             
             // Create session
             const { accessToken, session } = await this.sessionService.createSession(
@@ -413,6 +420,7 @@ export class AuthService extends BaseService {
             
             // Find or create user
             const user = await this.findOrCreateOAuthUser(provider, oauthUserInfo);
+            this.assertNotSuspended(user);
             
             // Create session
             const { accessToken: sessionAccessToken, session } = await this.sessionService.createSession(
@@ -509,6 +517,20 @@ export class AuthService extends BaseService {
         return user!;
     }
     
+    /**
+     * Suspended accounts keep their data but cannot start new sessions
+     */
+    private assertNotSuspended(user: Pick<schema.User, 'id' | 'isSuspended'>): void {
+        if (user.isSuspended) {
+            logger.warn('Suspended user attempted to sign in', { userId: user.id });
+            throw new SecurityError(
+                SecurityErrorType.FORBIDDEN,
+                'This account has been suspended',
+                403
+            );
+        }
+    }
+
     /**
      * Log authentication attempt
      */
@@ -648,6 +670,7 @@ export class AuthService extends BaseService {
                     404
                 );
             }
+            this.assertNotSuspended(user);
 
             // Update user as verified
             await this.database
@@ -690,7 +713,7 @@ export class AuthService extends BaseService {
     /**
      * Get user for authentication (for middleware)
      */
-    async getUserForAuth(userId: string): Promise<AuthUser | null> {
+    async getUserForAuth(userId: string, tokenIssuedAt?: number): Promise<AuthUser | null> {
         try {
             const user = await this.database
                 .select({
@@ -704,6 +727,9 @@ export class AuthService extends BaseService {
                     provider: schema.users.provider,
                     emailVerified: schema.users.emailVerified,
                     createdAt: schema.users.createdAt,
+                    role: schema.users.role,
+                    isSuspended: schema.users.isSuspended,
+                    passwordChangedAt: schema.users.passwordChangedAt,
                 })
                 .from(schema.users)
                 .where(
@@ -728,8 +754,22 @@ export class AuthService extends BaseService {
                 logger.debug('User not found for auth', { userId });
                 return null;
             }
-            
-            return mapUserResponse(user);
+
+            // Suspension takes effect on the next request, not when the token expires
+            if (user.isSuspended) {
+                logger.debug('Suspended user rejected for auth', { userId });
+                return null;
+            }
+
+            // Tokens issued before a password change or reset are no longer valid
+            if (tokenIssuedAt !== undefined && user.passwordChangedAt &&
+                tokenIssuedAt < Math.floor(user.passwordChangedAt.getTime() / 1000)) {
+                logger.debug('Token predates password change', { userId });
+                return null;
+            }
+
+            const { isSuspended: _isSuspended, passwordChangedAt: _passwordChangedAt, ...authUser } = user;
+            return mapUserResponse(authUser);
         } catch (error: unknown) {
             logger.error('Error getting user for auth', {
                 errorMessage: error instanceof Error ? error.message : String(error),
@@ -760,7 +800,7 @@ export class AuthService extends BaseService {
             }
             
             // Get user from database
-            const user = await this.getUserForAuth(payload.sub);
+            const user = await this.getUserForAuth(payload.sub, payload.iat);
             if (!user) {
                 return null;
             }
@@ -768,6 +808,7 @@ export class AuthService extends BaseService {
             return {
                 user,
                 sessionId: payload.sessionId,
+                apiKeyScopes: payload.scopes,
             };
         } catch (error) {
             logger.error('Token validation error', error);
@@ -831,4 +872,142 @@ export class AuthService extends BaseService {
             );
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Start a password reset. Always succeeds so callers cannot tell which
+     * emails have accounts; only active email/password users get a link.
+     */
+    async requestPasswordReset(email: string, request: Request): Promise<void> {
+        const user = await this.database
+            .select()
+            .from(schema.users)
+            .where(
+                and(
+                    eq(schema.users.email, email.toLowerCase()),
+                    isNull(schema.users.deletedAt)
+                )
+            )
+            .get();
+
+        if (!user || !user.passwordHash || user.isSuspended) {
+            logger.info('Password reset requested for ineligible account', { email });
+            return;
+        }
+
+        const transport = createEmailTransport(this.env);
+        if (!transport) {
+            logger.warn('Password reset requested but no email transport is configured', { userId: user.id });
+            return;
+        }
+
+        // Only the newest link works
+        await this.database
+            .update(schema.passwordResetTokens)
+            .set({ used: true })
+            .where(
+                and(
+                    eq(schema.passwordResetTokens.userId, user.id),
+                    eq(schema.passwordResetTokens.used, false)
+                )
+            );
+
+        const token = generateSecureToken(32);
+        await this.database.insert(schema.passwordResetTokens).values({
+            id: generateId(),
+            userId: user.id,
+            tokenHash: await sha256Hash(token),
+            expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+            createdAt: new Date()
+        });
+
+        const resetUrl = buildPlatformUrl(this.env, `/reset-password?token=${token}`);
+        await transport.send({
+            to: user.email,
+            subject: 'Reset your password',
+            text: `Someone asked to reset the password for your account.\n\nOpen this link within an hour to choose a new password:\n${resetUrl}\n\nIf this wasn't you, you can ignore this email.`
+        });
+
+        await new AuditLogService(this.env).log({
+            userId: user.id,
+            entityType: 'user',
+            entityId: user.id,
+            action: 'password_reset_requested',
+            request
+        });
+
+        logger.info('Password reset email sent', { userId: user.id, transport: transport.name });
+    }
+
+    /**
+     * Complete a password reset with a token from the reset email.
+     * Signs the user out of every session.
+     */
+    async resetPassword(token: string, newPassword: string, request: Request): Promise<void> {
+        try {
+            // Validate before consuming the token so a rejected password doesn't burn the link
+            const passwordValidation = validatePassword(newPassword);
+            if (!passwordValidation.valid) {
+                throw new SecurityError(
+                    SecurityErrorType.INVALID_INPUT,
+                    passwordValidation.errors!.join(', '),
+                    400
+                );
+            }
+
+            const [resetToken] = await this.database
+                .update(schema.passwordResetTokens)
+                .set({ used: true })
+                .where(
+                    and(
+                        eq(schema.passwordResetTokens.tokenHash, await sha256Hash(token)),
+                        eq(schema.passwordResetTokens.used, false),
+                        sql`${schema.passwordResetTokens.expiresAt} > ${new Date()}`
+                    )
+                )
+                .returning();
+
+            if (!resetToken) {
+                throw new SecurityError(
+                    SecurityErrorType.INVALID_TOKEN,
+                    'Invalid or expired reset link',
+                    400
+                );
+            }
+
+            const now = new Date();
+            await this.database
+                .update(schema.users)
+                .set({
+                    passwordHash: await this.passwordService.hash(newPassword),
+                    passwordChangedAt: now,
+                    failedLoginAttempts: 0,
+                    lockedUntil: null,
+                    updatedAt: now
+                })
+                .where(eq(schema.users.id, resetToken.userId));
+
+            await this.sessionService.revokeAllUserSessions(resetToken.userId);
+
+            await new AuditLogService(this.env).log({
+                userId: resetToken.userId,
+                entityType: 'user',
+                entityId: resetToken.userId,
+                action: 'password_reset',
+                request
+            });
+
+            logger.info('Password reset completed', { userId: resetToken.userId });
+        } catch (error) {
+            if (error instanceof SecurityError) {
+                throw error;
+            }
+
+            logger.error('Password reset error', error);
+            throw new SecurityError(
+                SecurityErrorType.INVALID_INPUT,
+                'Failed to reset password',
+                500
+            );
+        }
+    }
+}
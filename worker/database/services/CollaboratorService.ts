@@ -0,0 +1,141 @@
+/**
+ * Collaborator Service
+ * Invited viewers and editors on an app's agent session
+ */
+
+import { BaseService } from './BaseService';
+import * as schema from '../schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { generateId } from '../../utils/idGenerator';
+import type { AppAccessRole, CollaboratorWithUser } from '../types';
+
+type CollaboratorRole = schema.AppCollaborator['role'];
+
+export class CollaboratorService extends BaseService {
+
+    /**
+     * Get all collaborators of an app with their profiles, oldest invite first
+     */
+    async listCollaborators(appId: string): Promise<CollaboratorWithUser[]> {
+        const rows = await this.getReadDb('fresh')
+            .select({
+                collaborator: schema.appCollaborators,
+                email: schema.users.email,
+                displayName: schema.users.displayName,
+                avatarUrl: schema.users.avatarUrl,
+            })
+            .from(schema.appCollaborators)
+            .innerJoin(schema.users, eq(schema.appCollaborators.userId, schema.users.id))
+            .where(eq(schema.appCollaborators.appId, appId))
+            .orderBy(asc(schema.appCollaborators.createdAt))
+            .all();
+
+        return rows.map((row) => ({
+            ...row.collaborator,
+            email: row.email,
+            displayName: row.displayName,
+            avatarUrl: row.avatarUrl,
+        }));
+    }
+
+    /**
+     * Resolve the access role of a user on an app, null when they have none
+     */
+    async getAppRole(appId: string, userId: string): Promise<AppAccessRole | null> {
+        const row = await this.getReadDb('fresh')
+            .select({
+                ownerId: schema.apps.userId,
+                role: schema.appCollaborators.role,
+            })
+            .from(schema.apps)
+            .leftJoin(schema.appCollaborators, and(
+                eq(schema.appCollaborators.appId, schema.apps.id),
+                eq(schema.appCollaborators.userId, userId)
+            ))
+            .where(eq(schema.apps.id, appId))
+            .get();
+
+        if (!row) return null;
+        if (row.ownerId === userId) return 'owner';
+        return row.role ?? null;
+    }
+
+    /**
+     * Invite an existing user by email, updating the role if they are already a collaborator
+     */
+    async addCollaborator(
+        appId: string,
+        email: string,
+        role: CollaboratorRole,
+        invitedBy: string
+    ): Promise<CollaboratorWithUser | null> {
+        const user = await this.database
+            .select({
+                id: schema.users.id,
+                email: schema.users.email,
+                displayName: schema.users.displayName,
+                avatarUrl: schema.users.avatarUrl,
+            })
+            .from(schema.users)
+            .where(eq(schema.users.email, email.trim().toLowerCase()))
+            .get();
+
+        if (!user) return null;
+
+        const now = new Date();
+        const [collaborator] = await this.database
+            .insert(schema.appCollaborators)
+            .values({
+                id: generateId(),
+                appId,
+                userId: user.id,
+                role,
+                invitedBy,
+                createdAt: now,
+                updatedAt: now,
+            })
+            .onConflictDoUpdate({
+                target: [schema.appCollaborators.appId, schema.appCollaborators.userId],
+                set: { role, updatedAt: now },
+            })
+            .returning();
+
+        return {
+            ...collaborator,
+            email: user.email,
+            displayName: user.displayName,
+            avatarUrl: user.avatarUrl,
+        };
+    }
+
+    /**
+     * Change the role of an existing collaborator
+     */
+    async updateRole(appId: string, userId: string, role: CollaboratorRole): Promise<schema.AppCollaborator | null> {
+        const [collaborator] = await this.database
+            .update(schema.appCollaborators)
+            .set({ role, updatedAt: new Date() })
+            .where(and(
+                eq(schema.appCollaborators.appId, appId),
+                eq(schema.appCollaborators.userId, userId)
+            ))
+            .returning();
+
+        return collaborator ?? null;
+    }
+
+    /**
+     * Remove a collaborator, returns false when they were not one
+     */
+    async removeCollaborator(appId: string, userId: string): Promise<boolean> {
+        const removed = await this.database
+            .delete(schema.appCollaborators)
+            .where(and(
+                eq(schema.appCollaborators.appId, appId),
+                eq(schema.appCollaborators.userId, userId)
+            ))
+            .returning({ id: schema.appCollaborators.id });
+
+        return removed.length > 0;
+    }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AppComment } from '../schema';
+import { CommentService } from './CommentService';
+
+const comment = (id: string, extra: Partial<AppComment> = {}): AppComment => ({
+	id,
+	appId: 'app-1',
+	userId: `user-${id}`,
+	content: `Comment ${id}`,
+	parentCommentId: null,
+	isEdited: false,
+	isDeleted: false,
+	createdAt: new Date('2025-01-01T00:00:00.000Z'),
+	updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+	...extra,
+});
+
+const row = (value: AppComment) => ({
+	comment: value,
+	userName: `Name ${value.id}`,
+	userAvatar: `https://avatars.example/${value.id}.png`,
+	likeCount: 2,
+	userLiked: 0,
+});
+
+function serviceReturning(rows: ReturnType<typeof row>[]): CommentService {
+	// Queries never reach D1, getReadDb is replaced below
+	const service = new CommentService({ DB: { prepare: () => undefined } } as unknown as Env);
+	const query = {
+		select: () => query,
+		from: () => query,
+		leftJoin: () => query,
+		where: () => query,
+		orderBy: () => query,
+		all: async () => rows,
+	};
+	vi.spyOn(service as unknown as { getReadDb: () => unknown }, 'getReadDb').mockReturnValue(query);
+	return service;
+}
+
+describe('CommentService.getAppComments', () => {
+	it('strips the content and author of deleted comments that still have replies', async () => {
+		const service = serviceReturning([
+			row(comment('a', { isDeleted: true })),
+			row(comment('b', { parentCommentId: 'a' })),
+		]);
+
+		const [thread] = await service.getAppComments('app-1');
+
+		expect(thread).toMatchObject({
+			id: 'a',
+			isDeleted: true,
+			content: '',
+			userId: null,
+			userName: null,
+			userAvatar: null,
+		});
+		expect(thread.replies).toHaveLength(1);
+		expect(thread.replies[0]).toMatchObject({ id: 'b', userId: 'user-b', content: 'Comment b', userName: 'Name b' });
+	});
+
+	it('drops deleted comments without replies', async () => {
+		const service = serviceReturning([row(comment('a')), row(comment('b', { isDeleted: true }))]);
+
+		const threads = await service.getAppComments('app-1');
+
+		expect(threads.map((thread) => thread.id)).toEqual(['a']);
+	});
+});
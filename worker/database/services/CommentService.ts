@@ -0,0 +1,213 @@
+/**
+ * Comment Service
+ * Threaded comments and comment likes on apps
+ */
+
+import { BaseService } from './BaseService';
+import * as schema from '../schema';
+import { eq, and, asc, sql } from 'drizzle-orm';
+import { generateId } from '../../utils/idGenerator';
+import type {
+    CommentWithStats,
+    CommentLikeToggleResult
+} from '../types';
+
+export class CommentService extends BaseService {
+
+    /**
+     * Get all comments for an app as threads, oldest first
+     * Deleted comments are kept as placeholders when they still have replies
+     */
+    async getAppComments(appId: string, userId?: string): Promise<CommentWithStats[]> {
+        const readDb = this.getReadDb('fresh');
+
+        const userLiked = userId
+            ? sql<number>`EXISTS (SELECT 1 FROM ${schema.commentLikes} WHERE ${schema.commentLikes.commentId} = ${schema.appComments.id} AND ${schema.commentLikes.userId} = ${userId})`
+            : sql<number>`0`;
+
+        const rows = await readDb
+            .select({
+                comment: schema.appComments,
+                userName: schema.users.displayName,
+                userAvatar: schema.users.avatarUrl,
+                likeCount: sql<number>`(SELECT COUNT(*) FROM ${schema.commentLikes} WHERE ${schema.commentLikes.commentId} = ${schema.appComments.id})`,
+                userLiked,
+            })
+            .from(schema.appComments)
+            .leftJoin(schema.users, eq(schema.appComments.userId, schema.users.id))
+            .where(eq(schema.appComments.appId, appId))
+            .orderBy(asc(schema.appComments.createdAt))
+            .all();
+
+        const byId = new Map<string, CommentWithStats>();
+        for (const row of rows) {
+            const deleted = !!row.comment.isDeleted;
+            byId.set(row.comment.id, {
+                ...row.comment,
+                // Never expose content or author of deleted comments
+                content: deleted ? '' : row.comment.content,
+                userId: deleted ? null : row.comment.userId,
+                userName: deleted ? null : row.userName,
+                userAvatar: deleted ? null : row.userAvatar,
+                likeCount: row.likeCount || 0,
+                userLiked: !!row.userLiked,
+                replies: [],
+            });
+        }
+
+        const threads: CommentWithStats[] = [];
+        for (const comment of byId.values()) {
+            const parent = comment.parentCommentId ? byId.get(comment.parentCommentId) : undefined;
+            if (parent) {
+                parent.replies.push(comment);
+            } else {
+                threads.push(comment);
+            }
+        }
+
+        return this.pruneDeletedLeaves(threads);
+    }
+
+    /**
+     * Get the fields of an app needed for comment permission checks
+     */
+    async getCommentableApp(appId: string): Promise<Pick<schema.App, 'id' | 'userId' | 'visibility'> | null> {
+        const app = await this.getReadDb('fast')
+            .select({
+                id: schema.apps.id,
+                userId: schema.apps.userId,
+                visibility: schema.apps.visibility
+            })
+            .from(schema.apps)
+            .where(eq(schema.apps.id, appId))
+            .get();
+
+        return app ?? null;
+    }
+
+    /**
+     * Get a single comment by ID
+     */
+    async getComment(commentId: string): Promise<schema.AppComment | null> {
+        const comment = await this.getReadDb('fresh')
+            .select()
+            .from(schema.appComments)
+            .where(eq(schema.appComments.id, commentId))
+            .get();
+
+        return comment ?? null;
+    }
+
+    /**
+     * Create a comment, optionally as a reply to another comment on the same app
+     */
+    async createComment(
+        appId: string,
+        userId: string,
+        content: string,
+        parentCommentId?: string | null
+    ): Promise<schema.AppComment> {
+        const now = new Date();
+        const [comment] = await this.database
+            .insert(schema.appComments)
+            .values({
+                id: generateId(),
+                appId,
+                userId,
+                content,
+                parentCommentId: parentCommentId ?? null,
+                createdAt: now,
+                updatedAt: now
+            })
+            .returning();
+
+        return comment;
+    }
+
+    /**
+     * Update comment content and mark it as edited
+     */
+    async updateComment(commentId: string, content: string): Promise<schema.AppComment | null> {
+        const [comment] = await this.database
+            .update(schema.appComments)
+            .set({
+                content,
+                isEdited: true,
+                updatedAt: new Date()
+            })
+            .where(and(
+                eq(schema.appComments.id, commentId),
+                eq(schema.appComments.isDeleted, false)
+            ))
+            .returning();
+
+        return comment ?? null;
+    }
+
+    /**
+     * Soft delete a comment - replies stay attached to the thread
+     */
+    async deleteComment(commentId: string): Promise<void> {
+        await this.database
+            .update(schema.appComments)
+            .set({
+                isDeleted: true,
+                updatedAt: new Date()
+            })
+            .where(eq(schema.appComments.id, commentId))
+            .run();
+    }
+
+    /**
+     * Toggle like status for a comment
+     * Uses same pattern as toggleAppStar
+     */
+    async toggleCommentLike(commentId: string, userId: string): Promise<CommentLikeToggleResult> {
+        const existingLike = await this.database
+            .select({ id: schema.commentLikes.id })
+            .from(schema.commentLikes)
+            .where(and(
+                eq(schema.commentLikes.commentId, commentId),
+                eq(schema.commentLikes.userId, userId)
+            ))
+            .get();
+
+        if (existingLike) {
+            await this.database
+                .delete(schema.commentLikes)
+                .where(eq(schema.commentLikes.id, existingLike.id))
+                .run();
+        } else {
+            await this.database
+                .insert(schema.commentLikes)
+                .values({
+                    id: generateId(),
+                    commentId,
+                    userId,
+                    createdAt: new Date()
+                })
+                .run();
+        }
+
+        const likeCountResult = await this.database
+            .select({ count: sql<number>`count(*)` })
+            .from(schema.commentLikes)
+            .where(eq(schema.commentLikes.commentId, commentId))
+            .get();
+
+        return {
+            isLiked: !existingLike,
+            likeCount: likeCountResult?.count || 0
+        };
+    }
+
+    /**
+     * Drop deleted comments that no longer have any visible replies
+     */
+    private pruneDeletedLeaves(comments: CommentWithStats[]): CommentWithStats[] {
+        return comments.filter((comment) => {
+            comment.replies = this.pruneDeletedLeaves(comment.replies);
+            return !comment.isDeleted || comment.replies.length > 0;
+        });
+    }
+}
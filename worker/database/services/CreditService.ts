@@ -0,0 +1,168 @@
+/**
+ * Credit Service
+ * Ledger of inference spend and admin top-ups behind per-user monthly budgets
+ */
+
+import { BaseService } from './BaseService';
+import * as schema from '../schema';
+import { and, eq, gte, lt, desc, sql, type SQL } from 'drizzle-orm';
+import type { AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { generateId } from '../../utils/idGenerator';
+import type { CreditBalance, CreditSpendEntry, CreditUsageBreakdown } from '../types';
+
+export interface RecordCreditUsageData {
+    userId: string;
+    appId: string | null;
+    model: string;
+    actionKey: string | null;
+    amount: number;
+}
+
+/**
+ * Budgets reset at the start of every UTC calendar month
+ */
+export function getCreditPeriod(now: Date = new Date()): { start: Date; end: Date } {
+    return {
+        start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+        end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+}
+
+export class CreditService extends BaseService {
+    /**
+     * Spend and top-ups of the current period. Top-ups only count towards the
+     * month they were granted in.
+     */
+    async getBalance(userId: string, monthlyAllowance: number, enforced: boolean): Promise<CreditBalance> {
+        const { start, end } = getCreditPeriod();
+        const totals = await this.getReadDb('fresh')
+            .select({
+                type: schema.creditTransactions.type,
+                total: sql<number>`COALESCE(SUM(${schema.creditTransactions.amount}), 0)`,
+            })
+            .from(schema.creditTransactions)
+            .where(this.periodConditions(userId, start, end))
+            .groupBy(schema.creditTransactions.type)
+            .all();
+
+        const spent = totals.find((row) => row.type === 'usage')?.total ?? 0;
+        const topUps = totals.find((row) => row.type === 'topup')?.total ?? 0;
+
+        return {
+            periodStart: start,
+            periodEnd: end,
+            allowance: monthlyAllowance,
+            topUps,
+            spent,
+            remaining: monthlyAllowance + topUps - spent,
+            enforced,
+        };
+    }
+
+    /**
+     * Record the cost of one inference call
+     */
+    async recordUsage(data: RecordCreditUsageData): Promise<void> {
+        await this.database
+            .insert(schema.creditTransactions)
+            .values({
+                id: generateId(),
+                userId: data.userId,
+                type: 'usage',
+                amount: data.amount,
+                appId: data.appId,
+                model: data.model,
+                actionKey: data.actionKey,
+                createdAt: new Date(),
+            });
+    }
+
+    /**
+     * Grant extra credits for the current period
+     */
+    async addTopUp(userId: string, amount: number, createdBy: string, note?: string | null): Promise<schema.CreditTransaction> {
+        const [transaction] = await this.database
+            .insert(schema.creditTransactions)
+            .values({
+                id: generateId(),
+                userId,
+                type: 'topup',
+                amount,
+                note: note ?? null,
+                createdBy,
+                createdAt: new Date(),
+            })
+            .returning();
+        return transaction;
+    }
+
+    /**
+     * Top-ups granted to a user, newest first
+     */
+    async getTopUps(userId: string, limit = 20): Promise<schema.CreditTransaction[]> {
+        return await this.getReadDb('fresh')
+            .select()
+            .from(schema.creditTransactions)
+            .where(and(
+                eq(schema.creditTransactions.userId, userId),
+                eq(schema.creditTransactions.type, 'topup')
+            ))
+            .orderBy(desc(schema.creditTransactions.createdAt))
+            .limit(limit)
+            .all();
+    }
+
+    /**
+     * Current period spend grouped by model, agent action and app
+     */
+    async getUsageBreakdown(userId: string): Promise<CreditUsageBreakdown> {
+        const { start, end } = getCreditPeriod();
+        const where = and(
+            this.periodConditions(userId, start, end),
+            eq(schema.creditTransactions.type, 'usage')
+        );
+
+        const [byModel, byAction, byApp] = await Promise.all([
+            this.groupSpend(schema.creditTransactions.model, where),
+            this.groupSpend(schema.creditTransactions.actionKey, where),
+            this.getReadDb('fresh')
+                .select({
+                    key: sql<string>`COALESCE(${schema.creditTransactions.appId}, 'unknown')`,
+                    label: sql<string>`COALESCE(${schema.apps.title}, ${schema.creditTransactions.appId}, 'Unknown')`,
+                    credits: sql<number>`SUM(${schema.creditTransactions.amount})`,
+                    calls: sql<number>`COUNT(*)`,
+                })
+                .from(schema.creditTransactions)
+                .leftJoin(schema.apps, eq(schema.apps.id, schema.creditTransactions.appId))
+                .where(where)
+                .groupBy(schema.creditTransactions.appId)
+                .orderBy(desc(sql`SUM(${schema.creditTransactions.amount})`))
+                .all(),
+        ]);
+
+        return { byModel, byAction, byApp };
+    }
+
+    private async groupSpend(column: AnySQLiteColumn, where: SQL | undefined): Promise<CreditSpendEntry[]> {
+        return await this.getReadDb('fresh')
+            .select({
+                key: sql<string>`COALESCE(${column}, 'unknown')`,
+                label: sql<string>`COALESCE(${column}, 'unknown')`,
+                credits: sql<number>`SUM(${schema.creditTransactions.amount})`,
+                calls: sql<number>`COUNT(*)`,
+            })
+            .from(schema.creditTransactions)
+            .where(where)
+            .groupBy(column)
+            .orderBy(desc(sql`SUM(${schema.creditTransactions.amount})`))
+            .all();
+    }
+
+    private periodConditions(userId: string, start: Date, end: Date): SQL | undefined {
+        return and(
+            eq(schema.creditTransactions.userId, userId),
+            gte(schema.creditTransactions.createdAt, start),
+            lt(schema.creditTransactions.createdAt, end)
+        );
+    }
+}
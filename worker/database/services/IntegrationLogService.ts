@@ -0,0 +1,39 @@
+/**
+ * Integration Log Service
+ * Records calls made through the integration proxy
+ */
+
+import { BaseService } from './BaseService';
+import * as schema from '../schema';
+import { eq, desc } from 'drizzle-orm';
+import { generateId } from '../../utils/idGenerator';
+
+export type LogIntegrationRequestData = Omit<schema.NewIntegrationRequestLog, 'id' | 'createdAt'>;
+
+export class IntegrationLogService extends BaseService {
+    /**
+     * Record a proxied call
+     */
+    async logRequest(data: LogIntegrationRequestData): Promise<void> {
+        await this.database
+            .insert(schema.integrationRequestLogs)
+            .values({
+                id: generateId(),
+                ...data,
+                createdAt: new Date()
+            });
+    }
+
+    /**
+     * Get the most recent proxied calls of an app
+     */
+    async getAppLogs(appId: string, limit = 100): Promise<schema.IntegrationRequestLog[]> {
+        return await this.getReadDb('fresh')
+            .select()
+            .from(schema.integrationRequestLogs)
+            .where(eq(schema.integrationRequestLogs.appId, appId))
+            .orderBy(desc(schema.integrationRequestLogs.createdAt))
+            .limit(limit)
+            .all();
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * MCP Server Service
+ */
+
+import { BaseService } from './BaseService';
+import * as schema from '../schema';
+import { eq, and } from 'drizzle-orm';
+import { generateId } from '../../utils/idGenerator';
+import type { MCPTransport } from '../../agents/tools/types';
+
+export interface CreateMcpServerData {
+    name: string;
+    url: string;
+    transport: MCPTransport;
+    headers?: Record<string, string>;
+    allowedTools?: string[] | null;
+}
+
+export interface UpdateMcpServerData {
+    name?: string;
+    url?: string;
+    transport?: MCPTransport;
+    headers?: Record<string, string>;
+    allowedTools?: string[] | null;
+    isActive?: boolean;
+}
+
+export class McpServerService extends BaseService {
+    /**
+     * Check if a server name is taken for the user
+     */
+    async serverExists(userId: string, name: string, excludeId?: string): Promise<boolean> {
+        const existing = await this.database
+            .select({ id: schema.userMcpServers.id })
+            .from(schema.userMcpServers)
+            .where(
+                and(
+                    eq(schema.userMcpServers.userId, userId),
+                    eq(schema.userMcpServers.name, name)
+                )
+            )
+            .get();
+
+        return !!existing && existing.id !== excludeId;
+    }
+
+    /**
+     * Get all MCP servers for a user
+     */
+    async getUserServers(userId: string, activeOnly = false): Promise<schema.UserMcpServer[]> {
+        const whereConditions = [
+            eq(schema.userMcpServers.userId, userId),
+            activeOnly ? eq(schema.userMcpServers.isActive, true) : undefined,
+        ];
+
+        return await this.getReadDb('fresh')
+            .select()
+            .from(schema.userMcpServers)
+            .where(this.buildWhereConditions(whereConditions))
+            .all();
+    }
+
+    /**
+     * Get a specific server by ID
+     */
+    async getServer(userId: string, serverId: string): Promise<schema.UserMcpServer | null> {
+        const server = await this.database
+            .select()
+            .from(schema.userMcpServers)
+            .where(
+                and(
+                    eq(schema.userMcpServers.id, serverId),
+                    eq(schema.userMcpServers.userId, userId)
+                )
+            )
+            .get();
+
+        return server || null;
+    }
+
+    /**
+     * Create a new MCP server
+     */
+    async createServer(userId: string, data: CreateMcpServerData): Promise<schema.UserMcpServer> {
+        const [created] = await this.database
+            .insert(schema.userMcpServers)
+            .values({
+                id: generateId(),
+                userId,
+                name: data.name,
+                url: data.url,
+                transport: data.transport,
+                headers: data.headers ?? {},
+                allowedTools: data.allowedTools ?? null,
+                isActive: true,
+                createdAt: new Date(),
+                updatedAt: new Date()
+            })
+            .returning();
+
+        return created;
+    }
+
+    /**
+     * Update an MCP server
+     */
+    async updateServer(
+        userId: string,
+        serverId: string,
+        data: UpdateMcpServerData
+    ): Promise<schema.UserMcpServer | null> {
+        const [updated] = await this.database
+            .update(schema.userMcpServers)
+            .set({
+                ...data,
+                updatedAt: new Date()
+            })
+            .where(
+                and(
+                    eq(schema.userMcpServers.id, serverId),
+                    eq(schema.userMcpServers.userId, userId)
+                )
+            )
+            .returning();
+
+        return updated || null;
+    }
+
+    /**
+     * Delete an MCP server
+     */
+    async deleteServer(userId: string, serverId: string): Promise<boolean> {
+        const result = await this.database
+            .delete(schema.userMcpServers)
+            .where(
+                and(
+                    eq(schema.userMcpServers.id, serverId),
+                    eq(schema.userMcpServers.userId, userId)
+                )
+            )
+            .returning({ id: schema.userMcpServers.id });
+
+        return result.length > 0;
+    }
+}
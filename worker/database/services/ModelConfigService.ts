@@ -72,6 +72,7 @@ export class ModelConfigService extends BaseService {
 			temperature: userConfig.temperature !== null ? userConfig.temperature : defaultConfig.temperature,
 			reasoning_effort: this.castToReasoningEffort(userConfig.reasoningEffort) ?? defaultConfig.reasoning_effort,
 			fallbackModel: toAIModel(userConfig.fallbackModel) ?? defaultConfig.fallbackModel,
+			stream_format: userConfig.streamFormat ?? defaultConfig.stream_format,
 			isUserOverride: true,
 			userConfigId: userConfig.id
 		};
@@ -177,7 +178,7 @@ export class ModelConfigService extends BaseService {
 		// Check if user has actual overrides (any non-null value)
 		const hasOverrides = config.modelName || config.maxTokens ||
 			config.temperature !== null || config.reasoningEffort ||
-			config.fallbackModel;
+			config.fallbackModel || config.streamFormat;
 
 		if (!hasOverrides) {
 			return null;
@@ -202,7 +203,8 @@ export class ModelConfigService extends BaseService {
 			max_tokens: mergedConfig.max_tokens,
 			temperature: mergedConfig.temperature,
 			reasoning_effort: mergedConfig.reasoning_effort,
-			fallbackModel: validFallback
+			fallbackModel: validFallback,
+			stream_format: mergedConfig.stream_format
 		};
 	}
 
@@ -287,6 +289,7 @@ export class ModelConfigService extends BaseService {
 			temperature: config.temperature !== undefined ? config.temperature : null,
 			reasoningEffort: (config.reasoning_effort && config.reasoning_effort !== 'minimal') ? config.reasoning_effort : null,
 			fallbackModel: config.fallbackModel ?? null,
+			streamFormat: config.stream_format ?? null,
 			isActive: true,
 			updatedAt: new Date()
 		};
@@ -32,16 +32,28 @@ export interface ProjectSessionState {
     unsavedChanges?: boolean;
 }
 
+export type FileEditType = schema.FileEdit['editType'];
+
 export interface RecordFileEditInput {
     projectId: string;
     filePath: string;
     userId: string;
-    editType: 'user' | 'ai';
+    editType: FileEditType;
     contentBefore?: string;
     contentAfter?: string;
     commitHash?: string;
 }
 
+export interface FileEditHistoryOptions {
+    filePath?: string;
+    editType?: FileEditType;
+    limit?: number;
+    offset?: number;
+}
+
+// Keeps multi-row inserts under D1's bound parameter limit
+const FILE_EDIT_INSERT_BATCH_SIZE = 10;
+
 export class ProjectService extends BaseService {
     // ========================================
     // PROJECT OPERATIONS
@@ -121,9 +133,9 @@ export class ProjectService extends BaseService {
     /**
      * Get project by app ID
      */
-    async getProjectByAppId(appId: string, userId: string): Promise<schema.Project | null> {
+    async getProjectByAppId(appId: string, userId: string, strategy: 'fast' | 'fresh' = 'fast'): Promise<schema.Project | null> {
         try {
-            const readDb = this.getReadDb('fast');
+            const readDb = this.getReadDb(strategy);
             const [project] = await readDb
                 .select()
                 .from(schema.projects)
@@ -160,6 +172,26 @@ export class ProjectService extends BaseService {
         }
     }
 
+    /**
+     * Get the project for an app, creating it on first use
+     */
+    async ensureProjectForApp(appId: string, userId: string, name: string): Promise<schema.Project> {
+        const existing = await this.getProjectByAppId(appId, userId, 'fresh');
+        if (existing) {
+            return existing;
+        }
+        try {
+            return await this.createProject({ userId, appId, name });
+        } catch (error) {
+            // Another request created it first, app_id is unique
+            const created = await this.getProjectByAppId(appId, userId, 'fresh');
+            if (created) {
+                return created;
+            }
+            throw error;
+        }
+    }
+
     /**
      * Update project
      */
@@ -277,9 +309,9 @@ export class ProjectService extends BaseService {
                 const [session] = await this.database
                     .update(schema.projectSessions)
                     .set({
-                        openFiles: state.openFiles ? JSON.stringify(state.openFiles) : existing.openFiles,
+                        openFiles: state.openFiles ?? existing.openFiles,
                         activeFile: state.activeFile !== undefined ? state.activeFile : existing.activeFile,
-                        cursorPosition: state.cursorPosition ? JSON.stringify(state.cursorPosition) : existing.cursorPosition,
+                        cursorPosition: state.cursorPosition ?? existing.cursorPosition,
                         scrollPosition: state.scrollPosition !== undefined ? state.scrollPosition : existing.scrollPosition,
                         unsavedChanges: state.unsavedChanges !== undefined ? state.unsavedChanges : existing.unsavedChanges,
                         lastSavedAt: state.unsavedChanges === false ? now : existing.lastSavedAt,
@@ -297,9 +329,9 @@ export class ProjectService extends BaseService {
                     .values({
                         id: sessionId,
                         projectId,
-                        openFiles: state.openFiles ? JSON.stringify(state.openFiles) : JSON.stringify([]),
+                        openFiles: state.openFiles ?? [],
                         activeFile: state.activeFile || null,
-                        cursorPosition: state.cursorPosition ? JSON.stringify(state.cursorPosition) : null,
+                        cursorPosition: state.cursorPosition ?? null,
                         scrollPosition: state.scrollPosition || null,
                         unsavedChanges: state.unsavedChanges || false,
                         lastSavedAt: null,
@@ -347,33 +379,59 @@ export class ProjectService extends BaseService {
     }
 
     /**
-     * Get file edit history for a project
+     * Record several file edits at once, e.g. all files of a commit
+     */
+    async recordFileEdits(inputs: RecordFileEditInput[]): Promise<void> {
+        try {
+            const now = new Date();
+            for (let i = 0; i < inputs.length; i += FILE_EDIT_INSERT_BATCH_SIZE) {
+                const batch = inputs.slice(i, i + FILE_EDIT_INSERT_BATCH_SIZE);
+                await this.database
+                    .insert(schema.fileEdits)
+                    .values(batch.map((input) => ({
+                        id: generateId(),
+                        projectId: input.projectId,
+                        filePath: input.filePath,
+                        userId: input.userId,
+                        editType: input.editType,
+                        contentBefore: input.contentBefore,
+                        contentAfter: input.contentAfter,
+                        commitHash: input.commitHash,
+                        createdAt: now,
+                    })));
+            }
+        } catch (error) {
+            return this.handleDatabaseError(error, 'recordFileEdits', { count: inputs.length });
+        }
+    }
+
+    /**
+     * Get file edit history for a project, newest first
      */
     async getFileEditHistory(
         projectId: string,
-        filePath?: string,
-        limit = 50
+        options: FileEditHistoryOptions = {}
     ): Promise<schema.FileEdit[]> {
+        const { filePath, editType, limit = 50, offset = 0 } = options;
         try {
-            const readDb = this.getReadDb('fast');
-            const conditions = [eq(schema.fileEdits.projectId, projectId)];
-
-            if (filePath) {
-                conditions.push(eq(schema.fileEdits.filePath, filePath));
-            }
-
-            const whereClause = this.buildWhereConditions(conditions);
+            const readDb = this.getReadDb('fresh');
+            const whereClause = this.buildWhereConditions([
+                eq(schema.fileEdits.projectId, projectId),
+                filePath ? eq(schema.fileEdits.filePath, filePath) : undefined,
+                editType ? eq(schema.fileEdits.editType, editType) : undefined,
+            ]);
 
             const edits = await readDb
                 .select()
                 .from(schema.fileEdits)
                 .where(whereClause)
                 .orderBy(desc(schema.fileEdits.createdAt))
-                .limit(limit);
+                .limit(limit)
+                .offset(offset);
 
             return edits;
         } catch (error) {
-            return this.handleDatabaseError(error, 'getFileEditHistory', { projectId, filePath, limit });
+            return this.handleDatabaseError(error, 'getFileEditHistory', { projectId, options });
         }
     }
 
@@ -0,0 +1,73 @@
+/**
+ * System Settings Service
+ * Instance-wide key/value settings managed by admins
+ */
+
+import { BaseService } from './BaseService';
+import * as schema from '../schema';
+import { eq, asc } from 'drizzle-orm';
+import { generateId } from '../../utils/idGenerator';
+
+export class SystemSettingsService extends BaseService {
+    /**
+     * Get all settings ordered by key
+     */
+    async getAll(): Promise<schema.SystemSetting[]> {
+        return await this.getReadDb('fresh')
+            .select()
+            .from(schema.systemSettings)
+            .orderBy(asc(schema.systemSettings.key))
+            .all();
+    }
+
+    /**
+     * Get a single setting
+     */
+    async get(key: string): Promise<schema.SystemSetting | null> {
+        const setting = await this.getReadDb('fresh')
+            .select()
+            .from(schema.systemSettings)
+            .where(eq(schema.systemSettings.key, key))
+            .get();
+        return setting ?? null;
+    }
+
+    /**
+     * Create or update a setting
+     */
+    async set(key: string, value: unknown, updatedBy: string, description?: string | null): Promise<schema.SystemSetting> {
+        const now = new Date();
+        const [setting] = await this.database
+            .insert(schema.systemSettings)
+            .values({
+                id: generateId(),
+                key,
+                value,
+                description: description ?? null,
+                updatedAt: now,
+                updatedBy,
+            })
+            .onConflictDoUpdate({
+                target: schema.systemSettings.key,
+                set: {
+                    value,
+                    ...(description !== undefined ? { description } : {}),
+                    updatedAt: now,
+                    updatedBy,
+                },
+            })
+            .returning();
+        return setting;
+    }
+
+    /**
+     * Delete a setting, returns false when it did not exist
+     */
+    async delete(key: string): Promise<boolean> {
+        const deleted = await this.database
+            .delete(schema.systemSettings)
+            .where(eq(schema.systemSettings.key, key))
+            .returning({ id: schema.systemSettings.id });
+        return deleted.length > 0;
+    }
+}
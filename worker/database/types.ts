@@ -33,6 +33,7 @@ export interface EnhancedAppData extends schema.App {
     viewCount?: number;
     forkCount?: number;
     likeCount?: number;
+    parentAppTitle?: string | null; // Title of the app this was forked from, only when that app is public
 }
 
 /**
@@ -79,7 +80,7 @@ export type TimePeriod = 'today' | 'week' | 'month' | 'all';
 /**
  * Sort options for app listings
  */
-export type AppSortOption = 'recent' | 'popular' | 'trending' | 'starred';
+export type AppSortOption = 'recent' | 'popular' | 'trending' | 'starred' | 'featured';
 
 /**
  * Sort order options
@@ -175,6 +176,49 @@ export interface UserActivity {
     metadata: Record<string, unknown>;
 }
 
+// ========================================
+// COMMENT TYPES
+// ========================================
+
+/**
+ * App comment with author info, like stats and nested replies.
+ * Deleted comments keep their place in the thread with empty content and no author.
+ */
+export interface CommentWithStats extends Omit<schema.AppComment, 'userId'> {
+    userId: string | null;
+    userName: string | null;
+    userAvatar: string | null;
+    likeCount: number;
+    userLiked: boolean;
+    replies: CommentWithStats[];
+}
+
+/**
+ * Comment like toggle operation result
+ */
+export interface CommentLikeToggleResult {
+    isLiked: boolean;
+    likeCount: number;
+}
+
+// ========================================
+// COLLABORATOR TYPES
+// ========================================
+
+/**
+ * Access level a user has on an app's agent session
+ */
+export type AppAccessRole = 'owner' | schema.AppCollaborator['role'];
+
+/**
+ * App collaborator with the invited user's profile
+ */
+export interface CollaboratorWithUser extends schema.AppCollaborator {
+    email: string;
+    displayName: string | null;
+    avatarUrl: string | null;
+}
+
 // ========================================
 // ANALYTICS AND STATISTICS
 // ========================================
@@ -220,6 +264,68 @@ export interface UserModelConfigWithMetadata extends ModelConfig {
     userConfigId?: string;
 }
 
+// ========================================
+// ADMIN TYPES
+// ========================================
+
+/**
+ * User row as listed in the admin console
+ */
+export type AdminUserSummary = Pick<
+    schema.User,
+    'id' | 'email' | 'displayName' | 'username' | 'provider' | 'role' | 'isSuspended' | 'createdAt' | 'lastActiveAt'
+> & { appCount: number };
+
+/**
+ * App row as listed in the admin console
+ */
+export type AdminAppSummary = Pick<
+    schema.App,
+    'id' | 'title' | 'userId' | 'visibility' | 'status' | 'isFeatured' | 'createdAt' | 'updatedAt'
+> & { ownerEmail: string | null };
+
+/**
+ * Audit log entry with the acting user's email
+ */
+export type AuditLogWithActor = schema.AuditLog & { actorEmail: string | null };
+
+// ========================================
+// CREDIT TYPES
+// ========================================
+
+/**
+ * A user's credits for the current monthly period (UTC calendar month)
+ */
+export interface CreditBalance {
+    periodStart: Date;
+    periodEnd: Date;
+    allowance: number;
+    topUps: number;
+    spent: number;
+    remaining: number;
+    /** False when budgets are not enforced on this platform */
+    enforced: boolean;
+}
+
+/**
+ * Spend grouped by one dimension (model, agent action or app)
+ */
+export interface CreditSpendEntry {
+    key: string;
+    label: string;
+    credits: number;
+    calls: number;
+}
+
+/**
+ * Spend breakdown shown on the usage page
+ */
+export interface CreditUsageBreakdown {
+    byModel: CreditSpendEntry[];
+    byAction: CreditSpendEntry[];
+    byApp: CreditSpendEntry[];
+}
+
 // ========================================
 // TESTING AND VALIDATION TYPES
 // ========================================
@@ -8,6 +8,7 @@ import { getPreviewDomain } from './utils/urls';
 import { proxyToAiGateway } from './services/aigateway-proxy/controller';
 import { isOriginAllowed } from './config/security';
 import { proxyToSandbox } from './services/sandbox/request-handler';
+import { proxyToWorkerRuntime } from './services/sandbox/workerLoaderService';
 import { handleGitProtocolRequest, isGitProtocolRequest } from './api/handlers/git-protocol';
 import { getAgentStub } from './agents';
 
@@ -15,6 +16,7 @@ import { getAgentStub } from './agents';
 export { UserAppSandboxService } from './services/sandbox/sandboxSdkClient';
 export { CodeGeneratorAgent } from './agents/core/codingAgent';
 export { UserSecretsStore } from './services/secrets/UserSecretsStore';
+export { UserAppWorkerRuntime } from './services/sandbox/workerRuntime';
 
 // export const CodeGeneratorAgent = Sentry.instrumentDurableObjectWithSentry(sentryOptions, CodeGeneratorAgent);
 // export const DORateLimitStore = Sentry.instrumentDurableObjectWithSentry(sentryOptions, BaseDORateLimitStore);
@@ -69,6 +71,23 @@ async function handleUserAppRequest(request: Request, env: Env): Promise<Respons
 		}
 	}
 
+	// Backend-only previews running on the worker runtime
+	// Pattern: w-{instanceId}-{token}.{previewDomain}
+	const workerRuntimeResponse = await proxyToWorkerRuntime(request, env);
+	if (workerRuntimeResponse) {
+		let headers = new Headers(workerRuntimeResponse.headers);
+		headers.set('X-Preview-Type', workerRuntimeResponse.status === 500 ? 'worker-error' : 'worker');
+		headers = setOriginControl(env, request, headers);
+		headers.append('Vary', 'Origin');
+		headers.set('Access-Control-Expose-Headers', 'X-Preview-Type');
+
+		return new Response(workerRuntimeResponse.body, {
+			status: workerRuntimeResponse.status,
+			statusText: workerRuntimeResponse.statusText,
+			headers,
+		});
+	}
+
 	// 1. Attempt to proxy to a live development sandbox.
 	// proxyToSandbox doesn't consume the request body on a miss, so no clone is needed here.
 	const sandboxResponse = await proxyToSandbox(request, env);
@@ -171,7 +190,7 @@ const worker = {
 		// Route 1: Main Platform Request (e.g., build.cloudflare.dev or localhost)
 		if (isMainDomainRequest) {
 			// Handle Git protocol endpoints directly
-			// Route: /apps/:id.git/info/refs or /apps/:id.git/git-upload-pack
+			// Route: /apps/:id.git/info/refs, /apps/:id.git/git-upload-pack or /apps/:id.git/git-receive-pack
 			if (isGitProtocolRequest(pathname)) {
 				return handleGitProtocolRequest(request, env, ctx);
 			}
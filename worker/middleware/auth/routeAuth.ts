@@ -3,9 +3,9 @@
  */
 
 import { createMiddleware } from 'hono/factory';
-import { AuthUser } from '../../types/auth-types';
+import { ApiKeyScope, AuthUser } from '../../types/auth-types';
 import { createLogger } from '../../logger';
-import { AppService } from '../../database';
+import { AppService, CollaboratorService } from '../../database';
 import { authMiddleware } from './auth';
 import { RateLimitService } from '../../services/rate-limit/rateLimits';
 import { errorResponse } from '../../api/responses';
@@ -15,20 +15,21 @@ import { RateLimitExceededError } from 'shared/types/errors';
 import * as Sentry from '@sentry/cloudflare';
 import { getUserConfigurableSettings } from 'worker/config';
 import { authenticateViaTicket, hasTicketParam } from './ticketAuth';
+import { hasApiKeyScope } from '../../utils/apiKeyScopes';
 
 const logger = createLogger('RouteAuth');
 
 /**
  * Authentication levels for route protection
  */
-export type AuthLevel = 'public' | 'authenticated' | 'owner-only';
+export type AuthLevel = 'public' | 'authenticated' | 'owner-only' | 'admin';
 
 /**
  * Authentication requirement configuration
  */
 export interface AuthRequirement {
     required: boolean;
-    level: 'public' | 'authenticated' | 'owner-only';
+    level: AuthLevel;
     resourceOwnershipCheck?: (user: AuthUser, params: Record<string, string>, env: Env) => Promise<boolean>;
 }
 
@@ -50,6 +51,11 @@ export interface TicketAuthConfig {
 export interface AuthLevelOptions {
     /** Ticket-based authentication configuration */
     ticketAuth?: TicketAuthConfig;
+    /**
+     * API key scope (or any of several) that grants access to this route.
+     * Sessions from scoped API keys are rejected on routes without one.
+     */
+    apiKeyScope?: ApiKeyScope | readonly ApiKeyScope[];
 }
 
 /**
@@ -75,6 +81,19 @@ export const AuthConfig = {
         resourceOwnershipCheck: checkAppOwnership
     },
     
+    // Require ownership or an invited collaborator role (for shared agent sessions)
+    collaborator: {
+        required: true,
+        level: 'owner-only' as const,
+        resourceOwnershipCheck: checkAppAccess
+    },
+    
+    // Require the admin role (instance operators)
+    adminOnly: {
+        required: true,
+        level: 'admin' as const
+    },
+    
     // Public read access, but owner required for modifications
     publicReadOwnerWrite: { 
         required: false 
@@ -136,6 +155,22 @@ export async function routeAuthChecks(
             return { success: true };
         }
 
+        // For admin routes
+        if (requirement.level === 'admin') {
+            if (!user) {
+                return {
+                    success: false,
+                    response: createAuthRequiredResponse()
+                };
+            }
+
+            const isAdmin = user.role === 'admin';
+            return {
+                success: isAdmin,
+                response: isAdmin ? undefined : createForbiddenResponse('Admin access required')
+            };
+        }
+
         // Default fallback
         return { success: true };
     } catch (error) {
@@ -168,7 +203,7 @@ export async function enforceAuthRequirement(c: Context<AppEnv>) : Promise<Respo
     }
     
     // Only perform auth if we need it or don't have user yet
-    if (!user && (requirement.level === 'authenticated' || requirement.level === 'owner-only')) {
+    if (!user && (requirement.level === 'authenticated' || requirement.level === 'owner-only' || requirement.level === 'admin')) {
         const request = c.req.raw;
         const env = c.env;
         const params = c.req.param();
@@ -180,6 +215,7 @@ export async function enforceAuthRequirement(c: Context<AppEnv>) : Promise<Respo
                 user = ticketAuth.user;
                 c.set('user', user);
                 c.set('sessionId', ticketAuth.sessionId);
+                c.set('apiKeyScopes', ticketAuth.apiKeyScopes);
                 Sentry.setUser({ id: user.id, email: user.email });
                 
                 const config = await getUserConfigurableSettings(c.env, user.id);
@@ -202,6 +238,7 @@ export async function enforceAuthRequirement(c: Context<AppEnv>) : Promise<Respo
             user = userSession.user;
             c.set('user', user);
             c.set('sessionId', userSession.sessionId);
+            c.set('apiKeyScopes', userSession.apiKeyScopes);
             Sentry.setUser({ id: user.id, email: user.email });
 
             const config = await getUserConfigurableSettings(c.env, user.id);
@@ -221,6 +258,14 @@ export async function enforceAuthRequirement(c: Context<AppEnv>) : Promise<Respo
     
     const params = c.req.param();
     const env = c.env;
+
+    // Scoped API key sessions only reach routes that opt in to one of their scopes
+    const apiKeyScopes = c.get('apiKeyScopes');
+    if (user && apiKeyScopes && !hasApiKeyScope(apiKeyScopes, authOptions?.apiKeyScope, params.agentId || params.id)) {
+        logger.warn('API key scope check failed', { userId: user.id, required: authOptions?.apiKeyScope, path: c.req.path });
+        return createForbiddenResponse('This API key is not allowed to access this resource');
+    }
+
     const result = await routeAuthChecks(user, env, requirement, params);
     if (!result.success) {
         logger.warn('Authentication check failed', result.response, requirement, user);
@@ -292,4 +337,23 @@ export async function checkAppOwnership(user: AuthUser, params: Record<string, s
         logger.error('Error checking app ownership', error);
         return false;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Check if user owns or collaborates on an app by agent/app ID
+ */
+export async function checkAppAccess(user: AuthUser, params: Record<string, string>, env: Env): Promise<boolean> {
+    try {
+        const agentId = params.agentId || params.id;
+        if (!agentId) {
+            return false;
+        }
+
+        const collaboratorService = new CollaboratorService(env);
+        const role = await collaboratorService.getAppRole(agentId, user.id);
+        return role !== null;
+    } catch (error) {
+        logger.error('Error checking app access', error);
+        return false;
+    }
+}
@@ -162,7 +162,7 @@ export async function authenticateViaTicket(
 			userId: result.user.id,
 		});
 
-		return { user: result.user, sessionId: result.sessionId };
+		return { user: result.user, sessionId: result.sessionId, apiKeyScopes: result.apiKeyScopes };
 	} catch (error) {
 		logger.error('Ticket authentication error', { resourceType: config.resourceType, resourceId, error });
 		return null;
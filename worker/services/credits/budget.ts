@@ -0,0 +1,74 @@
+/**
+ * Credit budget checks around inference calls
+ */
+
+import { CreditBudgetExceededError } from 'shared/types/errors';
+import { CreditService } from '../../database/services/CreditService';
+import { AI_MODEL_CONFIG, AIModels } from '../../agents/inferutils/config.types';
+import { createLogger } from '../../logger';
+import type { CreditSettings } from './config';
+
+const logger = createLogger('CreditBudget');
+
+export function getModelCreditCost(model: AIModels | string): number {
+    return AI_MODEL_CONFIG[model as AIModels]?.creditCost ?? 0;
+}
+
+/**
+ * Throw when the next call to the model would go past the user's budget.
+ * Ledger failures are logged and never block inference.
+ */
+export async function enforceCreditBudget(
+    env: Env,
+    settings: CreditSettings,
+    userId: string,
+    model: AIModels | string
+): Promise<void> {
+    if (!settings.enabled) {
+        return;
+    }
+
+    const cost = getModelCreditCost(model);
+    if (cost <= 0) {
+        return;
+    }
+
+    let balance;
+    try {
+        balance = await new CreditService(env).getBalance(userId, settings.monthlyAllowance, true);
+    } catch (error) {
+        logger.error('Failed to load credit balance', { userId, error });
+        return;
+    }
+
+    if (balance.remaining < cost) {
+        logger.warn('Credit budget exhausted', { userId, model, cost, remaining: balance.remaining });
+        throw new CreditBudgetExceededError(
+            `Credit budget exhausted. You have used ${Math.round(balance.spent)} of ${balance.allowance + balance.topUps} credits this month.`,
+            balance,
+            [
+                `The current model costs ${cost} credits per call, switch to a cheaper model in settings.`,
+                `Your allowance resets on ${balance.periodEnd.toISOString().slice(0, 10)}, or ask an admin for a top-up to continue now.`,
+            ]
+        );
+    }
+}
+
+/**
+ * Add one inference call to the ledger
+ */
+export async function recordCreditUsage(
+    env: Env,
+    usage: { userId: string; appId: string | null; model: AIModels | string; actionKey: string | null }
+): Promise<void> {
+    const amount = getModelCreditCost(usage.model);
+    if (amount <= 0) {
+        return;
+    }
+
+    try {
+        await new CreditService(env).recordUsage({ ...usage, amount });
+    } catch (error) {
+        logger.error('Failed to record credit usage', { userId: usage.userId, model: usage.model, error });
+    }
+}
@@ -0,0 +1,11 @@
+export interface CreditSettings {
+    /** When false spend is still recorded, but inference is never blocked */
+    enabled: boolean;
+    /** Credits every user gets per calendar month (UTC), on top of admin top-ups */
+    monthlyAllowance: number;
+}
+
+export const DEFAULT_CREDIT_SETTINGS: CreditSettings = {
+    enabled: true,
+    monthlyAllowance: 20000,
+};
@@ -114,7 +114,7 @@ export class CsrfService {
         if (apiKeyHeader) {
             return true;
         }
-        // Skip for Agency mode preview token (used by preview apps calling Plaid proxy)
+        // Skip for Agency mode preview token (used by preview apps calling the integration proxy)
         const previewToken = request.headers.get('X-Preview-Token');
         if (previewToken) {
             return true;
@@ -294,6 +294,77 @@ export class CloudflareAPI {
 		console.log(`✅ Worker deployed successfully: ${scriptName}`);
 	}
 
+	/**
+	 * List the accounts the token can access
+	 * Used to infer the account when only an API token is supplied
+	 */
+	static async listAccounts(
+		apiToken: string,
+	): Promise<Array<{ id: string; name: string }>> {
+		const response = await fetch(
+			'https://api.cloudflare.com/client/v4/accounts?per_page=50',
+			{ headers: { Authorization: `Bearer ${apiToken}` } },
+		);
+
+		if (!response.ok) {
+			const error = await response.text();
+			throw new Error(
+				`Failed to list accounts: ${response.status} - ${error}`,
+			);
+		}
+
+		const data = (await response.json()) as {
+			result?: Array<{ id: string; name: string }>;
+		};
+		return data.result ?? [];
+	}
+
+	/**
+	 * Get the account's workers.dev subdomain, or null if none is registered
+	 */
+	async getWorkersSubdomain(): Promise<string | null> {
+		const response = await fetch(
+			`${this.baseUrl}/accounts/${this.accountId}/workers/subdomain`,
+			{ headers: this.getHeaders() },
+		);
+
+		if (response.status === 404) {
+			return null;
+		}
+		if (!response.ok) {
+			const error = await response.text();
+			throw new Error(
+				`Failed to read workers.dev subdomain: ${response.status} - ${error}`,
+			);
+		}
+
+		const data = (await response.json()) as {
+			result?: { subdomain?: string };
+		};
+		return data.result?.subdomain || null;
+	}
+
+	/**
+	 * Serve a deployed Worker on the account's workers.dev subdomain
+	 */
+	async enableWorkersDev(scriptName: string): Promise<void> {
+		const response = await fetch(
+			`${this.baseUrl}/accounts/${this.accountId}/workers/scripts/${scriptName}/subdomain`,
+			{
+				method: 'POST',
+				headers: this.getHeaders('application/json'),
+				body: JSON.stringify({ enabled: true }),
+			},
+		);
+
+		if (!response.ok) {
+			const error = await response.text();
+			throw new Error(
+				`Failed to enable workers.dev route: ${response.status} - ${error}`,
+			);
+		}
+	}
+
 	/**
 	 * Test a deployed Worker by making a request to its endpoint
 	 */
@@ -0,0 +1,16 @@
+import { createLogger } from '../../logger';
+import type { EmailMessage, EmailTransport } from './types';
+
+const logger = createLogger('ConsoleEmailTransport');
+
+/**
+ * Development stand-in that writes messages to the worker log instead of
+ * sending them. Never use it in production, the log would contain live links.
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+    readonly name = 'console';
+
+    async send(message: EmailMessage): Promise<void> {
+        logger.info(`Email to ${message.to}: ${message.subject}\n\n${message.text}`);
+    }
+}
@@ -0,0 +1,16 @@
+import { isDev } from '../../utils/envs';
+import { ConsoleEmailTransport } from './ConsoleEmailTransport';
+import type { EmailTransport } from './types';
+
+export type { EmailMessage, EmailTransport } from './types';
+export { ConsoleEmailTransport } from './ConsoleEmailTransport';
+
+/**
+ * Get the email transport for this environment, null when none is configured
+ */
+export function createEmailTransport(env: Env): EmailTransport | null {
+    if (isDev(env)) {
+        return new ConsoleEmailTransport();
+    }
+    return null;
+}
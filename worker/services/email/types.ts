@@ -0,0 +1,13 @@
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+/**
+ * Delivers transactional email (password resets, verification codes)
+ */
+export interface EmailTransport {
+    readonly name: string;
+    send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,78 @@
+/**
+ * Thin client for the Cloudflare Browser Rendering REST API.
+ * Used to turn a live preview into exportable artifacts (PDF, slide images).
+ */
+
+export interface Viewport {
+    width: number;
+    height: number;
+}
+
+export const EXPORT_RENDER_CONFIG = {
+    PAGE_LOAD_TIMEOUT: 45000,
+    WAIT_FOR_TIMEOUT: 2000,
+    DEFAULT_VIEWPORT: { width: 1920, height: 1080 } as Viewport,
+} as const;
+
+async function callBrowserRendering(
+    env: Env,
+    endpoint: 'pdf' | 'screenshot',
+    body: Record<string, unknown>,
+): Promise<Uint8Array> {
+    const apiUrl = `https://api.cloudflare.com/client/v4/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/browser-rendering/${endpoint}`;
+
+    const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${env.CLOUDFLARE_API_TOKEN}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+            ...body,
+            gotoOptions: {
+                waitUntil: 'networkidle2',
+                timeout: EXPORT_RENDER_CONFIG.PAGE_LOAD_TIMEOUT,
+            },
+            waitForTimeout: EXPORT_RENDER_CONFIG.WAIT_FOR_TIMEOUT,
+        }),
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Browser Rendering ${endpoint} failed: ${response.status} - ${errorText}`);
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length === 0) {
+        throw new Error(`Browser Rendering ${endpoint} returned an empty document`);
+    }
+    return bytes;
+}
+
+/**
+ * Render a URL to a PDF document.
+ */
+export function renderPdf(env: Env, url: string, viewport: Viewport = EXPORT_RENDER_CONFIG.DEFAULT_VIEWPORT): Promise<Uint8Array> {
+    return callBrowserRendering(env, 'pdf', {
+        url,
+        viewport,
+        pdfOptions: {
+            printBackground: true,
+            preferCSSPageSize: true,
+        },
+    });
+}
+
+/**
+ * Render a URL to a PNG screenshot of the visible viewport.
+ */
+export function renderScreenshot(env: Env, url: string, viewport: Viewport = EXPORT_RENDER_CONFIG.DEFAULT_VIEWPORT): Promise<Uint8Array> {
+    return callBrowserRendering(env, 'screenshot', {
+        url,
+        viewport,
+        screenshotOptions: {
+            fullPage: false,
+            type: 'png',
+        },
+    });
+}
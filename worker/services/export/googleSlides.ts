@@ -0,0 +1,42 @@
+import { PPTX_MIME_TYPE } from './pptx';
+
+const DRIVE_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id,name';
+const GOOGLE_SLIDES_MIME_TYPE = 'application/vnd.google-apps.presentation';
+
+/**
+ * Upload a PPTX to the user's Google Drive, letting Drive convert it to Google Slides.
+ * Requires an OAuth access token with the drive.file scope.
+ */
+export async function uploadPptxToGoogleSlides(
+    accessToken: string,
+    name: string,
+    pptx: Uint8Array,
+): Promise<{ id: string; url: string }> {
+    const form = new FormData();
+    form.append(
+        'metadata',
+        new Blob([JSON.stringify({ name, mimeType: GOOGLE_SLIDES_MIME_TYPE })], { type: 'application/json; charset=UTF-8' }),
+    );
+    form.append('file', new Blob([pptx], { type: PPTX_MIME_TYPE }), `${name}.pptx`);
+
+    const response = await fetch(DRIVE_UPLOAD_URL, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+        body: form,
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Google Drive upload failed: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json() as { id?: string };
+    if (!result.id) {
+        throw new Error('Google Drive upload succeeded without a file id');
+    }
+
+    return {
+        id: result.id,
+        url: `https://docs.google.com/presentation/d/${result.id}/edit`,
+    };
+}
@@ -0,0 +1,4 @@
+export { renderPdf, renderScreenshot, EXPORT_RENDER_CONFIG, type Viewport } from './browserRendering';
+export { buildPptx, PPTX_MIME_TYPE, type PptxBuildOptions } from './pptx';
+export { storeExportArtifact, getExportKey, getExportDownloadUrl, EXPORTS_PREFIX } from './storage';
+export { uploadPptxToGoogleSlides } from './googleSlides';
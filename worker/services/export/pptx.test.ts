@@ -0,0 +1,45 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { buildPptx } from './pptx';
+
+const FAKE_PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+describe('buildPptx', () => {
+	it('creates one slide part and one media file per image', () => {
+		const archive = unzipSync(buildPptx([FAKE_PNG, FAKE_PNG, FAKE_PNG], { title: 'Deck' }));
+
+		expect(Object.keys(archive)).toEqual(expect.arrayContaining([
+			'[Content_Types].xml',
+			'_rels/.rels',
+			'ppt/presentation.xml',
+			'ppt/slideMasters/slideMaster1.xml',
+			'ppt/slideLayouts/slideLayout1.xml',
+			'ppt/theme/theme1.xml',
+			'ppt/slides/slide3.xml',
+			'ppt/slides/_rels/slide3.xml.rels',
+			'ppt/media/image3.png',
+		]));
+		expect(archive['ppt/slides/slide4.xml']).toBeUndefined();
+		expect(archive['ppt/media/image1.png']).toEqual(FAKE_PNG);
+	});
+
+	it('registers every slide in the presentation and content types', () => {
+		const archive = unzipSync(buildPptx([FAKE_PNG, FAKE_PNG]));
+		const presentation = strFromU8(archive['ppt/presentation.xml']);
+		const contentTypes = strFromU8(archive['[Content_Types].xml']);
+		const rels = strFromU8(archive['ppt/_rels/presentation.xml.rels']);
+
+		expect(presentation.match(/<p:sldId /g)).toHaveLength(2);
+		expect(presentation).toContain('<p:sldSz cx="12192000" cy="6858000"/>');
+		expect(contentTypes).toContain('/ppt/slides/slide2.xml');
+		expect(rels).toContain('Target="slides/slide2.xml"');
+	});
+
+	it('escapes the document title', () => {
+		const archive = unzipSync(buildPptx([FAKE_PNG], { title: 'Q1 <Results> & "Plans"' }));
+		expect(strFromU8(archive['docProps/core.xml'])).toContain('Q1 &lt;Results&gt; &amp; &quot;Plans&quot;');
+	});
+
+	it('rejects an empty deck', () => {
+		expect(() => buildPptx([])).toThrow('Cannot build a presentation without slides');
+	});
+});
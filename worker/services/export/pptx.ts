@@ -0,0 +1,195 @@
+import { strToU8, zipSync, type Zippable } from 'fflate';
+
+/**
+ * Minimal PPTX (Office Open XML) writer.
+ * Every slide is a single full-bleed PNG, which keeps the rendered deck
+ * pixel-identical to the web presentation at the cost of editable text.
+ */
+
+export interface PptxBuildOptions {
+    title?: string;
+    /** Slide width in EMUs (defaults to 16:9, 13.333in) */
+    width?: number;
+    /** Slide height in EMUs (defaults to 16:9, 7.5in) */
+    height?: number;
+}
+
+const SLIDE_WIDTH_16_9 = 12192000;
+const SLIDE_HEIGHT_16_9 = 6858000;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const NS_ALL = `xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"`;
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CT = 'application/vnd.openxmlformats-officedocument';
+
+export const PPTX_MIME_TYPE = `${CT}.presentationml.presentation`;
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function relationships(rels: Array<{ id: string; type: string; target: string }>): string {
+    const body = rels
+        .map((rel) => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"/>`)
+        .join('');
+    return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${body}</Relationships>`;
+}
+
+const EMPTY_GROUP = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>';
+
+function contentTypes(slideCount: number): string {
+    const slides = Array.from({ length: slideCount }, (_, i) =>
+        `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="${CT}.presentationml.slide+xml"/>`,
+    ).join('');
+    return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Default Extension="png" ContentType="image/png"/>'
+        + `<Override PartName="/ppt/presentation.xml" ContentType="${CT}.presentationml.presentation.main+xml"/>`
+        + `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${CT}.presentationml.slideMaster+xml"/>`
+        + `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${CT}.presentationml.slideLayout+xml"/>`
+        + `<Override PartName="/ppt/theme/theme1.xml" ContentType="${CT}.theme+xml"/>`
+        + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+        + `<Override PartName="/docProps/app.xml" ContentType="${CT}.extended-properties+xml"/>`
+        + slides
+        + '</Types>';
+}
+
+function presentation(slideCount: number, width: number, height: number): string {
+    const slideIds = Array.from({ length: slideCount }, (_, i) =>
+        `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`,
+    ).join('');
+    return `${XML_HEADER}<p:presentation ${NS_ALL}>`
+        + '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>'
+        + `<p:sldIdLst>${slideIds}</p:sldIdLst>`
+        + `<p:sldSz cx="${width}" cy="${height}"/>`
+        + '<p:notesSz cx="6858000" cy="9144000"/>'
+        + '</p:presentation>';
+}
+
+function slideMaster(): string {
+    return `${XML_HEADER}<p:sldMaster ${NS_ALL}>`
+        + `<p:cSld><p:spTree>${EMPTY_GROUP}</p:spTree></p:cSld>`
+        + '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>'
+        + '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>'
+        + '</p:sldMaster>';
+}
+
+function slideLayout(): string {
+    return `${XML_HEADER}<p:sldLayout ${NS_ALL} type="blank" preserve="1">`
+        + `<p:cSld name="Blank"><p:spTree>${EMPTY_GROUP}</p:spTree></p:cSld>`
+        + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>'
+        + '</p:sldLayout>';
+}
+
+function theme(): string {
+    const colors: Array<[string, string]> = [
+        ['dk2', '44546A'], ['lt2', 'E7E6E6'], ['accent1', '4472C4'], ['accent2', 'ED7D31'],
+        ['accent3', 'A5A5A5'], ['accent4', 'FFC000'], ['accent5', '5B9BD5'], ['accent6', '70AD47'],
+        ['hlink', '0563C1'], ['folHlink', '954F72'],
+    ];
+    const solid = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+    return `${XML_HEADER}<a:theme xmlns:a="${NS_A}" name="Export"><a:themeElements>`
+        + '<a:clrScheme name="Export">'
+        + '<a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1>'
+        + '<a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>'
+        + colors.map(([name, value]) => `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`).join('')
+        + '</a:clrScheme>'
+        + '<a:fontScheme name="Export">'
+        + '<a:majorFont><a:latin typeface="Calibri Light"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>'
+        + '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont>'
+        + '</a:fontScheme>'
+        + '<a:fmtScheme name="Export">'
+        + `<a:fillStyleLst>${solid.repeat(3)}</a:fillStyleLst>`
+        + `<a:lnStyleLst>${`<a:ln w="6350">${solid}</a:ln>`.repeat(3)}</a:lnStyleLst>`
+        + `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>`
+        + `<a:bgFillStyleLst>${solid.repeat(3)}</a:bgFillStyleLst>`
+        + '</a:fmtScheme>'
+        + '</a:themeElements></a:theme>';
+}
+
+function slide(index: number, width: number, height: number): string {
+    return `${XML_HEADER}<p:sld ${NS_ALL}><p:cSld><p:spTree>${EMPTY_GROUP}`
+        + '<p:pic>'
+        + `<p:nvPicPr><p:cNvPr id="2" name="Slide ${index}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>`
+        + '<p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>'
+        + `<p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>`
+        + '</p:pic>'
+        + '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+}
+
+function coreProps(title: string): string {
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    return `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+        + `<dc:title>${escapeXml(title)}</dc:title>`
+        + `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>`
+        + `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>`
+        + '</cp:coreProperties>';
+}
+
+function appProps(slideCount: number): string {
+    return `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">`
+        + `<Application>vibesdk</Application><Slides>${slideCount}</Slides>`
+        + '</Properties>';
+}
+
+/**
+ * Build a PPTX archive from ordered slide images (PNG bytes).
+ */
+export function buildPptx(slideImages: Uint8Array[], options: PptxBuildOptions = {}): Uint8Array {
+    if (slideImages.length === 0) {
+        throw new Error('Cannot build a presentation without slides');
+    }
+
+    const width = options.width ?? SLIDE_WIDTH_16_9;
+    const height = options.height ?? SLIDE_HEIGHT_16_9;
+    const count = slideImages.length;
+
+    const files: Zippable = {
+        '[Content_Types].xml': strToU8(contentTypes(count)),
+        '_rels/.rels': strToU8(relationships([
+            { id: 'rId1', type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+            { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+            { id: 'rId3', type: `${REL}/extended-properties`, target: 'docProps/app.xml' },
+        ])),
+        'docProps/core.xml': strToU8(coreProps(options.title ?? 'Presentation')),
+        'docProps/app.xml': strToU8(appProps(count)),
+        'ppt/presentation.xml': strToU8(presentation(count, width, height)),
+        'ppt/_rels/presentation.xml.rels': strToU8(relationships([
+            { id: 'rId1', type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+            { id: 'rId2', type: `${REL}/theme`, target: 'theme/theme1.xml' },
+            ...slideImages.map((_, i) => ({ id: `rId${i + 3}`, type: `${REL}/slide`, target: `slides/slide${i + 1}.xml` })),
+        ])),
+        'ppt/slideMasters/slideMaster1.xml': strToU8(slideMaster()),
+        'ppt/slideMasters/_rels/slideMaster1.xml.rels': strToU8(relationships([
+            { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+            { id: 'rId2', type: `${REL}/theme`, target: '../theme/theme1.xml' },
+        ])),
+        'ppt/slideLayouts/slideLayout1.xml': strToU8(slideLayout()),
+        'ppt/slideLayouts/_rels/slideLayout1.xml.rels': strToU8(relationships([
+            { id: 'rId1', type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' },
+        ])),
+        'ppt/theme/theme1.xml': strToU8(theme()),
+    };
+
+    slideImages.forEach((image, i) => {
+        const n = i + 1;
+        files[`ppt/slides/slide${n}.xml`] = strToU8(slide(n, width, height));
+        files[`ppt/slides/_rels/slide${n}.xml.rels`] = strToU8(relationships([
+            { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+            { id: 'rId2', type: `${REL}/image`, target: `../media/image${n}.png` },
+        ]));
+        // PNGs are already compressed; store them as-is
+        files[`ppt/media/image${n}.png`] = [image, { level: 0 }];
+    });
+
+    return zipSync(files, { level: 6 });
+}
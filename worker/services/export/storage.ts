@@ -0,0 +1,33 @@
+import { getProtocolForHost } from '../../utils/urls';
+
+/**
+ * Export artifacts live next to screenshots in the templates bucket,
+ * keyed by agent so the download route can enforce app ownership.
+ */
+export const EXPORTS_PREFIX = 'exports';
+
+export function getExportKey(agentId: string, fileName: string): string {
+    return `${EXPORTS_PREFIX}/${agentId}/${fileName}`;
+}
+
+export function getExportDownloadUrl(env: Env, agentId: string, fileName: string): string {
+    const protocol = getProtocolForHost(env.CUSTOM_DOMAIN);
+    return `${protocol}://${env.CUSTOM_DOMAIN}/api/exports/${agentId}/${encodeURIComponent(fileName)}`;
+}
+
+export async function storeExportArtifact(
+    env: Env,
+    agentId: string,
+    fileName: string,
+    data: Uint8Array,
+    contentType: string,
+): Promise<{ key: string; url: string; size: number }> {
+    const key = getExportKey(agentId, fileName);
+    await env.TEMPLATES_BUCKET.put(key, data, {
+        httpMetadata: {
+            contentType,
+            contentDisposition: `attachment; filename="${fileName}"`,
+        },
+    });
+    return { key, url: getExportDownloadUrl(env, agentId, fileName), size: data.length };
+}
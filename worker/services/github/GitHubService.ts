@@ -12,11 +12,26 @@ import {
 } from './types';
 import { GitHubPushResponse, TemplateDetails } from '../sandbox/sandboxTypes';
 import { GitCloneService } from '../../agents/git/git-clone-service';
+import { GitPushService, PushRejectedError } from '../../agents/git/git-push-service';
+import type { PushedCommit } from '../../agents/git/git';
 import git from '@ashishkumar472/cf-git';
 import http from '@ashishkumar472/cf-git/http/web';
 import { prepareCloudflareButton } from '../../utils/deployToCf';
 import type { MemFS } from '../../agents/git/memfs';
 
+// Most remote commits a single pull replays onto the agent
+const MAX_PULLED_COMMITS = 100;
+
+/**
+ * Remote commits to replay onto the agent, worked out by pullFromGitHub
+ */
+export interface GitHubPullPlan {
+    status: 'up-to-date' | 'ready' | 'conflict';
+    remoteHead: string | null;
+    commits: PushedCommit[];
+    conflicts: string[];
+}
+
 export class GitHubService {
     private static readonly logger = createLogger('GitHubService');
 
@@ -212,6 +227,9 @@ export class GitHubService {
         username: string;
         email: string;
         useGitPush?: boolean; // Feature flag for git push vs REST API
+        defaultBranch?: string;
+        syncedCommitSha?: string | null;
+        forcePush?: boolean;
     }): Promise<GitHubPushResponse> {
         try {
             GitHubService.logger.info('Starting GitHub export from DO git', {
@@ -236,12 +254,46 @@ export class GitHubService {
             GitHubService.logger.info('Repository built', {
                 commitCount: commits.length,
             });
+
+            const branch = options.defaultBranch || 'main';
+            const remoteMoved = !options.forcePush && await GitHubService.hasRemoteMoved({
+                localCommits: commits,
+                repositoryUrl: options.repositoryUrl,
+                token: options.token,
+                branch,
+                syncedCommitSha: options.syncedCommitSha
+            });
+
+            if (!remoteMoved) {
+                const pushResult = await GitHubService.pushViaGitProtocol(
+                    fs,
+                    options.token,
+                    options.repositoryUrl,
+                    { remoteRef: branch, force: true }
+                );
+                return { ...pushResult, branch };
+            }
+
+            // GitHub has commits we have not pulled, propose our history as a pull request
+            const syncBranch = `vibesdk/sync-${new Date().toISOString().slice(0, 19).replace(/[-:T]/g, '')}`;
             const pushResult = await GitHubService.pushViaGitProtocol(
                 fs,
                 options.token,
                 options.repositoryUrl,
+                { remoteRef: syncBranch, force: false }
             );
-            return pushResult;
+            if (!pushResult.success) {
+                return pushResult;
+            }
+            const pullRequestUrl = await GitHubService.createPullRequest({
+                repositoryUrl: options.repositoryUrl,
+                token: options.token,
+                head: syncBranch,
+                base: branch,
+                title: 'Sync changes from Vibesdk',
+                body: `GitHub's \`${branch}\` has commits the app has not pulled yet, so these changes were pushed to \`${syncBranch}\` instead of overwriting it.\n\nOriginal prompt: ${options.appQuery}`
+            });
+            return { ...pushResult, branch: syncBranch, pullRequestUrl };
         } catch (error) {
             GitHubService.logger.error('GitHub export failed', error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -355,6 +407,7 @@ export class GitHubService {
         fs: MemFS,
         token: string,
         repositoryUrl: string,
+        target: { remoteRef: string; force: boolean },
     ): Promise<GitHubPushResponse> {
         try {
             // Extract repo info for logging
@@ -394,10 +447,12 @@ export class GitHubService {
 
             GitHubService.logger.info('Remote configured, starting push', {
                 remote: 'github',
-                url: gitUrl
+                url: gitUrl,
+                remoteRef: target.remoteRef,
+                force: target.force
             });
 
-            // Push with force to handle sync
+            // Push to the requested branch, forcing only when asked
             // Set timeout to prevent hanging
             const PUSH_TIMEOUT_MS = 120000; // 2 minutes
             const pushPromise = git.push({
@@ -406,7 +461,8 @@ export class GitHubService {
                 dir: '/',
                 remote: 'github',
                 ref: 'main',
-                force: true, // Allow non-fast-forward pushes for sync
+                remoteRef: target.remoteRef,
+                force: target.force, // Non-fast-forward pushes only when GitHub has not moved
                 onAuth: () => ({
                     username: token, // GitHub accepts token as username
                     password: 'x-oauth-basic' // Or just empty string
@@ -462,6 +518,211 @@ export class GitHubService {
         }
     }
 
+    /**
+     * Remote commits missing locally, matched by message like findLastCommonCommit
+     */
+    private static findRemoteOnlyCommits<T extends { commit: { message: string } }>(
+        localCommits: Awaited<ReturnType<typeof git.log>>,
+        remoteCommits: T[]
+    ): T[] {
+        const localMessages = new Set(
+            localCommits.map(c => GitHubService.normalizeCommitMessage(c.commit.message))
+        );
+        return remoteCommits.filter(c => 
+            !localMessages.has(GitHubService.normalizeCommitMessage(c.commit.message)) && 
+            !GitHubService.isSystemGeneratedCommit(c.commit.message)
+        );
+    }
+
+    /**
+     * Head commit of a branch, null when the branch does not exist (e.g. empty repository)
+     */
+    static async getBranchHead(options: {
+        repositoryUrl: string;
+        branch: string;
+        token: string;
+    }): Promise<string | null> {
+        const repoInfo = GitHubService.extractRepoInfo(options.repositoryUrl);
+        if (!repoInfo) {
+            throw new GitHubServiceError('Invalid repository URL', 'INVALID_REPO_URL');
+        }
+
+        try {
+            const octokit = GitHubService.createOctokit(options.token);
+            const { data } = await octokit.repos.getBranch({ ...repoInfo, branch: options.branch });
+            return data.commit.sha;
+        } catch (error: unknown) {
+            if ((error as { status?: number })?.status === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Whether GitHub has commits that were never pulled into the app.
+     * Compares against the head recorded at the last sync, or falls back to
+     * commit message matching for repositories synced before that was recorded.
+     */
+    private static async hasRemoteMoved(options: {
+        localCommits: Awaited<ReturnType<typeof git.log>>;
+        repositoryUrl: string;
+        token: string;
+        branch: string;
+        syncedCommitSha?: string | null;
+    }): Promise<boolean> {
+        const remoteHead = await GitHubService.getBranchHead({
+            repositoryUrl: options.repositoryUrl,
+            branch: options.branch,
+            token: options.token
+        });
+        if (!remoteHead) {
+            return false;
+        }
+        if (options.syncedCommitSha) {
+            return remoteHead !== options.syncedCommitSha;
+        }
+
+        const repoInfo = GitHubService.extractRepoInfo(options.repositoryUrl);
+        const octokit = GitHubService.createOctokit(options.token);
+        const { data: remoteCommits } = await octokit.repos.listCommits({
+            owner: repoInfo!.owner,
+            repo: repoInfo!.repo,
+            sha: options.branch,
+            per_page: 100
+        });
+        return GitHubService.findRemoteOnlyCommits(options.localCommits, remoteCommits).length > 0;
+    }
+
+    /**
+     * Open a pull request and return its URL
+     */
+    static async createPullRequest(options: {
+        repositoryUrl: string;
+        token: string;
+        head: string;
+        base: string;
+        title: string;
+        body: string;
+    }): Promise<string> {
+        const repoInfo = GitHubService.extractRepoInfo(options.repositoryUrl);
+        if (!repoInfo) {
+            throw new GitHubServiceError('Invalid repository URL', 'INVALID_REPO_URL');
+        }
+
+        const octokit = GitHubService.createOctokit(options.token);
+        const { data: pullRequest } = await octokit.pulls.create({
+            ...repoInfo,
+            head: options.head,
+            base: options.base,
+            title: options.title,
+            body: options.body
+        });
+
+        GitHubService.logger.info('Opened pull request', { url: pullRequest.html_url, head: options.head, base: options.base });
+        return pullRequest.html_url;
+    }
+
+    /**
+     * Work out which GitHub commits to replay onto the agent's history.
+     * Fetches the branch into the rebuilt repository, walks back to the last synced
+     * head (or the merge base) and reports files changed on both sides as conflicts.
+     */
+    static async pullFromGitHub(options: {
+        gitObjects: Array<{ path: string; data: Uint8Array }>;
+        templateDetails: TemplateDetails | null;
+        appQuery: string;
+        appCreatedAt?: Date;
+        repositoryUrl: string;
+        token: string;
+        branch: string;
+        syncedCommitSha?: string | null;
+    }): Promise<GitHubPullPlan> {
+        const remoteHead = await GitHubService.getBranchHead({
+            repositoryUrl: options.repositoryUrl,
+            branch: options.branch,
+            token: options.token
+        });
+        if (!remoteHead || remoteHead === options.syncedCommitSha) {
+            return { status: 'up-to-date', remoteHead, commits: [], conflicts: [] };
+        }
+
+        const fs = await GitCloneService.buildRepository({
+            gitObjects: options.gitObjects,
+            templateDetails: options.templateDetails,
+            appQuery: options.appQuery,
+            appCreatedAt: options.appCreatedAt
+        });
+        const localHead = await git.resolveRef({ fs, dir: '/', ref: 'HEAD' });
+
+        const gitUrl = options.repositoryUrl.endsWith('.git') ? options.repositoryUrl : `${options.repositoryUrl}.git`;
+        await git.fetch({
+            fs,
+            http,
+            dir: '/',
+            url: gitUrl,
+            ref: options.branch,
+            singleBranch: true,
+            tags: false,
+            onAuth: () => ({ username: options.token, password: 'x-oauth-basic' })
+        });
+
+        if (localHead === remoteHead || await git.isDescendent({ fs, dir: '/', oid: localHead, ancestor: remoteHead, depth: -1 })) {
+            return { status: 'up-to-date', remoteHead, commits: [], conflicts: [] };
+        }
+
+        let base: string | undefined;
+        if (options.syncedCommitSha && await git.isDescendent({ fs, dir: '/', oid: remoteHead, ancestor: options.syncedCommitSha, depth: -1 }).catch(() => false)) {
+            base = options.syncedCommitSha;
+        } else {
+            [base] = await git.findMergeBase({ fs, dir: '/', oids: [localHead, remoteHead] });
+        }
+        if (!base) {
+            throw new GitHubServiceError('GitHub history has nothing in common with this app, export with force push to replace it', 'NO_COMMON_HISTORY', 409);
+        }
+
+        // Remote commits since the base, following first parents
+        const remoteOids: string[] = [];
+        let oid = remoteHead;
+        while (oid !== base) {
+            if (!oid || !await git.isDescendent({ fs, dir: '/', oid, ancestor: base, depth: -1 })) {
+                throw new GitHubServiceError('GitHub history merges in commits from before the last sync, rebase it onto the exported history first', 'UNSUPPORTED_HISTORY', 409);
+            }
+            if (remoteOids.length >= MAX_PULLED_COMMITS) {
+                throw new GitHubServiceError(`GitHub has more than ${MAX_PULLED_COMMITS} new commits, pull them in smaller steps`, 'TOO_MANY_COMMITS', 409);
+            }
+            remoteOids.push(oid);
+            const { commit } = await git.readCommit({ fs, dir: '/', oid });
+            oid = commit.parent[0];
+        }
+
+        const localChanges = await GitPushService.diffCommits(fs, base, localHead);
+        const remoteChanges = await GitPushService.diffCommits(fs, base, remoteHead);
+        const conflicts = [...remoteChanges.keys()].filter(path =>
+            localChanges.has(path) && localChanges.get(path)?.oid !== remoteChanges.get(path)?.oid
+        );
+        if (conflicts.length > 0) {
+            GitHubService.logger.info('GitHub pull has conflicts', { conflicts });
+            return { status: 'conflict', remoteHead, commits: [], conflicts };
+        }
+
+        const templateFiles = new Set(Object.keys(options.templateDetails?.allFiles ?? {}));
+        const commits: PushedCommit[] = [];
+        try {
+            for (const remoteOid of remoteOids.reverse()) {
+                commits.push(await GitPushService.readCommitChanges(fs, remoteOid, templateFiles));
+            }
+        } catch (error) {
+            if (error instanceof PushRejectedError) {
+                throw new GitHubServiceError(`Cannot pull from GitHub: ${error.message}`, 'UNSUPPORTED_CHANGE', 409);
+            }
+            throw error;
+        }
+
+        GitHubService.logger.info('GitHub pull ready', { remoteHead, base, commits: commits.length });
+        return { status: 'ready', remoteHead, commits, conflicts: [] };
+    }
+
     /**
      * Check remote repository status vs local commits
      * Builds local repo with template to match export structure
@@ -473,6 +734,7 @@ export class GitHubService {
         appCreatedAt?: Date;
         repositoryUrl: string;
         token: string;
+        branch?: string;
     }): Promise<{
         compatible: boolean;
         behindBy: number;
@@ -497,6 +759,7 @@ export class GitHubService {
             const { data: remoteCommits } = await octokit.repos.listCommits({
                 owner,
                 repo,
+                sha: options.branch,
                 per_page: 100
             });
 
@@ -516,9 +779,6 @@ export class GitHubService {
             const commonCommit = GitHubService.findLastCommonCommit(localCommits, remoteCommits);
             const hasCommonCommit = commonCommit !== null || remoteCommits.length === 0;
             
-            const localMessages = new Set(
-                localCommits.map(c => GitHubService.normalizeCommitMessage(c.commit.message))
-            );
             const remoteMessages = new Set(
                 remoteCommits.map(c => GitHubService.normalizeCommitMessage(c.commit.message))
             );
@@ -526,10 +786,7 @@ export class GitHubService {
             const localOnly = localCommits.filter(c => 
                 !remoteMessages.has(GitHubService.normalizeCommitMessage(c.commit.message))
             );
-            const remoteOnly = remoteCommits.filter(c => 
-                !localMessages.has(GitHubService.normalizeCommitMessage(c.commit.message)) && 
-                !GitHubService.isSystemGeneratedCommit(c.commit.message)
-            );
+            const remoteOnly = GitHubService.findRemoteOnlyCommits(localCommits, remoteCommits);
 
             return {
                 compatible: hasCommonCommit || remoteCommits.length === 0,
@@ -56,6 +56,7 @@ export interface GitHubExportOptions {
     description?: string;
     isPrivate: boolean;
     installationId?: number;
+    forcePush?: boolean;        // Overwrite the default branch even if GitHub has new commits
 }
 
 export interface GitHubExportResult {
@@ -64,6 +65,18 @@ export interface GitHubExportResult {
     cloneUrl?: string;
     token?: string;
     error?: string;
+    pullRequestUrl?: string;    // Set when GitHub had moved and a pull request was opened instead
+}
+
+export interface GitHubLinkResult {
+    repositoryUrl: string;
+    defaultBranch: string;
+}
+
+export interface GitHubPullResult {
+    status: 'up-to-date' | 'pulled' | 'conflict';
+    pulledCommits: number;
+    conflicts: string[];        // Files changed both on GitHub and in the app since the last sync
 }
 
 // Note: GitHubPushRequest and GitHubPushResponse are defined in sandboxTypes.ts
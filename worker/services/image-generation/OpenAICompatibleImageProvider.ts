@@ -0,0 +1,78 @@
+import type { GeneratedImage, ImageGenerationProvider, ImageGenerationRequest } from './types';
+
+interface ImagesResponse {
+    data?: Array<{ b64_json?: string }>;
+    error?: { message?: string };
+}
+
+type ImageSize = [width: number, height: number];
+
+// The images endpoint only accepts a fixed set of sizes per model
+const DALL_E_2_SIZES: ImageSize[] = [[256, 256], [512, 512], [1024, 1024]];
+const DALL_E_3_SIZES: ImageSize[] = [[1024, 1024], [1792, 1024], [1024, 1792]];
+const GPT_IMAGE_SIZES: ImageSize[] = [[1024, 1024], [1536, 1024], [1024, 1536]];
+
+/**
+ * Supported size closest to the requested aspect ratio, then to the requested area
+ */
+export function toOpenAIImageSize(model: string, width: number, height: number): string {
+    const sizes = model.includes('dall-e-2') ? DALL_E_2_SIZES
+        : model.includes('dall-e-3') ? DALL_E_3_SIZES
+        : GPT_IMAGE_SIZES;
+
+    const ratio = Math.log(width / height);
+    const area = width * height;
+    const [bestWidth, bestHeight] = sizes.reduce((best, size) => {
+        const distance = (candidate: ImageSize) => [
+            Math.abs(Math.log(candidate[0] / candidate[1]) - ratio),
+            Math.abs(candidate[0] * candidate[1] - area),
+        ];
+        const [bestRatio, bestArea] = distance(best);
+        const [sizeRatio, sizeArea] = distance(size);
+        return sizeRatio < bestRatio || (sizeRatio === bestRatio && sizeArea < bestArea) ? size : best;
+    });
+    return `${bestWidth}x${bestHeight}`;
+}
+
+/**
+ * Any API that implements OpenAI's POST /images/generations with b64_json output.
+ * DALL-E models return URLs unless asked for b64_json, gpt-image models always
+ * return b64_json and reject response_format.
+ */
+export class OpenAICompatibleImageProvider implements ImageGenerationProvider {
+    readonly name = 'openai-compatible';
+
+    constructor(
+        private readonly baseUrl: string,
+        private readonly apiKey: string,
+        private readonly model: string,
+    ) {}
+
+    async generate(request: ImageGenerationRequest): Promise<GeneratedImage> {
+        const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/images/generations`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                model: this.model,
+                prompt: request.prompt,
+                size: toOpenAIImageSize(this.model, request.width, request.height),
+                n: 1,
+                ...(this.model.includes('dall-e') ? { response_format: 'b64_json' } : {}),
+            }),
+        });
+
+        const json = await response.json().catch(() => ({})) as ImagesResponse;
+        if (!response.ok) {
+            throw new Error(`Image generation failed: ${json.error?.message || `status ${response.status}`}`);
+        }
+
+        const base64Data = json.data?.[0]?.b64_json;
+        if (!base64Data) {
+            throw new Error('Image generation succeeded without image data');
+        }
+        return { mimeType: 'image/png', base64Data };
+    }
+}
@@ -0,0 +1,42 @@
+import type { GeneratedImage, ImageGenerationProvider, ImageGenerationRequest } from './types';
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Local stand-in that draws an SVG gradient labelled with the prompt.
+ * Output only depends on the request, so tests can assert on it.
+ */
+export class PlaceholderImageProvider implements ImageGenerationProvider {
+    readonly name = 'placeholder';
+
+    async generate(request: ImageGenerationRequest): Promise<GeneratedImage> {
+        const { prompt, width, height } = request;
+        let hash = 0;
+        for (const char of prompt) {
+            hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+        }
+        const hue = hash % 360;
+        const label = prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt;
+
+        const svg = [
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+            `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`,
+            `<stop offset="0" stop-color="hsl(${hue}, 70%, 60%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360}, 70%, 40%)"/>`,
+            `</linearGradient></defs>`,
+            `<rect width="100%" height="100%" fill="url(#g)"/>`,
+            `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="${Math.max(12, Math.round(width / 40))}" text-anchor="middle" dominant-baseline="middle">${escapeXml(label)}</text>`,
+            `</svg>`,
+        ].join('');
+
+        return {
+            mimeType: 'image/svg+xml',
+            base64Data: btoa(String.fromCharCode(...new TextEncoder().encode(svg))),
+        };
+    }
+}
@@ -0,0 +1,45 @@
+import { MAX_IMAGE_DIMENSION, MIN_IMAGE_DIMENSION } from './config';
+import type { GeneratedImage, ImageGenerationProvider, ImageGenerationRequest } from './types';
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 8192) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 8192));
+    }
+    return btoa(binary);
+}
+
+// Stable Diffusion models take dimensions in this range, in multiples of 8
+function toModelDimension(value: number): number {
+    const clamped = Math.min(MAX_IMAGE_DIMENSION, Math.max(MIN_IMAGE_DIMENSION, value));
+    return Math.round(clamped / 8) * 8;
+}
+
+/**
+ * Text-to-image models on the Workers AI binding. FLUX models return base64
+ * JPEG, Stable Diffusion models stream PNG bytes.
+ */
+export class WorkersAIImageProvider implements ImageGenerationProvider {
+    readonly name = 'workers-ai';
+
+    constructor(private readonly ai: Ai, private readonly model: string) {}
+
+    async generate(request: ImageGenerationRequest): Promise<GeneratedImage> {
+        const result: unknown = await this.ai.run(this.model as keyof AiModels, {
+            prompt: request.prompt,
+            width: toModelDimension(request.width),
+            height: toModelDimension(request.height),
+        } as never);
+
+        if (result instanceof ReadableStream) {
+            const bytes = new Uint8Array(await new Response(result).arrayBuffer());
+            return { mimeType: 'image/png', base64Data: bytesToBase64(bytes) };
+        }
+
+        const image = (result as { image?: unknown } | null)?.image;
+        if (typeof image !== 'string' || !image) {
+            throw new Error(`Workers AI model ${this.model} returned no image`);
+        }
+        return { mimeType: 'image/jpeg', base64Data: image };
+    }
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAICompatibleImageProvider, toOpenAIImageSize } from './OpenAICompatibleImageProvider';
+import {
+	createImageGenerationProvider,
+	DEFAULT_IMAGE_GENERATION_SETTINGS,
+	MAX_SVG_ASSET_BYTES,
+	PlaceholderImageProvider,
+	toImageAsset,
+	toImageSlug,
+	toImageSlugs,
+	type ImageFileAsset,
+} from './index';
+
+const request = { prompt: 'A mountain lake at dawn <calm>', width: 800, height: 600 };
+
+describe('toImageSlug', () => {
+	it('normalizes names into file-safe slugs', () => {
+		expect(toImageSlug('Hero Mountains.png')).toBe('hero-mountains');
+		expect(toImageSlug('  --Team / Photo #2--  ')).toBe('team-photo-2');
+		expect(toImageSlug('!!!')).toBe('image');
+	});
+
+	it('suffixes names that slug to the same value', () => {
+		expect(toImageSlugs(['Hero', 'hero.png', 'HERO!', 'hero-2'])).toEqual(['hero', 'hero-2', 'hero-3', 'hero-2-2']);
+	});
+});
+
+describe('toImageAsset', () => {
+	it('stores SVG output as-is under public/images', async () => {
+		const image = await new PlaceholderImageProvider().generate(request);
+
+		const asset = toImageAsset('hero', image);
+
+		expect(asset).toMatchObject({ kind: 'file', filePath: 'public/images/hero.svg', publicPath: '/images/hero.svg' });
+		const { fileContents } = asset as ImageFileAsset;
+		expect(fileContents).toMatch(/^<svg /);
+		expect(fileContents).toContain('A mountain lake at dawn &lt;calm&gt;');
+	});
+
+	it('keeps raster output out of the project files', () => {
+		const asset = toImageAsset('banner', { mimeType: 'image/jpeg', base64Data: 'iVBORw0KGgo=' });
+
+		expect(asset).toEqual({ kind: 'upload', fileName: 'banner.jpg', mimeType: 'image/jpeg', base64Data: 'iVBORw0KGgo=' });
+	});
+
+	it('rejects oversized SVG output', () => {
+		const base64Data = btoa('<svg>'.padEnd(MAX_SVG_ASSET_BYTES + 1, ' '));
+		expect(() => toImageAsset('huge', { mimeType: 'image/svg+xml', base64Data })).toThrow(/too large/);
+	});
+});
+
+describe('createImageGenerationProvider', () => {
+	const env = { OPENAI_API_KEY: 'sk-test' } as unknown as Env;
+
+	it('returns null when disabled or missing credentials', () => {
+		expect(createImageGenerationProvider(env, { ...DEFAULT_IMAGE_GENERATION_SETTINGS, enabled: false })).toBeNull();
+		expect(createImageGenerationProvider(env, DEFAULT_IMAGE_GENERATION_SETTINGS)).toBeNull();
+		expect(createImageGenerationProvider(env, {
+			...DEFAULT_IMAGE_GENERATION_SETTINGS,
+			provider: 'openai-compatible',
+			baseUrl: 'https://api.openai.com/v1',
+			apiKeySecret: 'MISSING_KEY',
+		})).toBeNull();
+	});
+
+	it('creates the configured provider', () => {
+		expect(createImageGenerationProvider(env, { ...DEFAULT_IMAGE_GENERATION_SETTINGS, provider: 'placeholder' })?.name).toBe('placeholder');
+		expect(createImageGenerationProvider(env, {
+			...DEFAULT_IMAGE_GENERATION_SETTINGS,
+			provider: 'openai-compatible',
+			model: 'gpt-image-1',
+			baseUrl: 'https://api.openai.com/v1',
+			apiKeySecret: 'OPENAI_API_KEY',
+		})?.name).toBe('openai-compatible');
+	});
+});
+
+describe('toOpenAIImageSize', () => {
+	it('maps requests to the closest size the model supports', () => {
+		expect(toOpenAIImageSize('gpt-image-1', 1024, 768)).toBe('1536x1024');
+		expect(toOpenAIImageSize('gpt-image-1', 600, 900)).toBe('1024x1536');
+		expect(toOpenAIImageSize('dall-e-3', 1920, 1080)).toBe('1792x1024');
+		expect(toOpenAIImageSize('dall-e-2', 300, 200)).toBe('256x256');
+	});
+});
+
+describe('OpenAICompatibleImageProvider', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const requestBody = async (model: string) => {
+		const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ data: [{ b64_json: 'iVBORw0KGgo=' }] }));
+		await new OpenAICompatibleImageProvider('https://api.openai.com/v1', 'sk-test', model).generate(request);
+		return JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+	};
+
+	it('only asks DALL-E models for b64_json output', async () => {
+		expect(await requestBody('dall-e-3')).toMatchObject({ response_format: 'b64_json', size: '1792x1024' });
+		expect(await requestBody('gpt-image-1')).not.toHaveProperty('response_format');
+	});
+});
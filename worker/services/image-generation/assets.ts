@@ -0,0 +1,104 @@
+import { MAX_IMAGE_SIZE_BYTES, type SupportedImageMimeType } from '../../types/image-attachment';
+import type { GeneratedImage } from './types';
+
+export const IMAGE_ASSET_DIR = 'public/images';
+
+/**
+ * SVG output is committed as a project file, so it lives in agent state and
+ * every git snapshot. Raster output is uploaded and only capped at the image
+ * upload limit.
+ */
+export const MAX_SVG_ASSET_BYTES = 256 * 1024;
+
+/** Vector image stored as a project file */
+export interface ImageFileAsset {
+    kind: 'file';
+    /** Project file path, e.g. public/images/hero.svg */
+    filePath: string;
+    /** URL path the app uses to reference the image, e.g. /images/hero.svg */
+    publicPath: string;
+    fileContents: string;
+}
+
+/** Raster image stored in R2 and referenced by URL, never as a project file */
+export interface ImageUploadAsset {
+    kind: 'upload';
+    fileName: string;
+    mimeType: SupportedImageMimeType;
+    base64Data: string;
+}
+
+export type ImageAsset = ImageFileAsset | ImageUploadAsset;
+
+const RASTER_EXTENSIONS: Record<SupportedImageMimeType, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+};
+
+/**
+ * Turn a requested image name into a file-safe slug
+ */
+export function toImageSlug(name: string): string {
+    const slug = name
+        .toLowerCase()
+        .replace(/\.[a-z0-9]+$/, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60);
+    return slug || 'image';
+}
+
+/**
+ * Slugs for the images of one request. Names that slug to the same value get
+ * a numeric suffix so they don't overwrite each other.
+ */
+export function toImageSlugs(names: string[]): string[] {
+    const taken = new Set<string>();
+    return names.map((name) => {
+        const base = toImageSlug(name);
+        let slug = base;
+        for (let suffix = 2; taken.has(slug); suffix++) {
+            slug = `${base}-${suffix}`;
+        }
+        taken.add(slug);
+        return slug;
+    });
+}
+
+function decodedByteLength(base64Data: string): number {
+    const padding = base64Data.endsWith('==') ? 2 : base64Data.endsWith('=') ? 1 : 0;
+    return Math.floor((base64Data.length * 3) / 4) - padding;
+}
+
+/**
+ * Turn a generated image into an asset. SVG output becomes a file under
+ * public/images, raster output is uploaded so its bytes stay out of the project.
+ */
+export function toImageAsset(slug: string, image: GeneratedImage): ImageAsset {
+    const size = decodedByteLength(image.base64Data);
+
+    if (image.mimeType === 'image/svg+xml') {
+        if (size > MAX_SVG_ASSET_BYTES) {
+            throw new Error(`Generated SVG is too large (${Math.ceil(size / 1024)} KB, limit ${MAX_SVG_ASSET_BYTES / 1024} KB)`);
+        }
+        const bytes = Uint8Array.from(atob(image.base64Data), (char) => char.charCodeAt(0));
+        const fileName = `${slug}.svg`;
+        return {
+            kind: 'file',
+            filePath: `${IMAGE_ASSET_DIR}/${fileName}`,
+            publicPath: `/images/${fileName}`,
+            fileContents: new TextDecoder().decode(bytes),
+        };
+    }
+
+    if (size > MAX_IMAGE_SIZE_BYTES) {
+        throw new Error(`Generated image is too large (${Math.ceil(size / 1024 / 1024)} MB, limit ${MAX_IMAGE_SIZE_BYTES / 1024 / 1024} MB)`);
+    }
+    return {
+        kind: 'upload',
+        fileName: `${slug}.${RASTER_EXTENSIONS[image.mimeType]}`,
+        mimeType: image.mimeType,
+        base64Data: image.base64Data,
+    };
+}
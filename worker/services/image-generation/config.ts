@@ -0,0 +1,12 @@
+import type { ImageGenerationSettings } from './types';
+
+export const DEFAULT_IMAGE_GENERATION_SETTINGS: ImageGenerationSettings = {
+    enabled: true,
+    provider: 'workers-ai',
+    model: '@cf/black-forest-labs/flux-1-schnell',
+    maxImagesPerCall: 4,
+};
+
+/** Bounds for requested image dimensions, providers map them to sizes they support */
+export const MIN_IMAGE_DIMENSION = 256;
+export const MAX_IMAGE_DIMENSION = 2048;
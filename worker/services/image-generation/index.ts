@@ -0,0 +1,51 @@
+import { getEnvSecret } from '../../utils/secretTemplates';
+import { OpenAICompatibleImageProvider } from './OpenAICompatibleImageProvider';
+import { PlaceholderImageProvider } from './PlaceholderImageProvider';
+import { WorkersAIImageProvider } from './WorkersAIImageProvider';
+import type { ImageGenerationProvider, ImageGenerationSettings } from './types';
+
+export type {
+    GeneratedImage,
+    ImageGenerationProvider,
+    ImageGenerationProviderType,
+    ImageGenerationRequest,
+    ImageGenerationSettings,
+} from './types';
+export { DEFAULT_IMAGE_GENERATION_SETTINGS, MIN_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION } from './config';
+export {
+    toImageAsset,
+    toImageSlug,
+    toImageSlugs,
+    IMAGE_ASSET_DIR,
+    MAX_SVG_ASSET_BYTES,
+    type ImageAsset,
+    type ImageFileAsset,
+    type ImageUploadAsset,
+} from './assets';
+export { PlaceholderImageProvider } from './PlaceholderImageProvider';
+
+/**
+ * Get the configured image provider, null when image generation is disabled
+ * or the provider is missing its binding or credentials
+ */
+export function createImageGenerationProvider(env: Env, settings: ImageGenerationSettings): ImageGenerationProvider | null {
+    if (!settings.enabled) {
+        return null;
+    }
+
+    switch (settings.provider) {
+        case 'workers-ai':
+            return env.AI ? new WorkersAIImageProvider(env.AI, settings.model) : null;
+        case 'openai-compatible': {
+            const apiKey = settings.apiKeySecret ? getEnvSecret(env, settings.apiKeySecret) : null;
+            if (!settings.baseUrl || !apiKey) {
+                return null;
+            }
+            return new OpenAICompatibleImageProvider(settings.baseUrl, apiKey, settings.model);
+        }
+        case 'placeholder':
+            return new PlaceholderImageProvider();
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Image generation types
+ *
+ * Providers turn a prompt into an image. The agent stores the result as a
+ * static asset in the project's public/ directory.
+ */
+
+export type ImageGenerationProviderType = 'workers-ai' | 'openai-compatible' | 'placeholder';
+
+export interface ImageGenerationSettings {
+    /** When false the generate_images tool reports that image generation is unavailable */
+    enabled: boolean;
+    provider: ImageGenerationProviderType;
+    /** Model ID, e.g. @cf/black-forest-labs/flux-1-schnell or gpt-image-1 */
+    model: string;
+    /** Base URL of the OpenAI-compatible API, /images/generations is appended */
+    baseUrl?: string;
+    /** Name of the worker secret that holds the OpenAI-compatible API key */
+    apiKeySecret?: string;
+    /** Images a single tool call may request */
+    maxImagesPerCall: number;
+}
+
+export interface ImageGenerationRequest {
+    prompt: string;
+    width: number;
+    height: number;
+}
+
+export type GeneratedImageMimeType = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/svg+xml';
+
+export interface GeneratedImage {
+    mimeType: GeneratedImageMimeType;
+    /** Base64 image data without a data URL prefix */
+    base64Data: string;
+}
+
+/**
+ * Generates one image per request
+ */
+export interface ImageGenerationProvider {
+    readonly name: string;
+    generate(request: ImageGenerationRequest): Promise<GeneratedImage>;
+}
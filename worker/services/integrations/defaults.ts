@@ -0,0 +1,55 @@
+import type { IntegrationDefinitions } from './types';
+
+/**
+ * Built-in integrations. Platforms can override or disable them and add
+ * generic REST integrations through the integrations config, e.g.
+ *
+ *   "weather": {
+ *     "name": "Weather API",
+ *     "enabled": true,
+ *     "baseUrl": "https://api.weather.example",
+ *     "headers": { "X-Api-Key": "{{secret:WEATHER_API_KEY}}" }
+ *   }
+ */
+export const DEFAULT_INTEGRATIONS: IntegrationDefinitions = {
+    plaid: {
+        name: 'Plaid',
+        enabled: true,
+        baseUrl: 'https://sandbox.plaid.com',
+        bodyFields: {
+            client_id: '{{secret:PLAID_CLIENT_ID}}',
+            secret: '{{secret:PLAID_SECRET}}',
+        },
+        allowedMethods: ['POST'],
+        allowedPaths: [
+            '/link/token/create',
+            '/item/public_token/exchange',
+            '/item/get',
+            '/accounts/get',
+            '/accounts/balance/get',
+            '/transactions/sync',
+        ],
+        storedFields: ['access_token'],
+        // Link token creation and the token exchange must not get the stored access token
+        storedFieldPaths: ['/item/get', '/accounts/get', '/accounts/balance/get', '/transactions/sync'],
+    },
+    stripe: {
+        name: 'Stripe (test mode)',
+        enabled: true,
+        baseUrl: 'https://api.stripe.com',
+        headers: {
+            Authorization: 'Bearer {{secret:STRIPE_SECRET_KEY}}',
+        },
+        requiredSecretPrefix: 'sk_test_',
+    },
+    openai: {
+        name: 'OpenAI',
+        enabled: true,
+        baseUrl: 'https://api.openai.com',
+        headers: {
+            Authorization: 'Bearer {{secret:OPENAI_API_KEY}}',
+        },
+        allowedMethods: ['GET', 'POST'],
+        allowedPaths: ['/v1/'],
+    },
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { forwardIntegrationRequest, IntegrationProxyError, resolveIntegrationUrl, type IntegrationValueStore } from './proxy';
+import { DEFAULT_INTEGRATIONS } from './defaults';
+import { createIntegrationToken, verifyIntegrationToken } from './tokens';
+import type { IntegrationProxyRequest } from './types';
+
+const env = { JWT_SECRET: 'test-secret' } as unknown as Env;
+
+function memoryStore(initial: Record<string, string> = {}): IntegrationValueStore & { values: Record<string, string> } {
+	const values = { ...initial };
+	return {
+		values,
+		async get(integrationId, fields) {
+			const result: Record<string, string> = {};
+			for (const field of fields) {
+				const value = values[`${integrationId}:${field}`];
+				if (value !== undefined) result[field] = value;
+			}
+			return result;
+		},
+		async set(integrationId, field, value) {
+			values[`${integrationId}:${field}`] = value;
+		},
+	};
+}
+
+function request(overrides: Partial<IntegrationProxyRequest>): IntegrationProxyRequest {
+	return { method: 'POST', path: '/', search: '', contentType: 'application/json', body: '{}', ...overrides };
+}
+
+describe('resolveIntegrationUrl', () => {
+	it('rejects methods and paths outside the allowlist', () => {
+		expect(() => resolveIntegrationUrl(DEFAULT_INTEGRATIONS.plaid, 'GET', '/item/get')).toThrow(IntegrationProxyError);
+		expect(() => resolveIntegrationUrl(DEFAULT_INTEGRATIONS.plaid, 'POST', '/item/remove')).toThrow(/not allowed/);
+		expect(resolveIntegrationUrl(DEFAULT_INTEGRATIONS.plaid, 'POST', '/item/get').toString()).toBe('https://sandbox.plaid.com/item/get');
+	});
+
+	it('rejects traversal out of the allowed prefix', () => {
+		expect(() => resolveIntegrationUrl(DEFAULT_INTEGRATIONS.openai, 'GET', '/v1/../admin')).toThrow('Invalid path');
+		expect(() => resolveIntegrationUrl(DEFAULT_INTEGRATIONS.openai, 'GET', '/v1/%2e%2e/admin')).toThrow('Invalid path');
+		expect(() => resolveIntegrationUrl(DEFAULT_INTEGRATIONS.openai, 'GET', '//evil.example/v1/')).toThrow('Invalid path');
+	});
+});
+
+describe('forwardIntegrationRequest', () => {
+	it('injects credentials and keeps stored fields away from the app', async () => {
+		const store = memoryStore();
+		const calls: { url: string; body: string }[] = [];
+		const fetchStub = (async (url: string, init: RequestInit) => {
+			calls.push({ url, body: init.body as string });
+			return new Response(JSON.stringify({ access_token: 'access-sandbox-1', item_id: 'item-1' }), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}) as unknown as typeof fetch;
+		const deps = {
+			env,
+			values: store,
+			fetch: fetchStub,
+			resolveSecret: async (name: string) => (name === 'PLAID_CLIENT_ID' ? 'client' : 'secret'),
+		};
+
+		const exchanged = await forwardIntegrationRequest(
+			'plaid',
+			DEFAULT_INTEGRATIONS.plaid,
+			request({ path: '/item/public_token/exchange', body: JSON.stringify({ public_token: 'public-1', secret: 'spoofed' }) }),
+			deps,
+		);
+
+		expect(JSON.parse(calls[0].body)).toEqual({ public_token: 'public-1', client_id: 'client', secret: 'secret' });
+		expect(JSON.parse(exchanged.body)).toEqual({ item_id: 'item-1' });
+		expect(store.values['plaid:access_token']).toBe('access-sandbox-1');
+
+		await forwardIntegrationRequest('plaid', DEFAULT_INTEGRATIONS.plaid, request({ path: '/accounts/get' }), deps);
+		expect(JSON.parse(calls[1].body)).toMatchObject({ access_token: 'access-sandbox-1' });
+
+		// Stored values only go to the paths that ask for them
+		await forwardIntegrationRequest('plaid', DEFAULT_INTEGRATIONS.plaid, request({ path: '/link/token/create' }), deps);
+		expect(JSON.parse(calls[2].body)).not.toHaveProperty('access_token');
+	});
+
+	it('fails with 424 when a secret is missing or has the wrong prefix', async () => {
+		const deps = (secret: string | null) => ({
+			env,
+			values: memoryStore(),
+			fetch: (async () => new Response('{}')) as unknown as typeof fetch,
+			resolveSecret: async () => secret,
+		});
+		const stripeRequest = request({ method: 'GET', path: '/v1/charges', body: null });
+
+		await expect(forwardIntegrationRequest('stripe', DEFAULT_INTEGRATIONS.stripe, stripeRequest, deps(null))).rejects.toMatchObject({ status: 424 });
+		await expect(forwardIntegrationRequest('stripe', DEFAULT_INTEGRATIONS.stripe, stripeRequest, deps('sk_live_1'))).rejects.toThrow(/sk_test_/);
+	});
+});
+
+describe('integration tokens', () => {
+	it('round-trips claims and rejects tampered tokens', async () => {
+		const token = await createIntegrationToken(env, { appId: 'app-1', userId: 'user-1', integrations: ['plaid'] });
+
+		expect(await verifyIntegrationToken(env, token)).toEqual({ appId: 'app-1', userId: 'user-1', integrations: ['plaid'] });
+		expect(await verifyIntegrationToken({ JWT_SECRET: 'other' } as unknown as Env, token)).toBeNull();
+	});
+
+	it('rejects expired tokens', async () => {
+		const token = await createIntegrationToken(env, { appId: 'app-1', userId: 'user-1', integrations: [] }, -10);
+		expect(await verifyIntegrationToken(env, token)).toBeNull();
+	});
+});
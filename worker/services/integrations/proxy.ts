@@ -0,0 +1,175 @@
+/**
+ * Integration proxy - forwards preview app requests to third-party APIs with
+ * the credentials added on the platform side
+ */
+
+import { getEnvSecret, resolveSecretPlaceholders } from '../../utils/secretTemplates';
+import type {
+    IntegrationDefinition,
+    IntegrationProxyRequest,
+    IntegrationProxyResponse,
+} from './types';
+
+const METHODS_WITH_BODY = new Set(['POST', 'PUT', 'PATCH']);
+
+export interface IntegrationValueStore {
+    get(integrationId: string, fields: string[]): Promise<Record<string, string>>;
+    set(integrationId: string, field: string, value: string): Promise<void>;
+}
+
+export interface IntegrationProxyDeps {
+    env: Env;
+    /** Looks up a vault secret by env var name, null when missing or the vault stays locked */
+    resolveSecret: (envVarName: string) => Promise<string | null>;
+    values: IntegrationValueStore;
+    fetch?: typeof fetch;
+}
+
+export class IntegrationProxyError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'IntegrationProxyError';
+    }
+}
+
+/**
+ * Whether a path is one of the prefixes, a trailing slash matches everything below it
+ */
+function matchesPaths(prefixes: string[], path: string): boolean {
+    return prefixes.some((prefix) =>
+        prefix.endsWith('/') ? path.startsWith(prefix) : path === prefix || path.startsWith(`${prefix}/`)
+    );
+}
+
+/**
+ * Build the upstream URL, rejecting methods and paths the integration doesn't allow
+ */
+export function resolveIntegrationUrl(
+    definition: IntegrationDefinition,
+    method: string,
+    path: string,
+    search = ''
+): URL {
+    if (definition.allowedMethods && !definition.allowedMethods.includes(method as never)) {
+        throw new IntegrationProxyError(`Method ${method} is not allowed for ${definition.name}`, 405);
+    }
+
+    let decodedPath: string;
+    try {
+        decodedPath = decodeURIComponent(path);
+    } catch {
+        throw new IntegrationProxyError('Invalid path', 400);
+    }
+    if (!path.startsWith('/') || decodedPath.split('/').some((segment) => segment === '..' || segment === '.')) {
+        throw new IntegrationProxyError('Invalid path', 400);
+    }
+
+    const base = new URL(definition.baseUrl);
+    const basePath = base.pathname.replace(/\/$/, '');
+    const url = new URL(`${basePath}${path}${search}`, base.origin);
+    if (url.origin !== base.origin || !url.pathname.startsWith(`${basePath}/`)) {
+        throw new IntegrationProxyError('Invalid path', 400);
+    }
+
+    if (definition.allowedPaths && !matchesPaths(definition.allowedPaths, path)) {
+        throw new IntegrationProxyError(`Path ${path} is not allowed for ${definition.name}`, 403);
+    }
+
+    return url;
+}
+
+async function resolveCredentials(
+    definition: IntegrationDefinition,
+    templates: Record<string, string> | undefined,
+    deps: IntegrationProxyDeps
+): Promise<Record<string, string>> {
+    const resolved: Record<string, string> = {};
+
+    for (const [key, template] of Object.entries(templates ?? {})) {
+        resolved[key] = await resolveSecretPlaceholders(template, async (kind, name) => {
+            const value = kind === 'env' ? getEnvSecret(deps.env, name) : await deps.resolveSecret(name);
+            if (value === null) {
+                throw new IntegrationProxyError(`Secret ${name} for ${definition.name} is not available, add it to your vault`, 424);
+            }
+            if (definition.requiredSecretPrefix && !value.startsWith(definition.requiredSecretPrefix)) {
+                throw new IntegrationProxyError(`Secret ${name} for ${definition.name} must start with ${definition.requiredSecretPrefix}`, 424);
+            }
+            return value;
+        });
+    }
+
+    return resolved;
+}
+
+function parseJsonObject(body: string | null): Record<string, unknown> | null {
+    if (!body) {
+        return {};
+    }
+    try {
+        const parsed: unknown = JSON.parse(body);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Forward a preview app request upstream. Stored fields in the response are
+ * kept by the platform and removed before the app sees it.
+ */
+export async function forwardIntegrationRequest(
+    integrationId: string,
+    definition: IntegrationDefinition,
+    request: IntegrationProxyRequest,
+    deps: IntegrationProxyDeps
+): Promise<IntegrationProxyResponse> {
+    const method = request.method.toUpperCase();
+    const url = resolveIntegrationUrl(definition, method, request.path, request.search);
+
+    const headers = new Headers(await resolveCredentials(definition, definition.headers, deps));
+    headers.set('Accept', 'application/json');
+
+    let body: string | null = null;
+    if (METHODS_WITH_BODY.has(method)) {
+        body = request.body;
+        const bodyFields = await resolveCredentials(definition, definition.bodyFields, deps);
+        const injectStored = !!definition.storedFields?.length && matchesPaths(definition.storedFieldPaths ?? [], request.path);
+        const storedValues = injectStored ? await deps.values.get(integrationId, definition.storedFields!) : {};
+
+        if (Object.keys(bodyFields).length > 0 || Object.keys(storedValues).length > 0) {
+            const json = parseJsonObject(request.body);
+            if (!json) {
+                throw new IntegrationProxyError(`${definition.name} requests must have a JSON object body`, 400);
+            }
+            // Stored values fill gaps, credentials always win over app-supplied fields
+            body = JSON.stringify({ ...storedValues, ...json, ...bodyFields });
+            headers.set('Content-Type', 'application/json');
+        } else if (request.contentType) {
+            headers.set('Content-Type', request.contentType);
+        }
+    }
+
+    const upstream = await (deps.fetch ?? fetch)(url.toString(), { method, headers, body });
+    const contentType = upstream.headers.get('Content-Type');
+    let responseBody = await upstream.text();
+
+    if (definition.storedFields?.length && upstream.ok) {
+        const json = parseJsonObject(responseBody);
+        if (json) {
+            let changed = false;
+            for (const field of definition.storedFields) {
+                const value = json[field];
+                if (typeof value === 'string') {
+                    await deps.values.set(integrationId, field, value);
+                    delete json[field];
+                    changed = true;
+                }
+            }
+            if (changed) {
+                responseBody = JSON.stringify(json);
+            }
+        }
+    }
+
+    return { status: upstream.status, contentType, body: responseBody };
+}
@@ -0,0 +1,64 @@
+import { jwtVerify, SignJWT } from 'jose';
+import type { IntegrationTokenClaims } from './types';
+
+const TOKEN_AUDIENCE = 'integration-proxy';
+const DEFAULT_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+function getSigningKey(env: Env): Uint8Array {
+    if (!env.JWT_SECRET) {
+        throw new Error('JWT_SECRET not configured');
+    }
+    return new TextEncoder().encode(env.JWT_SECRET);
+}
+
+/**
+ * Sign the token injected into a preview app. It only works against the
+ * integration proxy, for one app and the listed integrations.
+ */
+export async function createIntegrationToken(
+    env: Env,
+    claims: IntegrationTokenClaims,
+    expiresInSeconds: number = DEFAULT_TOKEN_TTL_SECONDS
+): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return new SignJWT({
+        appId: claims.appId,
+        integrations: claims.integrations,
+    })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setSubject(claims.userId)
+        .setAudience(TOKEN_AUDIENCE)
+        .setIssuedAt(now)
+        .setExpirationTime(now + expiresInSeconds)
+        .sign(getSigningKey(env));
+}
+
+/**
+ * Verify a preview app token, null when it is invalid or expired
+ */
+export async function verifyIntegrationToken(env: Env, token: string): Promise<IntegrationTokenClaims | null> {
+    try {
+        const { payload } = await jwtVerify(token, getSigningKey(env), {
+            audience: TOKEN_AUDIENCE,
+            algorithms: ['HS256'],
+        });
+
+        if (
+            typeof payload.sub !== 'string' ||
+            typeof payload.appId !== 'string' ||
+            !Array.isArray(payload.integrations) ||
+            !payload.integrations.every((id) => typeof id === 'string')
+        ) {
+            return null;
+        }
+
+        return {
+            appId: payload.appId,
+            userId: payload.sub,
+            integrations: payload.integrations as string[],
+        };
+    } catch {
+        return null;
+    }
+}
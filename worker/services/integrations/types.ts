@@ -0,0 +1,73 @@
+/**
+ * Integration proxy types
+ *
+ * Integrations are third-party APIs that preview apps call through the
+ * platform. The platform adds the credentials, so generated code never sees them.
+ */
+
+export type IntegrationHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A config-declared integration. Header and body field values may reference
+ * vault secrets as {{secret:ENV_VAR_NAME}} or worker secrets as {{env:NAME}}.
+ */
+export interface IntegrationDefinition {
+    /** Display name */
+    name: string;
+    enabled: boolean;
+    /** Upstream API base URL, the app's request path is appended to it */
+    baseUrl: string;
+    /** Headers added to every upstream request */
+    headers?: Record<string, string>;
+    /** Fields merged into every JSON request body, for APIs that take credentials in the body */
+    bodyFields?: Record<string, string>;
+    /** Path prefixes the app may call, every path when omitted */
+    allowedPaths?: string[];
+    /** Methods the app may use, every method when omitted */
+    allowedMethods?: IntegrationHttpMethod[];
+    /**
+     * Response fields the platform keeps instead of returning them, such as
+     * access tokens. Stored values are only sent back on storedFieldPaths.
+     */
+    storedFields?: string[];
+    /** Paths whose JSON request bodies get the stored values, matched like allowedPaths */
+    storedFieldPaths?: string[];
+    /** Every resolved secret must start with this prefix, e.g. sk_test_ to keep Stripe in test mode */
+    requiredSecretPrefix?: string;
+}
+
+/**
+ * Integrations keyed by ID, the ID is the first path segment after /api/proxy/integrations
+ */
+export type IntegrationDefinitions = Record<string, IntegrationDefinition>;
+
+/**
+ * Claims of the token injected into preview apps
+ */
+export interface IntegrationTokenClaims {
+    appId: string;
+    userId: string;
+    /** Integration IDs the token may call */
+    integrations: string[];
+}
+
+/**
+ * Request forwarded from the worker to the agent that owns the app
+ */
+export interface IntegrationProxyRequest {
+    method: string;
+    /** Path below the integration's base URL, starting with / */
+    path: string;
+    /** Query string including the leading ?, or empty */
+    search: string;
+    contentType: string | null;
+    body: string | null;
+}
+
+export interface IntegrationProxyResponse {
+    status: number;
+    contentType: string | null;
+    body: string;
+    /** Set when the platform refused or failed the call before reaching upstream */
+    error?: string;
+}
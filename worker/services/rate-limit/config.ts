@@ -49,6 +49,7 @@ export enum RateLimitType {
 	AUTH_RATE_LIMIT = 'authRateLimit',
 	APP_CREATION = 'appCreation',
 	LLM_CALLS = 'llmCalls',
+	COMMENTS = 'comments',
 }
 
 export interface RateLimitSettings {
@@ -56,6 +57,7 @@ export interface RateLimitSettings {
 	[RateLimitType.AUTH_RATE_LIMIT]: RLRateLimitConfig;
 	[RateLimitType.APP_CREATION]: DORateLimitConfig | KVRateLimitConfig;
 	[RateLimitType.LLM_CALLS]: LLMCallsRateLimitConfig;
+	[RateLimitType.COMMENTS]: DORateLimitConfig | KVRateLimitConfig;
 }
 
 export const DEFAULT_RATE_LIMIT_SETTINGS: RateLimitSettings = {
@@ -84,4 +86,11 @@ export const DEFAULT_RATE_LIMIT_SETTINGS: RateLimitSettings = {
         dailyLimit: 1700,
 		excludeBYOKUsers: true,
 	},
+	comments: {
+		enabled: true,
+		store: RateLimitStore.DURABLE_OBJECT,
+		limit: 20,
+		period: 10 * 60, // 10 minutes
+		dailyLimit: 200,
+	},
 };
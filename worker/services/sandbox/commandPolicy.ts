@@ -0,0 +1,237 @@
+/**
+ * Command policy for the interactive sandbox terminal
+ *
+ * Patterns are regular expression sources (case-insensitive) so they can be
+ * stored in KV config. Compound commands are split into their simple commands
+ * and every one of them has to pass. Each simple command is checked with its
+ * program reduced to a basename, at every level of wrappers like `env` or
+ * `sudo`, and the scripts of `sh -c`, `bash -c` and `eval` are checked too.
+ *
+ * This is a guardrail for typed commands, not an isolation boundary: inline
+ * interpreter code (`node -e`, `python -c`) is denied by default, but
+ * interpreters running project files (`node server.js`, `bun run dev`) can
+ * still reach the network.
+ */
+
+export interface CommandPolicy {
+    /** When non-empty, every simple command must match one of these */
+    allow: string[];
+    /** Simple commands matching any of these are rejected */
+    deny: string[];
+}
+
+export interface TerminalSettings {
+    enabled: boolean;
+    /** Commands still running after this long are killed */
+    timeoutSeconds: number;
+    policy: CommandPolicy;
+}
+
+export type CommandPolicyDecision =
+    | { allowed: true }
+    | { allowed: false; reason: string };
+
+export const DEFAULT_TERMINAL_SETTINGS: TerminalSettings = {
+    enabled: true,
+    timeoutSeconds: 300,
+    policy: {
+        allow: [],
+        deny: [
+            // Network egress - package managers go through their own registries
+            '^(curl|wget|nc|ncat|netcat|socat|telnet|ssh|scp|sftp|rsync|ftp|lftp)\\b',
+            // Inline interpreter code, e.g. node -e "fetch(...)"
+            '^(node|nodejs|bun|deno)\\s+(-\\S+\\s+)*(-e|--eval|-p|--print|eval)(\\s|=|$)',
+            '^(python[0-9.]*|perl|ruby|php)\\s+(-\\S+\\s+)*(-c|-e|-E|-r)(\\s|$)',
+            // Privilege escalation
+            '^(sudo|su|doas)\\b',
+            // Recursive deletes of the filesystem or home directory
+            '^rm\\s+(-\\S+\\s+)*(/|/\\*|~|~/|~/\\*|\\$HOME/?)(\\s|$)',
+            '--no-preserve-root',
+            // Disk and machine level operations
+            '^(mkfs(\\.\\w+)?|fdisk|parted|shutdown|reboot|halt|poweroff|init)\\b',
+            '^dd\\b.*\\bof=/dev/',
+            '^(chmod|chown)\\s+(-\\S+\\s+)*\\S+\\s+/(\\s|$)',
+            // Fork bomb
+            ':\\(\\)\\s*\\{',
+        ],
+    },
+};
+
+const SEPARATORS = /&&|\|\||[;|&\n]|\$\(|`|\)/;
+const ENV_ASSIGNMENT = /^(?:[A-Za-z_][A-Za-z0-9_]*=(?:'[^']*'|"[^"]*"|\S*)\s+)+/;
+
+/**
+ * Split a shell line into its simple commands, dropping leading env
+ * assignments and grouping characters
+ */
+export function splitShellCommands(command: string): string[] {
+    return command
+        .split(SEPARATORS)
+        .map(part => part.trim().replace(/^[({!\s]+/, '').replace(ENV_ASSIGNMENT, '').trim())
+        .filter(part => part.length > 0);
+}
+
+// Programs that run the command given in their arguments, with their options that take a value
+const COMMAND_WRAPPERS = new Map<string, string[]>([
+    ['env', ['-u', '--unset', '-C', '--chdir']],
+    ['command', []],
+    ['exec', ['-a']],
+    ['sudo', ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U']],
+    ['doas', ['-u', '-C']],
+    ['nohup', []],
+    ['nice', ['-n']],
+    ['time', []],
+    ['timeout', ['-s', '-k', '--signal', '--kill-after']],
+    ['stdbuf', []],
+    ['xargs', ['-I', '-n', '-P', '-d', '-E', '-L', '-s']],
+]);
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash']);
+const WORD = /'[^']*'|"[^"]*"|\S+/g;
+const MAX_SCRIPT_DEPTH = 3;
+
+function unquote(word: string): string {
+    return word.replace(/^\\/, '').replace(/^['"]+|['"]+$/g, '');
+}
+
+/**
+ * A simple command at each level of wrapper programs, outermost first, with
+ * the program reduced to its basename: `env /usr/bin/curl x` gives
+ * `env /usr/bin/curl x` and `curl x`
+ */
+export function commandForms(segment: string): string[] {
+    const words = segment.match(WORD) ?? [];
+    const forms: string[] = [];
+    let index = 0;
+    while (index < words.length) {
+        const program = unquote(words[index]).split('/').pop() ?? '';
+        forms.push([program, ...words.slice(index + 1)].join(' '));
+
+        const valueOptions = COMMAND_WRAPPERS.get(program);
+        if (!valueOptions) break;
+
+        // Skip the wrapper's own options, env assignments and timeout's duration
+        index++;
+        while (index < words.length) {
+            const word = words[index];
+            if (valueOptions.includes(word)) {
+                index += 2;
+            } else if (word.startsWith('-') || /^[A-Za-z_][A-Za-z0-9_]*=/.test(word) || (program === 'timeout' && /^\d/.test(word))) {
+                index++;
+            } else {
+                break;
+            }
+        }
+    }
+    return forms;
+}
+
+/**
+ * Script run by `sh -c '...'` (any shell and flag combination) or `eval ...`
+ */
+function inlineScript(command: string): string | null {
+    const [program = '', ...args] = command.match(WORD) ?? [];
+    if (program === 'eval') {
+        return args.length > 0 ? unquote(args.join(' ')) : null;
+    }
+    if (!SHELLS.has(program)) return null;
+
+    const flag = args.findIndex(arg => /^-[a-z]*c[a-z]*$/i.test(arg));
+    if (flag === -1 || flag + 1 >= args.length) return null;
+    return unquote(args.slice(flag + 1).join(' '));
+}
+
+/**
+ * Every simple command of a line as its wrapper levels, including the
+ * commands of inline shell scripts
+ */
+export function expandShellCommands(command: string, depth = 0): string[][] {
+    const commands: string[][] = [];
+    for (const segment of splitShellCommands(command)) {
+        const forms = commandForms(segment);
+        if (forms.length === 0) continue;
+        commands.push(forms);
+
+        const script = depth < MAX_SCRIPT_DEPTH ? inlineScript(forms[forms.length - 1]) : null;
+        if (script) {
+            commands.push(...expandShellCommands(script, depth + 1));
+        }
+    }
+    return commands;
+}
+
+function compile(patterns: string[]): RegExp[] {
+    const compiled: RegExp[] = [];
+    for (const pattern of patterns) {
+        try {
+            compiled.push(new RegExp(pattern, 'i'));
+        } catch {
+            // Invalid patterns in stored config are ignored rather than blocking the terminal
+        }
+    }
+    return compiled;
+}
+
+/**
+ * Check a command against one or more policies, all of which must allow it
+ */
+export function evaluateCommand(command: string, policies: CommandPolicy[]): CommandPolicyDecision {
+    const trimmed = command.trim();
+    if (!trimmed) {
+        return { allowed: false, reason: 'Empty command' };
+    }
+
+    const commands = expandShellCommands(trimmed);
+    // Allow lists match the program that actually runs, behind any wrappers
+    const programs = commands.map(forms => forms[forms.length - 1]);
+    for (const policy of policies) {
+        const deny = compile(policy.deny);
+        const allow = compile(policy.allow);
+
+        for (const candidate of [trimmed, ...commands.flat()]) {
+            const denied = deny.find(pattern => pattern.test(candidate));
+            if (denied) {
+                return { allowed: false, reason: `"${candidate}" is blocked by the terminal policy (${denied.source})` };
+            }
+        }
+
+        if (allow.length > 0) {
+            const notAllowed = programs.find(program => !allow.some(pattern => pattern.test(program)));
+            if (notAllowed) {
+                return { allowed: false, reason: `"${notAllowed}" is not in the terminal allow list` };
+            }
+        }
+    }
+
+    return { allowed: true };
+}
+
+const MAX_POLICY_PATTERNS = 100;
+
+/**
+ * Validate a policy sent by a client, every pattern must be a valid regular expression
+ */
+export function parseCommandPolicy(input: unknown): { policy: CommandPolicy } | { error: string } {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return { error: 'Terminal policy must be an object with allow and deny lists' };
+    }
+
+    const policy: CommandPolicy = { allow: [], deny: [] };
+    for (const key of ['allow', 'deny'] as const) {
+        const patterns = (input as Record<string, unknown>)[key] ?? [];
+        if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string')) {
+            return { error: `Terminal policy ${key} must be a list of patterns` };
+        }
+        if (patterns.length > MAX_POLICY_PATTERNS) {
+            return { error: `Terminal policy ${key} can have at most ${MAX_POLICY_PATTERNS} patterns` };
+        }
+        for (const pattern of patterns as string[]) {
+            try {
+                new RegExp(pattern, 'i');
+            } catch {
+                return { error: `Invalid terminal policy pattern: ${pattern}` };
+            }
+        }
+        policy[key] = patterns as string[];
+    }
+    return { policy };
+}
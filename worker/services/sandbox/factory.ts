@@ -1,9 +1,15 @@
 import { SandboxSdkClient } from "./sandboxSdkClient";
 import { RemoteSandboxServiceClient } from "./remoteSandboxService";
+import { WorkerLoaderSandboxService } from "./workerLoaderService";
 import { BaseSandboxService } from "./BaseSandboxService";
+import { RuntimeType } from 'worker/agents/core/types';
 import { env } from 'cloudflare:workers'
 
-export function getSandboxService(sessionId: string, agentId: string): BaseSandboxService {
+export function getSandboxService(sessionId: string, agentId: string, runtime: RuntimeType = 'sandbox'): BaseSandboxService {
+    if (runtime === 'worker') {
+        console.log("[getSandboxService] Using worker loader runtime for backend-only project");
+        return new WorkerLoaderSandboxService(sessionId);
+    }
     if (env.SANDBOX_SERVICE_TYPE == 'runner') {
         console.log("[getSandboxService] Using runner service for sandboxing");
         return new RemoteSandboxServiceClient(sessionId);
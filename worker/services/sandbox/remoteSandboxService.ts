@@ -11,6 +11,7 @@ import {
     ClearErrorsResponse,
     StaticAnalysisResponse,
     DeploymentResult,
+    DeploymentCredentials,
     GetLogsResponse,
     ListInstancesResponse,
     BootstrapResponseSchema,
@@ -190,7 +191,7 @@ export class RemoteSandboxServiceClient extends BaseSandboxService{
      * @param instanceId The ID of the runner instance to deploy
      * @param credentials Optional Cloudflare deployment credentials
      */
-    async deployToCloudflareWorkers(instanceId: string, target: DeploymentTarget = 'platform'): Promise<DeploymentResult> {
+    async deployToCloudflareWorkers(instanceId: string, target: DeploymentTarget = 'platform', _credentials?: DeploymentCredentials): Promise<DeploymentResult> {
         if (target === 'user') {
             return {
                 success: false,
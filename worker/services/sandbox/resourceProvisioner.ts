@@ -37,10 +37,13 @@ export class ResourceProvisioner {
     private accountId: string;
     private apiToken: string;
 
-    constructor(logger: StructuredLogger) {
+    /**
+     * @param credentials Account to provision into; defaults to the platform account
+     */
+    constructor(logger: StructuredLogger, credentials?: { accountId: string; apiToken: string }) {
         this.logger = logger;
-        this.accountId = env.CLOUDFLARE_ACCOUNT_ID;
-        this.apiToken = env.CLOUDFLARE_API_TOKEN;
+        this.accountId = credentials?.accountId ?? env.CLOUDFLARE_ACCOUNT_ID;
+        this.apiToken = credentials?.apiToken ?? env.CLOUDFLARE_API_TOKEN;
         
         if (!this.accountId || !this.apiToken) {
             this.logger.error('Missing required environment variables for resource provisioning', {
@@ -62,11 +65,11 @@ export class ResourceProvisioner {
         };
     }
 
-    async createKVNamespace(projectName: string): Promise<ResourceProvisionResult> {
+    async createKVNamespace(projectName: string, title?: string): Promise<ResourceProvisionResult> {
         try {
             this.logger.info(`Creating KV namespace for project: ${projectName}`);
             
-            const namespaceName = `${projectName}-kv-${Date.now()}`;
+            const namespaceName = title ?? `${projectName}-kv-${Date.now()}`;
             const url = `https://api.cloudflare.com/client/v4/accounts/${this.accountId}/storage/kv/namespaces`;
             
             const response = await fetch(url, {
@@ -114,11 +117,11 @@ export class ResourceProvisioner {
         }
     }
 
-    async createD1Database(projectName: string): Promise<ResourceProvisionResult> {
+    async createD1Database(projectName: string, name?: string): Promise<ResourceProvisionResult> {
         try {
             this.logger.info(`Creating D1 database for project: ${projectName}`);
             
-            const databaseName = `${projectName}-db-${Date.now()}`;
+            const databaseName = name ?? `${projectName}-db-${Date.now()}`;
             const url = `https://api.cloudflare.com/client/v4/accounts/${this.accountId}/d1/database`;
             
             const response = await fetch(url, {
@@ -179,4 +182,46 @@ export class ResourceProvisioner {
                 };
         }
     }
-}
\ No newline at end of file
+
+    async findKVNamespace(title: string): Promise<string | null> {
+        const url = `https://api.cloudflare.com/client/v4/accounts/${this.accountId}/storage/kv/namespaces?per_page=100`;
+        const response = await fetch(url, { headers: this.getCloudflareHeaders() });
+        if (!response.ok) {
+            this.logger.warn(`Failed to list KV namespaces: HTTP ${response.status}`);
+            return null;
+        }
+
+        const result: { result?: Array<{ id: string; title: string }> } = await response.json();
+        return result.result?.find((namespace) => namespace.title === title)?.id ?? null;
+    }
+
+    async findD1Database(name: string): Promise<string | null> {
+        const url = `https://api.cloudflare.com/client/v4/accounts/${this.accountId}/d1/database?name=${encodeURIComponent(name)}`;
+        const response = await fetch(url, { headers: this.getCloudflareHeaders() });
+        if (!response.ok) {
+            this.logger.warn(`Failed to list D1 databases: HTTP ${response.status}`);
+            return null;
+        }
+
+        const result: { result?: Array<{ uuid: string; name: string }> } = await response.json();
+        return result.result?.find((database) => database.name === name)?.uuid ?? null;
+    }
+
+    /**
+     * Reuse the resource with this exact name if it exists, otherwise create it.
+     * Keeps redeploys to the same account from piling up namespaces and databases.
+     */
+    async ensureResource(resourceType: 'KV' | 'D1', projectName: string, name: string): Promise<ResourceProvisionResult> {
+        const existingId = resourceType === 'KV'
+            ? await this.findKVNamespace(name)
+            : await this.findD1Database(name);
+        if (existingId) {
+            this.logger.info(`Reusing existing ${resourceType} resource`, { name, resourceId: existingId });
+            return { success: true, resourceId: existingId };
+        }
+
+        return resourceType === 'KV'
+            ? this.createKVNamespace(projectName, name)
+            : this.createD1Database(projectName, name);
+    }
+}
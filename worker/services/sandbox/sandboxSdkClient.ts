@@ -13,6 +13,7 @@ import {
     ClearErrorsResponse,
     StaticAnalysisResponse,
     DeploymentResult,
+    DeploymentCredentials,
     FileTreeNode,
     RuntimeError,
     CommandExecutionResult,
@@ -28,7 +29,7 @@ import {
 
 import { createObjectLogger } from '../../logger';
 import { env } from 'cloudflare:workers'
-import { BaseSandboxService } from './BaseSandboxService';
+import { BaseSandboxService, type CommandStreamOptions, type CommandStreamResult } from './BaseSandboxService';
 
 import { 
     buildDeploymentConfig, 
@@ -41,6 +42,7 @@ import {
 } from '../deployer/utils/index';
 import { generateId } from '../../utils/idGenerator';
 import { ResourceProvisioner } from './resourceProvisioner';
+import { resolveUserAccountTarget, provisionUserAccountBindings, publishUserWorker } from './userAccountDeployment';
 import { TemplateParser } from './templateParser';
 import { ResourceProvisioningResult } from './types';
 import { getPreviewDomain, migratePreviewUrl } from '../../utils/urls';
@@ -1493,6 +1495,57 @@ export class SandboxSdkClient extends BaseSandboxService {
         }
     }
 
+    /**
+     * Run the command as a sandbox process and follow its log stream, so output
+     * arrives as it is written and cancellation can kill the process
+     */
+    async executeCommandStream(instanceId: string, command: string, options: CommandStreamOptions): Promise<CommandStreamResult> {
+        const session = await this.getInstanceSession(instanceId);
+        const process = await session.startProcess(command);
+
+        let cancelled = false;
+        let timedOut = false;
+        const kill = () => {
+            session.killProcess(process.id).catch((error: unknown) => {
+                this.logger.warn('Failed to kill terminal process', { processId: process.id, error });
+            });
+        };
+        const onAbort = () => {
+            cancelled = true;
+            kill();
+        };
+        if (options.signal?.aborted) {
+            onAbort();
+        } else {
+            options.signal?.addEventListener('abort', onAbort, { once: true });
+        }
+        const timer = options.timeoutMs ? setTimeout(() => {
+            timedOut = true;
+            kill();
+        }, options.timeoutMs) : undefined;
+
+        let exitCode: number | null = null;
+        try {
+            const logStream = await session.streamProcessLogs(process.id);
+            for await (const event of parseSSEStream<LogEvent>(logStream)) {
+                if (event.type === 'stdout' || event.type === 'stderr') {
+                    options.onOutput(event.type, event.data);
+                } else if (event.type === 'error') {
+                    options.onOutput('stderr', event.data);
+                } else if (event.type === 'exit') {
+                    exitCode = event.exitCode ?? null;
+                    break;
+                }
+            }
+        } finally {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+        }
+
+        this.logger.info('Terminal command finished', { command, exitCode, cancelled, timedOut });
+        return { exitCode, cancelled, timedOut };
+    }
+
     // ==========================================
     // ERROR MANAGEMENT
     // ==========================================
@@ -1753,7 +1806,11 @@ export class SandboxSdkClient extends BaseSandboxService {
     // ==========================================
     // DEPLOYMENT
     // ==========================================
-    async deployToCloudflareWorkers(instanceId: string, target: DeploymentTarget = 'platform'): Promise<DeploymentResult> {
+    async deployToCloudflareWorkers(
+        instanceId: string,
+        target: DeploymentTarget = 'platform',
+        credentials?: DeploymentCredentials
+    ): Promise<DeploymentResult> {
         try {
             this.logger.info('Starting deployment', { instanceId });
             
@@ -1761,9 +1818,13 @@ export class SandboxSdkClient extends BaseSandboxService {
             const metadata = await this.getInstanceMetadata(instanceId);
             const projectName = metadata?.projectName || instanceId;
             
-            // Get credentials from environment (secure - no exposure to external processes)
-            const accountId = env.CLOUDFLARE_ACCOUNT_ID;
-            const apiToken = env.CLOUDFLARE_API_TOKEN;
+            // User-supplied credentials deploy into the user's own account; otherwise use the
+            // platform credentials from environment (secure - no exposure to external processes)
+            const userAccount = target === 'user' && credentials?.apiToken
+                ? await resolveUserAccountTarget(credentials, this.logger)
+                : null;
+            const accountId = userAccount?.accountId ?? env.CLOUDFLARE_ACCOUNT_ID;
+            const apiToken = userAccount?.apiToken ?? env.CLOUDFLARE_API_TOKEN;
             
             if (!accountId || !apiToken) {
                 throw new Error('CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN must be set in environment');
@@ -1796,7 +1857,10 @@ export class SandboxSdkClient extends BaseSandboxService {
                 this.logger.info('Using wrangler configuration from KV');
             }
             
-            const config = parseWranglerConfig(wranglerConfigContent);
+            const parsedConfig = parseWranglerConfig(wranglerConfigContent);
+            const config = userAccount
+                ? await provisionUserAccountBindings(parsedConfig, userAccount, this.logger)
+                : parsedConfig;
             
             this.logger.info('Worker configuration', { scriptName: config.name });
             this.logger.info('Worker compatibility', { compatibilityDate: config.compatibility_date });
@@ -1923,14 +1987,16 @@ export class SandboxSdkClient extends BaseSandboxService {
             }
             
             // Step 8: Determine deployment URL
-            const deployedUrl = `${this.getProtocolForHost()}://${projectName}.${getPreviewDomain(env)}`;
-            const deploymentId = projectName;
+            const deployedUrl = userAccount
+                ? await publishUserWorker(config.name, userAccount)
+                : `${this.getProtocolForHost()}://${projectName}.${getPreviewDomain(env)}`;
+            const deploymentId = userAccount ? config.name : projectName;
             
             this.logger.info('Deployment successful', { 
                 instanceId,
                 deployedUrl, 
                 deploymentId,
-                mode: useDispatch ? 'dispatch-namespace' : 'user-worker'
+                mode: useDispatch ? 'dispatch-namespace' : userAccount ? 'user-account' : 'user-worker'
             });
             
             return {
@@ -99,6 +99,7 @@ export const TemplateInfoSchema = z.object({
         usage: z.string(),
     }),
     renderMode: z.enum(['sandbox', 'browser']).optional(),
+    runtime: z.enum(['sandbox', 'worker', 'none']).optional(),
     slideDirectory: z.string().optional(),
     disabled: z.boolean(),
 })
@@ -456,11 +457,16 @@ interface GitHubUserInfo {
 export interface GitHubPushRequest extends GitHubUserInfo {
     cloneUrl: string;
     repositoryHtmlUrl: string;
+    defaultBranch?: string;
+    syncedCommitSha?: string | null;   // Remote head after the last sync, to detect new GitHub commits
+    forcePush?: boolean;               // Overwrite GitHub even if it has moved
 }
 
 export const GitHubPushResponseSchema = z.object({
     success: z.boolean(),
     commitSha: z.string().optional(),
+    branch: z.string().optional(),
+    pullRequestUrl: z.string().optional(),
     error: z.string().optional(),
     details: z.object({
         operation: z.string().optional(),
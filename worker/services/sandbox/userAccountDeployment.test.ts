@@ -0,0 +1,78 @@
+import { createLogger } from '../../logger';
+import type { WranglerConfig } from '../deployer/types';
+import { provisionUserAccountBindings, resolveUserAccountTarget } from './userAccountDeployment';
+
+const logger = createLogger('UserAccountDeploymentTest');
+const target = { accountId: 'acct-123', apiToken: 'token', workersSubdomain: 'ada' };
+
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('resolveUserAccountTarget', () => {
+    it('infers the account when the token grants exactly one', async () => {
+        const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+            const url = String(input);
+            if (url.includes('/workers/subdomain')) return json({ result: { subdomain: 'ada' } });
+            return json({ result: [{ id: 'acct-123', name: 'Ada' }] });
+        });
+
+        const resolved = await resolveUserAccountTarget({ apiToken: 'token' }, logger);
+
+        expect(resolved).toEqual(target);
+        expect(String(fetchMock.mock.calls[1][0])).toContain('/accounts/acct-123/workers/subdomain');
+    });
+
+    it('asks for an account ID when the token spans several accounts', async () => {
+        vi.spyOn(globalThis, 'fetch').mockResolvedValue(json({ result: [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }] }));
+
+        await expect(resolveUserAccountTarget({ apiToken: 'token' }, logger)).rejects.toThrow('CLOUDFLARE_ACCOUNT_ID');
+    });
+
+    it('rejects accounts without a workers.dev subdomain', async () => {
+        vi.spyOn(globalThis, 'fetch').mockResolvedValue(json({ success: false }, 404));
+
+        await expect(resolveUserAccountTarget({ apiToken: 'token', accountId: 'acct-123' }, logger)).rejects.toThrow('workers.dev');
+    });
+});
+
+describe('provisionUserAccountBindings', () => {
+    const config: WranglerConfig = {
+        name: 'todo-app',
+        main: 'src/index.ts',
+        compatibility_date: '2025-08-15',
+        kv_namespaces: [{ binding: 'CACHE', id: 'platform-kv' }],
+        d1_databases: [{ binding: 'DB', database_name: 'platform-db', database_id: 'platform-d1' }],
+    };
+
+    it('reuses existing resources and creates missing ones', async () => {
+        const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+            const url = String(input);
+            if (url.includes('/storage/kv/namespaces')) {
+                return json({ result: [{ id: 'user-kv', title: 'todo-app-cache' }] });
+            }
+            if (init?.method === 'POST') {
+                return json({ success: true, result: { uuid: 'user-d1', name: 'todo-app-db' } });
+            }
+            return json({ result: [] });
+        });
+
+        const rebound = await provisionUserAccountBindings(config, target, logger);
+
+        expect(rebound.kv_namespaces).toEqual([{ binding: 'CACHE', id: 'user-kv' }]);
+        expect(rebound.d1_databases).toEqual([{ binding: 'DB', database_name: 'todo-app-db', database_id: 'user-d1' }]);
+        expect(fetchMock.mock.calls.every(([input]) => String(input).includes('/accounts/acct-123/'))).toBe(true);
+    });
+
+    it('leaves configs without KV or D1 bindings untouched', async () => {
+        const fetchMock = vi.spyOn(globalThis, 'fetch');
+        const plain = { name: 'api', main: 'src/index.ts', compatibility_date: '2025-08-15' };
+
+        expect(await provisionUserAccountBindings(plain, target, logger)).toBe(plain);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
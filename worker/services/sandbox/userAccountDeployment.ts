@@ -0,0 +1,105 @@
+import { StructuredLogger } from '../../logger';
+import { CloudflareAPI } from '../deployer/api/cloudflare-api';
+import type { WranglerConfig } from '../deployer/types';
+import { ResourceProvisioner } from './resourceProvisioner';
+import type { DeploymentCredentials } from './sandboxTypes';
+
+/**
+ * Resolved credentials for deploying into the user's own Cloudflare account
+ */
+export interface UserAccountTarget {
+    accountId: string;
+    apiToken: string;
+    workersSubdomain: string;
+}
+
+/**
+ * Resolve the account to deploy into and make sure it can serve workers.dev URLs.
+ * When no account ID is given, the token must grant access to exactly one account.
+ */
+export async function resolveUserAccountTarget(
+    credentials: DeploymentCredentials | undefined,
+    logger: StructuredLogger
+): Promise<UserAccountTarget> {
+    const apiToken = credentials?.apiToken;
+    if (!apiToken) {
+        throw new Error('A Cloudflare API token is required to deploy to your account');
+    }
+
+    let accountId = credentials?.accountId;
+    if (!accountId) {
+        const accounts = await CloudflareAPI.listAccounts(apiToken);
+        if (accounts.length !== 1) {
+            throw new Error(
+                accounts.length === 0
+                    ? 'The Cloudflare API token does not have access to any account'
+                    : 'The Cloudflare API token can access multiple accounts - add CLOUDFLARE_ACCOUNT_ID to your vault'
+            );
+        }
+        accountId = accounts[0].id;
+    }
+
+    const workersSubdomain = await new CloudflareAPI(accountId, apiToken).getWorkersSubdomain();
+    if (!workersSubdomain) {
+        throw new Error('Your Cloudflare account has no workers.dev subdomain - register one in the Workers dashboard first');
+    }
+
+    logger.info('Resolved user account for deployment', {
+        accountId: accountId.substring(0, 8) + '...',
+        workersSubdomain
+    });
+    return { accountId, apiToken, workersSubdomain };
+}
+
+/**
+ * Point KV and D1 bindings at resources in the user's account.
+ * The stored wrangler config references platform-account resources, which the
+ * user's account cannot bind to. Names are derived from the worker and binding
+ * so redeploys pick up the same resources.
+ */
+export async function provisionUserAccountBindings(
+    config: WranglerConfig,
+    target: UserAccountTarget,
+    logger: StructuredLogger
+): Promise<WranglerConfig> {
+    if (!config.kv_namespaces?.length && !config.d1_databases?.length) {
+        return config;
+    }
+
+    const provisioner = new ResourceProvisioner(logger, target);
+    const resourceName = (binding: string) => `${config.name}-${binding.toLowerCase().replace(/[^a-z0-9-]+/g, '-')}`;
+    const provision = async (resourceType: 'KV' | 'D1', binding: string) => {
+        const name = resourceName(binding);
+        const result = await provisioner.ensureResource(resourceType, config.name, name);
+        if (!result.success || !result.resourceId) {
+            throw new Error(`Failed to provision ${resourceType} binding ${binding}: ${result.error ?? 'Unknown error'}`);
+        }
+        return { name, id: result.resourceId };
+    };
+
+    const kvNamespaces: NonNullable<WranglerConfig['kv_namespaces']> = [];
+    for (const kv of config.kv_namespaces ?? []) {
+        const { id } = await provision('KV', kv.binding);
+        kvNamespaces.push({ binding: kv.binding, id });
+    }
+
+    const d1Databases: NonNullable<WranglerConfig['d1_databases']> = [];
+    for (const d1 of config.d1_databases ?? []) {
+        const { name, id } = await provision('D1', d1.binding);
+        d1Databases.push({ binding: d1.binding, database_name: name, database_id: id });
+    }
+
+    return {
+        ...config,
+        kv_namespaces: config.kv_namespaces ? kvNamespaces : undefined,
+        d1_databases: config.d1_databases ? d1Databases : undefined,
+    };
+}
+
+/**
+ * Enable the workers.dev route for a deployed worker and return its URL
+ */
+export async function publishUserWorker(scriptName: string, target: UserAccountTarget): Promise<string> {
+    await new CloudflareAPI(target.accountId, target.apiToken).enableWorkersDev(scriptName);
+    return `https://${scriptName}.${target.workersSubdomain}.workers.dev`;
+}
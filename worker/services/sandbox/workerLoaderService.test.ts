@@ -0,0 +1,32 @@
+import { parseWorkerPreviewHost, signWorkerPreviewToken } from './workerLoaderService';
+
+describe('parseWorkerPreviewHost', () => {
+    it('reads the instance and token of a preview host', () => {
+        expect(parseWorkerPreviewHost('w-abc-123-tok.build.example.dev', 'build.example.dev')).toEqual({
+            instanceId: 'abc-123',
+            token: 'tok',
+        });
+        expect(parseWorkerPreviewHost('w-abc-tok.localhost', 'localhost')).toEqual({ instanceId: 'abc', token: 'tok' });
+    });
+
+    it('ignores hosts outside the preview domain', () => {
+        expect(parseWorkerPreviewHost('w-abc-tok.other.dev', 'build.example.dev')).toBeNull();
+        expect(parseWorkerPreviewHost('w-abc-tok.nested.build.example.dev', 'build.example.dev')).toBeNull();
+        expect(parseWorkerPreviewHost('w-abc-tok.build.example.dev.evil.com', 'build.example.dev')).toBeNull();
+    });
+
+    it('ignores subdomains that are not previews', () => {
+        expect(parseWorkerPreviewHost('my-app.build.example.dev', 'build.example.dev')).toBeNull();
+        expect(parseWorkerPreviewHost('w-app.build.example.dev', 'build.example.dev')).toBeNull();
+    });
+});
+
+describe('signWorkerPreviewToken', () => {
+    it('signs each instance with a hostname-safe token', async () => {
+        const token = await signWorkerPreviewToken('secret', 'abc-123');
+        expect(token).toMatch(/^[a-z0-9_]{16}$/);
+        expect(await signWorkerPreviewToken('secret', 'abc-123')).toBe(token);
+        expect(await signWorkerPreviewToken('secret', 'abc-124')).not.toBe(token);
+        expect(await signWorkerPreviewToken('other', 'abc-123')).not.toBe(token);
+    });
+});
@@ -0,0 +1,408 @@
+import {
+    BootstrapResponse,
+    GetInstanceResponse,
+    BootstrapStatusResponse,
+    ShutdownResponse,
+    WriteFilesRequest,
+    WriteFilesResponse,
+    GetFilesResponse,
+    ExecuteCommandsResponse,
+    RuntimeErrorResponse,
+    ClearErrorsResponse,
+    StaticAnalysisResponse,
+    DeploymentResult,
+    DeploymentCredentials,
+    GetLogsResponse,
+    ListInstancesResponse,
+    InstanceCreationRequest,
+    InstanceDetails,
+    CodeIssue,
+} from './sandboxTypes';
+import { BaseSandboxService } from './BaseSandboxService';
+import { DeploymentTarget } from 'worker/agents/core/types';
+import { env } from 'cloudflare:workers';
+import { WORKER_PREVIEW_PREFIX, type UserAppWorkerRuntime, type WorkerRuntimeMetadata } from './workerRuntime';
+import { relativeSpecifier } from './workerModules';
+import { resolveUserAccountTarget, provisionUserAccountBindings, publishUserWorker } from './userAccountDeployment';
+import { buildDeploymentConfig, deployToDispatch, deployWorker, parseWranglerConfig } from '../deployer/deploy';
+import { base64url, hmacSha256, timingSafeEqual } from '../../utils/cryptoUtils';
+import { buildUserWorkerUrl, getPreviewDomain, getProtocolForHost } from '../../utils/urls';
+import { isDev } from '../../utils/envs';
+
+function getRuntimeStub(runtimeEnv: Env, instanceId: string): DurableObjectStub<UserAppWorkerRuntime> {
+    return runtimeEnv.WorkerRuntime.get(runtimeEnv.WorkerRuntime.idFromName(instanceId));
+}
+
+/**
+ * Preview token for a runtime instance, signed so preview requests can be
+ * checked without touching the Durable Object. Encoded like port tokens:
+ * 16 lowercase characters without hyphens.
+ */
+export async function signWorkerPreviewToken(secret: string, instanceId: string): Promise<string> {
+    const signature = await hmacSha256(secret, `worker-preview:${instanceId}`);
+    return base64url(signature.slice(0, 12)).toLowerCase().replace(/-/g, 'x');
+}
+
+/**
+ * Parse `w-{instanceId}-{token}` preview subdomains directly under the preview
+ * domain. The token never contains hyphens.
+ */
+export function parseWorkerPreviewHost(hostname: string, previewDomain: string): { instanceId: string; token: string } | null {
+    const suffix = `.${previewDomain.split(':')[0]}`;
+    if (!hostname.endsWith(suffix)) return null;
+
+    const subdomain = hostname.slice(0, -suffix.length);
+    if (subdomain.includes('.') || !subdomain.startsWith(WORKER_PREVIEW_PREFIX)) return null;
+
+    const withoutPrefix = subdomain.substring(WORKER_PREVIEW_PREFIX.length);
+    const lastHyphenIndex = withoutPrefix.lastIndexOf('-');
+    if (lastHyphenIndex <= 0) return null;
+
+    return {
+        instanceId: withoutPrefix.substring(0, lastHyphenIndex),
+        token: withoutPrefix.substring(lastHyphenIndex + 1),
+    };
+}
+
+/**
+ * Route a preview request to its worker runtime instance.
+ * Returns null when the hostname does not carry a signed preview token, so
+ * deployed apps whose name looks like one still resolve and unknown hosts
+ * never reach a Durable Object.
+ */
+export async function proxyToWorkerRuntime(request: Request, runtimeEnv: Env): Promise<Response | null> {
+    const previewDomain = isDev(runtimeEnv) ? 'localhost' : getPreviewDomain(runtimeEnv);
+    const route = parseWorkerPreviewHost(new URL(request.url).hostname, previewDomain);
+    if (!route) return null;
+
+    const expected = await signWorkerPreviewToken(runtimeEnv.JWT_SECRET, route.instanceId);
+    if (!(await timingSafeEqual(route.token, expected))) return null;
+    return getRuntimeStub(runtimeEnv, route.instanceId).fetch(request);
+}
+
+/**
+ * Runs backend-only projects on Dynamic Worker Loaders instead of containers.
+ * There is no shell or package manager: files are transpiled on write and
+ * loaded into a fresh isolate per version, so only Worker APIs are available.
+ * One runtime instance exists per session.
+ */
+export class WorkerLoaderSandboxService extends BaseSandboxService {
+    constructor(sandboxId: string) {
+        super(sandboxId);
+        this.logger.info('WorkerLoaderSandboxService initialized', { sandboxId: this.sandboxId });
+    }
+
+    async initialize(): Promise<void> {
+        // Runtime instances are created lazily by createInstance
+    }
+
+    private getStub(instanceId: string): DurableObjectStub<UserAppWorkerRuntime> {
+        return getRuntimeStub(env, instanceId);
+    }
+
+    private getPreviewURL(metadata: WorkerRuntimeMetadata): string {
+        const previewDomain = isDev(env) ? 'localhost:5173' : getPreviewDomain(env);
+        return `${getProtocolForHost(previewDomain)}://${WORKER_PREVIEW_PREFIX}${metadata.instanceId}-${metadata.token}.${previewDomain}`;
+    }
+
+    private async getMetadata(instanceId: string): Promise<WorkerRuntimeMetadata | null> {
+        return this.getStub(instanceId).getMetadata();
+    }
+
+    async createInstance(options: InstanceCreationRequest): Promise<BootstrapResponse> {
+        const instanceId = this.sandboxId;
+        try {
+            const token = await signWorkerPreviewToken(env.JWT_SECRET, instanceId);
+            const bundle = await this.getStub(instanceId).initialize(instanceId, options.projectName, token, options.files);
+            const metadata = await this.getMetadata(instanceId);
+            if (!metadata) {
+                throw new Error('Runtime instance was not initialized');
+            }
+
+            this.logger.info('Created worker runtime instance', {
+                instanceId,
+                modules: Object.keys(bundle.modules).length,
+                issues: bundle.issues.length,
+            });
+            return {
+                success: true,
+                runId: instanceId,
+                previewURL: this.getPreviewURL(metadata),
+                message: bundle.issues.length > 0
+                    ? `Instance created with ${bundle.issues.length} build issue(s)`
+                    : 'Instance created',
+            };
+        } catch (error) {
+            this.logger.error('createInstance', error, { instanceId });
+            return {
+                success: false,
+                error: `Failed to create worker runtime: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            };
+        }
+    }
+
+    async listAllInstances(): Promise<ListInstancesResponse> {
+        const details = await this.getInstanceDetails(this.sandboxId);
+        const instances = details.instance ? [details.instance] : [];
+        return { success: true, instances, count: instances.length };
+    }
+
+    async getInstanceDetails(instanceId: string): Promise<GetInstanceResponse> {
+        try {
+            const metadata = await this.getMetadata(instanceId);
+            if (!metadata) {
+                return { success: false, error: `Instance ${instanceId} not found` };
+            }
+            const runtimeErrors = await this.getStub(instanceId).getErrors(false);
+            const instance: InstanceDetails = {
+                runId: instanceId,
+                startTime: new Date(metadata.createdAt).toISOString(),
+                uptime: Math.floor((Date.now() - metadata.createdAt) / 1000),
+                previewURL: this.getPreviewURL(metadata),
+                directory: instanceId,
+                serviceDirectory: instanceId,
+                runtimeErrors,
+            };
+            return { success: true, instance };
+        } catch (error) {
+            this.logger.error('getInstanceDetails', error, { instanceId });
+            return { success: false, error: `Failed to get instance details: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    async getInstanceStatus(instanceId: string): Promise<BootstrapStatusResponse> {
+        try {
+            const metadata = await this.getMetadata(instanceId);
+            if (!metadata) {
+                return { success: false, pending: false, isHealthy: false, error: `Instance ${instanceId} not found` };
+            }
+            return {
+                success: true,
+                pending: false,
+                isHealthy: true,
+                previewURL: this.getPreviewURL(metadata),
+            };
+        } catch (error) {
+            this.logger.error('getInstanceStatus', error, { instanceId });
+            return {
+                success: false,
+                pending: false,
+                isHealthy: false,
+                error: `Failed to get instance status: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            };
+        }
+    }
+
+    async shutdownInstance(instanceId: string): Promise<ShutdownResponse> {
+        try {
+            await this.getStub(instanceId).shutdown();
+            return { success: true, message: `Instance ${instanceId} shut down` };
+        } catch (error) {
+            this.logger.error('shutdownInstance', error, { instanceId });
+            return { success: false, error: `Failed to shut down instance: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    async writeFiles(instanceId: string, files: WriteFilesRequest['files'], commitMessage?: string): Promise<WriteFilesResponse> {
+        try {
+            const bundle = await this.getStub(instanceId).writeFiles(files);
+            this.logger.info('Wrote files to worker runtime', { instanceId, count: files.length, commitMessage, issues: bundle.issues.length });
+            return {
+                success: true,
+                message: `Wrote ${files.length} file(s)`,
+                results: files.map((file) => ({ file: file.filePath, success: true })),
+            };
+        } catch (error) {
+            this.logger.error('writeFiles', error, { instanceId });
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            return {
+                success: false,
+                results: files.map((file) => ({ file: file.filePath, success: false, error: message })),
+                error: `Failed to write files: ${message}`,
+            };
+        }
+    }
+
+    async getFiles(instanceId: string, filePaths?: string[]): Promise<GetFilesResponse> {
+        try {
+            const files = await this.getStub(instanceId).getFiles(filePaths);
+            return { success: true, files };
+        } catch (error) {
+            this.logger.error('getFiles', error, { instanceId });
+            return { success: false, files: [], error: `Failed to get files: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    async getLogs(instanceId: string, onlyRecent?: boolean, durationSeconds?: number): Promise<GetLogsResponse> {
+        try {
+            const logs = await this.getStub(instanceId).getLogs(onlyRecent, durationSeconds);
+            return { success: true, logs };
+        } catch (error) {
+            this.logger.error('getLogs', error, { instanceId });
+            return {
+                success: false,
+                logs: { stdout: '', stderr: '' },
+                error: `Failed to get logs: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            };
+        }
+    }
+
+    async executeCommands(_instanceId: string, commands: string[]): Promise<ExecuteCommandsResponse> {
+        return {
+            success: false,
+            results: commands.map((command) => ({
+                command,
+                success: false,
+                output: '',
+                error: 'Commands cannot run in the worker runtime',
+            })),
+            error: 'unsupported_operation',
+        };
+    }
+
+    async updateProjectName(instanceId: string, projectName: string): Promise<boolean> {
+        try {
+            await this.getStub(instanceId).updateProjectName(projectName);
+            return true;
+        } catch (error) {
+            this.logger.error('updateProjectName', error, { instanceId });
+            return false;
+        }
+    }
+
+    async getInstanceErrors(instanceId: string, clear?: boolean): Promise<RuntimeErrorResponse> {
+        try {
+            const errors = await this.getStub(instanceId).getErrors(clear);
+            return { success: true, errors, hasErrors: errors.length > 0 };
+        } catch (error) {
+            this.logger.error('getInstanceErrors', error, { instanceId });
+            return {
+                success: false,
+                errors: [],
+                hasErrors: false,
+                error: `Failed to get runtime errors: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            };
+        }
+    }
+
+    async clearInstanceErrors(instanceId: string): Promise<ClearErrorsResponse> {
+        try {
+            await this.getStub(instanceId).clearErrors();
+            return { success: true, message: 'Runtime errors cleared' };
+        } catch (error) {
+            this.logger.error('clearInstanceErrors', error, { instanceId });
+            return { success: false, error: `Failed to clear runtime errors: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    /**
+     * There is no linter or type checker in the isolate, so build issues from
+     * transpiling (syntax errors, unresolved imports) are reported as lint errors
+     */
+    async runStaticAnalysisCode(instanceId: string, lintFiles?: string[]): Promise<StaticAnalysisResponse> {
+        const wanted = lintFiles?.length ? new Set(lintFiles.map((file) => file.replace(/^\/+/, ''))) : null;
+        const bundle = await this.getStub(instanceId).getBundle();
+        const issues: CodeIssue[] = bundle.issues
+            .filter((issue) => !wanted || wanted.has(issue.filePath))
+            .map((issue) => ({
+                message: issue.message,
+                filePath: issue.filePath,
+                line: issue.line,
+                column: issue.column,
+                severity: 'error',
+                source: 'worker-runtime',
+            }));
+
+        return {
+            success: true,
+            lint: {
+                issues,
+                summary: { errorCount: issues.length, warningCount: 0, infoCount: 0 },
+            },
+            typecheck: {
+                issues: [],
+                summary: { errorCount: 0, warningCount: 0, infoCount: 0 },
+            },
+        };
+    }
+
+    /**
+     * Deploy the transpiled modules directly - no build step is needed.
+     * A root index.js re-exports the main module so relative imports keep working.
+     */
+    async deployToCloudflareWorkers(
+        instanceId: string,
+        target: DeploymentTarget = 'platform',
+        credentials?: DeploymentCredentials
+    ): Promise<DeploymentResult> {
+        try {
+            const stub = this.getStub(instanceId);
+            const [metadata, bundle, wranglerFiles] = await Promise.all([
+                this.getMetadata(instanceId),
+                stub.getBundle(),
+                stub.getFiles(['wrangler.jsonc', 'wrangler.json']),
+            ]);
+            if (!metadata) {
+                throw new Error(`Instance ${instanceId} not found`);
+            }
+            if (bundle.issues.length > 0) {
+                throw new Error(`Fix build issues before deploying: ${bundle.issues.map((issue) => `${issue.filePath}:${issue.line} ${issue.message}`).join('; ')}`);
+            }
+            if (wranglerFiles.length === 0) {
+                throw new Error('wrangler.jsonc not found');
+            }
+
+            const userAccount = target === 'user' && credentials?.apiToken
+                ? await resolveUserAccountTarget(credentials, this.logger)
+                : null;
+            const accountId = userAccount?.accountId ?? env.CLOUDFLARE_ACCOUNT_ID;
+            const apiToken = userAccount?.apiToken ?? env.CLOUDFLARE_API_TOKEN;
+            if (!accountId || !apiToken) {
+                throw new Error('CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN must be set in environment');
+            }
+
+            const parsedConfig = parseWranglerConfig(wranglerFiles[0].fileContents);
+            const config = userAccount
+                ? await provisionUserAccountBindings(parsedConfig, userAccount, this.logger)
+                : parsedConfig;
+            const mainSpecifier = JSON.stringify(relativeSpecifier('index.js', bundle.mainModule));
+            const workerContent = `export * from ${mainSpecifier};\nexport { default } from ${mainSpecifier};\n`;
+            const additionalModules = new Map(Object.entries(bundle.modules));
+
+            const deployConfig = buildDeploymentConfig(config, workerContent, accountId, apiToken);
+            this.logger.info('Deploying worker runtime project', { instanceId, target, scriptName: config.name, modules: additionalModules.size });
+
+            if (target === 'platform') {
+                if (!('DISPATCH_NAMESPACE' in env)) {
+                    throw new Error('DISPATCH_NAMESPACE not found in environment variables, cannot deploy without dispatch namespace');
+                }
+                await deployToDispatch(
+                    { ...deployConfig, dispatchNamespace: env.DISPATCH_NAMESPACE as string },
+                    undefined,
+                    additionalModules,
+                    config.migrations
+                );
+            } else {
+                await deployWorker(deployConfig, undefined, additionalModules, config.migrations);
+            }
+
+            const deployedUrl = userAccount
+                ? await publishUserWorker(config.name, userAccount)
+                : buildUserWorkerUrl(env, metadata.projectName);
+            return {
+                success: true,
+                message: `Successfully deployed ${instanceId}`,
+                deployedUrl,
+                deploymentId: userAccount ? config.name : metadata.projectName,
+                output: 'Deployed',
+            };
+        } catch (error) {
+            this.logger.error('deployToCloudflareWorkers', error, { instanceId });
+            return {
+                success: false,
+                message: `Deployment failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+}
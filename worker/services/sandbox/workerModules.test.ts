@@ -0,0 +1,135 @@
+import {
+    buildWorkerModules,
+    transpileModule,
+    relativeSpecifier,
+    resolveImport,
+    renderHarnessModule,
+    HARNESS_ENTRYPOINT,
+} from './workerModules';
+
+describe('transpileModule', () => {
+    it('strips type syntax and type-only imports', () => {
+        const output = transpileModule(`
+import type { Env } from './env';
+import { Store, type Row } from './store';
+interface Options { limit?: number }
+type Id = string;
+export function list(store = new Store(), opts: Options = {}): Row[] {
+    const limit = (opts.limit as number) ?? 10;
+    return store.rows!.slice(0, limit) satisfies Row[];
+}
+`);
+
+        expect(output).not.toContain('interface');
+        expect(output).not.toContain('type Id');
+        expect(output).not.toContain('./env');
+        expect(output).toContain(`import { Store } from './store';`);
+        expect(output).toContain('export function list(store = new Store(), opts = {})');
+        expect(output).toContain('const limit = opts.limit ?? 10;');
+        expect(output).toContain('return store.rows.slice(0, limit);');
+    });
+
+    it('elides imports that are only used as types', () => {
+        const output = transpileModule(`
+import { Env, handle } from './lib';
+export default { fetch: (request: Request, env: Env) => handle(request, env) };
+`);
+
+        expect(output).toContain(`import { handle } from './lib';`);
+    });
+
+    it('expands parameter properties and enums', () => {
+        const output = transpileModule(`
+enum Status { Active, Paused = 5, Done }
+class Repo extends Base {
+    constructor(private readonly db: D1Database, name: string) {
+        super(name);
+    }
+}
+`);
+
+        const flattened = output.replace(/\s+/g, ' ');
+        expect(flattened).toContain(`const Status = Object.freeze({ "Active": 0, "Paused": 5, "Done": 6 });`);
+        expect(flattened).toContain('super(name);this.db = db;');
+        expect(output).not.toContain('private');
+    });
+});
+
+describe('module resolution', () => {
+    const files = new Set(['src/index.ts', 'src/lib/db.ts', 'src/routes/index.ts', 'data/seed.json']);
+
+    it('resolves extensionless, .js and directory imports', () => {
+        expect(resolveImport('src/index.ts', './lib/db', files)).toBe('src/lib/db.ts');
+        expect(resolveImport('src/index.ts', './lib/db.js', files)).toBe('src/lib/db.ts');
+        expect(resolveImport('src/index.ts', './routes', files)).toBe('src/routes/index.ts');
+        expect(resolveImport('src/index.ts', '../data/seed.json', files)).toBe('data/seed.json');
+        expect(resolveImport('src/index.ts', '../../outside', files)).toBeNull();
+    });
+
+    it('builds relative specifiers between emitted modules', () => {
+        expect(relativeSpecifier('src/index.js', 'src/lib/db.js')).toBe('./lib/db.js');
+        expect(relativeSpecifier('src/routes/index.js', 'src/lib/db.js')).toBe('../lib/db.js');
+        expect(relativeSpecifier('src/index.js', 'data/seed.json')).toBe('../data/seed.json');
+    });
+});
+
+describe('buildWorkerModules', () => {
+    it('follows imports from the wrangler main entry', () => {
+        const bundle = buildWorkerModules([
+            {
+                filePath: 'wrangler.jsonc',
+                fileContents: `{
+                    // API worker
+                    "name": "todo-api",
+                    "main": "src/index.ts",
+                    "compatibility_date": "2025-06-01",
+                    "vars": { "GREETING": "hi", "LIMITS": { "max": 3 } }
+                }`,
+            },
+            { filePath: 'src/index.ts', fileContents: `import { greet } from './greet';\nimport seed from '../seed.json';\nexport default { fetch: () => new Response(greet(seed.name)) };` },
+            { filePath: 'src/greet.ts', fileContents: `export const greet = (name: string): string => \`hi \${name}\`;` },
+            { filePath: 'src/greet.test.ts', fileContents: `import { it } from 'vitest';` },
+            { filePath: 'seed.json', fileContents: `{ "name": "ada" }` },
+        ]);
+
+        expect(bundle.issues).toEqual([]);
+        expect(bundle.name).toBe('todo-api');
+        expect(bundle.mainModule).toBe('src/index.js');
+        expect(bundle.compatibilityDate).toBe('2025-06-01');
+        expect(bundle.vars).toEqual({ GREETING: 'hi', LIMITS: '{"max":3}' });
+        expect(Object.keys(bundle.modules).sort()).toEqual(['seed.json', 'src/greet.js', 'src/index.js']);
+        expect(bundle.modules['src/index.js']).toContain(`from "./greet.js"`);
+        expect(bundle.modules['src/index.js']).toContain(`from '../seed.json'`);
+        expect(bundle.modules['seed.json']).toBe('export default {"name":"ada"};');
+    });
+
+    it('reports syntax errors, npm packages and missing files as issues', () => {
+        const bundle = buildWorkerModules([
+            { filePath: 'src/index.ts', fileContents: `import { Hono } from 'hono';\nimport { db } from './db';\nimport { broken } from './broken';\nexport default { fetch: () => Hono && db && broken };` },
+            { filePath: 'src/broken.ts', fileContents: `export const broken = ;` },
+        ]);
+
+        expect(bundle.mainModule).toBe('src/index.js');
+        expect(bundle.issues.map((issue) => `${issue.filePath}:${issue.line} ${issue.message.split(' (')[0]}`)).toEqual([
+            'src/index.ts:1 Cannot import "hono" - npm packages are not available in the worker runtime',
+            'src/index.ts:2 Cannot resolve import "./db"',
+            'src/broken.ts:1 Unexpected token',
+        ]);
+    });
+
+    it('reports a missing entry point', () => {
+        const bundle = buildWorkerModules([{ filePath: 'README.md', fileContents: '# api' }]);
+
+        expect(bundle.mainModule).toBe('');
+        expect(bundle.issues[0].message).toContain('No Worker entry point found');
+    });
+});
+
+describe('renderHarnessModule', () => {
+    it('imports the main module relative to the harness', () => {
+        const harness = renderHarnessModule('src/index.js');
+
+        expect(harness).toContain(`import * as app from "./src/index.js";`);
+        expect(harness).toContain(`export class ${HARNESS_ENTRYPOINT} extends WorkerEntrypoint`);
+    });
+});
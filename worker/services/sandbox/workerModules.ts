@@ -0,0 +1,507 @@
+/**
+ * Converts project files into modules for the Dynamic Worker Loader runtime.
+ * The loader only understands plain ES modules, so TypeScript syntax is stripped
+ * with Babel and every relative import is rewritten to the emitted module name.
+ */
+
+import * as t from '@babel/types';
+import type { NodePath } from '@babel/traverse';
+import { parse as parseJsonc } from 'jsonc-parser';
+import { parseCode, traverseAST, generateCode } from '../code-fixer/utils/ast';
+
+export const DEFAULT_COMPATIBILITY_DATE = '2025-08-15';
+export const HARNESS_MODULE = '__vibesdk_harness.js';
+export const HARNESS_ENTRYPOINT = 'RuntimeHarness';
+
+const SOURCE_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs'];
+const WRANGLER_FILES = ['wrangler.jsonc', 'wrangler.json'];
+const DEFAULT_MAIN_CANDIDATES = ['src/index.ts', 'src/index.js', 'index.ts', 'index.js'];
+
+export interface WorkerModuleSource {
+    filePath: string;
+    fileContents: string;
+}
+
+export interface WorkerModuleIssue {
+    filePath: string;
+    message: string;
+    line: number;
+    column?: number;
+}
+
+export interface WorkerModuleBundle {
+    name: string;
+    mainModule: string;
+    /** ES module source keyed by module name; JSON files become default exports */
+    modules: Record<string, string>;
+    compatibilityDate: string;
+    compatibilityFlags: string[];
+    vars: Record<string, string>;
+    issues: WorkerModuleIssue[];
+}
+
+interface WranglerSettings {
+    name?: string;
+    main?: string;
+    compatibility_date?: string;
+    compatibility_flags?: string[];
+    vars?: Record<string, unknown>;
+}
+
+class ModuleSyntaxError extends Error {
+    constructor(message: string, public readonly line: number, public readonly column?: number) {
+        super(message);
+        this.name = 'ModuleSyntaxError';
+    }
+}
+
+function normalizePath(path: string): string | null {
+    const segments: string[] = [];
+    for (const segment of path.split('/')) {
+        if (segment === '' || segment === '.') continue;
+        if (segment === '..') {
+            if (segments.length === 0) return null;
+            segments.pop();
+            continue;
+        }
+        segments.push(segment);
+    }
+    return segments.join('/');
+}
+
+function dirname(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Emitted module name for a source file - TypeScript files become .js modules
+ */
+export function toModuleName(filePath: string): string {
+    return filePath.replace(/\.ts$/, '.js').replace(/\.mts$/, '.mjs');
+}
+
+/**
+ * Relative import specifier from one emitted module to another
+ */
+export function relativeSpecifier(fromModule: string, toModule: string): string {
+    const fromDirs = dirname(fromModule).split('/').filter(Boolean);
+    const toParts = toModule.split('/');
+    let common = 0;
+    while (common < fromDirs.length && common < toParts.length - 1 && fromDirs[common] === toParts[common]) {
+        common++;
+    }
+    const ups = fromDirs.length - common;
+    const rest = toParts.slice(common).join('/');
+    return ups === 0 ? `./${rest}` : `${'../'.repeat(ups)}${rest}`;
+}
+
+/**
+ * Resolve a relative import the way TypeScript's bundler resolution does:
+ * exact path, known extensions, directory index, and `.js` specifiers pointing at `.ts` sources
+ */
+export function resolveImport(fromPath: string, specifier: string, files: ReadonlySet<string>): string | null {
+    const base = normalizePath(`${dirname(fromPath)}/${specifier}`);
+    if (base === null) return null;
+
+    const candidates = [
+        base,
+        ...SOURCE_EXTENSIONS.map((ext) => `${base}${ext}`),
+        ...SOURCE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+    ];
+    if (/\.m?js$/.test(base)) {
+        candidates.push(base.replace(/\.(m?)js$/, '.$1ts'));
+    }
+    return candidates.find((candidate) => files.has(candidate)) ?? null;
+}
+
+function isRuntimeSpecifier(specifier: string): boolean {
+    return specifier.startsWith('cloudflare:') || specifier.startsWith('node:');
+}
+
+function lineOf(node: t.Node): number {
+    return node.loc?.start.line ?? 1;
+}
+
+function enumToObject(node: t.TSEnumDeclaration): t.VariableDeclaration {
+    let nextValue: number | null = 0;
+    const properties = node.members.map((member) => {
+        const key = t.isIdentifier(member.id) ? member.id.name : member.id.value;
+        let value: t.Expression;
+        if (member.initializer) {
+            value = member.initializer;
+            nextValue = t.isNumericLiteral(member.initializer) ? member.initializer.value + 1 : null;
+        } else {
+            if (nextValue === null) {
+                throw new ModuleSyntaxError(`Enum member "${key}" needs an initializer`, lineOf(member));
+            }
+            value = t.numericLiteral(nextValue);
+            nextValue++;
+        }
+        return t.objectProperty(t.stringLiteral(key), value);
+    });
+
+    const frozen = t.callExpression(
+        t.memberExpression(t.identifier('Object'), t.identifier('freeze')),
+        [t.objectExpression(properties)]
+    );
+    return t.variableDeclaration('const', [t.variableDeclarator(t.identifier(node.id.name), frozen)]);
+}
+
+/**
+ * Move TypeScript parameter properties (`constructor(private db: Db)`) into explicit assignments
+ */
+function expandParameterProperties(path: NodePath<t.ClassMethod>): void {
+    const assignments: t.Statement[] = [];
+    path.node.params = path.node.params.map((param) => {
+        if (!t.isTSParameterProperty(param)) return param;
+        const inner = param.parameter;
+        const name = t.isIdentifier(inner) ? inner.name : (inner.left as t.Identifier).name;
+        assignments.push(t.expressionStatement(t.assignmentExpression(
+            '=',
+            t.memberExpression(t.thisExpression(), t.identifier(name)),
+            t.identifier(name)
+        )));
+        return inner;
+    });
+    if (assignments.length === 0) return;
+
+    const body = path.node.body.body;
+    const superIndex = body.findIndex((statement) =>
+        t.isExpressionStatement(statement) &&
+        t.isCallExpression(statement.expression) &&
+        t.isSuper(statement.expression.callee)
+    );
+    body.splice(superIndex + 1, 0, ...assignments);
+}
+
+function removeStatement(path: NodePath): void {
+    if (path.parentPath?.isExportNamedDeclaration() || path.parentPath?.isExportDefaultDeclaration()) {
+        path.parentPath.remove();
+    } else {
+        path.remove();
+    }
+}
+
+const TYPE_KEYS = ['typeAnnotation', 'returnType', 'typeParameters', 'superTypeParameters', 'typeArguments', 'predicate'] as const;
+const OPTIONAL_NODE_TYPES = new Set(['Identifier', 'ObjectPattern', 'ArrayPattern', 'RestElement', 'AssignmentPattern', 'ClassProperty', 'ClassMethod', 'ClassPrivateProperty', 'ClassPrivateMethod']);
+
+function stripTypes(ast: t.File): void {
+    traverseAST(ast, {
+        enter(path) {
+            const node = path.node as unknown as Record<string, unknown>;
+            // Expressions like `x as T` keep their own `typeAnnotation` until they are unwrapped
+            if (!path.isTSAsExpression() && !path.isTSSatisfiesExpression() && !path.isTSTypeAssertion()) {
+                for (const key of TYPE_KEYS) {
+                    if (node[key]) node[key] = null;
+                }
+            }
+            if (node.implements) node.implements = null;
+            if (OPTIONAL_NODE_TYPES.has(path.node.type)) {
+                delete node.optional;
+                delete node.definite;
+                delete node.accessibility;
+                delete node.readonly;
+                delete node.abstract;
+                delete node.override;
+            }
+            if (path.isClassDeclaration() || path.isClassExpression()) {
+                delete node.abstract;
+            }
+        },
+        TSInterfaceDeclaration: removeStatement,
+        TSTypeAliasDeclaration: removeStatement,
+        TSDeclareFunction: removeStatement,
+        TSDeclareMethod(path) {
+            path.remove();
+        },
+        TSIndexSignature(path) {
+            path.remove();
+        },
+        TSModuleDeclaration(path) {
+            if (!path.node.declare && !path.node.global) {
+                throw new ModuleSyntaxError('TypeScript namespaces are not supported in the worker runtime', lineOf(path.node));
+            }
+            removeStatement(path);
+        },
+        TSEnumDeclaration(path) {
+            if (path.node.declare) {
+                removeStatement(path);
+                return;
+            }
+            path.replaceWith(enumToObject(path.node));
+        },
+        TSImportEqualsDeclaration(path) {
+            throw new ModuleSyntaxError('`import x = require()` is not supported - use an ES import', lineOf(path.node));
+        },
+        TSExportAssignment(path) {
+            throw new ModuleSyntaxError('`export =` is not supported - use `export default`', lineOf(path.node));
+        },
+        ClassProperty(path) {
+            if (path.node.declare) path.remove();
+        },
+        ClassMethod(path) {
+            if (path.node.kind === 'constructor') expandParameterProperties(path);
+        },
+        Function(path) {
+            const [first] = path.node.params;
+            if (first && t.isIdentifier(first) && first.name === 'this') {
+                path.node.params.shift();
+            }
+        },
+        'TSAsExpression|TSSatisfiesExpression|TSNonNullExpression|TSTypeAssertion|TSInstantiationExpression'(path: NodePath) {
+            const node = path.node as t.TSAsExpression;
+            path.replaceWith(node.expression);
+        },
+        ImportDeclaration(path) {
+            if (path.node.importKind === 'type' || path.node.importKind === 'typeof') {
+                path.remove();
+                return;
+            }
+            const specifiers = path.node.specifiers;
+            const kept = specifiers.filter((specifier) => !(t.isImportSpecifier(specifier) && specifier.importKind === 'type'));
+            if (specifiers.length > 0 && kept.length === 0) {
+                path.remove();
+            } else {
+                path.node.specifiers = kept;
+            }
+        },
+        ExportNamedDeclaration(path) {
+            if (path.node.exportKind === 'type') {
+                path.remove();
+                return;
+            }
+            path.node.specifiers = path.node.specifiers.filter(
+                (specifier) => !(t.isExportSpecifier(specifier) && specifier.exportKind === 'type')
+            );
+            if (!path.node.declaration && !path.node.source && path.node.specifiers.length === 0) {
+                path.remove();
+            }
+        },
+        ExportAllDeclaration(path) {
+            if (path.node.exportKind === 'type') path.remove();
+        },
+    });
+}
+
+/**
+ * Drop imports only used as types and local exports of removed declarations,
+ * then hand every module specifier to `rewrite`
+ */
+function elideAndRewrite(ast: t.File, rewrite?: (specifier: string, line: number) => string): void {
+    traverseAST(ast, {
+        Program(path) {
+            path.scope.crawl();
+        },
+        ImportDeclaration(path) {
+            const specifiers = path.node.specifiers;
+            if (specifiers.length > 0) {
+                const used = specifiers.filter((specifier) => path.scope.getBinding(specifier.local.name)?.referenced);
+                if (used.length === 0) {
+                    path.remove();
+                    return;
+                }
+                path.node.specifiers = used;
+            }
+            if (rewrite) path.node.source.value = rewrite(path.node.source.value, lineOf(path.node));
+        },
+        ExportNamedDeclaration(path) {
+            if (path.node.source) {
+                if (rewrite) path.node.source.value = rewrite(path.node.source.value, lineOf(path.node));
+                return;
+            }
+            if (path.node.declaration) return;
+            path.node.specifiers = path.node.specifiers.filter((specifier) =>
+                !t.isExportSpecifier(specifier) || Boolean(path.scope.getBinding(specifier.local.name))
+            );
+            if (path.node.specifiers.length === 0) path.remove();
+        },
+        ExportAllDeclaration(path) {
+            if (rewrite) path.node.source.value = rewrite(path.node.source.value, lineOf(path.node));
+        },
+        CallExpression(path) {
+            const [argument] = path.node.arguments;
+            if (rewrite && t.isImport(path.node.callee) && t.isStringLiteral(argument)) {
+                argument.value = rewrite(argument.value, lineOf(path.node));
+            }
+        },
+    });
+}
+
+/**
+ * Strip TypeScript from a module and optionally rewrite its import specifiers.
+ * Line numbers are preserved so runtime stack traces point at the original source.
+ */
+export function transpileModule(code: string, rewrite?: (specifier: string, line: number) => string): string {
+    let ast: t.File;
+    try {
+        ast = parseCode(code);
+    } catch (error) {
+        const loc = (error as { loc?: { line: number; column: number } }).loc;
+        throw new ModuleSyntaxError(error instanceof Error ? error.message : String(error), loc?.line ?? 1, loc?.column);
+    }
+    stripTypes(ast);
+    const stripped = generateCode(ast).code;
+
+    // Re-parse so binding references reflect the code without type positions
+    const cleanAst = parseCode(stripped);
+    elideAndRewrite(cleanAst, rewrite);
+    return generateCode(cleanAst).code;
+}
+
+function readWranglerSettings(files: Map<string, string>): WranglerSettings {
+    for (const name of WRANGLER_FILES) {
+        const contents = files.get(name);
+        if (contents) {
+            return (parseJsonc(contents) as WranglerSettings | undefined) ?? {};
+        }
+    }
+    return {};
+}
+
+function stringifyVars(vars: Record<string, unknown> | undefined): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(vars ?? {})) {
+        result[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return result;
+}
+
+/**
+ * Build the loader module map for a project, following imports from the wrangler `main` entry.
+ * Problems (syntax errors, unresolved imports, npm packages) are collected as issues instead of thrown.
+ */
+export function buildWorkerModules(sources: WorkerModuleSource[]): WorkerModuleBundle {
+    const files = new Map(sources.map((file) => [file.filePath.replace(/^\/+/, ''), file.fileContents]));
+    const paths = new Set(files.keys());
+    const wrangler = readWranglerSettings(files);
+    const issues: WorkerModuleIssue[] = [];
+    const modules: Record<string, string> = {};
+
+    const mainPath = wrangler.main
+        ? normalizePath(wrangler.main)
+        : DEFAULT_MAIN_CANDIDATES.find((candidate) => files.has(candidate)) ?? null;
+
+    const bundle: WorkerModuleBundle = {
+        name: wrangler.name || 'worker',
+        mainModule: mainPath ? toModuleName(mainPath) : '',
+        modules,
+        compatibilityDate: wrangler.compatibility_date || DEFAULT_COMPATIBILITY_DATE,
+        compatibilityFlags: wrangler.compatibility_flags ?? [],
+        vars: stringifyVars(wrangler.vars),
+        issues,
+    };
+
+    if (!mainPath || !files.has(mainPath)) {
+        issues.push({
+            filePath: WRANGLER_FILES[0],
+            message: mainPath ? `Main module "${mainPath}" does not exist` : 'No Worker entry point found - set "main" in wrangler.jsonc',
+            line: 1,
+        });
+        return bundle;
+    }
+
+    const queue = [mainPath];
+    const visited = new Set<string>();
+    while (queue.length > 0) {
+        const filePath = queue.shift()!;
+        if (visited.has(filePath)) continue;
+        visited.add(filePath);
+        const contents = files.get(filePath)!;
+
+        if (filePath.endsWith('.json')) {
+            try {
+                modules[filePath] = `export default ${JSON.stringify(JSON.parse(contents))};`;
+            } catch (error) {
+                issues.push({ filePath, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`, line: 1 });
+            }
+            continue;
+        }
+
+        const moduleName = toModuleName(filePath);
+        try {
+            modules[moduleName] = transpileModule(contents, (specifier, line) => {
+                if (isRuntimeSpecifier(specifier)) return specifier;
+                if (!specifier.startsWith('.')) {
+                    issues.push({ filePath, line, message: `Cannot import "${specifier}" - npm packages are not available in the worker runtime` });
+                    return specifier;
+                }
+                const resolved = resolveImport(filePath, specifier, paths);
+                if (!resolved) {
+                    issues.push({ filePath, line, message: `Cannot resolve import "${specifier}"` });
+                    return specifier;
+                }
+                queue.push(resolved);
+                return relativeSpecifier(moduleName, resolved.endsWith('.json') ? resolved : toModuleName(resolved));
+            });
+        } catch (error) {
+            if (error instanceof ModuleSyntaxError) {
+                issues.push({ filePath, message: error.message, line: error.line, column: error.column });
+            } else {
+                issues.push({ filePath, message: error instanceof Error ? error.message : String(error), line: 1 });
+            }
+        }
+    }
+
+    return bundle;
+}
+
+/**
+ * Entrypoint wrapped around the user's main module. It captures console output
+ * and uncaught exceptions so the runtime can serve them as logs and runtime errors.
+ */
+export function renderHarnessModule(mainModule: string): string {
+    return `import { WorkerEntrypoint } from 'cloudflare:workers';
+import * as app from ${JSON.stringify(relativeSpecifier(HARNESS_MODULE, mainModule))};
+
+let buffer = { logs: [], errors: [] };
+
+function format(args) {
+    return args.map((arg) => {
+        if (typeof arg === 'string') return arg;
+        if (arg instanceof Error) return arg.stack || arg.message;
+        try { return JSON.stringify(arg); } catch { return String(arg); }
+    }).join(' ');
+}
+
+for (const level of ['log', 'info', 'debug', 'warn', 'error']) {
+    const original = console[level].bind(console);
+    console[level] = (...args) => {
+        buffer.logs.push({ level, message: format(args), timestamp: Date.now() });
+        original(...args);
+    };
+}
+
+function recordError(error) {
+    buffer.errors.push({
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        timestamp: Date.now(),
+    });
+}
+
+addEventListener('unhandledrejection', (event) => recordError(event.reason));
+
+export class ${HARNESS_ENTRYPOINT} extends WorkerEntrypoint {
+    async run(request) {
+        let response;
+        try {
+            const handler = app.default;
+            if (typeof handler === 'function' && handler.prototype && typeof handler.prototype.fetch === 'function') {
+                response = await new handler(this.ctx, this.env).fetch(request);
+            } else if (handler && typeof handler.fetch === 'function') {
+                response = await handler.fetch(request, this.env, this.ctx);
+            } else {
+                throw new Error('Main module must export a default handler with a fetch() method');
+            }
+        } catch (error) {
+            recordError(error);
+            response = new Response('Internal Server Error', { status: 500 });
+        }
+        const drained = buffer;
+        buffer = { logs: [], errors: [] };
+        return { response, logs: drained.logs, errors: drained.errors };
+    }
+}
+`;
+}
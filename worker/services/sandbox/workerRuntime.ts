@@ -0,0 +1,295 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { RuntimeError, TemplateFile } from './sandboxTypes';
+import {
+    buildWorkerModules,
+    renderHarnessModule,
+    HARNESS_MODULE,
+    HARNESS_ENTRYPOINT,
+    WorkerModuleBundle,
+} from './workerModules';
+import { sha256Hash } from '../../utils/cryptoUtils';
+
+export const WORKER_PREVIEW_PREFIX = 'w-';
+
+const MAX_LOG_ROWS = 2000;
+const MAX_ERROR_ROWS = 200;
+const ERROR_LEVEL = 50;
+
+export interface WorkerRuntimeMetadata {
+    instanceId: string;
+    projectName: string;
+    token: string;
+    version: number;
+    createdAt: number;
+}
+
+export interface WorkerRuntimeLogs {
+    stdout: string;
+    stderr: string;
+}
+
+interface HarnessLog {
+    level: 'log' | 'info' | 'debug' | 'warn' | 'error';
+    message: string;
+    timestamp: number;
+}
+
+interface HarnessError {
+    message: string;
+    stack?: string;
+    timestamp: number;
+}
+
+interface HarnessResult {
+    response: Response;
+    logs: HarnessLog[];
+    errors: HarnessError[];
+}
+
+interface HarnessEntrypoint {
+    run(request: Request): Promise<HarnessResult>;
+}
+
+/**
+ * UserAppWorkerRuntime - one instance per backend-only preview
+ *
+ * Holds the project files, console output and runtime errors in SQLite and
+ * serves preview requests by loading the transpiled modules into a Dynamic Worker.
+ * Each file write bumps the version, so the next request gets a fresh isolate.
+ */
+export class UserAppWorkerRuntime extends DurableObject<Env> {
+    private bundle: WorkerModuleBundle | null = null;
+
+    constructor(ctx: DurableObjectState, env: Env) {
+        super(ctx, env);
+        ctx.blockConcurrencyWhile(async () => {
+            this.initializeSchema();
+        });
+    }
+
+    initialize(instanceId: string, projectName: string, token: string, files: TemplateFile[]): WorkerModuleBundle {
+        this.ctx.storage.sql.exec('DELETE FROM files');
+        this.ctx.storage.sql.exec('DELETE FROM logs');
+        this.ctx.storage.sql.exec('DELETE FROM errors');
+        this.ctx.storage.sql.exec(
+            'INSERT OR REPLACE INTO instance (id, instance_id, project_name, token, version, created_at) VALUES (1, ?, ?, ?, 0, ?)',
+            instanceId, projectName, token, Date.now()
+        );
+        return this.writeFiles(files);
+    }
+
+    writeFiles(files: TemplateFile[]): WorkerModuleBundle {
+        for (const file of files) {
+            this.ctx.storage.sql.exec(
+                'INSERT OR REPLACE INTO files (path, contents) VALUES (?, ?)',
+                file.filePath.replace(/^\/+/, ''), file.fileContents
+            );
+        }
+        this.ctx.storage.sql.exec('UPDATE instance SET version = version + 1 WHERE id = 1');
+        this.bundle = null;
+        return this.getBundle();
+    }
+
+    updateProjectName(projectName: string): void {
+        this.ctx.storage.sql.exec('UPDATE instance SET project_name = ? WHERE id = 1', projectName);
+    }
+
+    getMetadata(): WorkerRuntimeMetadata | null {
+        const row = this.ctx.storage.sql.exec<{
+            instance_id: string;
+            project_name: string;
+            token: string;
+            version: number;
+            created_at: number;
+        }>('SELECT instance_id, project_name, token, version, created_at FROM instance WHERE id = 1').toArray()[0];
+        if (!row) return null;
+        return {
+            instanceId: row.instance_id,
+            projectName: row.project_name,
+            token: row.token,
+            version: row.version,
+            createdAt: row.created_at,
+        };
+    }
+
+    getFiles(filePaths?: string[]): TemplateFile[] {
+        const rows = this.ctx.storage.sql.exec<{ path: string; contents: string }>('SELECT path, contents FROM files ORDER BY path').toArray();
+        const wanted = filePaths ? new Set(filePaths.map((path) => path.replace(/^\/+/, ''))) : null;
+        return rows
+            .filter((row) => !wanted || wanted.has(row.path))
+            .map((row) => ({ filePath: row.path, fileContents: row.contents }));
+    }
+
+    getBundle(): WorkerModuleBundle {
+        if (!this.bundle) {
+            this.bundle = buildWorkerModules(this.getFiles());
+        }
+        return this.bundle;
+    }
+
+    /**
+     * Console output since the last read (onlyRecent) or within the last durationSeconds
+     */
+    getLogs(onlyRecent: boolean = false, durationSeconds?: number): WorkerRuntimeLogs {
+        const since = durationSeconds ? Date.now() - durationSeconds * 1000 : 0;
+        const rows = this.ctx.storage.sql.exec<{ level: string; message: string; created_at: number }>(
+            `SELECT level, message, created_at FROM logs WHERE created_at >= ? ${onlyRecent ? 'AND consumed = 0' : ''} ORDER BY id`,
+            since
+        ).toArray();
+        if (onlyRecent) {
+            this.ctx.storage.sql.exec('UPDATE logs SET consumed = 1 WHERE consumed = 0');
+        }
+
+        const format = (row: { level: string; message: string; created_at: number }) =>
+            `[${new Date(row.created_at).toISOString()}] ${row.level.toUpperCase()} ${row.message}`;
+        return {
+            stdout: rows.filter((row) => row.level !== 'warn' && row.level !== 'error').map(format).join('\n'),
+            stderr: rows.filter((row) => row.level === 'warn' || row.level === 'error').map(format).join('\n'),
+        };
+    }
+
+    /**
+     * Build issues for the current files followed by errors thrown while serving requests.
+     * Build issues always reflect the latest files, so clearing only affects runtime errors.
+     */
+    getErrors(clear: boolean = false): RuntimeError[] {
+        const buildErrors = this.getBundle().issues.map((issue) => ({
+            timestamp: new Date().toISOString(),
+            level: ERROR_LEVEL,
+            message: `${issue.filePath}:${issue.line} ${issue.message}`,
+            rawOutput: JSON.stringify(issue),
+        }));
+        const rows = this.ctx.storage.sql.exec<{ message: string; raw: string; level: number; last_seen: number }>(
+            'SELECT message, raw, level, last_seen FROM errors ORDER BY last_seen DESC'
+        ).toArray();
+        if (clear) {
+            this.clearErrors();
+        }
+        return [
+            ...buildErrors,
+            ...rows.map((row) => ({
+                timestamp: new Date(row.last_seen).toISOString(),
+                level: row.level,
+                message: row.message,
+                rawOutput: row.raw,
+            })),
+        ];
+    }
+
+    clearErrors(): void {
+        this.ctx.storage.sql.exec('DELETE FROM errors');
+    }
+
+    async shutdown(): Promise<void> {
+        this.bundle = null;
+        await this.ctx.storage.deleteAll();
+        this.initializeSchema();
+    }
+
+    /**
+     * Serve a preview request. The hostname token must match the one issued at creation.
+     */
+    async fetch(request: Request): Promise<Response> {
+        const metadata = this.getMetadata();
+        const subdomain = new URL(request.url).hostname.split('.')[0];
+        if (!metadata || subdomain !== `${WORKER_PREVIEW_PREFIX}${metadata.instanceId}-${metadata.token}`) {
+            return new Response('Preview not found', { status: 404 });
+        }
+
+        const bundle = this.getBundle();
+        if (bundle.issues.length > 0) {
+            const details = bundle.issues.map((issue) => `${issue.filePath}:${issue.line} ${issue.message}`).join('\n');
+            return new Response(`Worker failed to build:\n${details}`, { status: 500 });
+        }
+
+        try {
+            const worker = this.env.LOADER.get(`${metadata.instanceId}:${metadata.version}`, () => ({
+                compatibilityDate: bundle.compatibilityDate,
+                compatibilityFlags: bundle.compatibilityFlags,
+                mainModule: HARNESS_MODULE,
+                modules: {
+                    ...bundle.modules,
+                    [HARNESS_MODULE]: renderHarnessModule(bundle.mainModule),
+                },
+                env: bundle.vars,
+            }));
+            const entrypoint = worker.getEntrypoint(HARNESS_ENTRYPOINT) as unknown as HarnessEntrypoint;
+            const result = await entrypoint.run(request);
+
+            this.recordLogs(result.logs);
+            for (const error of result.errors) {
+                await this.recordError(error.message, error.stack ?? error.message);
+            }
+            return result.response;
+        } catch (error) {
+            // Module evaluation failures (top-level throws, bad exports) surface here
+            const message = error instanceof Error ? error.message : String(error);
+            await this.recordError(message, error instanceof Error ? error.stack ?? message : message);
+            return new Response(`Worker failed to start: ${message}`, { status: 500 });
+        }
+    }
+
+    private recordLogs(logs: HarnessLog[]): void {
+        for (const log of logs) {
+            this.ctx.storage.sql.exec(
+                'INSERT INTO logs (level, message, created_at) VALUES (?, ?, ?)',
+                log.level, log.message, log.timestamp
+            );
+        }
+        this.ctx.storage.sql.exec(
+            'DELETE FROM logs WHERE id <= (SELECT MAX(id) FROM logs) - ?',
+            MAX_LOG_ROWS
+        );
+    }
+
+    private async recordError(message: string, raw: string): Promise<void> {
+        const hash = await sha256Hash(message);
+        this.ctx.storage.sql.exec(
+            `INSERT INTO errors (hash, message, raw, level, occurrences, last_seen) VALUES (?, ?, ?, ?, 1, ?)
+             ON CONFLICT(hash) DO UPDATE SET occurrences = occurrences + 1, last_seen = excluded.last_seen, raw = excluded.raw`,
+            hash, message, raw, ERROR_LEVEL, Date.now()
+        );
+        this.ctx.storage.sql.exec(
+            'DELETE FROM errors WHERE hash NOT IN (SELECT hash FROM errors ORDER BY last_seen DESC LIMIT ?)',
+            MAX_ERROR_ROWS
+        );
+    }
+
+    private initializeSchema(): void {
+        this.ctx.storage.sql.exec(`
+            CREATE TABLE IF NOT EXISTS instance (
+                id INTEGER PRIMARY KEY CHECK (id = 1),
+                instance_id TEXT NOT NULL,
+                project_name TEXT NOT NULL,
+                token TEXT NOT NULL,
+                version INTEGER NOT NULL,
+                created_at INTEGER NOT NULL
+            )
+        `);
+        this.ctx.storage.sql.exec(`
+            CREATE TABLE IF NOT EXISTS files (
+                path TEXT PRIMARY KEY,
+                contents TEXT NOT NULL
+            )
+        `);
+        this.ctx.storage.sql.exec(`
+            CREATE TABLE IF NOT EXISTS logs (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                level TEXT NOT NULL,
+                message TEXT NOT NULL,
+                created_at INTEGER NOT NULL,
+                consumed INTEGER NOT NULL DEFAULT 0
+            )
+        `);
+        this.ctx.storage.sql.exec(`
+            CREATE TABLE IF NOT EXISTS errors (
+                hash TEXT PRIMARY KEY,
+                message TEXT NOT NULL,
+                raw TEXT NOT NULL,
+                level INTEGER NOT NULL,
+                occurrences INTEGER NOT NULL,
+                last_seen INTEGER NOT NULL
+            )
+        `);
+    }
+}
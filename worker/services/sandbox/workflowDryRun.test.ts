@@ -0,0 +1,120 @@
+import type { WorkflowGraphType, WorkflowStepType } from '../../agents/schemas';
+import { WorkflowGraph, type WorkflowDryRunResult, type WorkflowStepLog } from '../../agents/domain/pure/WorkflowGraph';
+import { buildWorkerModules } from './workerModules';
+import { renderWorkflowDryRunModule, runWorkflowDryRun, WORKFLOW_DRY_RUN_ENTRYPOINT, WORKFLOW_DRY_RUN_MODULE } from './workflowDryRun';
+
+function makeStep(partial: Partial<WorkflowStepType> & Pick<WorkflowStepType, 'id'>): WorkflowStepType {
+    return {
+        name: partial.id,
+        type: 'do',
+        description: `Run ${partial.id}`,
+        dependsOn: [],
+        code: 'return { ok: true };',
+        duration: null,
+        eventType: null,
+        retries: null,
+        timeout: null,
+        sampleOutput: null,
+        ...partial,
+    };
+}
+
+const graph: WorkflowGraphType = {
+    name: 'Invoice reminders',
+    className: 'InvoiceReminderWorkflow',
+    description: 'Reminds customers about unpaid invoices',
+    params: [{ name: 'customerId', type: 'string', description: 'Customer to remind', required: true, example: '"cus_123"' }],
+    steps: [
+        makeStep({ id: 'load' }),
+        makeStep({ id: 'approval', type: 'waitForEvent', code: null, duration: '1 day', eventType: 'approved', sampleOutput: '{"ok":true}', dependsOn: ['load'] }),
+        makeStep({ id: 'send', dependsOn: ['approval'] }),
+    ],
+};
+
+function fakeLoader(result: WorkflowDryRunResult, streamed: WorkflowStepLog[] = []) {
+    const calls: Array<{ id: string; mainModule: string; modules: Record<string, string> }> = [];
+    const loader = {
+        get(id: string, getCode: () => { mainModule: string; modules: Record<string, string> }) {
+            const code = getCode();
+            calls.push({ id, mainModule: code.mainModule, modules: code.modules });
+            return {
+                getEntrypoint: (name: string) => {
+                    expect(name).toBe(WORKFLOW_DRY_RUN_ENTRYPOINT);
+                    return {
+                        run: async (_payload: Record<string, unknown>, onLog: (log: WorkflowStepLog) => void) => {
+                            streamed.forEach(onLog);
+                            return result;
+                        },
+                    };
+                },
+            };
+        },
+    };
+    return { loader: loader as unknown as WorkerLoader, calls };
+}
+
+describe('renderWorkflowDryRunModule', () => {
+    it('runs the workflow class of a rendered project', () => {
+        const bundle = buildWorkerModules(WorkflowGraph.renderProject(graph, 'Invoices'));
+        expect(bundle.issues).toEqual([]);
+
+        const harness = renderWorkflowDryRunModule(bundle.mainModule, graph);
+        expect(harness).toContain(`import * as app from "./${bundle.mainModule}";`);
+        expect(harness).toContain('const WORKFLOW_CLASS = "InvoiceReminderWorkflow";');
+        expect(harness).toContain('"approval":{"id":"approval","type":"waitForEvent","eventPayload":"{\\"ok\\":true}"}');
+    });
+});
+
+describe('runWorkflowDryRun', () => {
+    const files = WorkflowGraph.renderProject(graph, 'Invoices');
+
+    it('rejects invalid params before loading the project', async () => {
+        const { loader, calls } = fakeLoader({ status: 'completed', logs: [], outputs: {} });
+
+        const result = await runWorkflowDryRun(loader, { id: 'agent-1', files, graph, params: {} });
+
+        expect(result).toEqual({ status: 'failed', logs: [], outputs: {}, error: 'Missing required param "customerId"' });
+        expect(calls).toEqual([]);
+    });
+
+    it('fails when the step code does not build', async () => {
+        const broken = { ...graph, steps: [makeStep({ id: 'load', code: 'return {' })] };
+        const { loader, calls } = fakeLoader({ status: 'completed', logs: [], outputs: {} });
+
+        const result = await runWorkflowDryRun(loader, {
+            id: 'agent-1',
+            files: WorkflowGraph.renderProject(broken, 'Invoices'),
+            graph: broken,
+            params: { customerId: 'cus_1' },
+        });
+
+        expect(result.status).toBe('failed');
+        expect(result.error).toMatch(/^Workflow failed to build: src\/index\.ts:\d+ /);
+        expect(calls).toEqual([]);
+    });
+
+    it('loads the project with the harness and marks steps after a failure as skipped', async () => {
+        const log = (stepId: string, status: WorkflowStepLog['status']): WorkflowStepLog => ({
+            stepId, stepName: stepId, stepType: 'do', status, message: status, timestamp: 1,
+        });
+        const ran = [log('load', 'running'), log('load', 'failed')];
+        const { loader, calls } = fakeLoader({ status: 'failed', logs: ran, outputs: {}, error: 'Step "load" failed: boom' }, ran);
+        const streamed: string[] = [];
+
+        const result = await runWorkflowDryRun(loader, {
+            id: 'agent-1',
+            files,
+            graph,
+            params: { customerId: 'cus_1' },
+            onLog: (entry) => streamed.push(`${entry.stepId}:${entry.status}`),
+        });
+
+        expect(calls).toHaveLength(1);
+        expect(calls[0].id).toMatch(/^agent-1:workflow-dry-run:[0-9a-f]{64}$/);
+        expect(calls[0].mainModule).toBe(WORKFLOW_DRY_RUN_MODULE);
+        expect(Object.keys(calls[0].modules)).toContain('src/index.js');
+        expect(result.error).toBe('Step "load" failed: boom');
+        expect(streamed).toEqual(['load:running', 'load:failed', 'approval:skipped', 'send:skipped']);
+        expect(result.logs.map((entry) => `${entry.stepId}:${entry.status}`)).toEqual(streamed);
+    });
+});
@@ -0,0 +1,194 @@
+/**
+ * Dry runs for Cloudflare Workflows projects.
+ * The project is loaded into a Dynamic Worker and its WorkflowEntrypoint is run
+ * with a stand-in `step` object: do() callbacks execute for real, sleeps return
+ * immediately and event waits resolve with the step's sample output as payload.
+ */
+
+import type { WorkflowGraphType } from '../../agents/schemas';
+import { WorkflowGraph, type WorkflowDryRunResult, type WorkflowStepLog } from '../../agents/domain/pure/WorkflowGraph';
+import { buildWorkerModules, relativeSpecifier, type WorkerModuleSource } from './workerModules';
+import { sha256Hash } from '../../utils/cryptoUtils';
+
+export const WORKFLOW_DRY_RUN_MODULE = '__vibesdk_workflow_dry_run.js';
+export const WORKFLOW_DRY_RUN_ENTRYPOINT = 'WorkflowDryRunHarness';
+
+const DRY_RUN_TIMEOUT_MS = 60_000;
+
+interface WorkflowDryRunEntrypoint {
+    run(payload: Record<string, unknown>, onLog: (log: WorkflowStepLog) => void): Promise<WorkflowDryRunResult>;
+}
+
+export interface WorkflowDryRunOptions {
+    /** Stable id of the project, the loaded isolate is cached per id and code */
+    id: string;
+    files: WorkerModuleSource[];
+    graph: WorkflowGraphType;
+    params: Record<string, unknown>;
+    onLog?: (log: WorkflowStepLog) => void;
+}
+
+/**
+ * Entrypoint that imports the project's main module and runs its workflow class
+ */
+export function renderWorkflowDryRunModule(mainModule: string, graph: WorkflowGraphType): string {
+    const steps = Object.fromEntries(graph.steps.map((step) => [step.name, {
+        id: step.id,
+        type: step.type,
+        eventPayload: step.type === 'waitForEvent' && step.sampleOutput !== null ? step.sampleOutput : null,
+    }]));
+
+    return `import { WorkerEntrypoint } from 'cloudflare:workers';
+import * as app from ${JSON.stringify(relativeSpecifier(WORKFLOW_DRY_RUN_MODULE, mainModule))};
+
+const STEPS = ${JSON.stringify(steps)};
+const WORKFLOW_CLASS = ${JSON.stringify(graph.className)};
+
+function stepInfo(name) {
+    return STEPS[name] || { id: name, type: 'do', eventPayload: null };
+}
+
+function errorMessage(error) {
+    return error instanceof Error ? error.message : String(error);
+}
+
+export class ${WORKFLOW_DRY_RUN_ENTRYPOINT} extends WorkerEntrypoint {
+    async run(payload, onLog) {
+        const logs = [];
+        const outputs = {};
+        const emit = async (name, status, message, output) => {
+            const info = stepInfo(name);
+            const log = { stepId: info.id, stepName: name, stepType: info.type, status, message, timestamp: Date.now() };
+            if (output !== undefined) log.output = output;
+            logs.push(log);
+            if (onLog) await onLog(log);
+        };
+
+        const step = {
+            async do(name, configOrCallback, maybeCallback) {
+                const callback = typeof configOrCallback === 'function' ? configOrCallback : maybeCallback;
+                await emit(name, 'running', 'Running');
+                let output;
+                try {
+                    const result = await callback();
+                    // Step results are persisted as JSON by the Workflows runtime
+                    output = result === undefined ? null : JSON.parse(JSON.stringify(result));
+                } catch (error) {
+                    await emit(name, 'failed', errorMessage(error));
+                    throw new Error('Step "' + stepInfo(name).id + '" failed: ' + errorMessage(error));
+                }
+                outputs[stepInfo(name).id] = output;
+                await emit(name, 'completed', 'Completed', output);
+                return output;
+            },
+            async sleep(name, duration) {
+                await emit(name, 'sleeping', 'Skipped sleeping for ' + duration);
+                await emit(name, 'completed', 'Resumed');
+            },
+            async sleepUntil(name, timestamp) {
+                await emit(name, 'sleeping', 'Skipped sleeping until ' + new Date(timestamp).toISOString());
+                await emit(name, 'completed', 'Resumed');
+            },
+            async waitForEvent(name, options) {
+                const info = stepInfo(name);
+                await emit(name, 'waiting', 'Skipped waiting up to ' + options.timeout + ' for "' + options.type + '"');
+                const eventPayload = info.eventPayload === null ? null : JSON.parse(info.eventPayload);
+                outputs[info.id] = eventPayload;
+                await emit(name, 'completed', 'Received the sample event', eventPayload);
+                return { type: options.type, payload: eventPayload, timestamp: new Date() };
+            },
+        };
+
+        const Workflow = app[WORKFLOW_CLASS];
+        if (typeof Workflow !== 'function') {
+            return { status: 'failed', logs, outputs, error: 'Main module does not export ' + WORKFLOW_CLASS };
+        }
+        try {
+            await new Workflow(this.ctx, this.env).run({ payload, timestamp: new Date(), instanceId: 'dry-run' }, step);
+            return { status: 'completed', logs, outputs };
+        } catch (error) {
+            return { status: 'failed', logs, outputs, error: errorMessage(error) };
+        }
+    }
+}
+`;
+}
+
+/**
+ * Steps that never ran because an earlier one failed, in execution order
+ */
+export function skippedStepLogs(graph: WorkflowGraphType, logs: WorkflowStepLog[]): WorkflowStepLog[] {
+    const ran = new Set(logs.map((log) => log.stepId));
+    return (WorkflowGraph.topologicalOrder(graph) ?? graph.steps)
+        .filter((step) => !ran.has(step.id))
+        .map((step) => ({
+            stepId: step.id,
+            stepName: step.name,
+            stepType: step.type,
+            status: 'skipped',
+            message: 'Skipped because an earlier step failed',
+            timestamp: Date.now(),
+        }));
+}
+
+/**
+ * Execute a workflow project once with the given params.
+ * Validation and build problems fail the run before any step executes.
+ */
+export async function runWorkflowDryRun(loader: WorkerLoader, options: WorkflowDryRunOptions): Promise<WorkflowDryRunResult> {
+    const { graph, params, onLog } = options;
+
+    const validationErrors = [...WorkflowGraph.validate(graph), ...WorkflowGraph.validateParams(graph, params)];
+    if (validationErrors.length > 0) {
+        return { status: 'failed', logs: [], outputs: {}, error: validationErrors.join('; ') };
+    }
+
+    const bundle = buildWorkerModules(options.files);
+    if (bundle.issues.length > 0) {
+        const details = bundle.issues.map((issue) => `${issue.filePath}:${issue.line} ${issue.message}`).join('; ');
+        return { status: 'failed', logs: [], outputs: {}, error: `Workflow failed to build: ${details}` };
+    }
+
+    const modules = {
+        ...bundle.modules,
+        [WORKFLOW_DRY_RUN_MODULE]: renderWorkflowDryRunModule(bundle.mainModule, graph),
+    };
+    const version = await sha256Hash(JSON.stringify(modules));
+    const worker = loader.get(`${options.id}:workflow-dry-run:${version}`, () => ({
+        compatibilityDate: bundle.compatibilityDate,
+        compatibilityFlags: bundle.compatibilityFlags,
+        mainModule: WORKFLOW_DRY_RUN_MODULE,
+        modules,
+        env: bundle.vars,
+    }));
+    const entrypoint = worker.getEntrypoint(WORKFLOW_DRY_RUN_ENTRYPOINT) as unknown as WorkflowDryRunEntrypoint;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Dry run timed out after ${DRY_RUN_TIMEOUT_MS / 1000} seconds`)), DRY_RUN_TIMEOUT_MS);
+    });
+
+    const streamed: WorkflowStepLog[] = [];
+    let result: WorkflowDryRunResult;
+    try {
+        result = await Promise.race([
+            entrypoint.run(params, (log) => {
+                streamed.push(log);
+                onLog?.(log);
+            }),
+            timeout,
+        ]);
+    } catch (error) {
+        // Module evaluation failures (top-level throws, bad exports) surface here
+        result = { status: 'failed', logs: streamed, outputs: {}, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+        clearTimeout(timer);
+    }
+
+    if (result.status === 'failed') {
+        const skipped = skippedStepLogs(graph, result.logs);
+        skipped.forEach((log) => onLog?.(log));
+        result = { ...result, logs: [...result.logs, ...skipped] };
+    }
+    return result;
+}
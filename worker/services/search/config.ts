@@ -0,0 +1,18 @@
+import type { SearchProviderType, WebSearchSettings } from './types';
+
+export const DEFAULT_WEB_SEARCH_SETTINGS: WebSearchSettings = {
+    enabled: true,
+    provider: 'serpapi',
+    apiKeySecret: 'SERPAPI_KEY',
+    cacheTtlSeconds: 3600,
+    allowUserKeys: true,
+};
+
+/**
+ * Vault secrets users store to search with their own key (see secretsTemplates)
+ */
+export const USER_SEARCH_KEY_SECRETS: Partial<Record<SearchProviderType, string>> = {
+    serpapi: 'SERPAPI_KEY_BYOK',
+    brave: 'BRAVE_SEARCH_API_KEY_BYOK',
+    tavily: 'TAVILY_API_KEY_BYOK',
+};
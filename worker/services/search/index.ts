@@ -0,0 +1,90 @@
+import { CacheService } from '../cache/CacheService';
+import { getEnvSecret } from '../../utils/secretTemplates';
+import { USER_SEARCH_KEY_SECRETS } from './config';
+import { BraveSearchProvider, SearxngSearchProvider, SerpApiSearchProvider, TavilySearchProvider } from './providers';
+import { fetchReadablePage } from './readable';
+import type { ReadablePage, SearchProvider, SearchProviderType, SearchResponse, WebSearchSettings } from './types';
+
+export type { ReadablePage, SearchProvider, SearchProviderType, SearchResponse, SearchResult, WebSearchSettings } from './types';
+export { DEFAULT_WEB_SEARCH_SETTINGS, USER_SEARCH_KEY_SECRETS } from './config';
+export { extractReadableText } from './readable';
+
+const CACHE_ORIGIN = 'https://web-search.cache';
+
+/**
+ * Create a provider from its credential, the SearXNG base URL for searxng
+ */
+export function createSearchProvider(type: SearchProviderType, credential: string): SearchProvider {
+    switch (type) {
+        case 'serpapi':
+            return new SerpApiSearchProvider(credential);
+        case 'brave':
+            return new BraveSearchProvider(credential);
+        case 'tavily':
+            return new TavilySearchProvider(credential);
+        case 'searxng':
+            return new SearxngSearchProvider(credential);
+    }
+}
+
+/**
+ * Pick the search provider for a user: their own vault key when allowed (the
+ * configured provider's first), otherwise the platform's. Null when neither is set up.
+ */
+export async function resolveSearchProvider(
+    env: Env,
+    settings: WebSearchSettings,
+    getUserSecret: (envVarName: string) => Promise<string | null>,
+): Promise<SearchProvider | null> {
+    if (!settings.enabled) {
+        return null;
+    }
+
+    if (settings.allowUserKeys) {
+        const types = Object.keys(USER_SEARCH_KEY_SECRETS) as SearchProviderType[];
+        const ordered = [settings.provider, ...types.filter(type => type !== settings.provider)];
+        for (const type of ordered) {
+            const secretName = USER_SEARCH_KEY_SECRETS[type];
+            const userKey = secretName ? await getUserSecret(secretName) : null;
+            if (userKey) {
+                return createSearchProvider(type, userKey);
+            }
+        }
+    }
+
+    if (settings.provider === 'searxng') {
+        return settings.baseUrl ? createSearchProvider('searxng', settings.baseUrl) : null;
+    }
+    const platformKey = settings.apiKeySecret ? getEnvSecret(env, settings.apiKeySecret) : null;
+    return platformKey ? createSearchProvider(settings.provider, platformKey) : null;
+}
+
+async function withCache<T>(key: string, ttlSeconds: number, load: () => Promise<T>): Promise<T> {
+    const cache = new CacheService();
+    const cached = await cache.get(key).catch(() => undefined);
+    if (cached) {
+        return await cached.json() as T;
+    }
+
+    const value = await load();
+    if (ttlSeconds > 0) {
+        await cache.put(key, Response.json(value), { ttlSeconds }).catch(() => undefined);
+    }
+    return value;
+}
+
+/**
+ * Search with results cached per provider, query and result count
+ */
+export async function searchWeb(provider: SearchProvider, query: string, numResults: number, ttlSeconds: number): Promise<SearchResponse> {
+    const key = `${CACHE_ORIGIN}/search/${provider.name}?q=${encodeURIComponent(query.trim().toLowerCase())}&n=${numResults}`;
+    return withCache(key, ttlSeconds, () => provider.search(query, numResults));
+}
+
+/**
+ * Fetch a page as readable text, cached per URL
+ */
+export async function fetchPage(url: string, maxChars: number, ttlSeconds: number): Promise<ReadablePage> {
+    const key = `${CACHE_ORIGIN}/page?url=${encodeURIComponent(url)}&max=${maxChars}`;
+    return withCache(key, ttlSeconds, () => fetchReadablePage(url, maxChars));
+}
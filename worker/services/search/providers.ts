@@ -0,0 +1,131 @@
+import type { SearchProvider, SearchResponse, SearchResult } from './types';
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+async function fetchJson<T>(provider: string, url: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(url, {
+        ...init,
+        headers: { Accept: 'application/json', ...init.headers },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        throw new Error(`${provider} returned ${response.status}`);
+    }
+    return await response.json() as T;
+}
+
+function toResults(items: Array<{ title?: string; url?: string; snippet?: string }> | undefined, numResults: number): SearchResult[] {
+    return (items ?? [])
+        .filter((item): item is SearchResult => !!item.title && !!item.url)
+        .slice(0, numResults)
+        .map(({ title, url, snippet }) => ({ title, url, snippet: snippet || undefined }));
+}
+
+interface SerpApiResponse {
+    knowledge_graph?: { title?: string; description?: string };
+    answer_box?: { answer?: string; snippet?: string };
+    organic_results?: Array<{ title?: string; link?: string; snippet?: string }>;
+    error?: string;
+}
+
+export class SerpApiSearchProvider implements SearchProvider {
+    readonly name = 'serpapi';
+
+    constructor(private readonly apiKey: string) {}
+
+    async search(query: string, numResults: number): Promise<SearchResponse> {
+        const url = new URL('https://serpapi.com/search');
+        url.searchParams.set('engine', 'google');
+        url.searchParams.set('q', query);
+        url.searchParams.set('api_key', this.apiKey);
+        url.searchParams.set('num', String(numResults));
+
+        const data = await fetchJson<SerpApiResponse>('SerpAPI', url.toString());
+        if (data.error) {
+            throw new Error(`SerpAPI error: ${data.error}`);
+        }
+
+        const knowledge = data.knowledge_graph?.title && data.knowledge_graph.description
+            ? `${data.knowledge_graph.title}: ${data.knowledge_graph.description}`
+            : undefined;
+        return {
+            answer: data.answer_box?.answer || data.answer_box?.snippet || knowledge,
+            results: toResults(data.organic_results?.map(r => ({ title: r.title, url: r.link, snippet: r.snippet })), numResults),
+        };
+    }
+}
+
+interface BraveResponse {
+    web?: { results?: Array<{ title?: string; url?: string; description?: string }> };
+}
+
+export class BraveSearchProvider implements SearchProvider {
+    readonly name = 'brave';
+
+    constructor(private readonly apiKey: string) {}
+
+    async search(query: string, numResults: number): Promise<SearchResponse> {
+        const url = new URL('https://api.search.brave.com/res/v1/web/search');
+        url.searchParams.set('q', query);
+        url.searchParams.set('count', String(numResults));
+
+        const data = await fetchJson<BraveResponse>('Brave Search', url.toString(), {
+            headers: { 'X-Subscription-Token': this.apiKey },
+        });
+        return {
+            results: toResults(data.web?.results?.map(r => ({ title: r.title, url: r.url, snippet: r.description })), numResults),
+        };
+    }
+}
+
+interface TavilyResponse {
+    answer?: string | null;
+    results?: Array<{ title?: string; url?: string; content?: string }>;
+}
+
+export class TavilySearchProvider implements SearchProvider {
+    readonly name = 'tavily';
+
+    constructor(private readonly apiKey: string) {}
+
+    async search(query: string, numResults: number): Promise<SearchResponse> {
+        const data = await fetchJson<TavilyResponse>('Tavily', 'https://api.tavily.com/search', {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ query, max_results: numResults, include_answer: true }),
+        });
+        return {
+            answer: data.answer || undefined,
+            results: toResults(data.results?.map(r => ({ title: r.title, url: r.url, snippet: r.content })), numResults),
+        };
+    }
+}
+
+interface SearxngResponse {
+    answers?: string[];
+    results?: Array<{ title?: string; url?: string; content?: string }>;
+}
+
+/**
+ * Self-hosted SearXNG, the instance must have the json output format enabled
+ */
+export class SearxngSearchProvider implements SearchProvider {
+    readonly name = 'searxng';
+
+    constructor(private readonly baseUrl: string) {}
+
+    async search(query: string, numResults: number): Promise<SearchResponse> {
+        const url = new URL(`${this.baseUrl.replace(/\/+$/, '')}/search`);
+        url.searchParams.set('q', query);
+        url.searchParams.set('format', 'json');
+
+        const data = await fetchJson<SearxngResponse>('SearXNG', url.toString());
+        return {
+            answer: data.answers?.[0],
+            results: toResults(data.results?.map(r => ({ title: r.title, url: r.url, snippet: r.content })), numResults),
+        };
+    }
+}
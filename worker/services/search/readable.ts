@@ -0,0 +1,110 @@
+import type { ReadablePage } from './types';
+
+const FETCH_TIMEOUT_MS = 10000;
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    mdash: '—', ndash: '–', hellip: '…', copy: '©', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+        }
+        return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+function removeElements(html: string, tags: string[]): string {
+    const pattern = new RegExp(`<(${tags.join('|')})\\b[^>]*>[\\s\\S]*?<\\/\\1\\s*>`, 'gi');
+    let previous: string;
+    do {
+        previous = html;
+        html = html.replace(pattern, ' ');
+    } while (html !== previous);
+    return html;
+}
+
+/**
+ * Reduce an HTML page to readable text: page chrome is dropped, the main or
+ * article element is preferred, and block structure is kept as line breaks
+ * with markdown-style headings and list items.
+ */
+export function extractReadableText(html: string): { title?: string; text: string } {
+    const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    const title = titleMatch ? decodeEntities(titleMatch[1]).replace(/\s+/g, ' ').trim() || undefined : undefined;
+
+    let body = html.replace(/<!--[\s\S]*?-->/g, ' ');
+    body = removeElements(body, ['script', 'style', 'noscript', 'template', 'svg', 'head']);
+
+    const main = body.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i) ?? body.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i);
+    if (main) {
+        body = main[1];
+    }
+    body = removeElements(body, ['nav', 'header', 'footer', 'aside', 'form']);
+
+    body = body
+        .replace(/<h([1-6])\b[^>]*>/gi, (_, level: string) => `\n\n${'#'.repeat(Number(level))} `)
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<pre\b[^>]*>/gi, '\n')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|section|h[1-6]|ul|ol|pre|table|tr|blockquote|dd|dt)>/gi, '\n')
+        .replace(/<(td|th)\b[^>]*>/gi, ' | ');
+
+    // Strip the remaining tags, repeated for malformed nesting
+    let previous: string;
+    do {
+        previous = body;
+        body = body.replace(/<[^<>]*>/g, ' ');
+    } while (body !== previous);
+
+    const text = decodeEntities(body)
+        .split('\n')
+        .map(line => line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim())
+        .filter((line, index, lines) => line !== '' || (index > 0 && lines[index - 1] !== ''))
+        .join('\n')
+        .trim();
+
+    return { title, text };
+}
+
+/**
+ * Fetch a web page and return its readable text, cut to maxChars
+ */
+export async function fetchReadablePage(url: string, maxChars: number): Promise<ReadablePage> {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        throw new Error(`Unsupported URL protocol: ${parsed.protocol}`);
+    }
+
+    const response = await fetch(parsed.toString(), {
+        headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; WebBot/1.0)',
+            Accept: 'text/html,text/plain,application/xhtml+xml',
+        },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const body = await response.text();
+    let page: { title?: string; text: string };
+    if (contentType.includes('html') || contentType.includes('xml')) {
+        page = extractReadableText(body);
+    } else if (contentType.startsWith('text/') || contentType.includes('json')) {
+        page = { text: body.trim() };
+    } else {
+        throw new Error(`Unsupported content type: ${contentType || 'unknown'}`);
+    }
+
+    return {
+        url: response.url || parsed.toString(),
+        title: page.title,
+        text: page.text.slice(0, maxChars),
+        truncated: page.text.length > maxChars,
+    };
+}
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_WEB_SEARCH_SETTINGS, extractReadableText, resolveSearchProvider } from './index';
+import { BraveSearchProvider, SerpApiSearchProvider, TavilySearchProvider } from './providers';
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('search providers', () => {
+	it('normalizes SerpAPI results', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({
+			answer_box: { snippet: 'Use the fetch handler' },
+			organic_results: [
+				{ title: 'Workers docs', link: 'https://developers.cloudflare.com/workers/', snippet: 'Build on Workers' },
+				{ title: 'Missing link' },
+			],
+		}));
+
+		const response = await new SerpApiSearchProvider('key').search('workers fetch', 5);
+
+		expect(String(fetchSpy.mock.calls[0][0])).toContain('engine=google');
+		expect(response.answer).toBe('Use the fetch handler');
+		expect(response.results).toEqual([
+			{ title: 'Workers docs', url: 'https://developers.cloudflare.com/workers/', snippet: 'Build on Workers' },
+		]);
+	});
+
+	it('sends the Brave subscription token and caps results', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({
+			web: { results: [
+				{ title: 'A', url: 'https://a.test', description: 'first' },
+				{ title: 'B', url: 'https://b.test', description: 'second' },
+			] },
+		}));
+
+		const response = await new BraveSearchProvider('brave-key').search('query', 1);
+
+		const init = fetchSpy.mock.calls[0][1] as RequestInit;
+		expect((init.headers as Record<string, string>)['X-Subscription-Token']).toBe('brave-key');
+		expect(response.results).toHaveLength(1);
+	});
+
+	it('surfaces provider errors', async () => {
+		vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('nope', { status: 401 }));
+
+		await expect(new TavilySearchProvider('bad').search('query', 3)).rejects.toThrow('Tavily returned 401');
+	});
+});
+
+describe('resolveSearchProvider', () => {
+	const env = { SERPAPI_KEY: 'platform-key' } as unknown as Env;
+
+	it('prefers the user vault key for the configured provider', async () => {
+		const getUserSecret = vi.fn(async (name: string) => (name === 'BRAVE_SEARCH_API_KEY_BYOK' ? 'user-brave' : null));
+
+		const provider = await resolveSearchProvider(env, { ...DEFAULT_WEB_SEARCH_SETTINGS, provider: 'brave' }, getUserSecret);
+
+		expect(provider?.name).toBe('brave');
+		expect(getUserSecret).toHaveBeenCalledTimes(1);
+	});
+
+	it('falls back to the platform key', async () => {
+		const provider = await resolveSearchProvider(env, DEFAULT_WEB_SEARCH_SETTINGS, async () => null);
+
+		expect(provider?.name).toBe('serpapi');
+	});
+
+	it('returns null when disabled or unconfigured', async () => {
+		const noUserKey = async () => null;
+
+		expect(await resolveSearchProvider(env, { ...DEFAULT_WEB_SEARCH_SETTINGS, enabled: false }, noUserKey)).toBeNull();
+		expect(await resolveSearchProvider({} as unknown as Env, DEFAULT_WEB_SEARCH_SETTINGS, noUserKey)).toBeNull();
+		expect(await resolveSearchProvider(env, { ...DEFAULT_WEB_SEARCH_SETTINGS, provider: 'searxng', allowUserKeys: false }, noUserKey)).toBeNull();
+	});
+});
+
+describe('extractReadableText', () => {
+	it('keeps the main content and drops page chrome', () => {
+		const html = `<html><head><title>Routing &amp; Links</title><style>body{}</style></head><body>
+			<nav><a href="/">Home</a></nav>
+			<main><h2>Dynamic routes</h2><p>Use <code>:id</code> segments&nbsp;for params.</p>
+			<ul><li>One</li><li>Two</li></ul><script>track()</script></main>
+			<footer>Copyright</footer></body></html>`;
+
+		const page = extractReadableText(html);
+
+		expect(page.title).toBe('Routing & Links');
+		expect(page.text).toContain('## Dynamic routes');
+		expect(page.text).toContain('- One\n- Two');
+		expect(page.text).not.toMatch(/Home|Copyright|track\(\)/);
+	});
+});
@@ -0,0 +1,46 @@
+/**
+ * Web search types
+ *
+ * The agent's web_search tool searches through a configurable provider and
+ * can fetch result pages as readable text.
+ */
+
+export type SearchProviderType = 'serpapi' | 'brave' | 'tavily' | 'searxng';
+
+export interface WebSearchSettings {
+    /** When false the web_search tool only fetches URLs */
+    enabled: boolean;
+    provider: SearchProviderType;
+    /** Name of the worker secret that holds the platform's API key */
+    apiKeySecret?: string;
+    /** Base URL of the SearXNG instance */
+    baseUrl?: string;
+    /** How long search results and fetched pages are cached */
+    cacheTtlSeconds: number;
+    /** Prefer the user's own key from their vault when it is unlocked */
+    allowUserKeys: boolean;
+}
+
+export interface SearchResult {
+    title: string;
+    url: string;
+    snippet?: string;
+}
+
+export interface SearchResponse {
+    /** Direct answer or knowledge panel text when the provider has one */
+    answer?: string;
+    results: SearchResult[];
+}
+
+export interface SearchProvider {
+    readonly name: SearchProviderType;
+    search(query: string, numResults: number): Promise<SearchResponse>;
+}
+
+export interface ReadablePage {
+    url: string;
+    title?: string;
+    text: string;
+    truncated: boolean;
+}
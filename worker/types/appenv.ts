@@ -1,6 +1,6 @@
 import { GlobalConfigurableSettings } from "../config";
 import { AuthLevelOptions, AuthRequirement } from "../middleware/auth/routeAuth";
-import { AuthUser } from "./auth-types";
+import { ApiKeyScopeGrant, AuthUser } from "./auth-types";
 
 
 export type AppEnv = {
@@ -8,6 +8,7 @@ export type AppEnv = {
     Variables: {
         user: AuthUser | null;
         sessionId: string | null;
+        apiKeyScopes?: ApiKeyScopeGrant[];
         config: GlobalConfigurableSettings;
         authLevel: AuthRequirement;
         authLevelOptions?: AuthLevelOptions;
@@ -2,13 +2,18 @@
  * Authentication Type Definitions
  */
 
-import type { ApiKey, AuthAttempt as SchemaAuthAttempt, AuditLog, OAuthState } from '../database/schema';
+import type { ApiKey, AuthAttempt as SchemaAuthAttempt, AuditLog, OAuthState, User } from '../database/schema';
 
 /**
  * OAuth provider types
  */
 export type OAuthProvider = 'google' | 'github';
 
+/**
+ * Platform roles, admins can manage the instance
+ */
+export type UserRole = User['role'];
+
 /**
  * Authenticated user for middleware and session context
  */
@@ -24,6 +29,7 @@ export interface AuthUser {
     emailVerified?: boolean;
     createdAt?: Date;
     isAnonymous?: boolean;
+    role?: UserRole;
 }
 
 /**
@@ -55,11 +61,20 @@ export interface TokenPayload {
 
 	// Security metadata
 	ipHash?: string; // Hashed IP for security validation
+
+	// Permissions of the API key the token was exchanged for, absent when unrestricted
+	scopes?: ApiKeyScopeGrant[];
+
+	// Git clone tokens: read-only access to a single app's repository
+	access?: 'read';
+	appId?: string;
 }
 
 export interface AuthUserSession {
     user: AuthUser;
     sessionId: string;
+    /** Set for sessions minted from a scoped API key */
+    apiKeyScopes?: ApiKeyScopeGrant[];
 }
 
 /**
@@ -108,6 +123,22 @@ export type OAuthStateData = Omit<OAuthState, 'provider'> & {
 	provider: OAuthProvider;
 };
 
+/**
+ * Permissions that can be granted to a personal API key
+ */
+export const API_KEY_SCOPES = ['apps:read', 'builds:create', 'deploy', 'secrets:manage'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+/**
+ * A scope granted to an API key, optionally limited to specific apps.
+ * Stored as a JSON array in apiKeys.scopes, an empty array means full access.
+ */
+export interface ApiKeyScopeGrant {
+	scope: ApiKeyScope;
+	appIds?: string[];
+}
+
 /**
  * API Key info for client display
  * Subset of ApiKey schema without sensitive data
@@ -179,6 +210,7 @@ export interface PendingWsTicket {
 	token: string;
 	user: AuthUser;
 	sessionId: string;
+	apiKeyScopes?: ApiKeyScopeGrant[];
 	createdAt: number;
 	expiresAt: number;
 }
@@ -189,4 +221,5 @@ export interface PendingWsTicket {
 export interface TicketConsumptionResult {
 	user: AuthUser;
 	sessionId: string;
+	apiKeyScopes?: ApiKeyScopeGrant[];
 }
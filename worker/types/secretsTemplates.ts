@@ -175,6 +175,47 @@ export function getTemplatesData(): SecretTemplate[] {
 			category: 'byok',
 		},
 
+		// BYOK web search - used by the agent's web_search tool while the vault is unlocked
+		{
+			id: 'SERPAPI_KEY_BYOK',
+			displayName: 'SerpAPI (BYOK)',
+			envVarName: 'SERPAPI_KEY_BYOK',
+			provider: 'serpapi',
+			icon: '🔍',
+			description: 'Use your SerpAPI key for agent web search',
+			instructions: 'Go to SerpAPI Dashboard → Your Private API Key',
+			placeholder: 'Your SerpAPI key',
+			validation: '^[a-f0-9]{32,}$',
+			required: false,
+			category: 'byok',
+		},
+		{
+			id: 'BRAVE_SEARCH_API_KEY_BYOK',
+			displayName: 'Brave Search (BYOK)',
+			envVarName: 'BRAVE_SEARCH_API_KEY_BYOK',
+			provider: 'brave',
+			icon: '🦁',
+			description: 'Use your Brave Search API key for agent web search',
+			instructions: 'Go to Brave Search API Dashboard → API Keys → Add API key',
+			placeholder: 'BSA...',
+			validation: '^.{10,}$',
+			required: false,
+			category: 'byok',
+		},
+		{
+			id: 'TAVILY_API_KEY_BYOK',
+			displayName: 'Tavily (BYOK)',
+			envVarName: 'TAVILY_API_KEY_BYOK',
+			provider: 'tavily',
+			icon: '🧭',
+			description: 'Use your Tavily API key for agent web search',
+			instructions: 'Go to Tavily Dashboard → API Keys → Create key',
+			placeholder: 'tvly-...',
+			validation: '^tvly-.{10,}$',
+			required: false,
+			category: 'byok',
+		},
+
 		// Development Tools
 		{
 			id: 'GITHUB_TOKEN',
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { hasApiKeyScope, parseApiKeyScopes } from './apiKeyScopes';
+
+describe('parseApiKeyScopes', () => {
+	it('parses the stored JSON column', () => {
+		const grants = parseApiKeyScopes(
+			JSON.stringify([{ scope: 'apps:read' }, { scope: 'deploy', appIds: ['app-1'] }]),
+		);
+		expect(grants).toEqual([{ scope: 'apps:read' }, { scope: 'deploy', appIds: ['app-1'] }]);
+	});
+
+	it('treats legacy and malformed values as no grants', () => {
+		expect(parseApiKeyScopes('[]')).toEqual([]);
+		expect(parseApiKeyScopes('not json')).toEqual([]);
+		expect(parseApiKeyScopes({ scope: 'deploy' })).toEqual([]);
+	});
+
+	it('drops unknown scopes', () => {
+		expect(parseApiKeyScopes([{ scope: 'admin' }, { scope: 'deploy' }])).toEqual([{ scope: 'deploy' }]);
+	});
+});
+
+describe('hasApiKeyScope', () => {
+	it('matches unrestricted grants for any app', () => {
+		const grants = parseApiKeyScopes([{ scope: 'builds:create' }]);
+		expect(hasApiKeyScope(grants, 'builds:create')).toBe(true);
+		expect(hasApiKeyScope(grants, 'builds:create', 'app-1')).toBe(true);
+		expect(hasApiKeyScope(grants, 'deploy', 'app-1')).toBe(false);
+	});
+
+	it('limits app-scoped grants to the listed apps', () => {
+		const grants = parseApiKeyScopes([{ scope: 'apps:read', appIds: ['app-1'] }]);
+		expect(hasApiKeyScope(grants, 'apps:read', 'app-1')).toBe(true);
+		expect(hasApiKeyScope(grants, 'apps:read', 'app-2')).toBe(false);
+		expect(hasApiKeyScope(grants, 'apps:read')).toBe(false);
+	});
+
+	it('accepts any of several scopes', () => {
+		const grants = parseApiKeyScopes([{ scope: 'deploy' }]);
+		expect(hasApiKeyScope(grants, ['builds:create', 'deploy'], 'app-1')).toBe(true);
+		expect(hasApiKeyScope(grants, undefined)).toBe(false);
+	});
+});
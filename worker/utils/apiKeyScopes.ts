@@ -0,0 +1,78 @@
+/**
+ * API Key Scope Utilities
+ */
+
+import { API_KEY_SCOPES, type ApiKeyScope, type ApiKeyScopeGrant } from '../types/auth-types';
+
+/**
+ * Header carrying a session's API key grants from the worker to the agent
+ * on WebSocket upgrades. Always set or stripped by the worker, never trusted
+ * from the client.
+ */
+export const API_KEY_SCOPES_HEADER = 'X-Api-Key-Scopes';
+
+/**
+ * Scopes that apply to the whole account and can't be limited to apps
+ */
+export const ACCOUNT_LEVEL_API_KEY_SCOPES: readonly ApiKeyScope[] = ['secrets:manage'];
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+    return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse scope grants from the apiKeys.scopes column or a token claim.
+ * Unknown scopes are dropped so a stale key never gains access.
+ */
+export function parseApiKeyScopes(raw: unknown): ApiKeyScopeGrant[] {
+    let value = raw;
+    if (typeof raw === 'string') {
+        try {
+            value = JSON.parse(raw);
+        } catch {
+            return [];
+        }
+    }
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const grants: ApiKeyScopeGrant[] = [];
+    for (const entry of value) {
+        if (!entry || typeof entry !== 'object' || !isApiKeyScope(entry.scope)) {
+            continue;
+        }
+        const grant: ApiKeyScopeGrant = { scope: entry.scope };
+        if (Array.isArray(entry.appIds)) {
+            grant.appIds = entry.appIds.filter((id: unknown): id is string => typeof id === 'string');
+        }
+        grants.push(grant);
+    }
+    return grants;
+}
+
+/**
+ * Check whether the grants allow a scope, optionally for a specific app.
+ * A grant limited to apps only matches requests that target one of them,
+ * so app-limited keys can't list or create apps.
+ */
+export function hasApiKeyScope(
+    grants: ApiKeyScopeGrant[],
+    scope: ApiKeyScope | readonly ApiKeyScope[] | undefined,
+    appId?: string
+): boolean {
+    if (!scope) {
+        return false;
+    }
+    const accepted: readonly ApiKeyScope[] = typeof scope === 'string' ? [scope] : scope;
+
+    return grants.some((grant) => {
+        if (!accepted.includes(grant.scope)) {
+            return false;
+        }
+        if (!grant.appIds) {
+            return true;
+        }
+        return !!appId && grant.appIds.includes(appId);
+    });
+}
@@ -272,6 +272,7 @@ export function mapUserResponse(
 		provider: user.provider || undefined,
 		emailVerified: user.emailVerified || undefined,
 		createdAt: user.createdAt || undefined,
+		role: user.role || undefined,
 	};
 }
 
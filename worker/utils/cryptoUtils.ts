@@ -34,6 +34,19 @@ export function generatePortToken(): string {
     return base64url(array).toLowerCase().replace(/-/g, 'x');
 }
 
+export async function hmacSha256(secret: string, message: string): Promise<Uint8Array> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+    return new Uint8Array(signature);
+}
+
 export async function sha256Hash(text: string): Promise<string> {
     const encoder = new TextEncoder();
     const data = encoder.encode(text);
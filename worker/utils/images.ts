@@ -93,6 +93,7 @@ export function base64ToUint8Array(base64: string): Uint8Array {
 export enum ImageType {
     SCREENSHOTS = 'screenshots',
     UPLOADS = 'uploads',
+    GENERATED = 'generated',
 }
 
 export async function uploadImageToCloudflareImages(env: Env, image: ImageAttachment, type: ImageType, bytes?: Uint8Array): Promise<string> {
@@ -2,6 +2,7 @@ import { jwtVerify, SignJWT } from 'jose';
 import { TokenPayload } from '../types/auth-types';
 import { SecurityError, SecurityErrorType } from 'shared/types/errors';
 import { createLogger } from '../logger';
+import { parseApiKeyScopes } from './apiKeyScopes';
 import { SessionService } from 'worker/database/services/SessionService';
 
 const logger = createLogger('JWTUtils');
@@ -100,7 +101,10 @@ export class JWTUtils {
                 exp: payload.exp as number,
                 iat: payload.iat as number,
                 jti: payload.jti as string | undefined,
-                sessionId: payload.sessionId as string
+                sessionId: payload.sessionId as string,
+                scopes: payload.scopes === undefined ? undefined : parseApiKeyScopes(payload.scopes),
+                access: payload.access === 'read' ? 'read' : undefined,
+                appId: typeof payload.appId === 'string' ? payload.appId : undefined
             };
         } catch (error) {
             return null;
@@ -0,0 +1,38 @@
+/**
+ * Secret placeholder templates used in configured headers and request fields:
+ * {{secret:NAME}} for user vault secrets and {{env:NAME}} for worker secrets
+ */
+
+const SECRET_PLACEHOLDER_PATTERN = /\{\{\s*(secret|env):([A-Za-z0-9_]+)\s*\}\}/g;
+
+export type SecretPlaceholderKind = 'secret' | 'env';
+
+/** Returns the value for a placeholder, or throws when it can't be used */
+export type SecretPlaceholderResolver = (kind: SecretPlaceholderKind, name: string) => Promise<string>;
+
+/**
+ * Replace every placeholder in a template with its resolved value
+ */
+export async function resolveSecretPlaceholders(
+    template: string,
+    resolve: SecretPlaceholderResolver
+): Promise<string> {
+    let value = '';
+    let lastIndex = 0;
+
+    for (const match of template.matchAll(SECRET_PLACEHOLDER_PATTERN)) {
+        const [placeholder, kind, name] = match;
+        value += template.slice(lastIndex, match.index) + await resolve(kind as SecretPlaceholderKind, name);
+        lastIndex = match.index + placeholder.length;
+    }
+
+    return value + template.slice(lastIndex);
+}
+
+/**
+ * Read a string worker secret by name, null when it is not configured
+ */
+export function getEnvSecret(env: Env, name: string): string | null {
+    const value = (env as unknown as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : null;
+}
@@ -49,6 +49,14 @@ export function migratePreviewUrl(storedUrl: string | undefined, env: Env): stri
     }
 }
 
+/**
+ * Absolute URL of a page on the platform itself
+ */
+export function buildPlatformUrl(env: Env, path: string): string {
+    const protocol = getProtocolForHost(env.CUSTOM_DOMAIN);
+    return `${protocol}://${env.CUSTOM_DOMAIN}${path}`;
+}
+
 export function buildGitCloneUrl(env: Env, appId: string, token?: string): string {
     const domain = env.CUSTOM_DOMAIN;
     const protocol = getProtocolForHost(domain);
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { comparePixels, decodePng, diffScreenshots } from './visualDiff';
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+	const out = new Uint8Array(12 + data.length);
+	const view = new DataView(out.buffer);
+	view.setUint32(0, data.length);
+	out.set(new TextEncoder().encode(type), 4);
+	out.set(data, 8);
+	// CRC is not checked by the decoder
+	return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+	const p = a + b - c;
+	const [pa, pb, pc] = [Math.abs(p - a), Math.abs(p - b), Math.abs(p - c)];
+	if (pa <= pb && pa <= pc) return a;
+	return pb <= pc ? b : c;
+}
+
+/**
+ * Encode an 8-bit PNG, one filter type per scanline
+ */
+async function encodePng(width: number, height: number, channels: 3 | 4, pixels: number[], filters: number[]): Promise<Uint8Array> {
+	const stride = width * channels;
+	const raw = new Uint8Array(height * (stride + 1));
+	for (let y = 0; y < height; y++) {
+		const filter = filters[y] ?? 0;
+		raw[y * (stride + 1)] = filter;
+		for (let x = 0; x < stride; x++) {
+			const value = pixels[y * stride + x];
+			const left = x >= channels ? pixels[y * stride + x - channels] : 0;
+			const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+			const upLeft = y > 0 && x >= channels ? pixels[(y - 1) * stride + x - channels] : 0;
+			const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+			raw[y * (stride + 1) + 1 + x] = (value - predictor) & 0xff;
+		}
+	}
+
+	const header = new Uint8Array(13);
+	const headerView = new DataView(header.buffer);
+	headerView.setUint32(0, width);
+	headerView.setUint32(4, height);
+	header[8] = 8;
+	header[9] = channels === 4 ? 6 : 2;
+
+	const parts = [
+		new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+		chunk('IHDR', header),
+		chunk('IDAT', await deflate(raw)),
+		chunk('IEND', new Uint8Array()),
+	];
+	const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		png.set(part, offset);
+		offset += part.length;
+	}
+	return png;
+}
+
+const RGB_PIXELS = [
+	10, 20, 30, 40, 50, 60,
+	70, 80, 90, 200, 210, 220,
+	5, 5, 5, 250, 0, 125,
+];
+
+describe('decodePng', () => {
+	it('decodes filtered RGB scanlines to RGBA', async () => {
+		const png = await encodePng(2, 3, 3, RGB_PIXELS, [1, 2, 4]);
+
+		const image = await decodePng(png);
+
+		expect(image.width).toBe(2);
+		expect(image.height).toBe(3);
+		expect(Array.from(image.data.subarray(0, 8))).toEqual([10, 20, 30, 255, 40, 50, 60, 255]);
+		expect(Array.from(image.data.subarray(16, 24))).toEqual([5, 5, 5, 255, 250, 0, 125, 255]);
+	});
+
+	it('rejects data that is not a PNG', async () => {
+		await expect(decodePng(new TextEncoder().encode('not an image'))).rejects.toThrow('Not a PNG image');
+	});
+});
+
+describe('comparePixels', () => {
+	it('counts pixels that moved past the threshold', async () => {
+		const before = await decodePng(await encodePng(2, 3, 3, RGB_PIXELS, [0, 0, 0]));
+		const changed = [...RGB_PIXELS];
+		changed[0] = 200;   // well past the threshold
+		changed[3] = 45;    // within it
+		const after = await decodePng(await encodePng(2, 3, 3, changed, [3, 0, 1]));
+
+		expect(comparePixels(before, before)).toEqual({ changedPixels: 0, totalPixels: 6, diffRatio: 0 });
+		expect(comparePixels(before, after)).toEqual({ changedPixels: 1, totalPixels: 6, diffRatio: 1 / 6 });
+	});
+
+	it('treats a size change as a full change', async () => {
+		const small = await encodePng(1, 1, 4, [0, 0, 0, 255], [0]);
+		const large = await encodePng(2, 3, 3, RGB_PIXELS, [0, 0, 0]);
+
+		const result = await diffScreenshots(small, large);
+
+		expect(result.diffRatio).toBe(1);
+		expect(result.totalPixels).toBe(6);
+	});
+});
@@ -0,0 +1,168 @@
+// ===============================
+// Pixel comparison of preview screenshots
+// ===============================
+
+export interface DecodedImage {
+    width: number;
+    height: number;
+    data: Uint8Array;   // RGBA, 4 bytes per pixel
+}
+
+export interface PixelDiffResult {
+    changedPixels: number;
+    totalPixels: number;
+    diffRatio: number;  // 0..1, sizes that differ count as fully changed
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Bytes per pixel for the 8-bit color types Browser Rendering produces
+const CHANNELS: Record<number, number> = {
+    0: 1,   // grayscale
+    2: 3,   // RGB
+    4: 2,   // grayscale + alpha
+    6: 4,   // RGBA
+};
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced PNG to RGBA pixels.
+ * Covers what headless Chrome screenshots use, other variants throw.
+ */
+export async function decodePng(bytes: Uint8Array): Promise<DecodedImage> {
+    if (bytes.length < 8 || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) {
+        throw new Error('Not a PNG image');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let width = 0;
+    let height = 0;
+    let colorType = -1;
+    const idatChunks: Uint8Array[] = [];
+
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+
+        if (type === 'IHDR') {
+            width = view.getUint32(offset + 8);
+            height = view.getUint32(offset + 12);
+            const bitDepth = chunk[8];
+            colorType = chunk[9];
+            const interlace = chunk[12];
+            if (bitDepth !== 8 || !(colorType in CHANNELS) || interlace !== 0) {
+                throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`);
+            }
+        } else if (type === 'IDAT') {
+            idatChunks.push(chunk);
+        } else if (type === 'IEND') {
+            break;
+        }
+        offset += 12 + length;
+    }
+
+    if (!width || !height || idatChunks.length === 0) {
+        throw new Error('PNG is missing image data');
+    }
+
+    const compressed = new Uint8Array(idatChunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let position = 0;
+    for (const chunk of idatChunks) {
+        compressed.set(chunk, position);
+        position += chunk.length;
+    }
+    const raw = await inflate(compressed);
+
+    const channels = CHANNELS[colorType];
+    const stride = width * channels;
+    if (raw.length < height * (stride + 1)) {
+        throw new Error('PNG image data is truncated');
+    }
+
+    // Undo the per-scanline filters
+    const pixels = new Uint8Array(height * stride);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const out = y * stride;
+        const prev = out - stride;
+        for (let x = 0; x < stride; x++) {
+            const left = x >= channels ? pixels[out + x - channels] : 0;
+            const up = y > 0 ? pixels[prev + x] : 0;
+            const upLeft = y > 0 && x >= channels ? pixels[prev + x - channels] : 0;
+            let value = line[x];
+            switch (filter) {
+                case 0: break;
+                case 1: value += left; break;
+                case 2: value += up; break;
+                case 3: value += (left + up) >> 1; break;
+                case 4: value += paeth(left, up, upLeft); break;
+                default: throw new Error(`Invalid PNG filter ${filter}`);
+            }
+            pixels[out + x] = value & 0xff;
+        }
+    }
+
+    if (channels === 4) {
+        return { width, height, data: pixels };
+    }
+
+    const data = new Uint8Array(width * height * 4);
+    for (let i = 0, j = 0; i < pixels.length; i += channels, j += 4) {
+        const gray = channels <= 2;
+        data[j] = pixels[i];
+        data[j + 1] = gray ? pixels[i] : pixels[i + 1];
+        data[j + 2] = gray ? pixels[i] : pixels[i + 2];
+        data[j + 3] = channels === 2 ? pixels[i + 1] : 255;
+    }
+    return { width, height, data };
+}
+
+/**
+ * Count pixels whose color moved by more than the threshold (0..1 of the max per-channel difference)
+ */
+export function comparePixels(before: DecodedImage, after: DecodedImage, threshold: number = 0.1): PixelDiffResult {
+    const totalPixels = after.width * after.height;
+    if (before.width !== after.width || before.height !== after.height) {
+        return { changedPixels: totalPixels, totalPixels, diffRatio: 1 };
+    }
+
+    const maxDelta = threshold * 255;
+    let changedPixels = 0;
+    for (let i = 0; i < after.data.length; i += 4) {
+        const delta = Math.max(
+            Math.abs(before.data[i] - after.data[i]),
+            Math.abs(before.data[i + 1] - after.data[i + 1]),
+            Math.abs(before.data[i + 2] - after.data[i + 2]),
+            Math.abs(before.data[i + 3] - after.data[i + 3]),
+        );
+        if (delta > maxDelta) {
+            changedPixels++;
+        }
+    }
+
+    return { changedPixels, totalPixels, diffRatio: totalPixels > 0 ? changedPixels / totalPixels : 0 };
+}
+
+/**
+ * Decode two PNG screenshots and compare them pixel by pixel
+ */
+export async function diffScreenshots(before: Uint8Array, after: Uint8Array, threshold?: number): Promise<PixelDiffResult> {
+    const [beforeImage, afterImage] = await Promise.all([decodePng(before), decodePng(after)]);
+    return comparePixels(beforeImage, afterImage, threshold);
+}
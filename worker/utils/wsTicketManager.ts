@@ -47,6 +47,7 @@ export class WsTicketManager {
 		return {
 			user: ticket.user,
 			sessionId: ticket.sessionId,
+			apiKeyScopes: ticket.apiKeyScopes,
 		};
 	}
 